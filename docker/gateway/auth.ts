@@ -0,0 +1,281 @@
+// ─── Gateway auth ──────────────────────────────────────────
+// Every route except /health, /apps and /api/peer-info needs
+// `Authorization: Bearer jgw_…`. Only the gateway can mint a token: it is
+// `jgw_<scopes>_<id>_<sig>`, where sig is an HMAC over the rest under a
+// secret that never leaves this container (see signingSecret). The scopes
+// (exec, install, read) are therefore exactly the ones it was minted with.
+//
+// Each token also needs a Vault entry `vault-gateway-<id>` under the
+// "Jarvis Gateway" service (src/lib/gatewayAuth.ts): the entry names the
+// token, may give it an expiry, and deleting it revokes the token. Only the
+// entry's metadata is read — anyone with the anon key can write a vault row,
+// but no row makes a token the gateway did not sign.
+//
+// Also here: the dashboard-origin check, per-token rate limits and the audit
+// trail — every exec and install call becomes an audit_log row.
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+export type GatewayScope = 'exec' | 'install' | 'read';
+
+export const GATEWAY_SCOPES: GatewayScope[] = ['exec', 'install', 'read'];
+
+const SUPABASE_URL = process.env.SUPABASE_URL ?? '';
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY ?? '';
+/** Root-only; created on first start unless GATEWAY_TOKEN_SECRET is set */
+const SECRET_FILE = process.env.GATEWAY_SECRET_FILE ?? '/var/lib/jarvis-gateway/token-secret';
+const TOKEN_SERVICE = 'Jarvis Gateway';
+const TOKEN_CACHE_MS = 30_000;
+
+/** GATEWAY_AUTH=off skips token checks — for a gateway that only listens on a trusted host */
+export const AUTH_ENABLED = process.env.GATEWAY_AUTH !== 'off';
+
+export const ALLOWED_ORIGINS = (process.env.GATEWAY_ALLOWED_ORIGINS ?? 'http://localhost:5173,http://127.0.0.1:5173')
+  .split(',').map(o => o.trim().replace(/\/$/, '')).filter(Boolean);
+
+const envInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/** Requests per minute, per token and scope */
+const RATE_LIMITS: Record<GatewayScope, number> = {
+  exec: envInt('GATEWAY_RATE_EXEC', 60),
+  install: envInt('GATEWAY_RATE_INSTALL', 30),
+  read: envInt('GATEWAY_RATE_READ', 240),
+};
+/** Failed authentications per minute, per client address */
+const AUTH_FAILURE_LIMIT = 10;
+
+interface TokenEntry { id: string; name: string; expiresAt: string | null }
+
+interface GatewayToken { id: string; name: string; scopes: GatewayScope[]; expiresAt: string | null }
+
+export interface AuthedRequest extends Request {
+  gatewayToken?: GatewayToken;
+}
+
+class AuthError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// ─── Supabase REST ─────────────────────────────────────────
+
+const restHeaders = () => ({
+  apikey: SUPABASE_ANON_KEY,
+  Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+  'Content-Type': 'application/json',
+});
+
+/** Append an audit_log row; falls back to the container log without Supabase */
+export async function auditGateway(action: string, details: string, severity: 'info' | 'warning' = 'info'): Promise<void> {
+  console.log(`[Gateway] ${action}: ${details}`);
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) return;
+  try {
+    await fetch(`${SUPABASE_URL}/rest/v1/audit_log`, {
+      method: 'POST',
+      headers: { ...restHeaders(), Prefer: 'return=minimal' },
+      body: JSON.stringify({ agent: null, action, details, severity }),
+    });
+  } catch (err: any) {
+    console.warn('[Gateway] Audit write failed:', err.message);
+  }
+}
+
+// ─── Signed tokens ─────────────────────────────────────────
+
+let secret: Buffer | null = null;
+
+/**
+ * The token signing secret: GATEWAY_TOKEN_SECRET, else the secret file —
+ * generated on first start, owned by root and mode 0600 inside a 0700
+ * directory, so handler uids cannot read it.
+ */
+export function signingSecret(): Buffer {
+  if (secret) return secret;
+  if (process.env.GATEWAY_TOKEN_SECRET) return secret = Buffer.from(process.env.GATEWAY_TOKEN_SECRET, 'utf-8');
+  if (!existsSync(SECRET_FILE)) {
+    mkdirSync(dirname(SECRET_FILE), { recursive: true, mode: 0o700 });
+    writeFileSync(SECRET_FILE, randomBytes(32).toString('hex'), { mode: 0o600 });
+    console.log(`[Gateway] Generated a token signing secret at ${SECRET_FILE}`);
+  }
+  chmodSync(dirname(SECRET_FILE), 0o700);
+  chmodSync(SECRET_FILE, 0o600);
+  return secret = Buffer.from(readFileSync(SECRET_FILE, 'utf-8').trim(), 'utf-8');
+}
+
+const sign = (body: string) => createHmac('sha256', signingSecret()).update(body).digest('hex');
+
+/** Mint a token carrying `scopes`. Its Vault entry id is `vault-gateway-<id>`. */
+export function mintToken(scopes: readonly GatewayScope[]): { token: string; entryId: string } {
+  const granted = GATEWAY_SCOPES.filter(s => scopes.includes(s));
+  if (granted.length === 0) throw new Error('A gateway token needs at least one scope');
+  const body = `jgw_${granted.join('.')}_${randomBytes(16).toString('hex')}`;
+  return { token: `${body}_${sign(body)}`, entryId: `vault-gateway-${body.slice(-32)}` };
+}
+
+/** Scopes and Vault entry id of a token this gateway signed — null for anything else */
+export function verifyToken(token: string): { scopes: GatewayScope[]; entryId: string } | null {
+  const match = token.match(/^(jgw_([a-z.]+)_([0-9a-f]{32}))_([0-9a-f]{64})$/);
+  if (!match) return null;
+  const expected = Buffer.from(sign(match[1]), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(match[4], 'hex'))) return null;
+  const scopes = match[2].split('.').filter((s): s is GatewayScope => (GATEWAY_SCOPES as string[]).includes(s));
+  return { scopes, entryId: `vault-gateway-${match[3]}` };
+}
+
+// ─── Vault entries (revocation) ────────────────────────────
+
+let entryCache: { at: number; entries: Map<string, TokenEntry> } | null = null;
+
+async function loadEntries(): Promise<Map<string, TokenEntry>> {
+  if (entryCache && Date.now() - entryCache.at < TOKEN_CACHE_MS) return entryCache.entries;
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) throw new AuthError(503, 'Gateway auth is not configured — set SUPABASE_URL and SUPABASE_ANON_KEY');
+
+  // Metadata only — the gateway never needs a Vault secret
+  const query = `service=ilike.${encodeURIComponent(TOKEN_SERVICE)}&select=id,name,expires_at`;
+  const resp = await fetch(`${SUPABASE_URL}/rest/v1/vault?${query}`, { headers: restHeaders() });
+  if (!resp.ok) throw new AuthError(503, `Could not load gateway tokens (${resp.status})`);
+  const rows = await resp.json() as { id: string; name: string; expires_at: string | null }[];
+  const entries = new Map(rows.map(r => [r.id, { id: r.id, name: r.name, expiresAt: r.expires_at }]));
+  entryCache = { at: Date.now(), entries };
+  return entries;
+}
+
+/** Resolve the bearer token to its Vault entry, or throw 401 / 503 */
+async function authenticate(req: Request): Promise<GatewayToken> {
+  const match = (req.headers.authorization ?? '').match(/^Bearer\s+(\S+)$/i);
+  if (!match) throw new AuthError(401, 'Missing bearer token');
+  const verified = verifyToken(match[1]);
+  if (!verified) throw new AuthError(401, 'Invalid gateway token');
+
+  let entry = (await loadEntries()).get(verified.entryId);
+  // An entry saved since the last load — re-read once before refusing
+  if (!entry && entryCache && Date.now() - entryCache.at > 5_000) {
+    entryCache = null;
+    entry = (await loadEntries()).get(verified.entryId);
+  }
+  if (!entry) throw new AuthError(401, 'Gateway token has no Vault entry — it was revoked, or never saved in the Vault');
+  if (entry.expiresAt && new Date(entry.expiresAt).getTime() < Date.now()) {
+    throw new AuthError(401, `Gateway token "${entry.name}" has expired`);
+  }
+  return { id: entry.id, name: entry.name, scopes: verified.scopes, expiresAt: entry.expiresAt };
+}
+
+// ─── Rate limiting ─────────────────────────────────────────
+// Fixed one-minute windows, in memory — a restart starts every window afresh
+
+const windows = new Map<string, { start: number; count: number }>();
+
+/** Count one call against `key`'s current window and return the count so far */
+function bump(key: string): number {
+  const now = Date.now();
+  const w = windows.get(key);
+  if (!w || now - w.start >= 60_000) {
+    windows.set(key, { start: now, count: 1 });
+    return 1;
+  }
+  return ++w.count;
+}
+
+function countIn(key: string): number {
+  const w = windows.get(key);
+  return w && Date.now() - w.start < 60_000 ? w.count : 0;
+}
+
+setInterval(() => {
+  const cutoff = Date.now() - 60_000;
+  for (const [key, w] of windows) if (w.start < cutoff) windows.delete(key);
+}, 60_000).unref();
+
+// ─── Middleware ────────────────────────────────────────────
+
+function clientAddress(req: Request): string {
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/** CORS for the dashboard only; any other browser origin is refused outright */
+export function originGuard(req: Request, res: Response, next: NextFunction): void {
+  const origin = req.headers.origin?.replace(/\/$/, '');
+  res.header('Vary', 'Origin');
+  if (origin && !ALLOWED_ORIGINS.includes(origin)) {
+    res.status(403).json({ error: `Origin ${origin} is not allowed` });
+    return;
+  }
+  if (origin) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, apikey');
+  }
+  if (req.method === 'OPTIONS') { res.sendStatus(204); return; }
+  next();
+}
+
+/** Browser-facing read-only routes (health, served apps, peer info) skip the origin check */
+export function publicCors(req: Request, res: Response, next: NextFunction): void {
+  res.header('Access-Control-Allow-Origin', '*');
+  if (req.method === 'OPTIONS') { res.sendStatus(204); return; }
+  next();
+}
+
+/**
+ * Require a token carrying `scope`, rate-limit it, and — for exec and install
+ * calls — audit the call once the response is sent.
+ */
+export function requireScope(scope: GatewayScope) {
+  return async (req: AuthedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const from = clientAddress(req);
+    const route = `${req.method} ${req.path}`;
+
+    if (AUTH_ENABLED) {
+      if (countIn(`fail:${from}`) >= AUTH_FAILURE_LIMIT) {
+        res.header('Retry-After', '60');
+        res.status(429).json({ error: 'Too many failed authentications — try again in a minute' });
+        return;
+      }
+
+      try {
+        req.gatewayToken = await authenticate(req);
+      } catch (err) {
+        const status = err instanceof AuthError ? err.status : 500;
+        if (status === 401) {
+          bump(`fail:${from}`);
+          await auditGateway('GATEWAY_AUTH_FAILED', `${route} from ${from} — ${(err as Error).message}`, 'warning');
+        }
+        res.status(status).json({ error: (err as Error).message });
+        return;
+      }
+
+      const token = req.gatewayToken;
+      if (!token.scopes.includes(scope)) {
+        await auditGateway('GATEWAY_AUTH_FAILED', `${route} from ${from} — token "${token.name}" [${token.id}] lacks the ${scope} scope`, 'warning');
+        res.status(403).json({ error: `Token "${token.name}" lacks the ${scope} scope` });
+        return;
+      }
+      if (bump(`${token.id}:${scope}`) > RATE_LIMITS[scope]) {
+        res.header('Retry-After', '60');
+        res.status(429).json({ error: `Rate limit reached: ${RATE_LIMITS[scope]} ${scope} calls per minute` });
+        return;
+      }
+    }
+
+    if (scope !== 'read') {
+      const started = Date.now();
+      res.on('finish', () => {
+        const who = req.gatewayToken ? `token "${req.gatewayToken.name}" [${req.gatewayToken.id}]` : 'unauthenticated (GATEWAY_AUTH=off)';
+        const note = res.locals.auditNote ? ` · ${res.locals.auditNote}` : '';
+        auditGateway(
+          scope === 'exec' ? 'GATEWAY_EXEC' : 'GATEWAY_INSTALL',
+          `${route} → ${res.statusCode} in ${Date.now() - started}ms · ${who} from ${from}${note}`,
+          res.statusCode >= 400 ? 'warning' : 'info',
+        );
+      });
+    }
+    next();
+  };
+}
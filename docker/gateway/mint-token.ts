@@ -0,0 +1,18 @@
+// Mint a gateway token from inside the container, for pairing the first
+// dashboard or for CI:
+//   docker compose exec jarvis-gateway npx tsx mint-token.ts [exec,install,read]
+// The token works once it is saved in the Vault under "Jarvis Gateway".
+
+import { GATEWAY_SCOPES, mintToken, type GatewayScope } from './auth';
+
+const requested = (process.argv[2] ?? GATEWAY_SCOPES.join(',')).split(',').map(s => s.trim());
+const unknown = requested.filter(s => !(GATEWAY_SCOPES as string[]).includes(s));
+if (unknown.length > 0) {
+  console.error(`Unknown scope${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')} (choose from ${GATEWAY_SCOPES.join(', ')})`);
+  process.exit(1);
+}
+
+const { token, entryId } = mintToken(requested as GatewayScope[]);
+console.log(token);
+console.error(`\nScopes: ${requested.join(', ')} · Vault entry: ${entryId}`);
+console.error('Paste it into Vault → ADD KEY → Jarvis Gateway (tick "Use in this dashboard" to pair this browser).');
@@ -0,0 +1,124 @@
+// Sandbox runner — loads one TypeScript/JS handler inside its sandboxed child process.
+// argv: <handler path>. Params arrive as JSON on stdin; the handler's return value
+// goes back as JSON on stdout. console output is moved to stderr so handler logging
+// cannot corrupt the result.
+//
+// Outbound HTTP(S) goes through the gateway's egress proxy (HTTPS_PROXY): fetch via
+// undici's ProxyAgent, the http/https modules via CONNECT-tunnelling global agents.
+// The proxy checks the allow-list, and the gateway's firewall drops anything that
+// skips it. Connections to hosts off JARVIS_ALLOWED_HOSTS are also refused here,
+// before they are opened, so the handler gets a clear error; the guard is frozen
+// before any handler code loads.
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import tls from 'node:tls';
+import { format } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import { ProxyAgent, setGlobalDispatcher } from 'undici';
+import { register } from 'tsx/esm/api';
+
+const allowed = (process.env.JARVIS_ALLOWED_HOSTS ?? '')
+  .split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+const proxy = process.env.HTTPS_PROXY ? new URL(process.env.HTTPS_PROXY) : null;
+const proxyAuth = proxy
+  ? `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64')}`
+  : '';
+
+function hostAllowed(host) {
+  const h = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return allowed.some(a => a === '*' || a === h || (a.startsWith('*.') && h.endsWith(a.slice(1))));
+}
+
+// net.connect() hands connect() its normalized args as an array; direct calls pass them spread
+function connectTarget(args) {
+  const first = Array.isArray(args[0]) ? args[0][0] : args[0];
+  if (first && typeof first === 'object') {
+    return first.path
+      ? { label: `unix:${first.path}`, host: null, port: null }
+      : { label: `${first.host ?? 'localhost'}:${first.port}`, host: first.host ?? 'localhost', port: Number(first.port) };
+  }
+  if (typeof first === 'number' || /^\d+$/.test(String(first))) {
+    const host = typeof args[1] === 'string' ? args[1] : 'localhost';
+    return { label: `${host}:${first}`, host, port: Number(first) };
+  }
+  return { label: `unix:${first}`, host: null, port: null };
+}
+
+const isProxy = (target) => proxy !== null && target.host === proxy.hostname && target.port === Number(proxy.port);
+
+const connect = net.Socket.prototype.connect;
+Object.defineProperty(net.Socket.prototype, 'connect', {
+  value: function guardedConnect(...args) {
+    const target = connectTarget(args);
+    if (target.host && (isProxy(target) || hostAllowed(target.host))) return connect.apply(this, args);
+    process.stderr.write(`[sandbox] blocked connection to ${target.label}\n`);
+    const err = Object.assign(new Error(`Network access to ${target.label} is not allowed for this skill`), { code: 'EACCES' });
+    process.nextTick(() => this.destroy(err));
+    return this;
+  },
+  writable: false,
+  configurable: false,
+});
+
+// Open a CONNECT tunnel to host:port through the egress proxy. The CONNECT itself
+// needs a plain agent — `agent: false` would build another tunnelling one.
+const proxyAgent = new http.Agent();
+
+function tunnel(options, secure, cb) {
+  const host = options.host ?? options.hostname ?? 'localhost';
+  const port = options.port ?? (secure ? 443 : 80);
+  const req = http.request({
+    host: proxy.hostname,
+    port: proxy.port,
+    method: 'CONNECT',
+    path: `${host}:${port}`,
+    headers: { host: `${host}:${port}`, 'proxy-authorization': proxyAuth },
+    agent: proxyAgent,
+  });
+  req.once('connect', (res, socket) => {
+    if (res.statusCode !== 200) {
+      socket.destroy();
+      cb(Object.assign(new Error(`Network access to ${host}:${port} refused by the sandbox proxy (${res.statusCode})`), { code: 'EACCES' }));
+      return;
+    }
+    cb(null, secure ? tls.connect({ ...options, socket, servername: options.servername ?? host }) : socket);
+  });
+  req.once('error', err => cb(err));
+  req.end();
+}
+
+if (proxy) {
+  setGlobalDispatcher(new ProxyAgent({ uri: proxy.origin, token: proxyAuth }));
+  http.globalAgent = new (class extends http.Agent {
+    createConnection(options, cb) { tunnel(options, false, cb); }
+  })({ keepAlive: true });
+  https.globalAgent = new (class extends https.Agent {
+    createConnection(options, cb) { tunnel(options, true, cb); }
+  })({ keepAlive: true });
+}
+
+for (const method of ['log', 'info', 'debug', 'warn', 'error']) {
+  console[method] = (...parts) => { process.stderr.write(`${format(...parts)}\n`); };
+}
+
+try {
+  const chunks = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  const input = Buffer.concat(chunks).toString('utf-8');
+  const params = input ? JSON.parse(input) : {};
+
+  register();
+  const mod = await import(pathToFileURL(process.argv[2]).href);
+  if (typeof mod.default !== 'function') {
+    process.stderr.write('Handler has no default export function\n');
+    process.exit(2);
+  }
+
+  const result = await mod.default(params);
+  // Exit explicitly — a handler may leave timers or sockets open
+  process.stdout.write(JSON.stringify(result ?? null), () => process.exit(0));
+} catch (err) {
+  process.stderr.write(`${err?.stack ?? err}\n`);
+  process.exit(1);
+}
@@ -0,0 +1,118 @@
+"""Sandbox supervisor — runs one skill handler under resource limits and reports its usage.
+
+Usage: sandbox-supervise.py '<limits json>' -- <command> [args...]
+
+The gateway spawns this in the skill's scratch directory with a stripped
+environment. The supervisor itself keeps the gateway's uid; the handler is
+started as the skill's unprivileged uid (`uid` in the limits, when the
+gateway runs as root), so it can neither signal the supervisor nor reach its
+file descriptors through /proc. The supervisor applies the CPU, address-space
+and file-size rlimits to the handler, stops the handler's whole process group
+at the wall-clock timeout or once the group's resident memory passes its cap,
+and writes one JSON usage report to fd 3, which the handler does not inherit.
+"""
+
+import json
+import os
+import resource
+import signal
+import subprocess
+import sys
+import time
+
+# How often the wall clock and the memory watchdog are checked
+POLL_SECONDS = 0.05
+PAGE_SIZE = os.sysconf('SC_PAGE_SIZE')
+
+
+def group_rss(pgid: int) -> int:
+    """Resident bytes of every process in the process group."""
+    total = 0
+    for entry in os.listdir('/proc'):
+        if not entry.isdigit():
+            continue
+        try:
+            with open(f'/proc/{entry}/stat') as f:
+                stat = f.read()
+            # Fields after the command name, which may itself contain spaces or ')'
+            fields = stat[stat.rindex(')') + 2:].split()
+            if int(fields[2]) != pgid:
+                continue
+            with open(f'/proc/{entry}/statm') as f:
+                total += int(f.read().split()[1]) * PAGE_SIZE
+        except (OSError, ValueError, IndexError):
+            continue  # exited meanwhile
+    return total
+
+
+def main() -> None:
+    limits = json.loads(sys.argv[1])
+    command = sys.argv[sys.argv.index('--') + 1:]
+
+    cpu_seconds = int(limits['cpu_seconds'])
+    file_bytes = int(limits['file_bytes'])
+    memory_bytes = limits.get('memory_bytes')
+    rss_bytes = limits.get('rss_bytes')
+    uid = limits.get('uid')
+
+    def apply_limits() -> None:
+        resource.setrlimit(resource.RLIMIT_CPU, (cpu_seconds, cpu_seconds + 1))
+        resource.setrlimit(resource.RLIMIT_FSIZE, (file_bytes, file_bytes))
+        # Node reserves far more address space than it uses — the watchdog caps it instead
+        if memory_bytes:
+            resource.setrlimit(resource.RLIMIT_AS, (int(memory_bytes), int(memory_bytes)))
+
+    started = time.monotonic()
+    proc = subprocess.Popen(
+        command,
+        preexec_fn=apply_limits,
+        start_new_session=True,
+        **({'user': uid, 'group': uid, 'extra_groups': []} if uid is not None else {}),
+    )
+    stopped = {'reason': None}
+
+    def kill_group(reason: str) -> None:
+        stopped['reason'] = stopped['reason'] or reason
+        try:
+            os.killpg(proc.pid, signal.SIGKILL)
+        except ProcessLookupError:
+            pass
+
+    # The gateway sends SIGTERM when the handler floods stdout
+    signal.signal(signal.SIGTERM, lambda *_: kill_group('terminated'))
+
+    deadline = started + int(limits['timeout_ms']) / 1000
+    while True:
+        try:
+            proc.wait(timeout=POLL_SECONDS)
+            break
+        except subprocess.TimeoutExpired:
+            pass
+        if rss_bytes and group_rss(proc.pid) > int(rss_bytes):
+            kill_group('memory')
+        elif time.monotonic() >= deadline:
+            kill_group('timeout')
+        else:
+            continue
+        proc.wait()
+        break
+
+    wall = time.monotonic() - started
+    usage = resource.getrusage(resource.RUSAGE_CHILDREN)
+    code = proc.returncode
+
+    report = {
+        'wall_ms': round(wall * 1000),
+        'cpu_user_ms': round(usage.ru_utime * 1000),
+        'cpu_system_ms': round(usage.ru_stime * 1000),
+        'max_rss_kb': usage.ru_maxrss,
+        'exit_code': code if code >= 0 else None,
+        'signal': signal.Signals(-code).name if code < 0 else None,
+        'stopped': stopped['reason'],
+    }
+    with os.fdopen(3, 'w') as out:
+        json.dump(report, out)
+
+
+if __name__ == '__main__':
+    main()
@@ -1,42 +1,62 @@
 import express from 'express';
 import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
-import { join, resolve, dirname, extname } from 'path';
-import { spawn } from 'child_process';
+import { join, resolve, dirname } from 'path';
+import { networkAllowList, runSandboxed, runtimeFor, SANDBOX_LIMITS } from './sandbox';
+import {
+  ALLOWED_ORIGINS, AUTH_ENABLED, GATEWAY_SCOPES, auditGateway, mintToken, originGuard, publicCors, requireScope, signingSecret,
+  type AuthedRequest, type GatewayScope,
+} from './auth';
 
 const app = express();
 const PORT = parseInt(process.env.GATEWAY_PORT ?? '3001', 10);
+const HOST = process.env.GATEWAY_HOST ?? '0.0.0.0';
 const WORKSPACE = process.env.WORKSPACE_PATH ?? '/workspace';
 
 // Ensure workspace directories exist
-for (const dir of ['apps', 'handlers', 'skills']) {
+for (const dir of ['apps', 'handlers', 'skills', 'scratch']) {
   const path = join(WORKSPACE, dir);
   if (!existsSync(path)) mkdirSync(path, { recursive: true });
 }
 
 app.use(express.json());
 
-// ─── CORS ──────────────────────────────────────────────────
-app.use((_req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, apikey');
-  if (_req.method === 'OPTIONS') { res.sendStatus(204); return; }
-  next();
-});
-
-// ─── Health check ──────────────────────────────────────────
-app.get('/health', (_req, res) => {
+// ─── Public: health check ──────────────────────────────────
+app.get('/health', publicCors, (_req, res) => {
   res.json({ status: 'ok', workspace: WORKSPACE });
 });
 
-// ─── App serving: static files per mission ─────────────────
-app.use('/apps', express.static(join(WORKSPACE, 'apps'), {
+// ─── Public: app serving, static files per mission ─────────
+app.use('/apps', publicCors, express.static(join(WORKSPACE, 'apps'), {
   extensions: ['html', 'htm'],
   index: 'index.html',
 }));
 
+// ─── Peer info (read-only instance status for LAN peers) ───
+app.get('/api/peer-info', publicCors, async (_req, res) => {
+  // Return non-sensitive instance status for peer discovery
+  const skillsDir = join(WORKSPACE, 'skills');
+  let skillCount = 0;
+  try {
+    skillCount = readdirSync(skillsDir).filter(d => {
+      try { return statSync(join(skillsDir, d)).isDirectory(); } catch { return false; }
+    }).length;
+  } catch { /* empty */ }
+
+  res.json({
+    status: 'online',
+    gateway_port: PORT,
+    workspace: WORKSPACE,
+    installed_skills: skillCount,
+    uptime_seconds: Math.floor(process.uptime()),
+    version: process.env.npm_package_version || '0.1.1',
+  });
+});
+
+// ─── Everything below: dashboard origin + bearer token ─────
+app.use(originGuard);
+
 // ─── List apps ─────────────────────────────────────────────
-app.get('/api/apps', (_req, res) => {
+app.get('/api/apps', requireScope('read'), (_req, res) => {
   const appsDir = join(WORKSPACE, 'apps');
   try {
     const entries = readdirSync(appsDir)
@@ -53,7 +73,7 @@ app.get('/api/apps', (_req, res) => {
 });
 
 // ─── Code execution: run handler by name ───────────────────
-app.post('/exec/:handler', async (req, res) => {
+app.post('/exec/:handler', requireScope('exec'), async (req, res) => {
   const handlerName = req.params.handler;
 
   // Security: validate handler name (alphanumeric + hyphens/underscores only)
@@ -72,21 +92,26 @@ app.post('/exec/:handler', async (req, res) => {
   }
 
   try {
-    // Dynamic import of the handler
-    const handler = await import(resolvedPath);
-    if (typeof handler.default !== 'function') {
-      res.status(500).json({ error: 'Handler has no default export function' });
+    // Workspace handlers declare no hosts, so they run without outbound network
+    const run = await runSandboxed(WORKSPACE, {
+      scratchKey: `handler-${handlerName}`,
+      handlerPath: resolvedPath,
+      input: req.body ?? {},
+      allowedHosts: [],
+    });
+    res.locals.auditNote = `cpu ${run.usage.cpu_user_ms + run.usage.cpu_system_ms}ms, rss ${run.usage.max_rss_kb}KB${run.usage.limit_hit ? `, ${run.usage.limit_hit} limit hit` : ''}`;
+    if (!run.ok) {
+      res.status(500).json({ error: run.error, usage: run.usage });
       return;
     }
-    const result = await handler.default(req.body);
-    res.json({ success: true, result });
+    res.json({ success: true, result: run.result, usage: run.usage });
   } catch (err) {
     res.status(500).json({ error: String(err) });
   }
 });
 
 // ─── List handlers ─────────────────────────────────────────
-app.get('/api/handlers', (_req, res) => {
+app.get('/api/handlers', requireScope('read'), (_req, res) => {
   const dir = join(WORKSPACE, 'handlers');
   try {
     const handlers = readdirSync(dir)
@@ -99,7 +124,7 @@ app.get('/api/handlers', (_req, res) => {
 });
 
 // ─── Write handler code to workspace ────────────────────────
-app.put('/api/handlers/:name', (req, res) => {
+app.put('/api/handlers/:name', requireScope('install'), (req, res) => {
   const name = req.params.name;
 
   // Validate handler name (alphanumeric + hyphens only)
@@ -128,13 +153,14 @@ app.put('/api/handlers/:name', (req, res) => {
   const filePath = join(handlersDir, `${name}.ts`);
   writeFileSync(filePath, code, 'utf-8');
 
+  res.locals.auditNote = `handler ${name}, ${code.length} bytes`;
   res.json({ success: true, path: `/workspace/handlers/${name}.ts` });
 });
 
 // ─── Install skill package ────────────────────────────────
 // POST /install-skill
 // Body: { skillId: string, files: { path: string, content: string }[] }
-app.post('/install-skill', (req, res) => {
+app.post('/install-skill', requireScope('install'), (req, res) => {
   const { skillId, files } = req.body;
   if (!skillId || !Array.isArray(files) || !files.length) {
     res.status(400).json({ error: 'skillId and files[] required' });
@@ -166,17 +192,23 @@ app.post('/install-skill', (req, res) => {
     written.push(file.path);
   }
 
-  console.log(`[Gateway] Installed skill "${skillId}" (${written.length} files)`);
+  res.locals.auditNote = `skill ${skillId}, ${written.length} files`;
   res.json({ ok: true, skillId, path: skillDir, files: written });
 });
 
 // ─── Execute skill command ────────────────────────────────
 // POST /exec-skill/:id/:cmd
 // Body: { params: Record<string, any>, apiKey?: string }
-app.post('/exec-skill/:id/:cmd', async (req, res) => {
+app.post('/exec-skill/:id/:cmd', requireScope('exec'), async (req, res) => {
   const { id, cmd } = req.params;
   const { params = {}, apiKey } = req.body;
 
+  // The id also names the skill's scratch directory
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+    res.status(400).json({ error: 'Invalid skill ID format (use kebab-case)' });
+    return;
+  }
+
   const skillDir = join(WORKSPACE, 'skills', id);
   const skillJsonPath = join(skillDir, 'skill.json');
 
@@ -199,27 +231,33 @@ app.post('/exec-skill/:id/:cmd', async (req, res) => {
       return;
     }
 
-    const ext = extname(handlerPath);
-    let result: any;
-
-    if (ext === '.ts' || ext === '.js') {
-      // TypeScript/JS: dynamic import
-      const mod = await import(handlerPath);
-      if (typeof mod.default !== 'function') {
-        res.status(500).json({ error: 'Handler has no default export function' });
-        return;
-      }
-      result = await mod.default({ ...params, _apiKey: apiKey });
-    } else if (ext === '.py') {
-      result = await execPython(handlerPath, { ...params, _apiKey: apiKey });
-    } else if (ext === '.sh') {
-      result = await execBash(handlerPath, params, apiKey);
-    } else {
-      res.status(400).json({ error: `Unsupported handler extension: ${ext}` });
+    if (!runtimeFor(handlerPath)) {
+      res.status(400).json({ error: `Unsupported handler file: ${command.handler_file}` });
       return;
     }
 
-    res.json({ ok: true, result });
+    // Bash handlers read params from PARAM_* variables; the others get JSON on stdin
+    const isBash = handlerPath.endsWith('.sh');
+    const env: Record<string, string> = {};
+    if (isBash) {
+      for (const [k, v] of Object.entries(params)) env[`PARAM_${k.toUpperCase()}`] = String(v);
+      if (apiKey) env.API_KEY = apiKey;
+    }
+
+    const run = await runSandboxed(WORKSPACE, {
+      scratchKey: id,
+      handlerPath,
+      input: isBash ? {} : { ...params, _apiKey: apiKey },
+      env,
+      allowedHosts: networkAllowList(skillJson),
+    });
+    const { usage } = run;
+    res.locals.auditNote = `cpu ${usage.cpu_user_ms + usage.cpu_system_ms}ms, rss ${usage.max_rss_kb}KB${usage.limit_hit ? `, ${usage.limit_hit} limit hit` : ''}`;
+    if (!run.ok) {
+      res.status(500).json({ error: run.error, usage });
+      return;
+    }
+    res.json({ ok: true, result: run.result, usage });
   } catch (err: any) {
     console.error(`[Gateway] exec-skill error (${id}/${cmd}):`, err.message);
     res.status(500).json({ error: err.message });
@@ -227,7 +265,7 @@ app.post('/exec-skill/:id/:cmd', async (req, res) => {
 });
 
 // ─── List installed skills ────────────────────────────────
-app.get('/list-skills', (_req, res) => {
+app.get('/list-skills', requireScope('read'), (_req, res) => {
   const skillsDir = join(WORKSPACE, 'skills');
   try {
     const dirs = readdirSync(skillsDir);
@@ -253,49 +291,10 @@ app.get('/list-skills', (_req, res) => {
   }
 });
 
-// ─── Python handler execution ─────────────────────────────
-function execPython(scriptPath: string, params: Record<string, any>): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn('python3', [scriptPath], { timeout: 30_000 });
-    let stdout = '';
-    let stderr = '';
-    proc.stdin.write(JSON.stringify(params));
-    proc.stdin.end();
-    proc.stdout.on('data', (d: Buffer) => { stdout += d; });
-    proc.stderr.on('data', (d: Buffer) => { stderr += d; });
-    proc.on('close', (code: number | null) => {
-      if (code !== 0) return reject(new Error(stderr || `Python exit code ${code}`));
-      try { resolve(JSON.parse(stdout)); } catch { resolve({ result: stdout.trim() }); }
-    });
-    proc.on('error', reject);
-  });
-}
-
-// ─── Bash handler execution ──────────────────────────────
-function execBash(scriptPath: string, params: Record<string, any>, apiKey?: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const env: Record<string, string> = { ...process.env as Record<string, string> };
-    for (const [k, v] of Object.entries(params)) {
-      env[`PARAM_${k.toUpperCase()}`] = String(v);
-    }
-    if (apiKey) env.API_KEY = apiKey;
-    const proc = spawn('bash', [scriptPath], { env, timeout: 30_000 });
-    let stdout = '';
-    let stderr = '';
-    proc.stdout.on('data', (d: Buffer) => { stdout += d; });
-    proc.stderr.on('data', (d: Buffer) => { stderr += d; });
-    proc.on('close', (code: number | null) => {
-      if (code !== 0) return reject(new Error(stderr || `Bash exit code ${code}`));
-      try { resolve(JSON.parse(stdout)); } catch { resolve({ result: stdout.trim() }); }
-    });
-    proc.on('error', reject);
-  });
-}
-
 // ─── OAuth token exchange proxy ────────────────────────────
 // Accepts { grant_type, code, client_id, client_secret, redirect_uri, token_url, ... }
 // Strips `token_url` from body, POSTs remaining fields as x-www-form-urlencoded to the token endpoint.
-app.post('/api/oauth/token', async (req, res) => {
+app.post('/api/oauth/token', requireScope('exec'), async (req, res) => {
   try {
     const body = { ...req.body };
     const tokenUrl = body.token_url || 'https://oauth2.googleapis.com/token';
@@ -313,32 +312,35 @@ app.post('/api/oauth/token', async (req, res) => {
   }
 });
 
-// ─── Peer info (read-only instance status for LAN peers) ───
-app.get('/api/peer-info', async (_req, res) => {
-  // Return non-sensitive instance status for peer discovery
-  const skillsDir = join(WORKSPACE, 'skills');
-  let skillCount = 0;
-  try {
-    skillCount = readdirSync(skillsDir).filter(d => {
-      try { return statSync(join(skillsDir, d)).isDirectory(); } catch { return false; }
-    }).length;
-  } catch { /* empty */ }
-
-  res.json({
-    status: 'online',
-    gateway_port: PORT,
-    workspace: WORKSPACE,
-    installed_skills: skillCount,
-    uptime_seconds: Math.floor(process.uptime()),
-    version: process.env.npm_package_version || '0.1.1',
-  });
+// ─── Token minting ─────────────────────────────────────────
+// Body: { scopes: ['exec', 'read', …] }. A token never gets a scope its minter
+// lacks; it only works once its Vault entry (`entryId`) is saved.
+app.post('/api/tokens', requireScope('install'), async (req: AuthedRequest, res) => {
+  const requested: unknown[] = Array.isArray(req.body?.scopes) ? req.body.scopes : [];
+  const held = req.gatewayToken?.scopes ?? GATEWAY_SCOPES;
+  const scopes = GATEWAY_SCOPES.filter((s: GatewayScope) => requested.includes(s) && held.includes(s));
+  if (scopes.length === 0) {
+    res.status(400).json({ error: `Choose at least one scope you hold (${held.join(', ')})` });
+    return;
+  }
+  const minted = mintToken(scopes);
+  const by = req.gatewayToken ? `token "${req.gatewayToken.name}" [${req.gatewayToken.id}]` : 'unauthenticated (GATEWAY_AUTH=off)';
+  await auditGateway('GATEWAY_TOKEN_MINTED', `${minted.entryId} (${scopes.join(', ')}) minted by ${by}`);
+  res.json({ ...minted, scopes });
 });
 
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`[Gateway] Listening on :${PORT}`);
+// Create the signing secret now, before any handler runs
+if (AUTH_ENABLED) signingSecret();
+
+app.listen(PORT, HOST, () => {
+  console.log(`[Gateway] Listening on ${HOST}:${PORT}`);
   console.log(`[Gateway] Workspace: ${WORKSPACE}`);
   console.log(`[Gateway] Apps:       http://0.0.0.0:${PORT}/apps/`);
   console.log(`[Gateway] Exec:       POST http://0.0.0.0:${PORT}/exec/{handler}`);
   console.log(`[Gateway] Skills:     POST http://0.0.0.0:${PORT}/exec-skill/{id}/{cmd}`);
   console.log(`[Gateway] Install:    POST http://0.0.0.0:${PORT}/install-skill`);
+  console.log(`[Gateway] Sandbox:    ${SANDBOX_LIMITS.timeoutMs}ms · ${SANDBOX_LIMITS.memoryMb}MB · ${SANDBOX_LIMITS.cpuSeconds}s CPU per handler`);
+  console.log(`[Gateway] Origins:    ${ALLOWED_ORIGINS.join(', ')}`);
+  if (AUTH_ENABLED) console.log('[Gateway] Tokens:     docker compose exec jarvis-gateway npx tsx mint-token.ts — then paste it into the Vault');
+  if (!AUTH_ENABLED) console.warn('[Gateway] GATEWAY_AUTH=off — exec and install routes accept unauthenticated calls');
 });
@@ -15,55 +15,96 @@ const PROVIDER_ENDPOINTS: Record<string, string> = {
   xAI: "https://api.x.ai/v1/chat/completions",
 };
 
-// Model display name → service mapping (duplicated from browser code for standalone use)
-const MODEL_SERVICE_MAP: Record<string, string> = {
-  "Claude Opus 4.6": "Anthropic",
-  "Claude Opus 4.5": "Anthropic",
-  "Claude Sonnet 4.5": "Anthropic",
-  "Claude Haiku 4.5": "Anthropic",
-  "GPT-5.2": "OpenAI",
-  "o3-pro": "OpenAI",
-  "o4-mini": "OpenAI",
-  "Gemini 3 Pro": "Google",
-  "Gemini 2.5 Flash": "Google",
-  "DeepSeek R1": "DeepSeek",
-  "Llama 3.3": "Meta",
-  "Grok 4": "xAI",
-};
+// ── Model Registry ──────────────────────────────────────────────
+// Loaded from public.model_registry — the same table the browser and
+// sidecar hydrate from (src/lib/llm/registry.ts), so prices never drift.
+
+interface RegistryModel {
+  service: string;
+  apiId: string;
+  inputCost: number;
+  outputCost: number;
+}
 
-const MODEL_API_IDS: Record<string, string> = {
-  "Claude Opus 4.6": "claude-opus-4-6",
-  "Claude Opus 4.5": "claude-opus-4-5-20251101",
-  "Claude Sonnet 4.5": "claude-sonnet-4-5-20250929",
-  "Claude Haiku 4.5": "claude-haiku-4-5-20251001",
-  "GPT-5.2": "gpt-5.2",
-  "o3-pro": "o3-pro",
-  "o4-mini": "o4-mini",
-  "Gemini 3 Pro": "gemini-3.0-pro",
-  "Gemini 2.5 Flash": "gemini-2.5-flash",
-  "DeepSeek R1": "deepseek-reasoner",
-  "Llama 3.3": "llama-3.3-70b",
-  "Grok 4": "grok-4",
-};
+async function loadModel(supabase: ReturnType<typeof createClient>, model: string): Promise<RegistryModel | null> {
+  const { data } = await supabase
+    .from("model_registry")
+    .select("service, api_id, input_cost, output_cost")
+    .eq("id", model)
+    .maybeSingle();
+  if (!data) return null;
+  return {
+    service: data.service,
+    apiId: data.api_id,
+    inputCost: Number(data.input_cost) || 0,
+    outputCost: Number(data.output_cost) || 0,
+  };
+}
 
-const MODEL_COSTS: Record<string, [number, number]> = {
-  "Claude Opus 4.6": [5, 25],
-  "Claude Opus 4.5": [5, 25],
-  "Claude Sonnet 4.5": [3, 15],
-  "Claude Haiku 4.5": [0.8, 4],
-  "GPT-5.2": [10, 30],
-  "o3-pro": [20, 80],
-  "o4-mini": [1.1, 4.4],
-  "Gemini 3 Pro": [1.25, 5],
-  "Gemini 2.5 Flash": [0.15, 0.6],
-  "DeepSeek R1": [0.55, 2.19],
-  "Llama 3.3": [0.6, 0.6],
-  "Grok 4": [3, 15],
-};
+function estimateCost(entry: RegistryModel | null, inputTokens: number, outputTokens: number): number {
+  if (!entry) return 0;
+  return (inputTokens / 1_000_000) * entry.inputCost + (outputTokens / 1_000_000) * entry.outputCost;
+}
 
-function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
-  const rates = MODEL_COSTS[model] ?? [0, 0];
-  return (inputTokens / 1_000_000) * rates[0] + (outputTokens / 1_000_000) * rates[1];
+// ── Vault ───────────────────────────────────────────────────────
+// Encrypted rows are sealed with the Vault data key (src/lib/vaultCrypto.ts);
+// the function gets that key from the JARVIS_VAULT_KEY secret — the
+// `vaultKey` value of the .jarvis-vault-key file exported from the Vault page.
+// `v2` values are bound to their row (id and lower-cased service as AES-GCM
+// additional data); with the key set, plaintext rows are refused.
+// Each entry's scope (src/lib/vaultScopes.ts) is enforced here too, and every
+// read is written to audit_log as SECRET_READ / SECRET_DENIED.
+
+interface VaultAccess {
+  context: "skill_execution" | "skill_credential";
+  skillId: string;
+  agentId: string | null;
+}
+
+function b64ToBytes(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function loadVaultKey(supabase: ReturnType<typeof createClient>, service: string, access: VaultAccess): Promise<string | null> {
+  const { data } = await supabase
+    .from("vault")
+    .select("id, name, service, key_value, encrypted, scope")
+    .eq("service", service)
+    .limit(1)
+    .maybeSingle();
+  if (!data?.key_value) return null;
+
+  const scope = data.scope as { skills?: string[]; agents?: string[]; contexts?: string[] } | null;
+  const who = [access.context, `skill ${access.skillId}`, access.agentId ? `agent ${access.agentId}` : null].filter(Boolean).join(" · ");
+  const denial = scope?.contexts?.length && !scope.contexts.includes(access.context) ? `context ${access.context} is not allowed`
+    : scope?.skills?.length && !scope.skills.includes(access.skillId) ? `skill ${access.skillId} is not allowed`
+    : access.agentId && scope?.agents?.length && !scope.agents.includes(access.agentId) ? `agent ${access.agentId} is not allowed`
+    : null;
+  await supabase.from("audit_log").insert({
+    agent: access.agentId,
+    action: denial ? "SECRET_DENIED" : "SECRET_READ",
+    details: denial ? `"${data.name}" [${data.id}] refused for ${who} — ${denial}` : `"${data.name}" [${data.id}] read for ${who}`,
+    severity: denial ? "warning" : "info",
+  });
+  if (denial) return null;
+
+  const rawKey = Deno.env.get("JARVIS_VAULT_KEY");
+  if (!data.encrypted) {
+    // The encrypted flag is client-writable — an encrypted Vault has no plaintext rows
+    if (rawKey) throw new Error(`The ${service} key is stored in plaintext in an encrypted Vault — save it again`);
+    return data.key_value;
+  }
+  if (!rawKey) throw new Error(`The ${service} key is encrypted — set the JARVIS_VAULT_KEY function secret`);
+  const [version, iv, ciphertext] = String(data.key_value).split(":");
+  const key = await crypto.subtle.importKey("raw", b64ToBytes(rawKey), { name: "AES-GCM" }, false, ["decrypt"]);
+  const params: AesGcmParams = { name: "AES-GCM", iv: b64ToBytes(iv) };
+  if (version === "v1") {
+    const { data: record } = await supabase.from("settings").select("value").eq("key", "vault_key").maybeSingle();
+    if (String(record?.value ?? "").includes('"bound":true')) throw new Error(`The ${service} key is sealed without its row binding — save it again`);
+  }
+  if (version === "v2") params.additionalData = new TextEncoder().encode(`vault:${data.id}:${String(data.service).trim().toLowerCase()}`);
+  const plaintext = await crypto.subtle.decrypt(params, key, b64ToBytes(ciphertext));
+  return new TextDecoder().decode(plaintext);
 }
 
 // ── LLM Provider Calls ──────────────────────────────────────────
@@ -106,7 +147,7 @@ async function callOpenAICompatible(endpoint: string, apiKey: string, modelId: s
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
     },
     body: JSON.stringify({
       model: modelId,
@@ -164,6 +205,13 @@ async function callLLM(service: string, apiKey: string, modelId: string, systemP
       return callOpenAICompatible("https://api.x.ai/v1/chat/completions", apiKey, modelId, systemPrompt, userPrompt);
     case "Google":
       return callGoogle(apiKey, modelId, systemPrompt, userPrompt);
+    case "Local": {
+      // Vault holds "<base URL> [api key]". Inside Docker, localhost is this container —
+      // founders pointing at a host server should use host.docker.internal.
+      const [rawUrl = "", localKey = ""] = apiKey.trim().split(/\s+/, 2);
+      const baseUrl = rawUrl.replace(/\/+$/, "").replace(/\/v1$/, "");
+      return callOpenAICompatible(`${baseUrl}/v1/chat/completions`, localKey, modelId, systemPrompt, userPrompt);
+    }
     default:
       throw new Error(`Unsupported service: ${service}`);
   }
@@ -487,6 +535,7 @@ async function executeApiKeySkill(
   model: string,
   definition: Record<string, unknown>,
   params: Record<string, unknown>,
+  agentId: string | null,
 ): Promise<ApiKeyResult> {
   // Determine which vault service to query for the API key
   const apiConfig = definition.api_config as Record<string, string> | undefined;
@@ -494,13 +543,8 @@ async function executeApiKeySkill(
   const vaultService = apiConfig?.vault_service ?? fixedService ?? "OpenAI";
 
   // Look up the API key from the vault
-  const { data: vaultEntry } = await supabase
-    .from("vault")
-    .select("key_value")
-    .eq("service", vaultService)
-    .limit(1)
-    .single();
-  if (!vaultEntry?.key_value) {
+  const apiKey = await loadVaultKey(supabase, vaultService, { context: "skill_credential", skillId, agentId });
+  if (!apiKey) {
     throw new Error(`No API key found for service "${vaultService}" in vault`);
   }
 
@@ -512,12 +556,12 @@ async function executeApiKeySkill(
     // Fallback: check if there is a handler for just the skill with any command
     const fallbackKey = Object.keys(API_KEY_HANDLERS).find((k) => k.startsWith(`${skillId}/`));
     if (fallbackKey) {
-      return API_KEY_HANDLERS[fallbackKey](vaultEntry.key_value, model, definition, params, supabase);
+      return API_KEY_HANDLERS[fallbackKey](apiKey, model, definition, params, supabase);
     }
     throw new Error(`No handler for api_key skill "${skillId}" command "${commandName}". Supported: ${Object.keys(API_KEY_HANDLERS).join(", ")}`);
   }
 
-  return handler(vaultEntry.key_value, model, definition, params, supabase);
+  return handler(apiKey, model, definition, params, supabase);
 }
 
 // ── Main Handler ─────────────────────────────────────────────────
@@ -580,6 +624,7 @@ export default async function handler(req: Request): Promise<Response> {
     let provider: string;
     let model: string;
     let conversation: Array<Record<string, string>> | null;
+    let trace: Record<string, unknown> | null = null;
 
     if (connectionType === "cli") {
       // Check if this CLI skill has an HTTP-compatible handler
@@ -611,7 +656,7 @@ export default async function handler(req: Request): Promise<Response> {
     } else if (connectionType === "api_key") {
       // ── API Key flow: direct API call (image generation, etc.) ──
       model = task.model || skill.model || definition.default_model || "DALL-E 3";
-      const apiResult = await executeApiKeySkill(supabase, skill.id, task.command_name, model, definition, params);
+      const apiResult = await executeApiKeySkill(supabase, skill.id, task.command_name, model, definition, params, task.agent_id ?? null);
 
       resultText = apiResult.text;
       resultPayload = apiResult.result;
@@ -625,17 +670,13 @@ export default async function handler(req: Request): Promise<Response> {
     } else {
       // ── LLM flow: build prompt and call LLM provider (existing behavior) ──
       model = task.model || skill.model || "Claude Sonnet 4.5";
-      const service = MODEL_SERVICE_MAP[model] ?? "Anthropic";
-      const apiModelId = MODEL_API_IDS[model] ?? model;
+      const registryModel = await loadModel(supabase, model);
+      const service = registryModel?.service ?? "Anthropic";
+      const apiModelId = registryModel?.apiId ?? model;
 
       // Get API key from vault
-      const { data: vaultEntry } = await supabase
-        .from("vault")
-        .select("key_value")
-        .eq("service", service)
-        .limit(1)
-        .single();
-      if (!vaultEntry?.key_value) throw new Error(`No API key for ${service}`);
+      const apiKey = await loadVaultKey(supabase, service, { context: "skill_execution", skillId: skill.id, agentId: task.agent_id ?? null });
+      if (!apiKey) throw new Error(`No API key for ${service}`);
 
       // Build prompt from skill command
       let systemPrompt = `You are an AI agent executing the "${skill.id}" skill.\n`;
@@ -653,11 +694,11 @@ export default async function handler(req: Request): Promise<Response> {
       if (!userPrompt) userPrompt = task.command_name ?? "Execute";
 
       // Call LLM (non-streaming)
-      const llmResult = await callLLM(service, vaultEntry.key_value, apiModelId, systemPrompt, userPrompt);
+      const llmResult = await callLLM(service, apiKey, apiModelId, systemPrompt, userPrompt);
 
       resultText = llmResult.text;
       resultPayload = { output: llmResult.text, summary: llmResult.text.slice(0, 200) };
-      cost = estimateCost(model, llmResult.inputTokens, llmResult.outputTokens);
+      cost = estimateCost(registryModel, llmResult.inputTokens, llmResult.outputTokens);
       provider = service;
       tokensUsed = llmResult.inputTokens + llmResult.outputTokens;
       inputTokens = llmResult.inputTokens;
@@ -667,6 +708,15 @@ export default async function handler(req: Request): Promise<Response> {
         { role: "user", content: userPrompt },
         { role: "assistant", content: llmResult.text },
       ];
+      // What a replay needs to reproduce this call (see src/lib/missionReplay.ts)
+      trace = {
+        model,
+        service,
+        prompt_version: `${skill.id}@${skill.version ?? "unversioned"}`,
+        prompt_source: command?.prompt_template ? "command" : "fallback",
+        params,
+        captured_at: new Date().toISOString(),
+      };
     }
 
     // ── Common post-execution steps ─────────────────────────────
@@ -681,6 +731,7 @@ export default async function handler(req: Request): Promise<Response> {
     };
     if (conversation) {
       updatePayload.conversation = conversation;
+      updatePayload.trace = trace;
     }
     await supabase
       .from("task_executions")
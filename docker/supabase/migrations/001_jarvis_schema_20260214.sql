@@ -4,12 +4,14 @@
 -- Consolidates ALL migrations (001-011) into a single file.
 -- Date: 2026-02-22
 --
--- Tables (25):
+-- Tables (31):
 --   settings, agents, ceo, missions, audit_log, vault, approvals, skills,
 --   conversations, chat_messages, org_memory, conversation_summaries,
 --   mission_memory, agent_skills, scheduler_state, ceo_action_queue,
 --   task_executions, agent_stats, llm_usage, notification_channels, channel_usage,
---   archived_memories, skill_schedules, mission_rounds, agent_questions, test_runs
+--   archived_memories, skill_schedules, mission_rounds, agent_questions, test_runs,
+--   model_registry, webhook_deliveries, mission_templates,
+--   mission_template_versions, task_side_effects
 
 -- ─── Extensions ──────────────────────────────────────────────────────
 CREATE EXTENSION IF NOT EXISTS vector;      -- pgvector for semantic search
@@ -71,13 +73,25 @@ CREATE TABLE IF NOT EXISTS public.missions (
   created_by       TEXT DEFAULT NULL,
   created_at       TIMESTAMPTZ DEFAULT now(),
   recurring_mode   TEXT DEFAULT NULL,         -- 'auto' or 'evaluate'
+  recurring_timezone TEXT DEFAULT NULL,       -- IANA zone for the cron (NULL = runtime zone)
+  recurring_catch_up TEXT DEFAULT NULL CHECK (recurring_catch_up IN ('skip', 'once', 'all')),
   last_recurred_at TIMESTAMPTZ DEFAULT NULL,
   scheduled_for    TIMESTAMPTZ DEFAULT NULL,
   task_template    JSONB DEFAULT NULL,
   current_round    INTEGER NOT NULL DEFAULT 1,
   description      TEXT DEFAULT NULL,
   max_runs         INTEGER DEFAULT NULL,
-  run_count        INTEGER NOT NULL DEFAULT 0
+  run_count        INTEGER NOT NULL DEFAULT 0,
+  template_id      TEXT DEFAULT NULL,            -- mission_templates.id this was instantiated from / spawns from
+  template_version INTEGER DEFAULT NULL,         -- pinned revision (NULL = latest)
+  template_params  JSONB DEFAULT NULL,           -- placeholder values used for the template
+  parent_id        TEXT DEFAULT NULL REFERENCES public.missions(id) ON DELETE SET NULL,  -- epic this is a sub-mission of
+  budget_cap       REAL DEFAULT NULL,            -- spend cap in USD over this mission + sub-missions (NULL = none)
+  cost_estimate    REAL DEFAULT NULL,            -- pre-flight estimate of the last dispatch plan (USD)
+  deadline         TIMESTAMPTZ DEFAULT NULL,     -- due_date parsed in due_timezone
+  due_timezone     TEXT DEFAULT NULL,            -- IANA zone due_date was written in
+  sla_stage        INTEGER NOT NULL DEFAULT 0,   -- deadline escalation reached (0 none, 1 priority, 2 reassigned, 3 Founder)
+  delivered_at     TIMESTAMPTZ DEFAULT NULL      -- last reached review/done (stamped by trigger)
 );
 
 -- Audit log (append-only)
@@ -96,7 +110,12 @@ CREATE TABLE IF NOT EXISTS public.vault (
   name       TEXT NOT NULL,
   type       TEXT NOT NULL DEFAULT 'api_key',
   service    TEXT NOT NULL,
-  key_value  TEXT NOT NULL,
+  key_value  TEXT NOT NULL,                   -- v1:<iv>:<ciphertext> when encrypted (see 027_vault_encryption)
+  encrypted  BOOLEAN NOT NULL DEFAULT false,
+  scope      JSONB DEFAULT NULL,              -- {skills, agents, contexts}; NULL = any (see 028_vault_scopes)
+  expires_at TIMESTAMPTZ DEFAULT NULL,         -- key (or OAuth access token) expiry (see 029_vault_rotation)
+  rotation_days INTEGER DEFAULT NULL,          -- rotate every N days; NULL = no policy
+  rotated_at TIMESTAMPTZ DEFAULT NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
@@ -155,6 +174,7 @@ CREATE TABLE IF NOT EXISTS public.org_memory (
   tags        TEXT[] DEFAULT '{}',
   importance  INTEGER NOT NULL DEFAULT 5,
   embedding   VECTOR(1536) DEFAULT NULL,
+  embedding_model TEXT DEFAULT NULL,   -- backend that produced `embedding` (e.g. openai:text-embedding-3-small)
   created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
   expires_at  TIMESTAMPTZ DEFAULT NULL
@@ -216,8 +236,8 @@ CREATE TABLE IF NOT EXISTS public.task_executions (
   mission_id      TEXT REFERENCES public.missions(id) ON DELETE SET NULL,
   agent_id        TEXT DEFAULT NULL,
   skill_id        TEXT DEFAULT NULL,
-  status          TEXT NOT NULL DEFAULT 'pending',
-  conversation    JSONB NOT NULL DEFAULT '[]',
+  status          TEXT NOT NULL DEFAULT 'pending',  -- blocked → queued → pending → running → completed | failed
+  conversation    JSONB NOT NULL DEFAULT '[]',      -- LLM runs: exact messages sent + raw reply
   result          JSONB DEFAULT NULL,
   tokens_used     INTEGER NOT NULL DEFAULT 0,
   cost_usd        REAL NOT NULL DEFAULT 0,
@@ -225,6 +245,18 @@ CREATE TABLE IF NOT EXISTS public.task_executions (
   params          JSONB DEFAULT '{}',
   model           TEXT DEFAULT NULL,
   context         JSONB DEFAULT '{}',
+  task_key        TEXT DEFAULT NULL,                -- plan-local id for depends_on / {{key.output}}
+  depends_on      TEXT[] NOT NULL DEFAULT '{}',     -- upstream task_executions ids ('blocked' until all complete)
+  released_at     TIMESTAMPTZ DEFAULT NULL,
+  checkpoint      BOOLEAN NOT NULL DEFAULT false,   -- dependents wait for the Founder to review this task's output
+  checkpoint_status TEXT DEFAULT NULL,              -- pending | approved | rejected (task_checkpoint approval)
+  admitted_at     TIMESTAMPTZ DEFAULT NULL,         -- left the work queue (concurrency caps in settings.task_queue_limits)
+  attempts        INTEGER NOT NULL DEFAULT 0,       -- executions started (lease recoveries re-queue up to 3)
+  lease_owner     TEXT DEFAULT NULL,                -- executor process holding the run; heartbeat extends lease_expires_at
+  lease_expires_at TIMESTAMPTZ DEFAULT NULL,
+  idempotency_key TEXT DEFAULT NULL,                -- task_side_effects key; kept across retries, reset by re-runs
+  trace           JSONB DEFAULT NULL,               -- LLM runs: served model, prompt version, params as executed
+  resource_usage  JSONB DEFAULT NULL,               -- gateway handler runs: sandbox CPU / memory / wall time, limit hit, blocked hosts
   started_at      TIMESTAMPTZ DEFAULT NULL,
   completed_at    TIMESTAMPTZ DEFAULT NULL,
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
@@ -257,16 +289,17 @@ CREATE TABLE IF NOT EXISTS public.llm_usage (
   output_tokens   INTEGER NOT NULL DEFAULT 0,
   total_tokens    INTEGER GENERATED ALWAYS AS (input_tokens + output_tokens) STORED,
   estimated_cost  REAL NOT NULL DEFAULT 0,
-  context         TEXT NOT NULL CHECK (context IN ('ceo_chat', 'skill_execution', 'memory_extraction', 'conversation_summary')),
+  context         TEXT NOT NULL CHECK (context IN ('ceo_chat', 'agent_chat', 'skill_execution', 'memory_extraction', 'conversation_summary', 'mission_planning', 'ceo_direct')),
   mission_id      TEXT,
   agent_id        TEXT,
+  skill_id        TEXT,                        -- skill the call ran for (per-skill budget allocations)
   conversation_id TEXT
 );
 
 -- Notification Channels
 CREATE TABLE IF NOT EXISTS public.notification_channels (
   id            TEXT PRIMARY KEY,
-  type          TEXT NOT NULL CHECK (type IN ('email', 'telegram', 'sms', 'voice')),
+  type          TEXT NOT NULL CHECK (type IN ('email', 'telegram', 'sms', 'voice', 'webhook', 'slack', 'discord')),
   enabled       BOOLEAN NOT NULL DEFAULT false,
   config        JSONB NOT NULL DEFAULT '{}',
   cost_per_unit REAL NOT NULL DEFAULT 0,
@@ -305,6 +338,9 @@ CREATE TABLE IF NOT EXISTS public.mission_rounds (
   cost_usd        REAL NOT NULL DEFAULT 0,
   duration_ms     INTEGER DEFAULT NULL,
   task_count      INTEGER NOT NULL DEFAULT 0,
+  tasks           JSONB NOT NULL DEFAULT '[]',      -- snapshot of the round's task executions (replay / diff)
+  replay_of       TEXT DEFAULT NULL,                -- replay rounds: the round whose prompts were re-sent
+  replay_config   JSONB DEFAULT NULL,               -- replay rounds: { model, prompt: recorded | current }
   started_at      TIMESTAMPTZ DEFAULT now(),
   completed_at    TIMESTAMPTZ DEFAULT NULL,
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
@@ -342,6 +378,72 @@ CREATE TABLE IF NOT EXISTS public.test_runs (
   completed_at TIMESTAMPTZ
 );
 
+-- Model Registry (display name → service, API ID, USD per 1M tokens)
+CREATE TABLE IF NOT EXISTS public.model_registry (
+  id           TEXT PRIMARY KEY,
+  service      TEXT NOT NULL,
+  api_id       TEXT NOT NULL,
+  input_cost   REAL NOT NULL DEFAULT 0,
+  output_cost  REAL NOT NULL DEFAULT 0,
+  selectable   BOOLEAN NOT NULL DEFAULT true,
+  sort_order   INTEGER NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Webhook Deliveries (signed outbound events, retried with backoff by the sidecar)
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id              TEXT PRIMARY KEY,
+  channel_id      TEXT NOT NULL REFERENCES public.notification_channels(id) ON DELETE CASCADE,
+  event           TEXT NOT NULL,
+  payload         JSONB NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'pending'
+                    CHECK (status IN ('pending', 'delivering', 'delivered', 'failed')),
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  response_status INTEGER DEFAULT NULL,
+  last_error      TEXT DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at    TIMESTAMPTZ DEFAULT NULL
+);
+
+-- Mission Templates (named, versioned plans instantiated with typed placeholders)
+CREATE TABLE IF NOT EXISTS public.mission_templates (
+  id              TEXT PRIMARY KEY,
+  name            TEXT NOT NULL UNIQUE,
+  description     TEXT DEFAULT NULL,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_by      TEXT DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Mission Template Versions (immutable revisions — one row per save)
+CREATE TABLE IF NOT EXISTS public.mission_template_versions (
+  id            TEXT PRIMARY KEY,
+  template_id   TEXT NOT NULL REFERENCES public.mission_templates(id) ON DELETE CASCADE,
+  version       INTEGER NOT NULL,
+  title         TEXT NOT NULL,
+  placeholders  JSONB NOT NULL DEFAULT '[]',
+  plan          JSONB NOT NULL DEFAULT '[]',
+  source_mission_id TEXT DEFAULT NULL,
+  created_by    TEXT DEFAULT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+-- Task Side Effects (idempotency ledger — a retried post/email is never sent twice)
+CREATE TABLE IF NOT EXISTS public.task_side_effects (
+  idempotency_key TEXT PRIMARY KEY,
+  task_id         TEXT NOT NULL,
+  skill_id        TEXT NOT NULL,
+  command_name    TEXT NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'started',  -- started | succeeded | failed
+  result          JSONB DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at    TIMESTAMPTZ DEFAULT NULL
+);
+
 -- ═════════════════════════════════════════════════════════════════════
 -- INDEXES
 -- ═════════════════════════════════════════════════════════════════════
@@ -351,21 +453,68 @@ CREATE INDEX IF NOT EXISTS idx_org_memory_category     ON public.org_memory(cate
 CREATE INDEX IF NOT EXISTS idx_org_memory_importance   ON public.org_memory(importance DESC);
 CREATE INDEX IF NOT EXISTS idx_org_memory_tags         ON public.org_memory USING GIN(tags);
 CREATE INDEX IF NOT EXISTS idx_org_memory_updated      ON public.org_memory(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_org_memory_embedding    ON public.org_memory USING hnsw (embedding vector_cosine_ops);
 CREATE INDEX IF NOT EXISTS idx_convo_summaries_convo   ON public.conversation_summaries(conversation_id);
 CREATE INDEX IF NOT EXISTS idx_mission_memory_mission  ON public.mission_memory(mission_id);
 CREATE INDEX IF NOT EXISTS idx_agent_skills_agent      ON public.agent_skills(agent_id);
 CREATE INDEX IF NOT EXISTS idx_agent_skills_skill      ON public.agent_skills(skill_id);
 CREATE INDEX IF NOT EXISTS idx_ceo_actions_status      ON public.ceo_action_queue(status, priority DESC);
+CREATE INDEX IF NOT EXISTS idx_missions_parent        ON public.missions(parent_id) WHERE parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_missions_deadline      ON public.missions(deadline) WHERE deadline IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_task_exec_mission       ON public.task_executions(mission_id);
 CREATE INDEX IF NOT EXISTS idx_task_exec_agent         ON public.task_executions(agent_id);
 CREATE INDEX IF NOT EXISTS idx_task_exec_status        ON public.task_executions(status);
+CREATE INDEX IF NOT EXISTS idx_task_exec_lease         ON public.task_executions(lease_expires_at) WHERE status = 'running';
 CREATE INDEX IF NOT EXISTS idx_llm_usage_created       ON public.llm_usage(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_llm_usage_context       ON public.llm_usage(context);
 CREATE INDEX IF NOT EXISTS idx_llm_usage_mission       ON public.llm_usage(mission_id) WHERE mission_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_llm_usage_skill         ON public.llm_usage(skill_id) WHERE skill_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_channel_usage_created   ON public.channel_usage(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_channel_usage_channel   ON public.channel_usage(channel_id);
 CREATE INDEX IF NOT EXISTS idx_test_runs_test_id       ON public.test_runs(test_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_test_runs_category      ON public.test_runs(category);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due     ON public.webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON public.webhook_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_template_versions_template ON public.mission_template_versions(template_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_task_side_effects_task  ON public.task_side_effects(task_id);
+
+-- ═════════════════════════════════════════════════════════════════════
+-- FUNCTIONS
+-- ═════════════════════════════════════════════════════════════════════
+
+-- Semantic memory search: nearest memories embedded in the same vector space
+CREATE OR REPLACE FUNCTION public.match_org_memory(
+  query_embedding VECTOR(1536),
+  match_model     TEXT,
+  match_count     INTEGER DEFAULT 20
+) RETURNS TABLE (id TEXT, similarity REAL)
+LANGUAGE sql STABLE AS $$
+  SELECT m.id, (1 - (m.embedding <=> query_embedding))::REAL AS similarity
+  FROM public.org_memory m
+  WHERE m.embedding IS NOT NULL AND m.embedding_model = match_model
+  ORDER BY m.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_org_memory(VECTOR, TEXT, INTEGER) TO anon, authenticated;
+
+-- Mission delivery time (SLA hit rates): stamped on the way into review/done, cleared when reopened
+CREATE OR REPLACE FUNCTION public.stamp_mission_delivered() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.status IN ('review', 'done') THEN
+    NEW.delivered_at := COALESCE(NEW.delivered_at, now());
+  ELSIF NEW.status <> 'archived' THEN
+    NEW.delivered_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS missions_stamp_delivered ON public.missions;
+CREATE TRIGGER missions_stamp_delivered
+  BEFORE INSERT OR UPDATE OF status ON public.missions
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_mission_delivered();
 
 -- ═════════════════════════════════════════════════════════════════════
 -- ROW LEVEL SECURITY
@@ -396,6 +545,11 @@ ALTER TABLE public.channel_usage          ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.mission_rounds         ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.agent_questions        ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.test_runs              ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.model_registry         ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries     ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mission_templates      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mission_template_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_side_effects      ENABLE ROW LEVEL SECURITY;
 
 -- Single-tenant: both anon and authenticated get full access
 DO $$
@@ -409,7 +563,9 @@ BEGIN
     'agent_skills', 'scheduler_state', 'ceo_action_queue',
     'task_executions', 'agent_stats', 'llm_usage',
     'notification_channels', 'channel_usage',
-    'mission_rounds', 'agent_questions', 'test_runs'
+    'mission_rounds', 'agent_questions', 'test_runs', 'model_registry',
+    'webhook_deliveries', 'mission_templates', 'mission_template_versions',
+    'task_side_effects'
   ])
   LOOP
     EXECUTE format('
@@ -443,6 +599,30 @@ ALTER PUBLICATION supabase_realtime ADD TABLE public.task_executions;
 ALTER PUBLICATION supabase_realtime ADD TABLE public.mission_rounds;
 ALTER PUBLICATION supabase_realtime ADD TABLE public.agent_questions;
 ALTER PUBLICATION supabase_realtime ADD TABLE public.test_runs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.model_registry;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.webhook_deliveries;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.mission_templates;
+
+-- ═════════════════════════════════════════════════════════════════════
+-- SEED DATA
+-- ═════════════════════════════════════════════════════════════════════
+
+-- Built-in models (editable from Settings → Model Registry)
+INSERT INTO public.model_registry (id, service, api_id, input_cost, output_cost, selectable, sort_order) VALUES
+  ('Claude Opus 4.6', 'Anthropic', 'claude-opus-4-6', 5, 25, true, 0),
+  ('Claude Sonnet 4.6', 'Anthropic', 'claude-sonnet-4-6', 3, 15, true, 10),
+  ('Claude Haiku 4.5', 'Anthropic', 'claude-haiku-4-5-20251001', 0.8, 4, true, 20),
+  ('o4-mini', 'OpenAI', 'o4-mini', 1.1, 4.4, true, 30),
+  ('GPT-5.2', 'OpenAI', 'gpt-5.2', 10, 30, true, 40),
+  ('o3-pro', 'OpenAI', 'o3-pro', 20, 80, true, 50),
+  ('Claude Opus 4.5', 'Anthropic', 'claude-opus-4-5-20251101', 5, 25, false, 60),
+  ('Claude Sonnet 4.5', 'Anthropic', 'claude-sonnet-4-5-20250929', 3, 15, false, 70),
+  ('Gemini 3 Pro', 'Google', 'gemini-3.0-pro', 1.25, 5, false, 80),
+  ('Gemini 2.5 Flash', 'Google', 'gemini-2.5-flash', 0.15, 0.6, false, 90),
+  ('DeepSeek R1', 'DeepSeek', 'deepseek-reasoner', 0.55, 2.19, false, 100),
+  ('Llama 3.3', 'Meta', 'llama-3.3-70b', 0.6, 0.6, false, 110),
+  ('Grok 4', 'xAI', 'grok-4', 3, 15, false, 120)
+ON CONFLICT (id) DO NOTHING;
 
 -- ═════════════════════════════════════════════════════════════════════
 -- STORAGE BUCKETS
@@ -525,6 +705,9 @@ CREATE TABLE IF NOT EXISTS skill_schedules (
   frequency    TEXT NOT NULL CHECK (frequency IN ('hourly', 'every_4h', 'daily', 'weekly', 'monthly')),
   run_at_time  TEXT NOT NULL DEFAULT '03:00',
   run_on_day   INTEGER DEFAULT NULL,
+  cron         TEXT DEFAULT NULL,            -- overrides frequency when set
+  timezone     TEXT DEFAULT NULL,            -- IANA zone (NULL = runtime zone)
+  catch_up     TEXT DEFAULT NULL CHECK (catch_up IN ('skip', 'once', 'all')),
   params       JSONB DEFAULT '{}',
   enabled      BOOLEAN NOT NULL DEFAULT true,
   last_run_at  TIMESTAMPTZ DEFAULT NULL,
@@ -0,0 +1,40 @@
+-- 012_model_registry.sql
+-- Unified model registry — display name → service, API model ID and price
+-- (USD per 1M tokens). Shared by the browser, the sidecar and the
+-- execute-skill edge function so prices never drift between them.
+
+CREATE TABLE IF NOT EXISTS public.model_registry (
+  id           TEXT PRIMARY KEY,
+  service      TEXT NOT NULL,
+  api_id       TEXT NOT NULL,
+  input_cost   REAL NOT NULL DEFAULT 0,
+  output_cost  REAL NOT NULL DEFAULT 0,
+  selectable   BOOLEAN NOT NULL DEFAULT true,
+  sort_order   INTEGER NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- RLS
+ALTER TABLE public.model_registry ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for anon" ON public.model_registry FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.model_registry;
+
+-- Seed built-in models
+INSERT INTO public.model_registry (id, service, api_id, input_cost, output_cost, selectable, sort_order) VALUES
+  ('Claude Opus 4.6', 'Anthropic', 'claude-opus-4-6', 5, 25, true, 0),
+  ('Claude Sonnet 4.6', 'Anthropic', 'claude-sonnet-4-6', 3, 15, true, 10),
+  ('Claude Haiku 4.5', 'Anthropic', 'claude-haiku-4-5-20251001', 0.8, 4, true, 20),
+  ('o4-mini', 'OpenAI', 'o4-mini', 1.1, 4.4, true, 30),
+  ('GPT-5.2', 'OpenAI', 'gpt-5.2', 10, 30, true, 40),
+  ('o3-pro', 'OpenAI', 'o3-pro', 20, 80, true, 50),
+  ('Claude Opus 4.5', 'Anthropic', 'claude-opus-4-5-20251101', 5, 25, false, 60),
+  ('Claude Sonnet 4.5', 'Anthropic', 'claude-sonnet-4-5-20250929', 3, 15, false, 70),
+  ('Gemini 3 Pro', 'Google', 'gemini-3.0-pro', 1.25, 5, false, 80),
+  ('Gemini 2.5 Flash', 'Google', 'gemini-2.5-flash', 0.15, 0.6, false, 90),
+  ('DeepSeek R1', 'DeepSeek', 'deepseek-reasoner', 0.55, 2.19, false, 100),
+  ('Llama 3.3', 'Meta', 'llama-3.3-70b', 0.6, 0.6, false, 110),
+  ('Grok 4', 'xAI', 'grok-4', 3, 15, false, 120)
+ON CONFLICT (id) DO NOTHING;
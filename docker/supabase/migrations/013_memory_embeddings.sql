@@ -0,0 +1,25 @@
+-- 013_memory_embeddings.sql
+-- Semantic memory: records which embedding backend produced each vector,
+-- adds an HNSW cosine index, and exposes nearest-neighbour search as an RPC
+-- used by hybrid memory ranking (vector + keyword + importance).
+
+ALTER TABLE public.org_memory ADD COLUMN IF NOT EXISTS embedding_model TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_org_memory_embedding ON public.org_memory
+  USING hnsw (embedding vector_cosine_ops);
+
+-- Nearest memories embedded in the same vector space as the query
+CREATE OR REPLACE FUNCTION public.match_org_memory(
+  query_embedding VECTOR(1536),
+  match_model     TEXT,
+  match_count     INTEGER DEFAULT 20
+) RETURNS TABLE (id TEXT, similarity REAL)
+LANGUAGE sql STABLE AS $$
+  SELECT m.id, (1 - (m.embedding <=> query_embedding))::REAL AS similarity
+  FROM public.org_memory m
+  WHERE m.embedding IS NOT NULL AND m.embedding_model = match_model
+  ORDER BY m.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_org_memory(VECTOR, TEXT, INTEGER) TO anon, authenticated;
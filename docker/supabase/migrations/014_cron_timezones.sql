@@ -0,0 +1,12 @@
+-- 014_cron_timezones.sql
+-- Per-schedule IANA timezone and missed-run catch-up for recurring missions
+-- and skill schedules. skill_schedules.cron overrides the frequency preset.
+
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS recurring_timezone TEXT DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS recurring_catch_up TEXT DEFAULT NULL
+  CHECK (recurring_catch_up IN ('skip', 'once', 'all'));
+
+ALTER TABLE public.skill_schedules ADD COLUMN IF NOT EXISTS cron TEXT DEFAULT NULL;
+ALTER TABLE public.skill_schedules ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT NULL;
+ALTER TABLE public.skill_schedules ADD COLUMN IF NOT EXISTS catch_up TEXT DEFAULT NULL
+  CHECK (catch_up IN ('skip', 'once', 'all'));
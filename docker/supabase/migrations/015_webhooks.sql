@@ -0,0 +1,33 @@
+-- 015_webhooks.sql
+-- Outbound webhook channel: notification_channels.type 'webhook' holds
+-- { url, secret, events[] } in config; every event fanned out to a channel
+-- becomes a webhook_deliveries row the sidecar signs, sends and retries.
+
+ALTER TABLE public.notification_channels DROP CONSTRAINT IF EXISTS notification_channels_type_check;
+ALTER TABLE public.notification_channels ADD CONSTRAINT notification_channels_type_check
+  CHECK (type IN ('email', 'telegram', 'sms', 'voice', 'webhook'));
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id              TEXT PRIMARY KEY,
+  channel_id      TEXT NOT NULL REFERENCES public.notification_channels(id) ON DELETE CASCADE,
+  event           TEXT NOT NULL,
+  payload         JSONB NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'pending'
+                    CHECK (status IN ('pending', 'delivering', 'delivered', 'failed')),
+  attempts        INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  response_status INTEGER DEFAULT NULL,
+  last_error      TEXT DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at    TIMESTAMPTZ DEFAULT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due     ON public.webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created ON public.webhook_deliveries(created_at DESC);
+
+-- RLS
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for anon" ON public.webhook_deliveries FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.webhook_deliveries;
@@ -0,0 +1,10 @@
+-- 016_chat_channels.sql
+-- Slack and Discord notification channels. Config lives in
+-- notification_channels.config ({ webhook_url, signing_secret, topics[] } for
+-- Slack, { bot_token, channel_id, public_key, topics[] } for Discord); their
+-- messages ride the webhook_deliveries queue, and message refs for approval
+-- requests are kept in approvals.metadata.channel_refs.
+
+ALTER TABLE public.notification_channels DROP CONSTRAINT IF EXISTS notification_channels_type_check;
+ALTER TABLE public.notification_channels ADD CONSTRAINT notification_channels_type_check
+  CHECK (type IN ('email', 'telegram', 'sms', 'voice', 'webhook', 'slack', 'discord'));
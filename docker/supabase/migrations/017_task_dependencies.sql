@@ -0,0 +1,9 @@
+-- 017_task_dependencies.sql
+-- Task graphs inside a mission plan: a task_executions row can wait on other
+-- rows of the same mission. Such rows sit in status 'blocked' until every
+-- upstream completes, then get their {{key.output}} references filled in and
+-- move to 'pending' (released_at records when).
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS task_key TEXT DEFAULT NULL;
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS depends_on TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ DEFAULT NULL;
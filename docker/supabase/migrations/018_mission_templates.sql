@@ -0,0 +1,45 @@
+-- 018_mission_templates.sql
+-- Mission template library: a named, versioned plan (task_plan tool calls with
+-- {{params.name}} placeholders) that can be instantiated into a new mission by
+-- the founder or the CEO. Every edit writes a new mission_template_versions row;
+-- missions remember which template/version/params produced them, and recurring
+-- missions with template_id set spawn children from it (template_version NULL =
+-- always the latest revision).
+
+CREATE TABLE IF NOT EXISTS public.mission_templates (
+  id              TEXT PRIMARY KEY,
+  name            TEXT NOT NULL UNIQUE,
+  description     TEXT DEFAULT NULL,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_by      TEXT DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.mission_template_versions (
+  id            TEXT PRIMARY KEY,
+  template_id   TEXT NOT NULL REFERENCES public.mission_templates(id) ON DELETE CASCADE,
+  version       INTEGER NOT NULL,
+  title         TEXT NOT NULL,
+  placeholders  JSONB NOT NULL DEFAULT '[]',
+  plan          JSONB NOT NULL DEFAULT '[]',
+  source_mission_id TEXT DEFAULT NULL,
+  created_by    TEXT DEFAULT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template ON public.mission_template_versions(template_id, version DESC);
+
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS template_id TEXT DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS template_version INTEGER DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS template_params JSONB DEFAULT NULL;
+
+-- RLS
+ALTER TABLE public.mission_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mission_template_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for anon" ON public.mission_templates FOR ALL TO anon USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all for anon" ON public.mission_template_versions FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.mission_templates;
@@ -0,0 +1,10 @@
+-- 019_mission_hierarchy.sql
+-- Sub-missions: a mission can have a parent (an "epic"). Progress, cost and
+-- grade roll up from the subtree at read time; the CEO tick moves an epic to
+-- in_progress when work starts below it and to review once every child is
+-- finished. Deleting a parent detaches its children instead of deleting them.
+
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS parent_id TEXT DEFAULT NULL
+  REFERENCES public.missions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_missions_parent ON public.missions(parent_id) WHERE parent_id IS NOT NULL;
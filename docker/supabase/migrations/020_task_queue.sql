@@ -0,0 +1,8 @@
+-- 020_task_queue.sql
+-- Work queue for task execution: dispatch writes task_executions as 'queued'
+-- and a drain moves them to 'pending' (admitted_at records when) while the
+-- global, per-agent and per-provider concurrency caps in settings
+-- (`task_queue_limits`) allow, highest mission priority / earliest due date
+-- first. Stuck-task detection measures from admitted_at, not created_at.
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS admitted_at TIMESTAMPTZ DEFAULT NULL;
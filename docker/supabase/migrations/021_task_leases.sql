@@ -0,0 +1,31 @@
+-- 021_task_leases.sql
+-- Crash-safe task execution. An executor holds a lease on the task it runs
+-- (lease_owner, lease_expires_at) and extends it from a heartbeat; when the
+-- lease runs out the CEO tick re-queues the task and bumps attempts (failing
+-- it after three). Commands with side effects (forum posts, emails...) record
+-- their idempotency key in task_side_effects so a retry never repeats one that
+-- already went out.
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS lease_owner TEXT DEFAULT NULL;
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ DEFAULT NULL;
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS idempotency_key TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_task_exec_lease ON public.task_executions(lease_expires_at) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS public.task_side_effects (
+  idempotency_key TEXT PRIMARY KEY,
+  task_id         TEXT NOT NULL,
+  skill_id        TEXT NOT NULL,
+  command_name    TEXT NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'started',  -- started | succeeded | failed
+  result          JSONB DEFAULT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at    TIMESTAMPTZ DEFAULT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_side_effects_task ON public.task_side_effects(task_id);
+
+-- RLS
+ALTER TABLE public.task_side_effects ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for anon" ON public.task_side_effects FOR ALL TO anon USING (true) WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- 022_mission_budgets.sql
+-- Per-mission spend caps and pre-flight cost estimates. budget_cap (USD)
+-- covers the mission and its sub-missions: once their summed
+-- task_executions.cost_usd reaches it, the remaining queued/blocked tasks are
+-- failed and the mission goes to review. cost_estimate holds the estimate the
+-- planner made before dispatch; estimates above the threshold in settings
+-- (`mission_budget_policy`) wait for a 'mission_budget' approval.
+
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS budget_cap REAL DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS cost_estimate REAL DEFAULT NULL;
@@ -0,0 +1,13 @@
+-- 023_budget_allocations.sql
+-- Sub-budgets per agent, per skill and per usage context. Allocations live in
+-- settings (`budget_allocations`, JSON) and are measured against this
+-- month's llm_usage, which now records the skill a call ran for. The context
+-- check is widened to every context the app logs (agent chat, mission
+-- planning and CEO-direct calls were being rejected).
+
+ALTER TABLE public.llm_usage ADD COLUMN IF NOT EXISTS skill_id TEXT DEFAULT NULL;
+CREATE INDEX IF NOT EXISTS idx_llm_usage_skill ON public.llm_usage(skill_id) WHERE skill_id IS NOT NULL;
+
+ALTER TABLE public.llm_usage DROP CONSTRAINT IF EXISTS llm_usage_context_check;
+ALTER TABLE public.llm_usage ADD CONSTRAINT llm_usage_context_check
+  CHECK (context IN ('ceo_chat', 'agent_chat', 'skill_execution', 'memory_extraction', 'conversation_summary', 'mission_planning', 'ceo_direct'));
@@ -0,0 +1,35 @@
+-- 024_mission_deadlines.sql
+-- Real mission deadlines. due_date keeps what was typed; deadline is the
+-- instant it names, parsed in due_timezone (the zone of whoever set it).
+-- sla_stage records how far up the escalation ladder the CEO has taken a
+-- slipping mission (1 priority raised, 2 reassigned, 3 Founder asked), and
+-- delivered_at when the mission last reached review or done — what SLA hit
+-- rates are measured against. Existing ISO due dates are read as UTC.
+
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS deadline TIMESTAMPTZ DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS due_timezone TEXT DEFAULT NULL;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS sla_stage INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.missions ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ DEFAULT NULL;
+CREATE INDEX IF NOT EXISTS idx_missions_deadline ON public.missions(deadline) WHERE deadline IS NOT NULL;
+
+UPDATE public.missions
+   SET deadline = (due_date::date + TIME '23:59:59') AT TIME ZONE 'UTC', due_timezone = 'UTC'
+ WHERE deadline IS NULL AND due_date ~ '^\d{4}-\d{2}-\d{2}$';
+
+-- Stamp delivery on the way into review/done from any writer (browser, sidecar, edge function)
+CREATE OR REPLACE FUNCTION public.stamp_mission_delivered() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.status IN ('review', 'done') THEN
+    NEW.delivered_at := COALESCE(NEW.delivered_at, now());
+  ELSIF NEW.status <> 'archived' THEN
+    NEW.delivered_at := NULL;  -- reopened: the next delivery is the one that counts
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS missions_stamp_delivered ON public.missions;
+CREATE TRIGGER missions_stamp_delivered
+  BEFORE INSERT OR UPDATE OF status ON public.missions
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_mission_delivered();
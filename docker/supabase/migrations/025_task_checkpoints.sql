@@ -0,0 +1,9 @@
+-- 025_task_checkpoints.sql
+-- Human-in-the-loop checkpoints inside a task graph. A plan call marked
+-- checkpoint runs normally, but its dependents stay 'blocked' until the
+-- Founder reviews the output through a 'task_checkpoint' approval:
+-- checkpoint_status goes pending → approved (output possibly edited, and the
+-- edit is what dependents receive) or rejected (dependents fail).
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS checkpoint BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS checkpoint_status TEXT DEFAULT NULL;
@@ -0,0 +1,14 @@
+-- 026_mission_replay.sql
+-- Replayable mission rounds. task_executions.conversation (already written by
+-- the edge function) now holds the exact messages and raw reply of every LLM
+-- run, and trace records the model that answered, the prompt version and the
+-- parameters as executed. Each mission round keeps a snapshot of its tasks so
+-- a later redo can't overwrite them; a replay round re-sends a snapshot's
+-- prompts to another model (or the skill's current prompt) and points back at
+-- the round it replayed.
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS trace JSONB DEFAULT NULL;
+
+ALTER TABLE public.mission_rounds ADD COLUMN IF NOT EXISTS tasks JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.mission_rounds ADD COLUMN IF NOT EXISTS replay_of TEXT DEFAULT NULL;
+ALTER TABLE public.mission_rounds ADD COLUMN IF NOT EXISTS replay_config JSONB DEFAULT NULL;
@@ -0,0 +1,12 @@
+-- 027_vault_encryption.sql
+-- Vault secrets encrypted at rest. key_value holds `v1:<iv>:<ciphertext>`
+-- (AES-256-GCM under the Vault data key) once encrypted is true; the data
+-- key is stored only wrapped by the Founder's master password, in
+-- settings.vault_key.
+--
+-- Existing rows start as encrypted = false. The database never sees the
+-- key, so they are re-encrypted by the app (encryptPlaintextVaultRows in
+-- src/lib/vaultCrypto.ts) as soon as a master password is set, and again on
+-- every unlock for any row still in plaintext.
+
+ALTER TABLE public.vault ADD COLUMN IF NOT EXISTS encrypted BOOLEAN NOT NULL DEFAULT false;
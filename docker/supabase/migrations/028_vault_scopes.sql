@@ -0,0 +1,11 @@
+-- 028_vault_scopes.sql
+-- Least-privilege Vault secrets. scope is {skills, agents, contexts}: lists
+-- of skill ids, agent ids and read contexts (src/lib/vaultScopes.ts) allowed
+-- to use the entry. An empty list leaves that dimension open; NULL means any
+-- skill, agent or context may read it, as before.
+--
+-- Every read is logged to audit_log as SECRET_READ (or SECRET_DENIED when the
+-- scope refuses it) with the entry id in brackets, which the Vault page uses
+-- for per-secret usage history.
+
+ALTER TABLE public.vault ADD COLUMN IF NOT EXISTS scope JSONB DEFAULT NULL;
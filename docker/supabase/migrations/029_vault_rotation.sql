@@ -0,0 +1,14 @@
+-- 029_vault_rotation.sql
+-- Vault expiry and rotation policies.
+--   expires_at    — when the provider stops accepting the key; for OAuth
+--                   token entries, when the access token lapses (the CEO
+--                   tick refreshes it shortly before).
+--   rotation_days — rotate every N days, counted from rotated_at (or
+--                   created_at before the first rotation). NULL = no policy.
+--   rotated_at    — last rotation, stamped by the Vault's rotate flow.
+-- The CEO tick raises a 'key_rotation' approval a week before a key is due
+-- and again once it is past due (src/lib/vaultRotation.ts).
+
+ALTER TABLE public.vault ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ DEFAULT NULL;
+ALTER TABLE public.vault ADD COLUMN IF NOT EXISTS rotation_days INTEGER DEFAULT NULL;
+ALTER TABLE public.vault ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMPTZ DEFAULT NULL;
@@ -0,0 +1,7 @@
+-- 030_gateway_sandbox.sql
+-- Resource usage of sandboxed gateway handler runs (docker/gateway/sandbox.ts):
+-- runtime, wall / CPU ms, peak RSS, exit status, which limit stopped it (if
+-- any), the network allow-list and the hosts it tried to reach anyway.
+-- NULL for tasks that did not run a gateway handler.
+
+ALTER TABLE public.task_executions ADD COLUMN IF NOT EXISTS resource_usage JSONB DEFAULT NULL;
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
-import { ClipboardCheck, Check, X, Key, Blocks, ChevronDown, ChevronUp, AlertTriangle, ShieldAlert, DollarSign, MessagesSquare } from 'lucide-react';
+import { ClipboardCheck, Check, X, Key, Blocks, ChevronDown, ChevronUp, AlertTriangle, ShieldAlert, DollarSign, MessagesSquare, CalendarClock, CirclePause, RefreshCw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import {
   loadApprovals,
@@ -10,7 +10,7 @@ import {
   logAudit,
 } from '../../lib/database';
 import type { ApprovalRow } from '../../lib/database';
-import { SERVICE_KEY_HINTS } from '../../lib/models';
+import { SERVICE_KEY_HINTS, validateApiKeyFormat } from '../../lib/models';
 
 export default function ApprovalsView() {
   const navigate = useNavigate();
@@ -22,6 +22,11 @@ export default function ApprovalsView() {
   const [keyInputs, setKeyInputs] = useState<Record<string, string>>({});
   // Per-approval danger confirm input state (for dangerous skills)
   const [confirmInputs, setConfirmInputs] = useState<Record<string, string>>({});
+  // Per-approval edited output (task checkpoints)
+  const [checkpointEdits, setCheckpointEdits] = useState<Record<string, string>>({});
+  // Per-approval key rotation outcome (key_rotation)
+  const [rotationErrors, setRotationErrors] = useState<Record<string, string>>({});
+  const [rotating, setRotating] = useState<string | null>(null);
 
   useEffect(() => {
     loadApprovals().then(setPending);
@@ -90,6 +95,84 @@ export default function ApprovalsView() {
     refresh();
   }
 
+  async function handleApproveMissionBudget(approval: ApprovalRow) {
+    await updateApprovalStatus(approval.id, 'approved');
+    await logAudit(null, 'APPROVED', `Approved mission budget: "${approval.title}"`, 'info');
+    const { releaseBudgetHold } = await import('../../lib/taskDispatcher');
+    await releaseBudgetHold(approval.id);
+    refresh();
+  }
+
+  async function handleDenyMissionBudget(approval: ApprovalRow) {
+    await updateApprovalStatus(approval.id, 'denied');
+    await logAudit(null, 'DENIED', `Kept mission on hold: "${approval.title}"`, 'info');
+    refresh();
+  }
+
+  async function handleApproveAllocation(approval: ApprovalRow) {
+    const stage = (approval.metadata as Record<string, unknown> | null)?.stage;
+    await updateApprovalStatus(approval.id, 'approved');
+    await logAudit(null, 'APPROVED', stage === 'exceeded'
+      ? `Allowed overspend for the rest of the month: "${approval.title}"`
+      : `Acknowledged allocation forecast: "${approval.title}"`, 'info');
+    refresh();
+  }
+
+  async function handleExtendDeadline(approval: ApprovalRow) {
+    await updateApprovalStatus(approval.id, 'approved');
+    await logAudit(null, 'APPROVED', `Extended deadline: "${approval.title}"`, 'info');
+    const { extendDeadline } = await import('../../lib/missionDeadlines');
+    await extendDeadline(approval.id);
+    refresh();
+  }
+
+  async function handleKeepDeadline(approval: ApprovalRow) {
+    await updateApprovalStatus(approval.id, 'denied');
+    await logAudit(null, 'DENIED', `Left deadline as is: "${approval.title}"`, 'info');
+    refresh();
+  }
+
+  async function handleApproveCheckpoint(approval: ApprovalRow) {
+    const edited = checkpointEdits[approval.id];
+    const { approveCheckpoint } = await import('../../lib/taskCheckpoints');
+    await approveCheckpoint(approval.id, edited);
+    await logAudit(null, 'APPROVED', `${edited !== undefined ? 'Edited and approved' : 'Approved'} checkpoint: "${approval.title}"`, 'info');
+    setCheckpointEdits(prev => {
+      const next = { ...prev };
+      delete next[approval.id];
+      return next;
+    });
+    refresh();
+  }
+
+  async function handleRejectCheckpoint(approval: ApprovalRow) {
+    await updateApprovalStatus(approval.id, 'denied');
+    await logAudit(null, 'DENIED', `Rejected checkpoint: "${approval.title}"`, 'info');
+    const { applyCheckpointDecision } = await import('../../lib/taskCheckpoints');
+    await applyCheckpointDecision(approval.id);
+    refresh();
+  }
+
+  async function handleRotateKey(approval: ApprovalRow) {
+    const key = keyInputs[approval.id]?.trim();
+    const vaultId = (approval.metadata as Record<string, unknown> | null)?.vault_id;
+    if (!key || typeof vaultId !== 'string') return;
+    setRotating(approval.id);
+    const { rotateSecret } = await import('../../lib/vaultRotation');
+    const result = await rotateSecret(vaultId, key);
+    setRotating(null);
+    if (!result.ok) {
+      setRotationErrors(prev => ({ ...prev, [approval.id]: result.message }));
+      return;
+    }
+    setKeyInputs(prev => {
+      const next = { ...prev };
+      delete next[approval.id];
+      return next;
+    });
+    refresh();
+  }
+
   async function handleDismiss(approval: ApprovalRow) {
     await updateApprovalStatus(approval.id, 'dismissed');
     await logAudit(null, 'DISMISSED', `Dismissed: "${approval.title}"`, 'info');
@@ -146,6 +229,14 @@ export default function ApprovalsView() {
                       ? <MessagesSquare size={18} className="text-pixel-cyan" />
                       : approval.type === 'budget_override'
                       ? <DollarSign size={18} className="text-red-400" />
+                      : approval.type === 'mission_budget' || approval.type === 'budget_allocation'
+                      ? <DollarSign size={18} className="text-amber-400" />
+                      : approval.type === 'mission_deadline'
+                      ? <CalendarClock size={18} className="text-red-400" />
+                      : approval.type === 'task_checkpoint'
+                      ? <CirclePause size={18} className="text-pixel-cyan" />
+                      : approval.type === 'key_rotation'
+                      ? <RefreshCw size={18} className="text-red-400" />
                       : approval.type === 'skill_enable'
                         ? <Blocks size={18} className="text-amber-400" />
                         : <Key size={18} className="text-amber-400" />
@@ -296,7 +387,224 @@ export default function ApprovalsView() {
                     </div>
                   )}
 
+                  {/* Mission pre-flight estimate */}
+                  {approval.type === 'mission_budget' && (() => {
+                    const m = (approval.metadata ?? {}) as { estimate?: number; cap?: number | null; plan?: { skillId?: string; commandName?: string; model?: string } };
+                    return (
+                      <div className="mb-4 px-3 py-2.5 rounded-lg bg-amber-500/10 border border-amber-500/20">
+                        <div className="flex items-center justify-between text-xs mb-1">
+                          <span className="text-amber-300 font-semibold">Estimated ${m.estimate != null ? m.estimate.toFixed(2) : '?'}</span>
+                          <span className="text-zinc-400 font-mono">{m.cap != null ? `cap $${m.cap.toFixed(2)}` : 'no cap'}</span>
+                        </div>
+                        {m.plan?.skillId && (
+                          <p className="text-xs text-zinc-400 font-mono">
+                            {m.plan.skillId} / {m.plan.commandName} &middot; {m.plan.model}
+                          </p>
+                        )}
+                        <p className="text-xs text-zinc-400 leading-relaxed mt-1">
+                          The mission is on hold. Approve to queue the planned task.
+                        </p>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Allocation spend vs forecast */}
+                  {approval.type === 'budget_allocation' && (() => {
+                    const m = (approval.metadata ?? {}) as { limit?: number; spent?: number; projected?: number; stage?: string };
+                    const exceeded = m.stage === 'exceeded';
+                    return (
+                      <div className={`mb-4 px-3 py-2.5 rounded-lg border ${exceeded ? 'bg-red-500/10 border-red-500/20' : 'bg-amber-500/10 border-amber-500/20'}`}>
+                        <div className="flex items-center justify-between text-xs">
+                          <span className={`font-semibold ${exceeded ? 'text-red-300' : 'text-amber-300'}`}>
+                            {exceeded ? 'Allocation spent' : 'Projected overrun'}
+                          </span>
+                          <span className="text-zinc-400 font-mono">
+                            ${(m.spent ?? 0).toFixed(2)} spent &middot; ${(m.projected ?? 0).toFixed(2)} projected / ${(m.limit ?? 0).toFixed(2)}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Missed deadline and the proposed extension */}
+                  {approval.type === 'mission_deadline' && (() => {
+                    const m = (approval.metadata ?? {}) as { deadline?: string; proposed_deadline?: string; assignee?: string | null };
+                    return (
+                      <div className="mb-4 px-3 py-2.5 rounded-lg bg-red-500/10 border border-red-500/20">
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-red-300 font-semibold">
+                            Was due {m.deadline ? new Date(m.deadline).toLocaleString() : '?'}
+                          </span>
+                          <span className="text-zinc-400 font-mono">{m.assignee ?? 'unassigned'}</span>
+                        </div>
+                        {m.proposed_deadline && (
+                          <p className="text-xs text-zinc-400 leading-relaxed mt-1">
+                            Extend to {new Date(m.proposed_deadline).toLocaleString()}.
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                  {/* Replacement key — tested live before it is swapped in */}
+                  {approval.type === 'key_rotation' && (() => {
+                    const m = (approval.metadata ?? {}) as { reason?: string; error?: string };
+                    if (m.reason === 'oauth_refresh_failed') {
+                      return (
+                        <div className="mb-4 px-3 py-2.5 rounded-lg bg-red-500/10 border border-red-500/20 text-xs text-red-300 font-mono">
+                          {m.error}
+                        </div>
+                      );
+                    }
+                    const format = validateApiKeyFormat(service, keyValue);
+                    return (
+                      <div className="mb-4">
+                        <input
+                          type="password"
+                          value={keyValue}
+                          onChange={e => {
+                            setKeyInputs(prev => ({ ...prev, [approval.id]: e.target.value }));
+                            setRotationErrors(prev => ({ ...prev, [approval.id]: '' }));
+                          }}
+                          placeholder={`Paste the new ${service} key`}
+                          className="w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm font-mono px-3 py-2.5 rounded-lg focus:outline-none focus:border-emerald-500/50 transition-colors placeholder:text-zinc-600"
+                        />
+                        {keyValue.length > 0 && (
+                          <div className={`text-xs mt-1 ${format.valid ? 'text-emerald-400' : 'text-amber-400'}`}>{format.message}</div>
+                        )}
+                        {rotationErrors[approval.id] && (
+                          <div className="text-xs text-red-400 mt-1">Not rotated — {rotationErrors[approval.id]}</div>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                  {/* Checkpoint output — editable unless it was too long to carry whole */}
+                  {approval.type === 'task_checkpoint' && (() => {
+                    const m = (approval.metadata ?? {}) as { output?: string; truncated?: boolean; skill_id?: string; command_name?: string; dependents?: string[] };
+                    const edited = checkpointEdits[approval.id];
+                    return (
+                      <div className="mb-4 px-3 py-2.5 rounded-lg bg-cyan-500/5 border border-cyan-500/20">
+                        <div className="flex items-center justify-between text-xs mb-2">
+                          <span className="text-cyan-300 font-semibold">
+                            {edited !== undefined ? 'Edited output' : 'Output'}
+                          </span>
+                          <span className="text-zinc-400 font-mono">{m.skill_id} / {m.command_name}</span>
+                        </div>
+                        <textarea
+                          value={edited ?? m.output ?? ''}
+                          onChange={e => setCheckpointEdits(prev => ({ ...prev, [approval.id]: e.target.value }))}
+                          readOnly={m.truncated}
+                          rows={10}
+                          className="w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-xs font-mono px-2 py-1.5 rounded focus:outline-none focus:border-cyan-500/50 transition-colors resize-y"
+                        />
+                        <p className="text-xs text-zinc-400 leading-relaxed mt-1">
+                          {m.truncated
+                            ? 'Output too long to edit here — shown cut. Approve or reject it as is.'
+                            : m.dependents?.length
+                              ? `Waiting: ${m.dependents.join(', ')}. They receive this text as written here.`
+                              : 'Last step of the mission — this text is kept as its output.'}
+                        </p>
+                      </div>
+                    );
+                  })()}
+
                   <div className="flex items-center gap-3">
+                    {approval.type === 'task_checkpoint' && (
+                      <>
+                        <button
+                          onClick={() => handleApproveCheckpoint(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+                        >
+                          <Check size={14} />
+                          {checkpointEdits[approval.id] !== undefined ? 'APPROVE EDITS' : 'APPROVE'}
+                        </button>
+                        <button
+                          onClick={() => handleRejectCheckpoint(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-400 bg-red-500/10 border border-red-500/25 rounded-lg hover:bg-red-500/20 transition-colors"
+                        >
+                          <X size={14} />
+                          REJECT
+                        </button>
+                        {typeof (approval.metadata as Record<string, unknown> | null)?.mission_id === 'string' && (
+                          <button
+                            onClick={() => navigate(`/missions/${(approval.metadata as Record<string, unknown>).mission_id}`)}
+                            className="flex items-center gap-2 px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text bg-white/[0.03] border border-white/[0.08] rounded-lg hover:bg-white/[0.06] transition-colors"
+                          >
+                            VIEW MISSION
+                          </button>
+                        )}
+                      </>
+                    )}
+                    {approval.type === 'budget_allocation' && (
+                      <>
+                        <button
+                          onClick={() => handleApproveAllocation(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+                        >
+                          <Check size={14} />
+                          {(approval.metadata as Record<string, unknown> | null)?.stage === 'exceeded' ? 'ALLOW OVERSPEND' : 'ACKNOWLEDGE'}
+                        </button>
+                        <button
+                          onClick={() => navigate('/financials')}
+                          className="flex items-center gap-2 px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text bg-white/[0.03] border border-white/[0.08] rounded-lg hover:bg-white/[0.06] transition-colors"
+                        >
+                          ADJUST ALLOCATION
+                        </button>
+                      </>
+                    )}
+                    {approval.type === 'mission_deadline' && (
+                      <>
+                        <button
+                          onClick={() => handleExtendDeadline(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+                        >
+                          <Check size={14} />
+                          EXTEND DEADLINE
+                        </button>
+                        <button
+                          onClick={() => handleKeepDeadline(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-400 bg-red-500/10 border border-red-500/25 rounded-lg hover:bg-red-500/20 transition-colors"
+                        >
+                          <X size={14} />
+                          LEAVE OVERDUE
+                        </button>
+                        {typeof (approval.metadata as Record<string, unknown> | null)?.mission_id === 'string' && (
+                          <button
+                            onClick={() => navigate(`/missions/${(approval.metadata as Record<string, unknown>).mission_id}`)}
+                            className="flex items-center gap-2 px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text bg-white/[0.03] border border-white/[0.08] rounded-lg hover:bg-white/[0.06] transition-colors"
+                          >
+                            VIEW MISSION
+                          </button>
+                        )}
+                      </>
+                    )}
+                    {approval.type === 'mission_budget' && (
+                      <>
+                        <button
+                          onClick={() => handleApproveMissionBudget(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+                        >
+                          <Check size={14} />
+                          APPROVE &amp; DISPATCH
+                        </button>
+                        <button
+                          onClick={() => handleDenyMissionBudget(approval)}
+                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-400 bg-red-500/10 border border-red-500/25 rounded-lg hover:bg-red-500/20 transition-colors"
+                        >
+                          <X size={14} />
+                          KEEP ON HOLD
+                        </button>
+                        {typeof (approval.metadata as Record<string, unknown> | null)?.mission_id === 'string' && (
+                          <button
+                            onClick={() => navigate(`/missions/${(approval.metadata as Record<string, unknown>).mission_id}`)}
+                            className="flex items-center gap-2 px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text bg-white/[0.03] border border-white/[0.08] rounded-lg hover:bg-white/[0.06] transition-colors"
+                          >
+                            VIEW MISSION
+                          </button>
+                        )}
+                      </>
+                    )}
                     {approval.type === 'budget_override' && (
                       <>
                         <button
@@ -321,6 +629,34 @@ export default function ApprovalsView() {
                         </button>
                       </>
                     )}
+                    {approval.type === 'key_rotation' && (
+                      <>
+                        {(approval.metadata as Record<string, unknown> | null)?.reason === 'oauth_refresh_failed' ? (
+                          <button
+                            onClick={() => navigate('/skills')}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+                          >
+                            <RefreshCw size={14} />
+                            RECONNECT
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleRotateKey(approval)}
+                            disabled={rotating === approval.id || !validateApiKeyFormat(service, keyValue).valid}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            <RefreshCw size={14} className={rotating === approval.id ? 'animate-spin' : ''} />
+                            {rotating === approval.id ? 'TESTING…' : 'TEST & ROTATE'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => navigate('/vault')}
+                          className="flex items-center gap-2 px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text bg-white/[0.03] border border-white/[0.08] rounded-lg hover:bg-white/[0.06] transition-colors"
+                        >
+                          OPEN VAULT
+                        </button>
+                      </>
+                    )}
                     {approval.type === 'api_key_request' && (
                       <button
                         onClick={() => handleProvideKey(approval)}
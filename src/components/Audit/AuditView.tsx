@@ -1,10 +1,11 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { ScrollText, Download, Info, AlertTriangle, AlertOctagon, MessageSquare, ChevronDown, Users, Monitor, Radio, Globe, Cpu } from 'lucide-react'
+import { ScrollText, Download, Info, AlertTriangle, AlertOctagon, MessageSquare, ChevronDown, Users, Monitor, Radio, Globe, Cpu, Webhook } from 'lucide-react'
 import { type AuditLogRow } from '../../lib/database'
 import { getSupabase, hasSupabaseConfig } from '../../lib/supabase'
+import WebhookDeliveriesTab from './WebhookDeliveriesTab'
 
-type AuditTab = 'system' | 'a2a'
+type AuditTab = 'system' | 'a2a' | 'webhooks'
 type SeverityFilter = 'all' | 'info' | 'warning' | 'error'
 type DateRange = 'today' | 'yesterday' | 'week' | 'month' | 'all'
 
@@ -133,7 +134,7 @@ export default function AuditView() {
   const navigate = useNavigate()
   const [activeTab, setActiveTab] = useState<AuditTab>(() => {
     const saved = localStorage.getItem('jarvis_audit_tab')
-    return (saved === 'a2a' || saved === 'system') ? saved : 'system'
+    return (saved === 'a2a' || saved === 'system' || saved === 'webhooks') ? saved : 'system'
   })
   const [entries, setEntries] = useState<AuditLogRow[]>([])
   const [activeFilter, setActiveFilter] = useState<SeverityFilter>('all')
@@ -142,6 +143,8 @@ export default function AuditView() {
   const [loading, setLoading] = useState(false)
   const [totalLoaded, setTotalLoaded] = useState(0)
   const [a2aCategoryFilter, setA2aCategoryFilter] = useState<A2ACategoryFilter>('all')
+  // Memoized — relative ranges are Date.now()-based and would refetch every render
+  const webhookSince = useMemo(() => getDateCutoff(dateRange), [dateRange])
 
   const loadPage = useCallback(async (offset: number, append: boolean) => {
     if (!hasSupabaseConfig()) return
@@ -253,9 +256,42 @@ export default function AuditView() {
           <Users size={14} />
           A2A (AGENT-TO-AGENT)
         </button>
+        <button
+          onClick={() => { setActiveTab('webhooks'); localStorage.setItem('jarvis_audit_tab', 'webhooks') }}
+          className={[
+            'flex items-center gap-2 px-5 py-2.5 text-xs font-bold tracking-wider rounded-lg border transition-all',
+            activeTab === 'webhooks'
+              ? 'bg-blue-500/15 text-blue-400 border-blue-500/30'
+              : 'bg-transparent text-jarvis-muted border-white/[0.06] hover:bg-white/[0.04] hover:text-jarvis-text',
+          ].join(' ')}
+        >
+          <Webhook size={14} />
+          WEBHOOK DELIVERIES
+        </button>
       </div>
 
-      {activeTab === 'a2a' ? (() => {
+      {activeTab === 'webhooks' ? (
+        <>
+          {/* Date Range Chips */}
+          <div className="flex items-center gap-2 mb-4">
+            {dateButtons.map((btn) => (
+              <button
+                key={btn.value}
+                onClick={() => setDateRange(btn.value)}
+                className={[
+                  'px-3 py-1.5 text-[11px] font-semibold tracking-wider rounded-full border transition-all',
+                  dateRange === btn.value
+                    ? 'bg-blue-500/15 text-blue-400 border-blue-500/30'
+                    : 'bg-transparent text-jarvis-muted border-white/[0.06] hover:bg-white/[0.04] hover:text-jarvis-text',
+                ].join(' ')}
+              >
+                {btn.label}
+              </button>
+            ))}
+          </div>
+          <WebhookDeliveriesTab since={webhookSince} formatTimestamp={formatTimestamp} />
+        </>
+      ) : activeTab === 'a2a' ? (() => {
         const a2aEntries = entries.filter(e => isA2AAction(e.action))
         const a2aFiltered = a2aEntries.filter(e => {
           if (a2aCategoryFilter !== 'all' && getA2ACategory(e.action) !== a2aCategoryFilter) return false
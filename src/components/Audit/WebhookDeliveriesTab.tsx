@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Webhook, RotateCcw } from 'lucide-react'
+import { loadChannels, logAudit } from '../../lib/database'
+import { loadWebhookDeliveries, retryWebhookDelivery, webhookConfig, type WebhookDeliveryRow } from '../../lib/webhooks'
+
+const statusStyles: Record<WebhookDeliveryRow['status'], string> = {
+  pending: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  delivering: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  delivered: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/30',
+}
+
+const statusBorder: Record<WebhookDeliveryRow['status'], string> = {
+  pending: 'border-l-yellow-500/60',
+  delivering: 'border-l-blue-500/60',
+  delivered: 'border-l-emerald-500/60',
+  failed: 'border-l-red-500/60',
+}
+
+interface WebhookDeliveriesTabProps {
+  /** ISO cutoff from the Audit view's date chips (null = all time) */
+  since: string | null
+  formatTimestamp: (ts: string) => string
+}
+
+/** Delivery history for outbound webhooks and chat channels — one row per event × endpoint */
+export default function WebhookDeliveriesTab({ since, formatTimestamp }: WebhookDeliveriesTabProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryRow[]>([])
+  const [endpoints, setEndpoints] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [rows, channels] = await Promise.all([loadWebhookDeliveries(200, since), loadChannels()])
+      setDeliveries(rows)
+      setEndpoints(Object.fromEntries(
+        channels.map(ch => [ch.id, ch.type === 'webhook' ? webhookConfig(ch).url : ch.type]),
+      ))
+    } finally {
+      setLoading(false)
+    }
+  }, [since])
+
+  useEffect(() => { refresh() }, [refresh])
+
+  async function handleRetry(delivery: WebhookDeliveryRow) {
+    await retryWebhookDelivery(delivery.id)
+    await logAudit(null, 'WEBHOOK_RETRY', `Re-queued ${delivery.event} delivery ${delivery.id}`, 'info')
+    refresh()
+  }
+
+  const failedCount = deliveries.filter(d => d.status === 'failed').length
+  const pendingCount = deliveries.filter(d => d.status === 'pending' || d.status === 'delivering').length
+
+  return (
+    <>
+      <div className="bg-jarvis-surface border border-white/[0.06] rounded-xl overflow-hidden">
+        <div className="grid grid-cols-[140px_150px_1fr_100px_60px_1fr_70px] gap-3 px-5 py-3 border-b border-white/[0.06] bg-white/[0.02]">
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Time</span>
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Event</span>
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Endpoint</span>
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Status</span>
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider text-center">Tries</span>
+          <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Response</span>
+          <span />
+        </div>
+
+        {deliveries.length === 0 ? (
+          <div className="px-6 py-16 text-center">
+            <div className="w-12 h-12 rounded-full bg-cyan-500/10 border border-cyan-500/20 flex items-center justify-center mx-auto mb-3">
+              <Webhook size={20} className="text-cyan-400/60" />
+            </div>
+            <p className="text-sm text-jarvis-muted">
+              {loading ? 'Loading...' : 'No deliveries for this period. Add a Webhook, Slack or Discord channel in the Vault to start sending events.'}
+            </p>
+          </div>
+        ) : (
+          deliveries.map((d, idx) => (
+            <div
+              key={d.id}
+              className={[
+                'grid grid-cols-[140px_150px_1fr_100px_60px_1fr_70px] gap-3 px-5 py-3 border-b border-white/[0.04] border-l-[3px] items-center transition-colors hover:bg-white/[0.03]',
+                statusBorder[d.status],
+                idx % 2 === 1 ? 'bg-white/[0.015]' : '',
+              ].join(' ')}
+            >
+              <span className="text-[13px] font-mono text-jarvis-muted tabular-nums">{formatTimestamp(d.created_at)}</span>
+              <span className="text-[12px] font-mono text-jarvis-text truncate">{d.event}</span>
+              <span className="text-[12px] font-mono text-jarvis-muted truncate" title={endpoints[d.channel_id] ?? d.channel_id}>
+                {(endpoints[d.channel_id] ?? d.channel_id).replace(/^https?:\/\//, '')}
+              </span>
+              <span>
+                <span className={`inline-block px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider border rounded ${statusStyles[d.status]}`}>
+                  {d.status}
+                </span>
+              </span>
+              <span className="text-[13px] font-mono text-jarvis-muted text-center">{d.attempts}</span>
+              <span className="text-[12px] text-jarvis-muted truncate" title={d.last_error ?? ''}>
+                {d.last_error ?? (d.response_status ? `HTTP ${d.response_status}` : '—')}
+                {d.status === 'pending' && d.attempts > 0 && ` · retry ${formatTimestamp(d.next_attempt_at)}`}
+              </span>
+              <div className="flex justify-end">
+                {d.status === 'failed' && (
+                  <button
+                    onClick={() => handleRetry(d)}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/20 rounded hover:bg-cyan-500/20 transition-colors"
+                  >
+                    <RotateCcw size={10} /> RETRY
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between px-2">
+        <span className="text-xs text-jarvis-muted">
+          {deliveries.length} deliveries · {pendingCount} queued · {failedCount} failed
+        </span>
+        <span className="text-xs text-jarvis-muted font-mono">
+          Signed with HMAC-SHA256 · sent by the sidecar
+        </span>
+      </div>
+    </>
+  )
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { getFounderInfo, saveCEO, saveVaultEntry, updateVaultEntry, getVaultEntryByService, saveMission, logAudit, saveApproval, loadApprovals } from '../../lib/database';
+import { getFounderInfo, saveCEO, saveVaultEntry, updateVaultEntry, findVaultEntry, saveMission, logAudit, saveApproval, loadApprovals } from '../../lib/database';
 import { MODEL_OPTIONS, getServiceForModel, SERVICE_KEY_HINTS, validateApiKeyFormat } from '../../lib/models';
 import { registerOnMarketplace, getCachedRawPrivateKey } from '../../lib/marketplaceClient';
 import { loadKeyFromLocalStorage } from '../../lib/jarvisKey';
@@ -208,7 +208,7 @@ export default function CEOCeremony({ onComplete }: CEOCeremonyProps) {
     if (!keyLongEnough) return;
     await persistCEO();
     // Check if a vault entry already exists for this service — update instead of duplicating
-    const existing = await getVaultEntryByService(service);
+    const existing = await findVaultEntry(service);
     if (existing) {
       await updateVaultEntry(existing.id, { key_value: apiKey.trim() });
       await logAudit(null, 'KEY_UPDATED', `Updated ${service} API key during CEO ceremony`, 'info');
@@ -228,7 +228,7 @@ export default function CEOCeremony({ onComplete }: CEOCeremonyProps) {
   async function handleSkipApiKey() {
     await persistCEO();
     // Check if key already exists in vault — no need for approval if so
-    const existingKey = await getVaultEntryByService(service);
+    const existingKey = await findVaultEntry(service);
     if (!existingKey) {
       // Only create approval if one doesn't already exist for this service
       const pendingApprovals = await loadApprovals();
@@ -7,6 +7,8 @@ import {
 import { getCEOResponse } from '../../lib/ceoResponder';
 import { isLLMAvailable, streamCEOResponse, streamAgentResponse, isAgentLLMAvailable, type LLMAvailability, type AgentChatInfo } from '../../lib/llm/chatService';
 import { extractMemories } from '../../lib/memory';
+import { describeToolCalls } from '../../lib/llm/tools';
+import type { LLMToolCall } from '../../lib/llm/types';
 import RichMessageContent from './ToolCallBlock';
 
 /** Strip complete and incomplete <tool_call>/<task_plan>/<work_request> blocks from streaming text
@@ -251,10 +253,15 @@ export default function ChatThread({ conversation, onArchive }: ChatThreadProps)
         setTyping(false);
         setStreamingText(prev => (prev ?? '') + token);
       },
-      onDone: async (fullText: string) => {
+      onDone: async (fullText: string, _usage?: unknown, toolCalls?: LLMToolCall[]) => {
         setTyping(false);
         setStreamingText(null);
         setLlmError(null);
+        abortRef.current = null;
+
+        // Native tool calls never appear in the text — keep them with the message
+        const { replyToolCalls } = await import('../../lib/taskDispatcher');
+        const calls = replyToolCalls(fullText, toolCalls);
 
         // Strip tool_call/task_plan blocks from CEO responses (dispatch already handled in chatService)
         let displayText = fullText;
@@ -282,12 +289,13 @@ export default function ChatThread({ conversation, onArchive }: ChatThreadProps)
           }
         }
 
+        if (!displayText.trim() && calls.length === 0) return;
         const respMsg: ChatMessageRow = {
           id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
           conversation_id: conversation.id,
           sender,
-          text: displayText,
-          metadata: { llm: true },
+          text: displayText.trim() || describeToolCalls(calls),
+          metadata: calls.length > 0 ? { llm: true, tool_calls: calls } : { llm: true },
           created_at: new Date().toISOString(),
         };
         await saveChatMessage({
@@ -299,7 +307,6 @@ export default function ChatThread({ conversation, onArchive }: ChatThreadProps)
         });
         const withResp = [...currentMessages, respMsg];
         setMessages(prev => [...prev, respMsg]);
-        abortRef.current = null;
         maybeExtractMemories(withResp);
       },
       onError: async (error: unknown) => {
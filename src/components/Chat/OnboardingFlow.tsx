@@ -4,7 +4,7 @@ import { Send, ClipboardCheck, Cctv, CloudRain } from 'lucide-react';
 import {
   loadCEO, getFounderInfo, getSetting, setSetting,
   saveSkill, loadSkills, loadApprovals, saveApproval, updateApprovalStatus,
-  getVaultEntryByService, saveConversation, saveChatMessage,
+  findVaultEntry, saveConversation, saveChatMessage,
 } from '../../lib/database';
 import { getServiceForModel, MODEL_OPTIONS, MODEL_SERVICE_MAP } from '../../lib/models';
 import { playOnlineJingle } from '../../lib/sounds';
@@ -69,7 +69,7 @@ function getRequiredService(skill: FullSkillDefinition, model: string | null): s
 }
 
 async function hasApiKey(service: string): Promise<boolean> {
-  return (await getVaultEntryByService(service)) !== null;
+  return (await findVaultEntry(service)) !== null;
 }
 
 
@@ -165,7 +165,7 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
       // Build model options with key indicators
       const vaultServices = new Set<string>();
       for (const service of ['Anthropic', 'OpenAI', 'Google', 'DeepSeek', 'xAI']) {
-        const entry = await getVaultEntryByService(service);
+        const entry = await findVaultEntry(service);
         if (entry) vaultServices.add(service);
       }
       const options = MODEL_OPTIONS.map(name => ({
@@ -340,7 +340,7 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
     const checkVault = async () => {
       const service = MODEL_SERVICE_MAP[selectedModel] ?? '';
       if (!service) return;
-      const entry = await getVaultEntryByService(service);
+      const entry = await findVaultEntry(service);
       if (entry) {
         // Key was added! Trigger the reveal
         setNeedsApprovalNav(false);
@@ -670,7 +670,7 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
     }
 
     const service = model ? (MODEL_SERVICE_MAP[model] ?? null) : null;
-    const keyMissing = service ? !(await getVaultEntryByService(service)) : true;
+    const keyMissing = service ? !(await findVaultEntry(service)) : true;
 
     if (keyMissing && service) {
       await saveApproval({
@@ -6,7 +6,7 @@ interface TaskExecution {
   id: string;
   skill_id: string;
   command_name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'blocked' | 'queued' | 'pending' | 'running' | 'completed' | 'failed';
   result?: { output?: string; summary?: string; error?: string };
 }
 
@@ -17,7 +17,9 @@ interface TaskPlanBlockProps {
 }
 
 const STATUS_CONFIG = {
-  pending: { icon: Clock, color: 'text-cyan-400', border: 'border-cyan-400/30', bg: 'bg-cyan-400/[0.04]', label: 'QUEUED' },
+  blocked: { icon: Clock, color: 'text-zinc-400', border: 'border-zinc-500/30', bg: 'bg-zinc-500/[0.04]', label: 'WAITING ON INPUTS' },
+  queued: { icon: Clock, color: 'text-zinc-400', border: 'border-zinc-500/30', bg: 'bg-zinc-500/[0.04]', label: 'QUEUED' },
+  pending: { icon: Clock, color: 'text-cyan-400', border: 'border-cyan-400/30', bg: 'bg-cyan-400/[0.04]', label: 'STARTING' },
   running: { icon: Loader2, color: 'text-cyan-400', border: 'border-cyan-400/30', bg: 'bg-cyan-400/[0.04]', label: 'EXECUTING...' },
   completed: { icon: CheckCircle, color: 'text-emerald-400', border: 'border-emerald-500/30', bg: 'bg-emerald-500/[0.04]', label: 'COMPLETE' },
   failed: { icon: XCircle, color: 'text-red-400', border: 'border-red-500/30', bg: 'bg-red-500/[0.04]', label: 'FAILED' },
@@ -238,7 +238,7 @@ export function parseToolCalls(text: string): Array<{ type: 'text'; content: str
   return segments;
 }
 
-type TaskStatus = 'pending' | 'running' | 'completed' | 'failed';
+type TaskStatus = 'blocked' | 'queued' | 'pending' | 'running' | 'completed' | 'failed';
 
 /** Look up latest task_execution matching this skill_id (optionally scoped to a mission) */
 async function fetchTaskStatus(skillId: string, missionId?: string): Promise<TaskStatus | null> {
@@ -258,6 +258,8 @@ async function fetchTaskStatus(skillId: string, missionId?: string): Promise<Tas
 }
 
 const STATUS_CONFIG = {
+  blocked: { label: 'WAITING ON INPUTS', borderColor: 'border-zinc-500/30', bgColor: 'bg-zinc-500/[0.04]', headerBg: 'bg-zinc-500/[0.06]', headerBorder: 'border-zinc-500/20', textColor: 'text-zinc-300', iconColor: 'text-zinc-400' },
+  queued: { label: 'QUEUED', borderColor: 'border-zinc-500/30', bgColor: 'bg-zinc-500/[0.04]', headerBg: 'bg-zinc-500/[0.06]', headerBorder: 'border-zinc-500/20', textColor: 'text-zinc-300', iconColor: 'text-zinc-400' },
   pending: { label: 'EXECUTING SKILL', borderColor: 'border-cyan-400/30', bgColor: 'bg-cyan-400/[0.04]', headerBg: 'bg-cyan-400/[0.06]', headerBorder: 'border-cyan-400/20', textColor: 'text-cyan-300', iconColor: 'text-cyan-400' },
   running: { label: 'EXECUTING SKILL', borderColor: 'border-cyan-400/30', bgColor: 'bg-cyan-400/[0.04]', headerBg: 'bg-cyan-400/[0.06]', headerBorder: 'border-cyan-400/20', textColor: 'text-cyan-300', iconColor: 'text-cyan-400' },
   completed: { label: 'SKILL COMPLETE', borderColor: 'border-emerald-400/30', bgColor: 'bg-emerald-400/[0.04]', headerBg: 'bg-emerald-400/[0.06]', headerBorder: 'border-emerald-400/20', textColor: 'text-emerald-300', iconColor: 'text-emerald-400' },
@@ -459,6 +461,7 @@ function ActionButtons({ actions, missionId, messageId, persistedActed }: { acti
       try {
         const { getSupabase } = await import('../../lib/supabase');
         await getSupabase().from('missions').update({ status: 'done' }).eq('id', missionId);
+        import('../../lib/webhooks').then(({ notifyMissionStatus }) => notifyMissionStatus(missionId, 'done')).catch(() => {});
         // Also update the chat message metadata to persist acted state
         if (messageId) {
           const { data: msg } = await getSupabase().from('chat_messages').select('metadata').eq('id', messageId).single();
@@ -825,11 +828,26 @@ export default function RichMessageContent({ text, metadata, messageId }: { text
   // Check if already acted (from DB metadata)
   const persistedActed = metadata?.acted_on as string | undefined;
 
+  // Native tool calls are saved in metadata — the text carries none of them
+  const savedCalls = ((metadata?.tool_calls as ToolCall[] | undefined) ?? []).filter(tc => tc.name !== 'enable_skill');
+
   let content: React.ReactNode;
 
   // Check for task_plan blocks first
   const missions = parseTaskPlan(text);
-  if (missions.length > 0) {
+  if (savedCalls.length > 0) {
+    const cleanText = stripTaskBlocks(text);
+    content = (
+      <>
+        {cleanText && <TextWithRichContent content={cleanText} />}
+        <div className="my-2">
+          {savedCalls.map((call, j) => (
+            <ToolCallCard key={j} call={call} missionId={missionId} />
+          ))}
+        </div>
+      </>
+    );
+  } else if (missions.length > 0) {
     const cleanText = stripTaskBlocks(text);
     // Filter out enable_skill calls (handled by ChatSkillApproval)
     const visibleMissions = missions.map(m => ({
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { Pencil, X, Target, Check, RefreshCw, Crown, Terminal, Copy, ChevronDown } from 'lucide-react'
 import { getSetting, setSetting, loadMissions, loadAgents, loadCEO, logAudit, type MissionRow, type AgentRow, type CEORow } from '../../lib/database'
 import { getCurrentMonthSpend } from '../../lib/llmUsage'
+import { slaStatsByAssignee, type SlaStats } from '../../lib/missionDeadlines'
 import { useSystemHealth, type ServiceHealth } from '../../hooks/useSystemHealth'
 
 const priorityColor: Record<string, string> = {
@@ -37,6 +38,61 @@ function StatCard({ label, value, sublabel }: { label: string; value: string; su
   )
 }
 
+function SlaCard({ stats }: { stats: SlaStats[] }) {
+  return (
+    <div className="bg-jarvis-surface border border-jarvis-border rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-jarvis-border flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-white tracking-wide">Deadlines</h2>
+        <span className="text-[10px] text-zinc-600">SLA hit rate — missions delivered to review by their due date</span>
+      </div>
+      {stats.length === 0 ? (
+        <div className="px-4 py-6 text-center">
+          <p className="text-xs text-zinc-500">No missions with due dates delivered or slipping yet.</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-white/[0.04]">
+              <th className="text-left px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">Agent</th>
+              <th className="text-left px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">Hit Rate</th>
+              <th className="text-right px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">Met</th>
+              <th className="text-right px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">Missed</th>
+              <th className="text-right px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">At Risk</th>
+              <th className="text-right px-4 py-2.5 text-xs font-medium text-jarvis-muted uppercase tracking-wider">Overdue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(s => {
+              const pct = s.hitRate !== null ? Math.round(s.hitRate * 100) : null
+              return (
+                <tr key={s.assignee} className="border-b border-white/[0.03] last:border-b-0">
+                  <td className="px-4 py-2.5 text-zinc-200 font-medium">{s.assignee}</td>
+                  <td className="px-4 py-2.5">
+                    {pct === null ? (
+                      <span className="text-xs text-zinc-600">—</span>
+                    ) : (
+                      <div className="flex items-center gap-2 w-40">
+                        <div className="flex-1 h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+                          <div className={`h-full rounded-full ${pct >= 90 ? 'bg-emerald-500' : pct >= 70 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: `${pct}%` }} />
+                        </div>
+                        <span className="text-xs tabular-nums text-zinc-300 w-9 text-right">{pct}%</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-emerald-400/80">{s.met}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-red-400/80">{s.missed}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-amber-400/80">{s.atRisk}</td>
+                  <td className="px-4 py-2.5 text-right tabular-nums text-red-400">{s.overdue}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
 function AgentCard({ agent }: { agent: AgentRow }) {
   return (
     <div className="bg-jarvis-surface border border-jarvis-border rounded-lg p-3 flex flex-col gap-2">
@@ -344,6 +400,7 @@ export default function DashboardView() {
   const activeMissions = dbMissions.filter(m => m.status === 'in_progress').length
   const doneMissions = dbMissions.filter(m => m.status === 'done').length
   const totalMissions = dbMissions.length
+  const slaStats = slaStatsByAssignee(dbMissions)
 
   function formatDate(iso: string | null): string {
     if (!iso) return '—'
@@ -460,6 +517,9 @@ export default function DashboardView() {
         )}
       </div>
 
+      {/* Deadlines / SLA */}
+      <SlaCard stats={slaStats} />
+
       {/* Agent Fleet */}
       <div>
         <div className="mb-3">
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PieChart, X, Save, Loader2, Plus } from 'lucide-react';
+import { loadAgents, logAudit, type AgentRow } from '../../lib/database';
+import { getAllSkills } from '../../lib/skillsCache';
+import { USAGE_CONTEXTS } from '../../lib/llmUsage';
+import {
+  getAllocationStatuses,
+  saveBudgetAllocations,
+  allocationLabel,
+  type AllocationScope,
+  type AllocationStatus,
+  type BudgetAllocation,
+} from '../../lib/budgetAllocations';
+
+const inputCls = 'bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-xs font-mono px-2 py-1.5 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+const stateStyle: Record<AllocationStatus['state'], string> = {
+  ok: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20',
+  at_risk: 'text-amber-400 bg-amber-500/10 border-amber-500/20',
+  exceeded: 'text-red-400 bg-red-500/10 border-red-500/20',
+};
+
+const sameTarget = (a: Pick<BudgetAllocation, 'scope' | 'key'>, b: Pick<BudgetAllocation, 'scope' | 'key'>) =>
+  a.scope === b.scope && a.key === b.key;
+
+function money(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Monthly sub-budgets per agent, skill and usage context — this month's spend,
+ * the month-end forecast, and an editor for the limits.
+ */
+export default function BudgetAllocationsPanel() {
+  const [statuses, setStatuses] = useState<AllocationStatus[]>([]);
+  const [draft, setDraft] = useState<BudgetAllocation[]>([]);
+  const [agents, setAgents] = useState<AgentRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newScope, setNewScope] = useState<AllocationScope>('agent');
+  const [newKey, setNewKey] = useState('');
+  const [newLimit, setNewLimit] = useState('');
+
+  const refresh = useCallback(async () => {
+    const loaded = await getAllocationStatuses();
+    setStatuses(loaded);
+    setDraft(loaded.map(({ scope, key, monthlyLimit }) => ({ scope, key, monthlyLimit })));
+    setDirty(false);
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(err => console.warn('Allocations load failed:', err));
+    loadAgents().then(setAgents).catch(() => {});
+  }, [refresh]);
+
+  const keyOptions: { value: string; label: string }[] = newScope === 'agent'
+    ? [{ value: 'ceo', label: 'CEO' }, ...agents.map(a => ({ value: a.id, label: a.name }))]
+    : newScope === 'skill'
+      ? getAllSkills().filter(s => s.enabled).map(s => ({ value: s.id, label: s.name }))
+      : USAGE_CONTEXTS.map(c => ({ value: c, label: c }));
+  const available = keyOptions.filter(o => !draft.some(a => sameTarget(a, { scope: newScope, key: o.value })));
+
+  function addAllocation() {
+    const limit = parseFloat(newLimit);
+    if (!newKey || !(limit > 0)) return;
+    setDraft(prev => [...prev, { scope: newScope, key: newKey, monthlyLimit: limit }]);
+    setNewKey('');
+    setNewLimit('');
+    setDirty(true);
+  }
+
+  function setLimit(target: BudgetAllocation, value: string) {
+    setDraft(prev => prev.map(a => sameTarget(a, target) ? { ...a, monthlyLimit: Math.max(0, parseFloat(value) || 0) } : a));
+    setDirty(true);
+  }
+
+  function remove(target: BudgetAllocation) {
+    setDraft(prev => prev.filter(a => !sameTarget(a, target)));
+    setDirty(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const kept = draft.filter(a => a.monthlyLimit > 0);
+      await saveBudgetAllocations(kept);
+      await logAudit(null, 'BUDGET_ALLOCATIONS',
+        kept.length > 0
+          ? `Budget allocations: ${kept.map(a => `${allocationLabel(a)} ${money(a.monthlyLimit)}`).join(', ')}`
+          : 'Budget allocations cleared',
+        'info');
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-jarvis-surface border border-white/[0.06] rounded-xl p-6 mt-6">
+      <div className="flex items-center gap-2 mb-4">
+        <PieChart size={14} className="text-jarvis-muted" />
+        <h2 className="text-sm font-semibold text-jarvis-text uppercase tracking-wider">Allocations</h2>
+        <span className="text-[10px] text-zinc-600 ml-2">Monthly sub-budgets — a spent allocation pauses its work until you approve the overspend</span>
+      </div>
+
+      {draft.length === 0 ? (
+        <div className="text-xs text-zinc-600 mb-4">No allocations. Everything draws on the monthly budget alone.</div>
+      ) : (
+        <div className="mb-4">
+          <div className="grid grid-cols-[1.6fr_0.8fr_0.8fr_0.8fr_1.4fr_0.7fr_24px] gap-3 px-2 pb-2 text-[10px] font-semibold text-jarvis-muted uppercase tracking-wider border-b border-white/[0.06]">
+            <span>Allocation</span>
+            <span className="text-right">Limit</span>
+            <span className="text-right">Spent</span>
+            <span className="text-right">Projected</span>
+            <span>Month to date</span>
+            <span className="text-right">Status</span>
+            <span />
+          </div>
+          {draft.map(a => {
+            const status = statuses.find(s => sameTarget(s, a) && s.monthlyLimit === a.monthlyLimit);
+            const pct = status && a.monthlyLimit > 0 ? Math.min(100, (status.spent / a.monthlyLimit) * 100) : 0;
+            const forecastPct = status && a.monthlyLimit > 0 ? Math.min(100, (status.projected / a.monthlyLimit) * 100) : 0;
+            return (
+              <div key={`${a.scope}:${a.key}`} className="grid grid-cols-[1.6fr_0.8fr_0.8fr_0.8fr_1.4fr_0.7fr_24px] gap-3 items-center px-2 py-2 border-b border-white/[0.03] text-xs">
+                <span className="text-jarvis-text truncate">
+                  <span className="text-[10px] text-zinc-500 uppercase tracking-wider mr-2">{a.scope}</span>
+                  {a.scope === 'agent' ? (agents.find(ag => ag.id === a.key)?.name ?? a.key) : a.key}
+                </span>
+                <input
+                  type="number" min={0} step={0.5} value={a.monthlyLimit}
+                  onChange={e => setLimit(a, e.target.value)}
+                  className={`${inputCls} w-full text-right`}
+                />
+                <span className="text-right font-mono text-jarvis-text">{status ? money(status.spent) : '—'}</span>
+                <span className={`text-right font-mono ${status && status.projected > a.monthlyLimit ? 'text-amber-400' : 'text-jarvis-muted'}`}>
+                  {status ? money(status.projected) : '—'}
+                </span>
+                <div className="relative h-2 rounded-full bg-white/[0.06] overflow-hidden">
+                  <div className="absolute inset-y-0 left-0 bg-amber-500/25" style={{ width: `${forecastPct}%` }} />
+                  <div className={`absolute inset-y-0 left-0 ${status?.state === 'exceeded' ? 'bg-red-500/80' : 'bg-emerald-500/80'}`} style={{ width: `${pct}%` }} />
+                </div>
+                <span className="text-right">
+                  {status && (
+                    <span className={`inline-block px-1.5 py-0.5 text-[9px] font-bold rounded border ${stateStyle[status.state]}`}>
+                      {status.overridden ? 'OVERRIDE' : status.state === 'at_risk' ? 'AT RISK' : status.state.toUpperCase()}
+                    </span>
+                  )}
+                </span>
+                <button onClick={() => remove(a)} className="text-zinc-600 hover:text-red-400 transition-colors" title="Remove">
+                  <X size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select value={newScope} onChange={e => { setNewScope(e.target.value as AllocationScope); setNewKey(''); }} className={inputCls}>
+          <option value="agent">Agent</option>
+          <option value="skill">Skill</option>
+          <option value="context">Context</option>
+        </select>
+        <select value={newKey} onChange={e => setNewKey(e.target.value)} className={`${inputCls} w-48`}>
+          <option value="">Choose…</option>
+          {available.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <input
+          type="number" min={0} step={0.5} value={newLimit} placeholder="$ / month"
+          onChange={e => setNewLimit(e.target.value)}
+          className={`${inputCls} w-28`}
+        />
+        <button
+          onClick={addAllocation}
+          disabled={!newKey || !(parseFloat(newLimit) > 0)}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded hover:bg-emerald-500/20 transition-colors disabled:opacity-40"
+        >
+          <Plus size={12} /> ADD
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />} SAVE ALLOCATIONS
+        </button>
+      </div>
+    </div>
+  );
+}
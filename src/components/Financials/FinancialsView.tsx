@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { DollarSign, TrendingDown, TrendingUp, Minus, Pencil, X, BarChart3 } from 'lucide-react'
 import { getSetting, setSetting, logAudit } from '../../lib/database'
 import { getMonthlyUsage, getCurrentMonthSpend, getDailyUsage } from '../../lib/llmUsage'
+import BudgetAllocationsPanel from './BudgetAllocationsPanel'
 
 function formatCurrency(value: number): string {
   if (value === 0) return '$0.00'
@@ -611,6 +612,9 @@ export default function FinancialsView() {
         )}
       </div>
 
+      {/* Allocations */}
+      <BudgetAllocationsPanel />
+
       {/* Footer */}
       <div className="mt-4 flex items-center gap-2 px-2">
         <DollarSign size={12} className="text-jarvis-muted" />
@@ -1,12 +1,17 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, Clock, DollarSign, Zap, CheckCircle2, XCircle, RefreshCw, Archive, Trash2, ChevronDown, ChevronRight, FileText, FileDown, Copy, Check } from 'lucide-react';
+import { ArrowLeft, Clock, DollarSign, Zap, CheckCircle2, XCircle, RefreshCw, Archive, Trash2, ChevronDown, ChevronRight, FileText, FileDown, Copy, Check, BookmarkPlus } from 'lucide-react';
 import { loadMissions, loadTaskExecutions, updateMissionStatus, deleteMission, logAudit, getSetting, setSetting, loadMissionRounds, loadAuditLog, type MissionRow, type MissionRoundRow, type AuditLogRow } from '../../lib/database';
 import { rerunMission } from '../../lib/taskDispatcher';
 import { getSkillName } from '../../lib/skillsCache';
 import RichResultCard, { detectRichContent } from '../Chat/RichResultCard';
 import MissionScorecard, { gradeColors } from './MissionScorecard';
 import RejectMissionModal from './RejectMissionModal';
+import TaskGraph from './TaskGraph';
+import RoundDiff from './RoundDiff';
+import SaveTemplateModal from './SaveTemplateModal';
+import { loadMissionRollups, missionAncestors, type MissionRollup } from '../../lib/missionHierarchy';
+import { deadlineState, formatTimeLeft } from '../../lib/missionDeadlines';
 
 /** Renders text with auto-detected rich content (images, links, documents) */
 function RichResultDisplay({ text }: { text: string }) {
@@ -58,6 +63,8 @@ function taskStatusColor(status: string): string {
     case 'failed': return 'text-red-400';
     case 'running': return 'text-cyan-400 animate-pulse';
     case 'pending': return 'text-yellow-400';
+    case 'queued': return 'text-zinc-400';
+    case 'blocked': return 'text-zinc-500';
     default: return 'text-zinc-400';
   }
 }
@@ -89,6 +96,10 @@ export default function MissionDetailPage() {
   const [rounds, setRounds] = useState<MissionRoundRow[]>([]);
   const [activityLog, setActivityLog] = useState<AuditLogRow[]>([]);
   const [showRejectModal, setShowRejectModal] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [templateNotice, setTemplateNotice] = useState<string | null>(null);
+  const [allMissions, setAllMissions] = useState<MissionRow[]>([]);
+  const [rollups, setRollups] = useState<Map<string, MissionRollup>>(new Map());
 
   useEffect(() => {
     if (!id) return;
@@ -96,6 +107,8 @@ export default function MissionDetailPage() {
       const all = await loadMissions();
       const found = all.find(m => m.id === id);
       setMission(found ?? null);
+      setAllMissions(all);
+      loadMissionRollups(all).then(setRollups);
       const taskData = await loadTaskExecutions(id);
       setTasks(taskData);
 
@@ -119,6 +132,8 @@ export default function MissionDetailPage() {
     const refresh = async () => {
       const all = await loadMissions();
       setMission(all.find(m => m.id === id) ?? null);
+      setAllMissions(all);
+      loadMissionRollups(all).then(setRollups);
       const taskData = await loadTaskExecutions(id);
       setTasks(taskData);
       // Reload rounds
@@ -140,13 +155,14 @@ export default function MissionDetailPage() {
         e.preventDefault();
         if (showApproveDialog) { setShowApproveDialog(false); }
         else if (showRejectModal) { setShowRejectModal(false); }
+        else if (showSaveTemplate) { setShowSaveTemplate(false); }
         else if (deleteConfirm) { setDeleteConfirm(false); }
         else { navigate(-1); }
       }
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [navigate, showApproveDialog, showRejectModal, deleteConfirm]);
+  }, [navigate, showApproveDialog, showRejectModal, showSaveTemplate, deleteConfirm]);
 
   // Derived metrics
   const totalCost = tasks.reduce((sum: number, t: any) => sum + (t.cost_usd ?? 0), 0);
@@ -154,13 +170,22 @@ export default function MissionDetailPage() {
   const completedTasks = tasks.filter((t: any) => t.status === 'completed').length;
   const failedTasks = tasks.filter((t: any) => t.status === 'failed').length;
   const runningTasks = tasks.filter((t: any) => t.status === 'running' || t.status === 'pending').length;
+  const waitingTasks = tasks.filter((t: any) => t.status === 'blocked').length;
+  const queuedTasks = tasks.filter((t: any) => t.status === 'queued').length;
 
   // Latest round with scores
-  const latestScoredRound = rounds.find(r => r.overall_score !== null);
+  const latestScoredRound = rounds.find(r => r.overall_score !== null && !r.replay_of);
+
+  // Children of this mission (when it is an epic)
+  const subMissions = allMissions.filter(m => m.parent_id === id);
+  const epicRollup = id && subMissions.length > 0 ? rollups.get(id) ?? null : null;
+  // A budget cap covers sub-missions too
+  const capSpend = epicRollup?.cost ?? totalCost;
 
   // Separate mission-summary from regular tasks
   const summaryTask = tasks.find((t: any) => t.skill_id === 'mission-summary');
   const regularTasks = tasks.filter((t: any) => t.skill_id !== 'mission-summary');
+  const hasTaskGraph = regularTasks.some((t: any) => (t.depends_on ?? []).length > 0);
   const summaryOutput = summaryTask?.result?.output as string | undefined;
 
   // Duration calculation
@@ -325,6 +350,12 @@ export default function MissionDetailPage() {
         <div>
           <div className="text-xs text-jarvis-muted">
             <Link to="/missions" className="hover:text-zinc-300 transition-colors">MISSION CONTROL</Link>
+            {missionAncestors(allMissions, mission.id).map(a => (
+              <span key={a.id}>
+                <span className="mx-2">/</span>
+                <Link to={`/missions/${a.id}`} className="hover:text-zinc-300 transition-colors">{a.title}</Link>
+              </span>
+            ))}
             <span className="mx-2">/</span>
             <span className="text-zinc-300">{mission.title}</span>
           </div>
@@ -362,12 +393,25 @@ export default function MissionDetailPage() {
             <span className="text-zinc-500">Created:</span>{' '}
             <span className="text-zinc-300">{formatDate(mission.created_at)}</span>
           </span>
-          {mission.due_date && (
-            <span>
-              <span className="text-zinc-500">Due:</span>{' '}
-              <span className="text-zinc-300">{formatDate(mission.due_date)}</span>
-            </span>
-          )}
+          {mission.due_date && (() => {
+            const state = deadlineState(mission);
+            return (
+              <span title={mission.due_timezone ? `${mission.due_date} (${mission.due_timezone})` : mission.due_date}>
+                <span className="text-zinc-500">Due:</span>{' '}
+                <span className="text-zinc-300">{mission.deadline ? new Date(mission.deadline).toLocaleString() : mission.due_date}</span>
+                {mission.deadline && (state === 'at_risk' || state === 'overdue') && (
+                  <span className={`ml-1.5 text-[10px] font-bold uppercase tracking-wider ${state === 'overdue' ? 'text-red-400' : 'text-amber-400'}`}>
+                    {formatTimeLeft(mission.deadline)}
+                  </span>
+                )}
+                {(state === 'met' || state === 'missed') && (
+                  <span className={`ml-1.5 text-[10px] font-bold uppercase tracking-wider ${state === 'met' ? 'text-emerald-400' : 'text-red-400/80'}`}>
+                    {state === 'met' ? 'On time' : 'Late'}
+                  </span>
+                )}
+              </span>
+            );
+          })()}
           {mission.recurring && <RecurringBadge cron={mission.recurring} />}
           {mission.recurring && mission.max_runs != null && (
             <span className="inline-flex items-center gap-1.5 text-xs">
@@ -389,7 +433,17 @@ export default function MissionDetailPage() {
             <DollarSign size={12} className="text-zinc-500" />
             <span className="text-[10px] font-medium text-jarvis-muted uppercase tracking-wider">Total Cost</span>
           </div>
-          <div className="text-sm font-semibold text-zinc-200 tabular-nums">${totalCost.toFixed(2)}</div>
+          <div className="text-sm font-semibold text-zinc-200 tabular-nums">
+            ${totalCost.toFixed(2)}
+            {mission.budget_cap != null && (
+              <span className={`ml-1 text-xs font-normal ${capSpend >= mission.budget_cap ? 'text-red-400' : 'text-zinc-500'}`}>
+                / ${mission.budget_cap.toFixed(2)} cap{epicRollup ? ` ($${capSpend.toFixed(2)} with sub-missions)` : ''}
+              </span>
+            )}
+          </div>
+          {mission.cost_estimate != null && (
+            <div className="text-[10px] text-zinc-500 tabular-nums mt-0.5">Estimated ${mission.cost_estimate.toFixed(2)} before dispatch</div>
+          )}
         </div>
         <div className="bg-jarvis-surface border border-jarvis-border rounded-lg px-4 py-3">
           <div className="flex items-center gap-2 mb-1">
@@ -407,6 +461,8 @@ export default function MissionDetailPage() {
             {completedTasks}/{tasks.length} completed
             {failedTasks > 0 && <span className="text-red-400 ml-1">({failedTasks} failed)</span>}
             {runningTasks > 0 && <span className="text-cyan-400 ml-1">({runningTasks} running)</span>}
+            {queuedTasks > 0 && <span className="text-zinc-400 ml-1">({queuedTasks} queued)</span>}
+            {waitingTasks > 0 && <span className="text-zinc-400 ml-1">({waitingTasks} waiting)</span>}
           </div>
         </div>
         <div className="bg-jarvis-surface border border-jarvis-border rounded-lg px-4 py-3">
@@ -473,6 +529,16 @@ export default function MissionDetailPage() {
             RE-RUN
           </button>
         )}
+        {(mission.status === 'done' || mission.status === 'review') && tasks.length > 0 && (
+          <button
+            onClick={() => { setTemplateNotice(null); setShowSaveTemplate(true); }}
+            className="flex items-center gap-1.5 px-4 py-2 text-xs font-medium text-emerald-400 hover:text-emerald-300 hover:bg-emerald-500/10 border border-emerald-500/20 rounded-lg transition-colors"
+          >
+            <BookmarkPlus size={13} />
+            SAVE AS TEMPLATE
+          </button>
+        )}
+        {templateNotice && <span className="text-[11px] text-emerald-400">{templateNotice}</span>}
         <div className="flex-1" />
         {!deleteConfirm ? (
           <button
@@ -500,6 +566,46 @@ export default function MissionDetailPage() {
         )}
       </div>
 
+      {/* Sub-missions — epics roll progress, cost and grade up from their children */}
+      {subMissions.length > 0 && (
+        <div className="mb-5 bg-jarvis-surface border border-jarvis-border rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">SUB-MISSIONS</span>
+            {epicRollup && (
+              <span className="text-[11px] text-zinc-400 tabular-nums">
+                {epicRollup.doneChildren}/{epicRollup.childCount} done &middot; {Math.round(epicRollup.progress * 100)}% &middot; ${epicRollup.cost.toFixed(2)}
+              </span>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            {subMissions.map(child => {
+              const r = rollups.get(child.id);
+              return (
+                <Link
+                  key={child.id}
+                  to={`/missions/${child.id}`}
+                  className="flex items-center gap-3 px-3 py-2 rounded-md border border-jarvis-border/60 hover:border-white/[0.12] transition-colors"
+                >
+                  <span className="flex-1 text-sm text-zinc-200 truncate">{child.title}</span>
+                  <span className={`text-[9px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${statusBadge[child.status] ?? 'bg-zinc-500/20 text-zinc-400'}`}>
+                    {child.status.replace('_', ' ')}
+                  </span>
+                  <span className="text-[10px] tabular-nums text-zinc-500 w-10 text-right">{Math.round((r?.progress ?? 0) * 100)}%</span>
+                  <span className="text-[10px] tabular-nums text-zinc-500 w-14 text-right">${(r?.cost ?? 0).toFixed(2)}</span>
+                  <span className="w-6 flex justify-center">
+                    {r?.grade && (
+                      <span className={`text-[9px] font-bold rounded px-1.5 py-0.5 border ${gradeColors[r.grade] ?? 'bg-zinc-500/20 text-zinc-400 border-zinc-500/30'}`}>
+                        {r.grade}
+                      </span>
+                    )}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* CEO Summary — only show if auto_summary exists (plain text from CEO) */}
       {!summaryOutput && regularTasks.length > 0 && regularTasks[0]?.result?.auto_summary && (
         <div className="mb-5 bg-jarvis-surface border border-jarvis-border rounded-lg p-4">
@@ -582,6 +688,18 @@ export default function MissionDetailPage() {
             </div>
           )}
 
+          {/* Task dependency graph (only when the plan chained tasks) */}
+          {hasTaskGraph && (
+            <div className="mb-4">
+              <div className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider mb-2">TASK GRAPH</div>
+              <TaskGraph
+                tasks={regularTasks}
+                selectedId={expandedTask}
+                onSelect={taskId => setExpandedTask(expandedTask === taskId ? null : taskId)}
+              />
+            </div>
+          )}
+
           {/* Task executions list */}
           {regularTasks.length === 0 ? (
             <div className="text-sm text-zinc-600 text-center py-12 border border-dashed border-jarvis-border rounded-lg">
@@ -604,7 +722,29 @@ export default function MissionDetailPage() {
                       <div className="flex-1 min-w-0">
                         <span className="text-sm text-zinc-200">{skillName}</span>
                         <span className="text-xs text-zinc-500 ml-2">/ {task.command_name}</span>
+                        {hasTaskGraph && task.task_key && (
+                          <span className="text-[10px] font-mono text-zinc-600 ml-2">#{task.task_key}</span>
+                        )}
                       </div>
+                      {task.checkpoint && (
+                        <span
+                          className={`text-[9px] font-bold tracking-wider rounded px-1.5 py-0.5 border ${
+                            task.checkpoint_status === 'pending' ? 'text-cyan-400 bg-cyan-500/10 border-cyan-500/20'
+                            : task.checkpoint_status === 'rejected' ? 'text-red-400 bg-red-500/10 border-red-500/20'
+                            : 'text-zinc-400 bg-white/[0.03] border-white/[0.08]'}`}
+                          title="Dependents wait for the Founder to review this task's output"
+                        >
+                          {task.checkpoint_status === 'pending' ? 'AWAITING REVIEW'
+                            : task.checkpoint_status === 'rejected' ? 'REJECTED'
+                            : task.checkpoint_status === 'approved' ? (task.result?.original_output !== undefined ? 'EDITED' : 'REVIEWED')
+                            : 'CHECKPOINT'}
+                        </span>
+                      )}
+                      {(task.attempts ?? 0) > 1 && (
+                        <span className="text-[9px] font-bold tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded px-1.5 py-0.5" title="Re-queued after its executor stopped responding">
+                          ATTEMPT {task.attempts}
+                        </span>
+                      )}
                       <span className={`text-[10px] font-bold uppercase tracking-wider ${taskStatusColor(task.status)}`}>
                         {task.status}
                       </span>
@@ -683,13 +823,20 @@ export default function MissionDetailPage() {
               No rounds recorded yet
             </div>
           ) : (
-            rounds.map(round => (
+            <>
+            <RoundDiff rounds={rounds} onReplayed={() => loadMissionRounds(mission.id).then(setRounds)} />
+            {rounds.map(round => (
               <div key={round.id} className="bg-jarvis-surface border border-jarvis-border rounded-lg p-4">
                 <div className="flex items-center justify-between mb-2">
                   <div className="flex items-center gap-2">
                     <span className="text-xs font-bold text-cyan-400 bg-cyan-500/10 border border-cyan-500/20 rounded px-2 py-0.5">
                       R{round.round_number}
                     </span>
+                    {round.replay_of && (
+                      <span className="text-[10px] font-bold tracking-wider text-violet-400 bg-violet-500/10 border border-violet-500/20 rounded px-2 py-0.5" title={`Replay of ${round.replay_of}`}>
+                        REPLAY · {round.replay_config?.model ?? 'recorded models'} · {round.replay_config?.prompt ?? 'recorded'} prompts
+                      </span>
+                    )}
                     <span className={`text-[10px] font-bold uppercase tracking-wider ${
                       round.status === 'completed' ? 'text-emerald-400' :
                       round.status === 'rejected' ? 'text-red-400' :
@@ -723,7 +870,8 @@ export default function MissionDetailPage() {
                   {round.started_at && <span>{new Date(round.started_at).toLocaleString()}</span>}
                 </div>
               </div>
-            ))
+            ))}
+            </>
           )}
         </div>
       )}
@@ -772,6 +920,18 @@ export default function MissionDetailPage() {
           onClose={() => setShowRejectModal(false)}
         />
       )}
+
+      {/* Save as template modal */}
+      {showSaveTemplate && mission && (
+        <SaveTemplateModal
+          mission={mission}
+          onSaved={(name, version) => {
+            setShowSaveTemplate(false);
+            setTemplateNotice(`Saved "${name}" v${version}`);
+          }}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Pencil, Plus } from 'lucide-react';
+import type { MissionRow } from '../../lib/database';
+import { buildMissionTree, type MissionRollup, type MissionTreeNode } from '../../lib/missionHierarchy';
+import { gradeColors } from './MissionScorecard';
+
+interface MissionOutlineProps {
+  missions: MissionRow[];
+  rollups: Map<string, MissionRollup>;
+  onEdit: (mission: MissionRow) => void;
+  onAddChild: (parent: MissionRow) => void;
+}
+
+const statusStyle: Record<string, string> = {
+  backlog: 'text-zinc-400 bg-zinc-700/40',
+  scheduled: 'text-blue-400 bg-blue-500/15',
+  in_progress: 'text-emerald-400 bg-emerald-500/15',
+  on_hold: 'text-amber-400 bg-amber-500/15',
+  review: 'text-yellow-400 bg-yellow-500/15',
+  done: 'text-slate-400 bg-slate-500/15',
+  archived: 'text-zinc-500 bg-zinc-700/40',
+  cancelled: 'text-red-400/70 bg-red-500/10',
+};
+
+function ProgressBar({ value }: { value: number }) {
+  const pct = Math.round(value * 100);
+  return (
+    <div className="flex items-center gap-2 w-32">
+      <div className="flex-1 h-1.5 rounded-full bg-white/[0.06] overflow-hidden">
+        <div className={`h-full rounded-full ${pct >= 100 ? 'bg-emerald-500' : 'bg-cyan-500'}`} style={{ width: `${pct}%` }} />
+      </div>
+      <span className="text-[10px] tabular-nums text-zinc-500 w-8 text-right">{pct}%</span>
+    </div>
+  );
+}
+
+function OutlineRow({ node, rollups, collapsed, onToggle, onEdit, onAddChild }: {
+  node: MissionTreeNode;
+  rollups: Map<string, MissionRollup>;
+  collapsed: Set<string>;
+  onToggle: (id: string) => void;
+  onEdit: (mission: MissionRow) => void;
+  onAddChild: (parent: MissionRow) => void;
+}) {
+  const { mission, children, depth } = node;
+  const rollup = rollups.get(mission.id);
+  const isCollapsed = collapsed.has(mission.id);
+
+  return (
+    <>
+      <div className="group flex items-center gap-3 px-3 py-2 border-b border-jarvis-border/60 hover:bg-white/[0.02] transition-colors">
+        <div className="flex items-center gap-1.5 flex-1 min-w-0" style={{ paddingLeft: depth * 20 }}>
+          {children.length > 0 ? (
+            <button onClick={() => onToggle(mission.id)} className="w-4 h-4 flex items-center justify-center text-zinc-500 hover:text-zinc-300">
+              {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <Link to={`/missions/${mission.id}`} className="text-sm text-zinc-200 hover:text-emerald-400 transition-colors truncate">
+            {mission.title}
+          </Link>
+          {rollup && rollup.childCount > 0 && (
+            <span className="text-[8px] font-bold tracking-wider text-violet-400 bg-violet-500/15 border border-violet-500/30 rounded px-1.5 py-0.5 flex-shrink-0">
+              EPIC {rollup.doneChildren}/{rollup.childCount}
+            </span>
+          )}
+        </div>
+        <span className={`text-[9px] font-bold uppercase tracking-wider rounded px-1.5 py-0.5 w-20 text-center ${statusStyle[mission.status] ?? statusStyle.backlog}`}>
+          {mission.status.replace('_', ' ')}
+        </span>
+        <span className="text-xs text-jarvis-muted w-20 truncate">{mission.assignee ?? '—'}</span>
+        <ProgressBar value={rollup?.progress ?? 0} />
+        <span className="text-[11px] tabular-nums text-zinc-400 w-16 text-right">${(rollup?.cost ?? 0).toFixed(2)}</span>
+        <span className="w-8 flex justify-center">
+          {rollup?.grade && (
+            <span className={`text-[9px] font-bold rounded px-1.5 py-0.5 border ${gradeColors[rollup.grade] ?? 'bg-zinc-500/20 text-zinc-400 border-zinc-500/30'}`}>
+              {rollup.grade}
+            </span>
+          )}
+        </span>
+        <div className="flex items-center gap-0.5 w-14 justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => onAddChild(mission)}
+            className="w-6 h-6 flex items-center justify-center rounded text-zinc-500 hover:text-emerald-400 hover:bg-emerald-500/10 transition-colors"
+            title="Add sub-mission"
+          >
+            <Plus size={11} />
+          </button>
+          <button
+            onClick={() => onEdit(mission)}
+            className="w-6 h-6 flex items-center justify-center rounded text-zinc-500 hover:text-zinc-200 hover:bg-white/[0.06] transition-colors"
+            title="Edit"
+          >
+            <Pencil size={11} />
+          </button>
+        </div>
+      </div>
+      {!isCollapsed && children.map(child => (
+        <OutlineRow key={child.mission.id} node={child} rollups={rollups} collapsed={collapsed} onToggle={onToggle} onEdit={onEdit} onAddChild={onAddChild} />
+      ))}
+    </>
+  );
+}
+
+/** Tree view of missions: epics with their sub-missions, progress / cost / grade rolled up */
+export default function MissionOutline({ missions, rollups, onEdit, onAddChild }: MissionOutlineProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const tree = buildMissionTree(missions);
+
+  const toggle = (id: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto border border-jarvis-border rounded-lg bg-jarvis-surface/40">
+      <div className="flex items-center gap-3 px-3 py-2 border-b border-jarvis-border text-[10px] font-semibold text-jarvis-muted uppercase tracking-wider sticky top-0 bg-jarvis-surface">
+        <span className="flex-1 pl-5">Mission</span>
+        <span className="w-20 text-center">Status</span>
+        <span className="w-20">Assignee</span>
+        <span className="w-32">Progress</span>
+        <span className="w-16 text-right">Cost</span>
+        <span className="w-8 text-center">Grade</span>
+        <span className="w-14" />
+      </div>
+      {tree.length === 0 ? (
+        <div className="flex items-center justify-center h-24 text-xs text-zinc-700">No missions</div>
+      ) : tree.map(node => (
+        <OutlineRow key={node.mission.id} node={node} rollups={rollups} collapsed={collapsed} onToggle={toggle} onEdit={onEdit} onAddChild={onAddChild} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { Link } from 'react-router-dom';
+import { Pencil } from 'lucide-react';
+import type { MissionRow } from '../../lib/database';
+import { deadlineState, formatTimeLeft, type DeadlineState } from '../../lib/missionDeadlines';
+
+interface MissionTimelineProps {
+  missions: MissionRow[];
+  onEdit: (mission: MissionRow) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const barColor: Record<DeadlineState, string> = {
+  on_track: 'bg-emerald-500/40 border-emerald-500/60',
+  at_risk: 'bg-amber-500/40 border-amber-500/60',
+  overdue: 'bg-red-500/40 border-red-500/60',
+  met: 'bg-slate-500/30 border-slate-500/50',
+  missed: 'bg-red-500/20 border-red-500/40',
+};
+
+const stateLabel: Record<DeadlineState, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  overdue: 'Overdue',
+  met: 'Met',
+  missed: 'Missed',
+};
+
+const stateText: Record<DeadlineState, string> = {
+  on_track: 'text-emerald-400',
+  at_risk: 'text-amber-400',
+  overdue: 'text-red-400',
+  met: 'text-slate-400',
+  missed: 'text-red-400/70',
+};
+
+function time(iso: string | null): number | null {
+  if (!iso) return null;
+  const t = new Date(/(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : iso + 'Z').getTime();
+  return isNaN(t) ? null : t;
+}
+
+/** Day ticks, spaced so about a dozen labels fit */
+function ticks(start: number, end: number): number[] {
+  const days = Math.ceil((end - start) / DAY_MS);
+  const step = [1, 2, 7, 14, 30].find(s => days / s <= 12) ?? Math.ceil(days / 12);
+  const first = new Date(start);
+  first.setHours(0, 0, 0, 0);
+  const out: number[] = [];
+  for (let t = first.getTime() + DAY_MS; t < end; t += step * DAY_MS) out.push(t);
+  return out;
+}
+
+/** Gantt view of missions with a deadline: created → due, delivery or overrun marked, today as a line */
+export default function MissionTimeline({ missions, onEdit }: MissionTimelineProps) {
+  const now = Date.now();
+  const rows = missions
+    .filter(m => time(m.deadline) !== null)
+    .map(m => {
+      const deadline = time(m.deadline)!;
+      const start = Math.min(time(m.created_at) ?? deadline - DAY_MS, deadline);
+      return { mission: m, start, deadline, delivered: time(m.delivered_at), state: deadlineState(m) };
+    })
+    .sort((a, b) => a.deadline - b.deadline);
+  const undated = missions.length - rows.length;
+
+  if (rows.length === 0) {
+    return (
+      <div className="flex-1 min-h-0 flex items-center justify-center border border-jarvis-border rounded-lg bg-jarvis-surface/40 text-xs text-zinc-600">
+        No missions with a due date{undated > 0 ? ` (${undated} without one)` : ''}.
+      </div>
+    );
+  }
+
+  // Range covers every bar, overruns up to now, and at least a week
+  const lo = Math.min(...rows.map(r => r.start), now);
+  const hi = Math.max(...rows.map(r => Math.max(r.deadline, r.delivered ?? 0, r.state === 'overdue' ? now : 0)), now);
+  const pad = Math.max(hi - lo, 7 * DAY_MS) * 0.04;
+  const start = lo - pad;
+  const end = Math.max(hi, lo + 7 * DAY_MS) + pad;
+  const pct = (t: number) => `${((t - start) / (end - start)) * 100}%`;
+  const width = (a: number, b: number) => `${Math.max(0.4, ((b - a) / (end - start)) * 100)}%`;
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto border border-jarvis-border rounded-lg bg-jarvis-surface/40">
+      {/* Axis */}
+      <div className="flex items-stretch border-b border-jarvis-border sticky top-0 bg-jarvis-surface z-10">
+        <div className="w-64 flex-shrink-0 px-3 py-2 text-[10px] font-semibold text-jarvis-muted uppercase tracking-wider">Mission</div>
+        <div className="relative flex-1 h-8">
+          {ticks(start, end).map(t => (
+            <span key={t} className="absolute top-2 -translate-x-1/2 text-[9px] tabular-nums text-zinc-500 whitespace-nowrap" style={{ left: pct(t) }}>
+              {new Date(t).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </span>
+          ))}
+        </div>
+        <div className="w-28 flex-shrink-0 px-3 py-2 text-[10px] font-semibold text-jarvis-muted uppercase tracking-wider text-right">Due</div>
+      </div>
+
+      {rows.map(({ mission, start: from, deadline, delivered, state }) => (
+        <div key={mission.id} className="group flex items-center border-b border-jarvis-border/60 hover:bg-white/[0.02] transition-colors">
+          <div className="w-64 flex-shrink-0 px-3 py-2 min-w-0">
+            <div className="flex items-center gap-1.5">
+              <Link to={`/missions/${mission.id}`} className="text-xs text-zinc-200 hover:text-emerald-400 transition-colors truncate">
+                {mission.title}
+              </Link>
+              <button
+                onClick={() => onEdit(mission)}
+                className="w-5 h-5 flex-shrink-0 flex items-center justify-center rounded text-zinc-600 hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Edit"
+              >
+                <Pencil size={10} />
+              </button>
+            </div>
+            <div className="text-[10px] text-zinc-500 truncate">{mission.assignee ?? 'Unassigned'} &middot; {mission.priority}</div>
+          </div>
+
+          <div className="relative flex-1 h-10">
+            {/* Today */}
+            <div className="absolute inset-y-0 w-px bg-cyan-500/40" style={{ left: pct(now) }} />
+            <div
+              className={`absolute top-3 h-4 rounded border ${state ? barColor[state] : 'bg-zinc-600/30 border-zinc-600/50'}`}
+              style={{ left: pct(from), width: width(from, deadline) }}
+              title={`${new Date(from).toLocaleString()} → ${new Date(deadline).toLocaleString()}`}
+            />
+            {/* Overrun past the deadline */}
+            {state === 'overdue' && (
+              <div className="absolute top-3 h-4 rounded-r bg-red-500/15 border border-dashed border-red-500/50" style={{ left: pct(deadline), width: width(deadline, now) }} />
+            )}
+            {state === 'missed' && delivered && (
+              <div className="absolute top-3 h-4 rounded-r bg-red-500/10 border border-dashed border-red-500/30" style={{ left: pct(deadline), width: width(deadline, delivered) }} />
+            )}
+            {delivered && (state === 'met' || state === 'missed') && (
+              <div className="absolute top-2 h-6 w-0.5 bg-zinc-300/70" style={{ left: pct(delivered) }} title={`Delivered ${new Date(delivered).toLocaleString()}`} />
+            )}
+          </div>
+
+          <div className="w-28 flex-shrink-0 px-3 py-2 text-right">
+            <div className="text-[11px] tabular-nums text-zinc-300">
+              {new Date(deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </div>
+            {state && (
+              <div className={`text-[10px] ${stateText[state]}`}>
+                {state === 'at_risk' || state === 'overdue' || state === 'on_track' ? formatTimeLeft(mission.deadline!) : stateLabel[state]}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {undated > 0 && (
+        <div className="px-3 py-2 text-[10px] text-zinc-600">{undated} mission{undated === 1 ? '' : 's'} without a due date not shown.</div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,17 @@
 import { useState, useCallback, useEffect } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
-import { Plus, RefreshCw, Pencil, Trash2, X, ChevronRight, ChevronLeft, Search, Eye, EyeOff, Play, SkipForward, CheckCheck } from 'lucide-react'
+import { Plus, RefreshCw, Pencil, Trash2, X, ChevronRight, ChevronLeft, Search, Eye, EyeOff, Play, SkipForward, CheckCheck, BookCopy, Kanban, ListTree, Layers, GanttChart } from 'lucide-react'
 import { loadMissions, saveMission, updateMission, updateMissionStatus, deleteMission, logAudit, loadAgents, loadCEO, loadTaskExecutions, saveConversation, saveChatMessage, getFounderInfo, type MissionRow, type MissionRoundRow } from '../../lib/database'
 import { getSupabase } from '../../lib/supabase'
+import { validateCron, nextRun, nextRuns, isValidTimezone, localTimezone, resolveTimezone, wallTime, CATCH_UP_MODES, type CatchUpMode } from '../../lib/cronParser'
+import { loadTemplateCatalog, loadTemplateVersions, validateTemplateParams, type TemplateCatalogEntry, type TemplateVersionRow } from '../../lib/missionTemplates'
+import TemplateParamFields, { initialParamValues } from './TemplateParamFields'
+import TemplateLibraryModal from './TemplateLibraryModal'
+import TaskQueueModal from './TaskQueueModal'
+import MissionOutline from './MissionOutline'
+import MissionTimeline from './MissionTimeline'
+import { loadMissionRollups, descendantIds, type MissionRollup } from '../../lib/missionHierarchy'
+import { deadlineState, formatTimeLeft, type DeadlineState } from '../../lib/missionDeadlines'
 
 const priorityColor: Record<string, string> = {
   critical: 'bg-red-500/20 text-red-400 border border-red-500/30',
@@ -51,6 +60,20 @@ const STATUS_LABELS: Record<ColumnKey, string> = {
   archived: 'Archived',
 }
 
+const deadlineBadge: Partial<Record<DeadlineState, { label: string; cls: string }>> = {
+  at_risk: { label: 'AT RISK', cls: 'text-amber-400 bg-amber-500/15 border-amber-500/30' },
+  overdue: { label: 'OVERDUE', cls: 'text-red-400 bg-red-500/15 border-red-500/30' },
+  missed: { label: 'LATE', cls: 'text-red-400/70 bg-red-500/10 border-red-500/20' },
+}
+
+const deadlineText: Record<DeadlineState, string> = {
+  on_track: 'text-zinc-500',
+  at_risk: 'text-amber-400',
+  overdue: 'text-red-400',
+  met: 'text-emerald-500/80',
+  missed: 'text-red-400/70',
+}
+
 function RecurringBadge({ cron }: { cron: string }) {
   const [showTooltip, setShowTooltip] = useState(false)
   return (
@@ -69,6 +92,38 @@ function RecurringBadge({ cron }: { cron: string }) {
   )
 }
 
+const CATCH_UP_LABELS: Record<CatchUpMode, string> = {
+  skip: 'Skip missed runs',
+  once: 'Run once to catch up',
+  all: 'Run every missed run',
+}
+
+const COMMON_TIMEZONES = [
+  'UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
+  'America/Sao_Paulo', 'Europe/London', 'Europe/Berlin', 'Europe/Paris', 'Africa/Johannesburg',
+  'Asia/Dubai', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland',
+]
+
+/** Next fire times for a cron as typed — shows the parse error instead when invalid */
+function CronPreview({ cron, timezone }: { cron: string; timezone: string }) {
+  const cronError = validateCron(cron)
+  if (cronError) return <p className="text-[11px] text-red-400 -mt-2">{cronError}</p>
+  const tz = isValidTimezone(timezone.trim()) ? timezone.trim() : localTimezone()
+  const runs = nextRuns(cron, 5, new Date(), tz)
+  return (
+    <div className="-mt-2 bg-jarvis-surface/60 border border-jarvis-border rounded-lg px-3 py-2">
+      <div className="text-[10px] font-medium text-jarvis-muted uppercase tracking-wider mb-1">Next runs ({tz})</div>
+      {runs.length === 0 ? (
+        <div className="text-[11px] text-zinc-500">No upcoming runs in the next five years</div>
+      ) : runs.map(run => (
+        <div key={run.getTime()} className="text-[11px] tabular-nums text-cyan-400">
+          {run.toLocaleString(undefined, { timeZone: tz, weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+        </div>
+      ))}
+    </div>
+  )
+}
+
 const gradeColor: Record<string, string> = {
   'A+': 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
   'A': 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
@@ -89,6 +144,8 @@ function MissionCard({
   onRunNow,
   onSkipNext,
   latestGrade,
+  parentTitle,
+  rollup,
 }: {
   mission: MissionRow
   onEdit: (m: MissionRow) => void
@@ -96,6 +153,8 @@ function MissionCard({
   onRunNow: (m: MissionRow) => void
   onSkipNext: (m: MissionRow) => void
   latestGrade: string | null
+  parentTitle: string | null
+  rollup: MissionRollup | null
 }) {
   function formatDate(iso: string | null): string {
     if (!iso) return '\u2014'
@@ -104,12 +163,22 @@ function MissionCard({
     } catch { return '\u2014' }
   }
 
+  const deadline = deadlineState(mission)
   const colIdx = STATUSES.indexOf(mission.status as ColumnKey)
   const canLeft = colIdx > 0
   const canRight = colIdx < STATUSES.length - 1
 
   return (
     <div className="bg-jarvis-bg border border-jarvis-border rounded-lg p-3 hover:border-white/[0.12] hover:bg-white/[0.02] transition-all duration-150 group">
+      {parentTitle && mission.parent_id && (
+        <Link
+          to={`/missions/${mission.parent_id}`}
+          className="block text-[10px] text-violet-400/80 hover:text-violet-300 truncate mb-1"
+          onClick={e => e.stopPropagation()}
+        >
+          &#8627; {parentTitle}
+        </Link>
+      )}
       <h3 className="text-sm font-medium text-zinc-200 leading-snug mb-2 flex items-center gap-1.5">
         <Link
           to={`/missions/${mission.id}`}
@@ -139,7 +208,25 @@ function MissionCard({
             ON HOLD
           </span>
         )}
+        {rollup && rollup.childCount > 0 && (
+          <span className="text-[8px] font-bold tracking-wider text-violet-400 bg-violet-500/15 border border-violet-500/30 rounded px-1.5 py-0.5 flex-shrink-0">
+            EPIC {rollup.doneChildren}/{rollup.childCount}
+          </span>
+        )}
+        {deadline && deadlineBadge[deadline] && (
+          <span className={`text-[8px] font-bold tracking-widest border rounded px-1.5 py-0.5 flex-shrink-0 ${deadlineBadge[deadline]!.cls}`}>
+            {deadlineBadge[deadline]!.label}
+          </span>
+        )}
       </h3>
+      {rollup && rollup.childCount > 0 && (
+        <div className="flex items-center gap-2 mb-2">
+          <div className="flex-1 h-1 rounded-full bg-white/[0.06] overflow-hidden">
+            <div className="h-full rounded-full bg-violet-500" style={{ width: `${Math.round(rollup.progress * 100)}%` }} />
+          </div>
+          <span className="text-[10px] tabular-nums text-zinc-500">${rollup.cost.toFixed(2)}</span>
+        </div>
+      )}
       <div className="flex items-center justify-between gap-2 mb-2">
         <span className="text-xs text-jarvis-muted">{mission.assignee ?? '\u2014'}</span>
         <span
@@ -157,6 +244,11 @@ function MissionCard({
             <path d="M8 1V3.5" stroke="currentColor" strokeWidth="1" strokeLinecap="round" />
           </svg>
           <span className="text-[11px] tabular-nums text-zinc-500">{formatDate(mission.created_at ?? mission.due_date)}</span>
+          {deadline && mission.deadline && (
+            <span className={`text-[10px] tabular-nums ml-1 ${deadlineText[deadline]}`} title={new Date(mission.deadline).toLocaleString()}>
+              · Due {formatDate(mission.deadline)}{(deadline === 'at_risk' || deadline === 'overdue') && ` (${formatTimeLeft(mission.deadline)})`}
+            </span>
+          )}
           {mission.scheduled_for && (() => {
             const raw = String(mission.scheduled_for);
             const d = new Date(raw.endsWith('Z') || raw.includes('+') ? raw : raw + 'Z');
@@ -166,6 +258,17 @@ function MissionCard({
               </span>
             );
           })()}
+          {mission.recurring && mission.status === 'scheduled' && (() => {
+            let upcoming: Date | null = null
+            // A skipped slot is recorded as last_recurred_at in the future — count from whichever is later
+            const last = mission.last_recurred_at ? new Date(mission.last_recurred_at + (mission.last_recurred_at.endsWith('Z') || mission.last_recurred_at.includes('+') ? '' : 'Z')).getTime() : 0
+            try { upcoming = nextRun(mission.recurring, new Date(Math.max(Date.now(), last || 0)), mission.recurring_timezone) } catch { /* invalid cron */ }
+            return upcoming && (
+              <span className="text-[10px] tabular-nums text-cyan-500/80 ml-1">
+                · Next: {upcoming.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+              </span>
+            )
+          })()}
           {mission.recurring && mission.last_recurred_at && (
             <span className="text-[10px] tabular-nums text-zinc-600 ml-1">
               · Last run: {new Date(mission.last_recurred_at + (mission.last_recurred_at.endsWith('Z') ? '' : 'Z')).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
@@ -228,16 +331,31 @@ function MissionCard({
 // Create / Edit Mission Dialog
 // ---------------------------------------------------------------------------
 
+/** Date and time inputs for a stored due date — typed dates as is, anything else (e.g. "tomorrow") from its parsed deadline */
+function splitDueDate(mission: MissionRow | null, zone: string): [string, string] {
+  const typed = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?$/.exec(mission?.due_date?.trim() ?? '')
+  if (typed) return [typed[1], typed[2] ?? '']
+  if (!mission?.deadline) return ['', '']
+  const w = wallTime(new Date(mission.deadline).getTime(), zone)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const endOfDay = w.hour === 23 && w.minute === 59
+  return [`${w.year}-${pad(w.month)}-${pad(w.day)}`, endOfDay ? '' : `${pad(w.hour)}:${pad(w.minute)}`]
+}
+
 function MissionDialog({
   mission,
   defaultStatus,
+  defaultParentId,
+  missions,
   onSave,
   onDelete,
   onClose,
 }: {
   mission: MissionRow | null
   defaultStatus: ColumnKey
-  onSave: (data: { title: string; status: ColumnKey; assignee: string; priority: string; due_date: string; recurring: string; recurring_mode: string; goal: string; max_runs: number | null }) => void
+  defaultParentId: string | null
+  missions: MissionRow[]
+  onSave: (data: { title: string; status: ColumnKey; assignee: string; priority: string; due_date: string; recurring: string; recurring_mode: string; recurring_timezone: string; recurring_catch_up: CatchUpMode; goal: string; max_runs: number | null; template_id: string | null; template_version: number | null; template_params: Record<string, unknown> | null; parent_id: string | null; budget_cap: number | null; due_timezone: string }) => void
   onDelete?: () => void
   onClose: () => void
 }) {
@@ -247,10 +365,22 @@ function MissionDialog({
   const [status, setStatus] = useState<ColumnKey>((mission?.status as ColumnKey) ?? defaultStatus)
   const [assignee, setAssignee] = useState(mission?.assignee ?? '')
   const [priority, setPriority] = useState(mission?.priority ?? 'medium')
-  const [dueDate, setDueDate] = useState(mission?.due_date ?? '')
+  const dueZone = resolveTimezone(mission?.due_timezone)
+  const [initialDueDate, initialDueTime] = splitDueDate(mission, dueZone)
+  const [dueDate, setDueDate] = useState(initialDueDate)
+  const [dueTime, setDueTime] = useState(initialDueTime)
   const [recurring, setRecurring] = useState(mission?.recurring ?? '')
   const [recurringMode, setRecurringMode] = useState<'auto' | 'evaluate'>((mission as any)?.recurring_mode ?? 'evaluate')
+  const [timezone, setTimezone] = useState(mission?.recurring_timezone ?? localTimezone())
+  const [catchUp, setCatchUp] = useState<CatchUpMode>((mission?.recurring_catch_up as CatchUpMode | null) ?? 'once')
   const [maxRuns, setMaxRuns] = useState<string>(mission?.max_runs != null ? String(mission.max_runs) : '')
+  const [parentId, setParentId] = useState(mission?.parent_id ?? defaultParentId ?? '')
+  const [budgetCap, setBudgetCap] = useState<string>(mission?.budget_cap != null ? String(mission.budget_cap) : '')
+  const [templateId, setTemplateId] = useState(mission?.template_id ?? '')
+  const [templateVersion, setTemplateVersion] = useState<string>(mission?.template_version != null ? String(mission.template_version) : '')
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({})
+  const [templates, setTemplates] = useState<TemplateCatalogEntry[]>([])
+  const [templateVersions, setTemplateVersions] = useState<TemplateVersionRow[]>([])
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [error, setError] = useState('')
 
@@ -275,6 +405,27 @@ function MissionDialog({
     loadAssignees()
   }, [])
 
+  // Template library — a recurring mission can spawn each run from a (pinned) template
+  useEffect(() => {
+    loadTemplateCatalog().then(setTemplates)
+  }, [])
+  useEffect(() => {
+    setTemplateVersions([])
+    if (templateId) loadTemplateVersions(templateId).then(setTemplateVersions)
+  }, [templateId])
+  const selectedTemplateVersion = templateVersion
+    ? templateVersions.find(v => String(v.version) === templateVersion)
+    : templateVersions[0]
+  useEffect(() => {
+    if (!selectedTemplateVersion) return
+    const given = mission?.template_id === templateId ? mission?.template_params : null
+    setTemplateValues(prev => ({ ...initialParamValues(selectedTemplateVersion.placeholders, given), ...prev }))
+  }, [selectedTemplateVersion, templateId, mission?.template_id, mission?.template_params])
+
+  // A mission can't move under itself or its own sub-missions
+  const excludedParents = mission ? new Set([mission.id, ...descendantIds(missions, mission.id)]) : new Set<string>()
+  const parentOptions = missions.filter(m => !excludedParents.has(m.id) && m.status !== 'archived' && m.status !== 'cancelled' && !m.recurring)
+
   const valid = title.trim().length > 0
 
   return (
@@ -349,6 +500,39 @@ function MissionDialog({
             </div>
           </div>
 
+          {/* Parent (epic) */}
+          {parentOptions.length > 0 && (
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Parent Mission</label>
+              <select
+                value={parentId}
+                onChange={e => setParentId(e.target.value)}
+                className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+              >
+                <option value="">None — top-level mission</option>
+                {parentOptions.map(m => <option key={m.id} value={m.id}>{m.title}</option>)}
+              </select>
+            </div>
+          )}
+
+          {/* Budget cap */}
+          <div>
+            <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Budget Cap (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budgetCap}
+              onChange={e => setBudgetCap(e.target.value)}
+              placeholder="No cap"
+              className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-emerald-500/40 transition-colors"
+            />
+            <p className="text-[10px] text-zinc-600 mt-1">
+              Remaining tasks halt once this mission and its sub-missions spend this much
+              {mission?.cost_estimate != null && <> &middot; last estimate ${mission.cost_estimate.toFixed(2)}</>}
+            </p>
+          </div>
+
           {/* Assignee */}
           <div>
             <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Assignee</label>
@@ -380,12 +564,24 @@ function MissionDialog({
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Due Date</label>
-              <input
-                type="date"
-                value={dueDate}
-                onChange={e => setDueDate(e.target.value)}
-                className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
-              />
+              <div className="flex gap-2">
+                <input
+                  type="date"
+                  value={dueDate}
+                  onChange={e => setDueDate(e.target.value)}
+                  className="flex-1 min-w-0 bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                />
+                <input
+                  type="time"
+                  value={dueTime}
+                  onChange={e => setDueTime(e.target.value)}
+                  disabled={!dueDate}
+                  className="w-28 bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors disabled:opacity-40"
+                />
+              </div>
+              {dueDate && (
+                <p className="text-[10px] text-zinc-600 mt-1">{dueTime ? `At ${dueTime}` : 'End of day'} &middot; {dueZone}</p>
+              )}
             </div>
             <div>
               <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Recurring (cron)</label>
@@ -402,6 +598,32 @@ function MissionDialog({
           {/* Recurring Mode + Max Runs — only visible when recurring is set */}
           {recurring.trim() && (
             <>
+              <CronPreview cron={recurring} timezone={timezone} />
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Timezone</label>
+                  <input
+                    type="text"
+                    list="mission-timezones"
+                    value={timezone}
+                    onChange={e => setTimezone(e.target.value)}
+                    className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                  />
+                  <datalist id="mission-timezones">
+                    {COMMON_TIMEZONES.map(tz => <option key={tz} value={tz} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Missed Runs</label>
+                  <select
+                    value={catchUp}
+                    onChange={e => setCatchUp(e.target.value as CatchUpMode)}
+                    className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                  >
+                    {CATCH_UP_MODES.map(mode => <option key={mode} value={mode}>{CATCH_UP_LABELS[mode]}</option>)}
+                  </select>
+                </div>
+              </div>
               <div>
                 <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Recurring Mode</label>
                 <div className="flex items-center gap-3">
@@ -446,6 +668,37 @@ function MissionDialog({
                 />
                 <p className="text-[10px] text-zinc-600 mt-1">Leave empty for infinite runs</p>
               </div>
+              {templates.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Template</label>
+                    <select
+                      value={templateId}
+                      onChange={e => { setTemplateId(e.target.value); setTemplateVersion(''); setTemplateValues({}) }}
+                      className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                    >
+                      <option value="">None — plan each run</option>
+                      {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                  </div>
+                  {templateId && (
+                    <div>
+                      <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Version</label>
+                      <select
+                        value={templateVersion}
+                        onChange={e => setTemplateVersion(e.target.value)}
+                        className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2.5 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                      >
+                        <option value="">Always latest</option>
+                        {templateVersions.map(v => <option key={v.version} value={String(v.version)}>Pin v{v.version}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+              {templateId && selectedTemplateVersion && (
+                <TemplateParamFields placeholders={selectedTemplateVersion.placeholders} values={templateValues} onChange={setTemplateValues} />
+              )}
             </>
           )}
 
@@ -496,15 +749,30 @@ function MissionDialog({
                 if (!valid) return
                 // Validate cron if provided
                 if (recurring.trim()) {
-                  const cronParts = recurring.trim().split(/\s+/)
-                  if (cronParts.length !== 5) {
-                    setError('Invalid cron expression. Must have 5 fields: minute hour day-of-month month day-of-week (e.g. "0 9 * * 1")')
+                  const cronError = validateCron(recurring)
+                  if (cronError) {
+                    setError(`Invalid cron expression: ${cronError} (e.g. "0 9 * * 1" or "@daily")`)
+                    return
+                  }
+                  if (!isValidTimezone(timezone.trim())) {
+                    setError(`Unknown timezone "${timezone}". Use an IANA name like "America/New_York".`)
                     return
                   }
                 }
+                let templateParams: Record<string, unknown> | null = null
+                if (recurring.trim() && templateId && selectedTemplateVersion) {
+                  const { values, errors } = validateTemplateParams(selectedTemplateVersion.placeholders, templateValues)
+                  if (errors.length > 0) {
+                    setError(`Template parameters: ${errors.join('; ')}`)
+                    return
+                  }
+                  templateParams = values
+                }
                 setError('')
                 const parsedMaxRuns = maxRuns.trim() ? parseInt(maxRuns.trim(), 10) : null
-                onSave({ title: title.trim(), status, assignee: assignee.trim(), priority, due_date: dueDate, recurring, recurring_mode: recurring.trim() ? recurringMode : '', goal: goal.trim(), max_runs: (parsedMaxRuns && parsedMaxRuns > 0) ? parsedMaxRuns : null })
+                const parsedCap = budgetCap.trim() ? parseFloat(budgetCap.trim()) : null
+                const useTemplate = !!(recurring.trim() && templateId)
+                onSave({ title: title.trim(), status, assignee: assignee.trim(), priority, due_date: dueDate ? (dueTime ? `${dueDate}T${dueTime}` : dueDate) : '', recurring: recurring.trim(), recurring_mode: recurring.trim() ? recurringMode : '', recurring_timezone: timezone.trim(), recurring_catch_up: catchUp, goal: goal.trim(), max_runs: (parsedMaxRuns && parsedMaxRuns > 0) ? parsedMaxRuns : null, template_id: useTemplate ? templateId : null, template_version: useTemplate && templateVersion ? parseInt(templateVersion, 10) : null, template_params: useTemplate ? templateParams : null, parent_id: parentId || null, budget_cap: (parsedCap && parsedCap > 0) ? parsedCap : null, due_timezone: dueZone })
               }}
               disabled={!valid}
               className="px-4 py-2 text-xs font-semibold rounded-md bg-emerald-500/20 border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
@@ -630,18 +898,25 @@ function MissionReviewDialog({ mission, onClose }: { mission: MissionRow; onClos
 export default function MissionsView() {
   const navigate = useNavigate()
   const [dbMissions, setDbMissions] = useState<MissionRow[]>([])
-  const [dialogState, setDialogState] = useState<{ mission: MissionRow | null; defaultStatus: ColumnKey } | null>(null)
+  const [dialogState, setDialogState] = useState<{ mission: MissionRow | null; defaultStatus: ColumnKey; parentId?: string } | null>(null)
   const [reviewMission, setReviewMission] = useState<MissionRow | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [showArchived, setShowArchived] = useState(false)
   const [missionGrades, setMissionGrades] = useState<Record<string, string>>({})
   const [confirmArchiveAll, setConfirmArchiveAll] = useState(false)
   const [confirmApproveAll, setConfirmApproveAll] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [showQueue, setShowQueue] = useState(false)
+  const [viewMode, setViewMode] = useState<'board' | 'outline' | 'timeline'>('board')
+  const [rollups, setRollups] = useState<Map<string, MissionRollup>>(new Map())
 
   const refresh = useCallback(() => {
-    loadMissions().then(setDbMissions)
+    loadMissions().then(missions => {
+      setDbMissions(missions)
+      loadMissionRollups(missions).then(setRollups)
+    })
     // Load latest grades for all missions that have rounds (non-blocking)
-    getSupabase().from('mission_rounds').select('mission_id, grade, round_number').not('grade', 'is', null)
+    getSupabase().from('mission_rounds').select('mission_id, grade, round_number').not('grade', 'is', null).is('replay_of', null)
       .order('round_number', { ascending: false })
       .then(({ data, error }) => {
         if (error || !data) return
@@ -694,6 +969,10 @@ export default function MissionsView() {
     setDialogState({ mission: null, defaultStatus: status })
   }
 
+  function handleAddChild(parent: MissionRow) {
+    setDialogState({ mission: null, defaultStatus: 'backlog', parentId: parent.id })
+  }
+
   function handleEdit(mission: MissionRow) {
     setDialogState({ mission, defaultStatus: mission.status as ColumnKey })
   }
@@ -705,10 +984,13 @@ export default function MissionsView() {
   }
 
   async function handleSkipNext(mission: MissionRow) {
-    const { getSupabase } = await import('../../lib/supabase')
+    // Marking the upcoming slot as already run makes the scheduler pass over it
+    const last = mission.last_recurred_at ? new Date(mission.last_recurred_at).getTime() : 0
+    const upcoming = mission.recurring ? nextRun(mission.recurring, new Date(Math.max(Date.now(), last || 0)), mission.recurring_timezone) : null
     await getSupabase().from('missions')
-      .update({ last_recurred_at: new Date().toISOString() })
+      .update({ last_recurred_at: (upcoming ?? new Date()).toISOString() })
       .eq('id', mission.id)
+    await logAudit(null, 'RECURRING_SKIPPED', `Skipped next run of "${mission.title}"${upcoming ? ` (${upcoming.toISOString()})` : ''}`, 'info')
     refresh()
   }
 
@@ -732,7 +1014,7 @@ export default function MissionsView() {
     refresh()
   }
 
-  async function handleSave(data: { title: string; status: ColumnKey; assignee: string; priority: string; due_date: string; recurring: string; recurring_mode: string; goal: string; max_runs: number | null }) {
+  async function handleSave(data: { title: string; status: ColumnKey; assignee: string; priority: string; due_date: string; recurring: string; recurring_mode: string; recurring_timezone: string; recurring_catch_up: CatchUpMode; goal: string; max_runs: number | null; template_id: string | null; template_version: number | null; template_params: Record<string, unknown> | null; parent_id: string | null; budget_cap: number | null; due_timezone: string }) {
     if (!dialogState) return
     const { mission } = dialogState
 
@@ -744,9 +1026,16 @@ export default function MissionsView() {
         assignee: data.assignee || null,
         priority: data.priority,
         due_date: data.due_date || null,
+        due_timezone: data.due_timezone,
         recurring: data.recurring || null,
         recurring_mode: data.recurring_mode || null,
+        recurring_timezone: data.recurring ? data.recurring_timezone : null,
+        recurring_catch_up: data.recurring ? data.recurring_catch_up : null,
         max_runs: data.recurring?.trim() ? data.max_runs : null,
+        // One-off missions keep the template they were instantiated from
+        ...(data.recurring?.trim() ? { template_id: data.template_id, template_version: data.template_version, template_params: data.template_params } : {}),
+        parent_id: data.parent_id,
+        budget_cap: data.budget_cap,
       })
       await logAudit(null, 'MISSION_EDIT', `Edited mission "${data.title}"`, 'info')
       setDialogState(null)
@@ -761,8 +1050,17 @@ export default function MissionsView() {
         assignee: data.assignee || null,
         priority: data.priority,
         due_date: data.due_date || null,
+        due_timezone: data.due_timezone,
         recurring: data.recurring || null,
+        recurring_mode: data.recurring_mode || null,
+        recurring_timezone: data.recurring ? data.recurring_timezone : null,
+        recurring_catch_up: data.recurring ? data.recurring_catch_up : null,
         max_runs: data.recurring?.trim() ? data.max_runs : null,
+        template_id: data.template_id,
+        template_version: data.template_version,
+        template_params: data.template_params,
+        parent_id: data.parent_id,
+        budget_cap: data.budget_cap,
         created_at: new Date().toISOString(),
       })
       await logAudit(null, 'MISSION_BRIEF', `Mission brief: "${data.title}"`, 'info')
@@ -787,8 +1085,10 @@ export default function MissionsView() {
         data.goal ? `**Goal:** ${data.goal}` : null,
         `**Priority:** ${data.priority}`,
         data.assignee ? `**Suggested Assignee:** ${data.assignee}` : null,
-        data.due_date ? `**Due:** ${data.due_date}` : null,
+        data.due_date ? `**Due:** ${data.due_date} (${data.due_timezone})` : null,
         data.recurring ? `**Recurring:** ${data.recurring}` : null,
+        data.parent_id ? `**Sub-mission of:** ${dbMissions.find(m => m.id === data.parent_id)?.title ?? data.parent_id}` : null,
+        data.budget_cap ? `**Budget cap:** $${data.budget_cap.toFixed(2)}` : null,
         ``,
         `Please review this mission brief. Ask any clarifying questions before we lock it in.`,
       ].filter(Boolean).join('\n')
@@ -859,6 +1159,51 @@ export default function MissionsView() {
               className="bg-jarvis-surface border border-jarvis-border rounded-lg pl-8 pr-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-emerald-500/40 transition-colors w-56"
             />
           </div>
+          {/* Board / Outline / Timeline toggle */}
+          <div className="flex items-center rounded-lg border border-jarvis-border bg-jarvis-surface overflow-hidden">
+            <button
+              onClick={() => setViewMode('board')}
+              className={`flex items-center gap-1.5 px-3 py-2 text-xs font-semibold transition-colors ${viewMode === 'board' ? 'bg-emerald-500/10 text-emerald-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+              title="Kanban board"
+            >
+              <Kanban size={13} />
+              BOARD
+            </button>
+            <button
+              onClick={() => setViewMode('outline')}
+              className={`flex items-center gap-1.5 px-3 py-2 text-xs font-semibold transition-colors ${viewMode === 'outline' ? 'bg-emerald-500/10 text-emerald-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+              title="Epics and sub-missions as a tree"
+            >
+              <ListTree size={13} />
+              OUTLINE
+            </button>
+            <button
+              onClick={() => setViewMode('timeline')}
+              className={`flex items-center gap-1.5 px-3 py-2 text-xs font-semibold transition-colors ${viewMode === 'timeline' ? 'bg-emerald-500/10 text-emerald-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+              title="Deadlines on a timeline"
+            >
+              <GanttChart size={13} />
+              TIMELINE
+            </button>
+          </div>
+          {/* Template Library */}
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-lg border border-jarvis-border bg-jarvis-surface text-zinc-500 hover:text-zinc-300 hover:border-white/[0.12] transition-colors"
+            title="Run a saved mission template"
+          >
+            <BookCopy size={13} />
+            TEMPLATES
+          </button>
+          {/* Work Queue */}
+          <button
+            onClick={() => setShowQueue(true)}
+            className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-lg border border-jarvis-border bg-jarvis-surface text-zinc-500 hover:text-zinc-300 hover:border-white/[0.12] transition-colors"
+            title="Running and queued tasks, and why each is waiting"
+          >
+            <Layers size={13} />
+            QUEUE
+          </button>
           {/* Archived Toggle */}
           <button
             onClick={() => setShowArchived(prev => !prev)}
@@ -875,7 +1220,26 @@ export default function MissionsView() {
         </div>
       </div>
 
+      {/* Outline (mission tree) */}
+      {viewMode === 'outline' && (
+        <MissionOutline
+          missions={showArchived ? filtered : filtered.filter(m => m.status !== 'archived' && m.status !== 'cancelled')}
+          rollups={rollups}
+          onEdit={handleEdit}
+          onAddChild={handleAddChild}
+        />
+      )}
+
+      {/* Timeline (deadlines) */}
+      {viewMode === 'timeline' && (
+        <MissionTimeline
+          missions={showArchived ? filtered : filtered.filter(m => m.status !== 'archived' && m.status !== 'cancelled')}
+          onEdit={handleEdit}
+        />
+      )}
+
       {/* Kanban Board */}
+      {viewMode === 'board' && (
       <div className={`grid gap-4 flex-1 min-h-0 ${showArchived ? 'grid-cols-6' : 'grid-cols-5'}`}>
         {visibleColumns.map((col) => {
           const items = grouped[col.key]
@@ -988,7 +1352,9 @@ export default function MissionsView() {
                         onMove={handleMove}
                         onRunNow={handleRunNow}
                         onSkipNext={handleSkipNext}
-                        latestGrade={missionGrades[mission.id] ?? null}
+                        latestGrade={missionGrades[mission.id] ?? rollups.get(mission.id)?.grade ?? null}
+                        parentTitle={mission.parent_id ? dbMissions.find(m => m.id === mission.parent_id)?.title ?? null : null}
+                        rollup={rollups.get(mission.id) ?? null}
                       />
                     </div>
                   ))
@@ -998,18 +1364,35 @@ export default function MissionsView() {
           )
         })}
       </div>
+      )}
 
       {/* Mission Dialog */}
       {dialogState && (
         <MissionDialog
           mission={dialogState.mission}
           defaultStatus={dialogState.defaultStatus}
+          defaultParentId={dialogState.parentId ?? null}
+          missions={dbMissions}
           onSave={handleSave}
           onDelete={dialogState.mission ? handleDelete : undefined}
           onClose={() => setDialogState(null)}
         />
       )}
 
+      {/* Template Library */}
+      {showTemplates && (
+        <TemplateLibraryModal
+          onLaunched={missionId => {
+            setShowTemplates(false)
+            navigate(`/missions/${missionId}`)
+          }}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {/* Work Queue */}
+      {showQueue && <TaskQueueModal onClose={() => setShowQueue(false)} />}
+
       {/* Mission Review Dialog */}
       {reviewMission && (
         <MissionReviewDialog
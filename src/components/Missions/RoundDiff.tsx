@@ -0,0 +1,215 @@
+import { useState, useMemo } from 'react';
+import { Play, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+import type { MissionRoundRow } from '../../lib/database';
+import { compareRounds, replayMissionRound, type DiffLine } from '../../lib/missionReplay';
+import { MODEL_OPTIONS } from '../../lib/models';
+
+interface RoundDiffProps {
+  rounds: MissionRoundRow[];
+  onReplayed: () => void;
+}
+
+export function roundLabel(round: MissionRoundRow): string {
+  return round.replay_of
+    ? `R${round.round_number} replay · ${round.replay_config?.model ?? 'recorded models'}, ${round.replay_config?.prompt ?? 'recorded'} prompts`
+    : `R${round.round_number} · ${round.status}`;
+}
+
+/** Pair removed/added runs so changed lines sit next to each other */
+function sideBySide(diff: DiffLine[]): { left: DiffLine | null; right: DiffLine | null }[] {
+  const rows: { left: DiffLine | null; right: DiffLine | null }[] = [];
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].kind === 'same') {
+      rows.push({ left: diff[i], right: diff[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < diff.length && diff[i].kind !== 'same') {
+      (diff[i].kind === 'removed' ? removed : added).push(diff[i]);
+      i++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+  return rows;
+}
+
+function Delta({ value, digits = 0, prefix = '', invert = false }: { value: number | null; digits?: number; prefix?: string; invert?: boolean }) {
+  if (value === null) return <span className="text-zinc-600">—</span>;
+  const good = invert ? value < 0 : value > 0;
+  const color = value === 0 ? 'text-zinc-400' : good ? 'text-emerald-400' : 'text-red-400';
+  const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+  return <span className={`font-semibold tabular-nums ${color}`}>{sign}{prefix}{Math.abs(value).toFixed(digits)}</span>;
+}
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) return <div className="px-2 bg-white/[0.01]">&nbsp;</div>;
+  const tone = line.kind === 'removed' ? 'bg-red-500/10 text-red-300' : line.kind === 'added' ? 'bg-emerald-500/10 text-emerald-300' : 'text-zinc-400';
+  return <div className={`px-2 whitespace-pre-wrap break-words ${tone}`}>{line.text || ' '}</div>;
+}
+
+export default function RoundDiff({ rounds, onReplayed }: RoundDiffProps) {
+  const ordered = useMemo(
+    () => [...rounds].sort((a, b) => a.round_number - b.round_number || (a.created_at ?? '').localeCompare(b.created_at ?? '')),
+    [rounds],
+  );
+  const withTasks = ordered.filter(r => (r.tasks ?? []).length > 0);
+
+  const [leftId, setLeftId] = useState<string>(() => withTasks[0]?.id ?? '');
+  const [rightId, setRightId] = useState<string>(() => withTasks[withTasks.length - 1]?.id ?? '');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const [sourceId, setSourceId] = useState<string>(() => withTasks.filter(r => !r.replay_of).pop()?.id ?? '');
+  const [model, setModel] = useState('');
+  const [prompt, setPrompt] = useState<'recorded' | 'current'>('recorded');
+  const [replaying, setReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const left = withTasks.find(r => r.id === leftId);
+  const right = withTasks.find(r => r.id === rightId);
+  const comparison = useMemo(() => (left && right && left.id !== right.id ? compareRounds(left, right) : null), [left, right]);
+
+  if (withTasks.length === 0) {
+    return (
+      <div className="text-xs text-zinc-600 border border-dashed border-jarvis-border rounded-lg px-4 py-3">
+        Rounds recorded before replay capture have no task snapshots to compare or replay.
+      </div>
+    );
+  }
+
+  const handleReplay = async () => {
+    if (!sourceId) return;
+    setReplaying(true);
+    setError(null);
+    try {
+      const replay = await replayMissionRound(sourceId, { model: model || null, prompt });
+      setLeftId(sourceId);
+      setRightId(replay.id);
+      onReplayed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selectClass = 'bg-jarvis-bg border border-jarvis-border rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-cyan-500/40';
+
+  return (
+    <div className="space-y-3">
+      {/* Replay */}
+      <div className="bg-jarvis-surface border border-jarvis-border rounded-lg p-4">
+        <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-500 mb-2">Replay a round</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={sourceId} onChange={e => setSourceId(e.target.value)} className={selectClass}>
+            {withTasks.filter(r => !r.replay_of).map(r => <option key={r.id} value={r.id}>{roundLabel(r)}</option>)}
+          </select>
+          <select value={model} onChange={e => setModel(e.target.value)} className={selectClass}>
+            <option value="">Recorded models</option>
+            {MODEL_OPTIONS.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select value={prompt} onChange={e => setPrompt(e.target.value as 'recorded' | 'current')} className={selectClass}>
+            <option value="recorded">Recorded prompts</option>
+            <option value="current">Current skill prompts</option>
+          </select>
+          <button
+            onClick={handleReplay}
+            disabled={replaying || !sourceId}
+            className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:opacity-50 rounded transition-colors"
+          >
+            {replaying ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            {replaying ? 'REPLAYING…' : 'REPLAY'}
+          </button>
+        </div>
+        <p className="text-[10px] text-zinc-600 mt-2">
+          Each task is re-sent with the inputs it had. Handler and API tasks are carried over unchanged. The replay is scored but does not change the mission.
+        </p>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </div>
+
+      {/* Compare */}
+      <div className="bg-jarvis-surface border border-jarvis-border rounded-lg p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">Compare</span>
+          <select value={leftId} onChange={e => setLeftId(e.target.value)} className={selectClass}>
+            {withTasks.map(r => <option key={r.id} value={r.id}>{roundLabel(r)}</option>)}
+          </select>
+          <span className="text-xs text-zinc-600">→</span>
+          <select value={rightId} onChange={e => setRightId(e.target.value)} className={selectClass}>
+            {withTasks.map(r => <option key={r.id} value={r.id}>{roundLabel(r)}</option>)}
+          </select>
+        </div>
+
+        {!comparison ? (
+          <div className="text-xs text-zinc-600">Pick two different rounds.</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-7 gap-2 mb-3 text-center text-xs">
+              <div><span className="text-[10px] text-zinc-500">Quality</span><br /><Delta value={comparison.scoreDeltas.quality} /></div>
+              <div><span className="text-[10px] text-zinc-500">Completeness</span><br /><Delta value={comparison.scoreDeltas.completeness} /></div>
+              <div><span className="text-[10px] text-zinc-500">Efficiency</span><br /><Delta value={comparison.scoreDeltas.efficiency} /></div>
+              <div><span className="text-[10px] text-zinc-500">Overall</span><br /><Delta value={comparison.scoreDeltas.overall} /></div>
+              <div><span className="text-[10px] text-zinc-500">Cost</span><br /><Delta value={comparison.costDelta} digits={4} prefix="$" invert /></div>
+              <div><span className="text-[10px] text-zinc-500">Tokens</span><br /><Delta value={comparison.tokensDelta} invert /></div>
+              <div><span className="text-[10px] text-zinc-500">Duration</span><br /><Delta value={comparison.durationDelta === null ? null : comparison.durationDelta / 1000} digits={1} invert />{comparison.durationDelta !== null && <span className="text-zinc-500">s</span>}</div>
+            </div>
+
+            <div className="space-y-1">
+              {comparison.tasks.map(task => {
+                const open = expanded.has(task.key);
+                const b = task.before;
+                const a = task.after;
+                return (
+                  <div key={task.key} className="border border-jarvis-border rounded">
+                    <button
+                      onClick={() => toggle(task.key)}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-white/[0.02] transition-colors"
+                    >
+                      {open ? <ChevronDown size={12} className="text-zinc-500" /> : <ChevronRight size={12} className="text-zinc-500" />}
+                      <span className="text-xs font-medium text-zinc-300 flex-1 truncate">{task.key}</span>
+                      {!b && <span className="text-[9px] font-bold tracking-wider text-emerald-400">ADDED</span>}
+                      {!a && <span className="text-[9px] font-bold tracking-wider text-red-400">REMOVED</span>}
+                      {b && a && (
+                        <span className={`text-[9px] font-bold tracking-wider ${task.changed ? 'text-yellow-400' : 'text-zinc-600'}`}>
+                          {task.changed ? 'CHANGED' : 'SAME'}
+                        </span>
+                      )}
+                      {a?.replayed === false && <span className="text-[9px] font-bold tracking-wider text-zinc-500">CARRIED OVER</span>}
+                      <span className="text-[10px] text-zinc-500 w-40 truncate text-right">
+                        {b?.model ?? '—'} → {a?.model ?? '—'}
+                      </span>
+                      <span className="text-[10px] w-20 text-right"><Delta value={task.costDelta} digits={4} prefix="$" invert /></span>
+                    </button>
+                    {open && (
+                      <div className="grid grid-cols-2 border-t border-jarvis-border font-mono text-[11px] leading-relaxed max-h-96 overflow-y-auto">
+                        {sideBySide(task.diff).map((row, i) => (
+                          <div key={i} className="contents">
+                            <div className="border-r border-jarvis-border"><DiffCell line={row.left} /></div>
+                            <DiffCell line={row.right} />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import type { MissionRow } from '../../lib/database';
+import type { PlanToolCall } from '../../lib/llm/tools';
+import {
+  draftTemplateFromMission, findMissionTemplate, getTemplateVersion, saveMissionTemplate, detectPlaceholders,
+  PLACEHOLDER_TYPES, type TemplatePlaceholder, type PlaceholderType,
+} from '../../lib/missionTemplates';
+import { getSkillName } from '../../lib/skillsCache';
+
+interface SaveTemplateModalProps {
+  mission: MissionRow;
+  onSaved: (name: string, version: number) => void;
+  onClose: () => void;
+}
+
+const inputCls = 'w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-emerald-500/40 transition-colors';
+const labelCls = 'block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5';
+
+/**
+ * Save a mission's plan as a template. Typing {{params.name}} into the title or
+ * any string argument declares a parameter; a mission that was itself started
+ * from a template starts from that template's plan and saves its next version.
+ */
+export default function SaveTemplateModal({ mission, onSaved, onClose }: SaveTemplateModalProps) {
+  const [loading, setLoading] = useState(true);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [name, setName] = useState(mission.title);
+  const [description, setDescription] = useState('');
+  const [title, setTitle] = useState(mission.title);
+  const [plan, setPlan] = useState<PlanToolCall[]>([]);
+  const [placeholders, setPlaceholders] = useState<TemplatePlaceholder[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const template = mission.template_id ? await findMissionTemplate(mission.template_id) : null;
+      const version = template ? await getTemplateVersion(template.id, mission.template_version) : null;
+      if (cancelled) return;
+      if (template && version) {
+        setTemplateId(template.id);
+        setName(template.name);
+        setDescription(template.description ?? '');
+        setTitle(version.title);
+        setPlan(version.plan);
+        setPlaceholders(version.placeholders);
+      } else {
+        const draft = await draftTemplateFromMission(mission.id);
+        if (cancelled) return;
+        setTitle(draft.title);
+        setPlan(draft.plan);
+      }
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [mission.id, mission.template_id, mission.template_version]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Keep one placeholder row per {{params.x}} in use (new ones default to a required string)
+  const used = detectPlaceholders(title, plan);
+  const usedKey = used.join(',');
+  useEffect(() => {
+    setPlaceholders(prev => {
+      const missing = used.filter(n => !prev.some(p => p.name === n));
+      return missing.length === 0 ? prev : [...prev, ...missing.map(n => ({ name: n, type: 'string' as PlaceholderType, required: true }))];
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [usedKey]);
+
+  function setArg(index: number, key: string, value: string) {
+    setPlan(prev => prev.map((call, i) => (i === index ? { ...call, arguments: { ...call.arguments, [key]: value } } : call)));
+  }
+
+  function setPlaceholder(name: string, patch: Partial<TemplatePlaceholder>) {
+    setPlaceholders(prev => prev.map(p => (p.name === name ? { ...p, ...patch } : p)));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError('');
+    try {
+      const { template, version } = await saveMissionTemplate({
+        templateId: templateId ?? undefined,
+        name,
+        description,
+        title,
+        placeholders: placeholders.filter(p => used.includes(p.name)),
+        plan,
+        sourceMissionId: mission.id,
+        createdBy: 'Founder',
+      });
+      onSaved(template.name, version.version);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-2xl mx-4 bg-jarvis-bg border border-jarvis-border rounded-lg shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-jarvis-border">
+          <div className="flex items-center gap-3">
+            <BookmarkPlus size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-white tracking-wide">
+              {templateId ? 'SAVE NEW TEMPLATE VERSION' : 'SAVE AS TEMPLATE'}
+            </h3>
+          </div>
+          <button onClick={onClose} className="w-7 h-7 rounded-md flex items-center justify-center text-zinc-500 hover:text-zinc-300 hover:bg-white/[0.06] transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="px-5 py-10 text-center text-sm text-jarvis-muted">Loading plan...</div>
+        ) : (
+          <div className="px-5 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelCls}>Template Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputCls} />
+              </div>
+              <div>
+                <label className={labelCls}>Description</label>
+                <input type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="optional" className={inputCls} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelCls}>Mission Title</label>
+              <input type="text" value={title} onChange={e => setTitle(e.target.value)} className={`${inputCls} font-mono`} />
+              <p className="text-[10px] text-zinc-600 mt-1">
+                Type <span className="font-mono text-zinc-400">{'{{params.name}}'}</span> in the title or any argument to make it a parameter.
+              </p>
+            </div>
+
+            {/* Tasks */}
+            <div>
+              <label className={labelCls}>Tasks ({plan.length})</label>
+              {plan.length === 0 ? (
+                <p className="text-xs text-zinc-500">This mission has no tasks to save.</p>
+              ) : (
+                <div className="space-y-3">
+                  {plan.map((call, i) => (
+                    <div key={call.id ?? i} className="border border-jarvis-border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center gap-2 text-[11px]">
+                        <span className="font-mono text-zinc-500">#{call.id}</span>
+                        <span className="text-zinc-300 font-semibold">{getSkillName(call.name)}</span>
+                        {call.command && <span className="font-mono text-zinc-500">/ {call.command}</span>}
+                        {call.depends_on?.length ? <span className="text-zinc-600">&larr; {call.depends_on.join(', ')}</span> : null}
+                      </div>
+                      {Object.entries(call.arguments).map(([key, value]) => (
+                        <div key={key}>
+                          <div className="text-[10px] text-zinc-500 font-mono mb-1">{key}</div>
+                          {typeof value === 'string' ? (
+                            <textarea
+                              value={value}
+                              onChange={e => setArg(i, key, e.target.value)}
+                              rows={value.length > 80 ? 3 : 1}
+                              className={`${inputCls} font-mono text-xs resize-y`}
+                            />
+                          ) : (
+                            <div className="text-[11px] text-zinc-400 font-mono bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2 truncate">
+                              {JSON.stringify(value)}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Placeholders */}
+            <div>
+              <label className={labelCls}>Parameters</label>
+              {placeholders.length === 0 ? (
+                <p className="text-xs text-zinc-500">No parameters — the template will always run exactly this plan.</p>
+              ) : (
+                <div className="space-y-2">
+                  {placeholders.map(p => {
+                    const inUse = used.includes(p.name);
+                    return (
+                      <div key={p.name} className={`grid grid-cols-12 gap-2 items-center ${inUse ? '' : 'opacity-40'}`}>
+                        <span className="col-span-3 text-[11px] font-mono text-zinc-300 truncate" title={inUse ? undefined : 'Not used — will be dropped'}>
+                          {p.name}
+                        </span>
+                        <select
+                          value={p.type}
+                          onChange={e => setPlaceholder(p.name, { type: e.target.value as PlaceholderType })}
+                          className={`${inputCls} col-span-2 text-xs px-2`}
+                        >
+                          {PLACEHOLDER_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          value={p.label ?? ''}
+                          onChange={e => setPlaceholder(p.name, { label: e.target.value || undefined })}
+                          placeholder="Label"
+                          className={`${inputCls} col-span-3 text-xs px-2`}
+                        />
+                        {p.type === 'enum' ? (
+                          <input
+                            type="text"
+                            value={(p.options ?? []).join(', ')}
+                            onChange={e => setPlaceholder(p.name, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })}
+                            placeholder="Options, comma-separated"
+                            className={`${inputCls} col-span-3 text-xs px-2`}
+                          />
+                        ) : (
+                          <input
+                            type="text"
+                            value={p.default === undefined ? '' : String(p.default)}
+                            onChange={e => setPlaceholder(p.name, { default: e.target.value === '' ? undefined : e.target.value })}
+                            placeholder="Default"
+                            className={`${inputCls} col-span-3 text-xs px-2`}
+                          />
+                        )}
+                        <label className="col-span-1 flex items-center justify-center" title="Required">
+                          <input
+                            type="checkbox"
+                            checked={p.required}
+                            onChange={e => setPlaceholder(p.name, { required: e.target.checked })}
+                            className="accent-emerald-500"
+                          />
+                        </label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+                {error}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-jarvis-border">
+          <button onClick={onClose} className="px-4 py-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={loading || saving || !name.trim() || plan.length === 0}
+            className="px-4 py-2 text-xs font-semibold rounded-md bg-emerald-500/20 border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            {saving ? 'SAVING...' : templateId ? 'SAVE NEW VERSION' : 'SAVE TEMPLATE'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { taskGraphDepths } from '../../lib/taskGraph';
+import { getSkillName } from '../../lib/skillsCache';
+
+interface GraphTask {
+  id: string;
+  task_key?: string | null;
+  depends_on?: string[] | null;
+  skill_id: string;
+  command_name?: string | null;
+  status: string;
+}
+
+interface TaskGraphProps {
+  tasks: GraphTask[];
+  selectedId: string | null;
+  onSelect: (taskId: string) => void;
+}
+
+const NODE_W = 184;
+const NODE_H = 52;
+const COL_GAP = 56;
+const ROW_GAP = 14;
+const PAD = 8;
+
+const STATUS_STYLE: Record<string, { stroke: string; fill: string; text: string; label: string }> = {
+  blocked:   { stroke: '#52525b', fill: 'rgba(82,82,91,0.10)',  text: '#a1a1aa', label: 'WAITING' },
+  pending:   { stroke: '#eab308', fill: 'rgba(234,179,8,0.08)', text: '#facc15', label: 'QUEUED' },
+  running:   { stroke: '#06b6d4', fill: 'rgba(6,182,212,0.10)', text: '#22d3ee', label: 'RUNNING' },
+  completed: { stroke: '#10b981', fill: 'rgba(16,185,129,0.08)', text: '#34d399', label: 'DONE' },
+  failed:    { stroke: '#ef4444', fill: 'rgba(239,68,68,0.08)', text: '#f87171', label: 'FAILED' },
+};
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Left-to-right DAG of a mission's tasks: one column per dependency depth, edges from upstream to dependent */
+export default function TaskGraph({ tasks, selectedId, onSelect }: TaskGraphProps) {
+  const depths = taskGraphDepths(tasks);
+  const columns: GraphTask[][] = [];
+  for (const task of tasks) {
+    const d = depths.get(task.id) ?? 0;
+    (columns[d] ??= []).push(task);
+  }
+
+  const pos = new Map<string, { x: number; y: number }>();
+  columns.forEach((col, c) => col.forEach((task, r) => {
+    pos.set(task.id, { x: PAD + c * (NODE_W + COL_GAP), y: PAD + r * (NODE_H + ROW_GAP) });
+  }));
+
+  const width = PAD * 2 + columns.length * NODE_W + (columns.length - 1) * COL_GAP;
+  const height = PAD * 2 + Math.max(...columns.map(c => c.length)) * (NODE_H + ROW_GAP) - ROW_GAP;
+  const byId = new Map(tasks.map(t => [t.id, t]));
+
+  return (
+    <div className="overflow-x-auto border border-jarvis-border rounded-lg bg-black/20 p-2">
+      <svg width={width} height={height} className="block">
+        {tasks.flatMap(task => (task.depends_on ?? []).filter(id => pos.has(id)).map(upId => {
+          const from = pos.get(upId)!;
+          const to = pos.get(task.id)!;
+          const x1 = from.x + NODE_W;
+          const y1 = from.y + NODE_H / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_H / 2;
+          const done = byId.get(upId)?.status === 'completed';
+          return (
+            <path
+              key={`${upId}->${task.id}`}
+              d={`M${x1},${y1} C${x1 + COL_GAP / 2},${y1} ${x2 - COL_GAP / 2},${y2} ${x2},${y2}`}
+              fill="none"
+              stroke={done ? '#10b981' : '#52525b'}
+              strokeWidth={1.5}
+              strokeDasharray={done ? undefined : '4 3'}
+            />
+          );
+        }))}
+
+        {tasks.map(task => {
+          const { x, y } = pos.get(task.id)!;
+          const style = STATUS_STYLE[task.status] ?? STATUS_STYLE.blocked;
+          const selected = task.id === selectedId;
+          return (
+            <g key={task.id} transform={`translate(${x},${y})`} onClick={() => onSelect(task.id)} className="cursor-pointer">
+              <rect
+                width={NODE_W}
+                height={NODE_H}
+                rx={6}
+                fill={style.fill}
+                stroke={style.stroke}
+                strokeWidth={selected ? 2 : 1}
+                className={task.status === 'running' ? 'animate-pulse' : undefined}
+              />
+              <text x={10} y={20} fill="#e4e4e7" fontSize={12} fontWeight={600}>
+                {clip(task.task_key ?? getSkillName(task.skill_id), 20)}
+              </text>
+              <text x={10} y={38} fill="#71717a" fontSize={10} fontFamily="monospace">
+                {clip(`${task.skill_id}${task.command_name ? ` / ${task.command_name}` : ''}`, 24)}
+              </text>
+              <text x={NODE_W - 8} y={20} fill={style.text} fontSize={9} fontWeight={700} textAnchor="end" letterSpacing={1}>
+                {style.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, X, Loader2, Clock, GitBranch, PauseCircle } from 'lucide-react';
+import { inspectTaskQueue, providerLimit, type QueueInspection, type QueueTask } from '../../lib/taskQueue';
+import { getSkillName } from '../../lib/skillsCache';
+
+interface TaskQueueModalProps {
+  onClose: () => void;
+}
+
+const priorityColor: Record<string, string> = {
+  critical: 'text-red-400',
+  high: 'text-amber-400',
+  medium: 'text-blue-400',
+  low: 'text-emerald-400',
+};
+
+function since(iso: string | null): string {
+  if (!iso) return '—';
+  const secs = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000));
+  if (secs < 60) return `${secs}s`;
+  if (secs < 3600) return `${Math.floor(secs / 60)}m`;
+  return `${Math.floor(secs / 3600)}h ${Math.floor((secs % 3600) / 60)}m`;
+}
+
+function TaskLine({ task, lead, note, age }: { task: QueueTask; lead: ReactNode; note?: string; age: string | null }) {
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 border-b border-jarvis-border/60 text-[11px]">
+      <span className="w-6 text-zinc-600 font-mono text-right">{lead}</span>
+      <div className="flex-1 min-w-0">
+        <div className="text-zinc-200 truncate">
+          {getSkillName(task.skill_id)}
+          <span className="text-zinc-500 font-mono"> / {task.command_name}</span>
+        </div>
+        {task.mission_id && (
+          <Link to={`/missions/${task.mission_id}`} className="text-[10px] text-zinc-500 hover:text-emerald-400 transition-colors truncate block">
+            {task.mission_title ?? task.mission_id}
+          </Link>
+        )}
+      </div>
+      <span className={`w-14 text-[9px] font-bold uppercase tracking-wider ${priorityColor[task.priority] ?? 'text-zinc-400'}`}>{task.priority}</span>
+      <span className="w-20 text-zinc-400 truncate">{task.agent_id}</span>
+      <span className="w-20 text-zinc-500 truncate">{task.provider}</span>
+      <span className="w-52 text-zinc-400 truncate" title={note}>{note ?? ''}</span>
+      <span className="w-12 text-right tabular-nums text-zinc-500">{age ? since(age) : '—'}</span>
+    </div>
+  );
+}
+
+/** Work queue inspector: what is running, what waits and why */
+export default function TaskQueueModal({ onClose }: TaskQueueModalProps) {
+  const [queue, setQueue] = useState<QueueInspection | null>(null);
+
+  const refresh = useCallback(async () => {
+    setQueue(await inspectTaskQueue());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('task-executions-changed', refresh);
+    const interval = setInterval(refresh, 5_000);
+    return () => {
+      window.removeEventListener('task-executions-changed', refresh);
+      clearInterval(interval);
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // In-flight usage per provider, for the header
+  const providers = new Map<string, number>();
+  for (const t of queue?.running ?? []) providers.set(t.provider, (providers.get(t.provider) ?? 0) + 1);
+
+  const sectionCls = 'px-3 py-2 text-[10px] font-semibold text-jarvis-muted uppercase tracking-wider bg-jarvis-surface border-b border-jarvis-border flex items-center gap-2';
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-5xl mx-4 bg-jarvis-bg border border-jarvis-border rounded-lg shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-jarvis-border">
+          <div className="flex items-center gap-3">
+            <Layers size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-white tracking-wide">WORK QUEUE</h3>
+            {queue && (
+              <span className="text-[11px] text-zinc-500 tabular-nums">
+                {queue.running.length}/{queue.limits.maxConcurrent || '∞'} running &middot; {queue.waiting.length} queued &middot; {queue.blocked.length} waiting on inputs
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="w-7 h-7 rounded-md flex items-center justify-center text-zinc-500 hover:text-zinc-300 hover:bg-white/[0.06] transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {!queue ? (
+          <div className="px-5 py-10 flex justify-center text-jarvis-muted"><Loader2 size={16} className="animate-spin" /></div>
+        ) : (
+          <div className="max-h-[70vh] overflow-y-auto">
+            {queue.held && (
+              <div className="flex items-center gap-2 mx-5 mt-4 text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+                <PauseCircle size={13} />
+                Budget hard stop — nothing leaves the queue until the budget is approved or raised.
+              </div>
+            )}
+
+            {/* Caps */}
+            <div className="flex flex-wrap items-center gap-2 px-5 py-3 text-[10px]">
+              <span className="text-zinc-500 uppercase tracking-wider">Caps</span>
+              <span className="px-2 py-0.5 rounded border border-jarvis-border text-zinc-400">
+                {queue.limits.perAgent || '∞'} per agent
+              </span>
+              {[...new Set([...providers.keys(), ...queue.waiting.map(w => w.task.provider)])].sort().map(provider => (
+                <span key={provider} className="px-2 py-0.5 rounded border border-jarvis-border text-zinc-400 tabular-nums">
+                  {provider} {providers.get(provider) ?? 0}/{providerLimit(queue.limits, provider) || '∞'}
+                </span>
+              ))}
+              <Link to="/settings" className="ml-auto text-zinc-500 hover:text-zinc-300 transition-colors">Edit caps in Settings</Link>
+            </div>
+
+            <div className={sectionCls}><Loader2 size={11} className="text-cyan-400" /> Running ({queue.running.length})</div>
+            {queue.running.length === 0 ? (
+              <div className="px-3 py-3 text-[11px] text-zinc-600">Nothing running.</div>
+            ) : queue.running.map(task => (
+              <TaskLine key={task.id} task={task} lead="▶" note={task.status === 'pending' ? 'Starting' : `Running${task.lease_owner ? ` on ${task.lease_owner}` : ''}${task.attempts > 1 ? ` — attempt ${task.attempts}` : ''}`} age={task.started_at ?? task.admitted_at ?? task.created_at} />
+            ))}
+
+            <div className={sectionCls}><Clock size={11} className="text-zinc-400" /> Queued ({queue.waiting.length})</div>
+            {queue.waiting.length === 0 ? (
+              <div className="px-3 py-3 text-[11px] text-zinc-600">The queue is empty.</div>
+            ) : queue.waiting.map(({ task, position, reason }) => (
+              <TaskLine key={task.id} task={task} lead={position} note={reason} age={task.created_at} />
+            ))}
+
+            <div className={sectionCls}><GitBranch size={11} className="text-zinc-400" /> Waiting on inputs ({queue.blocked.length})</div>
+            {queue.blocked.length === 0 ? (
+              <div className="px-3 py-3 text-[11px] text-zinc-600">No task is waiting on an upstream task.</div>
+            ) : queue.blocked.map(({ task, reason }) => (
+              <TaskLine key={task.id} task={task} lead="·" note={reason} age={task.created_at} />
+            ))}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-5 py-3 border-t border-jarvis-border">
+          <span className="text-[10px] text-zinc-600">Ordered by mission priority, then due date, then age.</span>
+          <button onClick={onClose} className="px-4 py-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BookCopy, Play, Trash2, X } from 'lucide-react';
+import {
+  loadTemplateCatalog, loadTemplateVersions, instantiateTemplate, deleteMissionTemplate, validateTemplateParams,
+  type TemplateCatalogEntry, type TemplateVersionRow,
+} from '../../lib/missionTemplates';
+import { getSkillName } from '../../lib/skillsCache';
+import TemplateParamFields, { initialParamValues } from './TemplateParamFields';
+
+interface TemplateLibraryModalProps {
+  onLaunched: (missionId: string) => void;
+  onClose: () => void;
+}
+
+/** Browse saved mission templates, pick a version, fill in its parameters and run it */
+export default function TemplateLibraryModal({ onLaunched, onClose }: TemplateLibraryModalProps) {
+  const [templates, setTemplates] = useState<TemplateCatalogEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<TemplateVersionRow[]>([]);
+  const [versionNo, setVersionNo] = useState<number | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const catalog = await loadTemplateCatalog();
+    setTemplates(catalog);
+    setSelectedId(prev => (prev && catalog.some(t => t.id === prev) ? prev : catalog[0]?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('mission-templates-changed', refresh);
+    return () => window.removeEventListener('mission-templates-changed', refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  useEffect(() => {
+    setVersions([]);
+    setVersionNo(null);
+    setError('');
+    setDeleteConfirm(false);
+    if (!selectedId) return;
+    loadTemplateVersions(selectedId).then(rows => {
+      setVersions(rows);
+      setVersionNo(rows[0]?.version ?? null);
+    });
+  }, [selectedId]);
+
+  const template = templates.find(t => t.id === selectedId) ?? null;
+  const version = versions.find(v => v.version === versionNo) ?? null;
+
+  useEffect(() => {
+    if (version) setValues(initialParamValues(version.placeholders));
+  }, [version]);
+
+  async function handleRun() {
+    if (!template || !version) return;
+    const { errors } = validateTemplateParams(version.placeholders, values);
+    if (errors.length > 0) {
+      setError(errors.join('; '));
+      return;
+    }
+    setRunning(true);
+    setError('');
+    try {
+      const result = await instantiateTemplate(template.id, values, { version: version.version });
+      onLaunched(result.missionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!template) return;
+    await deleteMissionTemplate(template.id);
+    setDeleteConfirm(false);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-3xl mx-4 bg-jarvis-bg border border-jarvis-border rounded-lg shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-jarvis-border">
+          <div className="flex items-center gap-3">
+            <BookCopy size={16} className="text-emerald-400" />
+            <h3 className="text-sm font-semibold text-white tracking-wide">MISSION TEMPLATES</h3>
+          </div>
+          <button onClick={onClose} className="w-7 h-7 rounded-md flex items-center justify-center text-zinc-500 hover:text-zinc-300 hover:bg-white/[0.06] transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="px-5 py-10 text-center text-sm text-jarvis-muted">
+            No templates yet. Open a finished mission and use <span className="text-zinc-300">SAVE AS TEMPLATE</span> to turn its plan into a reusable playbook.
+          </div>
+        ) : (
+          <div className="flex min-h-[360px] max-h-[70vh]">
+            {/* Template list */}
+            <div className="w-56 shrink-0 border-r border-jarvis-border overflow-y-auto py-2">
+              {templates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left px-4 py-2.5 transition-colors ${
+                    t.id === selectedId ? 'bg-emerald-500/10 text-emerald-400' : 'text-zinc-300 hover:bg-white/[0.04]'
+                  }`}
+                >
+                  <div className="text-xs font-semibold truncate">{t.name}</div>
+                  <div className="text-[10px] text-zinc-500 mt-0.5">
+                    v{t.current_version} &middot; {t.placeholders.length} param{t.placeholders.length !== 1 ? 's' : ''}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Selected template */}
+            {template && (
+              <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+                <div>
+                  <div className="text-sm font-semibold text-zinc-200">{template.name}</div>
+                  {template.description && <p className="text-xs text-jarvis-muted mt-1">{template.description}</p>}
+                </div>
+
+                <div>
+                  <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Version</label>
+                  <select
+                    value={versionNo ?? ''}
+                    onChange={e => setVersionNo(parseInt(e.target.value, 10))}
+                    className="w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500/40 transition-colors"
+                  >
+                    {versions.map(v => (
+                      <option key={v.version} value={v.version}>
+                        v{v.version}{v.version === template.current_version ? ' (latest)' : ''} — {new Date(v.created_at).toLocaleDateString()}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {version && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Plan</label>
+                      <div className="text-xs text-zinc-300 mb-2 font-mono">{version.title}</div>
+                      <div className="space-y-1">
+                        {version.plan.map((call, i) => (
+                          <div key={call.id ?? i} className="flex items-center gap-2 text-[11px] text-zinc-400">
+                            <span className="text-zinc-600 font-mono w-16 truncate">{call.id ?? `t${i + 1}`}</span>
+                            <span className="text-zinc-300">{getSkillName(call.name)}</span>
+                            {call.command && <span className="font-mono text-zinc-500">/ {call.command}</span>}
+                            {call.depends_on?.length ? <span className="text-zinc-600">&larr; {call.depends_on.join(', ')}</span> : null}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <TemplateParamFields placeholders={version.placeholders} values={values} onChange={setValues} />
+                  </>
+                )}
+
+                {error && (
+                  <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+                    {error}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-5 py-3 border-t border-jarvis-border">
+          <div>
+            {template && (
+              !deleteConfirm ? (
+                <button
+                  onClick={() => setDeleteConfirm(true)}
+                  className="flex items-center gap-1.5 px-3 py-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
+                >
+                  <Trash2 size={12} />
+                  Delete Template
+                </button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleDelete}
+                    className="px-3 py-2 text-xs font-medium text-red-400 bg-red-500/10 border border-red-500/30 rounded-md hover:bg-red-500/20 transition-colors"
+                  >
+                    Confirm Delete
+                  </button>
+                  <button onClick={() => setDeleteConfirm(false)} className="px-3 py-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+                    Cancel
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+              Close
+            </button>
+            <button
+              onClick={handleRun}
+              disabled={!version || running}
+              className="flex items-center gap-1.5 px-4 py-2 text-xs font-semibold rounded-md bg-emerald-500/20 border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/30 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <Play size={12} />
+              {running ? 'LAUNCHING...' : 'RUN TEMPLATE'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { TemplatePlaceholder } from '../../lib/missionTemplates';
+
+interface TemplateParamFieldsProps {
+  placeholders: TemplatePlaceholder[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+const inputCls = 'w-full bg-jarvis-surface border border-jarvis-border rounded-lg px-3 py-2 text-sm text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-emerald-500/40 transition-colors';
+
+/** Form values as strings — validateTemplateParams coerces them to each placeholder's type */
+export function initialParamValues(placeholders: TemplatePlaceholder[], given?: Record<string, unknown> | null): Record<string, string> {
+  return Object.fromEntries(placeholders.map(p => {
+    const v = given?.[p.name] ?? p.default;
+    return [p.name, v === undefined || v === null ? '' : String(v)];
+  }));
+}
+
+/** One typed input per template placeholder */
+export default function TemplateParamFields({ placeholders, values, onChange }: TemplateParamFieldsProps) {
+  if (placeholders.length === 0) {
+    return <p className="text-[11px] text-zinc-600">This template has no parameters.</p>;
+  }
+
+  const set = (name: string, value: string) => onChange({ ...values, [name]: value });
+
+  return (
+    <div className="space-y-3">
+      {placeholders.map(p => (
+        <div key={p.name}>
+          <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">
+            {p.label || p.name}
+            {p.required && p.default === undefined && <span className="text-red-400 ml-1">*</span>}
+            <span className="ml-2 normal-case tracking-normal text-zinc-600 font-mono">{`{{params.${p.name}}}`}</span>
+          </label>
+          {p.type === 'enum' ? (
+            <select value={values[p.name] ?? ''} onChange={e => set(p.name, e.target.value)} className={inputCls}>
+              <option value="">—</option>
+              {(p.options ?? []).map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          ) : p.type === 'boolean' ? (
+            <select value={values[p.name] ?? ''} onChange={e => set(p.name, e.target.value)} className={inputCls}>
+              <option value="">—</option>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </select>
+          ) : (
+            <input
+              type={p.type === 'number' ? 'number' : p.type === 'date' ? 'date' : 'text'}
+              value={values[p.name] ?? ''}
+              onChange={e => set(p.name, e.target.value)}
+              className={inputCls}
+            />
+          )}
+          {p.description && <p className="text-[10px] text-zinc-600 mt-1">{p.description}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
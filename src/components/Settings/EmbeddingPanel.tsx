@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Save, RefreshCw, Loader2 } from 'lucide-react';
+import { logAudit } from '../../lib/database';
+import {
+  loadEmbeddingConfig, saveEmbeddingConfig, DEFAULT_EMBEDDING_CONFIG,
+  type EmbeddingConfig, type EmbeddingBackendId,
+} from '../../lib/embeddings';
+import { backfillMemoryEmbeddings, getEmbeddingCoverage } from '../../lib/memory';
+
+const BACKENDS: { id: EmbeddingBackendId; label: string; hint: string }[] = [
+  { id: 'auto',   label: 'Auto',            hint: 'OpenAI when a key is in the Vault, otherwise offline hashing' },
+  { id: 'openai', label: 'OpenAI',          hint: 'text-embedding-3-small unless a model is set' },
+  { id: 'local',  label: 'Local server',    hint: 'POST /v1/embeddings on the Local Vault URL (e.g. nomic-embed-text)' },
+  { id: 'hash',   label: 'Offline hashing', hint: 'No model or network — keyword-level similarity only' },
+  { id: 'off',    label: 'Off',             hint: 'Keyword + importance ranking only' },
+];
+
+const inputCls = 'bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+/**
+ * Semantic memory settings — embedding backend choice plus coverage and a
+ * manual backfill trigger (the sidecar also backfills on every tick).
+ */
+export default function EmbeddingPanel() {
+  const [config, setConfig] = useState<EmbeddingConfig>(DEFAULT_EMBEDDING_CONFIG);
+  const [coverage, setCoverage] = useState<{ model: string | null; embedded: number; total: number } | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshCoverage = useCallback(async () => {
+    setCoverage(await getEmbeddingCoverage());
+  }, []);
+
+  useEffect(() => {
+    loadEmbeddingConfig().then(setConfig);
+    refreshCoverage();
+  }, [refreshCoverage]);
+
+  function update(patch: Partial<EmbeddingConfig>) {
+    setConfig(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await saveEmbeddingConfig(config);
+      await logAudit(null, 'EMBEDDING_BACKEND_UPDATED', `Memory embeddings: ${config.backend}${config.model ? ` (${config.model})` : ''}`, 'info');
+      setDirty(false);
+      await refreshCoverage();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleBackfill() {
+    setBackfilling(true);
+    setError(null);
+    try {
+      let remaining = Infinity;
+      while (remaining > 0) {
+        const result = await backfillMemoryEmbeddings(100);
+        remaining = result.remaining;
+        await refreshCoverage();
+        if (result.embedded === 0) {
+          if (remaining > 0) setError('Embedding backend failed — check the console and the Vault entry.');
+          break;
+        }
+      }
+    } finally {
+      setBackfilling(false);
+    }
+  }
+
+  const hint = BACKENDS.find(b => b.id === config.backend)?.hint;
+  const showModel = config.backend === 'openai' || config.backend === 'local';
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-pixel text-[10px] tracking-wider text-cyan-400">SEMANTIC SEARCH</h3>
+        {coverage && (
+          <span className="font-pixel text-[9px] tracking-wider text-zinc-500">
+            {coverage.model
+              ? `${coverage.embedded}/${coverage.total} EMBEDDED · ${coverage.model}`
+              : 'VECTOR SEARCH OFF'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-zinc-400">
+        <label className="flex items-center gap-2">Backend
+          <select value={config.backend} onChange={e => update({ backend: e.target.value as EmbeddingBackendId })} className={inputCls}>
+            {BACKENDS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+          </select>
+        </label>
+        {showModel && (
+          <label className="flex items-center gap-2">Model
+            <input
+              value={config.model}
+              placeholder={config.backend === 'local' ? 'nomic-embed-text' : 'text-embedding-3-small'}
+              onChange={e => update({ model: e.target.value.trim() })}
+              className={`${inputCls} w-48`}
+            />
+          </label>
+        )}
+        <span className="text-zinc-600">{hint}</span>
+      </div>
+
+      {error && <p className="text-red-400 text-[11px]">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleBackfill}
+          disabled={backfilling || dirty || !coverage?.model || coverage.embedded >= coverage.total}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-blue-400 bg-blue-500/10 border border-blue-500/25 rounded hover:bg-blue-500/20 transition-colors disabled:opacity-40"
+        >
+          {backfilling ? <Loader2 size={11} className="animate-spin" /> : <RefreshCw size={11} />} BACKFILL NOW
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={11} className="animate-spin" /> : <Save size={11} />} SAVE
+        </button>
+      </div>
+    </div>
+  );
+}
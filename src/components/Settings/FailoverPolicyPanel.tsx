@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { ArrowUp, ArrowDown, X, Save, Loader2 } from 'lucide-react';
+import { logAudit } from '../../lib/database';
+import { MODEL_SERVICE_MAP } from '../../lib/models';
+import { loadFailoverPolicy, saveFailoverPolicy, DEFAULT_FAILOVER_POLICY, type FailoverPolicy } from '../../lib/llm/failover';
+
+const inputCls = 'w-20 bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+/**
+ * Retry/failover policy editor. Fallback models are tried in order after the
+ * requested model exhausts its retries; models without a Vault key are skipped.
+ */
+export default function FailoverPolicyPanel() {
+  const [policy, setPolicy] = useState<FailoverPolicy>(DEFAULT_FAILOVER_POLICY);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { loadFailoverPolicy().then(setPolicy); }, []);
+
+  function update(patch: Partial<FailoverPolicy>) {
+    setPolicy(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  }
+
+  function move(idx: number, delta: number) {
+    const list = [...policy.fallbackModels];
+    const target = idx + delta;
+    if (target < 0 || target >= list.length) return;
+    [list[idx], list[target]] = [list[target], list[idx]];
+    update({ fallbackModels: list });
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await saveFailoverPolicy(policy);
+      await logAudit(null, 'FAILOVER_POLICY_UPDATED',
+        `Failover ${policy.enabled ? 'enabled' : 'disabled'}: ${policy.maxRetries} retries, ${policy.baseDelayMs}-${policy.maxDelayMs}ms backoff, fallbacks: ${policy.fallbackModels.join(' → ') || 'auto'}`,
+        'info');
+      setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const available = Object.keys(MODEL_SERVICE_MAP).filter(m => !policy.fallbackModels.includes(m));
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4 mt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-pixel text-[10px] tracking-wider text-cyan-400">RETRY & FAILOVER</h3>
+        <button
+          onClick={() => update({ enabled: !policy.enabled })}
+          className={`relative w-11 h-6 rounded-full transition-colors flex-shrink-0 ${policy.enabled ? 'bg-emerald-600' : 'bg-zinc-700'}`}
+        >
+          <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${policy.enabled ? 'translate-x-5' : 'translate-x-0'}`} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-4 text-[11px] text-zinc-400">
+        <label className="flex items-center gap-2">Retries
+          <input type="number" min={0} max={10} value={policy.maxRetries} className={inputCls}
+            onChange={e => update({ maxRetries: Math.max(0, parseInt(e.target.value) || 0) })} />
+        </label>
+        <label className="flex items-center gap-2">Base delay (ms)
+          <input type="number" min={0} step={250} value={policy.baseDelayMs} className={inputCls}
+            onChange={e => update({ baseDelayMs: Math.max(0, parseInt(e.target.value) || 0) })} />
+        </label>
+        <label className="flex items-center gap-2">Max delay (ms)
+          <input type="number" min={0} step={1000} value={policy.maxDelayMs} className={inputCls}
+            onChange={e => update({ maxDelayMs: Math.max(0, parseInt(e.target.value) || 0) })} />
+        </label>
+      </div>
+
+      <div>
+        <span className="font-pixel text-[9px] tracking-wider text-zinc-500 block mb-1.5">
+          FALLBACK ORDER {policy.fallbackModels.length === 0 && '— AUTO (first picker model of each other service)'}
+        </span>
+        <div className="space-y-1">
+          {policy.fallbackModels.map((model, i) => (
+            <div key={model} className="flex items-center gap-2 text-[11px] font-mono text-jarvis-text">
+              <span className="text-zinc-600 w-4">{i + 1}.</span>
+              <span className="flex-1">{model} <span className="text-zinc-500">({MODEL_SERVICE_MAP[model] ?? 'unknown'})</span></span>
+              <button onClick={() => move(i, -1)} className="text-zinc-500 hover:text-zinc-300"><ArrowUp size={11} /></button>
+              <button onClick={() => move(i, 1)} className="text-zinc-500 hover:text-zinc-300"><ArrowDown size={11} /></button>
+              <button onClick={() => update({ fallbackModels: policy.fallbackModels.filter(m => m !== model) })} className="text-zinc-500 hover:text-red-400"><X size={11} /></button>
+            </div>
+          ))}
+        </div>
+        <select
+          value=""
+          onChange={e => e.target.value && update({ fallbackModels: [...policy.fallbackModels, e.target.value] })}
+          className="mt-2 bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none"
+        >
+          <option value="">+ Add fallback model…</option>
+          {available.map(m => <option key={m} value={m}>{m} ({MODEL_SERVICE_MAP[m]})</option>)}
+        </select>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={11} className="animate-spin" /> : <Save size={11} />} SAVE POLICY
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { Save, Loader2 } from 'lucide-react';
+import { logAudit } from '../../lib/database';
+import { loadMissionBudgetPolicy, saveMissionBudgetPolicy, DEFAULT_MISSION_BUDGET_POLICY, type MissionBudgetPolicy } from '../../lib/missionBudget';
+
+const inputCls = 'w-20 bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+/**
+ * Pre-flight approval threshold. Missions the CEO plans with an estimated
+ * cost above it go on hold until the Founder approves; 0 turns it off.
+ * Per-mission caps are set on the mission itself.
+ */
+export default function MissionBudgetPanel() {
+  const [policy, setPolicy] = useState<MissionBudgetPolicy>(DEFAULT_MISSION_BUDGET_POLICY);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { loadMissionBudgetPolicy().then(setPolicy); }, []);
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await saveMissionBudgetPolicy(policy);
+      await logAudit(null, 'MISSION_BUDGET_POLICY_UPDATED',
+        policy.approvalThreshold > 0
+          ? `Missions estimated above $${policy.approvalThreshold.toFixed(2)} need approval before dispatch`
+          : 'Pre-flight mission approval turned off',
+        'info');
+      setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4 mt-3 space-y-3">
+      <h3 className="font-pixel text-[10px] tracking-wider text-cyan-400">MISSION BUDGETS</h3>
+
+      <div className="flex items-center gap-4 text-[11px] text-zinc-400">
+        <label className="flex items-center gap-2">Ask before dispatching missions estimated above $
+          <input type="number" min={0} step={0.1} value={policy.approvalThreshold} className={inputCls}
+            onChange={e => { setPolicy({ approvalThreshold: Math.max(0, parseFloat(e.target.value) || 0) }); setDirty(true); }} />
+        </label>
+        <span className="text-zinc-600">0 = never ask</span>
+      </div>
+      <p className="text-[10px] text-zinc-600">
+        Estimates price each planned command's usual token count with the model's rates. Spend caps are set per mission.
+      </p>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={11} className="animate-spin" /> : <Save size={11} />} SAVE POLICY
+        </button>
+      </div>
+    </div>
+  );
+}
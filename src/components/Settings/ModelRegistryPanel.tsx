@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Save, RefreshCw, Loader2 } from 'lucide-react';
+import {
+  loadModelRegistryRows, saveModelRegistryRows, deleteModelRegistryRow, logAudit,
+  type ModelRegistryRow,
+} from '../../lib/database';
+import { LOCAL_SERVICE } from '../../lib/models';
+import { loadModelRegistry, PROVIDER_SERVICES } from '../../lib/llm/registry';
+import { refreshLocalModels } from '../../lib/localModels';
+
+function emptyRow(sortOrder: number): ModelRegistryRow {
+  return {
+    id: '',
+    service: PROVIDER_SERVICES[0],
+    api_id: '',
+    input_cost: 0,
+    output_cost: 0,
+    selectable: true,
+    sort_order: sortOrder,
+  };
+}
+
+const inputCls = 'w-full bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+/**
+ * Model Registry editor — display name, service, API model ID and price per
+ * 1M tokens. Saved rows are shared with the sidecar and the edge function.
+ */
+export default function ModelRegistryPanel() {
+  const [rows, setRows] = useState<ModelRegistryRow[]>([]);
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<ModelRegistryRow | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [discovering, setDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    await loadModelRegistry();
+    setRows(await loadModelRegistryRows());
+    setDirty(new Set());
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  function updateRow(id: string, patch: Partial<ModelRegistryRow>) {
+    setRows(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+    setDirty(prev => new Set(prev).add(id));
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    setError(null);
+    try {
+      const changed = rows.filter(r => dirty.has(r.id));
+      await saveModelRegistryRows(changed);
+      await logAudit(null, 'MODEL_REGISTRY_UPDATED', `Updated ${changed.length} model(s): ${changed.map(r => r.id).join(', ')}`, 'info');
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAdd() {
+    if (!draft) return;
+    const name = draft.id.trim();
+    if (!name || !draft.api_id.trim()) { setError('Name and API model ID are required'); return; }
+    if (rows.some(r => r.id === name)) { setError(`"${name}" already exists`); return; }
+    setError(null);
+    await saveModelRegistryRows([{ ...draft, id: name, api_id: draft.api_id.trim() }]);
+    await logAudit(null, 'MODEL_REGISTRY_ADDED', `Added model "${name}" (${draft.service} / ${draft.api_id.trim()})`, 'info');
+    setDraft(null);
+    await refresh();
+  }
+
+  async function handleDelete(row: ModelRegistryRow) {
+    await deleteModelRegistryRow(row.id);
+    await logAudit(null, 'MODEL_REGISTRY_REMOVED', `Removed model "${row.id}" (${row.service})`, 'warning');
+    await refresh();
+  }
+
+  async function handleDiscover() {
+    setDiscovering(true);
+    try {
+      await refreshLocalModels();
+      await refresh();
+    } finally {
+      setDiscovering(false);
+    }
+  }
+
+  // Services in use but without a provider (e.g. Meta) still need to appear in the dropdown
+  const serviceOptions = [...new Set([...PROVIDER_SERVICES, ...rows.map(r => r.service)])];
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4">
+      <div className="grid grid-cols-[1.4fr_0.9fr_1.4fr_0.6fr_0.6fr_0.5fr_auto] gap-2 items-center font-pixel text-[9px] tracking-wider text-zinc-500 px-1 mb-2">
+        <span>MODEL</span><span>SERVICE</span><span>API ID</span><span>$ IN / 1M</span><span>$ OUT / 1M</span><span>PICKER</span><span />
+      </div>
+
+      <div className="space-y-1.5">
+        {rows.map(row => {
+          const isLocal = row.service === LOCAL_SERVICE;
+          return (
+            <div key={row.id} className={`grid grid-cols-[1.4fr_0.9fr_1.4fr_0.6fr_0.6fr_0.5fr_auto] gap-2 items-center px-1 ${dirty.has(row.id) ? 'bg-amber-500/5 rounded' : ''}`}>
+              <span className="text-[11px] font-mono text-jarvis-text truncate" title={row.id}>{row.id}</span>
+              <select
+                value={row.service}
+                disabled={isLocal}
+                onChange={e => updateRow(row.id, { service: e.target.value })}
+                className={inputCls}
+              >
+                {serviceOptions.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <input value={row.api_id} disabled={isLocal} onChange={e => updateRow(row.id, { api_id: e.target.value })} className={inputCls} />
+              <input type="number" step="0.01" min="0" value={row.input_cost} disabled={isLocal}
+                onChange={e => updateRow(row.id, { input_cost: parseFloat(e.target.value) || 0 })} className={inputCls} />
+              <input type="number" step="0.01" min="0" value={row.output_cost} disabled={isLocal}
+                onChange={e => updateRow(row.id, { output_cost: parseFloat(e.target.value) || 0 })} className={inputCls} />
+              <input type="checkbox" checked={row.selectable} onChange={e => updateRow(row.id, { selectable: e.target.checked })} className="accent-emerald-500 justify-self-center" />
+              <button onClick={() => handleDelete(row)} className="text-zinc-600 hover:text-red-400 transition-colors" title="Remove model">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+
+        {draft && (
+          <div className="grid grid-cols-[1.4fr_0.9fr_1.4fr_0.6fr_0.6fr_0.5fr_auto] gap-2 items-center px-1 pt-2 border-t border-zinc-800">
+            <input value={draft.id} placeholder="Display name" onChange={e => setDraft({ ...draft, id: e.target.value })} className={inputCls} />
+            <select value={draft.service} onChange={e => setDraft({ ...draft, service: e.target.value })} className={inputCls}>
+              {PROVIDER_SERVICES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input value={draft.api_id} placeholder="e.g. claude-sonnet-4-6" onChange={e => setDraft({ ...draft, api_id: e.target.value })} className={inputCls} />
+            <input type="number" step="0.01" min="0" value={draft.input_cost} onChange={e => setDraft({ ...draft, input_cost: parseFloat(e.target.value) || 0 })} className={inputCls} />
+            <input type="number" step="0.01" min="0" value={draft.output_cost} onChange={e => setDraft({ ...draft, output_cost: parseFloat(e.target.value) || 0 })} className={inputCls} />
+            <input type="checkbox" checked={draft.selectable} onChange={e => setDraft({ ...draft, selectable: e.target.checked })} className="accent-emerald-500 justify-self-center" />
+            <button onClick={handleAdd} className="text-emerald-400 hover:text-emerald-300 transition-colors" title="Add model">
+              <Save size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-[11px] mt-3">{error}</p>}
+
+      <div className="flex items-center gap-2 mt-4">
+        <button
+          onClick={() => setDraft(draft ? null : emptyRow((rows[rows.length - 1]?.sort_order ?? 0) + 10))}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded hover:bg-emerald-500/20 transition-colors"
+        >
+          <Plus size={11} /> {draft ? 'CANCEL' : 'ADD MODEL'}
+        </button>
+        <button
+          onClick={handleDiscover}
+          disabled={discovering}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-blue-400 bg-blue-500/10 border border-blue-500/25 rounded hover:bg-blue-500/20 transition-colors disabled:opacity-40"
+        >
+          {discovering ? <Loader2 size={11} className="animate-spin" /> : <RefreshCw size={11} />} DISCOVER LOCAL
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || dirty.size === 0}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={11} className="animate-spin" /> : <Save size={11} />} SAVE {dirty.size > 0 ? `(${dirty.size})` : ''}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { X, Save, Loader2 } from 'lucide-react';
+import { logAudit } from '../../lib/database';
+import { MODEL_SERVICE_MAP } from '../../lib/models';
+import { loadQueueLimits, saveQueueLimits, DEFAULT_QUEUE_LIMITS, type QueueLimits } from '../../lib/taskQueue';
+
+const inputCls = 'w-16 bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none focus:border-emerald-500/50 transition-colors';
+
+const toLimit = (value: string) => Math.max(0, parseInt(value) || 0);
+
+/**
+ * Concurrency caps for the task work queue. Queued tasks start only while
+ * they fit under all three; 0 means unlimited.
+ */
+export default function QueueLimitsPanel() {
+  const [limits, setLimits] = useState<QueueLimits>(DEFAULT_QUEUE_LIMITS);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { loadQueueLimits().then(setLimits); }, []);
+
+  function update(patch: Partial<QueueLimits>) {
+    setLimits(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  }
+
+  function setOverride(service: string, value: number | null) {
+    const overrides = { ...limits.providerOverrides };
+    if (value === null) delete overrides[service];
+    else overrides[service] = value;
+    update({ providerOverrides: overrides });
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await saveQueueLimits(limits);
+      const overrides = Object.entries(limits.providerOverrides).map(([svc, n]) => `${svc}=${n}`).join(', ');
+      await logAudit(null, 'QUEUE_LIMITS_UPDATED',
+        `Task queue caps: ${limits.maxConcurrent} total, ${limits.perAgent} per agent, ${limits.perProvider} per provider${overrides ? ` (${overrides})` : ''}`,
+        'info');
+      setDirty(false);
+      window.dispatchEvent(new Event('task-executions-changed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const services = [...new Set(Object.values(MODEL_SERVICE_MAP))].sort();
+  const available = services.filter(svc => !(svc in limits.providerOverrides));
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg p-4 mt-3 space-y-3">
+      <h3 className="font-pixel text-[10px] tracking-wider text-cyan-400">TASK CONCURRENCY</h3>
+
+      <div className="flex items-center gap-4 text-[11px] text-zinc-400">
+        <label className="flex items-center gap-2">Total
+          <input type="number" min={0} value={limits.maxConcurrent} className={inputCls}
+            onChange={e => update({ maxConcurrent: toLimit(e.target.value) })} />
+        </label>
+        <label className="flex items-center gap-2">Per agent
+          <input type="number" min={0} value={limits.perAgent} className={inputCls}
+            onChange={e => update({ perAgent: toLimit(e.target.value) })} />
+        </label>
+        <label className="flex items-center gap-2">Per provider
+          <input type="number" min={0} value={limits.perProvider} className={inputCls}
+            onChange={e => update({ perProvider: toLimit(e.target.value) })} />
+        </label>
+        <span className="text-zinc-600">0 = unlimited</span>
+      </div>
+
+      <div>
+        <span className="font-pixel text-[9px] tracking-wider text-zinc-500 block mb-1.5">PROVIDER OVERRIDES</span>
+        <div className="space-y-1">
+          {Object.entries(limits.providerOverrides).map(([service, value]) => (
+            <div key={service} className="flex items-center gap-2 text-[11px] font-mono text-jarvis-text">
+              <span className="w-32">{service}</span>
+              <input type="number" min={0} value={value} className={inputCls}
+                onChange={e => setOverride(service, toLimit(e.target.value))} />
+              <button onClick={() => setOverride(service, null)} className="text-zinc-500 hover:text-red-400"><X size={11} /></button>
+            </div>
+          ))}
+        </div>
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={e => e.target.value && setOverride(e.target.value, limits.perProvider)}
+            className="mt-2 bg-jarvis-bg border border-zinc-700 text-jarvis-text text-[11px] font-mono px-2 py-1 rounded focus:outline-none"
+          >
+            <option value="">+ Override a provider…</option>
+            {available.map(svc => <option key={svc} value={svc}>{svc}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving || !dirty}
+          className="flex items-center gap-1.5 px-3 py-1.5 font-pixel text-[9px] tracking-wider text-amber-400 bg-amber-500/10 border border-amber-500/25 rounded hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          {saving ? <Loader2 size={11} className="animate-spin" /> : <Save size={11} />} SAVE CAPS
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,21 @@ import {
   Settings, Trash2, AlertTriangle, Brain, Server, User, Building2, Crown,
   Search, CheckSquare, Square, MessageCircle, MessageSquare, ChevronDown, Filter, X,
   Wand2, RotateCcw, Save, ChevronRight, FileText, Loader, KeyRound, Copy, Check,
-  Zap, RefreshCw, Blocks, Loader2, Lock, Unlock, Package,
+  Zap, RefreshCw, Blocks, Loader2, Lock, Unlock, Package, Cpu,
 } from 'lucide-react';
-import { getSetting, setSetting, loadCEO, logAudit, getAllPrompts, setPrompt, deletePrompt, getVaultEntryByService } from '../../lib/database';
+import { getSetting, setSetting, loadCEO, logAudit, getAllPrompts, setPrompt, deletePrompt, findVaultEntry } from '../../lib/database';
 import type { CEORow } from '../../lib/database';
 import { getSupabase, hasSupabaseConfig, pingSupabase } from '../../lib/supabase';
 import { getMemories, deleteMemory, queryMemories, chatWithMemories, consolidateDailyMemories } from '../../lib/memory';
 import { hasInstanceKey, loadKeyFromLocalStorage, decryptPrivateKey } from '../../lib/jarvisKey';
 import { getMarketplaceStatus, getCachedRawPrivateKey, cacheRawPrivateKey, clearSigningCache, getSigningExpiry, getUnlockDuration, setUnlockDuration, persistKeyToVault, type UnlockDuration } from '../../lib/marketplaceClient';
+import { isVaultEncrypted, unlockVault } from '../../lib/vaultCrypto';
 import type { MemoryRow } from '../../lib/memory';
+import ModelRegistryPanel from './ModelRegistryPanel';
+import FailoverPolicyPanel from './FailoverPolicyPanel';
+import QueueLimitsPanel from './QueueLimitsPanel';
+import MissionBudgetPanel from './MissionBudgetPanel';
+import EmbeddingPanel from './EmbeddingPanel';
 
 const categoryColors: Record<string, string> = {
   fact: 'bg-blue-500/15 text-blue-400 border-blue-500/30',
@@ -215,7 +221,7 @@ export default function SettingsView() {
 
       // Check sidecar key status
       try {
-        const entry = await getVaultEntryByService('marketplace-signing');
+        const entry = await findVaultEntry('marketplace-signing');
         setSidecarKeyStatus(entry ? 'synced' : 'not_synced');
       } catch { setSidecarKeyStatus('not_synced'); }
     }
@@ -382,6 +388,10 @@ export default function SettingsView() {
     try {
       const rawPrivateKey = await decryptPrivateKey(existingKey.encryptedPrivateKey, unlockPassword);
       setUnlockDuration(unlockDuration);
+      // The same master password opens an encrypted Vault — first, so the key can be synced into it
+      if (await isVaultEncrypted()) {
+        await unlockVault(unlockPassword, unlockDuration).catch(err => console.warn('[Settings] Vault unlock failed:', err));
+      }
       cacheRawPrivateKey(rawPrivateKey);
       setSessionUnlocked(true);
       setShowUnlockForm(false);
@@ -1133,6 +1143,29 @@ WantedBy=multi-user.target`}</pre>
         )}
       </div>
 
+      {/* ================================================================ */}
+      {/* Model Registry                                                   */}
+      {/* ================================================================ */}
+      <div className="mb-6">
+        <button onClick={() => toggleSection('models')}
+          className="w-full flex items-center gap-3 mb-3 hover:opacity-80 transition-opacity">
+          <ChevronRight size={14} className={`text-emerald-400 transition-transform ${expandedSections.has('models') ? 'rotate-90' : ''}`} />
+          <Cpu size={16} className="text-emerald-400" />
+          <h2 className="font-pixel text-[12px] tracking-widest text-emerald-400">MODEL REGISTRY</h2>
+          <span className="font-pixel text-[10px] tracking-wider text-zinc-500">
+            Services, pricing, failover, concurrency & mission budgets
+          </span>
+        </button>
+        {expandedSections.has('models') && (
+          <>
+            <ModelRegistryPanel />
+            <FailoverPolicyPanel />
+            <QueueLimitsPanel />
+            <MissionBudgetPanel />
+          </>
+        )}
+      </div>
+
       {/* ================================================================ */}
       {/* Intelligence Management                                          */}
       {/* ================================================================ */}
@@ -1365,6 +1398,8 @@ WantedBy=multi-user.target`}</pre>
       </div>
 
       {expandedSections.has('memory') && (<>
+      <EmbeddingPanel />
+
       {/* ================================================================ */}
       {/* Row 3: Memory Table (left ~70%) + Chat Panel (right ~30%)        */}
       {/* ================================================================ */}
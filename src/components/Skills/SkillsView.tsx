@@ -35,9 +35,10 @@ import {
   Sparkles,
   ExternalLink,
 } from 'lucide-react';
-import { loadSkills, saveSkill, loadApprovals, loadAllApprovals, saveApproval, updateApprovalStatus, getVaultEntryByService, loadVaultEntries, logAudit, saveSkillOptions, getSkillOptions, type SkillScheduleRow, loadSkillSchedules, saveSkillSchedule, deleteSkillSchedule } from '../../lib/database';
+import { loadSkills, saveSkill, loadApprovals, loadAllApprovals, saveApproval, updateApprovalStatus, findVaultEntry, loadVaultMetadata, logAudit, saveSkillOptions, getSkillOptions, type SkillScheduleRow, loadSkillSchedules, saveSkillSchedule, deleteSkillSchedule } from '../../lib/database';
 import { getSupabase } from '../../lib/supabase';
 import { MODEL_OPTIONS, getServiceForModel } from '../../lib/models';
+import { nextRun, frequencyToCron, localTimezone, type ScheduleFrequency } from '../../lib/cronParser';
 import { resolveSkills, seedSkillsFromRepo, cleanSeedSkillsFromRepo, applySkillUpgrades, SKILLS_REPO_INFO, type FullSkillDefinition, type PendingUpgrade } from '../../lib/skillResolver';
 import { hasInstanceKey } from '../../lib/jarvisKey';
 import { getMarketplaceStatus, type MarketplaceStatus } from '../../lib/marketplaceClient';
@@ -114,7 +115,7 @@ function getRequiredService(skill: { serviceType: string; fixedService?: string
 }
 
 async function hasApiKey(service: string): Promise<boolean> {
-  return (await getVaultEntryByService(service)) !== null;
+  return (await findVaultEntry(service)) !== null;
 }
 
 async function ensureApproval(service: string, skillName: string, model: string | null): Promise<void> {
@@ -228,7 +229,7 @@ export default function SkillsView() {
         setShowUpgradeDialog(true);
       }
       await reloadSkills();
-      const entries = await loadVaultEntries();
+      const entries = await loadVaultMetadata();
       setVaultServices(new Set(entries.map(e => e.service)));
       // Load skill schedules (grouped by skill_id — multiple per skill)
       loadSkillSchedules().then(rows => {
@@ -268,7 +269,7 @@ export default function SkillsView() {
   }, []);
 
   const refreshVaultCache = useCallback(() => {
-    loadVaultEntries().then(entries => {
+    loadVaultMetadata().then(entries => {
       setVaultServices(new Set(entries.map(e => e.service)));
     });
   }, []);
@@ -484,48 +485,6 @@ export default function SkillsView() {
   // Schedule helpers
   // ---------------------------------------------------------------------------
 
-  function computeNextRun(frequency: string, runAtTime: string, runOnDay: number | null): Date {
-    const next = new Date();
-
-    if (frequency === 'hourly') {
-      // Next hour, at :00
-      next.setMinutes(0, 0, 0);
-      next.setHours(next.getHours() + 1);
-      return next;
-    }
-
-    if (frequency === 'every_4h') {
-      // Next 4-hour mark
-      const currentHour = next.getHours();
-      const nextSlot = Math.ceil((currentHour + 1) / 4) * 4;
-      next.setHours(nextSlot, 0, 0, 0);
-      if (next <= new Date()) next.setHours(next.getHours() + 4);
-      return next;
-    }
-
-    const [hours, minutes] = runAtTime.split(':').map(Number);
-    next.setHours(hours, minutes, 0, 0);
-
-    if (frequency === 'daily') {
-      if (next <= new Date()) next.setDate(next.getDate() + 1);
-    } else if (frequency === 'weekly') {
-      const targetDay = runOnDay ?? 1;
-      const currentDay = next.getDay();
-      let daysUntil = targetDay - currentDay;
-      if (daysUntil < 0) daysUntil += 7;
-      if (daysUntil === 0 && next <= new Date()) daysUntil = 7;
-      next.setDate(next.getDate() + daysUntil);
-    } else if (frequency === 'monthly') {
-      const targetDate = runOnDay ?? 1;
-      next.setDate(targetDate);
-      if (next <= new Date()) {
-        next.setMonth(next.getMonth() + 1);
-        next.setDate(targetDate);
-      }
-    }
-    return next;
-  }
-
   async function handleSetSchedule(skillId: string, frequency: string, runAtTime: string, runOnDay: number | null, commandName: string) {
     const schedId = `sched-${skillId}-${commandName}`;
     if (frequency === 'off') {
@@ -537,7 +496,8 @@ export default function SkillsView() {
       });
       return;
     }
-    const nextRun = computeNextRun(frequency, runAtTime, runOnDay);
+    const timezone = localTimezone();
+    const next = nextRun(frequencyToCron(frequency as ScheduleFrequency, runAtTime, runOnDay), new Date(), timezone);
     const schedule = {
       id: schedId,
       skill_id: skillId,
@@ -545,9 +505,12 @@ export default function SkillsView() {
       frequency: frequency as 'hourly' | 'every_4h' | 'daily' | 'weekly' | 'monthly',
       run_at_time: runAtTime,
       run_on_day: runOnDay,
+      cron: null,
+      timezone,
+      catch_up: 'once' as const,
       params: {},
       enabled: true,
-      next_run_at: nextRun.toISOString(),
+      next_run_at: next ? next.toISOString() : null,
     };
     await saveSkillSchedule(schedule);
     const newRow = { ...schedule, last_run_at: null, created_at: new Date().toISOString() } as SkillScheduleRow;
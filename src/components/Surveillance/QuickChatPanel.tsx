@@ -8,6 +8,9 @@ import {
 import { getCEOResponse } from '../../lib/ceoResponder';
 import { isLLMAvailable, streamCEOResponse, streamAgentResponse, isAgentLLMAvailable, type AgentChatInfo } from '../../lib/llm/chatService';
 import RichMessageContent from '../Chat/ToolCallBlock';
+import { replyToolCalls } from '../../lib/taskDispatcher';
+import { describeToolCalls } from '../../lib/llm/tools';
+import type { LLMToolCall } from '../../lib/llm/types';
 
 /** Strip complete and incomplete <tool_call>/<task_plan>/<work_request> blocks from streaming text
  *  so the user never sees raw JSON while the CEO/agent is still typing. */
@@ -184,15 +187,19 @@ export default function QuickChatPanel({ onClose, agent }: QuickChatPanelProps)
         setTyping(false);
         setStreamingText(prev => (prev ?? '') + token);
       },
-      onDone: async (fullText: string) => {
+      onDone: async (fullText: string, _usage?: unknown, toolCalls?: LLMToolCall[]) => {
         setTyping(false);
         setStreamingText(null);
+        abortRef.current = null;
+        // Native tool calls never appear in the text — keep them with the message
+        const calls = replyToolCalls(fullText, toolCalls);
+        if (!fullText.trim() && calls.length === 0) return;
         const respMsg: ChatMessageRow = {
           id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
           conversation_id: conversation.id,
           sender: responderSender,
-          text: fullText,
-          metadata: { llm: true },
+          text: fullText.trim() || describeToolCalls(calls),
+          metadata: calls.length > 0 ? { llm: true, tool_calls: calls } : { llm: true },
           created_at: new Date().toISOString(),
         };
         await saveChatMessage({
@@ -204,7 +211,6 @@ export default function QuickChatPanel({ onClose, agent }: QuickChatPanelProps)
         });
         setMessages(prev => [...prev, respMsg]);
         window.dispatchEvent(new Event('chat-messages-changed'));
-        abortRef.current = null;
       },
       onError: async () => {
         setTyping(false);
@@ -459,7 +465,7 @@ export default function QuickChatPanel({ onClose, agent }: QuickChatPanelProps)
                   'font-pixel text-[8px] tracking-wider leading-relaxed whitespace-pre-line',
                   isUser ? 'text-emerald-200' : 'text-zinc-300',
                 ].join(' ')}>
-                  {!isUser ? <RichMessageContent text={msg.text} /> : msg.text}
+                  {!isUser ? <RichMessageContent text={msg.text} metadata={msg.metadata} /> : msg.text}
                 </div>
               </div>
             </div>
@@ -14,7 +14,7 @@ import {
   getDeskCountWithSpare,
 } from '../../lib/positionGenerator';
 import type { RoomTier } from '../../lib/positionGenerator';
-import { loadAgents, saveAgent, deleteAgent as dbDeleteAgent, loadCEO, getSetting, setSetting, saveAgentDeskPosition, saveCEODeskPosition, getVaultEntryByService, saveApproval, loadMissions, logAudit, assignSkillToAgent, updateCEOAppearance, getAgentConfidence } from '../../lib/database';
+import { loadAgents, saveAgent, deleteAgent as dbDeleteAgent, loadCEO, getSetting, setSetting, saveAgentDeskPosition, saveCEODeskPosition, findVaultEntry, saveApproval, loadMissions, logAudit, assignSkillToAgent, updateCEOAppearance, getAgentConfidence } from '../../lib/database';
 import { getAgentUsage } from '../../lib/llmUsage';
 import type { AgentRow } from '../../lib/database';
 import { getServiceForModel } from '../../lib/models';
@@ -25,6 +25,7 @@ import type { AgentConfig } from './HireAgentModal';
 import { playSuccessJingle } from '../../lib/sounds';
 import { loadPendingActions, markActionSeen, dismissAction, type CEOAction } from '../../lib/ceoActionQueue';
 import { handleManagementAction } from '../../lib/managementActions';
+import { emitWebhookEvent } from '../../lib/webhooks';
 import { Pencil, Trash2, Zap, PlusCircle, MessageSquare, Brain, Save, CheckCircle } from 'lucide-react';
 import { loadAgentActivity, type AgentActivity } from '../../lib/database';
 import QuickChatPanel from './QuickChatPanel';
@@ -739,7 +740,7 @@ export default function SurveillanceView() {
 
     // Check if vault has an API key for this model's service
     const service = getServiceForModel(config.model);
-    const existingKey = await getVaultEntryByService(service);
+    const existingKey = await findVaultEntry(service);
     if (!existingKey) {
       await saveApproval({
         id: `approval-${Date.now()}`,
@@ -802,6 +803,7 @@ export default function SurveillanceView() {
     }
 
     await logAudit(config.name, 'AGENT_HIRED', `Hired agent "${config.name}" (${config.role}) using ${config.model}`, 'info');
+    emitWebhookEvent('agent.hired', { agent: { id, name: config.name, role: config.role, model: config.model, skills: config.selectedSkills ?? [] }, hired_by: 'Founder' });
   }, [agents.length]);
 
   // ---- Edit an existing agent (persists to DB) ----
@@ -856,6 +858,7 @@ export default function SurveillanceView() {
     const agent = agents.find(a => a.id === agentId);
     await logAudit(agent?.name ?? agentId, 'AGENT_FIRED', `Fired agent "${agent?.name ?? agentId}"`, 'warning');
     await dbDeleteAgent(agentId);
+    emitWebhookEvent('agent.fired', { agent: { id: agentId, name: agent?.name ?? agentId, role: agent?.role ?? null }, fired_by: 'Founder' });
     setAgents(prev => prev.filter(a => a.id !== agentId));
     setSelectedAgent(null);
   }, [agents]);
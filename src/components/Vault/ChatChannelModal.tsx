@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { X, Copy, CheckCircle, Slack, MessageSquareMore } from 'lucide-react';
+import type { ChannelRow } from '../../lib/database';
+import { getChannelAdapter, channelTopics, CHANNEL_TOPICS } from '../../lib/channels/registry';
+import type { ChannelTopic } from '../../lib/channels/types';
+
+interface ChatChannelModalProps {
+  channel: ChannelRow;
+  onSave: (config: Record<string, unknown>, enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const inputCls = 'w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm font-mono px-3 py-2.5 rounded-lg focus:outline-none focus:border-cyan-500/50 transition-colors placeholder:text-zinc-600';
+
+/** Configure a Slack or Discord channel from its adapter's field list */
+export default function ChatChannelModal({ channel, onSave, onClose }: ChatChannelModalProps) {
+  const adapter = getChannelAdapter(channel.type)!;
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(adapter.configFields.map(f => [f.key, String(channel.config?.[f.key] ?? '')])),
+  );
+  const [topics, setTopics] = useState<ChannelTopic[]>(channelTopics(channel));
+  const [enabled, setEnabled] = useState(channel.enabled || !adapter.isConfigured(channel.config ?? {}));
+  const [copied, setCopied] = useState(false);
+
+  const config = { ...channel.config, ...Object.fromEntries(Object.entries(values).map(([k, v]) => [k, v.trim()])), topics };
+  const interactionUrl = `http://localhost:3100/api/channels/${channel.id}/interactions`;
+  const Icon = channel.type === 'slack' ? Slack : MessageSquareMore;
+
+  function toggleTopic(id: ChannelTopic) {
+    setTopics(prev => prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]);
+  }
+
+  async function handleCopy() {
+    await navigator.clipboard.writeText(interactionUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-lg mx-4">
+        <div className="bg-jarvis-surface border border-cyan-500/25 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.08)] overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06] bg-cyan-500/5">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-cyan-500/10 border border-cyan-500/20">
+                <Icon size={18} className="text-cyan-400" />
+              </div>
+              <div>
+                <h2 className="text-sm font-semibold text-jarvis-text tracking-wide">CONFIGURE {adapter.label.toUpperCase()}</h2>
+                <p className="text-xs text-jarvis-muted mt-0.5">Approvals with buttons, CEO replies and mission summaries</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-jarvis-muted hover:text-jarvis-text transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="px-6 py-5 space-y-4">
+            {adapter.configFields.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">{field.label}</label>
+                <input
+                  type={field.secret ? 'password' : 'text'}
+                  value={values[field.key]}
+                  onChange={e => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  className={inputCls}
+                />
+                {field.help && <p className="text-[11px] text-jarvis-muted mt-1.5">{field.help}</p>}
+              </div>
+            ))}
+
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">
+                {channel.type === 'slack' ? 'Interactivity Request URL' : 'Interactions Endpoint URL'}
+              </label>
+              <div className="flex items-center gap-2">
+                <input type="text" value={interactionUrl} readOnly className={inputCls} />
+                <button onClick={handleCopy} title="Copy" className="p-2 text-jarvis-muted hover:text-jarvis-text transition-colors">
+                  {copied ? <CheckCircle size={16} className="text-emerald-400" /> : <Copy size={16} />}
+                </button>
+              </div>
+              <p className="text-[11px] text-jarvis-muted mt-1.5">
+                Served by the sidecar. Swap the host for a public URL (e.g. a tunnel) that forwards to port 3100.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-2">Send</label>
+              <div className="space-y-1.5">
+                {CHANNEL_TOPICS.map(t => (
+                  <label key={t.id} className="flex items-center gap-2 text-sm text-jarvis-text cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={topics.includes(t.id)}
+                      onChange={() => toggleTopic(t.id)}
+                      className="accent-cyan-500"
+                    />
+                    {t.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-jarvis-text cursor-pointer">
+              <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} className="accent-emerald-500" />
+              Enabled
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(config, enabled)}
+              disabled={!adapter.isConfigured(config)}
+              className="px-5 py-2 text-sm font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/25 rounded-lg hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Save {adapter.label}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
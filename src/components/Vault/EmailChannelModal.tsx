@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { X, Mail } from 'lucide-react';
+import type { ChannelRow } from '../../lib/database';
+import { emailAdapter, emailConfig, type EmailChannelConfig, type SmtpSecurity, type DigestFrequency } from '../../lib/channels/email';
+import { digestCron } from '../../lib/emailDigest';
+import { nextRun, isValidTimezone, localTimezone } from '../../lib/cronParser';
+
+interface EmailChannelModalProps {
+  channel: ChannelRow;
+  onSave: (config: Record<string, unknown>, enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const inputCls = 'w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm font-mono px-3 py-2.5 rounded-lg focus:outline-none focus:border-cyan-500/50 transition-colors placeholder:text-zinc-600';
+const labelCls = 'block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5';
+
+const SECURITY_PORTS: Record<SmtpSecurity, number> = { tls: 465, starttls: 587, none: 25 };
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Configure an email digest channel: SMTP server, recipients and schedule */
+export default function EmailChannelModal({ channel, onSave, onClose }: EmailChannelModalProps) {
+  const initial = emailConfig(channel);
+  const [form, setForm] = useState<EmailChannelConfig>({ ...initial, timezone: initial.timezone || localTimezone() });
+  const [enabled, setEnabled] = useState(channel.enabled || !emailAdapter.isConfigured(channel.config ?? {}));
+
+  function set<K extends keyof EmailChannelConfig>(key: K, value: EmailChannelConfig[K]) {
+    setForm(prev => ({ ...prev, [key]: value }));
+  }
+
+  const timezone = form.timezone.trim();
+  const tzValid = isValidTimezone(timezone);
+  const config = {
+    ...channel.config,
+    ...form,
+    smtp_host: form.smtp_host.trim(),
+    smtp_user: form.smtp_user.trim(),
+    from: form.from.trim(),
+    to: form.to.trim(),
+    timezone,
+  };
+  const nextDigest = tzValid && /^\d{1,2}:\d{2}$/.test(form.send_time) ? nextRun(digestCron(form), new Date(), timezone) : null;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-lg mx-4">
+        <div className="bg-jarvis-surface border border-cyan-500/25 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.08)] overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06] bg-cyan-500/5">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-cyan-500/10 border border-cyan-500/20">
+                <Mail size={18} className="text-cyan-400" />
+              </div>
+              <div>
+                <h2 className="text-sm font-semibold text-jarvis-text tracking-wide">CONFIGURE EMAIL DIGEST</h2>
+                <p className="text-xs text-jarvis-muted mt-0.5">Missions, spend, approvals, collateral and memory — by email</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-jarvis-muted hover:text-jarvis-text transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="px-6 py-5 space-y-4 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <label className={labelCls}>SMTP Host</label>
+                <input type="text" value={form.smtp_host} onChange={e => set('smtp_host', e.target.value)} placeholder="smtp.example.com" className={inputCls} />
+              </div>
+              <div>
+                <label className={labelCls}>Port</label>
+                <input type="number" min="1" max="65535" value={form.smtp_port} onChange={e => set('smtp_port', parseInt(e.target.value, 10) || 0)} className={inputCls} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelCls}>Security</label>
+              <select
+                value={form.smtp_security}
+                onChange={e => {
+                  const security = e.target.value as SmtpSecurity;
+                  setForm(prev => ({ ...prev, smtp_security: security, smtp_port: SECURITY_PORTS[security] }));
+                }}
+                className={inputCls}
+              >
+                <option value="starttls">STARTTLS (587)</option>
+                <option value="tls">TLS (465)</option>
+                <option value="none">None — local catcher only</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelCls}>Username</label>
+                <input type="text" value={form.smtp_user} onChange={e => set('smtp_user', e.target.value)} placeholder="optional" className={inputCls} />
+              </div>
+              <div>
+                <label className={labelCls}>Password</label>
+                <input type="password" value={form.smtp_pass} onChange={e => set('smtp_pass', e.target.value)} className={inputCls} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelCls}>From</label>
+              <input type="text" value={form.from} onChange={e => set('from', e.target.value)} placeholder="Jarvis <ceo@example.com>" className={inputCls} />
+            </div>
+
+            <div>
+              <label className={labelCls}>To</label>
+              <input type="text" value={form.to} onChange={e => set('to', e.target.value)} placeholder="founder@example.com, cofounder@example.com" className={inputCls} />
+              <p className="text-[11px] text-jarvis-muted mt-1.5">Comma-separated. Each recipient counts as one unit of channel cost.</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className={labelCls}>Frequency</label>
+                <select value={form.frequency} onChange={e => set('frequency', e.target.value as DigestFrequency)} className={inputCls}>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+              </div>
+              {form.frequency === 'weekly' && (
+                <div>
+                  <label className={labelCls}>Day</label>
+                  <select value={form.send_day} onChange={e => set('send_day', parseInt(e.target.value, 10))} className={inputCls}>
+                    {WEEKDAYS.map((d, i) => <option key={d} value={i}>{d}</option>)}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className={labelCls}>Time</label>
+                <input type="time" value={form.send_time} onChange={e => set('send_time', e.target.value)} className={inputCls} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelCls}>Timezone</label>
+              <input type="text" value={form.timezone} onChange={e => set('timezone', e.target.value)} placeholder="America/New_York" className={inputCls} />
+              <p className={`text-[11px] mt-1.5 ${tzValid ? 'text-jarvis-muted' : 'text-red-400'}`}>
+                {!tzValid
+                  ? 'Unknown IANA timezone'
+                  : nextDigest
+                    ? `Next digest: ${nextDigest.toLocaleString(undefined, { timeZone: timezone, weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+                    : 'Pick a send time'}
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-jarvis-text cursor-pointer">
+              <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} className="accent-emerald-500" />
+              Enabled
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(config, enabled)}
+              disabled={!emailAdapter.isConfigured(config) || !tzValid || form.smtp_port <= 0}
+              className="px-5 py-2 text-sm font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/25 rounded-lg hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Save Email
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { X, CheckCircle, Loader2, AlertCircle, ArrowRight, ExternalLink, Key } from 'lucide-react';
-import { getVaultEntryByService, saveVaultEntry, updateVaultEntry } from '../../lib/database';
+import { findVaultEntry, loadVaultEntriesByService, saveVaultEntry, updateVaultEntry } from '../../lib/database';
+import { gatewayFetch } from '../../lib/gatewayAuth';
 
 interface GoogleOAuthWizardProps {
   skillId: string;
@@ -33,7 +34,7 @@ export default function GoogleOAuthWizard({
   // Check for existing client credentials on mount — skip to step 3 if found
   useEffect(() => {
     (async () => {
-      const entry = await getVaultEntryByService(clientVaultService);
+      const [entry] = await loadVaultEntriesByService(clientVaultService, { context: 'oauth_setup' });
       if (entry) {
         try {
           const creds = JSON.parse(entry.key_value);
@@ -56,7 +57,7 @@ export default function GoogleOAuthWizard({
     setError('');
     try {
       const value = JSON.stringify({ client_id: clientId.trim(), client_secret: clientSecret.trim() });
-      const existing = await getVaultEntryByService(clientVaultService);
+      const existing = await findVaultEntry(clientVaultService);
       if (existing) {
         await updateVaultEntry(existing.id, { key_value: value });
       } else {
@@ -114,7 +115,7 @@ export default function GoogleOAuthWizard({
 
       // Exchange code for tokens
       try {
-        const resp = await fetch('/api/oauth/token', {
+        const resp = await gatewayFetch('/api/oauth/token', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -134,16 +135,17 @@ export default function GoogleOAuthWizard({
 
         const tokenData = await resp.json();
 
-        // Save tokens to vault
+        // Save tokens to vault — expires_at tells the CEO tick when to refresh (see vaultRotation)
+        const expiresAt = Date.now() + (tokenData.expires_in ?? 3600) * 1000;
         const tokenValue = JSON.stringify({
           access_token: tokenData.access_token,
           refresh_token: tokenData.refresh_token,
-          expires_at: Date.now() + (tokenData.expires_in ?? 3600) * 1000,
+          expires_at: expiresAt,
         });
 
-        const existingToken = await getVaultEntryByService(vaultService);
+        const existingToken = await findVaultEntry(vaultService);
         if (existingToken) {
-          await updateVaultEntry(existingToken.id, { key_value: tokenValue });
+          await updateVaultEntry(existingToken.id, { key_value: tokenValue, expires_at: new Date(expiresAt).toISOString() });
         } else {
           await saveVaultEntry({
             id: `vault-${Date.now()}`,
@@ -151,6 +153,7 @@ export default function GoogleOAuthWizard({
             name: `${skillName} OAuth Token`,
             key_value: tokenValue,
             type: 'token',
+            expires_at: new Date(expiresAt).toISOString(),
           });
         }
 
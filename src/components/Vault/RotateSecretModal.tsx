@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { X, RefreshCw, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import type { VaultRow } from '../../lib/database';
+import { validateApiKeyFormat } from '../../lib/models';
+import { rotateSecret, secretDue, type KeyTestResult } from '../../lib/vaultRotation';
+
+interface RotateSecretModalProps {
+  entry: Omit<VaultRow, 'key_value'>;
+  onClose: () => void;
+  onRotated: () => void;
+}
+
+const inputCls = 'w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm px-3 py-2.5 rounded-lg focus:outline-none focus:border-emerald-500/50 transition-colors placeholder:text-zinc-600';
+
+/** Replace a key — format check and a live test call before the swap */
+export default function RotateSecretModal({ entry, onClose, onRotated }: RotateSecretModalProps) {
+  const [newKey, setNewKey] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<KeyTestResult | null>(null);
+
+  const format = validateApiKeyFormat(entry.service, newKey);
+  const due = secretDue(entry);
+
+  async function handleRotate() {
+    setBusy(true);
+    setResult(null);
+    // A new expiry replaces the old one; leaving it blank clears a hard expiry that no longer applies
+    const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : entry.expires_at ? null : undefined;
+    const outcome = await rotateSecret(entry.id, newKey, expiresAt);
+    setResult(outcome);
+    setBusy(false);
+    if (outcome.ok) onRotated();
+  }
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 bg-jarvis-surface border border-white/[0.08] rounded-xl w-full max-w-md mx-4 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06]">
+          <div className="flex items-center gap-3">
+            <RefreshCw size={18} className="text-emerald-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-jarvis-text">Rotate {entry.name}</h2>
+              <p className="text-xs text-jarvis-muted">
+                {entry.service}
+                {due && ` · ${due.reason === 'expiry' ? 'expires' : 'rotation due'} ${due.at.toLocaleDateString()}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-jarvis-muted hover:text-jarvis-text transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">New Key</label>
+            <input
+              type="password"
+              value={newKey}
+              onChange={e => { setNewKey(e.target.value); setResult(null); }}
+              placeholder="Paste the replacement key"
+              className={`${inputCls} font-mono`}
+            />
+            {newKey.length > 0 && (
+              <div className={`text-xs mt-1.5 ${format.valid ? 'text-emerald-400' : 'text-amber-400'}`}>{format.message}</div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">New Expiry (optional)</label>
+            <input type="date" value={expiresOn} onChange={e => setExpiresOn(e.target.value)} className={inputCls} />
+          </div>
+
+          {result && (
+            <div className={`flex items-start gap-2 px-3 py-2.5 rounded-lg text-xs ${result.ok ? 'bg-emerald-500/10 border border-emerald-500/20 text-emerald-300' : 'bg-red-500/10 border border-red-500/20 text-red-300'}`}>
+              {result.ok ? <CheckCircle size={14} className="flex-shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />}
+              <span>{result.ok ? `Rotated — ${result.message}` : `Not rotated — ${result.message}. The old key is still in place.`}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text transition-colors">
+            {result?.ok ? 'Done' : 'Cancel'}
+          </button>
+          {!result?.ok && (
+            <button
+              onClick={handleRotate}
+              disabled={busy || !format.valid}
+              className="flex items-center gap-2 px-5 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {busy ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              {busy ? 'TESTING…' : 'TEST & ROTATE'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { loadSkills, loadAgents } from '../../lib/database';
+import { VAULT_CONTEXTS, VAULT_CONTEXT_LABELS, type VaultScope } from '../../lib/vaultScopes';
+
+interface SecretScopeFieldsProps {
+  scope: VaultScope;
+  onChange: (scope: VaultScope) => void;
+}
+
+const chipCls = (on: boolean) => `text-xs px-2.5 py-1.5 rounded-md border transition-colors ${
+  on
+    ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400'
+    : 'border-white/[0.08] text-jarvis-muted hover:text-jarvis-text hover:border-white/[0.15]'
+}`;
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+}
+
+/** Pick which skills, agents and contexts may read a secret — nothing picked means any */
+export default function SecretScopeFields({ scope, onChange }: SecretScopeFieldsProps) {
+  const [skills, setSkills] = useState<{ id: string; title: string }[]>([]);
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    loadSkills().then(rows => setSkills(rows
+      .filter(r => r.enabled || scope.skills.includes(r.id))
+      .map(r => ({ id: r.id, title: (r.definition?.title as string) ?? r.id }))));
+    loadAgents().then(rows => setAgents(rows.map(r => ({ id: r.id, name: r.name }))));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">
+          Contexts <span className="normal-case tracking-normal text-zinc-600">— none picked = any</span>
+        </label>
+        <div className="flex flex-wrap gap-1.5">
+          {VAULT_CONTEXTS.map(c => (
+            <button key={c} onClick={() => onChange({ ...scope, contexts: toggle(scope.contexts, c) })} className={chipCls(scope.contexts.includes(c))}>
+              {VAULT_CONTEXT_LABELS[c]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">
+          Skills <span className="normal-case tracking-normal text-zinc-600">— none picked = any</span>
+        </label>
+        <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto">
+          {skills.map(s => (
+            <button key={s.id} onClick={() => onChange({ ...scope, skills: toggle(scope.skills, s.id) })} className={chipCls(scope.skills.includes(s.id))}>
+              {s.title}
+            </button>
+          ))}
+          {skills.length === 0 && <span className="text-xs text-zinc-600">No enabled skills</span>}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">
+          Agents <span className="normal-case tracking-normal text-zinc-600">— none picked = any</span>
+        </label>
+        <div className="flex flex-wrap gap-1.5">
+          {agents.map(a => (
+            <button key={a.id} onClick={() => onChange({ ...scope, agents: toggle(scope.agents, a.id) })} className={chipCls(scope.agents.includes(a.id))}>
+              {a.name}
+            </button>
+          ))}
+          {agents.length === 0 && <span className="text-xs text-zinc-600">No agents hired</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
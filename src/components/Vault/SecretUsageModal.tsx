@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { X, History, AlertTriangle } from 'lucide-react';
+import { getEntitiesUsingService, loadSecretUsage, loadAgents, type VaultRow, type VaultDependent, type AuditLogRow } from '../../lib/database';
+import { isScoped, VAULT_CONTEXT_LABELS } from '../../lib/vaultScopes';
+
+interface SecretUsageModalProps {
+  entry: Omit<VaultRow, 'key_value'>;
+  onClose: () => void;
+}
+
+const dependentLabel: Record<VaultDependent['type'], string> = { ceo: 'CEO', agent: 'Agent', skill: 'Skill' };
+
+const USAGE_BADGES: Record<string, { label: string; cls: string }> = {
+  SECRET_READ: { label: 'READ', cls: 'text-emerald-400' },
+  SECRET_DENIED: { label: 'REFUSED', cls: 'text-red-400' },
+  SECRET_LOCKED: { label: 'LOCKED', cls: 'text-amber-400' },
+  SECRET_CORRUPT: { label: 'CORRUPT', cls: 'text-red-400' },
+};
+
+/** Who may read a secret, who would break without it, and every read so far */
+export default function SecretUsageModal({ entry, onClose }: SecretUsageModalProps) {
+  const [dependents, setDependents] = useState<VaultDependent[] | null>(null);
+  const [usage, setUsage] = useState<AuditLogRow[] | null>(null);
+  const [agentNames, setAgentNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    getEntitiesUsingService(entry.service, entry.scope).then(setDependents);
+    loadSecretUsage(entry.id).then(setUsage);
+    loadAgents().then(rows => setAgentNames(Object.fromEntries(rows.map(r => [r.id, r.name]))));
+  }, [entry]);
+
+  const scope = isScoped(entry.scope) ? entry.scope : null;
+  const denied = usage?.filter(u => u.action === 'SECRET_DENIED').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 bg-jarvis-surface border border-white/[0.08] rounded-xl w-full max-w-2xl mx-4 shadow-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06]">
+          <div className="flex items-center gap-3">
+            <History size={18} className="text-emerald-400" />
+            <div>
+              <h2 className="text-lg font-semibold text-jarvis-text">{entry.name}</h2>
+              <p className="text-xs text-jarvis-muted">{entry.service}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-jarvis-muted hover:text-jarvis-text transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5 overflow-y-auto">
+          {/* Scope */}
+          <div>
+            <div className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider mb-2">Allowed</div>
+            {!scope ? (
+              <p className="text-sm text-jarvis-muted">Any skill, agent or context.</p>
+            ) : (
+              <div className="space-y-1 text-sm text-jarvis-text">
+                <div><span className="text-jarvis-muted">Contexts:</span> {scope.contexts.length ? scope.contexts.map(c => VAULT_CONTEXT_LABELS[c] ?? c).join(', ') : 'any'}</div>
+                <div><span className="text-jarvis-muted">Skills:</span> {scope.skills.length ? scope.skills.join(', ') : 'any'}</div>
+                <div><span className="text-jarvis-muted">Agents:</span> {scope.agents.length ? scope.agents.map(a => agentNames[a] ?? a).join(', ') : 'any'}</div>
+              </div>
+            )}
+          </div>
+
+          {/* Would break */}
+          <div>
+            <div className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider mb-2">Would break if revoked</div>
+            {dependents === null ? (
+              <p className="text-sm text-jarvis-muted">Loading…</p>
+            ) : dependents.length === 0 ? (
+              <p className="text-sm text-jarvis-muted">Nothing depends on this key.</p>
+            ) : (
+              <ul className="space-y-1">
+                {dependents.map((d, i) => (
+                  <li key={i} className="flex items-center gap-2 text-sm text-amber-200/80">
+                    <AlertTriangle size={12} className="text-amber-400 flex-shrink-0" />
+                    {dependentLabel[d.type]} <span className="font-semibold">{d.name}</span> ({d.uses})
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Usage history */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Usage history</span>
+              {usage && usage.length > 0 && (
+                <span className="text-xs text-jarvis-muted">
+                  {usage.length - denied} read{usage.length - denied === 1 ? '' : 's'}
+                  {denied > 0 && <span className="text-red-400"> · {denied} refused</span>}
+                </span>
+              )}
+            </div>
+            {usage === null ? (
+              <p className="text-sm text-jarvis-muted">Loading…</p>
+            ) : usage.length === 0 ? (
+              <p className="text-sm text-jarvis-muted">Not read since read logging began.</p>
+            ) : (
+              <div className="border border-white/[0.06] rounded-lg divide-y divide-white/[0.04]">
+                {usage.map(u => (
+                  <div key={u.id} className="grid grid-cols-[140px_70px_1fr] gap-3 px-3 py-2 text-xs">
+                    <span className="font-mono text-jarvis-muted">{new Date(u.timestamp).toLocaleString()}</span>
+                    <span className={`font-semibold ${(USAGE_BADGES[u.action] ?? USAGE_BADGES.SECRET_READ).cls}`}>
+                      {(USAGE_BADGES[u.action] ?? USAGE_BADGES.SECRET_READ).label}
+                    </span>
+                    <span className="text-jarvis-text break-words">
+                      {(u.details ?? '').replace(/^".*?" \[[^\]]+\] ((read |refused |wanted )?for |could not be decrypted — )/, '')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
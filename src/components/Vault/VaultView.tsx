@@ -1,9 +1,16 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Shield, Lock, Plus, Pencil, Trash2, X, AlertTriangle, Mail, Send, MessageCircle, Phone, Bell, Key, Unlock } from 'lucide-react';
+import { Shield, Lock, Plus, Pencil, Trash2, X, AlertTriangle, History, RefreshCw, Mail, Send, MessageCircle, Phone, Bell, Key, Unlock, Webhook, Slack, MessageSquareMore, FileDown } from 'lucide-react';
 import TelegramSetupWizard from './TelegramSetupWizard';
+import WebhookChannelModal from './WebhookChannelModal';
+import ChatChannelModal from './ChatChannelModal';
+import EmailChannelModal from './EmailChannelModal';
+import SecretScopeFields from './SecretScopeFields';
+import SecretUsageModal from './SecretUsageModal';
+import RotateSecretModal from './RotateSecretModal';
 import {
-  loadVaultEntries,
+  loadVaultMetadata,
+  revealVaultEntry,
   saveVaultEntry,
   updateVaultEntry,
   deleteVaultEntry,
@@ -13,10 +20,20 @@ import {
   deleteChannel,
   logAudit,
 } from '../../lib/database';
-import type { VaultRow, ChannelRow } from '../../lib/database';
-import { SERVICE_KEY_HINTS } from '../../lib/models';
-import { hasInstanceKey } from '../../lib/jarvisKey';
-import { getSigningExpiry } from '../../lib/marketplaceClient';
+import type { VaultRow, ChannelRow, VaultDependent } from '../../lib/database';
+import { isScoped, type VaultScope } from '../../lib/vaultScopes';
+import { secretDue, secretHealth, ROTATION_POLICIES, type SecretHealth } from '../../lib/vaultRotation';
+import { SERVICE_KEY_HINTS, LOCAL_SERVICE } from '../../lib/models';
+import { API_TOKEN_SERVICE, generateApiToken } from '../../lib/apiTokens';
+import { GATEWAY_TOKEN_SERVICE, GATEWAY_SCOPES, GATEWAY_SCOPE_LABELS, gatewayTokenEntryId, hashGatewayToken, isGatewayTokenHash, mintGatewayToken, pairGatewayToken, type GatewayScope } from '../../lib/gatewayAuth';
+import { webhookConfig, sendTestWebhook, saveWebhookSecret, moveWebhookSecretsToVault } from '../../lib/webhooks';
+import { getChannelAdapter, channelTopics, sendTestChannelMessage } from '../../lib/channels/registry';
+import { emailConfig } from '../../lib/channels/email';
+import { sendDigestNow } from '../../lib/emailDigest';
+import { refreshLocalModels } from '../../lib/localModels';
+import { hasInstanceKey, loadKeyFromLocalStorage, decryptPrivateKey } from '../../lib/jarvisKey';
+import { getSigningExpiry, getUnlockDuration, type UnlockDuration } from '../../lib/marketplaceClient';
+import { isVaultEncrypted, getVaultExpiry, setupVaultEncryption, unlockVault, lockVault, downloadVaultKeyFile } from '../../lib/vaultCrypto';
 
 const TYPE_OPTIONS = ['api_key', 'credential', 'token', 'secret'] as const;
 
@@ -34,6 +51,15 @@ const typeLabels: Record<string, string> = {
   secret: 'Secret',
 };
 
+const healthBadges: Record<Exclude<SecretHealth, 'ok'>, { label: string; cls: string }> = {
+  due_soon: { label: 'DUE SOON', cls: 'text-amber-400 bg-amber-500/10 border-amber-500/25' },
+  overdue: { label: 'ROTATE', cls: 'text-red-400 bg-red-500/10 border-red-500/25' },
+  expired: { label: 'EXPIRED', cls: 'text-red-400 bg-red-500/10 border-red-500/25' },
+};
+
+/** What the list shows — secrets are only read when an entry is opened */
+type VaultMeta = Omit<VaultRow, 'key_value'>;
+
 function maskKey(key: string): string {
   if (key.length <= 10) return key;
   return key.slice(0, 10) + '\u2022\u2022\u2022\u2022';
@@ -44,6 +70,9 @@ const CHANNEL_TYPES = [
   { type: 'telegram', label: 'Telegram', icon: Send, defaultCost: 0.0 },
   { type: 'sms', label: 'SMS', icon: MessageCircle, defaultCost: 0.01 },
   { type: 'voice', label: 'Voice', icon: Phone, defaultCost: 0.05 },
+  { type: 'webhook', label: 'Webhook', icon: Webhook, defaultCost: 0.0 },
+  { type: 'slack', label: 'Slack', icon: Slack, defaultCost: 0.0 },
+  { type: 'discord', label: 'Discord', icon: MessageSquareMore, defaultCost: 0.0 },
 ] as const;
 
 const channelIconMap: Record<string, typeof Mail> = {
@@ -51,6 +80,9 @@ const channelIconMap: Record<string, typeof Mail> = {
   telegram: Send,
   sms: MessageCircle,
   voice: Phone,
+  webhook: Webhook,
+  slack: Slack,
+  discord: MessageSquareMore,
 };
 
 type TabId = 'keys' | 'credentials' | 'tokens' | 'channels';
@@ -64,32 +96,56 @@ const TABS: { id: TabId; label: string }[] = [
 
 export default function VaultView() {
   const navigate = useNavigate();
-  const [entries, setEntries] = useState<VaultRow[]>([]);
+  const [entries, setEntries] = useState<VaultMeta[]>([]);
   const [channels, setChannels] = useState<ChannelRow[]>([]);
   const [activeTab, setActiveTab] = useState<TabId>('keys');
   const [signingStatus, setSigningStatus] = useState(getSigningExpiry());
   const keyExists = hasInstanceKey();
 
-  // Refresh signing status periodically
+  // Vault encryption — the same master password as the instance key
+  const [vaultStatus, setVaultStatus] = useState<{ encrypted: boolean; unlocked: boolean; label: string } | null>(null);
+  const [vaultPassword, setVaultPassword] = useState('');
+  const [vaultConfirm, setVaultConfirm] = useState('');
+  const [vaultDuration, setVaultDuration] = useState<UnlockDuration>(getUnlockDuration);
+  const [vaultError, setVaultError] = useState('');
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const vaultLocked = !!vaultStatus?.encrypted && !vaultStatus.unlocked;
+
+  const refreshVaultStatus = useCallback(async () => {
+    const encrypted = await isVaultEncrypted();
+    setVaultStatus({ encrypted, ...(await getVaultExpiry()) });
+  }, []);
+
+  // Refresh signing and vault status periodically
   useEffect(() => {
-    const interval = setInterval(() => setSigningStatus(getSigningExpiry()), 5000);
+    refreshVaultStatus();
+    const interval = setInterval(() => {
+      setSigningStatus(getSigningExpiry());
+      refreshVaultStatus();
+    }, 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [refreshVaultStatus]);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingEntry, setEditingEntry] = useState<VaultRow | null>(null);
-  const [deleteTarget, setDeleteTarget] = useState<VaultRow | null>(null);
-  const [deleteEntities, setDeleteEntities] = useState<{ type: 'ceo' | 'agent'; name: string; model: string }[]>([]);
+  const [deleteTarget, setDeleteTarget] = useState<VaultMeta | null>(null);
+  const [deleteEntities, setDeleteEntities] = useState<VaultDependent[]>([]);
+  const [usageTarget, setUsageTarget] = useState<VaultMeta | null>(null);
+  const [rotateTarget, setRotateTarget] = useState<VaultMeta | null>(null);
   const [channelModalOpen, setChannelModalOpen] = useState(false);
   const [channelFormType, setChannelFormType] = useState('email');
   const [channelFormCost, setChannelFormCost] = useState('0.001');
   const [deleteChannelTarget, setDeleteChannelTarget] = useState<ChannelRow | null>(null);
   const [telegramWizardChannel, setTelegramWizardChannel] = useState<ChannelRow | null>(null);
+  const [webhookChannel, setWebhookChannel] = useState<ChannelRow | null>(null);
+  const [chatChannel, setChatChannel] = useState<ChannelRow | null>(null);
+  const [emailChannel, setEmailChannel] = useState<ChannelRow | null>(null);
+  const [testSent, setTestSent] = useState<string | null>(null);
 
-  const refresh = useCallback(() => { loadVaultEntries().then(setEntries); }, []);
+  const refresh = useCallback(() => { loadVaultMetadata().then(setEntries); }, []);
   const refreshChannels = useCallback(() => { loadChannels().then(setChannels); }, []);
 
   useEffect(() => {
-    loadVaultEntries().then(setEntries);
+    loadVaultMetadata().then(setEntries);
     loadChannels().then(setChannels);
   }, []);
 
@@ -98,6 +154,13 @@ export default function VaultView() {
   const [formType, setFormType] = useState<string>('api_key');
   const [formService, setFormService] = useState('');
   const [formKey, setFormKey] = useState('');
+  const [formScope, setFormScope] = useState<VaultScope>({ skills: [], agents: [], contexts: [] });
+  const [formExpires, setFormExpires] = useState('');
+  const [formRotation, setFormRotation] = useState(0);
+  const [gatewayMintScopes, setGatewayMintScopes] = useState<GatewayScope[]>(['exec', 'read']);
+  const [gatewayPair, setGatewayPair] = useState(false);
+  const [gatewayError, setGatewayError] = useState('');
+  const [localDiscovery, setLocalDiscovery] = useState<string | null>(null);
 
   function openAdd() {
     setEditingEntry(null);
@@ -112,40 +175,94 @@ export default function VaultView() {
     }
     setFormService('');
     setFormKey('');
+    setFormScope({ skills: [], agents: [], contexts: [] });
+    setFormExpires('');
+    setFormRotation(0);
+    setGatewayPair(false);
+    setGatewayError('');
     setModalOpen(true);
   }
 
-  function openEdit(entry: VaultRow) {
+  async function openEdit(meta: VaultMeta) {
+    const entry = await revealVaultEntry(meta.id);
+    if (!entry) {
+      refresh(); // deleted meanwhile
+      return;
+    }
     setEditingEntry(entry);
     setFormName(entry.name);
     setFormType(entry.type);
     setFormService(entry.service);
     setFormKey(entry.key_value);
+    setFormScope(entry.scope ?? { skills: [], agents: [], contexts: [] });
+    setFormExpires(entry.expires_at?.slice(0, 10) ?? '');
+    setFormRotation(entry.rotation_days ?? 0);
+    setGatewayPair(false);
+    setGatewayError('');
     setModalOpen(true);
   }
 
   async function handleSave() {
     if (!formName.trim() || !formService.trim() || !formKey.trim()) return;
+    const scope = isScoped(formScope) ? formScope : null;
+    const expires_at = formExpires ? new Date(`${formExpires}T23:59:59`).toISOString() : null;
+    const rotation_days = formRotation || null;
+    // Gateway tokens are kept as their hash only — the form shows the token this one time
+    const gatewayToken = (editingEntry?.service ?? formService.trim()) === GATEWAY_TOKEN_SERVICE && !isGatewayTokenHash(formKey.trim())
+      ? formKey.trim()
+      : null;
+    // …under the entry id the gateway looks up for that token
+    const gatewayEntryId = gatewayToken ? gatewayTokenEntryId(gatewayToken) : null;
+    if (gatewayToken && !gatewayEntryId) {
+      setGatewayError('Not a gateway token — mint one here or with mint-token.ts in the gateway container');
+      return;
+    }
+    const key_value = gatewayToken ? await hashGatewayToken(gatewayToken) : formKey.trim();
     if (editingEntry) {
-      await updateVaultEntry(editingEntry.id, { name: formName.trim(), key_value: formKey.trim() });
+      // Unchanged expiry keeps its exact stored instant
+      const keepExpiry = (editingEntry.expires_at?.slice(0, 10) ?? '') === formExpires;
+      await updateVaultEntry(editingEntry.id, {
+        name: formName.trim(),
+        key_value,
+        scope,
+        rotation_days,
+        ...(keepExpiry ? {} : { expires_at }),
+        ...(key_value !== editingEntry.key_value ? { rotated_at: new Date().toISOString() } : {}),
+      });
+      if (JSON.stringify(scope) !== JSON.stringify(editingEntry.scope ?? null)) {
+        await logAudit(null, 'KEY_SCOPED', `Scope of "${formName.trim()}" ${scope ? 'set' : 'cleared'}`, 'info');
+      }
       await logAudit(null, 'KEY_UPDATED', `Updated "${formName.trim()}" (${editingEntry.service})`, 'info');
     } else {
       await saveVaultEntry({
-        id: `vault-${Date.now()}`,
+        id: gatewayEntryId ?? `vault-${Date.now()}`,
         name: formName.trim(),
         type: formType,
         service: formService.trim(),
-        key_value: formKey.trim(),
+        key_value,
+        scope,
+        expires_at,
+        rotation_days,
       });
       await logAudit(null, 'KEY_ADDED', `Added ${formType} "${formName.trim()}" for ${formService.trim()}`, 'info');
     }
+    if (gatewayToken && gatewayPair) await pairGatewayToken(gatewayToken, formName.trim());
     setModalOpen(false);
     refresh();
     window.dispatchEvent(new Event('vault-changed'));
+
+    // Local model server — rediscover the model list from the new base URL
+    const service = editingEntry?.service ?? formService.trim();
+    if (service.toLowerCase() === LOCAL_SERVICE.toLowerCase()) {
+      const ids = await refreshLocalModels();
+      setLocalDiscovery(ids.length > 0
+        ? `Discovered ${ids.length} local model${ids.length === 1 ? '' : 's'}: ${ids.join(', ')}`
+        : 'No models discovered — is the local server running and reachable from this browser?');
+    }
   }
 
-  async function handleDeleteClick(entry: VaultRow) {
-    const entities = await getEntitiesUsingService(entry.service);
+  async function handleDeleteClick(entry: VaultMeta) {
+    const entities = await getEntitiesUsingService(entry.service, entry.scope);
     setDeleteEntities(entities);
     setDeleteTarget(entry);
   }
@@ -154,10 +271,69 @@ export default function VaultView() {
     if (!deleteTarget) return;
     await logAudit(null, 'KEY_DELETED', `Deleted "${deleteTarget.name}" (${deleteTarget.service})`, 'warning');
     await deleteVaultEntry(deleteTarget.id);
+    const deletedService = deleteTarget.service;
     setDeleteTarget(null);
     setDeleteEntities([]);
     refresh();
     window.dispatchEvent(new Event('vault-changed'));
+    if (deletedService.toLowerCase() === LOCAL_SERVICE.toLowerCase()) {
+      await refreshLocalModels();
+      setLocalDiscovery(null);
+    }
+  }
+
+  async function handleVaultSetup() {
+    if (!vaultPassword) return;
+    setVaultBusy(true);
+    setVaultError('');
+    try {
+      const instanceKey = keyExists ? loadKeyFromLocalStorage() : null;
+      if (instanceKey) {
+        // One master password for the Founder: it must be the one that opens the instance key
+        await decryptPrivateKey(instanceKey.encryptedPrivateKey, vaultPassword).catch(() => {
+          throw new Error('That is not your master password');
+        });
+      } else if (vaultPassword !== vaultConfirm) {
+        throw new Error('Passwords do not match');
+      }
+      await setupVaultEncryption(vaultPassword, vaultDuration);
+      setVaultPassword('');
+      setVaultConfirm('');
+      refresh();
+    } catch (err) {
+      setVaultError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshVaultStatus();
+    setVaultBusy(false);
+  }
+
+  async function handleVaultUnlock() {
+    if (!vaultPassword) return;
+    setVaultBusy(true);
+    setVaultError('');
+    try {
+      await unlockVault(vaultPassword, vaultDuration);
+      setVaultPassword('');
+      await moveWebhookSecretsToVault();
+      refresh();
+      window.dispatchEvent(new Event('vault-changed'));
+    } catch (err) {
+      setVaultError(err instanceof Error ? err.message : String(err));
+    }
+    await refreshVaultStatus();
+    setVaultBusy(false);
+  }
+
+  async function handleVaultLock() {
+    lockVault();
+    await logAudit(null, 'VAULT_LOCKED', 'Vault locked in this browser', 'info');
+    refresh();
+    await refreshVaultStatus();
+  }
+
+  async function handleVaultKeyFile() {
+    await downloadVaultKeyFile();
+    await logAudit(null, 'VAULT_KEY_EXPORTED', 'Exported the Vault key file for the sidecar', 'warning');
   }
 
   function openAddChannel() {
@@ -169,28 +345,84 @@ export default function VaultView() {
   async function handleSaveChannel() {
     const cost = parseFloat(channelFormCost);
     if (isNaN(cost) || cost < 0) return;
-    await saveChannel({
+    const channel: ChannelRow = {
       id: `ch-${channelFormType}-${Date.now()}`,
       type: channelFormType,
       enabled: false,
       config: {},
       cost_per_unit: cost,
-    });
+    };
+    await saveChannel(channel);
     await logAudit(null, 'CHANNEL_ADDED', `Added ${channelFormType} notification channel`, 'info');
     setChannelModalOpen(false);
     refreshChannels();
+    // Webhooks and chat channels are useless without config — go straight to it
+    if (channel.type === 'webhook') setWebhookChannel(channel);
+    if (channel.type === 'slack' || channel.type === 'discord') setChatChannel(channel);
+    if (channel.type === 'email') setEmailChannel(channel);
+  }
+
+  async function handleTestChannel(channel: ChannelRow) {
+    if (channel.type === 'webhook') {
+      await sendTestWebhook(channel);
+      await logAudit(null, 'WEBHOOK_TEST', `Queued test delivery to ${webhookConfig(channel).url}`, 'info');
+    } else if (channel.type === 'email') {
+      // "Test" for email sends a real digest of the current period
+      await sendDigestNow(channel);
+      await logAudit(null, 'EMAIL_DIGEST', `Queued digest preview to ${emailConfig(channel).to}`, 'info');
+    } else {
+      await sendTestChannelMessage(channel);
+      await logAudit(null, 'CHANNEL_TEST', `Queued test message to ${channel.type} channel ${channel.id}`, 'info');
+    }
+    setTestSent(channel.id);
+    setTimeout(() => setTestSent(prev => (prev === channel.id ? null : prev)), 3000);
   }
 
   async function handleDeleteChannelConfirm() {
     if (!deleteChannelTarget) return;
     await logAudit(null, 'CHANNEL_DELETED', `Deleted ${deleteChannelTarget.type} notification channel`, 'warning');
     await deleteChannel(deleteChannelTarget.id);
+    const secretId = deleteChannelTarget.type === 'webhook' ? webhookConfig(deleteChannelTarget).secret_id : null;
+    if (secretId) {
+      await deleteVaultEntry(secretId);
+      refresh();
+    }
     setDeleteChannelTarget(null);
     refreshChannels();
   }
 
 
-  const serviceOptions = Object.keys(SERVICE_KEY_HINTS);
+  const serviceOptions = [...Object.keys(SERVICE_KEY_HINTS), API_TOKEN_SERVICE, GATEWAY_TOKEN_SERVICE];
+  const formTokenService = editingEntry?.service ?? formService;
+
+  function selectService(service: string) {
+    setFormService(service);
+    // Sidecar API and gateway tokens are minted here, not pasted from a provider console
+    if (service === API_TOKEN_SERVICE) {
+      setFormType('token');
+      if (!formKey) setFormKey(generateApiToken());
+      if (!formName) setFormName('CI pipeline');
+    }
+    if (service === GATEWAY_TOKEN_SERVICE) {
+      setFormType('token');
+      if (!formName) setFormName('Gateway client');
+    }
+  }
+
+  /** Only the gateway can sign a token, so it mints one with the chosen scopes */
+  async function handleMintGatewayToken() {
+    setGatewayError('');
+    try {
+      setFormKey(await mintGatewayToken(gatewayMintScopes));
+    } catch (err) {
+      setGatewayError((err as Error).message);
+    }
+  }
+
+  function toggleGatewayScope(scope: GatewayScope) {
+    const next = gatewayMintScopes.includes(scope) ? gatewayMintScopes.filter(s => s !== scope) : [...gatewayMintScopes, scope];
+    if (next.length > 0) setGatewayMintScopes(next);
+  }
 
   // Filtered entries per tab
   const filteredEntries = activeTab === 'keys'
@@ -223,7 +455,9 @@ export default function VaultView() {
           {showAddKey && (
             <button
               onClick={openAdd}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors"
+              disabled={vaultLocked}
+              title={vaultLocked ? 'Unlock the Vault to add secrets' : undefined}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded-lg hover:bg-emerald-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
             >
               <Plus size={16} />
               ADD KEY
@@ -300,6 +534,121 @@ export default function VaultView() {
         </button>
       )}
 
+      {/* Vault Encryption Banner */}
+      {vaultStatus && (
+        <div className={`w-full mb-6 flex items-center gap-3 px-5 py-3.5 rounded-xl border ${
+          !vaultStatus.encrypted
+            ? 'bg-amber-500/10 border-amber-500/25'
+            : vaultStatus.unlocked
+              ? 'bg-emerald-500/10 border-emerald-500/25'
+              : 'bg-red-500/10 border-red-500/25'
+        }`}>
+          <div className={`flex items-center justify-center w-9 h-9 rounded-lg ${
+            !vaultStatus.encrypted ? 'bg-amber-500/15' : vaultStatus.unlocked ? 'bg-emerald-500/15' : 'bg-red-500/15'
+          }`}>
+            {vaultStatus.encrypted && vaultStatus.unlocked ? (
+              <Unlock size={18} className="text-emerald-400" />
+            ) : (
+              <Lock size={18} className={vaultStatus.encrypted ? 'text-red-400' : 'text-amber-400'} />
+            )}
+          </div>
+          <div className="flex-1 text-left min-w-0">
+            <div className="flex items-center gap-2">
+              <span className={`text-sm font-semibold ${
+                !vaultStatus.encrypted ? 'text-amber-400' : vaultStatus.unlocked ? 'text-emerald-400' : 'text-red-400'
+              }`}>
+                {vaultStatus.encrypted ? 'VAULT ENCRYPTION' : 'SECRETS IN PLAINTEXT'}
+              </span>
+              {vaultStatus.encrypted && (
+                <span className={`inline-block px-2 py-0.5 text-[10px] font-bold rounded-full uppercase tracking-wider ${
+                  vaultStatus.unlocked
+                    ? 'bg-emerald-500/15 text-emerald-400 border border-emerald-500/30'
+                    : 'bg-red-500/15 text-red-400 border border-red-500/30 animate-pulse'
+                }`}>
+                  {vaultStatus.label}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-jarvis-muted mt-0.5">
+              {!vaultStatus.encrypted
+                ? 'Encrypt every secret at rest with your master password.'
+                : vaultStatus.unlocked
+                  ? 'Secrets are encrypted at rest and unlocked here. The sidecar unlocks with its key file (JARVIS_VAULT_KEY_FILE).'
+                  : 'Secrets are encrypted — unlock with your master password. Nothing that needs a key runs until then.'}
+            </p>
+            {vaultError && <p className="text-xs text-red-400 mt-1">{vaultError}</p>}
+          </div>
+          {vaultStatus.encrypted && vaultStatus.unlocked ? (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleVaultKeyFile}
+                title="Download .jarvis-vault-key for the sidecar"
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-jarvis-muted border border-white/[0.08] rounded-lg hover:text-jarvis-text hover:bg-white/[0.04] transition-colors"
+              >
+                <FileDown size={14} />
+                SIDECAR KEY FILE
+              </button>
+              <button
+                onClick={handleVaultLock}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-400 border border-red-500/25 rounded-lg hover:bg-red-500/10 transition-colors"
+              >
+                <Lock size={14} />
+                LOCK
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="password"
+                value={vaultPassword}
+                onChange={e => setVaultPassword(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') (vaultStatus.encrypted ? handleVaultUnlock : handleVaultSetup)(); }}
+                placeholder="Master password"
+                className="w-40 bg-jarvis-bg border border-white/[0.08] rounded-lg px-3 py-1.5 text-xs text-jarvis-text placeholder:text-jarvis-muted/50 focus:outline-none focus:border-emerald-500/40"
+              />
+              {!vaultStatus.encrypted && !keyExists && (
+                <input
+                  type="password"
+                  value={vaultConfirm}
+                  onChange={e => setVaultConfirm(e.target.value)}
+                  placeholder="Confirm"
+                  className="w-32 bg-jarvis-bg border border-white/[0.08] rounded-lg px-3 py-1.5 text-xs text-jarvis-text placeholder:text-jarvis-muted/50 focus:outline-none focus:border-emerald-500/40"
+                />
+              )}
+              <select
+                value={vaultDuration}
+                onChange={e => setVaultDuration(e.target.value as UnlockDuration)}
+                className="bg-jarvis-bg border border-white/[0.08] rounded-lg px-2 py-1.5 text-xs text-jarvis-text focus:outline-none focus:border-emerald-500/40"
+              >
+                <option value="session">Session</option>
+                <option value="day">1 day</option>
+                <option value="week">1 week</option>
+                <option value="month">1 month</option>
+                <option value="forever">Forever</option>
+              </select>
+              <button
+                onClick={vaultStatus.encrypted ? handleVaultUnlock : handleVaultSetup}
+                disabled={vaultBusy || !vaultPassword}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-black bg-emerald-500 hover:bg-emerald-400 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                {vaultStatus.encrypted ? <Unlock size={14} /> : <Lock size={14} />}
+                {vaultBusy ? 'WORKING…' : vaultStatus.encrypted ? 'UNLOCK' : 'ENCRYPT VAULT'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Local model discovery result */}
+      {localDiscovery && (
+        <div className="mb-6 flex items-center justify-between gap-3 px-5 py-3 rounded-xl border border-blue-500/25 bg-blue-500/10">
+          <span className="text-xs text-blue-300 font-mono break-all">{localDiscovery}</span>
+          <button onClick={() => setLocalDiscovery(null)} className="text-jarvis-muted hover:text-jarvis-text">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Summary Bar */}
       <div className="grid grid-cols-5 gap-4 mb-6">
         {([
@@ -367,7 +716,7 @@ export default function VaultView() {
           ) : (
             <div className="bg-jarvis-surface border border-white/[0.06] rounded-xl overflow-hidden">
               {/* Table Header */}
-              <div className="grid grid-cols-[1fr_100px_110px_160px_140px_90px] gap-4 px-6 py-3 border-b border-white/[0.06] bg-white/[0.02]">
+              <div className="grid grid-cols-[1fr_100px_110px_160px_160px_150px] gap-4 px-6 py-3 border-b border-white/[0.06] bg-white/[0.02]">
                 <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Name</span>
                 <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Type</span>
                 <span className="text-xs font-semibold text-jarvis-muted uppercase tracking-wider">Service</span>
@@ -380,13 +729,16 @@ export default function VaultView() {
                 <div
                   key={entry.id}
                   className={[
-                    'grid grid-cols-[1fr_100px_110px_160px_140px_90px] gap-4 px-6 py-4 border-b border-white/[0.04] items-center transition-colors hover:bg-white/[0.03]',
+                    'grid grid-cols-[1fr_100px_110px_160px_160px_150px] gap-4 px-6 py-4 border-b border-white/[0.04] items-center transition-colors hover:bg-white/[0.03]',
                     idx % 2 === 1 ? 'bg-white/[0.015]' : '',
                   ].join(' ')}
                 >
                   <div className="flex items-center gap-3 min-w-0">
                     <Lock size={14} className="text-jarvis-muted flex-shrink-0" />
                     <span className="text-sm font-medium text-jarvis-text truncate">{entry.name}</span>
+                    {isScoped(entry.scope) && (
+                      <span className="px-1.5 py-0.5 text-[9px] font-bold tracking-wider text-emerald-400 bg-emerald-500/10 border border-emerald-500/25 rounded flex-shrink-0">SCOPED</span>
+                    )}
                   </div>
 
                   <div>
@@ -397,18 +749,58 @@ export default function VaultView() {
 
                   <span className="text-sm text-jarvis-muted">{entry.service}</span>
 
-                  <span className="text-sm font-mono text-zinc-500 tracking-wider select-none">
-                    {maskKey(entry.key_value)}
-                  </span>
+                  {(() => {
+                    // The encrypted flag is client-writable: a plaintext row in an encrypted Vault is never used
+                    const untrusted = !!vaultStatus?.encrypted && !entry.encrypted;
+                    return (
+                      <span
+                        title={untrusted ? 'Stored in plaintext in an encrypted Vault — not used; re-enter it' : undefined}
+                        className={`text-sm font-mono tracking-wider select-none ${untrusted ? 'text-red-400' : 'text-zinc-500'}`}
+                      >
+                        {untrusted ? 'UNTRUSTED' : vaultLocked && entry.encrypted ? 'LOCKED' : '\u2022'.repeat(10)}
+                      </span>
+                    );
+                  })()}
 
-                  <span className="text-sm font-mono text-jarvis-muted">
-                    {entry.created_at?.slice(0, 10) ?? '---'}
-                  </span>
+                  <div className="min-w-0">
+                    <span className="text-sm font-mono text-jarvis-muted">
+                      {entry.created_at?.slice(0, 10) ?? '---'}
+                    </span>
+                    {(() => {
+                      const health = secretHealth(entry);
+                      if (health === 'ok') return null;
+                      const due = secretDue(entry);
+                      return (
+                        <span
+                          title={due ? `${due.reason === 'expiry' ? 'Expires' : 'Rotation due'} ${due.at.toLocaleDateString()}` : undefined}
+                          className={`ml-2 px-1.5 py-0.5 text-[9px] font-bold tracking-wider border rounded ${healthBadges[health].cls}`}
+                        >
+                          {healthBadges[health].label}
+                        </span>
+                      );
+                    })()}
+                  </div>
 
                   <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => setUsageTarget(entry)}
+                      title="Scope & usage history"
+                      className="flex items-center justify-center w-8 h-8 text-jarvis-muted hover:text-emerald-400 hover:bg-emerald-500/10 rounded-md transition-colors"
+                    >
+                      <History size={14} />
+                    </button>
+                    <button
+                      onClick={() => setRotateTarget(entry)}
+                      disabled={vaultLocked}
+                      title="Rotate key"
+                      className="flex items-center justify-center w-8 h-8 text-jarvis-muted hover:text-emerald-400 hover:bg-emerald-500/10 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <RefreshCw size={14} />
+                    </button>
                     <button
                       onClick={() => openEdit(entry)}
-                      className="flex items-center justify-center w-8 h-8 text-jarvis-muted hover:text-jarvis-text hover:bg-white/[0.06] rounded-md transition-colors"
+                      disabled={vaultLocked}
+                      className="flex items-center justify-center w-8 h-8 text-jarvis-muted hover:text-jarvis-text hover:bg-white/[0.06] rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       <Pencil size={14} />
                     </button>
@@ -433,7 +825,7 @@ export default function VaultView() {
             <div className="bg-jarvis-surface border border-white/[0.06] rounded-xl p-12 text-center">
               <Bell size={32} className="text-jarvis-muted mx-auto mb-4 opacity-40" />
               <p className="text-jarvis-muted text-sm mb-1">No notification channels configured</p>
-              <p className="text-jarvis-muted/60 text-xs">Add channels for Email, Telegram, SMS, or Voice notifications.</p>
+              <p className="text-jarvis-muted/60 text-xs">Add channels for Email, Telegram, Slack, Discord, SMS, Voice, or Webhook notifications.</p>
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -442,8 +834,13 @@ export default function VaultView() {
                 const channelMeta = CHANNEL_TYPES.find(ct => ct.type === channel.type);
                 const label = channelMeta?.label ?? channel.type.charAt(0).toUpperCase() + channel.type.slice(1);
                 const isTelegram = channel.type === 'telegram';
+                const isWebhook = channel.type === 'webhook';
+                const isChat = channel.type === 'slack' || channel.type === 'discord';
+                const isEmail = channel.type === 'email';
                 const channelConfig = (channel.config ?? {}) as Record<string, unknown>;
-                const isConfigured = isTelegram && !!channelConfig.bot_token;
+                const chatAdapter = getChannelAdapter(channel.type);
+                const isConfigured = (isWebhook && !!channelConfig.url) || (!!chatAdapter && chatAdapter.isConfigured(channelConfig));
+                const hasAdapter = isWebhook || !!chatAdapter;
                 return (
                   <div
                     key={channel.id}
@@ -456,11 +853,15 @@ export default function VaultView() {
                         </div>
                         <span className="text-sm font-semibold text-jarvis-text uppercase tracking-wide">{label}</span>
                       </div>
-                      {isConfigured ? (
+                      {isConfigured && !channel.enabled ? (
+                        <span className="inline-block px-2 py-0.5 text-[10px] font-bold rounded-full bg-zinc-500/15 text-zinc-400 border border-zinc-500/30 uppercase tracking-wider">
+                          Disabled
+                        </span>
+                      ) : isConfigured ? (
                         <span className="inline-block px-2 py-0.5 text-[10px] font-bold rounded-full bg-emerald-500/15 text-emerald-400 border border-emerald-500/30 uppercase tracking-wider">
                           Connected
                         </span>
-                      ) : isTelegram ? (
+                      ) : hasAdapter ? (
                         <span className="inline-block px-2 py-0.5 text-[10px] font-bold rounded-full bg-cyan-500/15 text-cyan-400 border border-cyan-500/30 uppercase tracking-wider">
                           Ready
                         </span>
@@ -478,12 +879,46 @@ export default function VaultView() {
                       </div>
                       <div className="flex items-center justify-between">
                         <span className="text-xs text-jarvis-muted">Status</span>
-                        {isConfigured ? (
+                        {isConfigured && isWebhook ? (
+                          <span className="text-xs font-mono text-emerald-400 truncate max-w-[60%]" title={String(channelConfig.url)}>
+                            {String(channelConfig.url).replace(/^https?:\/\//, '')}
+                          </span>
+                        ) : isConfigured && channel.type === 'slack' ? (
+                          <span className="text-xs font-medium text-emerald-400">Incoming webhook</span>
+                        ) : isConfigured && channel.type === 'discord' ? (
+                          <span className="text-xs font-mono text-emerald-400">#{String(channelConfig.channel_id)}</span>
+                        ) : isConfigured && isEmail ? (
+                          <span className="text-xs font-mono text-emerald-400 truncate max-w-[60%]" title={String(channelConfig.to)}>
+                            {String(channelConfig.to)}
+                          </span>
+                        ) : isConfigured ? (
                           <span className="text-xs font-medium text-emerald-400">@{String(channelConfig.bot_username ?? 'bot')}</span>
                         ) : (
-                          <span className="text-xs font-medium text-zinc-500">{isTelegram ? 'Not configured' : 'Disabled'}</span>
+                          <span className="text-xs font-medium text-zinc-500">{hasAdapter ? 'Not configured' : 'Disabled'}</span>
                         )}
                       </div>
+                      {isWebhook && isConfigured && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs text-jarvis-muted">Events</span>
+                          <span className="text-xs font-mono text-jarvis-text">
+                            {webhookConfig(channel).events.length || 'all'}
+                          </span>
+                        </div>
+                      )}
+                      {isChat && isConfigured && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs text-jarvis-muted">Sends</span>
+                          <span className="text-xs font-mono text-jarvis-text">{channelTopics(channel).join(', ') || 'nothing'}</span>
+                        </div>
+                      )}
+                      {isEmail && isConfigured && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs text-jarvis-muted">Digest</span>
+                          <span className="text-xs font-mono text-jarvis-text">
+                            {emailConfig(channel).frequency} @ {emailConfig(channel).send_time}
+                          </span>
+                        </div>
+                      )}
                       {isTelegram && !!channelConfig.authorized_chat_id && (
                         <div className="flex items-center justify-between">
                           <span className="text-xs text-jarvis-muted">Chat ID</span>
@@ -500,6 +935,23 @@ export default function VaultView() {
                         >
                           {isConfigured ? 'Reconfigure' : 'Configure'}
                         </button>
+                      ) : isWebhook || isChat || isEmail ? (
+                        <>
+                          <button
+                            onClick={() => (isWebhook ? setWebhookChannel(channel) : isEmail ? setEmailChannel(channel) : setChatChannel(channel))}
+                            className="flex-1 px-3 py-1.5 text-xs font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/25 rounded-md hover:bg-cyan-500/20 transition-colors"
+                          >
+                            {isConfigured ? 'Reconfigure' : 'Configure'}
+                          </button>
+                          {isConfigured && channel.enabled && (
+                            <button
+                              onClick={() => handleTestChannel(channel)}
+                              className="px-3 py-1.5 text-xs font-medium text-blue-400 bg-blue-500/10 border border-blue-500/25 rounded-md hover:bg-blue-500/20 transition-colors"
+                            >
+                              {testSent === channel.id ? 'Queued' : isEmail ? 'Send Now' : 'Test'}
+                            </button>
+                          )}
+                        </>
                       ) : (
                         <button
                           disabled
@@ -536,7 +988,7 @@ export default function VaultView() {
       {modalOpen && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center">
           <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={() => setModalOpen(false)} />
-          <div className="relative z-10 bg-jarvis-surface border border-white/[0.08] rounded-xl w-full max-w-md mx-4 shadow-2xl">
+          <div className="relative z-10 bg-jarvis-surface border border-white/[0.08] rounded-xl w-full max-w-lg mx-4 shadow-2xl max-h-[90vh] flex flex-col">
             <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06]">
               <h2 className="text-lg font-semibold text-jarvis-text">
                 {editingEntry ? 'Edit Credential' : 'Add Credential'}
@@ -546,7 +998,7 @@ export default function VaultView() {
               </button>
             </div>
 
-            <div className="px-6 py-5 space-y-4">
+            <div className="px-6 py-5 space-y-4 overflow-y-auto">
               <div>
                 <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Name</label>
                 <input
@@ -579,7 +1031,7 @@ export default function VaultView() {
                       {serviceOptions.map(s => (
                         <button
                           key={s}
-                          onClick={() => setFormService(s)}
+                          onClick={() => selectService(s)}
                           className={`text-xs px-2.5 py-1.5 rounded-md border transition-colors ${
                             formService === s
                               ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400'
@@ -603,17 +1055,94 @@ export default function VaultView() {
 
               <div>
                 <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Key Value</label>
+                {formTokenService === API_TOKEN_SERVICE && (
+                  <div className="flex items-center justify-between gap-2 mb-1.5 text-xs text-jarvis-muted">
+                    <span>Bearer token for the sidecar REST API — copy it before saving.</span>
+                    <button
+                      onClick={() => setFormKey(generateApiToken())}
+                      className="shrink-0 text-amber-400 hover:text-amber-300 transition-colors"
+                    >
+                      Generate
+                    </button>
+                  </div>
+                )}
+                {formTokenService === GATEWAY_TOKEN_SERVICE && (
+                  <div className="mb-1.5 space-y-1.5">
+                    <div className="flex items-center justify-between gap-2 text-xs text-jarvis-muted">
+                      <span>Bearer token for the workspace gateway — mint one, or paste one from mint-token.ts. Copy it now: the Vault keeps only its hash.</span>
+                      {!editingEntry && (
+                        <button
+                          onClick={handleMintGatewayToken}
+                          className="shrink-0 text-amber-400 hover:text-amber-300 transition-colors"
+                        >
+                          Mint
+                        </button>
+                      )}
+                    </div>
+                    {!editingEntry && <div className="flex flex-wrap gap-1.5">
+                      {GATEWAY_SCOPES.map(scope => (
+                        <button
+                          key={scope}
+                          onClick={() => toggleGatewayScope(scope)}
+                          className={`text-xs px-2.5 py-1 rounded-md border transition-colors ${
+                            gatewayMintScopes.includes(scope)
+                              ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-400'
+                              : 'border-white/[0.08] text-jarvis-muted hover:text-jarvis-text'
+                          }`}
+                        >
+                          {GATEWAY_SCOPE_LABELS[scope]}
+                        </button>
+                      ))}
+                    </div>}
+                    {!editingEntry && (
+                      <label className="flex items-center gap-2 text-xs text-jarvis-muted">
+                        <input type="checkbox" checked={gatewayPair} onChange={e => setGatewayPair(e.target.checked)} />
+                        Use in this dashboard
+                      </label>
+                    )}
+                    {gatewayError && <div className="text-xs text-red-400">{gatewayError}</div>}
+                  </div>
+                )}
                 <input
-                  type="password"
+                  type={formTokenService === API_TOKEN_SERVICE || formTokenService === GATEWAY_TOKEN_SERVICE ? 'text' : 'password'}
                   value={formKey}
                   onChange={e => setFormKey(e.target.value)}
-                  placeholder="Paste API key or secret"
+                  readOnly={editingEntry?.service === GATEWAY_TOKEN_SERVICE}
+                  placeholder={(editingEntry?.service ?? formService) === LOCAL_SERVICE
+                    ? 'http://localhost:11434  (optionally followed by an API key)'
+                    : 'Paste API key or secret'}
                   className="w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm font-mono px-3 py-2.5 rounded-lg focus:outline-none focus:border-emerald-500/50 transition-colors placeholder:text-zinc-600"
                 />
                 {formKey.length > 0 && (
                   <div className="text-xs font-mono text-emerald-400 mt-1.5">{maskKey(formKey)}</div>
                 )}
               </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Expires</label>
+                  <input
+                    type="date"
+                    value={formExpires}
+                    onChange={e => setFormExpires(e.target.value)}
+                    className="w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm px-3 py-2.5 rounded-lg focus:outline-none focus:border-emerald-500/50 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Rotate Every</label>
+                  <select
+                    value={formRotation}
+                    onChange={e => setFormRotation(Number(e.target.value))}
+                    className="w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm px-3 py-2.5 rounded-lg focus:outline-none focus:border-emerald-500/50 transition-colors"
+                  >
+                    {ROTATION_POLICIES.map(d => (
+                      <option key={d} value={d}>{d === 0 ? 'No policy' : `${d} days`}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <SecretScopeFields scope={formScope} onChange={setFormScope} />
             </div>
 
             <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
@@ -635,6 +1164,18 @@ export default function VaultView() {
         </div>
       )}
 
+      {/* Rotate Key */}
+      {rotateTarget && (
+        <RotateSecretModal
+          entry={rotateTarget}
+          onClose={() => setRotateTarget(null)}
+          onRotated={() => { refresh(); window.dispatchEvent(new Event('approvals-changed')); }}
+        />
+      )}
+
+      {/* Secret Scope & Usage */}
+      {usageTarget && <SecretUsageModal entry={usageTarget} onClose={() => setUsageTarget(null)} />}
+
       {/* Delete Vault Entry Confirmation Modal */}
       {deleteTarget && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center">
@@ -657,7 +1198,7 @@ export default function VaultView() {
                   <ul className="space-y-1">
                     {deleteEntities.map((e, i) => (
                       <li key={i} className="text-sm text-red-200/80">
-                        {e.type === 'ceo' ? 'CEO' : 'Agent'} <span className="font-semibold">{e.name}</span> ({e.model})
+                        {e.type === 'ceo' ? 'CEO' : e.type === 'agent' ? 'Agent' : 'Skill'} <span className="font-semibold">{e.name}</span> ({e.uses})
                       </li>
                     ))}
                   </ul>
@@ -742,11 +1283,13 @@ export default function VaultView() {
                 />
               </div>
 
-              <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
-                <p className="text-xs text-amber-400">
-                  Notification adapters are not yet implemented. Channels will be saved as placeholders for future use.
-                </p>
-              </div>
+              {!['email', 'telegram', 'webhook', 'slack', 'discord'].includes(channelFormType) && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
+                  <p className="text-xs text-amber-400">
+                    Notification adapters are not yet implemented. Channels will be saved as placeholders for future use.
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
@@ -790,6 +1333,58 @@ export default function VaultView() {
         />
       )}
 
+      {/* Webhook Configuration */}
+      {webhookChannel && (
+        <WebhookChannelModal
+          channel={webhookChannel}
+          onSave={async (config, enabled, secret) => {
+            const secretId = secret
+              ? await saveWebhookSecret(webhookChannel.id, config.url, secret)
+              : webhookConfig(webhookChannel).secret_id;
+            await saveChannel({ ...webhookChannel, enabled, config: { ...config, secret_id: secretId } });
+            await logAudit(null, 'CHANNEL_CONFIGURED',
+              `Configured webhook ${config.url} (${config.events.length > 0 ? config.events.join(', ') : 'all events'})${enabled ? '' : ' — disabled'}`,
+              'info');
+            setWebhookChannel(null);
+            refreshChannels();
+            if (secret) refresh();
+          }}
+          onClose={() => setWebhookChannel(null)}
+        />
+      )}
+
+      {/* Slack / Discord Configuration */}
+      {chatChannel && (
+        <ChatChannelModal
+          channel={chatChannel}
+          onSave={async (config, enabled) => {
+            await saveChannel({ ...chatChannel, enabled, config });
+            await logAudit(null, 'CHANNEL_CONFIGURED',
+              `Configured ${chatChannel.type} channel (${(config.topics as string[]).join(', ') || 'no topics'})${enabled ? '' : ' — disabled'}`,
+              'info');
+            setChatChannel(null);
+            refreshChannels();
+          }}
+          onClose={() => setChatChannel(null)}
+        />
+      )}
+
+      {/* Email Digest Configuration */}
+      {emailChannel && (
+        <EmailChannelModal
+          channel={emailChannel}
+          onSave={async (config, enabled) => {
+            await saveChannel({ ...emailChannel, enabled, config });
+            await logAudit(null, 'CHANNEL_CONFIGURED',
+              `Configured ${config.frequency} email digest to ${config.to} via ${config.smtp_host}${enabled ? '' : ' — disabled'}`,
+              'info');
+            setEmailChannel(null);
+            refreshChannels();
+          }}
+          onClose={() => setEmailChannel(null)}
+        />
+      )}
+
       {/* Delete Channel Confirmation Modal */}
       {deleteChannelTarget && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center">
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { X, Webhook, RefreshCw, Copy, CheckCircle } from 'lucide-react';
+import type { ChannelRow } from '../../lib/database';
+import { WEBHOOK_EVENTS, webhookConfig, generateWebhookSecret, type WebhookConfig, type WebhookEvent } from '../../lib/webhooks';
+
+interface WebhookChannelModalProps {
+  channel: ChannelRow;
+  /** `secret` is a new signing secret to store in the Vault; null keeps the current one */
+  onSave: (config: Omit<WebhookConfig, 'secret_id'>, enabled: boolean, secret: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputCls = 'w-full bg-jarvis-bg border border-white/[0.08] text-jarvis-text text-sm font-mono px-3 py-2.5 rounded-lg focus:outline-none focus:border-cyan-500/50 transition-colors placeholder:text-zinc-600';
+
+export default function WebhookChannelModal({ channel, onSave, onClose }: WebhookChannelModalProps) {
+  const initial = webhookConfig(channel);
+  const [url, setUrl] = useState(initial.url);
+  // The stored secret stays in the Vault — only a freshly generated one is shown
+  const [secret, setSecret] = useState<string | null>(initial.secret_id ? null : generateWebhookSecret());
+  const [events, setEvents] = useState<WebhookEvent[]>(initial.events);
+  const [enabled, setEnabled] = useState(channel.enabled || !initial.url);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const urlValid = /^https?:\/\/\S+$/.test(url.trim());
+
+  function toggleEvent(id: WebhookEvent) {
+    setEvents(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+  }
+
+  async function handleCopy() {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  }
+
+  async function handleSave() {
+    setError('');
+    try {
+      await onSave({ url: url.trim(), events }, enabled, secret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-lg mx-4">
+        <div className="bg-jarvis-surface border border-cyan-500/25 rounded-xl shadow-[0_0_40px_rgba(6,182,212,0.08)] overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-white/[0.06] bg-cyan-500/5">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-9 h-9 rounded-lg bg-cyan-500/10 border border-cyan-500/20">
+                <Webhook size={18} className="text-cyan-400" />
+              </div>
+              <div>
+                <h2 className="text-sm font-semibold text-jarvis-text tracking-wide">CONFIGURE WEBHOOK</h2>
+                <p className="text-xs text-jarvis-muted mt-0.5">Signed JSON POSTs, retried with backoff by the sidecar</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-jarvis-muted hover:text-jarvis-text transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="px-6 py-5 space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Endpoint URL</label>
+              <input
+                type="url"
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+                placeholder="https://ci.example.com/hooks/jarvis"
+                className={inputCls}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-1.5">Signing Secret</label>
+              <div className="flex items-center gap-2">
+                <input type="text" value={secret ?? ''} placeholder="Stored in the Vault — regenerate to replace it" readOnly className={inputCls} />
+                <button onClick={handleCopy} disabled={!secret} title="Copy" className="p-2 text-jarvis-muted hover:text-jarvis-text transition-colors disabled:opacity-40">
+                  {copied ? <CheckCircle size={16} className="text-emerald-400" /> : <Copy size={16} />}
+                </button>
+                <button onClick={() => setSecret(generateWebhookSecret())} title="Regenerate" className="p-2 text-jarvis-muted hover:text-jarvis-text transition-colors">
+                  <RefreshCw size={16} />
+                </button>
+              </div>
+              <p className="text-[11px] text-jarvis-muted mt-1.5">
+                Verify <span className="font-mono">X-Jarvis-Signature</span> = sha256 HMAC of <span className="font-mono">{'`${X-Jarvis-Timestamp}.${body}`'}</span>.
+                {secret && ' Copy it now — once saved it is kept in the Vault and not shown here again.'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-jarvis-muted uppercase tracking-wider mb-2">
+                Events {events.length === 0 && <span className="normal-case text-cyan-400">— all</span>}
+              </label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {WEBHOOK_EVENTS.map(ev => (
+                  <label key={ev.id} className="flex items-center gap-2 text-sm text-jarvis-text cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(ev.id)}
+                      onChange={() => toggleEvent(ev.id)}
+                      className="accent-cyan-500"
+                    />
+                    {ev.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-jarvis-text cursor-pointer">
+              <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} className="accent-emerald-500" />
+              Enabled
+            </label>
+          </div>
+
+          {error && <p className="px-6 pb-3 text-xs text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/[0.06]">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-jarvis-muted hover:text-jarvis-text transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!urlValid}
+              className="px-5 py-2 text-sm font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/25 rounded-lg hover:bg-cyan-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Save Webhook
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
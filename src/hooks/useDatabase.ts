@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { hasSupabaseConfig, initSupabase, pingSupabase, clearSupabaseConfig } from '../lib/supabase';
 import { isFounderInitialized, isCEOInitialized, resetDatabase } from '../lib/database';
 import { seedSkillsFromRepo } from '../lib/skillResolver';
+import { loadModelRegistry } from '../lib/llm/registry';
 
 interface DatabaseState {
   ready: boolean;
@@ -52,6 +53,9 @@ export function useDatabase() {
           return;
         }
 
+        // Load the model registry (incl. discovered local models) before any model lookups
+        await loadModelRegistry();
+
         // Check initialization state
         const founderReady = await isFounderInitialized();
         const ceoReady = founderReady ? await isCEOInitialized() : false;
@@ -0,0 +1,63 @@
+/**
+ * API Tokens — bearer credentials for the sidecar's headless REST API
+ * ====================================================================
+ * Tokens are ordinary Vault entries (type "token") under the
+ * `Jarvis API` service, so they are created, renamed and revoked from the
+ * Vault like any other secret. The sidecar re-reads the entries' metadata on
+ * every request — deleting the entry revokes the token immediately — but
+ * opens a token only when its entry is new or changed, and keeps just its
+ * SHA-256. Checking a token is not a secret read: nothing lands in the audit
+ * log per request.
+ */
+
+import { loadVaultMetadata, loadVaultCredentials, type VaultRow } from './database';
+import { scopeDenial, type VaultAccess } from './vaultScopes';
+
+export const API_TOKEN_SERVICE = 'Jarvis API';
+export const API_TOKEN_PREFIX = 'jrv_';
+
+const ACCESS: VaultAccess = { context: 'api_auth' };
+
+export type ApiToken = Omit<VaultRow, 'key_value'>;
+
+/** Token hash per entry id, valid while the entry's updated_at is unchanged; null = corrupt */
+const hashes = new Map<string, { updatedAt: string; hash: string | null }>();
+
+/** 256 random bits, hex-encoded, with a recognizable prefix for secret scanners */
+export function generateApiToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return API_TOKEN_PREFIX + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex SHA-256 — what presented tokens are compared by */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Every API token the 'api_auth' context may use, with its hash. `locked` is
+ * set when some token could not be opened because the Vault is locked.
+ */
+export async function loadApiTokenHashes(): Promise<{ tokens: { token: ApiToken; hash: string }[]; locked: boolean }> {
+  const entries = (await loadVaultMetadata(API_TOKEN_SERVICE)).filter(e => !scopeDenial(e.scope, e.service, ACCESS));
+  const stale = entries.filter(e => hashes.get(e.id)?.updatedAt !== e.updated_at);
+  let locked = false;
+  for (const row of await loadVaultCredentials(stale.map(e => e.id), ACCESS)) {
+    if (row.locked) {
+      locked = true;
+      continue;
+    }
+    hashes.set(row.id, { updatedAt: row.updated_at, hash: row.corrupt ? null : await hashApiToken(row.key_value) });
+  }
+
+  const live = new Set(entries.map(e => e.id));
+  for (const id of hashes.keys()) if (!live.has(id)) hashes.delete(id);
+
+  const tokens = entries.flatMap(token => {
+    const cached = hashes.get(token.id);
+    return cached?.hash && cached.updatedAt === token.updated_at ? [{ token, hash: cached.hash }] : [];
+  });
+  return { tokens, locked };
+}
@@ -0,0 +1,225 @@
+/**
+ * Budget Allocations — monthly sub-budgets per agent, skill and usage context
+ * ===========================================================================
+ * The monthly budget caps the whole organization; allocations split it. Each
+ * one gives an agent, a skill or a UsageContext (ceo_chat, mission_planning...)
+ * its own monthly limit, measured against this month's llm_usage.
+ *
+ * Spend is forecast to month end from the month's burn rate so far. The CEO
+ * tick raises a 'budget_allocation' approval the first time an allocation is
+ * projected to overrun, and another once it actually does. A spent allocation
+ * is enforced — queued tasks it covers stay in the work queue and chats it
+ * covers are refused — until the Founder approves the overspend, raises the
+ * limit, or the month rolls over.
+ *
+ * Allocations live in settings under `budget_allocations` (JSON).
+ */
+
+import { getSupabase } from './supabase';
+import { getSetting, setSetting, logAudit, saveApproval } from './database';
+import type { UsageContext } from './llmUsage';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export type AllocationScope = 'agent' | 'skill' | 'context';
+
+export interface BudgetAllocation {
+  scope: AllocationScope;
+  /** Agent id, skill id or UsageContext */
+  key: string;
+  /** USD per calendar month */
+  monthlyLimit: number;
+}
+
+const SETTING_KEY = 'budget_allocations';
+
+export async function loadBudgetAllocations(): Promise<BudgetAllocation[]> {
+  try {
+    const raw = await getSetting(SETTING_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed as BudgetAllocation[] : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveBudgetAllocations(allocations: BudgetAllocation[]): Promise<void> {
+  await setSetting(SETTING_KEY, JSON.stringify(allocations));
+  cached = null;
+}
+
+export function allocationLabel(a: Pick<BudgetAllocation, 'scope' | 'key'>): string {
+  return `${a.scope === 'context' ? 'Context' : a.scope === 'agent' ? 'Agent' : 'Skill'} ${a.key}`;
+}
+
+// ---------------------------------------------------------------------------
+// Forecast
+// ---------------------------------------------------------------------------
+
+function monthBounds(now: Date): { start: Date; end: Date } {
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
+
+/** Month-end spend if the month keeps burning at its rate so far */
+export function forecastMonthEnd(spent: number, now: Date = new Date()): { dailyRate: number; projected: number } {
+  const { start, end } = monthBounds(now);
+  const dayMs = 86_400_000;
+  // At least one day elapsed, so a burst in the first hours doesn't project to thousands
+  const elapsedDays = Math.max(1, (now.getTime() - start.getTime()) / dayMs);
+  const remainingDays = Math.max(0, (end.getTime() - now.getTime()) / dayMs);
+  const dailyRate = spent / elapsedDays;
+  return { dailyRate, projected: spent + dailyRate * remainingDays };
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+export interface AllocationStatus extends BudgetAllocation {
+  spent: number;
+  dailyRate: number;
+  projected: number;
+  /** 'at_risk' = projected past the limit; 'exceeded' = spent it */
+  state: 'ok' | 'at_risk' | 'exceeded';
+  /** The Founder approved this month's overspend — not enforced */
+  overridden: boolean;
+}
+
+interface UsageRow {
+  agent_id: string | null;
+  skill_id: string | null;
+  context: string;
+  estimated_cost: number | null;
+}
+
+function approvalId(a: BudgetAllocation, stage: 'forecast' | 'exceeded', now: Date): string {
+  const slug = a.key.toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+  const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  return `approval-allocation-${a.scope}-${slug}-${month}-${stage}`;
+}
+
+function matches(a: BudgetAllocation, row: { agent_id?: string | null; skill_id?: string | null; context?: string | null }): boolean {
+  if (a.scope === 'agent') return row.agent_id === a.key;
+  if (a.scope === 'skill') return row.skill_id === a.key;
+  return row.context === a.key;
+}
+
+/** Every allocation with this month's spend, forecast and override state */
+export async function getAllocationStatuses(now: Date = new Date()): Promise<AllocationStatus[]> {
+  const allocations = await loadBudgetAllocations();
+  if (allocations.length === 0) return [];
+  const sb = getSupabase();
+  const { start } = monthBounds(now);
+  const [{ data: usage }, { data: overrides }] = await Promise.all([
+    sb.from('llm_usage').select('agent_id, skill_id, context, estimated_cost').gte('created_at', start.toISOString()),
+    sb.from('approvals').select('id').eq('type', 'budget_allocation').eq('status', 'approved')
+      .in('id', allocations.map(a => approvalId(a, 'exceeded', now))),
+  ]);
+  const rows = (usage ?? []) as UsageRow[];
+  const approved = new Set(((overrides ?? []) as { id: string }[]).map(o => o.id));
+
+  return allocations.map(a => {
+    const spent = rows.filter(r => matches(a, r)).reduce((sum, r) => sum + (r.estimated_cost ?? 0), 0);
+    const { dailyRate, projected } = forecastMonthEnd(spent, now);
+    const state = spent >= a.monthlyLimit ? 'exceeded' : projected > a.monthlyLimit ? 'at_risk' : 'ok';
+    return { ...a, spent, dailyRate, projected, state, overridden: approved.has(approvalId(a, 'exceeded', now)) };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+const CACHE_MS = 30_000;
+let cached: { at: number; statuses: AllocationStatus[] } | null = null;
+
+export interface SpendTarget {
+  agentId?: string | null;
+  skillId?: string | null;
+  context?: UsageContext;
+}
+
+/**
+ * A check for many targets at once (one queue drain): returns why spend for
+ * an agent / skill / context is refused right now, or null. Statuses are
+ * cached briefly — an allocation can overshoot by what runs in that window.
+ */
+export async function spendAllocationGuard(): Promise<(target: SpendTarget) => string | null> {
+  if (!cached || Date.now() - cached.at > CACHE_MS) {
+    cached = { at: Date.now(), statuses: await getAllocationStatuses() };
+  }
+  const statuses = cached.statuses.filter(s => s.state === 'exceeded' && !s.overridden);
+  return target => {
+    const row = { agent_id: target.agentId ?? null, skill_id: target.skillId ?? null, context: target.context ?? null };
+    const spent = statuses.find(s => matches(s, row));
+    return spent ? `${allocationLabel(spent)} spent its $${spent.monthlyLimit.toFixed(2)} monthly allocation` : null;
+  };
+}
+
+/** Checked before each chat reply */
+export async function checkSpendAllocations(target: SpendTarget): Promise<string | null> {
+  return (await spendAllocationGuard())(target);
+}
+
+// ---------------------------------------------------------------------------
+// Alerts — CEO tick
+// ---------------------------------------------------------------------------
+
+/**
+ * Raise an approval for each allocation newly projected to overrun, or newly
+ * overrun. One per allocation, stage and month — a dismissed alert stays
+ * dismissed. Returns how many alerts were raised.
+ */
+export async function alertAllocationOverruns(): Promise<number> {
+  const now = new Date();
+  const statuses = (await getAllocationStatuses(now)).filter(s => s.state !== 'ok');
+  if (statuses.length === 0) return 0;
+
+  const sb = getSupabase();
+  const ids = statuses.map(s => approvalId(s, s.state === 'exceeded' ? 'exceeded' : 'forecast', now));
+  const { data: existing } = await sb.from('approvals').select('id').in('id', ids);
+  const raised = new Set(((existing ?? []) as { id: string }[]).map(r => r.id));
+
+  let alerts = 0;
+  for (const [i, s] of statuses.entries()) {
+    if (raised.has(ids[i])) continue;
+    const label = allocationLabel(s);
+    const exceeded = s.state === 'exceeded';
+    await saveApproval({
+      id: ids[i],
+      type: 'budget_allocation',
+      title: exceeded ? `${label} allocation spent` : `${label} projected over allocation`,
+      description: exceeded
+        ? `$${s.spent.toFixed(2)} of the $${s.monthlyLimit.toFixed(2)} monthly allocation is spent — its work is paused. Approve to allow overspend for the rest of the month, or raise the limit.`
+        : `$${s.spent.toFixed(2)} spent so far; at $${s.dailyRate.toFixed(2)}/day it reaches $${s.projected.toFixed(2)} by month end, over the $${s.monthlyLimit.toFixed(2)} allocation.`,
+      status: 'pending',
+      metadata: {
+        scope: s.scope,
+        key: s.key,
+        limit: s.monthlyLimit,
+        spent: s.spent,
+        projected: s.projected,
+        daily_rate: s.dailyRate,
+        stage: exceeded ? 'exceeded' : 'forecast',
+      },
+    });
+    await logAudit(
+      'CEO',
+      exceeded ? 'BUDGET_ALLOCATION_EXCEEDED' : 'BUDGET_ALLOCATION_AT_RISK',
+      `${label}: $${s.spent.toFixed(2)} spent, $${s.projected.toFixed(2)} projected vs $${s.monthlyLimit.toFixed(2)} allocation`,
+      'warning',
+    );
+    alerts++;
+  }
+
+  if (alerts > 0) {
+    cached = null;
+    if (typeof window !== 'undefined') window.dispatchEvent(new Event('approvals-changed'));
+  }
+  return alerts;
+}
@@ -18,6 +18,7 @@ import {
   getDueSkillSchedules,
   updateSkillScheduleRun,
   getVaultEntryByService,
+  findVaultEntry,
   getSetting,
   setSetting,
   type AgentRow,
@@ -25,14 +26,24 @@ import {
   type SkillRow,
   type ApprovalRow,
   type CEORow,
+  type SkillScheduleRow,
   logAudit,
   getSkillOptions,
 } from './database';
 import { seedSkillsFromRepo } from './skillResolver';
-import { synthesizeMissionSummary } from './taskDispatcher';
+import { synthesizeMissionSummary, advanceTaskGraphs, drainTaskQueue, releaseBudgetHolds } from './taskDispatcher';
+import { enforceMissionBudgets } from './missionBudget';
+import { alertAllocationOverruns } from './budgetAllocations';
+import { escalateDeadlines, applyDeadlineExtensions } from './missionDeadlines';
+import { applyCheckpointDecisions } from './taskCheckpoints';
+import { syncEpicStatuses } from './missionHierarchy';
+import { recoverTaskLeases } from './taskLeases';
+import { isVaultLocked } from './vaultCrypto';
+import { checkSecretRotation } from './vaultRotation';
 import { consolidateDailyMemories } from './memory';
-import { isCronDue } from './cronParser';
+import { dueRuns, nextRun, cronIntervalMs, frequencyToCron, resolveTimezone, type CatchUpMode } from './cronParser';
 import { getCurrentMonthSpend } from './llmUsage';
+import { emitWebhookEvent, notifyMissionStatus } from './webhooks';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -79,59 +90,6 @@ const PEER_CHECK_INTERVAL_MS = 4 * 60 * 60 * 1000; // 4 hours
 let lastVersionCheckTime = 0;
 const VERSION_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
 
-/**
- * Compute the next run timestamp for a skill schedule.
- */
-function computeNextRun(
-  frequency: 'hourly' | 'every_4h' | 'daily' | 'weekly' | 'monthly',
-  runAtTime: string,      // "HH:MM"
-  runOnDay: number | null, // 0-6 for weekly, 1-31 for monthly
-  fromDate: Date = new Date(),
-): Date {
-  const next = new Date(fromDate);
-
-  if (frequency === 'hourly') {
-    next.setMinutes(0, 0, 0);
-    next.setHours(next.getHours() + 1);
-    return next;
-  }
-
-  if (frequency === 'every_4h') {
-    const currentHour = next.getHours();
-    const nextSlot = Math.ceil((currentHour + 1) / 4) * 4;
-    next.setHours(nextSlot, 0, 0, 0);
-    if (next <= fromDate) next.setHours(next.getHours() + 4);
-    return next;
-  }
-
-  const [hours, minutes] = runAtTime.split(':').map(Number);
-  next.setHours(hours, minutes, 0, 0);
-
-  if (frequency === 'daily') {
-    // If today's time has passed, schedule for tomorrow
-    if (next <= fromDate) {
-      next.setDate(next.getDate() + 1);
-    }
-  } else if (frequency === 'weekly') {
-    const targetDay = runOnDay ?? 1; // Default to Monday
-    const currentDay = next.getDay();
-    let daysUntil = targetDay - currentDay;
-    if (daysUntil < 0) daysUntil += 7;
-    if (daysUntil === 0 && next <= fromDate) daysUntil = 7;
-    next.setDate(next.getDate() + daysUntil);
-  } else if (frequency === 'monthly') {
-    const targetDate = runOnDay ?? 1; // Default to 1st
-    next.setDate(targetDate);
-    // If this month's date has passed, go to next month
-    if (next <= fromDate) {
-      next.setMonth(next.getMonth() + 1);
-      next.setDate(targetDate);
-    }
-  }
-
-  return next;
-}
-
 // ---------------------------------------------------------------------------
 // Heuristic checks
 // ---------------------------------------------------------------------------
@@ -143,8 +101,10 @@ function checkUnassignedMissions(
 ): CEOAction[] {
   const actions: CEOAction[] = [];
 
+  // Epics are worked through their sub-missions — only those need an assignee
   const unassigned = missions.filter(
-    (m) => (m.status === 'active' || m.status === 'in_progress') && !m.assignee,
+    (m) => (m.status === 'active' || m.status === 'in_progress') && !m.assignee
+      && !missions.some(c => c.parent_id === m.id),
   );
   if (unassigned.length === 0) return actions;
 
@@ -222,8 +182,8 @@ async function checkSmartHire(
 
   try {
     // Get an API key — prefer Anthropic, fall back to OpenAI
-    const anthropicKey = await getVaultEntryByService('Anthropic');
-    const openaiKey = !anthropicKey ? await getVaultEntryByService('OpenAI') : null;
+    const anthropicKey = await getVaultEntryByService('Anthropic', { context: 'ceo_decision' });
+    const openaiKey = !anthropicKey ? await getVaultEntryByService('OpenAI', { context: 'ceo_decision' }) : null;
     const vaultEntry = anthropicKey ?? openaiKey;
     if (!vaultEntry) return [];
 
@@ -267,12 +227,12 @@ If hire is false, only include: {"hire":false,"reasoning":"..."}`;
     let modelId: string;
 
     if (anthropicKey) {
-      const { anthropicProvider } = await import('./llm/providers/anthropic');
-      provider = anthropicProvider as unknown as typeof provider;
+      const { PROVIDERS } = await import('./llm/registry');
+      provider = PROVIDERS.Anthropic as unknown as typeof provider;
       modelId = MODEL_API_IDS['Claude Haiku 4.5'];
     } else {
-      const { openaiProvider } = await import('./llm/providers/openai');
-      provider = openaiProvider as unknown as typeof provider;
+      const { PROVIDERS } = await import('./llm/registry');
+      provider = PROVIDERS.OpenAI as unknown as typeof provider;
       modelId = MODEL_API_IDS['o4-mini'] || 'o4-mini';
     }
 
@@ -366,7 +326,7 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
     // Find tasks that have been pending/running too long
     const { data: stuckTasks } = await sb
       .from('task_executions')
-      .select('id, mission_id, skill_id, command_name, params, model, status, agent_id, created_at, context')
+      .select('id, mission_id, skill_id, command_name, params, model, status, agent_id, created_at, released_at, admitted_at, context')
       .in('status', ['pending', 'running'])
       .lt('created_at', cutoff);
 
@@ -379,10 +339,11 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
 
     for (const task of stuckTasks) {
       if (task.agent_id && !agentIds.has(task.agent_id)) {
-        // Agent no longer exists — reassign to CEO and reset to pending for re-dispatch
+        // Agent no longer exists — reassign to CEO and put it back in the work queue
         await sb.from('task_executions').update({
           agent_id: 'ceo',
-          status: 'pending',
+          status: 'queued',
+          admitted_at: null,
           created_at: new Date().toISOString(), // reset the clock
         }).eq('id', task.id);
 
@@ -391,11 +352,7 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
 
         logAudit('CEO', 'TASK_REASSIGNED', `Task ${task.id} reassigned from fired agent "${task.agent_id}" to CEO`, 'info');
 
-        // Re-dispatch via autoDispatchMission
-        import('./taskDispatcher').then(({ autoDispatchMission }) => {
-          autoDispatchMission(task.mission_id)
-            .catch(err => console.warn('[checkStuckTasks] Re-dispatch after reassign failed:', err));
-        });
+        drainTaskQueue().catch(err => console.warn('[checkStuckTasks] Re-dispatch after reassign failed:', err));
 
         actions.push({
           id: makeActionId(),
@@ -408,13 +365,20 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
     }
 
     // Re-query to get only tasks that are still stuck (not the ones we just reassigned)
-    const { data: remainingStuck } = await sb
+    // The clock starts when the work queue admitted the task (released_at for older graph dependents).
+    // Leased tasks are left to their heartbeat — recoverTaskLeases() handles the ones that stop.
+    const { data: stuckRows } = await sb
       .from('task_executions')
-      .select('id, mission_id, skill_id, status, created_at')
+      .select('id, mission_id, skill_id, status, created_at, released_at, admitted_at, lease_owner')
       .in('status', ['pending', 'running'])
       .lt('created_at', cutoff);
+    const remainingStuck = (stuckRows ?? []).filter(t => {
+      if (t.status === 'running' && t.lease_owner) return false;
+      const startedClock = t.admitted_at ?? t.released_at;
+      return !startedClock || startedClock < cutoff;
+    });
 
-    if (!remainingStuck || remainingStuck.length === 0) return actions;
+    if (remainingStuck.length === 0) return actions;
 
     // Group by mission
     const byMission = new Map<string, typeof remainingStuck>();
@@ -433,6 +397,7 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
           completed_at: new Date().toISOString(),
         }).eq('id', task.id);
         logAudit('CEO', 'TASK_AUTO_FAILED', `Task ${task.id} stuck in "${task.status}" >5min, auto-failed`, 'warning');
+        emitWebhookEvent('skill.failed', { task_id: task.id, mission_id: missionId, skill_id: task.skill_id, error: `Stuck in ${task.status} for over 5 minutes` });
       }
 
       // Check if all siblings are now terminal → move mission to review
@@ -444,6 +409,7 @@ async function checkStuckTasks(): Promise<CEOAction[]> {
       const allTerminal = siblings?.every(t => t.status === 'completed' || t.status === 'failed');
       if (allTerminal) {
         await sb.from('missions').update({ status: 'review' }).eq('id', missionId);
+        notifyMissionStatus(missionId, 'review').catch(() => {});
 
         // Get mission title for the message
         const { data: mission } = await sb.from('missions').select('title').eq('id', missionId).single();
@@ -546,6 +512,7 @@ async function checkBudget(): Promise<{ paused: boolean; hardStop: boolean; acti
       if (!alreadyPaused) {
         const pct = Math.round((spend.total / budget) * 100);
         logAudit('CEO', 'BUDGET_THRESHOLD', `Budget ${pct}% reached ($${spend.total.toFixed(2)} / $${budget.toFixed(2)})`, 'warning');
+        emitWebhookEvent('budget.threshold', { percent: pct, spend: spend.total, budget, hard_cap: hardCap, hard_stop: overHardCap });
 
         // First time hitting budget — pause + alert
         await getSupabase()
@@ -719,6 +686,7 @@ export async function spawnRecurringChild(
   // Auto-stop: if max_runs is set and we've reached the limit, complete the template
   if (templateMission.max_runs != null && newRunCount >= templateMission.max_runs) {
     await sb.from('missions').update({ status: 'done' }).eq('id', templateMission.id);
+    notifyMissionStatus(templateMission.id, 'done').catch(() => {});
     logAudit('CEO', 'RECURRING_COMPLETED', `Recurring mission "${templateMission.title}" completed all ${templateMission.max_runs} runs`, 'info');
 
     if (convos?.[0]) {
@@ -739,8 +707,19 @@ export async function spawnRecurringChild(
     }
   }
 
-  // Dispatch task execution if we have a saved task_template, otherwise auto-dispatch
-  if (!budgetPaused && templateMission.task_template) {
+  // Dispatch: mission template (pinned version or latest) → saved task_template → auto-dispatch
+  if (!budgetPaused && templateMission.template_id) {
+    import('./missionTemplates').then(({ instantiateTemplate }) =>
+      instantiateTemplate(templateMission.template_id!, templateMission.template_params ?? {}, {
+        version: templateMission.template_version,
+        missionId: newId,
+      }),
+    ).catch(err => {
+      console.error('[spawnRecurringChild] Template instantiation failed:', err);
+      logAudit('CEO', 'RECURRING_SPAWN_FAILED', `Template run for "${templateMission.title}" failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+      sb.from('missions').update({ status: 'review' }).eq('id', newId).then(() => {});
+    });
+  } else if (!budgetPaused && templateMission.task_template) {
     const tmpl = templateMission.task_template as { skill_id: string; command: string; params: Record<string, unknown>; model: string };
     const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 
@@ -752,18 +731,14 @@ export async function spawnRecurringChild(
       command_name: tmpl.command,
       params: tmpl.params,
       model: tmpl.model,
-      status: 'pending',
+      status: 'queued',
     });
 
     if (typeof window !== 'undefined') {
       window.dispatchEvent(new Event('task-executions-changed'));
     }
 
-    // Fire off execution — dynamic import to avoid circular dependency
-    import('./taskDispatcher').then(({ executeTask }) => {
-      executeTask(taskId, newId, tmpl.skill_id, tmpl.command, tmpl.params, tmpl.model)
-        .catch(err => console.error('[spawnRecurringChild] Task execution failed:', err));
-    });
+    drainTaskQueue().catch(err => console.error('[spawnRecurringChild] Task execution failed:', err));
   } else if (!budgetPaused) {
     // No template — auto-dispatch using skill recommender
     import('./taskDispatcher').then(({ autoDispatchMission }) => {
@@ -790,27 +765,45 @@ async function checkRecurringMissions(budgetPaused: boolean): Promise<CEOAction[
 
     const now = new Date();
 
-    for (const mission of recurring) {
-      const lastRun = mission.last_recurred_at ? new Date(mission.last_recurred_at) : null;
-      if (!isCronDue(mission.recurring, lastRun, now)) continue;
-
-      const mode = (mission as MissionRow).recurring_mode ?? 'auto';
-      const newId = await spawnRecurringChild(mission as MissionRow, budgetPaused);
+    for (const row of recurring) {
+      const mission = row as MissionRow;
+      // Never-run templates anchor at creation so the backlog before they existed isn't replayed
+      const anchor = mission.last_recurred_at ?? mission.created_at;
+      let runs: Date[];
+      try {
+        runs = dueRuns(mission.recurring!, anchor ? new Date(anchor) : null, now, {
+          timezone: mission.recurring_timezone,
+          catchUp: (mission.recurring_catch_up as CatchUpMode | null) ?? 'once',
+        });
+      } catch (err) {
+        console.warn(`[CEODecisionEngine] Invalid cron on "${mission.title}": ${mission.recurring}`, err);
+        continue;
+      }
+      if (runs.length > 1) {
+        logAudit('CEO', 'RECURRING_CATCH_UP', `Recurring mission "${mission.title}" catching up ${runs.length} missed runs`, 'warning');
+      }
 
-      if (!newId) continue;
+      const mode = mission.recurring_mode ?? 'auto';
+      let template = mission;
+      for (let i = 0; i < runs.length; i++) {
+        if (template.max_runs != null && template.run_count >= template.max_runs) break;
+        const newId = await spawnRecurringChild(template, budgetPaused);
+        if (!newId) break;
+        template = { ...template, run_count: (template.run_count ?? 0) + 1 };
 
-      actions.push({
-        id: makeActionId(),
-        action_type: 'assign_mission',
-        payload: {
-          topic: `recurring_${mission.id}`,
-          mission_id: newId,
-          source_mission_id: mission.id,
-          mode,
-          on_hold: budgetPaused,
-        },
-        priority: 4,
-      });
+        actions.push({
+          id: makeActionId(),
+          action_type: 'assign_mission',
+          payload: {
+            topic: `recurring_${mission.id}`,
+            mission_id: newId,
+            source_mission_id: mission.id,
+            mode,
+            on_hold: budgetPaused,
+          },
+          priority: 4,
+        });
+      }
     }
   } catch (err) {
     console.warn('[CEODecisionEngine] Recurring mission check failed:', err);
@@ -897,6 +890,57 @@ async function checkScheduledMissions(): Promise<CEOAction[]> {
 // Skill schedules — run skills on user-defined schedules
 // ---------------------------------------------------------------------------
 
+/** Cron expression a skill schedule runs on — explicit cron wins over the preset */
+function skillScheduleCron(schedule: SkillScheduleRow): string {
+  return schedule.cron?.trim() || frequencyToCron(schedule.frequency, schedule.run_at_time, schedule.run_on_day);
+}
+
+/** Create the system mission + task for one scheduled skill run and start it */
+async function fireSkillSchedule(schedule: SkillScheduleRow, scheduledFor: Date): Promise<CEOAction> {
+  const missionId = `mission-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+  // Create a system mission for this scheduled execution
+  const sb = getSupabase();
+  const dateStr = scheduledFor.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: resolveTimezone(schedule.timezone) });
+
+  await sb.from('missions').insert({
+    id: missionId,
+    title: `[System] ${schedule.skill_id} (${dateStr})`,
+    status: 'in_progress',
+    assignee: 'ceo',
+    priority: 'low',
+    created_by: 'scheduler',
+  });
+
+  // Create task execution with stored params
+  await sb.from('task_executions').insert({
+    id: taskId,
+    mission_id: missionId,
+    agent_id: 'ceo',
+    skill_id: schedule.skill_id,
+    command_name: schedule.command_name,
+    params: schedule.params ?? {},
+    model: 'Claude Haiku 4.5',  // Use cheap model for maintenance tasks
+    status: 'queued',
+  });
+
+  drainTaskQueue().catch(err => console.error('[checkSkillSchedules] Execution failed:', err));
+
+  logAudit('CEO', 'SKILL_SCHEDULE_FIRE', `Scheduled ${schedule.skill_id}/${schedule.command_name} (${schedule.cron || schedule.frequency}) executed for ${scheduledFor.toISOString()}`, 'info');
+
+  return {
+    id: makeActionId(),
+    action_type: 'send_message',
+    payload: {
+      topic: `skill_schedule_${schedule.id}`,
+      message: `Scheduled skill ${schedule.skill_id} executed (${schedule.cron || schedule.frequency})`,
+      mission_id: missionId,
+    },
+    priority: 7,
+  };
+}
+
 async function checkSkillSchedules(): Promise<CEOAction[]> {
   const actions: CEOAction[] = [];
 
@@ -915,66 +959,38 @@ async function checkSkillSchedules(): Promise<CEOAction[]> {
       }
 
       const now = new Date();
-      const missionId = `mission-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-      const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+      const cron = skillScheduleCron(schedule);
+      // next_run_at is the first pending slot; anything since then is due
+      const lastRun = new Date(new Date(schedule.next_run_at!).getTime() - 1);
 
-      // Create a system mission for this scheduled execution
-      const sb = getSupabase();
-      const dateStr = now.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-
-      await sb.from('missions').insert({
-        id: missionId,
-        title: `[System] ${schedule.skill_id} (${dateStr})`,
-        status: 'in_progress',
-        assignee: 'ceo',
-        priority: 'low',
-        created_by: 'scheduler',
-      });
+      let runs: Date[];
+      let next: Date | null;
+      try {
+        runs = dueRuns(cron, lastRun, now, { timezone: schedule.timezone, catchUp: schedule.catch_up ?? 'once' });
+        next = nextRun(cron, now, schedule.timezone);
+      } catch (err) {
+        console.warn(`[checkSkillSchedules] Invalid cron "${cron}" on ${schedule.id}:`, err);
+        continue;
+      }
 
-      // Create task execution with stored params
-      await sb.from('task_executions').insert({
-        id: taskId,
-        mission_id: missionId,
-        agent_id: 'ceo',
-        skill_id: schedule.skill_id,
-        command_name: schedule.command_name,
-        params: schedule.params ?? {},
-        model: 'Claude Haiku 4.5',  // Use cheap model for maintenance tasks
-        status: 'pending',
-      });
+      if (runs.length === 0) {
+        logAudit('CEO', 'SKILL_SCHEDULE_SKIPPED', `Missed run of ${schedule.skill_id}/${schedule.command_name} not replayed (catch-up: ${schedule.catch_up ?? 'once'})`, 'info');
+      }
+      for (const scheduledFor of runs) {
+        actions.push(await fireSkillSchedule(schedule, scheduledFor));
+      }
 
       // Update schedule timestamps
-      const nextRun = computeNextRun(
-        schedule.frequency as 'hourly' | 'every_4h' | 'daily' | 'weekly' | 'monthly',
-        schedule.run_at_time,
-        schedule.run_on_day,
-        now,
+      await updateSkillScheduleRun(
+        schedule.id,
+        runs.length > 0 ? now.toISOString() : (schedule.last_run_at ?? now.toISOString()),
+        (next ?? new Date(now.getTime() + TWENTY_FOUR_HOURS_MS)).toISOString(),
       );
-      await updateSkillScheduleRun(schedule.id, now.toISOString(), nextRun.toISOString());
-
-      // Fire off execution — dynamic import to avoid circular dependency
-      import('./taskDispatcher').then(({ executeTask }) => {
-        executeTask(taskId, missionId, schedule.skill_id, schedule.command_name, schedule.params ?? {}, 'Claude Haiku 4.5')
-          .catch(err => console.error('[checkSkillSchedules] Execution failed:', err));
-      }).catch(err => console.error('[checkSkillSchedules] Import failed:', err));
-
-      logAudit('CEO', 'SKILL_SCHEDULE_FIRE', `Scheduled ${schedule.skill_id}/${schedule.command_name} (${schedule.frequency}) executed`, 'info');
 
       if (typeof window !== 'undefined') {
         window.dispatchEvent(new Event('missions-changed'));
         window.dispatchEvent(new Event('task-executions-changed'));
       }
-
-      actions.push({
-        id: makeActionId(),
-        action_type: 'send_message',
-        payload: {
-          topic: `skill_schedule_${schedule.id}`,
-          message: `Scheduled skill ${schedule.skill_id} executed (${schedule.frequency})`,
-          mission_id: missionId,
-        },
-        priority: 7,
-      });
     }
   } catch (err) {
     console.warn('[CEODecisionEngine] Skill schedule check failed:', err);
@@ -1201,12 +1217,13 @@ export function activateForumBurst() {
   // Resetting to 0 causes immediate re-check on next tick, bypassing intervals.
 }
 
-function parseCronToMs(cron: string): number {
-  // Simple cron-to-interval: 0 */N * * * → every N hours
-  const match = cron.match(/^\d+\s+\*\/(\d+)\s+\*\s+\*\s+\*$/);
-  if (match) return parseInt(match[1], 10) * 60 * 60 * 1000;
-  // 0 0 * * * → daily
-  if (/^\d+\s+\d+\s+\*\s+\*\s+\*$/.test(cron)) return 24 * 60 * 60 * 1000;
+function forumCronIntervalMs(cron: string): number {
+  try {
+    const interval = cronIntervalMs(cron);
+    if (interval) return interval;
+  } catch {
+    // Invalid cron in the skill option — fall through to the recommended interval
+  }
   return cachedForumConfig?.recommended_check_interval_ms ?? DEFAULT_FORUM_CHECK_INTERVAL_MS;
 }
 
@@ -1268,13 +1285,13 @@ async function checkForumActivity(): Promise<CEOAction[]> {
       if (idx >= BURST_INTERVALS_MS.length) {
         // Burst exhausted, revert to normal
         forumBurstState.active = false;
-        intervalMs = forumFreq ? parseCronToMs(forumFreq) : defaultInterval;
+        intervalMs = forumFreq ? forumCronIntervalMs(forumFreq) : defaultInterval;
       } else {
         intervalMs = BURST_INTERVALS_MS[idx];
       }
     } else {
       // Normal cron-based interval — skill option overrides marketplace recommendation
-      intervalMs = forumFreq ? parseCronToMs(forumFreq) : defaultInterval;
+      intervalMs = forumFreq ? forumCronIntervalMs(forumFreq) : defaultInterval;
     }
 
     if (now - lastForumCheckTime < intervalMs) {
@@ -1612,8 +1629,8 @@ async function checkForumActivity(): Promise<CEOAction[]> {
       // Draft replies using LLM directly (no skill execution, just content generation)
       // Try Anthropic first, then fall back to OpenAI
       const { getVaultEntryByService } = await import('./database');
-      const anthropicEntry = await getVaultEntryByService('Anthropic');
-      const openaiEntry = !anthropicEntry ? await getVaultEntryByService('OpenAI') : null;
+      const anthropicEntry = await getVaultEntryByService('Anthropic', { context: 'forum' });
+      const openaiEntry = !anthropicEntry ? await getVaultEntryByService('OpenAI', { context: 'forum' }) : null;
       const vaultEntry = anthropicEntry || openaiEntry;
       const forumLlmService = anthropicEntry ? 'anthropic' : 'openai';
       if (!vaultEntry) {
@@ -1799,12 +1816,12 @@ Example:
         let provider: { stream: (msgs: unknown[], key: string, model: string, cb: unknown) => unknown };
         let modelId: string;
         if (forumLlmService === 'anthropic') {
-          const { anthropicProvider } = await import('./llm/providers/anthropic');
-          provider = anthropicProvider as unknown as typeof provider;
+          const { PROVIDERS } = await import('./llm/registry');
+          provider = PROVIDERS.Anthropic as unknown as typeof provider;
           modelId = MODEL_API_IDS['Claude Haiku 4.5'];
         } else {
-          const { openaiProvider } = await import('./llm/providers/openai');
-          provider = openaiProvider as unknown as typeof provider;
+          const { PROVIDERS } = await import('./llm/registry');
+          provider = PROVIDERS.OpenAI as unknown as typeof provider;
           modelId = MODEL_API_IDS['o4-mini'] || 'o4-mini';
         }
         console.log(`[checkForumActivity] Using ${forumLlmService} (${modelId}) for forum engagement`);
@@ -2341,7 +2358,7 @@ async function checkVaultSigningKey(): Promise<CEOAction[]> {
 
   try {
     // Check if there's a key in vault
-    const entry = await getVaultEntryByService('marketplace-signing');
+    const entry = await findVaultEntry('marketplace-signing');
     if (entry) return []; // Key present — all good
 
     // Check if marketplace is even registered
@@ -2375,6 +2392,11 @@ export async function evaluateCycle(): Promise<CycleResult> {
     return { timestamp: new Date().toISOString(), actions: [], checks: {} };
   }
 
+  // An encrypted Vault that isn't unlocked here has no keys: work that needs them
+  // (starting tasks, LLM-driven checks, OAuth refresh) waits for an unlock, the
+  // rest of the cycle — leases, budgets, deadlines, schedules, approvals — runs
+  const vaultLocked = await isVaultLocked();
+
   // 1. Load current org state
   const [agents, missions, skills, approvals, ceo] = await Promise.all([
     loadAgents(),
@@ -2392,10 +2414,34 @@ export async function evaluateCycle(): Promise<CycleResult> {
     }
   }
 
+  // Epics follow their sub-missions (bookkeeping only — runs under any budget state)
+  await syncEpicStatuses().catch(err => console.warn('[CEODecisionEngine] Epic status sync failed:', err));
+
   // 2. Budget gate — soft cap pauses task dispatch, hard cap (110%) stops everything
   const budgetResult = await checkBudget();
   const allActions: CEOAction[] = [...budgetResult.actions];
 
+  // Agent / skill / context sub-budgets projected (or already) over their allocation
+  await alertAllocationOverruns().catch(err => console.warn('[CEODecisionEngine] Allocation forecast failed:', err));
+
+  // Tasks whose executor stopped heartbeating go back to the queue (or fail, out of attempts)
+  await recoverTaskLeases().catch(err => console.warn('[CEODecisionEngine] Lease recovery failed:', err));
+
+  // Missions over their own spend cap stop before any more of their queued work starts
+  await enforceMissionBudgets().catch(err => console.warn('[CEODecisionEngine] Mission budget sweep failed:', err));
+
+  // Slipping missions climb the SLA ladder (priority, reassignment, Founder) before the queue is ordered;
+  // extensions the Founder approved from a chat channel land here too
+  await applyDeadlineExtensions().catch(err => console.warn('[CEODecisionEngine] Deadline extension failed:', err));
+  await escalateDeadlines().catch(err => console.warn('[CEODecisionEngine] Deadline escalation failed:', err));
+
+  // Checkpoint reviews decided from a chat channel release (or fail) the dependents they held
+  await applyCheckpointDecisions().catch(err => console.warn('[CEODecisionEngine] Checkpoint sweep failed:', err));
+
+  // Start queued work that fits under the concurrency caps — already-dispatched tasks
+  // (and pre-approved schedules) keep flowing under a soft pause; the hard stop holds the queue
+  await drainTaskQueue().catch(err => console.warn('[CEODecisionEngine] Queue drain failed:', err));
+
   if (budgetResult.hardStop) {
     // Hard stop (110%+) — only monitoring, no dispatch, no recurring
     const stuckActions = await checkStuckTasks();
@@ -2418,12 +2464,19 @@ export async function evaluateCycle(): Promise<CycleResult> {
   } else {
     // Normal full evaluation
     const stuckActions = await checkStuckTasks();
+
+    // Start task-graph dependents whose inputs finished outside this process (edge function, sidecar, another tab)
+    await advanceTaskGraphs().catch(err => console.warn('[CEODecisionEngine] Task graph sweep failed:', err));
+
+    // Missions held for a pre-flight budget approval that the Founder gave from a chat channel
+    await releaseBudgetHolds().catch(err => console.warn('[CEODecisionEngine] Budget hold release failed:', err));
+
     allActions.push(
       ...stuckActions,
       ...checkUnassignedMissions(missions, agents, activeMissionAssignees),
       ...checkIdleAgents(agents, activeMissionAssignees),
       ...checkStaleApprovals(approvals),
-      ...(await checkSmartHire(agents, missions, skills)),
+      ...(vaultLocked ? [] : await checkSmartHire(agents, missions, skills)),
       ...checkSkillsGap(missions, skills),
     );
 
@@ -2443,15 +2496,20 @@ export async function evaluateCycle(): Promise<CycleResult> {
     const skillScheduleActions = await checkSkillSchedules();
     allActions.push(...skillScheduleActions);
 
-    // Forum activity — check for new posts to engage with
-    const forumActions = await checkForumActivity();
-    allActions.push(...forumActions);
+    // Forum activity — check for new posts to engage with (runs its replies as tasks, so needs keys)
+    if (!vaultLocked) {
+      const forumActions = await checkForumActivity();
+      allActions.push(...forumActions);
+    }
   }
 
   // 2b. Vault signing key check — runs regardless of budget state
   const vaultKeyActions = await checkVaultSigningKey();
   allActions.push(...vaultKeyActions);
 
+  // 2c. OAuth tokens about to lapse are refreshed; expiring or rotation-due keys go to the Founder
+  await checkSecretRotation().catch(err => console.warn('[CEODecisionEngine] Secret rotation check failed:', err));
+
   // 3. Insert produced actions into ceo_action_queue (deduplicated)
   if (allActions.length > 0) {
     try {
@@ -2514,7 +2572,7 @@ export async function evaluateCycle(): Promise<CycleResult> {
 
   // 4b. Daily memory consolidation (once per day, first tick of new day)
   const todayStr = new Date().toISOString().slice(0, 10);
-  if (todayStr !== lastConsolidationDate) {
+  if (todayStr !== lastConsolidationDate && !vaultLocked) {
     lastConsolidationDate = todayStr;
     consolidateDailyMemories().catch(err =>
       console.warn('[CEODecisionEngine] Memory consolidation failed:', err),
@@ -2544,7 +2602,7 @@ export async function evaluateCycle(): Promise<CycleResult> {
 
   // 4f. Telegram approval polling (checks for callback_query responses)
   try {
-    const { checkTelegramCallbacks } = await import('./telegramApprovals');
+    const { checkTelegramCallbacks } = await import('./channels/telegram');
     const telegramResult = await checkTelegramCallbacks();
     if (telegramResult.resolved > 0) {
       allActions.push({
@@ -2561,6 +2619,14 @@ export async function evaluateCycle(): Promise<CycleResult> {
     console.warn('[CEODecisionEngine] Telegram polling failed:', err);
   }
 
+  // 4g. Email digests (daily/weekly per channel schedule — queued for the sidecar's SMTP sender)
+  try {
+    const { checkEmailDigests } = await import('./emailDigest');
+    await checkEmailDigests();
+  } catch (err) {
+    console.warn('[CEODecisionEngine] Email digest check failed:', err);
+  }
+
   // 5. Marketplace heartbeat (fire-and-forget, keeps instance "online")
   try {
     const { sendHeartbeat } = await import('./marketplaceClient');
@@ -2579,6 +2645,7 @@ export async function evaluateCycle(): Promise<CycleResult> {
       pendingApprovals: approvals.filter((a) => a.status === 'pending').length,
       ceoStatus: ceo?.status ?? 'not_initialized',
       actionsProduced: allActions.length,
+      ...(vaultLocked ? { vault_locked: true } : {}),
     },
   };
 
@@ -1,5 +1,5 @@
 import { loadCEO, getVaultEntryByService, getPrompt } from './database';
-import { MODEL_SERVICE_MAP, MODEL_API_IDS, MODEL_COSTS } from './models';
+import { MODEL_SERVICE_MAP, MODEL_API_IDS, MODEL_COSTS, LOCAL_SERVICE } from './models';
 import { logUsage } from './llmUsage';
 
 const MAX_EVAL_CHARS = 48_000; // ~12K tokens — fits any 128K+ model with room for system prompt
@@ -37,22 +37,17 @@ export async function evaluateMission(
     if (!ceo?.model) return null;
 
     const service = MODEL_SERVICE_MAP[ceo.model] ?? '';
-    const vaultEntry = service ? await getVaultEntryByService(service) : null;
+    const vaultEntry = service ? await getVaultEntryByService(service, { context: 'mission_review' }) : null;
     if (!service || !vaultEntry) return null;
 
-    // Dynamic provider imports — same pattern as synthesizeMissionSummary
-    const { anthropicProvider } = await import('./llm/providers/anthropic');
-    const { openaiProvider, deepseekProvider, xaiProvider } = await import('./llm/providers/openai');
-    const { googleProvider } = await import('./llm/providers/google');
-    const providers: Record<string, typeof anthropicProvider> = {
-      Anthropic: anthropicProvider, OpenAI: openaiProvider, Google: googleProvider,
-      DeepSeek: deepseekProvider, xAI: xaiProvider,
-    };
-    const provider = providers[service];
+    // Dynamic registry import — same pattern as synthesizeMissionSummary
+    const { getProvider } = await import('./llm/registry');
+    const provider = getProvider(service);
     if (!provider) return null;
 
-    // Use cheapest model for the same service — evaluation doesn't need the CEO's main model
-    const evalModel = cheapestModelForService(service) ?? ceo.model;
+    // Use cheapest model for the same service — evaluation doesn't need the CEO's main model.
+    // Local models are all free, so "cheapest" is meaningless there; stick with the CEO's model.
+    const evalModel = service === LOCAL_SERVICE ? ceo.model : (cheapestModelForService(service) ?? ceo.model);
     const apiModelId = MODEL_API_IDS[evalModel] ?? evalModel;
 
     const hardcodedEvalPrompt = `You are a CEO evaluating mission results. Score the work on four dimensions (0-100 each):
@@ -97,9 +92,11 @@ Score this mission.`;
       { role: 'user' as const, content: userPrompt },
     ];
 
+    let served = { service, model: evalModel };
     const rawResponse = await new Promise<string>((resolve, reject) => {
       provider.stream(messages, vaultEntry.key_value, apiModelId, {
         onToken: () => {},
+        onFailover: (e) => { served = { service: e.toService, model: e.toModel }; },
         onDone: (fullText: string) => resolve(fullText),
         onError: (err: Error) => reject(err),
       });
@@ -109,8 +106,8 @@ Score this mission.`;
     const inputTokens = Math.ceil((systemPrompt.length + userPrompt.length) / 4);
     const outputTokens = Math.ceil(rawResponse.length / 4);
     logUsage({
-      provider: service,
-      model: evalModel,
+      provider: served.service,
+      model: served.model,
       inputTokens,
       outputTokens,
       context: 'skill_execution',
@@ -189,7 +186,8 @@ function validateScore(obj: Record<string, unknown>): MissionScore | null {
   return { quality, completeness, efficiency, overall, grade, review, recommendation };
 }
 
-function gradeFromScore(score: number): string {
+/** Letter grade for a 0-100 score (same bands the evaluator prompt uses) */
+export function gradeFromScore(score: number): string {
   if (score >= 95) return 'A+';
   if (score >= 90) return 'A';
   if (score >= 85) return 'B+';
@@ -1,5 +1,6 @@
 import { loadAgents, getSetting, getPendingApprovalCount, loadSkills, loadMissions } from './database';
 import { countSkills } from './skillsCache';
+import { searchMemories, type MemoryRow } from './memory';
 
 interface CEOContext {
   mission: string | null;
@@ -10,13 +11,19 @@ interface CEOContext {
   missionCount: number;
   ceoName: string;
   orgName: string;
+  /** Org memories ranked against the founder's message (hybrid vector + keyword + importance) */
+  relevantMemories: MemoryRow[];
 }
 
-async function gatherContext(): Promise<CEOContext> {
+/** Minimum hybrid score for a memory to be quoted back to the founder */
+const MEMORY_RELEVANCE_THRESHOLD = 0.35;
+
+async function gatherContext(userText: string): Promise<CEOContext> {
   const enabledSkills = (await loadSkills()).filter(s => s.enabled);
   const skillCounts = countSkills();
   const missions = await loadMissions();
   const agents = await loadAgents();
+  const ranked = await searchMemories(userText, 5).catch(() => []);
   return {
     mission: await getSetting('primary_mission'),
     agentCount: agents.length,
@@ -26,10 +33,18 @@ async function gatherContext(): Promise<CEOContext> {
     missionCount: missions.length,
     ceoName: (await getSetting('ceo_name')) ?? 'CEO',
     orgName: (await getSetting('org_name')) ?? 'the organization',
+    relevantMemories: ranked.filter(r => r.score >= MEMORY_RELEVANCE_THRESHOLD).map(r => r.memory),
   };
 }
 
 const PATTERNS: [RegExp, (ctx: CEOContext) => string][] = [
+  // Memory recall (checked first — "what do you know" would otherwise hit Help)
+  [/remember|recall|what do (you|we) know|did (i|we) (say|decide)/i, ctx =>
+    ctx.relevantMemories.length > 0
+      ? `Here's what I have on file:\n${ctx.relevantMemories.slice(0, 3).map(m => `- ${m.content}`).join('\n')}`
+      : `Nothing in our org memory on that yet. Tell me and I'll keep it in mind.`
+  ],
+
   // Mission / goals
   [/mission|goal|objective|vision|purpose/i, ctx =>
     ctx.mission
@@ -121,7 +136,7 @@ let fallbackIndex = 0;
  * No LLM required — pure pattern matching with context from DB.
  */
 export async function getCEOResponse(userText: string): Promise<string> {
-  const ctx = await gatherContext();
+  const ctx = await gatherContext(userText);
 
   for (const [pattern, responder] of PATTERNS) {
     if (pattern.test(userText)) {
@@ -129,6 +144,11 @@ export async function getCEOResponse(userText: string): Promise<string> {
     }
   }
 
+  // No pattern matched — surface the closest memory before falling back
+  if (ctx.relevantMemories.length > 0) {
+    return `That reminds me — we have this on file: "${ctx.relevantMemories[0].content}" Want me to act on it?`;
+  }
+
   // Cycle through fallbacks
   const response = FALLBACKS[fallbackIndex % FALLBACKS.length];
   fallbackIndex++;
@@ -0,0 +1,160 @@
+/**
+ * Channel helpers shared by the Slack / Discord / Telegram adapters
+ * ==================================================================
+ * Payload shapes, message text, the timed HTTP call every adapter uses, and
+ * the one place a button click turns into an approval decision.
+ */
+
+import { getSupabase } from '../supabase';
+import { updateApprovalStatus, logAudit, type ChannelRow } from '../database';
+import { httpDeliveryResult } from '../webhooks';
+import type { ChannelDeliveryResult } from './types';
+
+// ---------------------------------------------------------------------------
+// Payloads (the `data` of a queued delivery)
+// ---------------------------------------------------------------------------
+
+export interface ApprovalSummary {
+  id: string;
+  type: string;
+  title: string;
+  description?: string | null;
+  /** Content under review (a task checkpoint's output), from approval.metadata.excerpt */
+  excerpt?: string | null;
+}
+
+export interface ApprovalResolvedData {
+  approval: ApprovalSummary;
+  status: string;
+  /** Who/where decided, e.g. "Dashboard", "API", "Slack (@jane)" */
+  via: string;
+  /** Per-channel message refs from approval.metadata.channel_refs */
+  refs: Record<string, Record<string, unknown>>;
+}
+
+export interface MissionSummaryData {
+  mission: { id: string; title: string };
+  summary: string;
+}
+
+export type ApprovalAction = 'approve' | 'dismiss';
+
+export const APPROVAL_ACTION_STATUS: Record<ApprovalAction, string> = {
+  approve: 'approved',
+  dismiss: 'dismissed',
+};
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+/** Drop <tool_call> blocks — they're executed server-side, not meant for humans */
+export function stripToolCalls(text: string): string {
+  return text
+    .replace(/<tool_call>[\s\S]*?<\/tool_call>/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + '\n\n[truncated — see full results in dashboard]' : text;
+}
+
+/** Room left for an excerpt inside one chat message (Slack sections stop at 3000 chars) */
+const MAX_EXCERPT = 1500;
+
+export function approvalLines(approval: ApprovalSummary): string[] {
+  return [
+    `Type: ${approval.type.replace(/_/g, ' ').toUpperCase()}`,
+    `Title: ${approval.title}`,
+    approval.description ? `Details: ${approval.description}` : '',
+    approval.excerpt ? `\n${truncate(approval.excerpt, MAX_EXCERPT)}\n` : '',
+    `ID: ${approval.id}`,
+  ].filter(Boolean);
+}
+
+export function resolutionText(data: ApprovalResolvedData): string {
+  return `${data.status.toUpperCase()} via ${data.via} — ${data.approval.title}`;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** fetch with a timeout, classified for the delivery queue's retry policy */
+export async function channelRequest(
+  url: string, init: RequestInit,
+): Promise<{ result: ChannelDeliveryResult; json: Record<string, unknown> | null }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) return { result: await httpDeliveryResult(res), json: null };
+    const json = await res.json().catch(() => null) as Record<string, unknown> | null;
+    return { result: { ok: true, status: res.status, error: null, retryable: false }, json };
+  } catch (err) {
+    const message = controller.signal.aborted ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : (err instanceof Error ? err.message : String(err));
+    return { result: { ok: false, status: null, error: message, retryable: true }, json: null };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  return channelRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+export function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  const clean = hex.trim();
+  if (!/^([0-9a-f]{2})*$/i.test(clean)) return new Uint8Array(0);
+  return new Uint8Array((clean.match(/../g) ?? []).map(b => parseInt(b, 16)));
+}
+
+// ---------------------------------------------------------------------------
+// Inbound decisions
+// ---------------------------------------------------------------------------
+
+export interface ChannelDecision {
+  ok: boolean;
+  /** Final approval status (the existing one when already resolved) */
+  status: string | null;
+  title: string;
+  message: string;
+}
+
+/**
+ * Resolve an approval from a chat button. Refuses anything no longer pending
+ * so a stale button in an old message can't overturn a dashboard decision.
+ */
+export async function resolveApprovalFromChannel(
+  channel: ChannelRow, approvalId: string, action: ApprovalAction, actor?: string,
+): Promise<ChannelDecision> {
+  const { data: existing } = await getSupabase()
+    .from('approvals')
+    .select('status, title')
+    .eq('id', approvalId)
+    .maybeSingle();
+
+  if (!existing) return { ok: false, status: null, title: approvalId, message: 'Approval not found' };
+  const title = (existing.title as string) ?? approvalId;
+  if (existing.status !== 'pending') {
+    return { ok: false, status: existing.status as string, title, message: `Already ${existing.status}` };
+  }
+
+  const label = channel.type.charAt(0).toUpperCase() + channel.type.slice(1);
+  const via = actor ? `${label} (@${actor})` : label;
+  const status = APPROVAL_ACTION_STATUS[action];
+  await updateApprovalStatus(approvalId, status, { via, channelId: channel.id });
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('approvals-changed'));
+  }
+  await logAudit('Founder', `${channel.type.toUpperCase()}_APPROVAL`, `${status} via ${via}: ${approvalId}`, 'info');
+  return { ok: true, status, title, message: status === 'approved' ? 'Approved!' : 'Dismissed' };
+}
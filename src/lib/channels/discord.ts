@@ -0,0 +1,144 @@
+/**
+ * Discord channel — bot messages with buttons
+ * ============================================
+ * Config: { bot_token, channel_id, public_key }. The bot posts to one text
+ * channel via the REST API; approval requests carry APPROVE / DISMISS button
+ * components. Set the application's Interactions Endpoint URL to the
+ * sidecar's /api/channels/:id/interactions — Discord signs every request with
+ * Ed25519 (X-Signature-Ed25519 over timestamp + body) and expects PINGs to be
+ * answered, which is how it validates the URL when you save it.
+ *
+ * The message ID is kept on the approval, so a decision made anywhere else
+ * edits the original message and removes its buttons.
+ */
+
+import type { ChannelRow } from '../database';
+import type { ChannelAdapter, ChannelEvent, ChannelDeliveryResult, InteractionRequest, InteractionResponse } from './types';
+import {
+  approvalLines, resolutionText, stripToolCalls, truncate, channelRequest, hexToBytes, resolveApprovalFromChannel,
+  type ApprovalSummary, type ApprovalResolvedData, type MissionSummaryData, type ApprovalAction,
+} from './common';
+
+const DISCORD_API = 'https://discord.com/api/v10';
+/** Message content caps at 2000 chars */
+const MAX_TEXT = 1900;
+
+// Discord enums used below
+const INTERACTION_PING = 1;
+const INTERACTION_COMPONENT = 3;
+const RESPONSE_PONG = 1;
+const RESPONSE_MESSAGE = 4;
+const RESPONSE_UPDATE_MESSAGE = 7;
+const FLAG_EPHEMERAL = 64;
+
+function buildMessage(event: ChannelEvent, data: Record<string, unknown>): Record<string, unknown> {
+  switch (event) {
+    case 'approval.created': {
+      const approval = data.approval as ApprovalSummary;
+      return {
+        content: truncate(`**APPROVAL REQUEST**\n${approvalLines(approval).join('\n')}`, MAX_TEXT),
+        components: [{
+          type: 1,
+          components: [
+            { type: 2, style: 3, label: 'APPROVE', custom_id: `approve:${approval.id}` },
+            { type: 2, style: 4, label: 'DISMISS', custom_id: `dismiss:${approval.id}` },
+          ],
+        }],
+      };
+    }
+    case 'approval.resolved':
+      return { content: resolutionText(data as unknown as ApprovalResolvedData), components: [] };
+    case 'chat.message':
+      return { content: `**CEO:** ${truncate(stripToolCalls(String(data.text ?? '')), MAX_TEXT)}` };
+    case 'mission.summary': {
+      const { mission, summary } = data as unknown as MissionSummaryData;
+      return { content: truncate(`**MISSION COMPLETE — ${mission.title}**\n\n${summary}`, MAX_TEXT) };
+    }
+    case 'digest':
+      return { content: truncate(String(data.text ?? ''), MAX_TEXT) };
+    case 'channel.test':
+      return { content: 'Test message from Jarvis Inc — this channel is connected.' };
+  }
+}
+
+async function verifySignature(publicKey: string, req: InteractionRequest): Promise<boolean> {
+  const signature = req.headers['x-signature-ed25519'] ?? '';
+  const timestamp = req.headers['x-signature-timestamp'] ?? '';
+  const keyBytes = hexToBytes(publicKey);
+  if (keyBytes.length !== 32 || !signature || !timestamp) return false;
+  try {
+    const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'Ed25519' }, false, ['verify']);
+    return await crypto.subtle.verify({ name: 'Ed25519' }, key, hexToBytes(signature), new TextEncoder().encode(timestamp + req.body));
+  } catch {
+    return false;
+  }
+}
+
+export const discordAdapter: ChannelAdapter = {
+  type: 'discord',
+  label: 'Discord',
+  defaultTopics: ['approvals', 'chat', 'missions'],
+  configFields: [
+    { key: 'bot_token', label: 'Bot Token', secret: true, help: 'Developer Portal → Bot. Invite the bot with Send Messages permission.' },
+    { key: 'channel_id', label: 'Channel ID', placeholder: '123456789012345678', help: 'Right-click the channel → Copy Channel ID (Developer Mode).' },
+    { key: 'public_key', label: 'Application Public Key', placeholder: 'hex', help: 'Developer Portal → General Information. Needed to accept button clicks.' },
+  ],
+
+  isConfigured(config) {
+    return !!config.bot_token && !!config.channel_id;
+  },
+
+  async deliver(channel, event, data): Promise<ChannelDeliveryResult> {
+    const { bot_token: token, channel_id: channelId } = (channel.config ?? {}) as Record<string, string>;
+    if (!token || !channelId) return { ok: false, status: null, error: 'Discord channel is missing a bot token or channel ID', retryable: false };
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bot ${token}` };
+    const body = JSON.stringify(buildMessage(event, data));
+
+    // Edit the original approval message in place when we know its ID
+    const ref = event === 'approval.resolved' ? (data as unknown as ApprovalResolvedData).refs?.[channel.id] : undefined;
+    if (ref?.message_id) {
+      const { result } = await channelRequest(
+        `${DISCORD_API}/channels/${ref.channel_id ?? channelId}/messages/${ref.message_id}`,
+        { method: 'PATCH', headers, body },
+      );
+      return result;
+    }
+
+    const { result, json } = await channelRequest(`${DISCORD_API}/channels/${channelId}/messages`, { method: 'POST', headers, body });
+    return json?.id ? { ...result, ref: { message_id: json.id, channel_id: channelId } } : result;
+  },
+
+  async handleInteraction(channel: ChannelRow, req: InteractionRequest): Promise<InteractionResponse> {
+    if (!(await verifySignature((channel.config?.public_key as string) ?? '', req))) {
+      return { status: 401, body: { error: 'invalid request signature' } };
+    }
+
+    let interaction: Record<string, unknown>;
+    try {
+      interaction = JSON.parse(req.body);
+    } catch {
+      return { status: 400, body: { error: 'invalid JSON' } };
+    }
+    if (interaction.type === INTERACTION_PING) return { status: 200, body: { type: RESPONSE_PONG } };
+    if (interaction.type !== INTERACTION_COMPONENT) return { status: 400, body: { error: 'unsupported interaction' } };
+
+    const customId = String((interaction.data as Record<string, unknown> | undefined)?.custom_id ?? '');
+    const match = customId.match(/^(approve|dismiss):(.+)$/);
+    if (!match) return { status: 400, body: { error: 'unknown component' } };
+
+    const user = ((interaction.member as Record<string, unknown> | undefined)?.user ?? interaction.user) as Record<string, unknown> | undefined;
+    const actor = user?.username as string | undefined;
+    const decision = await resolveApprovalFromChannel(channel, match[2], match[1] as ApprovalAction, actor);
+
+    if (!decision.ok) {
+      return { status: 200, body: { type: RESPONSE_MESSAGE, data: { content: decision.message, flags: FLAG_EPHEMERAL } } };
+    }
+    return {
+      status: 200,
+      body: {
+        type: RESPONSE_UPDATE_MESSAGE,
+        data: { content: `${decision.status!.toUpperCase()} via Discord${actor ? ` by @${actor}` : ''} — ${decision.title}`, components: [] },
+      },
+    };
+  },
+};
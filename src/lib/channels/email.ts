@@ -0,0 +1,152 @@
+/**
+ * Email channel — SMTP digests
+ * =============================
+ * Config: SMTP server + sender/recipients + a daily or weekly schedule (see
+ * lib/emailDigest, which builds the digest on the CEO tick and queues it).
+ * Speaking SMTP needs raw sockets, so the transport is injected by the
+ * sidecar at startup (sidecar/smtp) — in the browser there is none, which is
+ * fine because only the sidecar drains the delivery queue.
+ */
+
+import { getSupabase } from '../supabase';
+import type { ChannelRow } from '../database';
+import type { ChannelAdapter, ChannelDeliveryResult } from './types';
+
+export type SmtpSecurity = 'tls' | 'starttls' | 'none';
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface EmailChannelConfig {
+  smtp_host: string;
+  smtp_port: number;
+  smtp_security: SmtpSecurity;
+  smtp_user: string;
+  smtp_pass: string;
+  /** "Jarvis <ceo@example.com>" or a bare address */
+  from: string;
+  /** Comma-separated recipients */
+  to: string;
+  frequency: DigestFrequency;
+  /** "HH:MM" in `timezone` */
+  send_time: string;
+  /** 0 (Sun) – 6 (Sat), weekly only */
+  send_day: number;
+  timezone: string;
+  /** When the last digest was queued — the next one covers everything since */
+  last_digest_at: string | null;
+}
+
+export function emailConfig(channel: ChannelRow): EmailChannelConfig {
+  const cfg = (channel.config ?? {}) as Partial<EmailChannelConfig>;
+  return {
+    smtp_host: cfg.smtp_host ?? '',
+    smtp_port: Number(cfg.smtp_port) || 587,
+    smtp_security: cfg.smtp_security ?? 'starttls',
+    smtp_user: cfg.smtp_user ?? '',
+    smtp_pass: cfg.smtp_pass ?? '',
+    from: cfg.from ?? '',
+    to: cfg.to ?? '',
+    frequency: cfg.frequency ?? 'daily',
+    send_time: cfg.send_time ?? '08:00',
+    send_day: cfg.send_day ?? 1,
+    timezone: cfg.timezone ?? '',
+    last_digest_at: cfg.last_digest_at ?? null,
+  };
+}
+
+export function emailRecipients(config: Pick<EmailChannelConfig, 'to'>): string[] {
+  return config.to.split(',').map(r => r.trim()).filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Transport (injected by the sidecar)
+// ---------------------------------------------------------------------------
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  user: string;
+  pass: string;
+  from: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Throws on failure; an error with a numeric `code` (SMTP reply) of 5xx is permanent */
+export type EmailTransport = (settings: SmtpSettings, message: EmailMessage) => Promise<void>;
+
+let transport: EmailTransport | null = null;
+
+export function setEmailTransport(fn: EmailTransport): void {
+  transport = fn;
+}
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+function testMessage(to: string[]): EmailMessage {
+  return {
+    to,
+    subject: 'Jarvis Inc — test email',
+    text: 'Test message from Jarvis Inc — this channel is connected.',
+    html: '<p style="font-family:sans-serif">Test message from <strong>Jarvis Inc</strong> — this channel is connected.</p>',
+  };
+}
+
+export const emailAdapter: ChannelAdapter = {
+  type: 'email',
+  label: 'Email',
+  // Digest-only: approvals / chat / missions are summarized in the digest instead
+  defaultTopics: [],
+  // Configured through EmailChannelModal
+  configFields: [],
+
+  isConfigured(config) {
+    return !!config.smtp_host && !!config.from && !!config.to;
+  },
+
+  async deliver(channel, event, data): Promise<ChannelDeliveryResult> {
+    if (!transport) return { ok: false, status: null, error: 'No SMTP transport — email is sent by the sidecar', retryable: true };
+    if (event !== 'digest' && event !== 'channel.test') {
+      return { ok: false, status: null, error: `Email channels only send digests (got ${event})`, retryable: false };
+    }
+
+    const cfg = emailConfig(channel);
+    const to = emailRecipients(cfg);
+    const message: EmailMessage = event === 'digest'
+      ? { to, subject: String(data.subject), html: String(data.html), text: String(data.text) }
+      : testMessage(to);
+
+    try {
+      await transport(
+        { host: cfg.smtp_host, port: cfg.smtp_port, security: cfg.smtp_security, user: cfg.smtp_user, pass: cfg.smtp_pass, from: cfg.from },
+        message,
+      );
+    } catch (err) {
+      const code = (err as { code?: unknown }).code;
+      const smtpCode = typeof code === 'number' ? code : null;
+      return {
+        ok: false,
+        status: smtpCode,
+        error: err instanceof Error ? err.message : String(err),
+        retryable: smtpCode === null || smtpCode < 500,
+      };
+    }
+
+    // Bill the send against the channel like any other channel usage
+    await getSupabase().from('channel_usage').insert({
+      id: `cu-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      channel_id: channel.id,
+      type: 'email',
+      recipient: to.join(', '),
+      cost: channel.cost_per_unit * to.length,
+    });
+    return { ok: true, status: 250, error: null, retryable: false };
+  },
+};
@@ -0,0 +1,177 @@
+/**
+ * Chat Channel Registry — one fan-out for Slack, Discord and Telegram
+ * ====================================================================
+ * Every notification_channels row whose type has an adapter here can receive
+ * approval requests (with approve/dismiss buttons), approval decisions made
+ * elsewhere, CEO chat replies and mission summaries. Which of those a channel
+ * gets is its `config.topics` (falls back to the adapter's defaults).
+ *
+ * Messages are queued in webhook_deliveries and sent by the sidecar, so they
+ * share the webhook retry policy and the Audit view's delivery history.
+ * Button clicks come back through the sidecar's /api/channels/:id/interactions
+ * (Slack, Discord) or the CEO tick's polling (Telegram) and are resolved by
+ * resolveApprovalFromChannel().
+ *
+ * Email channels subscribe to no topics — they get a scheduled digest instead
+ * (see ../emailDigest).
+ */
+
+import { getSupabase } from '../supabase';
+import type { ChannelRow, ChatMessageRow } from '../database';
+import { enqueueDeliveries, type DeliveryResult, type WebhookDeliveryRow } from '../webhooks';
+import type { ChannelAdapter, ChannelEvent, ChannelTopic } from './types';
+import { stripToolCalls, type ApprovalSummary, type ApprovalResolvedData, type MissionSummaryData } from './common';
+import { telegramAdapter } from './telegram';
+import { slackAdapter } from './slack';
+import { discordAdapter } from './discord';
+import { emailAdapter } from './email';
+
+// ---------------------------------------------------------------------------
+// Adapters & topics
+// ---------------------------------------------------------------------------
+
+export const CHANNEL_ADAPTERS: Record<string, ChannelAdapter> = {
+  telegram: telegramAdapter,
+  slack:    slackAdapter,
+  discord:  discordAdapter,
+  email:    emailAdapter,
+};
+
+export function getChannelAdapter(type: string): ChannelAdapter | null {
+  return CHANNEL_ADAPTERS[type] ?? null;
+}
+
+export const CHANNEL_TOPICS: { id: ChannelTopic; label: string }[] = [
+  { id: 'approvals', label: 'Approval requests & decisions' },
+  { id: 'chat',      label: 'CEO chat replies' },
+  { id: 'missions',  label: 'Mission summaries' },
+];
+
+const EVENT_TOPIC: Record<ChannelEvent, ChannelTopic | null> = {
+  'approval.created':  'approvals',
+  'approval.resolved': 'approvals',
+  'chat.message':      'chat',
+  'mission.summary':   'missions',
+  'digest':            null,
+  'channel.test':      null,
+};
+
+export function channelTopics(channel: ChannelRow): ChannelTopic[] {
+  const topics = channel.config?.topics;
+  if (Array.isArray(topics)) return topics as ChannelTopic[];
+  return getChannelAdapter(channel.type)?.defaultTopics ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Fan-out
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue an event for every enabled, configured chat channel subscribed to it.
+ * `excludeChannelId` skips the channel the event came from (it already
+ * updated its own message). Never throws.
+ */
+export async function emitChannelEvent(
+  event: ChannelEvent, data: Record<string, unknown>, excludeChannelId?: string,
+): Promise<void> {
+  try {
+    const { data: rows } = await getSupabase()
+      .from('notification_channels')
+      .select('*')
+      .in('type', Object.keys(CHANNEL_ADAPTERS))
+      .eq('enabled', true);
+
+    const topic = EVENT_TOPIC[event];
+    const targets: ChannelRow[] = [];
+    for (const channel of (rows ?? []) as ChannelRow[]) {
+      const adapter = getChannelAdapter(channel.type)!;
+      if (channel.id === excludeChannelId || !adapter.isConfigured(channel.config ?? {})) continue;
+      if (topic && !channelTopics(channel).includes(topic)) continue;
+      if (adapter.accepts && !(await adapter.accepts(channel, event))) continue;
+      targets.push(channel);
+    }
+    await enqueueDeliveries(targets, event, data);
+  } catch (err) {
+    console.warn(`[Channels] Failed to queue ${event}:`, err);
+  }
+}
+
+export async function notifyApprovalCreated(approval: ApprovalSummary & { metadata?: Record<string, unknown> | null }): Promise<void> {
+  const excerpt = approval.metadata?.excerpt;
+  await emitChannelEvent('approval.created', {
+    approval: {
+      id: approval.id, type: approval.type, title: approval.title, description: approval.description ?? null,
+      ...(typeof excerpt === 'string' && excerpt ? { excerpt } : {}),
+    },
+  });
+}
+
+/** Tell the channels an approval was decided, editing the original message where the platform allows */
+export async function notifyApprovalResolved(
+  approvalId: string, status: string, source: { via: string; channelId?: string },
+): Promise<void> {
+  const { data: approval } = await getSupabase()
+    .from('approvals')
+    .select('id, type, title, metadata')
+    .eq('id', approvalId)
+    .maybeSingle();
+  if (!approval) return;
+
+  const meta = (approval.metadata ?? {}) as Record<string, unknown>;
+  const data: ApprovalResolvedData = {
+    approval: { id: approval.id, type: approval.type, title: approval.title },
+    status,
+    via: source.via,
+    refs: (meta.channel_refs ?? {}) as ApprovalResolvedData['refs'],
+  };
+  await emitChannelEvent('approval.resolved', data as unknown as Record<string, unknown>, source.channelId);
+}
+
+/** Relay a CEO chat reply from the dashboard (Telegram / API conversations have their own transport) */
+export async function relayChatMessage(msg: Pick<ChatMessageRow, 'conversation_id' | 'text' | 'metadata'>): Promise<void> {
+  const source = (msg.metadata as Record<string, unknown> | null)?.source;
+  if (source === 'telegram' || source === 'api') return;
+  const text = stripToolCalls(msg.text);
+  if (!text) return;
+  await emitChannelEvent('chat.message', { conversation_id: msg.conversation_id, text });
+}
+
+export async function announceMissionSummary(missionId: string, title: string, summary: string): Promise<void> {
+  const data: MissionSummaryData = { mission: { id: missionId, title }, summary };
+  await emitChannelEvent('mission.summary', data as unknown as Record<string, unknown>);
+}
+
+/** Queue a test message for one channel, regardless of its topics */
+export async function sendTestChannelMessage(channel: ChannelRow): Promise<void> {
+  await enqueueDeliveries([channel], 'channel.test', { message: 'Test message from Jarvis Inc' });
+}
+
+// ---------------------------------------------------------------------------
+// Delivery (called by processWebhookDeliveries for non-webhook rows)
+// ---------------------------------------------------------------------------
+
+/** Remember where an approval was posted so its resolution can edit that message */
+async function saveApprovalRef(approvalId: string, channelId: string, ref: Record<string, unknown>): Promise<void> {
+  const sb = getSupabase();
+  const { data } = await sb.from('approvals').select('metadata').eq('id', approvalId).maybeSingle();
+  if (!data) return;
+  const meta = (data.metadata as Record<string, unknown>) ?? {};
+  const refs = (meta.channel_refs as Record<string, unknown>) ?? {};
+  await sb.from('approvals').update({ metadata: { ...meta, channel_refs: { ...refs, [channelId]: ref } } }).eq('id', approvalId);
+}
+
+export async function deliverChannelMessage(channel: ChannelRow, delivery: WebhookDeliveryRow): Promise<DeliveryResult> {
+  const adapter = getChannelAdapter(channel.type);
+  if (!adapter) return { ok: false, status: null, error: `No adapter for channel type "${channel.type}"`, retryable: false };
+
+  const event = delivery.event as ChannelEvent;
+  const data = (delivery.payload.data ?? {}) as Record<string, unknown>;
+  const { ref, ...result } = await adapter.deliver(channel, event, data);
+
+  if (result.ok && ref && event === 'approval.created') {
+    try {
+      await saveApprovalRef((data.approval as ApprovalSummary).id, channel.id, ref);
+    } catch { /* ref is only used to tidy up the message later */ }
+  }
+  return result;
+}
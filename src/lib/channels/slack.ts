@@ -0,0 +1,134 @@
+/**
+ * Slack channel — incoming webhook out, interactive buttons in
+ * =============================================================
+ * Config: { webhook_url, signing_secret }. Messages go to the incoming
+ * webhook URL; approval requests carry APPROVE / DISMISS buttons. With
+ * Interactivity enabled on the Slack app, clicks are POSTed to the sidecar at
+ * /api/channels/:id/interactions, verified against the signing secret
+ * (X-Slack-Signature = "v0=" + HMAC-SHA256(secret, `v0:${ts}:${body}`)) and
+ * answered by replacing the original message through its response_url.
+ *
+ * Incoming webhooks don't return a message ts, so a decision made elsewhere
+ * is posted as a follow-up line rather than edited in place.
+ */
+
+import type { ChannelRow } from '../database';
+import type { ChannelAdapter, ChannelEvent, ChannelDeliveryResult, InteractionRequest, InteractionResponse } from './types';
+import {
+  approvalLines, resolutionText, stripToolCalls, truncate, postJson, hexToBytes, resolveApprovalFromChannel,
+  type ApprovalSummary, type ApprovalResolvedData, type MissionSummaryData, type ApprovalAction,
+} from './common';
+
+/** Slack rejects requests whose timestamp is older than this (replay guard) */
+const MAX_SKEW_SECONDS = 5 * 60;
+/** Section blocks cap at 3000 chars */
+const MAX_TEXT = 2900;
+
+function section(text: string) {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+function buildMessage(event: ChannelEvent, data: Record<string, unknown>): Record<string, unknown> {
+  switch (event) {
+    case 'approval.created': {
+      const approval = data.approval as ApprovalSummary;
+      return {
+        text: `Approval request: ${approval.title}`,
+        blocks: [
+          section(`*APPROVAL REQUEST*\n${approvalLines(approval).join('\n')}`),
+          {
+            type: 'actions',
+            block_id: `approval:${approval.id}`,
+            elements: [
+              { type: 'button', action_id: 'approve', value: approval.id, style: 'primary', text: { type: 'plain_text', text: 'APPROVE' } },
+              { type: 'button', action_id: 'dismiss', value: approval.id, style: 'danger', text: { type: 'plain_text', text: 'DISMISS' } },
+            ],
+          },
+        ],
+      };
+    }
+    case 'approval.resolved':
+      return { text: resolutionText(data as unknown as ApprovalResolvedData) };
+    case 'chat.message':
+      return { text: `*CEO:* ${truncate(stripToolCalls(String(data.text ?? '')), MAX_TEXT)}` };
+    case 'mission.summary': {
+      const { mission, summary } = data as unknown as MissionSummaryData;
+      return {
+        text: `Mission complete: ${mission.title}`,
+        blocks: [section(`*MISSION COMPLETE — ${mission.title}*`), section(truncate(summary, MAX_TEXT))],
+      };
+    }
+    case 'digest':
+      return { text: truncate(String(data.text ?? ''), MAX_TEXT) };
+    case 'channel.test':
+      return { text: 'Test message from Jarvis Inc — this channel is connected.' };
+  }
+}
+
+async function verifySignature(secret: string, req: InteractionRequest): Promise<boolean> {
+  const timestamp = req.headers['x-slack-request-timestamp'] ?? '';
+  const signature = req.headers['x-slack-signature'] ?? '';
+  if (!secret || !/^\d+$/.test(timestamp) || !signature.startsWith('v0=')) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) return false;
+
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  // subtle.verify compares in constant time
+  return crypto.subtle.verify('HMAC', key, hexToBytes(signature.slice(3)), enc.encode(`v0:${timestamp}:${req.body}`));
+}
+
+export const slackAdapter: ChannelAdapter = {
+  type: 'slack',
+  label: 'Slack',
+  defaultTopics: ['approvals', 'chat', 'missions'],
+  configFields: [
+    { key: 'webhook_url', label: 'Incoming Webhook URL', placeholder: 'https://hooks.slack.com/services/T000/B000/XXXX' },
+    {
+      key: 'signing_secret', label: 'Signing Secret', secret: true,
+      help: 'Slack app → Basic Information. Needed to accept button clicks.',
+    },
+  ],
+
+  isConfigured(config) {
+    return typeof config.webhook_url === 'string' && /^https?:\/\//.test(config.webhook_url);
+  },
+
+  async deliver(channel, event, data): Promise<ChannelDeliveryResult> {
+    const url = (channel.config?.webhook_url as string) ?? '';
+    if (!url) return { ok: false, status: null, error: 'Slack channel has no webhook URL', retryable: false };
+    const { result } = await postJson(url, buildMessage(event, data));
+    return result;
+  },
+
+  async handleInteraction(channel: ChannelRow, req: InteractionRequest): Promise<InteractionResponse> {
+    if (!(await verifySignature((channel.config?.signing_secret as string) ?? '', req))) {
+      return { status: 401, body: { error: 'invalid request signature' } };
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(new URLSearchParams(req.body).get('payload') ?? '');
+    } catch {
+      return { status: 400, body: { error: 'missing payload' } };
+    }
+    if (payload.type !== 'block_actions') return { status: 200 };
+
+    const action = (payload.actions as Array<Record<string, unknown>> | undefined)?.[0];
+    const actionId = action?.action_id;
+    if ((actionId !== 'approve' && actionId !== 'dismiss') || typeof action?.value !== 'string') return { status: 200 };
+
+    const user = payload.user as Record<string, unknown> | undefined;
+    const actor = (user?.username ?? user?.name) as string | undefined;
+    const decision = await resolveApprovalFromChannel(channel, action.value, actionId as ApprovalAction, actor);
+
+    // Block-action responses are ignored by Slack — the message is updated via response_url
+    const responseUrl = payload.response_url as string | undefined;
+    if (responseUrl) {
+      const text = decision.ok
+        ? `${decision.status!.toUpperCase()} via Slack${actor ? ` by @${actor}` : ''} — ${decision.title}`
+        : `${decision.message} — ${decision.title}`;
+      await postJson(responseUrl, { replace_original: decision.ok, text });
+    }
+    return { status: 200 };
+  },
+};
@@ -0,0 +1,210 @@
+/**
+ * Telegram channel — approvals with inline buttons
+ * =================================================
+ * Outbound messages go through the shared delivery queue like every other
+ * channel. Button clicks arrive as callback_query updates, which the CEO tick
+ * polls with checkTelegramCallbacks() (Telegram can't reach a local sidecar
+ * without a public URL, so there is no interaction endpoint here).
+ *
+ * Chat relay is off by default — the Telegram bot already has its own
+ * conversation with the CEO (see sidecar/telegram).
+ */
+
+import { loadChannels, getSkillOptions, getSetting, setSetting, type ChannelRow } from '../database';
+import { executeSkill } from '../skillExecutor';
+import type { ChannelAdapter, ChannelEvent, ChannelDeliveryResult } from './types';
+import {
+  approvalLines, resolutionText, stripToolCalls, truncate, postJson, resolveApprovalFromChannel,
+  type ApprovalSummary, type ApprovalResolvedData, type MissionSummaryData, type ApprovalAction,
+} from './common';
+
+/** Telegram caps messages at 4096 chars */
+const MAX_TEXT = 4000;
+
+function chatIdOf(channel: ChannelRow): string | number | undefined {
+  const cfg = channel.config ?? {};
+  return (cfg.chat_id ?? cfg.authorized_chat_id ?? undefined) as string | number | undefined;
+}
+
+function buildMessage(event: ChannelEvent, data: Record<string, unknown>): Record<string, unknown> {
+  switch (event) {
+    case 'approval.created': {
+      const approval = data.approval as ApprovalSummary;
+      // The sidecar bot reads replies to checkpoint requests as edited output (see sidecar/telegram)
+      const hint = approval.type === 'task_checkpoint' ? ['', 'Reply to this message with a corrected version to approve it with your edits.'] : [];
+      return {
+        text: truncate(['APPROVAL REQUEST', '', ...approvalLines(approval), ...hint].join('\n'), MAX_TEXT),
+        reply_markup: {
+          inline_keyboard: [[
+            { text: 'APPROVE', callback_data: `approve:${approval.id}` },
+            { text: 'DISMISS', callback_data: `dismiss:${approval.id}` },
+          ]],
+        },
+      };
+    }
+    case 'approval.resolved':
+      return { text: resolutionText(data as unknown as ApprovalResolvedData) };
+    case 'chat.message':
+      return { text: truncate(stripToolCalls(String(data.text ?? '')), MAX_TEXT) };
+    case 'mission.summary': {
+      const { mission, summary } = data as unknown as MissionSummaryData;
+      return { text: truncate(`MISSION COMPLETE — ${mission.title}\n\n${summary}`, MAX_TEXT) };
+    }
+    case 'digest':
+      return { text: truncate(String(data.text ?? ''), MAX_TEXT) };
+    case 'channel.test':
+      return { text: 'Test message from Jarvis Inc — this channel is connected.' };
+  }
+}
+
+export const telegramAdapter: ChannelAdapter = {
+  type: 'telegram',
+  label: 'Telegram',
+  defaultTopics: ['approvals'],
+  // Configured through TelegramSetupWizard
+  configFields: [],
+
+  isConfigured(config) {
+    return !!config.bot_token;
+  },
+
+  async accepts(_channel, event) {
+    if (event !== 'approval.created' && event !== 'approval.resolved') return true;
+    const options = await getSkillOptions('telegram-bot');
+    return options.approval_notifications !== false; // default is true
+  },
+
+  async deliver(channel, event, data): Promise<ChannelDeliveryResult> {
+    const token = channel.config?.bot_token as string | undefined;
+    const chatId = chatIdOf(channel);
+    if (!token || !chatId) {
+      return { ok: false, status: null, error: 'Telegram bot has no authorized chat yet — message the bot first', retryable: false };
+    }
+    const api = `https://api.telegram.org/bot${token}`;
+    const message = buildMessage(event, data);
+
+    const ref = event === 'approval.resolved' ? (data as unknown as ApprovalResolvedData).refs?.[channel.id] : undefined;
+    if (ref?.message_id) {
+      const { result } = await postJson(`${api}/editMessageText`, { chat_id: ref.chat_id ?? chatId, message_id: ref.message_id, text: message.text });
+      return result;
+    }
+
+    const { result, json } = await postJson(`${api}/sendMessage`, { chat_id: chatId, ...message });
+    const sent = json?.result as Record<string, unknown> | undefined;
+    return sent?.message_id ? { ...result, ref: { message_id: sent.message_id, chat_id: chatId } } : result;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Inbound: poll for callback_query responses
+// ---------------------------------------------------------------------------
+
+export async function checkTelegramCallbacks(): Promise<{ resolved: number }> {
+  // 1. Check if Telegram channel is configured and enabled
+  const channels = await loadChannels();
+  const channel = channels.find(c => c.type === 'telegram' && c.enabled);
+  if (!channel) return { resolved: 0 };
+
+  const chatId = chatIdOf(channel);
+  const botToken = channel.config?.bot_token as string;
+  if (!chatId || !botToken) return { resolved: 0 };
+
+  // 2. Check if approval_notifications option is enabled
+  if (!(await telegramAdapter.accepts!(channel, 'approval.created'))) return { resolved: 0 };
+
+  // 3. Get last update offset
+  const lastOffsetStr = await getSetting('telegram_last_update_id');
+  const lastOffset = lastOffsetStr ? parseInt(lastOffsetStr, 10) : undefined;
+
+  // 4. Poll for callback_query updates
+  let result;
+  try {
+    result = await executeSkill('telegram-bot', 'get_updates', {
+      limit: 20,
+      offset: lastOffset,
+      allowed_updates: ['callback_query'],
+    });
+  } catch {
+    return { resolved: 0 };
+  }
+
+  if (!result.success) return { resolved: 0 };
+
+  let updates: Array<Record<string, unknown>>;
+  try {
+    updates = JSON.parse(result.output);
+  } catch {
+    return { resolved: 0 };
+  }
+
+  if (!Array.isArray(updates) || updates.length === 0) return { resolved: 0 };
+
+  let resolved = 0;
+  let maxUpdateId = lastOffset ?? 0;
+
+  for (const update of updates) {
+    const updateId = update.update_id as number;
+    if (updateId > maxUpdateId) maxUpdateId = updateId;
+
+    const callbackQuery = update.callback_query as Record<string, unknown> | undefined;
+    if (!callbackQuery) continue;
+
+    const data = callbackQuery.data as string;
+    if (!data) continue;
+
+    // Parse callback data: "approve:<id>" or "dismiss:<id>"
+    const match = data.match(/^(approve|dismiss):(.+)$/);
+    if (!match) continue;
+
+    const [, action, approvalId] = match;
+    const from = callbackQuery.from as Record<string, unknown> | undefined;
+    const decision = await resolveApprovalFromChannel(channel, approvalId, action as ApprovalAction, from?.username as string | undefined);
+
+    // Answer the callback query (removes loading spinner on button)
+    await answerCallbackQuery(botToken, callbackQuery.id as string, decision.message);
+    if (!decision.ok) continue;
+    resolved++;
+
+    // Edit the original message to show resolution
+    const message = callbackQuery.message as Record<string, unknown> | undefined;
+    if (message?.message_id) {
+      await editMessageText(
+        botToken,
+        chatId,
+        message.message_id as number,
+        `${decision.status!.toUpperCase()} via Telegram — ${decision.title}\n\nID: ${approvalId}`,
+      );
+    }
+  }
+
+  // 5. Update offset so we don't re-process these updates
+  if (maxUpdateId > (lastOffset ?? 0)) {
+    await setSetting('telegram_last_update_id', String(maxUpdateId + 1));
+  }
+
+  return { resolved };
+}
+
+// ---------------------------------------------------------------------------
+// Telegram Bot API helpers (direct fetch — not skill commands)
+// ---------------------------------------------------------------------------
+
+async function answerCallbackQuery(botToken: string, callbackQueryId: string, text: string): Promise<void> {
+  try {
+    await fetch(`https://api.telegram.org/bot${botToken}/answerCallbackQuery`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ callback_query_id: callbackQueryId, text }),
+    });
+  } catch { /* non-critical */ }
+}
+
+async function editMessageText(botToken: string, chatId: string | number, messageId: number, text: string): Promise<void> {
+  try {
+    await fetch(`https://api.telegram.org/bot${botToken}/editMessageText`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId, message_id: messageId, text }),
+    });
+  } catch { /* non-critical */ }
+}
@@ -0,0 +1,54 @@
+import type { ChannelRow } from '../database';
+import type { DeliveryResult } from '../webhooks';
+
+/** What a chat channel can be subscribed to */
+export type ChannelTopic = 'approvals' | 'chat' | 'missions';
+
+export type ChannelEvent =
+  | 'approval.created'
+  | 'approval.resolved'
+  | 'chat.message'
+  | 'mission.summary'
+  | 'digest'
+  | 'channel.test';
+
+/** A config value the channel modal collects (stored flat in notification_channels.config) */
+export interface ChannelConfigField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  /** Rendered as a password input */
+  secret?: boolean;
+  help?: string;
+}
+
+/** Raw inbound request from a chat platform, as received by the sidecar */
+export interface InteractionRequest {
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+export interface InteractionResponse {
+  status: number;
+  body?: unknown;
+}
+
+export interface ChannelDeliveryResult extends DeliveryResult {
+  /** Platform message reference, stored on the approval so a later resolution can edit it */
+  ref?: Record<string, unknown>;
+}
+
+export interface ChannelAdapter {
+  type: string;
+  label: string;
+  /** Topics a channel receives until the Founder picks its own */
+  defaultTopics: ChannelTopic[];
+  configFields: ChannelConfigField[];
+  isConfigured(config: Record<string, unknown>): boolean;
+  /** Extra per-event gate checked before queueing (e.g. a skill option) */
+  accepts?(channel: ChannelRow, event: ChannelEvent): Promise<boolean>;
+  /** Send one queued message. Runs in the sidecar (chat APIs reject browser CORS). */
+  deliver(channel: ChannelRow, event: ChannelEvent, data: Record<string, unknown>): Promise<ChannelDeliveryResult>;
+  /** Handle a button click POSTed to /api/channels/:id/interactions. Absent = polled instead. */
+  handleInteraction?(channel: ChannelRow, req: InteractionRequest): Promise<InteractionResponse>;
+}
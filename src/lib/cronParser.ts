@@ -1,60 +1,482 @@
 /**
- * Minimal cron evaluator — checks if a cron expression is due.
- * Supports: minute hour day-of-month month day-of-week
- * Special values: * (any), star/N (every N), comma-separated lists, ranges (1-5)
+ * Cron Engine — parsing, next/previous run computation, timezones, catch-up
+ * ==========================================================================
+ * Fields: minute hour day-of-month month day-of-week (Vixie semantics — when
+ * both day fields are restricted, a day matches if EITHER matches).
+ *
+ * Supported syntax:
+ *   *  ?  lists (1,5,10)  ranges (1-5, FRI-MON wraps)  steps (star/15, 10-40/5, 7/2)
+ *   month names JAN-DEC, weekday names SUN-SAT (7 = Sunday)
+ *   day-of-month: L (last day), L-3 (3 days before last), 15W (nearest weekday), LW
+ *   day-of-week:  5L (last Friday), 1#2 (second Monday)
+ *   macros: @yearly @annually @monthly @weekly @daily @midnight @hourly
+ *
+ * Every schedule is evaluated in an IANA timezone (default: this runtime's
+ * zone). DST: a time skipped by a spring-forward jump fires shifted by the
+ * jump — 02:30 on a night that goes 02:00 → 03:00 fires at 03:30; a time
+ * repeated by a fall-back fires once, on its first occurrence.
  */
 
-export function isCronDue(cron: string, lastRun: Date | null, now: Date = new Date()): boolean {
-  if (!cron || !cron.trim()) return false;
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
 
-  const parts = cron.trim().split(/\s+/);
-  if (parts.length !== 5) return false;
+/** What to do with runs missed while the scheduler was down */
+export type CatchUpMode = 'skip' | 'once' | 'all';
 
-  const [minPat, hourPat, domPat, monPat, dowPat] = parts;
+export const CATCH_UP_MODES: CatchUpMode[] = ['skip', 'once', 'all'];
 
-  // Check if current time matches the cron pattern
-  if (!matchField(minPat, now.getMinutes(), 0, 59)) return false;
-  if (!matchField(hourPat, now.getHours(), 0, 23)) return false;
-  if (!matchField(domPat, now.getDate(), 1, 31)) return false;
-  if (!matchField(monPat, now.getMonth() + 1, 1, 12)) return false;
-  if (!matchField(dowPat, now.getDay(), 0, 6)) return false;
+type DomSpecial =
+  | { kind: 'last'; offset: number }       // L, L-n
+  | { kind: 'weekday'; day: number }       // nW
+  | { kind: 'lastWeekday' };               // LW
 
-  // If we matched, ensure we haven't already run in this minute
-  if (lastRun) {
-    const lastMinute = Math.floor(lastRun.getTime() / 60000);
-    const nowMinute = Math.floor(now.getTime() / 60000);
-    if (lastMinute >= nowMinute) return false;
-  }
+type DowSpecial =
+  | { kind: 'nth'; dow: number; nth: number }  // d#n
+  | { kind: 'last'; dow: number };            // dL
 
-  return true;
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  months: Set<number>;
+  dom: Set<number>;
+  domSpecials: DomSpecial[];
+  dow: Set<number>;
+  dowSpecials: DowSpecial[];
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const MACROS: Record<string, string> = {
+  '@yearly':   '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly':  '0 0 1 * *',
+  '@weekly':   '0 0 * * 0',
+  '@daily':    '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly':   '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value the names array starts at (1 for months, 0 for weekdays) */
+  nameBase?: number;
 }
 
-function matchField(pattern: string, value: number, _min: number, _max: number): boolean {
-  if (pattern === '*') return true;
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+];
 
-  // Step: */N (every N from min)
-  if (pattern.startsWith('*/')) {
-    const step = parseInt(pattern.slice(2), 10);
-    return !isNaN(step) && step > 0 && (value - _min) % step === 0;
+function parseValue(token: string, spec: FieldSpec): number {
+  const upper = token.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  const value = named >= 0 ? named + (spec.nameBase ?? 0) : /^\d+$/.test(token) ? parseInt(token, 10) : NaN;
+  if (isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${token}" (allowed ${spec.min}-${spec.max}${spec.names ? ' or names' : ''})`);
   }
+  return value;
+}
+
+/** Expand one comma-separated field into its values (specials handled by callers) */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    if (!part) throw new Error(`Empty entry in ${spec.name} field "${field}"`);
+    const [rangePart, stepPart, extra] = part.split('/');
+    if (extra !== undefined) throw new Error(`Invalid ${spec.name} step "${part}"`);
+
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (stepPart !== undefined && (!/^\d+$/.test(stepPart) || step <= 0)) {
+      throw new Error(`Invalid ${spec.name} step "${part}"`);
+    }
+
+    let lo: number;
+    let hi: number;
+    if (rangePart === '*' || rangePart === '?') {
+      lo = spec.min;
+      hi = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      lo = parseValue(a, spec);
+      hi = parseValue(b, spec);
+    } else {
+      lo = parseValue(rangePart, spec);
+      // "N/S" runs from N to the end of the range
+      hi = stepPart === undefined ? lo : spec.max;
+    }
 
-  // Comma-separated list: 1,5,10
-  const parts = pattern.split(',');
-  return parts.some((p) => {
-    // Start/step: N/S (e.g. 49/5 = 49,54,59)
-    if (p.includes('/')) {
-      const [startStr, stepStr] = p.split('/');
-      const start = parseInt(startStr, 10);
-      const step = parseInt(stepStr, 10);
-      if (isNaN(start) || isNaN(step) || step <= 0) return false;
-      if (value < start) return false;
-      return (value - start) % step === 0;
+    // Wrapping ranges (e.g. FRI-MON, 22-2)
+    const span = hi >= lo ? hi - lo : (spec.max - lo) + (hi - spec.min) + 1;
+    for (let i = 0; i <= span; i += step) {
+      const v = lo + i;
+      values.add(v > spec.max ? v - spec.max - 1 + spec.min : v);
     }
-    // Range: 1-5
-    if (p.includes('-')) {
-      const [lo, hi] = p.split('-').map(Number);
-      return !isNaN(lo) && !isNaN(hi) && value >= lo && value <= hi;
+  }
+  return values;
+}
+
+function parseDayOfMonth(field: string, spec: FieldSpec): { values: Set<number>; specials: DomSpecial[] } {
+  const specials: DomSpecial[] = [];
+  const plain: string[] = [];
+  for (const part of field.split(',')) {
+    const upper = part.toUpperCase();
+    if (upper === 'LW') specials.push({ kind: 'lastWeekday' });
+    else if (upper === 'L') specials.push({ kind: 'last', offset: 0 });
+    else if (/^L-\d+$/.test(upper)) specials.push({ kind: 'last', offset: parseInt(upper.slice(2), 10) });
+    else if (/^\d+W$/.test(upper)) specials.push({ kind: 'weekday', day: parseValue(upper.slice(0, -1), spec) });
+    else plain.push(part);
+  }
+  return { values: plain.length > 0 ? parseField(plain.join(','), spec) : new Set(), specials };
+}
+
+function parseDayOfWeek(field: string, spec: FieldSpec): { values: Set<number>; specials: DowSpecial[] } {
+  const specials: DowSpecial[] = [];
+  const plain: string[] = [];
+  for (const part of field.split(',')) {
+    const nth = part.match(/^(\w+)#(\d)$/);
+    const last = part.match(/^(\w+)L$/i);
+    if (nth) {
+      const n = parseInt(nth[2], 10);
+      if (n < 1 || n > 5) throw new Error(`Invalid day-of-week occurrence "${part}" (1-5)`);
+      specials.push({ kind: 'nth', dow: parseValue(nth[1], spec) % 7, nth: n });
+    } else if (last && part.toUpperCase() !== 'L') {
+      specials.push({ kind: 'last', dow: parseValue(last[1], spec) % 7 });
+    } else if (part.toUpperCase() === 'L') {
+      specials.push({ kind: 'last', dow: 6 }); // Quartz: bare L in day-of-week = Saturday
+    } else {
+      plain.push(part);
     }
-    return parseInt(p, 10) === value;
+  }
+  const values = plain.length > 0 ? parseField(plain.join(','), spec) : new Set<number>();
+  if (values.has(7)) { values.delete(7); values.add(0); }
+  return { values, specials };
+}
+
+/** Parsed schedules kept for reuse — expressions come from user input, so the cache is bounded */
+const PARSE_CACHE_SIZE = 500;
+const parseCache = new Map<string, CronSchedule>();
+
+/** Parse a cron expression or macro. Throws with a readable message when invalid. */
+export function parseCron(expression: string): CronSchedule {
+  const source = (expression ?? '').trim();
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const expanded = source.startsWith('@') ? MACROS[source.toLowerCase()] : source;
+  if (!expanded) throw new Error(`Unknown cron macro "${source}"`);
+
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron needs 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+  const [minF, hourF, domF, monF, dowF] = parts;
+
+  const dom = parseDayOfMonth(domF, FIELDS[2]);
+  const dow = parseDayOfWeek(dowF, FIELDS[4]);
+  const schedule: CronSchedule = {
+    expression: source,
+    minutes: [...parseField(minF, FIELDS[0])].sort((a, b) => a - b),
+    hours: [...parseField(hourF, FIELDS[1])].sort((a, b) => a - b),
+    months: parseField(monF, FIELDS[3]),
+    dom: dom.values,
+    domSpecials: dom.specials,
+    dow: dow.values,
+    dowSpecials: dow.specials,
+    // Vixie cron: a day field starting with * (including */N) counts as unrestricted
+    domRestricted: !domF.startsWith('*') && domF !== '?',
+    dowRestricted: !dowF.startsWith('*') && dowF !== '?',
+  };
+  // Map keeps insertion order — drop the oldest entry once full
+  if (parseCache.size >= PARSE_CACHE_SIZE) parseCache.delete(parseCache.keys().next().value!);
+  parseCache.set(source, schedule);
+  return schedule;
+}
+
+/** Returns an error message, or null if the expression is valid */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timezones
+// ---------------------------------------------------------------------------
+
+/** The runtime's IANA zone — the browser's in the UI, the container's in the sidecar */
+export function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Use the schedule's zone when valid, otherwise the runtime's */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : localTimezone();
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timezone, fmt);
+  }
+  return fmt;
+}
+
+export interface WallTime { year: number; month: number; day: number; hour: number; minute: number; second: number }
+
+/** Calendar date and clock time in a zone at an instant */
+export function wallTime(ts: number, timezone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timezone).formatToParts(new Date(ts))) {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  }
+  return {
+    year: parts.year, month: parts.month, day: parts.day,
+    hour: parts.hour % 24, minute: parts.minute, second: parts.second,
+  };
+}
+
+/** Zone offset (ms east of UTC) in effect at an instant */
+function offsetAt(ts: number, timezone: string): number {
+  const w = wallTime(ts, timezone);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - Math.floor(ts / 1000) * 1000;
+}
+
+/** The instant a wall-clock time in a zone names — the earlier one when DST repeats it, the shifted one when DST skips it */
+export function zonedInstant(w: WallTime, timezone: string): Date {
+  const wall = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  const before = offsetAt(wall - 14 * 60 * 60 * 1000, timezone);
+  const after = offsetAt(wall + 14 * 60 * 60 * 1000, timezone);
+  const valid = [wall - before, wall - after].filter(t => offsetAt(t, timezone) === wall - t);
+  return new Date(valid.length > 0 ? Math.min(...valid) : wall - before);
+}
+
+// ---------------------------------------------------------------------------
+// Day matching
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Weekday (Mon-Fri) nearest to `day`, never crossing into another month */
+function nearestWeekday(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const target = Math.min(day, last);
+  const dow = weekdayOf(year, month, target);
+  if (dow === 6) return target === 1 ? 3 : target - 1;
+  if (dow === 0) return target === last ? target - 2 : target + 1;
+  return target;
+}
+
+function matchesDay(s: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!s.months.has(month)) return false;
+  const last = daysInMonth(year, month);
+  const dow = weekdayOf(year, month, day);
+
+  const domMatch = s.dom.has(day) || s.domSpecials.some(sp => {
+    if (sp.kind === 'last') return day === last - sp.offset;
+    if (sp.kind === 'weekday') return day === nearestWeekday(year, month, sp.day);
+    return day === nearestWeekday(year, month, last);
+  });
+  const dowMatch = s.dow.has(dow) || s.dowSpecials.some(sp => {
+    if (sp.dow !== dow) return false;
+    if (sp.kind === 'nth') return Math.ceil(day / 7) === sp.nth;
+    return day + 7 > last;
   });
+
+  if (s.domRestricted && s.dowRestricted) return domMatch || dowMatch;
+  if (s.domRestricted) return domMatch;
+  if (s.dowRestricted) return dowMatch;
+  return true;
+}
+
+/** Instants (ms, ascending) at which the schedule fires on a local calendar day */
+function dayInstants(s: CronSchedule, year: number, month: number, day: number, timezone: string): number[] {
+  if (!matchesDay(s, year, month, day)) return [];
+  const midnight = Date.UTC(year, month - 1, day);
+  const before = offsetAt(midnight - 14 * 60 * 60 * 1000, timezone);
+  const after = offsetAt(midnight + DAY_MS + 14 * 60 * 60 * 1000, timezone);
+
+  const instants: number[] = [];
+  for (const h of s.hours) {
+    for (const m of s.minutes) {
+      const wall = midnight + (h * 60 + m) * 60_000;
+      if (before === after) { instants.push(wall - before); continue; }
+      // DST transition day: a wall time may map to zero or two instants
+      const valid = [wall - before, wall - after].filter(t => offsetAt(t, timezone) === wall - t);
+      instants.push(valid.length > 0 ? Math.min(...valid) : wall - before);
+    }
+  }
+  return before === after ? instants : [...new Set(instants)].sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Run computation
+// ---------------------------------------------------------------------------
+
+/** Search horizon — long enough for rare combos like "Feb 29 or a Monday" */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function toSchedule(cron: string | CronSchedule): CronSchedule {
+  return typeof cron === 'string' ? parseCron(cron) : cron;
+}
+
+/** First fire time strictly after `after`, or null if none within five years */
+export function nextRun(cron: string | CronSchedule, after: Date = new Date(), timezone?: string | null): Date | null {
+  const s = toSchedule(cron);
+  const tz = resolveTimezone(timezone);
+  const start = after.getTime();
+  const w = wallTime(start, tz);
+  // Begin one day early: on fall-back days, early-morning wall times can precede `after`'s wall date
+  for (let i = -1; i <= MAX_SEARCH_DAYS; i++) {
+    const d = new Date(Date.UTC(w.year, w.month - 1, w.day + i));
+    const hit = dayInstants(s, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), tz).find(t => t > start);
+    if (hit !== undefined) return new Date(hit);
+  }
+  return null;
+}
+
+/** Next `count` fire times after `after` — used for schedule previews */
+export function nextRuns(cron: string | CronSchedule, count: number, after: Date = new Date(), timezone?: string | null): Date[] {
+  const runs: Date[] = [];
+  let cursor: Date | null = after;
+  while (runs.length < count && cursor) {
+    cursor = nextRun(cron, cursor, timezone);
+    if (cursor) runs.push(cursor);
+  }
+  return runs;
+}
+
+/** Latest fire time at or before `atOrBefore`, or null if none within five years */
+export function previousRun(cron: string | CronSchedule, atOrBefore: Date = new Date(), timezone?: string | null): Date | null {
+  const s = toSchedule(cron);
+  const tz = resolveTimezone(timezone);
+  const end = atOrBefore.getTime();
+  const w = wallTime(end, tz);
+  for (let i = 1; i >= -MAX_SEARCH_DAYS; i--) {
+    const d = new Date(Date.UTC(w.year, w.month - 1, w.day + i));
+    const instants = dayInstants(s, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), tz).filter(t => t <= end);
+    if (instants.length > 0) return new Date(instants[instants.length - 1]);
+  }
+  return null;
+}
+
+/** Gap between the next two fire times — for callers that poll on an interval */
+export function cronIntervalMs(cron: string | CronSchedule, from: Date = new Date(), timezone?: string | null): number | null {
+  const [a, b] = nextRuns(cron, 2, from, timezone);
+  return a && b ? b.getTime() - a.getTime() : null;
+}
+
+/** Cap for catch-up 'all' so a long outage can't flood the queue */
+export const MAX_CATCH_UP_RUNS = 24;
+
+/** How late an on-time run may be before 'skip' treats it as missed */
+const DEFAULT_GRACE_MS = 5 * 60 * 1000;
+
+export interface DueRunOptions {
+  timezone?: string | null;
+  catchUp?: CatchUpMode;
+  graceMs?: number;
+}
+
+/**
+ * Scheduled fire times that are due at `now` given the last run.
+ *   skip — only the latest occurrence, and only if it is within the grace window
+ *   once — the latest occurrence, however late (missed runs collapse into one)
+ *   all  — every occurrence since lastRun, oldest first (capped at MAX_CATCH_UP_RUNS)
+ * `lastRun` null means "never ran" — only the latest occurrence is considered.
+ */
+export function dueRuns(cron: string | CronSchedule, lastRun: Date | null, now: Date = new Date(), options: DueRunOptions = {}): Date[] {
+  const s = toSchedule(cron);
+  const latest = previousRun(s, now, options.timezone);
+  if (!latest || (lastRun && latest <= lastRun)) return [];
+
+  switch (options.catchUp ?? 'once') {
+    case 'skip':
+      return now.getTime() - latest.getTime() <= (options.graceMs ?? DEFAULT_GRACE_MS) ? [latest] : [];
+    case 'all': {
+      if (!lastRun) return [latest];
+      const runs: Date[] = [];
+      let cursor = lastRun;
+      while (runs.length < MAX_CATCH_UP_RUNS) {
+        const next = nextRun(s, cursor, options.timezone);
+        if (!next || next > now) break;
+        runs.push(next);
+        cursor = next;
+      }
+      return runs;
+    }
+    case 'once':
+    default:
+      return [latest];
+  }
+}
+
+/**
+ * True when the schedule has a fire time in the current minute that has not
+ * run yet (no catch-up). Prefer dueRuns() for scheduler loops.
+ */
+export function isCronDue(cron: string, lastRun: Date | null, now: Date = new Date(), timezone?: string | null): boolean {
+  if (!cron || !cron.trim() || validateCron(cron)) return false;
+  const latest = previousRun(cron, now, timezone);
+  if (!latest || Math.floor(latest.getTime() / 60000) !== Math.floor(now.getTime() / 60000)) return false;
+  return !lastRun || Math.floor(lastRun.getTime() / 60000) < Math.floor(latest.getTime() / 60000);
+}
+
+// ---------------------------------------------------------------------------
+// Presets
+// ---------------------------------------------------------------------------
+
+export type ScheduleFrequency = 'hourly' | 'every_4h' | 'daily' | 'weekly' | 'monthly';
+
+/** Cron equivalent of a skill schedule preset (runAtTime "HH:MM", runOnDay 0-6 weekly / 1-31 monthly) */
+export function frequencyToCron(frequency: ScheduleFrequency, runAtTime: string, runOnDay: number | null): string {
+  const [hours = 0, minutes = 0] = (runAtTime || '00:00').split(':').map(Number);
+  switch (frequency) {
+    case 'hourly':   return '0 * * * *';
+    case 'every_4h': return '0 */4 * * *';
+    case 'daily':    return `${minutes} ${hours} * * *`;
+    case 'weekly':   return `${minutes} ${hours} * * ${runOnDay ?? 1}`;
+    case 'monthly':  return `${minutes} ${hours} ${runOnDay ?? 1} * *`;
+  }
 }
@@ -14,6 +14,9 @@
 
 import { getSupabase } from './supabase';
 import { MODEL_SERVICE_MAP } from './models';
+import { resolveTimezone } from './cronParser';
+import { sealSecret, openSecret } from './vaultCrypto';
+import { scopeDenial, describeAccess, skillDeclaresService, type VaultAccess, type VaultScope, type VaultSkillDeclaration } from './vaultScopes';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -289,18 +292,69 @@ export interface VaultRow {
   type: string;
   service: string;
   key_value: string;
+  /** Sealed with the Vault data key (see vaultCrypto) */
+  encrypted?: boolean;
+  /** Sealed and the Vault is locked — key_value is empty */
+  locked?: boolean;
+  /** Sealed but would not open (damaged, or sealed under another data key) — key_value is empty */
+  corrupt?: boolean;
+  /** Who may use it (see vaultScopes); null = anyone */
+  scope?: VaultScope | null;
+  /** Hard date the provider stops accepting the key (see vaultRotation) */
+  expires_at?: string | null;
+  /** Rotation policy — rotate every N days; null = no policy */
+  rotation_days?: number | null;
+  /** Last rotation; the policy counts from here, or created_at before the first */
+  rotated_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export async function loadVaultEntries(): Promise<VaultRow[]> {
+const VAULT_META_COLUMNS = 'id, name, type, service, encrypted, scope, expires_at, rotation_days, rotated_at, created_at, updated_at';
+const VAULT_COLUMNS = `${VAULT_META_COLUMNS}, key_value`;
+
+/**
+ * Decrypt a row as read from the table. Locked and corrupt rows come back with
+ * an empty key_value instead of failing the whole load; a corrupt one is audited.
+ */
+async function openVaultRow(row: VaultRow): Promise<VaultRow> {
+  try {
+    const value = await openSecret(row.key_value, !!row.encrypted, row);
+    return value === null ? { ...row, key_value: '', locked: true } : { ...row, key_value: value };
+  } catch (err) {
+    await logAudit(null, 'SECRET_CORRUPT', `"${row.name}" [${row.id}] could not be decrypted — ${err instanceof Error ? err.message : String(err)}`, 'error');
+    return { ...row, key_value: '', corrupt: true };
+  }
+}
+
+/** Every entry (or every one for `service`) without its secret — for checks that must not read keys */
+export async function loadVaultMetadata(service?: string): Promise<Omit<VaultRow, 'key_value'>[]> {
+  let query = getSupabase()
+    .from('vault')
+    .select(VAULT_META_COLUMNS);
+  if (service) query = query.ilike('service', service);
+  const { data } = await query.order('created_at');
+  return (data ?? []) as unknown as Omit<VaultRow, 'key_value'>[];
+}
+
+/**
+ * One entry with its secret, for the Founder editing it on the Vault page.
+ * Not scope-checked — the Vault page is where scopes are set — but audited as
+ * a SECRET_READ like any other read.
+ */
+export async function revealVaultEntry(id: string): Promise<VaultRow | null> {
   const { data } = await getSupabase()
     .from('vault')
-    .select('id, name, type, service, key_value, created_at, updated_at')
-    .order('created_at');
-  return (data ?? []) as VaultRow[];
+    .select(VAULT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (!data) return null;
+  const row = await openVaultRow(data as VaultRow);
+  if (!row.locked && !row.corrupt) await logAudit(null, 'SECRET_READ', `"${row.name}" [${row.id}] revealed on the Vault page`, 'info');
+  return row;
 }
 
+/** Throws VaultLockedError if the Vault is encrypted and locked */
 export async function saveVaultEntry(entry: Omit<VaultRow, 'created_at' | 'updated_at'>): Promise<void> {
   await getSupabase()
     .from('vault')
@@ -309,15 +363,27 @@ export async function saveVaultEntry(entry: Omit<VaultRow, 'created_at' | 'updat
       name: entry.name,
       type: entry.type,
       service: entry.service,
-      key_value: entry.key_value,
+      ...(await sealSecret(entry.key_value, entry)),
+      ...(entry.scope !== undefined ? { scope: entry.scope } : {}),
+      ...(entry.expires_at !== undefined ? { expires_at: entry.expires_at } : {}),
+      ...(entry.rotation_days !== undefined ? { rotation_days: entry.rotation_days } : {}),
       updated_at: new Date().toISOString(),
     }, { onConflict: 'id' });
 }
 
-export async function updateVaultEntry(id: string, fields: Partial<Pick<VaultRow, 'name' | 'key_value'>>): Promise<void> {
-  const update: Record<string, string> = { updated_at: new Date().toISOString() };
+export async function updateVaultEntry(id: string, fields: Partial<Pick<VaultRow, 'name' | 'key_value' | 'scope' | 'expires_at' | 'rotation_days' | 'rotated_at'>>): Promise<void> {
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
   if (fields.name !== undefined) update.name = fields.name;
-  if (fields.key_value !== undefined) update.key_value = fields.key_value;
+  if (fields.key_value !== undefined) {
+    // Sealed bound to the entry, so it needs the entry's service
+    const { data } = await getSupabase().from('vault').select('service').eq('id', id).maybeSingle();
+    if (!data) return;
+    Object.assign(update, await sealSecret(fields.key_value, { id, service: data.service }));
+  }
+  if (fields.scope !== undefined) update.scope = fields.scope;
+  if (fields.expires_at !== undefined) update.expires_at = fields.expires_at;
+  if (fields.rotation_days !== undefined) update.rotation_days = fields.rotation_days;
+  if (fields.rotated_at !== undefined) update.rotated_at = fields.rotated_at;
   await getSupabase().from('vault').update(update).eq('id', id);
 }
 
@@ -325,38 +391,183 @@ export async function deleteVaultEntry(id: string): Promise<void> {
   await getSupabase().from('vault').delete().eq('id', id);
 }
 
-export async function getVaultEntryByService(service: string): Promise<VaultRow | null> {
+/** Whether the entry is still there — without reading its secret */
+export async function vaultEntryExists(id: string): Promise<boolean> {
+  const { data } = await getSupabase().from('vault').select('id').eq('id', id).maybeSingle();
+  return !!data;
+}
+
+/**
+ * Scope-check, open and audit one entry for a read: SECRET_DENIED when its
+ * scope refuses `access`, SECRET_LOCKED when the Vault is locked, SECRET_READ
+ * otherwise. A corrupt entry is audited by openVaultRow.
+ */
+async function readVaultRow(row: VaultRow, access: VaultAccess): Promise<VaultRow | null> {
+  const agent = access.agentId ?? null;
+  const denial = scopeDenial(row.scope, row.service, access);
+  if (denial) {
+    await logAudit(agent, 'SECRET_DENIED', `"${row.name}" [${row.id}] refused for ${describeAccess(access)} — ${denial}`, 'warning');
+    return null;
+  }
+  const opened = await openVaultRow(row);
+  if (opened.locked) {
+    await logAudit(agent, 'SECRET_LOCKED', `"${row.name}" [${row.id}] wanted for ${describeAccess(access)} — the Vault is locked`, 'warning');
+  } else if (!opened.corrupt) {
+    await logAudit(agent, 'SECRET_READ', `"${row.name}" [${row.id}] read for ${describeAccess(access)}`, 'info');
+  }
+  return opened;
+}
+
+/**
+ * Read a secret for use. The entry's scope must allow `access`, and the Vault
+ * must be unlocked — otherwise null, as if there were no key. Every read,
+ * granted or refused, is logged.
+ */
+export async function getVaultEntryByService(service: string, access: VaultAccess): Promise<VaultRow | null> {
   const { data } = await getSupabase()
     .from('vault')
-    .select('id, name, type, service, key_value, created_at, updated_at')
+    .select(VAULT_COLUMNS)
     .ilike('service', service)
     .limit(1)
     .maybeSingle();
-  return data as VaultRow | null;
+  if (!data) return null;
+  const row = await readVaultRow(data as VaultRow, access);
+  return row && !row.locked && !row.corrupt ? row : null;
+}
+
+/**
+ * Read one entry for use by id — for secrets a row elsewhere points at, like a
+ * webhook's signing secret. It must belong to `service`; otherwise checked,
+ * logged and returned like getVaultEntryByService.
+ */
+export async function getVaultEntryById(id: string, service: string, access: VaultAccess): Promise<VaultRow | null> {
+  const { data } = await getSupabase()
+    .from('vault')
+    .select(VAULT_COLUMNS)
+    .eq('id', id)
+    .ilike('service', service)
+    .maybeSingle();
+  if (!data) return null;
+  const row = await readVaultRow(data as VaultRow, access);
+  return row && !row.locked && !row.corrupt ? row : null;
+}
+
+/**
+ * Whether a usable entry exists for the service — without reading (or
+ * logging) the secret. With `access`, the entry's scope must allow it.
+ */
+export async function findVaultEntry(service: string, access?: VaultAccess): Promise<Omit<VaultRow, 'key_value'> | null> {
+  const { data } = await getSupabase()
+    .from('vault')
+    .select(VAULT_META_COLUMNS)
+    .ilike('service', service)
+    .limit(1)
+    .maybeSingle();
+  if (!data) return null;
+  const row = data as Omit<VaultRow, 'key_value'>;
+  return access && scopeDenial(row.scope, row.service, access) ? null : row;
+}
+
+/**
+ * Open entries that hold credentials presented to us (the sidecar API's
+ * bearer tokens) so the caller can keep their hashes. Scope-checked like any
+ * read, but not logged: nothing is used on anyone's behalf, and a check runs
+ * on every request. Refused entries are left out; locked and corrupt ones
+ * come back flagged.
+ */
+export async function loadVaultCredentials(ids: string[], access: VaultAccess): Promise<VaultRow[]> {
+  if (ids.length === 0) return [];
+  const { data } = await getSupabase()
+    .from('vault')
+    .select(VAULT_COLUMNS)
+    .in('id', ids);
+  const rows = ((data ?? []) as VaultRow[]).filter(row => !scopeDenial(row.scope, row.service, access));
+  return Promise.all(rows.map(openVaultRow));
+}
+
+/** SECRET_* audit entries (read, denied, locked, corrupt) for one Vault entry, newest first */
+export async function loadSecretUsage(entryId: string, limit = 100): Promise<AuditLogRow[]> {
+  const { data } = await getSupabase()
+    .from('audit_log')
+    .select('id, timestamp, agent, action, details, severity')
+    .in('action', ['SECRET_READ', 'SECRET_DENIED', 'SECRET_LOCKED', 'SECRET_CORRUPT'])
+    .ilike('details', `%[${entryId}]%`)
+    .order('id', { ascending: false })
+    .limit(limit);
+  return (data ?? []) as AuditLogRow[];
+}
+
+/**
+ * Every entry for the service that `access` may read, scope-checked and
+ * audited like getVaultEntryByService. Locked and corrupt entries stay in the
+ * result, flagged and with an empty key_value, so callers can tell "the Vault
+ * is locked" from "there is no such entry".
+ */
+export async function loadVaultEntriesByService(service: string, access: VaultAccess): Promise<VaultRow[]> {
+  const { data } = await getSupabase()
+    .from('vault')
+    .select(VAULT_COLUMNS)
+    .ilike('service', service)
+    .order('created_at');
+  const rows = await Promise.all(((data ?? []) as VaultRow[]).map(row => readVaultRow(row, access)));
+  return rows.filter((row): row is VaultRow => row !== null);
+}
+
+export interface VaultDependent {
+  type: 'ceo' | 'agent' | 'skill';
+  name: string;
+  /** How it depends on the service — the model it runs on, or "credential" */
+  uses: string;
 }
 
-export async function getEntitiesUsingService(service: string): Promise<{ type: 'ceo' | 'agent'; name: string; model: string }[]> {
+/**
+ * Who would break if the service's key were revoked: the CEO and agents whose
+ * model runs on it, and enabled skills that run on it or declare it as their
+ * credential. Agents and skills the entry's scope already shuts out are left
+ * out — they can't use it now either.
+ */
+export async function getEntitiesUsingService(service: string, scope?: VaultScope | null): Promise<VaultDependent[]> {
   const modelsForService = Object.entries(MODEL_SERVICE_MAP)
-    .filter(([, svc]) => svc === service)
+    .filter(([, svc]) => svc.toLowerCase() === service.toLowerCase())
     .map(([model]) => model);
-  if (modelsForService.length === 0) return [];
-
-  const results: { type: 'ceo' | 'agent'; name: string; model: string }[] = [];
+  const results: VaultDependent[] = [];
+
+  if (modelsForService.length > 0) {
+    const { data: ceos } = await getSupabase()
+      .from('ceo')
+      .select('name, model')
+      .in('model', modelsForService);
+    for (const row of ceos ?? []) {
+      results.push({ type: 'ceo', name: row.name, uses: row.model });
+    }
 
-  const { data: ceos } = await getSupabase()
-    .from('ceo')
-    .select('name, model')
-    .in('model', modelsForService);
-  for (const row of ceos ?? []) {
-    results.push({ type: 'ceo', name: row.name, model: row.model });
+    const { data: agents } = await getSupabase()
+      .from('agents')
+      .select('id, name, model')
+      .in('model', modelsForService);
+    for (const row of agents ?? []) {
+      if (scope?.agents.length && !scope.agents.includes(row.id)) continue;
+      results.push({ type: 'agent', name: row.name, uses: row.model });
+    }
   }
 
-  const { data: agents } = await getSupabase()
-    .from('agents')
-    .select('name, model')
-    .in('model', modelsForService);
-  for (const row of agents ?? []) {
-    results.push({ type: 'agent', name: row.name, model: row.model });
+  const { data: skills } = await getSupabase()
+    .from('skills')
+    .select('id, model, definition')
+    .eq('enabled', true);
+  for (const row of (skills ?? []) as Pick<SkillRow, 'id' | 'model' | 'definition'>[]) {
+    if (scope?.skills.length && !scope.skills.includes(row.id)) continue;
+    const def = row.definition ?? {};
+    const declared = skillDeclaresService({
+      apiConfig: def.api_config as VaultSkillDeclaration['apiConfig'],
+      oauthConfig: def.oauth_config as VaultSkillDeclaration['oauthConfig'],
+      permissions: Array.isArray(def.permissions) ? def.permissions as string[] : undefined,
+    }, service);
+    if (declared) {
+      results.push({ type: 'skill', name: (def.title as string) ?? row.id, uses: 'credential' });
+    } else if (row.model && modelsForService.includes(row.model)) {
+      results.push({ type: 'skill', name: (def.title as string) ?? row.id, uses: row.model });
+    }
   }
 
   return results;
@@ -405,19 +616,32 @@ export async function saveApproval(approval: Omit<ApprovalRow, 'created_at'>): P
       metadata: approval.metadata,
     });
 
-  // Fire-and-forget: notify Telegram if configured
+  // Fire-and-forget: notify chat channels (Slack/Discord/Telegram) and webhooks if configured
   if (approval.status === 'pending') {
-    import('./telegramApprovals').then(({ notifyTelegramApproval }) => {
-      notifyTelegramApproval(approval as ApprovalRow).catch(() => {});
-    }).catch(() => {});
+    import('./channels/registry').then(({ notifyApprovalCreated }) => notifyApprovalCreated(approval)).catch(() => {});
+    import('./webhooks').then(({ emitWebhookEvent }) => emitWebhookEvent('approval.created', {
+      approval: { id: approval.id, type: approval.type, title: approval.title, description: approval.description, metadata: approval.metadata },
+    })).catch(() => {});
   }
 }
 
-export async function updateApprovalStatus(id: string, status: string): Promise<void> {
+/**
+ * `source` says where the decision was made ("Dashboard", "API", "Slack (@jane)");
+ * channelId is the chat channel it came from, which updates its own message.
+ */
+export async function updateApprovalStatus(
+  id: string, status: string, source?: { via: string; channelId?: string },
+): Promise<void> {
   await getSupabase()
     .from('approvals')
     .update({ status })
     .eq('id', id);
+
+  // Fire-and-forget: tell chat channels so their approve/dismiss buttons go stale
+  if (status !== 'pending') {
+    const resolvedBy = source ?? { via: typeof window !== 'undefined' ? 'Dashboard' : 'Jarvis' };
+    import('./channels/registry').then(({ notifyApprovalResolved }) => notifyApprovalResolved(id, status, resolvedBy)).catch(() => {});
+  }
 }
 
 export async function getPendingApprovalCount(): Promise<number> {
@@ -441,6 +665,10 @@ export interface MissionRow {
   due_date: string | null;
   recurring: string | null;
   recurring_mode: string | null;
+  /** IANA zone the cron is evaluated in (null = runtime zone) */
+  recurring_timezone: string | null;
+  /** Missed-run handling: 'skip' | 'once' | 'all' (null = once) */
+  recurring_catch_up: string | null;
   scheduled_for: string | null;
   created_by: string | null;
   created_at: string | null;
@@ -450,12 +678,30 @@ export interface MissionRow {
   description: string | null;
   max_runs: number | null;
   run_count: number;
+  /** mission_templates.id this mission came from (recurring: spawns children from it) */
+  template_id: string | null;
+  /** Pinned template revision (null = latest) */
+  template_version: number | null;
+  template_params: Record<string, unknown> | null;
+  /** Epic this mission is a sub-mission of (null = top level) */
+  parent_id: string | null;
+  /** Spend cap in USD over this mission and its sub-missions (null = none, see missionBudget) */
+  budget_cap: number | null;
+  /** Pre-flight cost estimate of the last dispatch plan (USD) */
+  cost_estimate: number | null;
+  /** due_date parsed in due_timezone (see missionDeadlines) */
+  deadline: string | null;
+  due_timezone: string | null;
+  /** Deadline escalation reached: 0 none, 1 priority raised, 2 reassigned, 3 Founder asked */
+  sla_stage: number;
+  /** When the mission last reached review or done (set by the database) */
+  delivered_at: string | null;
 }
 
 export async function loadMissions(): Promise<MissionRow[]> {
   const { data } = await getSupabase()
     .from('missions')
-    .select('id, title, status, assignee, priority, due_date, recurring, recurring_mode, scheduled_for, created_by, created_at, last_recurred_at, task_template, current_round, description, max_runs, run_count')
+    .select('id, title, status, assignee, priority, due_date, recurring, recurring_mode, recurring_timezone, recurring_catch_up, scheduled_for, created_by, created_at, last_recurred_at, task_template, current_round, description, max_runs, run_count, template_id, template_version, template_params, parent_id, budget_cap, cost_estimate, deadline, due_timezone, sla_stage, delivered_at')
     .order('created_at');
   // Client-side sort to match original sql.js ordering
   return ((data ?? []) as MissionRow[]).sort((a, b) => {
@@ -468,6 +714,7 @@ export async function loadMissions(): Promise<MissionRow[]> {
 }
 
 export async function saveMission(mission: Partial<MissionRow> & { id: string; title: string }): Promise<void> {
+  const deadline = await resolveDeadline(mission.due_date ?? null, mission.due_timezone);
   const { error } = await getSupabase()
     .from('missions')
     .upsert({
@@ -479,6 +726,8 @@ export async function saveMission(mission: Partial<MissionRow> & { id: string; t
       due_date: mission.due_date ?? null,
       recurring: mission.recurring ?? null,
       recurring_mode: mission.recurring_mode ?? null,
+      recurring_timezone: mission.recurring_timezone ?? null,
+      recurring_catch_up: mission.recurring_catch_up ?? null,
       created_by: mission.created_by ?? null,
       created_at: mission.created_at ?? new Date().toISOString(),
       task_template: mission.task_template ?? null,
@@ -486,6 +735,12 @@ export async function saveMission(mission: Partial<MissionRow> & { id: string; t
       description: mission.description ?? null,
       max_runs: mission.max_runs ?? null,
       run_count: mission.run_count ?? 0,
+      template_id: mission.template_id ?? null,
+      template_version: mission.template_version ?? null,
+      template_params: mission.template_params ?? null,
+      parent_id: mission.parent_id ?? null,
+      budget_cap: mission.budget_cap ?? null,
+      ...deadline,
     }, { onConflict: 'id', ignoreDuplicates: false });
   if (error) {
     console.error('[saveMission] PostgREST error:', error.message, error.details);
@@ -495,24 +750,56 @@ export async function saveMission(mission: Partial<MissionRow> & { id: string; t
 
 export async function updateMissionStatus(id: string, status: string): Promise<void> {
   await getSupabase().from('missions').update({ status }).eq('id', id);
+  notifyMissionWebhooks(id, status);
+}
+
+/** Deadline columns for a due date as typed — parsed in `timezone` (default: this runtime's zone) */
+async function resolveDeadline(dueDate: string | null, timezone?: string | null): Promise<Pick<MissionRow, 'deadline' | 'due_timezone'>> {
+  if (!dueDate?.trim()) return { deadline: null, due_timezone: null };
+  const { parseDeadline } = await import('./missionDeadlines');
+  const zone = resolveTimezone(timezone);
+  return { deadline: parseDeadline(dueDate, zone)?.toISOString() ?? null, due_timezone: zone };
+}
+
+/** Fire-and-forget: mission.completed / mission.review webhooks */
+function notifyMissionWebhooks(id: string, status: string): void {
+  if (status !== 'done' && status !== 'review') return;
+  import('./webhooks').then(({ notifyMissionStatus }) => notifyMissionStatus(id, status)).catch(() => {});
 }
 
-export async function updateMission(id: string, fields: Partial<Pick<MissionRow, 'title' | 'status' | 'assignee' | 'priority' | 'due_date' | 'recurring' | 'recurring_mode' | 'task_template' | 'current_round' | 'description' | 'max_runs' | 'run_count'>>): Promise<void> {
+export async function updateMission(id: string, fields: Partial<Pick<MissionRow, 'title' | 'status' | 'assignee' | 'priority' | 'due_date' | 'due_timezone' | 'recurring' | 'recurring_mode' | 'recurring_timezone' | 'recurring_catch_up' | 'task_template' | 'current_round' | 'description' | 'max_runs' | 'run_count' | 'template_id' | 'template_version' | 'template_params' | 'parent_id' | 'budget_cap'>>): Promise<void> {
   const update: Record<string, unknown> = {};
   if (fields.title !== undefined) update.title = fields.title;
   if (fields.status !== undefined) update.status = fields.status;
   if (fields.assignee !== undefined) update.assignee = fields.assignee;
   if (fields.priority !== undefined) update.priority = fields.priority;
-  if (fields.due_date !== undefined) update.due_date = fields.due_date;
+  if (fields.due_date !== undefined) {
+    update.due_date = fields.due_date;
+    const resolved = await resolveDeadline(fields.due_date, fields.due_timezone);
+    Object.assign(update, resolved);
+    // A moved deadline restarts the SLA escalation ladder
+    const { data: current } = await getSupabase().from('missions').select('deadline').eq('id', id).maybeSingle();
+    const before = current?.deadline ? new Date(current.deadline as string).getTime() : null;
+    const after = resolved.deadline ? new Date(resolved.deadline).getTime() : null;
+    if (before !== after) update.sla_stage = 0;
+  }
   if (fields.recurring !== undefined) update.recurring = fields.recurring;
   if (fields.recurring_mode !== undefined) update.recurring_mode = fields.recurring_mode;
+  if (fields.recurring_timezone !== undefined) update.recurring_timezone = fields.recurring_timezone;
+  if (fields.recurring_catch_up !== undefined) update.recurring_catch_up = fields.recurring_catch_up;
   if (fields.task_template !== undefined) update.task_template = fields.task_template;
   if (fields.current_round !== undefined) update.current_round = fields.current_round;
   if (fields.description !== undefined) update.description = fields.description;
   if (fields.max_runs !== undefined) update.max_runs = fields.max_runs;
   if (fields.run_count !== undefined) update.run_count = fields.run_count;
+  if (fields.template_id !== undefined) update.template_id = fields.template_id;
+  if (fields.template_version !== undefined) update.template_version = fields.template_version;
+  if (fields.template_params !== undefined) update.template_params = fields.template_params;
+  if (fields.parent_id !== undefined) update.parent_id = fields.parent_id;
+  if (fields.budget_cap !== undefined) update.budget_cap = fields.budget_cap;
   if (Object.keys(update).length === 0) return;
   await getSupabase().from('missions').update(update).eq('id', id);
+  if (fields.status) notifyMissionWebhooks(id, fields.status);
 }
 
 export async function deleteMission(id: string): Promise<void> {
@@ -941,6 +1228,11 @@ export async function saveChatMessage(msg: Omit<ChatMessageRow, 'created_at'>):
     .from('conversations')
     .update({ updated_at: new Date().toISOString() })
     .eq('id', msg.conversation_id);
+
+  // Fire-and-forget: relay CEO replies to chat channels subscribed to chat
+  if (msg.sender === 'ceo') {
+    import('./channels/registry').then(({ relayChatMessage }) => relayChatMessage(msg)).catch(() => {});
+  }
 }
 
 export async function deleteChatMessages(conversationId: string): Promise<void> {
@@ -1028,7 +1320,7 @@ export async function resetDatabase(options?: { keepMemory?: boolean; clearFinan
     'missions', 'agents', 'ceo',
     'mission_memory', 'agent_skills', 'scheduler_state',
     'ceo_action_queue', 'task_executions', 'agent_stats',
-    'mission_rounds', 'agent_questions', 'skill_schedules',
+    'mission_rounds', 'agent_questions', 'skill_schedules', 'webhook_deliveries',
   ];
 
   // Optionally preserve org memory
@@ -1221,6 +1513,33 @@ export async function saveArchivedMemory(row: Omit<ArchivedMemoryRow, 'created_a
 // Mission Rounds
 // ---------------------------------------------------------------------------
 
+/** One task of a round as it ran — kept on the round so redos and replays can be compared (see missionReplay) */
+export interface RoundTaskSnapshot {
+  task_id: string;
+  task_key: string | null;
+  skill_id: string;
+  command_name: string;
+  status: string;
+  model: string | null;
+  params: Record<string, unknown>;
+  /** Messages sent + raw reply; empty for handler / API skills */
+  conversation: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  trace: Record<string, unknown> | null;
+  output: string;
+  error: string | null;
+  tokens_used: number;
+  cost_usd: number;
+  /** Replay rounds: false when the task was carried over unchanged (nothing to re-send) */
+  replayed?: boolean;
+}
+
+export interface RoundReplayConfig {
+  /** Model the prompts were re-sent to (null = the model each task used) */
+  model: string | null;
+  /** 'recorded' re-sends the captured messages; 'current' rebuilds them from the skill as it is now */
+  prompt: 'recorded' | 'current';
+}
+
 export interface MissionRoundRow {
   id: string;
   mission_id: string;
@@ -1240,6 +1559,9 @@ export interface MissionRoundRow {
   cost_usd: number;
   duration_ms: number | null;
   task_count: number;
+  tasks: RoundTaskSnapshot[];
+  replay_of: string | null;
+  replay_config: RoundReplayConfig | null;
   started_at: string | null;
   completed_at: string | null;
   created_at: string;
@@ -1276,6 +1598,9 @@ export async function saveMissionRound(round: Partial<MissionRoundRow> & { id: s
       cost_usd: round.cost_usd ?? 0,
       duration_ms: round.duration_ms ?? null,
       task_count: round.task_count ?? 0,
+      tasks: round.tasks ?? [],
+      replay_of: round.replay_of ?? null,
+      replay_config: round.replay_config ?? null,
       started_at: round.started_at ?? null,
       completed_at: round.completed_at ?? null,
     }, { onConflict: 'id' });
@@ -1363,6 +1688,11 @@ export interface SkillScheduleRow {
   frequency: 'hourly' | 'every_4h' | 'daily' | 'weekly' | 'monthly';
   run_at_time: string;
   run_on_day: number | null;
+  /** Cron override — when set it replaces the frequency preset */
+  cron: string | null;
+  /** IANA zone the schedule is evaluated in (null = runtime zone) */
+  timezone: string | null;
+  catch_up: 'skip' | 'once' | 'all' | null;
   params: Record<string, unknown>;
   enabled: boolean;
   last_run_at: string | null;
@@ -1423,6 +1753,52 @@ export async function updateSkillScheduleRun(id: string, lastRun: string, nextRu
   if (error) console.error('updateSkillScheduleRun failed:', error);
 }
 
+// ---------------------------------------------------------------------------
+// Model Registry CRUD
+// ---------------------------------------------------------------------------
+
+export interface ModelRegistryRow {
+  id: string;              // display name, e.g. "Claude Opus 4.6"
+  service: string;
+  api_id: string;
+  input_cost: number;      // USD per 1M tokens
+  output_cost: number;
+  selectable: boolean;
+  sort_order: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export async function loadModelRegistryRows(): Promise<ModelRegistryRow[]> {
+  const { data, error } = await getSupabase()
+    .from('model_registry')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('id', { ascending: true });
+  if (error) {
+    console.warn('loadModelRegistryRows failed:', error.message);
+    return [];
+  }
+  return (data ?? []) as ModelRegistryRow[];
+}
+
+export async function saveModelRegistryRows(rows: ModelRegistryRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const now = new Date().toISOString();
+  const { error } = await getSupabase()
+    .from('model_registry')
+    .upsert(rows.map(r => ({ ...r, updated_at: now })), { onConflict: 'id' });
+  if (error) console.error('saveModelRegistryRows failed:', error);
+}
+
+export async function deleteModelRegistryRow(id: string): Promise<void> {
+  await getSupabase().from('model_registry').delete().eq('id', id);
+}
+
+export async function deleteModelRegistryRowsByService(service: string): Promise<void> {
+  await getSupabase().from('model_registry').delete().eq('service', service);
+}
+
 // ---------------------------------------------------------------------------
 // Persistence — no-op (Supabase handles it)
 // ---------------------------------------------------------------------------
@@ -16,7 +16,8 @@ import type {
   CLICommandTemplate,
 } from './skillResolver';
 import type { SkillExecutionOptions, SkillExecutionResult } from './skillExecutor';
-import { getVaultEntryByService, updateVaultEntry, logAudit } from './database';
+import { getVaultEntryByService, logAudit } from './database';
+import { refreshOAuthSecret } from './vaultRotation';
 import { uploadGeneratedImage, base64ToBlob } from './storageUpload';
 import { logUsage } from './llmUsage';
 
@@ -38,50 +39,13 @@ async function resolveOAuthToken(
   }
   if (!tokens.access_token) return { accessToken: vaultKeyValue };
 
-  // 2. Check expiry (refresh if within 5 minutes)
+  // 2. Refresh if within 5 minutes of expiry (the CEO tick usually gets there first — see vaultRotation)
   const FIVE_MIN = 5 * 60 * 1000;
   if (tokens.expires_at && Date.now() > tokens.expires_at - FIVE_MIN) {
-    // 3. Get client credentials from vault
-    const providerName = skill.oauthConfig?.provider ?? 'Google';
-    const clientEntry = await getVaultEntryByService(`${providerName} OAuth Client`);
-    if (!clientEntry) {
-      return { accessToken: '', error: 'No OAuth client credentials found in vault' };
-    }
-    const client = JSON.parse(clientEntry.key_value);
-
-    // 4. Refresh token
-    const tokenUrl = skill.oauthConfig?.token_url ?? 'https://oauth2.googleapis.com/token';
-    const resp = await fetch('/api/oauth/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        grant_type: 'refresh_token',
-        refresh_token: tokens.refresh_token,
-        client_id: client.client_id,
-        client_secret: client.client_secret,
-        token_url: tokenUrl,
-      }),
-    });
-    if (!resp.ok) {
-      return { accessToken: '', error: `Token refresh failed: ${resp.status}` };
-    }
-    const refreshed = await resp.json();
-
-    // 5. Update vault with new tokens
-    const vaultService = skill.apiConfig?.vault_service;
-    if (vaultService) {
-      const entry = await getVaultEntryByService(vaultService);
-      if (entry) {
-        await updateVaultEntry(entry.id, {
-          key_value: JSON.stringify({
-            access_token: refreshed.access_token,
-            refresh_token: refreshed.refresh_token ?? tokens.refresh_token,
-            expires_at: Date.now() + (refreshed.expires_in ?? 3600) * 1000,
-          }),
-        });
-      }
-    }
-    return { accessToken: refreshed.access_token };
+    return refreshOAuthSecret({
+      ...skill,
+      oauthConfig: skill.oauthConfig ?? { provider: 'Google', token_url: 'https://oauth2.googleapis.com/token' },
+    }, tokens);
   }
 
   return { accessToken: tokens.access_token };
@@ -375,7 +339,7 @@ export async function executeDeclarative(
     let apiKey: string | null = null;
     const vaultService = skill.apiConfig?.vault_service;
     if (vaultService && vaultService !== 'none') {
-      const entry = await getVaultEntryByService(vaultService);
+      const entry = await getVaultEntryByService(vaultService, { context: 'skill_credential', skill, agentId: options.agentId });
       if (!entry) {
         return {
           success: false,
@@ -546,6 +510,7 @@ export async function executeDeclarative(
         outputTokens: 0,
         context: 'skill_execution',
         agentId: options.agentId,
+        skillId: skill.id,
         missionId: options.missionId,
         costOverride: ctx.costUsd,
       }).catch(() => {});
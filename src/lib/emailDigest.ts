@@ -0,0 +1,310 @@
+/**
+ * Email Digest — daily / weekly founder summary
+ * ==============================================
+ * On each CEO tick, checkEmailDigests() looks for enabled email channels whose
+ * schedule (daily or weekly at a local time, via the cron engine) has a fire
+ * time since their last digest. For each, it gathers the period's graded
+ * missions (MissionScore from mission_rounds), spend against monthly_budget,
+ * pending approvals, new collateral and the archived memories written by
+ * consolidateDailyMemories, renders HTML + text, and queues the result for
+ * the sidecar's SMTP transport (lib/channels/email).
+ *
+ * The channel's `last_digest_at` doubles as a claim: it's advanced with a
+ * compare-and-set, so a browser tick and the sidecar never both send.
+ */
+
+import { getSupabase } from './supabase';
+import { getSetting, loadApprovals, logAudit, type ChannelRow } from './database';
+import { getCurrentMonthSpend } from './llmUsage';
+import { frequencyToCron, previousRun } from './cronParser';
+import { enqueueDeliveries } from './webhooks';
+import { emailConfig, type EmailChannelConfig } from './channels/email';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LIST_ITEMS = 20;
+
+// ---------------------------------------------------------------------------
+// Data
+// ---------------------------------------------------------------------------
+
+export interface DigestMission {
+  id: string;
+  title: string;
+  status: string;
+  round: number;
+  grade: string | null;
+  overall: number | null;
+  review: string | null;
+}
+
+export interface DigestData {
+  frequency: EmailChannelConfig['frequency'];
+  since: string;
+  until: string;
+  missions: DigestMission[];
+  spend: { period: number; month: number; budget: number | null };
+  approvals: { id: string; type: string; title: string; created_at: string }[];
+  collateral: { id: string; title: string; summary: string; completed_at: string }[];
+  /** consolidateDailyMemories output — daily digest lines first, then per-topic */
+  memories: { day: string; topic: string | null; text: string }[];
+}
+
+export async function buildDigest(
+  since: Date, until: Date, frequency: EmailChannelConfig['frequency'],
+): Promise<DigestData> {
+  const sb = getSupabase();
+  const from = since.toISOString();
+  const to = until.toISOString();
+
+  const [rounds, llm, channelCost, month, budgetStr, approvals, tasks, archived] = await Promise.all([
+    sb.from('mission_rounds')
+      .select('mission_id, round_number, status, overall_score, grade, ceo_review, completed_at')
+      .gte('completed_at', from).lt('completed_at', to)
+      .is('replay_of', null)
+      .order('completed_at', { ascending: false }),
+    sb.from('llm_usage').select('estimated_cost').gte('created_at', from).lt('created_at', to),
+    sb.from('channel_usage').select('cost').gte('created_at', from).lt('created_at', to),
+    getCurrentMonthSpend(),
+    getSetting('monthly_budget'),
+    loadApprovals(),
+    sb.from('task_executions')
+      .select('id, skill_id, command_name, result, completed_at')
+      .eq('status', 'completed')
+      .not('result', 'is', null)
+      .gte('completed_at', from).lt('completed_at', to)
+      .order('completed_at', { ascending: false })
+      .limit(MAX_LIST_ITEMS),
+    sb.from('archived_memories')
+      .select('day, topic, consolidated, importance')
+      .gte('created_at', from).lt('created_at', to)
+      .order('importance', { ascending: false }),
+  ]);
+
+  const roundRows = (rounds.data ?? []) as Record<string, unknown>[];
+  const missionIds = [...new Set(roundRows.map(r => r.mission_id as string))];
+  const { data: missionRows } = missionIds.length > 0
+    ? await sb.from('missions').select('id, title, status').in('id', missionIds)
+    : { data: [] };
+  const missionById = new Map(((missionRows ?? []) as { id: string; title: string; status: string }[]).map(m => [m.id, m]));
+
+  const budget = budgetStr ? parseFloat(budgetStr) : NaN;
+  const sum = (rows: Record<string, unknown>[] | null, key: string) => (rows ?? []).reduce((s, r) => s + ((r[key] as number) ?? 0), 0);
+  const memoryRows = (archived.data ?? []) as Record<string, unknown>[];
+
+  return {
+    frequency,
+    since: from,
+    until: to,
+    missions: roundRows.map(r => {
+      const mission = missionById.get(r.mission_id as string);
+      return {
+        id: r.mission_id as string,
+        title: mission?.title ?? (r.mission_id as string),
+        status: mission?.status ?? (r.status as string),
+        round: r.round_number as number,
+        grade: (r.grade as string) ?? null,
+        overall: (r.overall_score as number) ?? null,
+        review: (r.ceo_review as string) ?? null,
+      };
+    }),
+    spend: {
+      period: sum(llm.data, 'estimated_cost') + sum(channelCost.data, 'cost'),
+      month: month.total,
+      budget: Number.isFinite(budget) ? budget : null,
+    },
+    approvals: approvals.map(a => ({ id: a.id, type: a.type, title: a.title, created_at: a.created_at })),
+    collateral: ((tasks.data ?? []) as Record<string, unknown>[]).map(t => {
+      const result = (t.result ?? {}) as Record<string, unknown>;
+      const output = typeof result.output === 'string' ? result.output : '';
+      return {
+        id: t.id as string,
+        title: `${t.skill_id ?? 'task'}${t.command_name ? ` / ${t.command_name}` : ''}`,
+        summary: (typeof result.summary === 'string' && result.summary) || output.replace(/\s+/g, ' ').slice(0, 160),
+        completed_at: t.completed_at as string,
+      };
+    }),
+    memories: [
+      ...memoryRows.filter(m => m.topic === null),
+      ...memoryRows.filter(m => m.topic !== null),
+    ].slice(0, MAX_LIST_ITEMS).map(m => ({ day: m.day as string, topic: (m.topic as string) ?? null, text: m.consolidated as string })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+function esc(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function money(n: number): string {
+  return `$${n.toFixed(2)}`;
+}
+
+function shortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+const GRADE_COLORS: Record<string, string> = { A: '#059669', B: '#0891b2', C: '#d97706', D: '#dc2626', F: '#dc2626' };
+
+export function digestSubject(d: DigestData): string {
+  const label = d.frequency === 'weekly' ? 'Weekly' : 'Daily';
+  return `Jarvis ${label} Digest — ${d.missions.length} mission${d.missions.length === 1 ? '' : 's'}, ${d.approvals.length} pending approval${d.approvals.length === 1 ? '' : 's'}`;
+}
+
+function section(title: string, body: string): string {
+  return `
+  <tr><td style="padding:20px 24px 4px;font:600 12px/1.4 Helvetica,Arial,sans-serif;letter-spacing:1px;color:#0891b2;text-transform:uppercase">${esc(title)}</td></tr>
+  <tr><td style="padding:4px 24px 12px;font:14px/1.5 Helvetica,Arial,sans-serif;color:#1f2937">${body}</td></tr>`;
+}
+
+function emptyLine(text: string): string {
+  return `<span style="color:#6b7280">${esc(text)}</span>`;
+}
+
+export function renderDigestHtml(d: DigestData): string {
+  const budgetPct = d.spend.budget ? Math.round((d.spend.month / d.spend.budget) * 100) : null;
+  const barColor = budgetPct === null ? '#0891b2' : budgetPct >= 100 ? '#dc2626' : budgetPct >= 80 ? '#d97706' : '#059669';
+
+  const missions = d.missions.length === 0 ? emptyLine('No missions were graded this period.') : `
+    <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse">
+      ${d.missions.map(m => `
+      <tr>
+        <td style="padding:6px 0;border-bottom:1px solid #e5e7eb;width:44px;vertical-align:top">
+          <span style="display:inline-block;min-width:28px;text-align:center;padding:2px 4px;border-radius:4px;font-weight:700;color:#fff;background:${GRADE_COLORS[(m.grade ?? 'F').charAt(0)] ?? '#6b7280'}">${esc(m.grade ?? '—')}</span>
+        </td>
+        <td style="padding:6px 0;border-bottom:1px solid #e5e7eb">
+          <strong>${esc(m.title)}</strong>${m.round > 1 ? ` <span style="color:#6b7280">(round ${m.round})</span>` : ''}
+          ${m.overall !== null ? `<span style="color:#6b7280"> · ${m.overall}/100 · ${esc(m.status)}</span>` : ''}
+          ${m.review ? `<div style="color:#4b5563;font-size:13px">${esc(m.review)}</div>` : ''}
+        </td>
+      </tr>`).join('')}
+    </table>`;
+
+  const spend = `
+    <div>This ${d.frequency === 'weekly' ? 'week' : 'day'}: <strong>${money(d.spend.period)}</strong> · Month to date: <strong>${money(d.spend.month)}</strong>${d.spend.budget ? ` of ${money(d.spend.budget)} (${budgetPct}%)` : ' — no monthly budget set'}</div>
+    ${budgetPct !== null ? `
+    <div style="margin-top:6px;height:8px;background:#e5e7eb;border-radius:4px;overflow:hidden">
+      <div style="height:8px;width:${Math.min(100, budgetPct)}%;background:${barColor}"></div>
+    </div>` : ''}`;
+
+  const approvals = d.approvals.length === 0 ? emptyLine('Nothing waiting on you.') : `
+    <ul style="margin:0;padding-left:18px">
+      ${d.approvals.map(a => `<li><strong>${esc(a.title)}</strong> <span style="color:#6b7280">· ${esc(a.type.replace(/_/g, ' '))} · since ${shortDate(a.created_at)}</span></li>`).join('')}
+    </ul>`;
+
+  const collateral = d.collateral.length === 0 ? emptyLine('No new collateral.') : `
+    <ul style="margin:0;padding-left:18px">
+      ${d.collateral.map(c => `<li><strong>${esc(c.title)}</strong> <span style="color:#6b7280">· ${shortDate(c.completed_at)}</span>${c.summary ? `<div style="color:#4b5563;font-size:13px">${esc(c.summary)}</div>` : ''}</li>`).join('')}
+    </ul>`;
+
+  const memories = d.memories.length === 0 ? emptyLine('No memory consolidation this period.') : `
+    <ul style="margin:0;padding-left:18px">
+      ${d.memories.map(m => `<li>${m.topic ? `<strong>${esc(m.topic)}:</strong> ` : `<strong>${shortDate(m.day)}:</strong> `}${esc(m.text)}</li>`).join('')}
+    </ul>`;
+
+  return `<!DOCTYPE html>
+<html><body style="margin:0;padding:24px 0;background:#f3f4f6">
+<table width="600" align="center" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;border-top:4px solid #06b6d4">
+  <tr><td style="padding:24px 24px 0;font:700 20px/1.3 Helvetica,Arial,sans-serif;color:#111827">${esc(digestSubject(d).split(' — ')[0])}</td></tr>
+  <tr><td style="padding:4px 24px 0;font:13px/1.4 Helvetica,Arial,sans-serif;color:#6b7280">${shortDate(d.since)} – ${shortDate(d.until)}</td></tr>
+  ${section('Missions', missions)}
+  ${section('Spend', spend)}
+  ${section(`Pending approvals (${d.approvals.length})`, approvals)}
+  ${section('New collateral', collateral)}
+  ${section('Memory', memories)}
+  <tr><td style="padding:16px 24px 24px;font:12px/1.4 Helvetica,Arial,sans-serif;color:#9ca3af">Sent by your Jarvis Inc CEO. Change the schedule in Vault → Channels.</td></tr>
+</table>
+</body></html>`;
+}
+
+export function renderDigestText(d: DigestData): string {
+  const lines: string[] = [digestSubject(d), `${shortDate(d.since)} – ${shortDate(d.until)}`, '', 'MISSIONS'];
+  if (d.missions.length === 0) lines.push('  No missions were graded this period.');
+  for (const m of d.missions) {
+    lines.push(`  [${m.grade ?? '—'}] ${m.title}${m.overall !== null ? ` (${m.overall}/100, ${m.status})` : ''}`);
+    if (m.review) lines.push(`      ${m.review}`);
+  }
+  lines.push('', 'SPEND', `  Period: ${money(d.spend.period)} · Month to date: ${money(d.spend.month)}${d.spend.budget ? ` of ${money(d.spend.budget)}` : ''}`);
+  lines.push('', `PENDING APPROVALS (${d.approvals.length})`);
+  for (const a of d.approvals) lines.push(`  - ${a.title} (${a.type.replace(/_/g, ' ')})`);
+  lines.push('', 'NEW COLLATERAL');
+  if (d.collateral.length === 0) lines.push('  No new collateral.');
+  for (const c of d.collateral) lines.push(`  - ${c.title}${c.summary ? `: ${c.summary}` : ''}`);
+  lines.push('', 'MEMORY');
+  if (d.memories.length === 0) lines.push('  No memory consolidation this period.');
+  for (const m of d.memories) lines.push(`  - ${m.topic ? `${m.topic}: ` : `${shortDate(m.day)}: `}${m.text}`);
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+export function digestCron(config: Pick<EmailChannelConfig, 'frequency' | 'send_time' | 'send_day'>): string {
+  return frequencyToCron(config.frequency, config.send_time, config.send_day);
+}
+
+function periodMs(config: EmailChannelConfig): number {
+  return config.frequency === 'weekly' ? 7 * DAY_MS : DAY_MS;
+}
+
+async function queueDigest(channel: ChannelRow, since: Date, until: Date): Promise<DigestData> {
+  const digest = await buildDigest(since, until, emailConfig(channel).frequency);
+  await enqueueDeliveries([channel], 'digest', {
+    subject: digestSubject(digest),
+    html: renderDigestHtml(digest),
+    text: renderDigestText(digest),
+    since: digest.since,
+    until: digest.until,
+  });
+  return digest;
+}
+
+/** Advance last_digest_at only if nobody else has since the channel was read */
+async function claimDigest(channel: ChannelRow, config: EmailChannelConfig, now: Date): Promise<boolean> {
+  let query = getSupabase()
+    .from('notification_channels')
+    .update({ config: { ...channel.config, last_digest_at: now.toISOString() } })
+    .eq('id', channel.id);
+  query = config.last_digest_at
+    ? query.eq('config->>last_digest_at', config.last_digest_at)
+    : query.is('config->>last_digest_at', null);
+  const { data } = await query.select('id');
+  return !!data && data.length > 0;
+}
+
+/** Queue every email digest whose scheduled time has passed. Returns how many were queued. */
+export async function checkEmailDigests(now: Date = new Date()): Promise<number> {
+  const { data } = await getSupabase()
+    .from('notification_channels')
+    .select('*')
+    .eq('type', 'email')
+    .eq('enabled', true);
+
+  let queued = 0;
+  for (const channel of (data ?? []) as ChannelRow[]) {
+    const config = emailConfig(channel);
+    if (!config.smtp_host || !config.to) continue;
+
+    const slot = previousRun(digestCron(config), now, config.timezone || null);
+    const last = config.last_digest_at ?? channel.created_at ?? null;
+    if (!slot || (last && new Date(last) >= slot)) continue;
+    if (!(await claimDigest(channel, config, now))) continue;
+
+    const since = config.last_digest_at ? new Date(config.last_digest_at) : new Date(now.getTime() - periodMs(config));
+    const digest = await queueDigest(channel, since, now);
+    await logAudit('CEO', 'EMAIL_DIGEST', `Queued ${config.frequency} digest to ${config.to} (${digest.missions.length} missions, ${digest.approvals.length} approvals)`, 'info');
+    queued++;
+  }
+  return queued;
+}
+
+/** Queue a digest right now (Vault "Send now") without moving the schedule */
+export async function sendDigestNow(channel: ChannelRow): Promise<void> {
+  const config = emailConfig(channel);
+  const now = new Date();
+  const since = config.last_digest_at ? new Date(config.last_digest_at) : new Date(now.getTime() - periodMs(config));
+  await queueDigest(channel, since, now);
+}
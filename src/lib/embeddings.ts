@@ -0,0 +1,177 @@
+/**
+ * Embeddings — pluggable text → vector backends for semantic memory
+ * ==================================================================
+ * org_memory.embedding is VECTOR(1536). Every backend returns vectors of
+ * exactly that width: shorter model outputs are zero-padded (cosine
+ * similarity is unchanged by padding), longer ones are rejected.
+ *
+ * Backends:
+ *   openai — text-embedding-3-small via the OpenAI Vault key
+ *   local  — any OpenAI-compatible /v1/embeddings server (Ollama, llama.cpp,
+ *            LM Studio) configured under the "Local" Vault entry
+ *   hash   — feature-hashed bag of words; no network, no model, always available
+ *
+ * Each row records the `embedding_model` that produced it, so switching
+ * backends never compares vectors from different spaces — the backfill job
+ * simply re-embeds rows whose model differs from the active one.
+ *
+ * The choice lives in settings under `memory_embedding` (JSON).
+ */
+
+import { getSetting, setSetting, getVaultEntryByService } from './database';
+import { LOCAL_SERVICE } from './models';
+import { parseLocalEndpoint } from './llm/providers/openai';
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export type EmbeddingBackendId = 'auto' | 'openai' | 'local' | 'hash' | 'off';
+
+export interface EmbeddingConfig {
+  /** 'auto' = OpenAI when a key is in the Vault, otherwise the offline hash backend */
+  backend: EmbeddingBackendId;
+  /** Model ID for the openai/local backends (e.g. "nomic-embed-text") */
+  model: string;
+}
+
+const SETTING_KEY = 'memory_embedding';
+const OPENAI_DEFAULT_MODEL = 'text-embedding-3-small';
+const LOCAL_DEFAULT_MODEL = 'nomic-embed-text';
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  backend: 'auto',
+  model: '',
+};
+
+export async function loadEmbeddingConfig(): Promise<EmbeddingConfig> {
+  try {
+    const raw = await getSetting(SETTING_KEY);
+    return raw ? { ...DEFAULT_EMBEDDING_CONFIG, ...JSON.parse(raw) } : DEFAULT_EMBEDDING_CONFIG;
+  } catch {
+    return DEFAULT_EMBEDDING_CONFIG;
+  }
+}
+
+export async function saveEmbeddingConfig(config: EmbeddingConfig): Promise<void> {
+  await setSetting(SETTING_KEY, JSON.stringify(config));
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export interface Embedder {
+  /** Identifies the vector space, stored in org_memory.embedding_model */
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const isBrowser = typeof window !== 'undefined';
+const OPENAI_EMBEDDINGS_URL = isBrowser ? '/api/openai/v1/embeddings' : 'https://api.openai.com/v1/embeddings';
+
+async function postEmbeddings(
+  url: string, token: string, model: string, input: string[], extra: Record<string, unknown> = {},
+): Promise<number[][]> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ model, input, ...extra }),
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => '');
+    throw new Error(`Embeddings API ${res.status}: ${body.slice(0, 200) || res.statusText}`);
+  }
+  const json = await res.json() as { data?: { index: number; embedding: number[] }[] };
+  return (json.data ?? [])
+    .sort((a, b) => a.index - b.index)
+    .map(d => fitDimensions(d.embedding));
+}
+
+function fitDimensions(vec: number[]): number[] {
+  if (vec.length > EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding has ${vec.length} dimensions; org_memory holds at most ${EMBEDDING_DIMENSIONS}`);
+  }
+  return vec.length === EMBEDDING_DIMENSIONS
+    ? vec
+    : [...vec, ...new Array(EMBEDDING_DIMENSIONS - vec.length).fill(0)];
+}
+
+function openaiEmbedder(apiKey: string, model: string): Embedder {
+  return {
+    model: `openai:${model}`,
+    // text-embedding-3-* can be shortened server-side to fit the column
+    embed: texts => postEmbeddings(OPENAI_EMBEDDINGS_URL, apiKey, model, texts, { dimensions: EMBEDDING_DIMENSIONS }),
+  };
+}
+
+function localEmbedder(vaultValue: string, model: string): Embedder {
+  const { baseUrl, apiKey } = parseLocalEndpoint(vaultValue);
+  return {
+    model: `local:${model}`,
+    embed: texts => postEmbeddings(`${baseUrl}/v1/embeddings`, apiKey, model, texts),
+  };
+}
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Offline fallback: signed feature hashing of word unigrams + bigrams,
+ * L2-normalized. Captures lexical overlap only, but needs nothing installed.
+ */
+export function hashEmbedding(text: string): number[] {
+  const vec = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+  for (const feature of features) {
+    const h = fnv1a(feature);
+    vec[h % EMBEDDING_DIMENSIONS] += (h & 0x80000000) ? -1 : 1;
+  }
+  const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vec.map(v => v / norm) : vec;
+}
+
+const hashEmbedder: Embedder = {
+  model: 'hash:v1',
+  embed: async texts => texts.map(hashEmbedding),
+};
+
+/**
+ * Resolve the active embedder from settings + Vault.
+ * Returns null when embeddings are switched off or the chosen backend has no credentials.
+ */
+export async function getEmbedder(): Promise<Embedder | null> {
+  const config = await loadEmbeddingConfig();
+  switch (config.backend) {
+    case 'off':
+      return null;
+    case 'hash':
+      return hashEmbedder;
+    case 'local': {
+      const entry = await getVaultEntryByService(LOCAL_SERVICE, { context: 'embeddings' });
+      return entry ? localEmbedder(entry.key_value, config.model || LOCAL_DEFAULT_MODEL) : null;
+    }
+    case 'openai': {
+      const entry = await getVaultEntryByService('OpenAI', { context: 'embeddings' });
+      return entry ? openaiEmbedder(entry.key_value, config.model || OPENAI_DEFAULT_MODEL) : null;
+    }
+    case 'auto':
+    default: {
+      const entry = await getVaultEntryByService('OpenAI', { context: 'embeddings' });
+      return entry ? openaiEmbedder(entry.key_value, OPENAI_DEFAULT_MODEL) : hashEmbedder;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Gateway Auth — bearer tokens for the workspace gateway
+ * =======================================================
+ * Only the gateway mints tokens: it signs each one with a secret it never
+ * hands out (docker/gateway/auth.ts), so nothing written to the vault table
+ * can forge one. A token spells out its scopes and carries the signature:
+ * `jgw_<scopes>_<id>_<sig>`, e.g. `jgw_exec.read_…`.
+ *   - exec    — run handlers (/exec, /exec-skill) and the OAuth token proxy;
+ *   - install — write skill packages and workspace handlers, mint tokens;
+ *   - read    — list apps, handlers and installed skills.
+ *
+ * A token works only while its Vault entry — type "token" under the
+ * `Jarvis Gateway` service, id `vault-gateway-<id>` — exists: the entry names
+ * it, may set an expiry, and deleting it revokes the token within the
+ * gateway's 30-second cache. The entry holds only the token's SHA-256
+ * (`sha256:<hex>`); the token itself is shown once.
+ *
+ * The first token comes from the gateway container
+ * (`docker compose exec jarvis-gateway npx tsx mint-token.ts`); pasting it into
+ * the Vault with "Use in this dashboard" pairs it with this browser, which
+ * keeps it in localStorage. A paired token with `install` can mint more from
+ * the Vault form.
+ */
+
+import { saveVaultEntry, vaultEntryExists, logAudit } from './database';
+
+export const GATEWAY_TOKEN_SERVICE = 'Jarvis Gateway';
+export const GATEWAY_TOKEN_PREFIX = 'jgw_';
+export const GATEWAY_TOKEN_HASH_PREFIX = 'sha256:';
+
+export const GATEWAY_SCOPES = ['exec', 'install', 'read'] as const;
+export type GatewayScope = typeof GATEWAY_SCOPES[number];
+
+export const GATEWAY_SCOPE_LABELS: Record<GatewayScope, string> = {
+  exec: 'Run handlers',
+  install: 'Install skills',
+  read: 'List workspace',
+};
+
+/** Re-check that our own token's entry still exists this often */
+const TOKEN_CACHE_MS = 5 * 60_000;
+const LOCAL_TOKEN_KEY = 'jarvis_gateway_token';
+const TOKEN_PATTERN = /^jgw_([a-z.]+)_([0-9a-f]{32})_[0-9a-f]{64}$/;
+
+interface OwnToken { id: string; token: string }
+
+let cached: { own: OwnToken | null; at: number } | null = null;
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+function gatewayUrl(): string {
+  return (import.meta as any).env?.VITE_GATEWAY_URL || 'http://localhost:3001';
+}
+
+/** Scopes a token grants — empty if it isn't a gateway token */
+export function gatewayTokenScopes(token: string): GatewayScope[] {
+  const match = token.match(TOKEN_PATTERN);
+  if (!match) return [];
+  return match[1].split('.').filter((s): s is GatewayScope => (GATEWAY_SCOPES as readonly string[]).includes(s));
+}
+
+/** The Vault entry id a token must be saved under — null if it isn't a gateway token */
+export function gatewayTokenEntryId(token: string): string | null {
+  const match = token.match(TOKEN_PATTERN);
+  return match ? `vault-gateway-${match[2]}` : null;
+}
+
+/** What the Vault stores for a gateway token */
+export async function hashGatewayToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return GATEWAY_TOKEN_HASH_PREFIX + hex(new Uint8Array(digest));
+}
+
+export function isGatewayTokenHash(value: string): boolean {
+  return /^sha256:[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Ask the gateway for a new token. Needs this dashboard's token to carry
+ * `install`; the gateway never grants a scope that token lacks.
+ */
+export async function mintGatewayToken(scopes: readonly GatewayScope[]): Promise<string> {
+  const resp = await gatewayFetch(`${gatewayUrl()}/api/tokens`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scopes }),
+  });
+  const data = await resp.json().catch(() => ({})) as { token?: string; error?: string };
+  if (!resp.ok || !data.token) {
+    throw new Error(resp.status === 401
+      ? 'This dashboard has no working gateway token — pair one first (see README "Gateway Auth")'
+      : data.error ?? `Gateway answered ${resp.status}`);
+  }
+  return data.token;
+}
+
+function readLocalToken(): OwnToken | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOCAL_TOKEN_KEY) ?? 'null') as OwnToken | null;
+    // Tokens from before the gateway signed them no longer verify
+    return stored?.token && gatewayTokenEntryId(stored.token) === stored.id ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Use `token` for this dashboard's gateway calls. Saves its Vault entry if it
+ * has none yet, so a token fresh from mint-token.ts works straight away.
+ */
+export async function pairGatewayToken(token: string, name = 'Dashboard'): Promise<void> {
+  const id = gatewayTokenEntryId(token);
+  if (!id) throw new Error('Not a gateway token — mint one with the gateway (see README "Gateway Auth")');
+  if (!await vaultEntryExists(id)) {
+    await saveVaultEntry({ id, name, type: 'token', service: GATEWAY_TOKEN_SERVICE, key_value: await hashGatewayToken(token) });
+  }
+  localStorage.setItem(LOCAL_TOKEN_KEY, JSON.stringify({ id, token }));
+  cached = null;
+  await logAudit(null, 'GATEWAY_TOKEN_PAIRED', `This dashboard now calls the gateway with token [${id}] (${gatewayTokenScopes(token).join(', ')})`, 'info');
+}
+
+/** This dashboard's paired token — null if none, or its Vault entry was deleted */
+async function ownToken(): Promise<OwnToken | null> {
+  if (cached && Date.now() - cached.at < TOKEN_CACHE_MS) return cached.own;
+  const known = readLocalToken();
+  const own = known && await vaultEntryExists(known.id) ? known : null;
+  cached = { own, at: Date.now() };
+  return own;
+}
+
+/**
+ * Authorization header for gateway calls, with this dashboard's paired token.
+ * Returns no header while none is paired — the gateway then answers 401.
+ */
+export async function gatewayHeaders(): Promise<Record<string, string>> {
+  try {
+    const own = await ownToken();
+    return own ? { Authorization: `Bearer ${own.token}` } : {};
+  } catch (err) {
+    console.warn('[GatewayAuth] No gateway token available:', err);
+    return {};
+  }
+}
+
+/** Re-check our token against the Vault on the next call (after it is revoked) */
+export function forgetGatewayToken(): void {
+  if (cached) cached.at = 0;
+}
+
+// A token deleted in the Vault is re-checked on the next call
+if (typeof window !== 'undefined') window.addEventListener('vault-changed', forgetGatewayToken);
+
+/** fetch() to the gateway with this dashboard's bearer token */
+export async function gatewayFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const resp = await fetch(url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), ...(await gatewayHeaders()) },
+  });
+  if (resp.status === 401) forgetGatewayToken();
+  return resp;
+}
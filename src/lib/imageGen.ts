@@ -7,7 +7,7 @@
  * Returns null if no provider is available.
  */
 
-import { getVaultEntryByService } from './database';
+import { getVaultEntryByService, findVaultEntry } from './database';
 
 export interface ImageGenResult {
   base64: string;
@@ -20,7 +20,7 @@ export interface ImageGenResult {
  */
 export async function generateImage(prompt: string): Promise<ImageGenResult | null> {
   // 1. Try OpenAI (gpt-image-1 / dall-e-3)
-  const openaiEntry = await getVaultEntryByService('OpenAI');
+  const openaiEntry = await getVaultEntryByService('OpenAI', { context: 'image_generation' });
   if (openaiEntry) {
     try {
       const result = await generateWithOpenAI(openaiEntry.key_value, prompt);
@@ -31,7 +31,7 @@ export async function generateImage(prompt: string): Promise<ImageGenResult | nu
   }
 
   // 2. Try Google (Imagen 3)
-  const googleEntry = await getVaultEntryByService('Google');
+  const googleEntry = await getVaultEntryByService('Google', { context: 'image_generation' });
   if (googleEntry) {
     try {
       const result = await generateWithGoogle(googleEntry.key_value, prompt);
@@ -48,9 +48,9 @@ export async function generateImage(prompt: string): Promise<ImageGenResult | nu
  * Check if any image-capable API key exists in the vault.
  */
 export async function isImageGenAvailable(): Promise<boolean> {
-  const openai = await getVaultEntryByService('OpenAI');
+  const openai = await findVaultEntry('OpenAI', { context: 'image_generation' });
   if (openai) return true;
-  const google = await getVaultEntryByService('Google');
+  const google = await findVaultEntry('Google', { context: 'image_generation' });
   if (google) return true;
   return false;
 }
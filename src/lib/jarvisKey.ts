@@ -60,7 +60,7 @@ export interface KeyFileData {
 // Helpers
 // ---------------------------------------------------------------------------
 
-function bufferToBase64(buf: ArrayBuffer): string {
+export function bufferToBase64(buf: ArrayBuffer): string {
   const bytes = new Uint8Array(buf);
   let binary = '';
   for (let i = 0; i < bytes.byteLength; i++) {
@@ -69,7 +69,7 @@ function bufferToBase64(buf: ArrayBuffer): string {
   return btoa(binary);
 }
 
-function base64ToBuffer(b64: string): ArrayBuffer {
+export function base64ToBuffer(b64: string): ArrayBuffer {
   const binary = atob(b64);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
@@ -1,41 +1,37 @@
-import type { LLMMessage, StreamCallbacks, LLMProvider } from './types';
+import type { LLMMessage, StreamCallbacks, LLMToolDefinition } from './types';
 import { logUsage, getCurrentMonthSpend } from '../llmUsage';
+import { checkSpendAllocations } from '../budgetAllocations';
 import { getSupabase } from '../supabase';
 import type { ChatMessageRow } from '../database';
 import {
   loadCEO, getFounderInfo, getSetting,
   loadAgents, loadSkills, loadMissions,
-  getVaultEntryByService, logAudit,
+  getVaultEntryByService, findVaultEntry, logAudit,
   saveApproval, saveChatMessage, loadApprovals,
-  getPrompt,
+  getPrompt, updateCEOFallback,
 } from '../database';
 import { MODEL_SERVICE_MAP, MODEL_API_IDS } from '../models';
+import { loadTemplateCatalog } from '../missionTemplates';
 
 /** Strip base64 data URIs from message text to avoid sending megabytes to the LLM. */
 function stripBase64(text: string): string {
   return text.replace(/data:[^;]+;base64,[A-Za-z0-9+/=]{200,}/g, '[image]');
 }
+
+/** A saved reply as replayed to the model — with the tool calls it made, which its text lacks */
+function assistantHistoryContent(msg: ChatMessageRow): string {
+  const calls = msg.metadata?.tool_calls as PlanToolCall[] | undefined;
+  const text = stripBase64(msg.text);
+  return calls && calls.length > 0 ? `${text}\n\n${toolCallHistoryNote(calls)}` : text;
+}
 import { resolveSkills, getSkillSchemaCache } from '../skillResolver';
 import { getSkillById } from '../skillsCache';
-import { anthropicProvider } from './providers/anthropic';
-import { openaiProvider, deepseekProvider, xaiProvider } from './providers/openai';
-import { googleProvider } from './providers/google';
+import { PROVIDERS } from './registry';
 import { getMemories } from '../memory';
 import { getRecentCollateralSummaries, getArchivedMemories } from '../database';
-import { parseTaskPlan, dispatchTaskPlan } from '../taskDispatcher';
+import { parseTaskPlan, dispatchTaskPlan, missionsFromToolCalls } from '../taskDispatcher';
 import { MANAGEMENT_ACTIONS, handleManagementAction } from '../managementActions';
-
-// ---------------------------------------------------------------------------
-// Provider registry
-// ---------------------------------------------------------------------------
-
-const PROVIDERS: Record<string, LLMProvider> = {
-  Anthropic: anthropicProvider,
-  OpenAI:    openaiProvider,
-  Google:    googleProvider,
-  DeepSeek:  deepseekProvider,
-  xAI:       xaiProvider,
-};
+import { buildSkillTools, buildManagementTools, toPlanToolCall, toolCallHistoryNote, WORK_REQUEST_TOOL, type PlanToolCall } from './tools';
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -72,7 +68,7 @@ export async function isLLMAvailable(): Promise<LLMAvailability> {
     return { available: false, service, model: '', displayModel: ceo.model };
   }
 
-  const vaultEntry = await getVaultEntryByService(service);
+  const vaultEntry = await findVaultEntry(service, { context: 'ceo_chat' });
   if (!vaultEntry) {
     console.warn('[LLM] No vault key for service:', service);
     return { available: false, service, model: '', displayModel: ceo.model };
@@ -181,6 +177,21 @@ async function handleEnableSkillCall(
   );
 }
 
+/**
+ * Answer without an LLM call when the reply's budget allocation is spent.
+ * Callbacks fire asynchronously, like a provider stream's.
+ */
+function refuseForAllocation(reason: string, callbacks: StreamCallbacks): AbortController {
+  const controller = new AbortController();
+  const text = `*On hold — ${reason}. Approve the overspend in Approvals or raise the allocation in Financials.*`;
+  setTimeout(() => {
+    if (controller.signal.aborted) return;
+    callbacks.onToken(text);
+    callbacks.onDone(text);
+  }, 0);
+  return controller;
+}
+
 /**
  * Stream a CEO response using a real LLM.
  * Returns an AbortController, or null if no LLM is available (caller should fallback).
@@ -189,16 +200,20 @@ export async function streamCEOResponse(
   userText: string,
   conversationHistory: ChatMessageRow[],
   callbacks: StreamCallbacks,
-  options?: { source?: 'web' | 'telegram' },
+  options?: { source?: 'web' | 'telegram' | 'api' },
 ): Promise<AbortController | null> {
   const availability = await isLLMAvailable();
   if (!availability.available) return null;
 
+  const spendHold = await checkSpendAllocations({ agentId: 'ceo', context: 'ceo_chat' });
+  if (spendHold) return refuseForAllocation(spendHold, callbacks);
+
   const ceo = (await loadCEO())!;
   const service = availability.service;
   const apiModelId = availability.model;
   const provider = PROVIDERS[service];
-  const vaultEntry = (await getVaultEntryByService(service))!;
+  const vaultEntry = await getVaultEntryByService(service, { context: 'ceo_chat' });
+  if (!vaultEntry) return null;
 
   // Build messages
   let systemPrompt = await buildCEOSystemPrompt();
@@ -226,23 +241,46 @@ You are responding via Telegram. Adapt your communication:
     if (msg.sender === 'user') {
       messages.push({ role: 'user', content: stripBase64(msg.text) });
     } else if (msg.sender === 'ceo') {
-      messages.push({ role: 'assistant', content: stripBase64(msg.text) });
+      messages.push({ role: 'assistant', content: assistantHistoryContent(msg) });
     }
   }
 
   // Add the current user message
   messages.push({ role: 'user', content: userText });
 
+  // Native tool schemas — skills + management actions. Telegram mode never dispatches.
+  let tools: LLMToolDefinition[] | undefined;
+  if (options?.source !== 'telegram') {
+    try {
+      tools = [...buildSkillTools(await resolveSkills()), ...buildManagementTools()];
+    } catch (err) {
+      console.warn('[LLM] Failed to build tool schemas — falling back to XML tool calls:', err);
+    }
+  }
+
+  // Model that actually answers — changes if the failover policy kicks in
+  let served = { service, model: availability.displayModel };
+
   // Wrap callbacks to log usage
   const wrappedCallbacks: StreamCallbacks = {
     onToken: callbacks.onToken,
-    onDone: (fullText, usage) => {
+    onFailover: (event) => {
+      served = { service: event.toService, model: event.toModel };
+      updateCEOFallback(true, (ceo.primary_failures ?? 0) + 1).catch(() => {});
+      callbacks.onFailover?.(event);
+    },
+    onDone: (fullText, usage, toolCalls) => {
+      // Primary model answered again — clear the CEO's fallback flag
+      if (ceo.fallback_active && served.model === availability.displayModel) {
+        updateCEOFallback(false, 0).catch(() => {});
+      }
+
       // Log usage (fire-and-forget)
       const outputTokens = usage?.outputTokens ?? Math.ceil(fullText.length / 4);
       const inputTokens = usage?.inputTokens ?? Math.ceil(systemPrompt.length / 4 + userText.length / 4);
       logUsage({
-        provider: service,
-        model: availability.displayModel,
+        provider: served.service,
+        model: served.model,
         inputTokens,
         outputTokens,
         context: 'ceo_chat',
@@ -251,12 +289,15 @@ You are responding via Telegram. Adapt your communication:
       logAudit(
         ceo.name,
         'CEO_CHAT',
-        `LLM response via ${availability.displayModel} (${inputTokens + outputTokens} tokens) [conv:${conversationHistory[0]?.conversation_id ?? ''}]`,
+        `LLM response via ${served.model} (${inputTokens + outputTokens} tokens) [conv:${conversationHistory[0]?.conversation_id ?? ''}]`,
         'info',
       ).catch(() => {});
 
-      // Detect and dispatch task plans from CEO response — include conversation context
-      const missions = parseTaskPlan(fullText);
+      // Detect and dispatch task plans from CEO response — include conversation context.
+      // Structured tool calls win; XML tags in the text are the fallback.
+      const missions = toolCalls && toolCalls.length > 0
+        ? missionsFromToolCalls(toolCalls.map(toPlanToolCall))
+        : parseTaskPlan(fullText);
       if (missions.length > 0) {
         const convId = conversationHistory[0]?.conversation_id;
 
@@ -298,12 +339,14 @@ You are responding via Telegram. Adapt your communication:
         }
       }
 
-      callbacks.onDone(fullText, usage);
+      callbacks.onDone(fullText, usage, toolCalls);
     },
     onError: callbacks.onError,
   };
 
-  return provider.stream(messages, vaultEntry.key_value, apiModelId, wrappedCallbacks);
+  // The CEO's configured backup model is tried first if the primary fails over
+  const fallbackModels = ceo.backup_model ? [ceo.backup_model] : undefined;
+  return provider.stream(messages, vaultEntry.key_value, apiModelId, wrappedCallbacks, { tools, fallbackModels });
 }
 
 // ---------------------------------------------------------------------------
@@ -325,7 +368,7 @@ export async function isAgentLLMAvailable(agentModel: string): Promise<LLMAvaila
   if (!service || !PROVIDERS[service]) {
     return { available: false, service, model: '', displayModel: agentModel };
   }
-  const vaultEntry = await getVaultEntryByService(service);
+  const vaultEntry = await findVaultEntry(service, { context: 'agent_chat' });
   if (!vaultEntry) {
     return { available: false, service, model: '', displayModel: agentModel };
   }
@@ -346,10 +389,14 @@ export async function streamAgentResponse(
   const availability = await isAgentLLMAvailable(agentInfo.model);
   if (!availability.available) return null;
 
+  const spendHold = await checkSpendAllocations({ agentId: agentInfo.id, context: 'agent_chat' });
+  if (spendHold) return refuseForAllocation(spendHold, callbacks);
+
   const service = availability.service;
   const apiModelId = availability.model;
   const provider = PROVIDERS[service];
-  const vaultEntry = (await getVaultEntryByService(service))!;
+  const vaultEntry = await getVaultEntryByService(service, { context: 'agent_chat', agentId: agentInfo.id });
+  if (!vaultEntry) return null;
 
   // Build agent-specific system prompt — direct conversation, work requests enabled
   const founderInfo = await getFounderInfo();
@@ -403,19 +450,34 @@ Rules:
     if (msg.sender === 'user') {
       messages.push({ role: 'user', content: stripBase64(msg.text) });
     } else {
-      messages.push({ role: 'assistant', content: stripBase64(msg.text) });
+      messages.push({ role: 'assistant', content: assistantHistoryContent(msg) });
     }
   }
   messages.push({ role: 'user', content: userText });
 
+  let served = { service, model: availability.displayModel };
+
   const wrappedCallbacks: StreamCallbacks = {
     onToken: callbacks.onToken,
-    onDone: (fullText, usage) => {
+    onFailover: (event) => {
+      served = { service: event.toService, model: event.toModel };
+      callbacks.onFailover?.(event);
+    },
+    onDone: (fullText, usage, toolCalls) => {
+      // Native request_work calls are re-emitted as <work_request> blocks so callers
+      // keep a single parseWorkRequests path
+      const workRequestBlocks = (toolCalls ?? [])
+        .filter(tc => tc.name === WORK_REQUEST_TOOL.name)
+        .map(tc => `<work_request>${JSON.stringify({ arguments: {}, ...tc.arguments })}</work_request>`);
+      if (workRequestBlocks.length > 0) {
+        fullText = `${fullText}\n\n${workRequestBlocks.join('\n')}`.trim();
+      }
+
       const outputTokens = usage?.outputTokens ?? Math.ceil(fullText.length / 4);
       const inputTokens = usage?.inputTokens ?? Math.ceil(systemPrompt.length / 4 + userText.length / 4);
       logUsage({
-        provider: service,
-        model: availability.displayModel,
+        provider: served.service,
+        model: served.model,
         inputTokens,
         outputTokens,
         context: 'agent_chat',
@@ -424,15 +486,16 @@ Rules:
       logAudit(
         agentInfo.name,
         'AGENT_CHAT',
-        `Agent ${agentInfo.name} LLM response via ${availability.displayModel} (${inputTokens + outputTokens} tokens)`,
+        `Agent ${agentInfo.name} LLM response via ${served.model} (${inputTokens + outputTokens} tokens)`,
         'info',
       ).catch(() => {});
-      callbacks.onDone(fullText, usage);
+      callbacks.onDone(fullText, usage, toolCalls);
     },
     onError: callbacks.onError,
   };
 
-  return provider.stream(messages, vaultEntry.key_value, apiModelId, wrappedCallbacks);
+  const tools = skillNames ? [WORK_REQUEST_TOOL] : undefined;
+  return provider.stream(messages, vaultEntry.key_value, apiModelId, wrappedCallbacks, tools ? { tools } : undefined);
 }
 
 // ---------------------------------------------------------------------------
@@ -664,9 +727,20 @@ ${lines}`;
 
   // Mission list
   const missionList = missions.length > 0
-    ? missions.map(m => `- [${m.status}] "${m.title}" (id: ${m.id}) — Assignee: ${m.assignee ?? 'Unassigned'} — Priority: ${m.priority}`).join('\n')
+    ? missions.map(m => `- [${m.status}] "${m.title}" (id: ${m.id}) — Assignee: ${m.assignee ?? 'Unassigned'} — Priority: ${m.priority}${m.parent_id ? ` — Sub-mission of ${m.parent_id}` : ''}`).join('\n')
     : '- No missions yet';
 
+  // Mission template library
+  const templates = await loadTemplateCatalog().catch(() => []);
+  const templateBlock = templates.length > 0
+    ? `### Mission Templates (run with run_mission_template)
+${templates.map(t => {
+        const params = t.placeholders.map(p => `${p.name}: ${p.type === 'enum' ? (p.options ?? []).join('|') : p.type}${p.required && p.default === undefined ? '' : '?'}`).join(', ');
+        return `- "${t.name}" v${t.current_version} (id: ${t.id})${t.description ? ` — ${t.description}` : ''}${params ? ` — params: { ${params} }` : ''}`;
+      }).join('\n')}
+`
+    : '';
+
   // Budget & spend
   const budgetStr = await getSetting('monthly_budget');
   const monthlyBudget = budgetStr ? parseFloat(budgetStr) : null;
@@ -792,6 +866,9 @@ ${lines}`;
 {"missions":[{"title":"Mission name","tool_calls":[{"name":"skill-id","command":"command_name","arguments":{"param":"value"}}]}]}
 </task_plan>
 Group related calls into one mission. Unrelated requests = separate missions.
+When one call needs another's result, give the upstream call an "id" and list it in the downstream call's "depends_on"; reference its result inside arguments as {{id.output}} (or {{id.summary}}). Independent calls run in parallel; dependents start once their inputs complete:
+{"missions":[{"title":"Competitor report","tool_calls":[{"id":"research","name":"skill-id","command":"search","arguments":{"query":"..."}},{"id":"report","depends_on":["research"],"name":"skill-id","command":"write","arguments":{"content":"Write a report from this research: {{research.output}}"}}]}]}
+To have the founder review an intermediate result before dependents use it, add "checkpoint":true to that call — the plan pauses there until they approve, edit or reject its output.
 For a single quick call, you can use <tool_call>{"name":"skill-id","command":"command_name","arguments":{...}}</tool_call>
 For enabling a disabled skill, use <tool_call>{"name":"enable_skill","arguments":{"skill_id":"skill-id","skill_name":"Skill Name"}}</tool_call>
 
@@ -806,6 +883,10 @@ CRITICAL: When the founder asks you to backlog, save, log, note, schedule, or cr
 ### Mission Management
 - **Create immediate mission / backlog item:** <tool_call>{"name":"create_mission","arguments":{"title":"Mission title","priority":"medium","assignee":"AGENT_NAME"}}</tool_call>
   Use this for any request to "backlog", "log", "save for later", "add to the list", "note this down", etc. Omit assignee to leave unassigned.
+- **Break a big ask into an epic:** <tool_call>{"name":"create_mission","arguments":{"title":"Launch the beta","priority":"high","sub_missions":[{"title":"Competitor pricing research","assignee":"SCOUT"},{"title":"Landing page","sub_missions":[{"title":"Write copy"},{"title":"Design hero image"}]}]}}</tool_call>
+  When the founder asks for something that clearly spans several independent pieces of work, decompose it into sub_missions (up to 4 levels). The epic's progress, cost and grade roll up from its sub-missions, and it moves to review once they're all finished. Use parent_id to file a new mission under an existing epic, or update_mission with parent_id to move one.
+  Add budget_cap (USD) when the founder sets a spending limit for a piece of work — once the mission and its sub-missions have spent it, their remaining tasks stop and the mission comes back for review.
+  Add due_date when the founder gives a deadline: "2026-03-01" (end of that day), "2026-03-01T17:00" (read in ${timezone}) or "in 3 days". Missions slipping toward their deadline get a priority bump, then a less-busy assignee; overdue ones come to the founder.
 - **Schedule future mission:** <tool_call>{"name":"schedule_mission","arguments":{"title":"Mission title","scheduled_for":"2026-02-20T09:00:00Z","priority":"medium"}}</tool_call>
   Use ISO 8601 timestamps. ALWAYS use the founder's local timezone (${timezone}) when interpreting relative times like "in 20 minutes", "tomorrow at 9am", etc. Convert to a timestamp using today's date (${today}) and current local time (${localTime}).
   When rescheduling, just call schedule_mission again with the corrected time — duplicates are handled automatically.
@@ -816,6 +897,9 @@ CRITICAL: When the founder asks you to backlog, save, log, note, schedule, or cr
   Parse natural language like "X times", "for N days", "for N hours" into the correct max_runs based on the cron frequency. Example: "every hour for 3 hours" → cron \`0 * * * *\`, max_runs 3. "Every day for a week" → cron \`0 9 * * *\`, max_runs 7.
   When changing a recurring mission's schedule, just call create_recurring_mission with the same title — duplicates with matching titles are automatically replaced (old one cancelled, new one created).
   IMPORTANT: When asked to "change", "update", or "modify" a recurring schedule, create a new recurring mission with the SAME title. Don't just create a second one — the system deduplicates by title.
+- **Run mission template:** <tool_call>{"name":"run_mission_template","arguments":{"template":"Competitor scan","params":{"company":"Acme"}}}</tool_call>
+  Prefer a saved template from the Mission Templates list over planning from scratch when one fits the request. Pass every required param; "version" pins an older revision.
+  Recurring missions can run a template too: add "template", "params" and optionally "template_version" to create_recurring_mission (omit template_version to always use the latest).
 - **Cancel mission:** <tool_call>{"name":"cancel_mission","arguments":{"mission_id":"mission-123","reason":"No longer needed"}}</tool_call>
   Use cancel_mission to remove a specific mission by ID. For recurring missions, cancelling the template stops all future runs.
 - **Reassign mission:** <tool_call>{"name":"reassign_mission","arguments":{"mission_id":"mission-123","new_assignee":"ATLAS"}}</tool_call>
@@ -900,7 +984,7 @@ ${disabledSkillList}
 ### Active Missions
 ${missionList}
 
-${budgetBlock}
+${templateBlock}${budgetBlock}
 
 ${toolUsageFlowSection}
 
@@ -915,5 +999,6 @@ ${skillFactorySection}
 4. NEVER fire off skills without telling the founder what you're doing and getting their go-ahead
 5. NEVER fabricate data — only reference real missions, agents, and skills from the context above
 6. Keep responses SHORT and conversational — 2-4 sentences for simple questions, at most 2-3 short paragraphs for complex ones. NEVER generate long documents, essays, or frameworks unless the founder explicitly asks for one.
-7. You're chatting in real-time with the founder — be responsive and helpful, not verbose`;
+7. You're chatting in real-time with the founder — be responsive and helpful, not verbose
+8. When native tools are available, call them directly instead of writing <tool_call> or <task_plan> blocks — the XML formats above are a fallback only`;
 }
@@ -0,0 +1,231 @@
+/**
+ * LLM Failover — retry with backoff, then fall through to other services
+ * =======================================================================
+ * withFailover() wraps an LLMProvider so every stream() call:
+ *   1. retries the requested model on transient errors (429, 529, 5xx,
+ *      network failures) with exponential backoff + jitter;
+ *   2. then walks the policy's ordered fallback list, skipping models on the
+ *      same service and services without a Vault key. A fallback that fails
+ *      outright (say, a stale key's 401) just hands over to the next one.
+ * Each switch is written to audit_log and reported through
+ * StreamCallbacks.onFailover so callers log llm_usage under the model that
+ * actually answered. A call that already streamed tokens is never retried —
+ * the founder would see the answer twice.
+ *
+ * The policy lives in settings under `llm_failover_policy` (JSON).
+ */
+
+import type { FailoverEvent, LLMMessage, LLMProvider, StreamCallbacks, StreamOptions } from './types';
+import { getSetting, setSetting, getVaultEntryByService, logAudit } from '../database';
+import { MODEL_OPTIONS, MODEL_SERVICE_MAP, MODEL_API_IDS } from '../models';
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+export interface FailoverPolicy {
+  enabled: boolean;
+  /** Retries of the same model before moving on */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Ordered fallback models (display names). Empty = first picker model of each other service. */
+  fallbackModels: string[];
+}
+
+const SETTING_KEY = 'llm_failover_policy';
+
+export const DEFAULT_FAILOVER_POLICY: FailoverPolicy = {
+  enabled: true,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  fallbackModels: [],
+};
+
+export async function loadFailoverPolicy(): Promise<FailoverPolicy> {
+  try {
+    const raw = await getSetting(SETTING_KEY);
+    return raw ? { ...DEFAULT_FAILOVER_POLICY, ...JSON.parse(raw) } : DEFAULT_FAILOVER_POLICY;
+  } catch {
+    return DEFAULT_FAILOVER_POLICY;
+  }
+}
+
+export async function saveFailoverPolicy(policy: FailoverPolicy): Promise<void> {
+  await setSetting(SETTING_KEY, JSON.stringify(policy));
+}
+
+// ---------------------------------------------------------------------------
+// Error classification
+// ---------------------------------------------------------------------------
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+const NETWORK_ERROR = /fetch failed|failed to fetch|network|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i;
+
+/** Providers report HTTP failures as "<Service> API <status>: ..." */
+export function isRetryableError(err: Error): boolean {
+  const status = err.message.match(/API (\d{3})\b/)?.[1];
+  if (status) return RETRYABLE_STATUS.has(Number(status));
+  return err.name === 'TypeError' || NETWORK_ERROR.test(err.message);
+}
+
+function backoffMs(policy: FailoverPolicy, retry: number): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(exp * (0.5 + Math.random() * 0.5));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/** Reverse-lookup the display name for an API model ID on a service */
+function displayModelFor(service: string, apiModelId: string): string {
+  return Object.keys(MODEL_API_IDS).find(
+    name => MODEL_API_IDS[name] === apiModelId && MODEL_SERVICE_MAP[name] === service,
+  ) ?? apiModelId;
+}
+
+// ---------------------------------------------------------------------------
+// Wrapper
+// ---------------------------------------------------------------------------
+
+interface Candidate {
+  service: string;
+  model: string;       // display name
+  apiModelId: string;
+  apiKey: string;
+  provider: LLMProvider;
+}
+
+type AttemptResult =
+  | { ok: true; args: Parameters<StreamCallbacks['onDone']> }
+  | { ok: false; error: Error; emitted: boolean }
+  | { aborted: true };
+
+function attempt(
+  c: Candidate, messages: LLMMessage[], cb: StreamCallbacks,
+  options: StreamOptions | undefined, signal: AbortSignal,
+): Promise<AttemptResult> {
+  return new Promise(resolve => {
+    let emitted = false;
+    const inner = c.provider.stream(messages, c.apiKey, c.apiModelId, {
+      onToken: (token) => { emitted = true; cb.onToken(token); },
+      onDone: (...args) => resolve({ ok: true, args }),
+      onError: (error) => resolve({ ok: false, error, emitted }),
+    }, options);
+    // Providers go silent on abort — resolve so the loop exits
+    signal.addEventListener('abort', () => { inner.abort(); resolve({ aborted: true }); }, { once: true });
+  });
+}
+
+async function fallbackCandidates(
+  policy: FailoverPolicy, primaryService: string, providers: Record<string, LLMProvider>, preferred: string[],
+): Promise<Candidate[]> {
+  const policyOrder = policy.fallbackModels.length > 0
+    ? policy.fallbackModels
+    : MODEL_OPTIONS.filter((name, i) =>
+        MODEL_OPTIONS.findIndex(other => MODEL_SERVICE_MAP[other] === MODEL_SERVICE_MAP[name]) === i);
+  const order = [...new Set([...preferred, ...policyOrder])];
+
+  const candidates: Candidate[] = [];
+  const keys = new Map<string, string | null>();
+  for (const model of order) {
+    const service = MODEL_SERVICE_MAP[model];
+    if (!service || service === primaryService || !providers[service]) continue;
+    if (!keys.has(service)) keys.set(service, (await getVaultEntryByService(service, { context: 'llm_failover' }))?.key_value ?? null);
+    const apiKey = keys.get(service);
+    if (!apiKey) continue;
+    candidates.push({ service, model, apiModelId: MODEL_API_IDS[model] ?? model, apiKey, provider: providers[service] });
+  }
+  return candidates;
+}
+
+/**
+ * Wrap a provider with the failover policy. `providers` is the raw (unwrapped)
+ * registry, used to reach fallback services without recursive failover.
+ */
+export function withFailover(service: string, provider: LLMProvider, providers: Record<string, LLMProvider>): LLMProvider {
+  return {
+    id: provider.id,
+
+    stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks, options?: StreamOptions): AbortController {
+      const controller = new AbortController();
+      const signal = controller.signal;
+
+      const fail = (err: unknown) => {
+        if (!signal.aborted) cb.onError(err instanceof Error ? err : new Error(String(err)));
+      };
+
+      (async () => {
+        const policy = await loadFailoverPolicy();
+        const primary: Candidate = { service, model: displayModelFor(service, modelId), apiModelId: modelId, apiKey, provider };
+        if (!policy.enabled) {
+          const result = await attempt(primary, messages, cb, options, signal);
+          if ('aborted' in result) return;
+          if (result.ok) cb.onDone(...result.args);
+          else cb.onError(result.error);
+          return;
+        }
+
+        let fallbacks: Candidate[] | null = null;
+        let current = primary;
+        let lastError: Error | null = null;
+
+        for (let idx = 0; ; idx++) {
+          for (let retry = 0; retry <= policy.maxRetries; retry++) {
+            const result = await attempt(current, messages, cb, options, signal);
+            if ('aborted' in result) return;
+            if (result.ok) { cb.onDone(...result.args); return; }
+
+            lastError = result.error;
+            if (result.emitted) {
+              cb.onError(result.error);
+              return;
+            }
+            if (!isRetryableError(result.error)) {
+              // The requested model's own errors (bad request, bad key) go straight
+              // back; a fallback's only skip that fallback
+              if (current === primary) {
+                cb.onError(result.error);
+                return;
+              }
+              break;
+            }
+            if (retry < policy.maxRetries) {
+              const delay = backoffMs(policy, retry);
+              console.warn(`[LLM Failover] ${current.model} failed (${result.error.message.slice(0, 120)}) — retry ${retry + 1}/${policy.maxRetries} in ${delay}ms`);
+              await sleep(delay, signal);
+              if (signal.aborted) return;
+            }
+          }
+
+          fallbacks ??= await fallbackCandidates(policy, service, providers, options?.fallbackModels ?? []);
+          const next = fallbacks[idx];
+          if (!next) {
+            cb.onError(lastError ?? new Error(`${current.model} failed`));
+            return;
+          }
+
+          const event: FailoverEvent = {
+            fromService: current.service,
+            fromModel: current.model,
+            toService: next.service,
+            toModel: next.model,
+            reason: (lastError?.message ?? 'unknown error').slice(0, 200),
+          };
+          console.warn(`[LLM Failover] ${event.fromModel} → ${event.toModel}: ${event.reason}`);
+          logAudit(null, 'LLM_FAILOVER', `${event.fromModel} (${event.fromService}) → ${event.toModel} (${event.toService}): ${event.reason}`, 'warning')
+            .catch(() => {});
+          cb.onFailover?.(event);
+          current = next;
+        }
+      })().catch(fail);
+
+      return controller;
+    },
+  };
+}
@@ -1,11 +1,18 @@
-import type { LLMProvider, LLMMessage, StreamCallbacks } from '../types';
+import type { LLMProvider, LLMMessage, LLMToolCall, StreamCallbacks, StreamOptions } from '../types';
 
 const API_URL = 'https://api.anthropic.com/v1/messages';
 
+/** HTTP-equivalent status for SSE error events, so retry logic can treat them like response codes */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  overloaded_error: 529,
+  rate_limit_error: 429,
+  api_error: 500,
+};
+
 export const anthropicProvider: LLMProvider = {
   id: 'anthropic',
 
-  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks): AbortController {
+  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks, options?: StreamOptions): AbortController {
     const controller = new AbortController();
 
     // Extract system prompt from messages
@@ -19,6 +26,9 @@ export const anthropicProvider: LLMProvider = {
       stream: true,
       ...(systemPrompt ? { system: systemPrompt } : {}),
       messages: chatMessages.map(m => ({ role: m.role, content: m.content })),
+      ...(options?.tools?.length ? {
+        tools: options.tools.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters })),
+      } : {}),
     });
 
     (async () => {
@@ -45,6 +55,10 @@ export const anthropicProvider: LLMProvider = {
         const decoder = new TextDecoder();
         let buffer = '';
         let fullText = '';
+        // tool_use blocks stream their input as partial JSON keyed by content block index
+        const pendingTools = new Map<number, { id: string; name: string; json: string }>();
+        const toolCalls: LLMToolCall[] = [];
+        let streamError: { type?: string; message?: string } | null = null;
 
         while (true) {
           const { done, value } = await reader.read();
@@ -59,9 +73,25 @@ export const anthropicProvider: LLMProvider = {
               const jsonStr = line.slice(6);
               try {
                 const event = JSON.parse(jsonStr);
-                if (event.type === 'content_block_delta' && event.delta?.text) {
+                if (event.type === 'error') {
+                  // Mid-stream errors (e.g. overloaded_error) arrive as SSE events after a 200
+                  streamError = event.error ?? { type: 'api_error', message: 'Unknown stream error' };
+                } else if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+                  pendingTools.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' });
+                } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+                  const pending = pendingTools.get(event.index);
+                  if (pending) pending.json += event.delta.partial_json ?? '';
+                } else if (event.type === 'content_block_delta' && event.delta?.text) {
                   fullText += event.delta.text;
                   cb.onToken(event.delta.text);
+                } else if (event.type === 'content_block_stop' && pendingTools.has(event.index)) {
+                  const pending = pendingTools.get(event.index)!;
+                  pendingTools.delete(event.index);
+                  try {
+                    toolCalls.push({ id: pending.id, name: pending.name, arguments: pending.json ? JSON.parse(pending.json) : {} });
+                  } catch {
+                    console.warn(`[Anthropic] Dropped tool_use "${pending.name}" with invalid input JSON:`, pending.json.slice(0, 200));
+                  }
                 }
               } catch {
                 // skip non-JSON lines
@@ -70,7 +100,13 @@ export const anthropicProvider: LLMProvider = {
           }
         }
 
-        cb.onDone(fullText);
+        if (streamError) {
+          const status = STREAM_ERROR_STATUS[streamError.type ?? ''] ?? 500;
+          cb.onError(new Error(`Anthropic API ${status}: ${streamError.type}: ${streamError.message}`));
+          return;
+        }
+
+        cb.onDone(fullText, undefined, toolCalls.length > 0 ? toolCalls : undefined);
       } catch (err: unknown) {
         if (err instanceof Error && err.name === 'AbortError') return;
         cb.onError(err instanceof Error ? err : new Error(String(err)));
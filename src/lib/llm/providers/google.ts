@@ -1,11 +1,56 @@
-import type { LLMProvider, LLMMessage, StreamCallbacks } from '../types';
+import type { LLMProvider, LLMMessage, LLMToolCall, LLMToolParameterSchema, StreamCallbacks, StreamOptions } from '../types';
 
 const BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
 
+const isFreeformObject = (schema: LLMToolParameterSchema) =>
+  schema.type === 'object' && (!schema.properties || Object.keys(schema.properties).length === 0);
+
+/**
+ * Gemini uses the OpenAPI schema dialect — upper-case type names, no empty
+ * OBJECTs. A free-form object is sent as a JSON-encoded STRING instead;
+ * fromGeminiArgs decodes it again.
+ */
+export function toGeminiSchema(schema: LLMToolParameterSchema): Record<string, unknown> {
+  if (isFreeformObject(schema)) {
+    return { type: 'STRING', description: `${schema.description ?? ''} (JSON-encoded object)`.trim() };
+  }
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+    } : {}),
+    ...(schema.required?.length ? { required: schema.required } : {}),
+  };
+}
+
+/** Undo toGeminiSchema on a call's arguments: JSON-decode the fields sent as strings */
+export function fromGeminiArgs(value: unknown, schema: LLMToolParameterSchema): unknown {
+  if (isFreeformObject(schema)) {
+    if (typeof value !== 'string') return value;
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : value;
+    } catch {
+      return value; // not JSON after all — leave it for the tool's own validation
+    }
+  }
+  if (schema.type === 'array' && schema.items && Array.isArray(value)) {
+    return value.map(item => fromGeminiArgs(item, schema.items!));
+  }
+  if (schema.type === 'object' && schema.properties && value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) =>
+      [k, schema.properties![k] ? fromGeminiArgs(v, schema.properties![k]) : v]));
+  }
+  return value;
+}
+
 export const googleProvider: LLMProvider = {
   id: 'google',
 
-  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks): AbortController {
+  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks, options?: StreamOptions): AbortController {
     const controller = new AbortController();
 
     // Extract system prompt
@@ -26,6 +71,15 @@ export const googleProvider: LLMProvider = {
     if (systemPrompt) {
       body.systemInstruction = { parts: [{ text: systemPrompt }] };
     }
+    if (options?.tools?.length) {
+      body.tools = [{
+        functionDeclarations: options.tools.map(t => ({
+          name: t.name,
+          description: t.description,
+          parameters: toGeminiSchema(t.parameters),
+        })),
+      }];
+    }
 
     const url = `${BASE_URL}/${modelId}:streamGenerateContent?alt=sse&key=${apiKey}`;
 
@@ -48,6 +102,7 @@ export const googleProvider: LLMProvider = {
         const decoder = new TextDecoder();
         let buffer = '';
         let fullText = '';
+        const toolCalls: LLMToolCall[] = [];
 
         while (true) {
           const { done, value } = await reader.read();
@@ -62,10 +117,22 @@ export const googleProvider: LLMProvider = {
             if (trimmed.startsWith('data: ')) {
               try {
                 const event = JSON.parse(trimmed.slice(6));
-                const text = event.candidates?.[0]?.content?.parts?.[0]?.text;
-                if (text) {
-                  fullText += text;
-                  cb.onToken(text);
+                // Gemini sends function calls whole (never fragmented across chunks)
+                const parts: { text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }[] =
+                  event.candidates?.[0]?.content?.parts ?? [];
+                for (const part of parts) {
+                  if (part.text) {
+                    fullText += part.text;
+                    cb.onToken(part.text);
+                  }
+                  if (part.functionCall?.name) {
+                    const tool = options?.tools?.find(t => t.name === part.functionCall!.name);
+                    const args = part.functionCall.args ?? {};
+                    toolCalls.push({
+                      name: part.functionCall.name,
+                      arguments: tool ? fromGeminiArgs(args, tool.parameters) as Record<string, unknown> : args,
+                    });
+                  }
                 }
               } catch {
                 // skip non-JSON lines
@@ -74,7 +141,7 @@ export const googleProvider: LLMProvider = {
           }
         }
 
-        cb.onDone(fullText);
+        cb.onDone(fullText, undefined, toolCalls.length > 0 ? toolCalls : undefined);
       } catch (err: unknown) {
         if (err instanceof Error && err.name === 'AbortError') return;
         cb.onError(err instanceof Error ? err : new Error(String(err)));
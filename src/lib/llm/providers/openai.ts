@@ -1,4 +1,4 @@
-import type { LLMProvider, LLMMessage, StreamCallbacks } from '../types';
+import type { LLMProvider, LLMMessage, LLMToolCall, StreamCallbacks, StreamOptions } from '../types';
 
 // In browser: route through Vite dev proxy to avoid CORS
 // In Node.js (sidecar): use direct API URLs
@@ -9,13 +9,43 @@ const SERVICE_BASE_URLS: Record<string, string> = {
   xai:      isBrowser ? '/api/xai/v1/chat/completions'      : 'https://api.x.ai/v1/chat/completions',
 };
 
+/**
+ * Local servers (Ollama, llama.cpp, LM Studio) store "<base URL> [api key]" in
+ * the vault instead of a key. The base URL may or may not include /v1.
+ */
+export function parseLocalEndpoint(vaultValue: string): { baseUrl: string; apiKey: string } {
+  const [rawUrl = '', apiKey = ''] = vaultValue.trim().split(/\s+/, 2);
+  const baseUrl = rawUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+  return { baseUrl, apiKey };
+}
+
+/** List model IDs served by a local OpenAI-compatible server via GET /v1/models */
+export async function discoverLocalModels(vaultValue: string): Promise<string[]> {
+  const { baseUrl, apiKey } = parseLocalEndpoint(vaultValue);
+  const res = await fetch(`${baseUrl}/v1/models`, {
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+  });
+  if (!res.ok) throw new Error(`Local /v1/models ${res.status}: ${res.statusText}`);
+  const json = await res.json() as { data?: { id?: string }[] };
+  return (json.data ?? []).map(m => m.id).filter((id): id is string => !!id);
+}
+
+/** Resolve the chat completions URL and bearer token for a service */
+function resolveEndpoint(serviceId: string, apiKey: string): { url: string | undefined; token: string } {
+  if (serviceId === 'local') {
+    const { baseUrl, apiKey: token } = parseLocalEndpoint(apiKey);
+    return { url: baseUrl ? `${baseUrl}/v1/chat/completions` : undefined, token };
+  }
+  return { url: SERVICE_BASE_URLS[serviceId], token: apiKey };
+}
+
 function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
   return {
     id: serviceId,
 
-    stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks): AbortController {
+    stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks, options?: StreamOptions): AbortController {
       const controller = new AbortController();
-      const url = SERVICE_BASE_URLS[serviceId];
+      const { url, token } = resolveEndpoint(serviceId, apiKey);
 
       if (!url) {
         cb.onError(new Error(`No endpoint configured for service: ${serviceId}`));
@@ -33,6 +63,12 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
         ...tokenParam,
         stream: true,
         messages: messages.map(m => ({ role: m.role, content: m.content })),
+        ...(options?.tools?.length ? {
+          tools: options.tools.map(t => ({
+            type: 'function',
+            function: { name: t.name, description: t.description, parameters: t.parameters },
+          })),
+        } : {}),
       });
 
       (async () => {
@@ -41,7 +77,7 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'Authorization': `Bearer ${apiKey}`,
+              ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
             },
             body,
             signal: controller.signal,
@@ -57,6 +93,8 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
           const decoder = new TextDecoder();
           let buffer = '';
           let fullText = '';
+          // tool_calls stream as argument fragments keyed by index
+          const pendingTools = new Map<number, { id: string; name: string; json: string }>();
 
           while (true) {
             const { done, value } = await reader.read();
@@ -72,11 +110,20 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
               if (trimmed.startsWith('data: ')) {
                 try {
                   const event = JSON.parse(trimmed.slice(6));
-                  const content = event.choices?.[0]?.delta?.content;
+                  const delta = event.choices?.[0]?.delta;
+                  const content = delta?.content;
                   if (content) {
                     fullText += content;
                     cb.onToken(content);
                   }
+                  for (const tc of delta?.tool_calls ?? []) {
+                    const idx = tc.index ?? 0;
+                    const pending = pendingTools.get(idx) ?? { id: '', name: '', json: '' };
+                    if (tc.id) pending.id = tc.id;
+                    if (tc.function?.name) pending.name += tc.function.name;
+                    if (tc.function?.arguments) pending.json += tc.function.arguments;
+                    pendingTools.set(idx, pending);
+                  }
                 } catch {
                   // skip non-JSON lines
                 }
@@ -84,7 +131,16 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
             }
           }
 
-          cb.onDone(fullText);
+          const toolCalls: LLMToolCall[] = [];
+          for (const pending of pendingTools.values()) {
+            try {
+              toolCalls.push({ id: pending.id, name: pending.name, arguments: pending.json ? JSON.parse(pending.json) : {} });
+            } catch {
+              console.warn(`[${serviceId}] Dropped tool call "${pending.name}" with invalid arguments JSON:`, pending.json.slice(0, 200));
+            }
+          }
+
+          cb.onDone(fullText, undefined, toolCalls.length > 0 ? toolCalls : undefined);
         } catch (err: unknown) {
           if (err instanceof Error && err.name === 'AbortError') return;
           cb.onError(err instanceof Error ? err : new Error(String(err)));
@@ -99,3 +155,4 @@ function createOpenAICompatibleProvider(serviceId: string): LLMProvider {
 export const openaiProvider = createOpenAICompatibleProvider('openai');
 export const deepseekProvider = createOpenAICompatibleProvider('deepseek');
 export const xaiProvider = createOpenAICompatibleProvider('xai');
+export const localProvider = createOpenAICompatibleProvider('local');
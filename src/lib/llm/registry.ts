@@ -0,0 +1,94 @@
+/**
+ * Provider & Model Registry — single source for LLM routing and pricing
+ * ======================================================================
+ * PROVIDERS maps a service name to its streaming implementation (wrapped
+ * with the retry/failover policy); every caller (chat, memory, evaluator,
+ * dispatcher, skill executor) resolves providers here instead of keeping
+ * its own copy.
+ *
+ * Model metadata (service, API ID, prices, picker visibility) lives in the
+ * model_registry table, shared with the sidecar and the execute-skill edge
+ * function. loadModelRegistry() hydrates the tables in ../models so existing
+ * MODEL_SERVICE_MAP / MODEL_COSTS lookups see DB values.
+ */
+
+import type { LLMProvider } from './types';
+import { anthropicProvider } from './providers/anthropic';
+import { openaiProvider, deepseekProvider, xaiProvider, localProvider } from './providers/openai';
+import { googleProvider } from './providers/google';
+import { withFailover } from './failover';
+import { applyModelRegistry, builtinModels, type ModelDefinition } from '../models';
+import { loadModelRegistryRows, saveModelRegistryRows, type ModelRegistryRow } from '../database';
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+const RAW_PROVIDERS: Record<string, LLMProvider> = {
+  Anthropic: anthropicProvider,
+  OpenAI:    openaiProvider,
+  Google:    googleProvider,
+  DeepSeek:  deepseekProvider,
+  xAI:       xaiProvider,
+  Local:     localProvider,
+};
+
+/** Every provider is wrapped with the retry/failover policy (see ./failover) */
+export const PROVIDERS: Record<string, LLMProvider> = Object.fromEntries(
+  Object.entries(RAW_PROVIDERS).map(([service, provider]) => [service, withFailover(service, provider, RAW_PROVIDERS)]),
+);
+
+/** Services that have a provider implementation (valid choices for a registry row) */
+export const PROVIDER_SERVICES = Object.keys(PROVIDERS);
+
+export function getProvider(service: string): LLMProvider | null {
+  return PROVIDERS[service] ?? null;
+}
+
+/** The provider without retry/failover — for calls that must reach this service and no other (key tests) */
+export function getDirectProvider(service: string): LLMProvider | null {
+  return RAW_PROVIDERS[service] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------
+
+export function rowToModel(row: ModelRegistryRow): ModelDefinition {
+  return {
+    name: row.id,
+    service: row.service,
+    apiId: row.api_id,
+    inputCost: Number(row.input_cost) || 0,
+    outputCost: Number(row.output_cost) || 0,
+    selectable: row.selectable,
+  };
+}
+
+export function modelToRow(model: ModelDefinition, sortOrder: number): ModelRegistryRow {
+  return {
+    id: model.name,
+    service: model.service,
+    api_id: model.apiId,
+    input_cost: model.inputCost,
+    output_cost: model.outputCost,
+    selectable: model.selectable,
+    sort_order: sortOrder,
+  };
+}
+
+/**
+ * Load model_registry into the in-memory model tables.
+ * Seeds the table from built-in defaults when it is empty.
+ * Returns the number of models loaded.
+ */
+export async function loadModelRegistry(): Promise<number> {
+  let rows = await loadModelRegistryRows();
+  if (rows.length === 0) {
+    rows = builtinModels().map((m, i) => modelToRow(m, i * 10));
+    await saveModelRegistryRows(rows);
+  }
+  applyModelRegistry(rows.map(rowToModel));
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('models-changed'));
+  return rows.length;
+}
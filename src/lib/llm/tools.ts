@@ -0,0 +1,202 @@
+/**
+ * LLM Tool Schemas — native function calling for the CEO and agents
+ * ==================================================================
+ * Builds provider-neutral tool definitions from skill commands and
+ * management actions, and maps structured tool calls back into the
+ * { name, command, arguments } shape the task dispatcher already speaks.
+ * The <task_plan>/<tool_call> XML path in taskDispatcher stays as a fallback
+ * for providers or models that answer in free text.
+ */
+
+import type { LLMToolCall, LLMToolDefinition, LLMToolParameterSchema } from './types';
+import type { FullSkillDefinition, SkillParameter } from '../skillResolver';
+import { MANAGEMENT_ACTION_SCHEMAS } from '../managementActions';
+
+/** Separator between skill ID and command name in tool names (providers allow [a-zA-Z0-9_-] only) */
+const SKILL_TOOL_SEPARATOR = '__';
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** Tool call shape consumed by parseTaskPlan / dispatchTaskPlan */
+export interface PlanToolCall {
+  name: string;
+  command?: string;
+  mission_id?: string;
+  /** Key other calls in the same plan use in depends_on / {{id.output}} (see taskGraph) */
+  id?: string;
+  depends_on?: string[];
+  /** Hold dependents until the Founder approves (or edits) this call's output (see taskCheckpoints) */
+  checkpoint?: boolean;
+  arguments: Record<string, unknown>;
+}
+
+function paramSchema(p: SkillParameter): LLMToolParameterSchema {
+  const description = p.default !== undefined
+    ? `${p.description} (default: ${JSON.stringify(p.default)})`
+    : p.description;
+  switch (p.type) {
+    case 'number':
+    case 'float':
+      return { type: 'number', description };
+    case 'integer':
+    case 'int':
+      return { type: 'integer', description };
+    case 'boolean':
+    case 'bool':
+      return { type: 'boolean', description };
+    case 'array':
+    case 'string[]':
+      return { type: 'array', items: { type: 'string' }, description };
+    case 'object':
+    case 'json':
+      return { type: 'object', description };
+    default:
+      return { type: 'string', description };
+  }
+}
+
+function sanitizeToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/** Tool name for a skill command, e.g. "research-web__search" */
+export function skillToolName(skillId: string, commandName: string): string {
+  return sanitizeToolName(`${skillId}${SKILL_TOOL_SEPARATOR}${commandName}`);
+}
+
+/**
+ * One tool per enabled skill command. `mission_id` is accepted on every tool for backlog activation,
+ * `task_id` / `depends_on` for chaining calls of one response into a task graph, and
+ * `checkpoint` for pausing the graph on a call until the Founder reviews its output.
+ */
+export function buildSkillTools(skills: FullSkillDefinition[]): LLMToolDefinition[] {
+  const tools: LLMToolDefinition[] = [];
+  for (const skill of skills) {
+    if (!skill.enabled) continue;
+    for (const cmd of skill.commands ?? []) {
+      const properties: Record<string, LLMToolParameterSchema> = {};
+      const required: string[] = [];
+      for (const p of cmd.parameters ?? []) {
+        properties[p.name] = paramSchema(p);
+        if (p.required) required.push(p.name);
+      }
+      properties.mission_id = {
+        type: 'string',
+        description: 'Existing mission ID when executing a backlog or scheduled mission',
+      };
+      properties.task_id = {
+        type: 'string',
+        description: 'Short id for this call so later calls in the same response can depend on it',
+      };
+      properties.depends_on = {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'task_ids of earlier calls that must finish first; reference their results in arguments as {{task_id.output}}',
+      };
+      properties.checkpoint = {
+        type: 'boolean',
+        description: 'Pause before dependent calls run so the founder can approve, edit or reject this call\'s output',
+      };
+      tools.push({
+        name: skillToolName(skill.id, cmd.name),
+        description: `[${skill.name}] ${cmd.description ?? ''}`.trim(),
+        parameters: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) },
+      });
+    }
+  }
+  return tools;
+}
+
+/** Management actions plus enable_skill, offered to the CEO alongside skill tools */
+export function buildManagementTools(): LLMToolDefinition[] {
+  const tools: LLMToolDefinition[] = Object.entries(MANAGEMENT_ACTION_SCHEMAS).map(([name, schema]) => ({
+    name,
+    description: schema.description,
+    parameters: {
+      type: 'object',
+      properties: schema.parameters,
+      ...(schema.required?.length ? { required: schema.required } : {}),
+    },
+  }));
+  tools.push({
+    name: 'enable_skill',
+    description: 'Ask the founder to enable a disabled skill that is purpose-built for the request.',
+    parameters: {
+      type: 'object',
+      properties: {
+        skill_id: { type: 'string' },
+        skill_name: { type: 'string', description: 'Display name' },
+      },
+      required: ['skill_id'],
+    },
+  });
+  return tools;
+}
+
+/** Internal-data synthesis option used by the mission planner */
+export const CEO_DIRECT_TOOL: LLMToolDefinition = {
+  name: skillToolName('ceo-direct', 'synthesize'),
+  description: 'Answer from the organization\'s own memory, collateral and team data — no external tools needed.',
+  parameters: {
+    type: 'object',
+    properties: { topic: { type: 'string', description: 'The specific question to synthesize an answer for' } },
+    required: ['topic'],
+  },
+};
+
+/** Agent-side tool: ask the CEO to run one of the agent's assigned skills */
+export const WORK_REQUEST_TOOL: LLMToolDefinition = {
+  name: 'request_work',
+  description: 'Ask the CEO to execute one of your assigned skills on your behalf.',
+  parameters: {
+    type: 'object',
+    properties: {
+      skill_id: { type: 'string' },
+      command: { type: 'string' },
+      arguments: { type: 'object', description: 'Command arguments' },
+      reason: { type: 'string', description: 'Brief explanation of why' },
+    },
+    required: ['skill_id', 'command', 'reason'],
+  },
+};
+
+/**
+ * Map a structured tool call back to the dispatcher's call shape.
+ * Skill tools ("skill-id__command") are split; management tools pass through.
+ */
+export function toPlanToolCall(call: LLMToolCall): PlanToolCall {
+  const sepIdx = call.name.indexOf(SKILL_TOOL_SEPARATOR);
+  if (sepIdx <= 0) {
+    // Management actions read mission_id as a real argument — pass through untouched
+    return { name: call.name, arguments: call.arguments ?? {} };
+  }
+
+  const args = { ...(call.arguments ?? {}) };
+  const missionId = typeof args.mission_id === 'string' ? args.mission_id : undefined;
+  const taskId = typeof args.task_id === 'string' ? args.task_id : undefined;
+  const dependsOn = Array.isArray(args.depends_on) ? args.depends_on.map(String) : undefined;
+  delete args.mission_id;
+  delete args.task_id;
+  const checkpoint = args.checkpoint === true;
+  delete args.depends_on;
+  delete args.checkpoint;
+  return {
+    name: call.name.slice(0, sepIdx),
+    command: call.name.slice(sepIdx + SKILL_TOOL_SEPARATOR.length),
+    ...(missionId ? { mission_id: missionId } : {}),
+    ...(taskId ? { id: taskId } : {}),
+    ...(dependsOn?.length ? { depends_on: dependsOn } : {}),
+    ...(checkpoint ? { checkpoint } : {}),
+    arguments: args,
+  };
+}
+
+/** Stand-in text for a reply that was nothing but tool calls, so no message is saved empty */
+export function describeToolCalls(calls: PlanToolCall[]): string {
+  const names = calls.map(c => (c.command ? `${c.name} → ${c.command}` : c.name));
+  return `Dispatching ${names.join(', ')}.`;
+}
+
+/** Appended to a replayed assistant turn so the model sees the tools it already called */
+export function toolCallHistoryNote(calls: PlanToolCall[]): string {
+  return `[Tool calls made in this reply: ${JSON.stringify(calls)}]`;
+}
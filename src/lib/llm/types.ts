@@ -3,13 +3,55 @@ export interface LLMMessage {
   content: string;
 }
 
+/** JSON Schema subset accepted by every provider's function-calling API */
+export interface LLMToolParameterSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: LLMToolParameterSchema;
+  properties?: Record<string, LLMToolParameterSchema>;
+  required?: string[];
+}
+
+/** A tool the model may call instead of emitting XML tags in free text */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: LLMToolParameterSchema & { type: 'object' };
+}
+
+/** A structured tool call emitted by the provider */
+export interface LLMToolCall {
+  id?: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface StreamOptions {
+  /** Tools offered to the model. Providers that support function calling emit structured tool calls. */
+  tools?: LLMToolDefinition[];
+  /** Preferred fallback models (display names) for this call, tried before the policy's list */
+  fallbackModels?: string[];
+}
+
+/** Emitted when the failover policy moves a call to a different model (display names) */
+export interface FailoverEvent {
+  fromService: string;
+  fromModel: string;
+  toService: string;
+  toModel: string;
+  reason: string;
+}
+
 export interface StreamCallbacks {
   onToken: (token: string) => void;
-  onDone: (fullText: string, usage?: { inputTokens: number; outputTokens: number }) => void;
+  onDone: (fullText: string, usage?: { inputTokens: number; outputTokens: number }, toolCalls?: LLMToolCall[]) => void;
   onError: (error: Error) => void;
+  /** Called before the response continues on a fallback model — log usage under `toModel` */
+  onFailover?: (event: FailoverEvent) => void;
 }
 
 export interface LLMProvider {
   id: string;
-  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks): AbortController;
+  stream(messages: LLMMessage[], apiKey: string, modelId: string, cb: StreamCallbacks, options?: StreamOptions): AbortController;
 }
@@ -1,7 +1,9 @@
 import { getSupabase } from './supabase';
 import { estimateCost } from './models';
 
-export type UsageContext = 'ceo_chat' | 'agent_chat' | 'skill_execution' | 'memory_extraction' | 'conversation_summary' | 'mission_planning' | 'ceo_direct';
+export const USAGE_CONTEXTS = ['ceo_chat', 'agent_chat', 'skill_execution', 'memory_extraction', 'conversation_summary', 'mission_planning', 'ceo_direct'] as const;
+
+export type UsageContext = typeof USAGE_CONTEXTS[number];
 
 export interface UsageEntry {
   provider: string;
@@ -11,6 +13,8 @@ export interface UsageEntry {
   context: UsageContext;
   missionId?: string;
   agentId?: string;
+  /** Skill the call ran for (skill executions) — for per-skill budget allocations */
+  skillId?: string;
   conversationId?: string;
   /** Override estimated cost (e.g. DALL-E fixed per-image pricing) */
   costOverride?: number;
@@ -29,6 +33,7 @@ export async function logUsage(entry: UsageEntry): Promise<void> {
     context: entry.context,
     mission_id: entry.missionId ?? null,
     agent_id: entry.agentId ?? null,
+    skill_id: entry.skillId ?? null,
     conversation_id: entry.conversationId ?? null,
   });
   if (error) {
@@ -0,0 +1,58 @@
+/**
+ * Local Models — OpenAI-compatible servers as a model service
+ * ============================================================
+ * The founder stores a base URL (Ollama, llama.cpp, LM Studio) in the Vault
+ * under the "Local" service. Models are discovered from the server's
+ * /v1/models endpoint and written to the model registry with zero cost, so
+ * pickers keep working while the server is offline and the edge function
+ * can resolve them too.
+ */
+
+import {
+  getVaultEntryByService, loadModelRegistryRows, saveModelRegistryRows,
+  deleteModelRegistryRow,
+} from './database';
+import { LOCAL_SERVICE, localModelName } from './models';
+import { discoverLocalModels } from './llm/providers/openai';
+import { loadModelRegistry } from './llm/registry';
+
+/** Local models sort after the built-in cloud models in pickers */
+const LOCAL_SORT_BASE = 1000;
+
+/**
+ * Query the configured local server for its models and sync them into the
+ * registry. Leaves the registry untouched if the server is unreachable.
+ * Returns the discovered API model IDs.
+ */
+export async function refreshLocalModels(): Promise<string[]> {
+  const entry = await getVaultEntryByService(LOCAL_SERVICE, { context: 'local_models' });
+  let ids: string[] = [];
+  if (entry) {
+    try {
+      ids = await discoverLocalModels(entry.key_value);
+    } catch (err) {
+      console.warn('[LocalModels] Discovery failed, keeping registered models:', err);
+      return (await loadModelRegistryRows())
+        .filter(r => r.service === LOCAL_SERVICE)
+        .map(r => r.api_id);
+    }
+  }
+
+  const existing = (await loadModelRegistryRows()).filter(r => r.service === LOCAL_SERVICE);
+  const keep = new Set(ids.map(localModelName));
+  for (const row of existing) {
+    if (!keep.has(row.id)) await deleteModelRegistryRow(row.id);
+  }
+  await saveModelRegistryRows(ids.map((id, i) => ({
+    id: localModelName(id),
+    service: LOCAL_SERVICE,
+    api_id: id,
+    input_cost: 0,
+    output_cost: 0,
+    selectable: true,
+    sort_order: LOCAL_SORT_BASE + i,
+  })));
+
+  await loadModelRegistry();
+  return ids;
+}
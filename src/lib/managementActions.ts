@@ -1,7 +1,7 @@
 /**
  * Management Actions — CEO Full Command Authority
  * =================================================
- * 11 handler functions that let the CEO autonomously manage missions,
+ * 13 handler functions that let the CEO autonomously manage missions,
  * agents, budget, and approvals via structured action objects.
  *
  * Each handler:
@@ -29,6 +29,12 @@ import {
 } from './database';
 import { getRoomTier, TIER_DESK_PRESETS } from './positionGenerator';
 import { getSupabase } from './supabase';
+import type { LLMToolParameterSchema } from './llm/types';
+import { validateCron, nextRun, isValidTimezone, localTimezone, CATCH_UP_MODES, type CatchUpMode } from './cronParser';
+import { emitWebhookEvent } from './webhooks';
+import { createMissionTree, wouldCreateCycle, type MissionTreeSpec } from './missionHierarchy';
+import { parseDeadline } from './missionDeadlines';
+import { findMissionTemplate, getTemplateVersion, instantiateTemplate, validateTemplateParams } from './missionTemplates';
 
 // ---------------------------------------------------------------------------
 // Constants — mirrors HireAgentModal.tsx palettes
@@ -119,6 +125,7 @@ export const MANAGEMENT_ACTIONS = new Set<string>([
   'create_mission',
   'schedule_mission',
   'create_recurring_mission',
+  'run_mission_template',
   'cancel_mission',
   'reassign_mission',
   'update_mission',
@@ -130,10 +137,200 @@ export const MANAGEMENT_ACTIONS = new Set<string>([
   'create_skill',
 ]);
 
+/** Argument schemas offered to the LLM as native tools (keys mirror what each handler reads). */
+export interface ManagementActionSchema {
+  description: string;
+  parameters: Record<string, LLMToolParameterSchema>;
+  required?: string[];
+}
+
+const PRIORITY_ENUM = ['low', 'medium', 'high', 'critical'];
+
+export const MANAGEMENT_ACTION_SCHEMAS: Record<string, ManagementActionSchema> = {
+  create_mission: {
+    description: 'Create a backlog mission. Use for any request to backlog, log, note or save a task for later. Break a large ask into an epic with sub_missions.',
+    parameters: {
+      title: { type: 'string', description: 'Mission title' },
+      priority: { type: 'string', enum: PRIORITY_ENUM },
+      assignee: { type: 'string', description: 'Agent callsign. Omit to leave unassigned.' },
+      parent_id: { type: 'string', description: 'Existing mission to file this under as a sub-mission' },
+      budget_cap: { type: 'number', description: 'Spend cap in USD for the mission and its sub-missions; remaining tasks halt once reached' },
+      due_date: { type: 'string', description: 'Deadline: "2026-03-01" (end of that day), "2026-03-01T17:00" (founder\'s timezone), an ISO timestamp with offset, or "in 3 days"' },
+      sub_missions: {
+        type: 'array',
+        description: 'Child missions (each may have its own sub_missions, up to 4 levels)',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            priority: { type: 'string', enum: PRIORITY_ENUM },
+            assignee: { type: 'string' },
+            sub_missions: { type: 'array', items: { type: 'object' } },
+          },
+        },
+      },
+    },
+    required: ['title'],
+  },
+  schedule_mission: {
+    description: 'Schedule a one-off mission for a future time.',
+    parameters: {
+      title: { type: 'string', description: 'Mission title' },
+      scheduled_for: { type: 'string', description: 'ISO 8601 timestamp, interpreted in the founder\'s timezone' },
+      priority: { type: 'string', enum: PRIORITY_ENUM },
+      assignee: { type: 'string', description: 'Agent callsign' },
+    },
+    required: ['title', 'scheduled_for'],
+  },
+  create_recurring_mission: {
+    description: 'Create (or replace, matched by title) a recurring mission driven by a cron expression.',
+    parameters: {
+      title: { type: 'string', description: 'Mission title — reuse an existing title to change its schedule' },
+      cron: { type: 'string', description: '5-field cron (minute hour day-of-month month day-of-week) or @daily/@weekly/@monthly/@hourly. Supports names (MON, JAN), L, W and # (e.g. "0 9 * * MON#1").' },
+      timezone: { type: 'string', description: 'IANA timezone the cron runs in, e.g. "America/New_York". Defaults to the founder\'s timezone.' },
+      catch_up: { type: 'string', enum: CATCH_UP_MODES, description: 'Missed runs while offline: skip them, run once, or run all' },
+      recurring_mode: { type: 'string', enum: ['auto', 'evaluate'] },
+      priority: { type: 'string', enum: PRIORITY_ENUM },
+      assignee: { type: 'string', description: 'Agent callsign' },
+      max_runs: { type: 'integer', description: 'Optional cap on the number of runs' },
+      template: { type: 'string', description: 'Mission template ID or name to run on every fire' },
+      template_version: { type: 'integer', description: 'Pin the template to this version. Omit to always use the latest.' },
+      params: { type: 'object', description: 'Values for the template\'s placeholders' },
+    },
+    required: ['title', 'cron'],
+  },
+  run_mission_template: {
+    description: 'Start a mission from a saved mission template, filling in its placeholders.',
+    parameters: {
+      template: { type: 'string', description: 'Template ID or name' },
+      params: { type: 'object', description: 'Placeholder values keyed by placeholder name' },
+      version: { type: 'integer', description: 'Specific template version. Omit for the latest.' },
+      mission_id: { type: 'string', description: 'Existing backlog/scheduled mission to run it in' },
+    },
+    required: ['template'],
+  },
+  cancel_mission: {
+    description: 'Cancel a mission. Cancelling a recurring template stops all future runs.',
+    parameters: {
+      mission_id: { type: 'string' },
+      title: { type: 'string', description: 'Fallback title match when the ID is unknown' },
+      reason: { type: 'string' },
+    },
+  },
+  reassign_mission: {
+    description: 'Reassign a mission to another agent.',
+    parameters: {
+      mission_id: { type: 'string' },
+      title: { type: 'string', description: 'Fallback title match when the ID is unknown' },
+      assignee: { type: 'string', description: 'New assignee callsign' },
+    },
+    required: ['assignee'],
+  },
+  update_mission: {
+    description: 'Update a mission\'s title, priority, status, assignee or deadline.',
+    parameters: {
+      mission_id: { type: 'string' },
+      title: { type: 'string' },
+      priority: { type: 'string', enum: PRIORITY_ENUM },
+      status: { type: 'string', enum: ['backlog', 'scheduled', 'in_progress', 'on_hold', 'review', 'done', 'cancelled'] },
+      assignee: { type: 'string' },
+      parent_id: { type: 'string', description: 'Move under this epic; empty string makes it top-level' },
+      budget_cap: { type: 'number', description: 'Spend cap in USD; 0 removes it' },
+      due_date: { type: 'string', description: 'New deadline (same forms as create_mission); empty string removes it' },
+    },
+    required: ['mission_id'],
+  },
+  hire_agent: {
+    description: 'Hire a new agent. Only after the founder agrees.',
+    parameters: {
+      name: { type: 'string', description: '4-8 character UPPERCASE callsign' },
+      role: { type: 'string' },
+      model: { type: 'string', description: 'Model display name, e.g. "Claude Sonnet 4.5"' },
+      system_prompt: { type: 'string', description: 'Defines the agent\'s expertise, output format and constraints' },
+      user_prompt: { type: 'string', description: 'First assignment' },
+      skills: { type: 'array', items: { type: 'string' }, description: 'Skill IDs to assign' },
+    },
+    required: ['name', 'role'],
+  },
+  fire_agent: {
+    description: 'Fire an agent. Only when asked or clearly appropriate.',
+    parameters: {
+      agent_id: { type: 'string' },
+      agent_name: { type: 'string' },
+      reason: { type: 'string' },
+    },
+    required: ['reason'],
+  },
+  update_agent_skills: {
+    description: 'Add or remove skills assigned to an agent.',
+    parameters: {
+      agent_id: { type: 'string' },
+      add: { type: 'array', items: { type: 'string' }, description: 'Skill IDs to assign' },
+      remove: { type: 'array', items: { type: 'string' }, description: 'Skill IDs to unassign' },
+    },
+    required: ['agent_id'],
+  },
+  request_budget_extension: {
+    description: 'Ask the founder to approve additional monthly budget.',
+    parameters: {
+      amount: { type: 'number', description: 'Additional USD requested' },
+      reason: { type: 'string' },
+    },
+    required: ['amount', 'reason'],
+  },
+  create_approval: {
+    description: 'Create a generic approval request for the founder.',
+    parameters: {
+      type: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      metadata: { type: 'object' },
+    },
+    required: ['title'],
+  },
+  create_skill: {
+    description: 'Create a personal skill (Skill Factory).',
+    parameters: {
+      id: { type: 'string', description: 'kebab-case skill ID' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      category: { type: 'string', enum: ['creation', 'research', 'communication', 'analysis'] },
+      commands: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            parameters: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  type: { type: 'string' },
+                  required: { type: 'boolean' },
+                  description: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+      connection_type: { type: 'string', enum: ['none', 'llm', 'api_key'] },
+      system_prompt: { type: 'string' },
+      handler_code: { type: 'string' },
+      service: { type: 'string', description: 'Vault service for api_key skills' },
+    },
+    required: ['id', 'title', 'description', 'commands'],
+  },
+};
+
 const ACTION_HANDLERS: Record<string, ActionHandler> = {
   create_mission: handleCreateMission,
   schedule_mission: handleScheduleMission,
   create_recurring_mission: handleCreateRecurringMission,
+  run_mission_template: handleRunMissionTemplate,
   cancel_mission: handleCancelMission,
   reassign_mission: handleReassignMission,
   update_mission: handleUpdateMission,
@@ -213,31 +410,62 @@ async function handleCreateMission(
     return { success: false, message: 'Mission title is required.' };
   }
 
-  const missionId = makeId('mission');
   const priority = (args.priority as string) ?? 'medium';
   const assignee = (args.assignee as string) ?? null;
 
-  await saveMission({
-    id: missionId,
-    title: title.trim(),
-    status: 'backlog',
-    assignee,
+  let parentId: string | null = null;
+  if (args.parent_id) {
+    parentId = await resolveMissionId(args.parent_id as string, undefined);
+    if (!parentId) {
+      return { success: false, message: `Parent mission "${args.parent_id}" not found.` };
+    }
+  }
+
+  const dueDate = typeof args.due_date === 'string' && args.due_date.trim() ? args.due_date.trim() : null;
+  if (dueDate && !parseDeadline(dueDate)) {
+    return { success: false, message: `Could not read the due date "${dueDate}" — use YYYY-MM-DD or YYYY-MM-DDTHH:mm.` };
+  }
+
+  const spec: MissionTreeSpec = {
+    title,
     priority,
-    created_by: 'ceo',
-  });
+    assignee,
+    sub_missions: Array.isArray(args.sub_missions) ? (args.sub_missions as MissionTreeSpec[]) : [],
+  };
+  let created;
+  try {
+    created = await createMissionTree(spec, { parentId, createdBy: 'ceo' });
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+  const missionId = created[0].id;
+  const subCount = created.length - 1;
+  const budgetCap = typeof args.budget_cap === 'number' && args.budget_cap > 0 ? args.budget_cap : null;
+  if (budgetCap) await updateMission(missionId, { budget_cap: budgetCap });
+  if (dueDate) await updateMission(missionId, { due_date: dueDate });
 
   dispatchEvent(new Event('missions-changed'));
 
-  await postChatMessage(conversationId, `Created mission: **${title.trim()}** [${priority}]`, 'mission_created', {
+  const outline = subCount > 0
+    ? '\n' + created.slice(1).map(c => `${'  '.repeat(c.depth - 1)}- ${c.title}`).join('\n')
+    : '';
+  const subLabel = subCount > 0 ? ` with ${subCount} sub-mission${subCount !== 1 ? 's' : ''}` : '';
+  const capLabel = [budgetCap ? `cap $${budgetCap.toFixed(2)}` : null, dueDate ? `due ${dueDate}` : null]
+    .filter(Boolean).map(l => ` (${l})`).join('');
+  await postChatMessage(conversationId, `Created mission: **${title.trim()}** [${priority}]${capLabel}${subLabel}${outline}`, 'mission_created', {
     mission_id: missionId,
     priority,
     assignee,
+    parent_id: parentId,
+    budget_cap: budgetCap,
+    due_date: dueDate,
+    sub_mission_ids: created.slice(1).map(c => c.id),
   });
 
   return {
     success: true,
-    message: `Mission "${title.trim()}" created.`,
-    metadata: { mission_id: missionId },
+    message: `Mission "${title.trim()}" created${subLabel}.`,
+    metadata: { mission_id: missionId, parent_id: parentId, sub_mission_ids: created.slice(1).map(c => c.id) },
   };
 }
 
@@ -334,10 +562,18 @@ async function handleCreateRecurringMission(
     return { success: false, message: 'Cron expression is required for recurring missions.' };
   }
 
-  // Validate cron has 5 fields
-  const cronParts = cron.trim().split(/\s+/);
-  if (cronParts.length !== 5) {
-    return { success: false, message: `Invalid cron expression: "${cron}". Must have 5 fields: minute hour day-of-month month day-of-week.` };
+  const cronError = validateCron(cron);
+  if (cronError) {
+    return { success: false, message: `Invalid cron expression "${cron}": ${cronError}` };
+  }
+
+  const timezone = (args.timezone as string | undefined)?.trim() || localTimezone();
+  if (!isValidTimezone(timezone)) {
+    return { success: false, message: `Unknown timezone "${timezone}". Use an IANA name like "America/New_York".` };
+  }
+  const catchUp = (args.catch_up as CatchUpMode | undefined) ?? 'once';
+  if (!CATCH_UP_MODES.includes(catchUp)) {
+    return { success: false, message: `catch_up must be one of: ${CATCH_UP_MODES.join(', ')}.` };
   }
 
   const trimmedTitle = title.trim();
@@ -352,6 +588,28 @@ async function handleCreateRecurringMission(
     return { success: false, message: 'max_runs must be a positive integer.' };
   }
 
+  // Optional template: every fire instantiates it (pinned version or latest) with the same params
+  let templateId: string | null = null;
+  let templateVersion: number | null = null;
+  let templateParams: Record<string, unknown> | null = null;
+  if (typeof args.template === 'string' && args.template.trim()) {
+    const template = await findMissionTemplate(args.template);
+    if (!template) {
+      return { success: false, message: `Unknown mission template "${args.template}".` };
+    }
+    templateVersion = args.template_version != null ? Number(args.template_version) : null;
+    const version = await getTemplateVersion(template.id, templateVersion);
+    if (!version) {
+      return { success: false, message: `Template "${template.name}" has no version ${templateVersion}.` };
+    }
+    const { values, errors } = validateTemplateParams(version.placeholders, (args.params as Record<string, unknown>) ?? {});
+    if (errors.length > 0) {
+      return { success: false, message: `Template "${template.name}": ${errors.join('; ')}` };
+    }
+    templateId = template.id;
+    templateParams = values;
+  }
+
   // Dedup: check for existing recurring mission with same title (cancel old, create new)
   const existingMissions = await loadMissions();
   const duplicate = existingMissions.find(
@@ -375,25 +633,82 @@ async function handleCreateRecurringMission(
     priority,
     recurring: cron,
     recurring_mode: recurringMode,
+    recurring_timezone: timezone,
+    recurring_catch_up: catchUp,
     created_by: 'ceo',
     max_runs: maxRuns,
     run_count: 0,
+    template_id: templateId,
+    template_version: templateVersion,
+    template_params: templateParams,
   });
 
   dispatchEvent(new Event('missions-changed'));
 
   const maxRunsLabel = maxRuns != null ? ` (${maxRuns} runs)` : '';
-  await postChatMessage(conversationId, `Created recurring mission: **${trimmedTitle}** [${cron}]${maxRunsLabel}`, 'mission_recurring', {
+  const first = nextRun(cron, new Date(), timezone);
+  const firstLabel = first
+    ? ` First run: ${first.toLocaleString('en-US', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' })} ${timezone}.`
+    : '';
+  await postChatMessage(conversationId, `Created recurring mission: **${trimmedTitle}** [${cron}]${maxRunsLabel}.${firstLabel}`, 'mission_recurring', {
     mission_id: missionId,
     cron,
+    timezone,
+    catch_up: catchUp,
     recurring_mode: recurringMode,
     max_runs: maxRuns,
+    template_id: templateId,
   });
 
   return {
     success: true,
-    message: `Recurring mission "${trimmedTitle}" created with cron: ${cron}${maxRunsLabel}.`,
-    metadata: { mission_id: missionId, cron, recurring_mode: recurringMode, max_runs: maxRuns },
+    message: `Recurring mission "${trimmedTitle}" created with cron: ${cron} (${timezone})${maxRunsLabel}.${firstLabel}`,
+    metadata: { mission_id: missionId, cron, timezone, catch_up: catchUp, recurring_mode: recurringMode, max_runs: maxRuns, template_id: templateId, template_version: templateVersion },
+  };
+}
+
+async function handleRunMissionTemplate(
+  args: Record<string, unknown>,
+  conversationId?: string,
+): Promise<ActionResult> {
+  const ref = args.template as string | undefined;
+  if (!ref?.trim()) {
+    return { success: false, message: 'Template ID or name is required.' };
+  }
+
+  const missionId = args.mission_id
+    ? await resolveMissionId(args.mission_id as string, undefined)
+    : null;
+  const version = args.version != null ? Number(args.version) : null;
+  if (version !== null && (!Number.isInteger(version) || version < 1)) {
+    return { success: false, message: 'version must be a positive integer.' };
+  }
+
+  let result;
+  try {
+    result = await instantiateTemplate(ref, (args.params as Record<string, unknown>) ?? {}, {
+      version,
+      missionId: missionId ?? undefined,
+      conversationId,
+      founderPresent: !!conversationId,
+    });
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+
+  dispatchEvent(new Event('missions-changed'));
+
+  await postChatMessage(conversationId, `Started **${result.title}** from template "${result.template.name}" v${result.version}.`, 'mission_template_run', {
+    mission_id: result.missionId,
+    template_id: result.template.id,
+    template_version: result.version,
+    params: result.values,
+  });
+
+  return {
+    success: true,
+    message: `Mission "${result.title}" started from template "${result.template.name}" v${result.version}.`,
+    metadata: { mission_id: result.missionId, template_id: result.template.id, template_version: result.version },
   };
 }
 
@@ -411,7 +726,7 @@ async function handleCancelMission(
     .from('task_executions')
     .update({ status: 'failed', result: { error: 'Mission cancelled by CEO' } })
     .eq('mission_id', missionId)
-    .in('status', ['pending', 'running']);
+    .in('status', ['queued', 'pending', 'running']);
 
   // Cancel the mission
   await updateMissionStatus(missionId, 'cancelled');
@@ -444,12 +759,12 @@ async function handleReassignMission(
 
   await updateMission(missionId, { assignee: newAssignee });
 
-  // Update pending task_executions to the new agent
+  // Update queued/pending task_executions to the new agent
   await getSupabase()
     .from('task_executions')
     .update({ agent_id: newAssignee })
     .eq('mission_id', missionId)
-    .in('status', ['pending']);
+    .in('status', ['queued', 'pending']);
 
   dispatchEvent(new Event('missions-changed'));
 
@@ -479,6 +794,28 @@ async function handleUpdateMission(
   if (args.status !== undefined) fields.status = args.status as string;
   if (args.title !== undefined) fields.title = args.title as string;
   if (args.assignee !== undefined) fields.assignee = args.assignee as string;
+  if (args.parent_id !== undefined) {
+    const rawParent = String(args.parent_id ?? '').trim();
+    const parentId = rawParent ? await resolveMissionId(rawParent, undefined) : null;
+    if (rawParent && !parentId) {
+      return { success: false, message: `Parent mission "${rawParent}" not found.` };
+    }
+    if (parentId && wouldCreateCycle(await loadMissions(), missionId, parentId)) {
+      return { success: false, message: 'A mission cannot be moved under itself or one of its own sub-missions.' };
+    }
+    fields.parent_id = parentId;
+  }
+  if (args.budget_cap !== undefined) {
+    const cap = Number(args.budget_cap);
+    fields.budget_cap = Number.isFinite(cap) && cap > 0 ? cap : null;
+  }
+  if (args.due_date !== undefined) {
+    const due = String(args.due_date ?? '').trim();
+    if (due && !parseDeadline(due)) {
+      return { success: false, message: `Could not read the due date "${due}" — use YYYY-MM-DD or YYYY-MM-DDTHH:mm.` };
+    }
+    fields.due_date = due || null;
+  }
 
   if (Object.keys(fields).length === 0) {
     return { success: false, message: 'No fields to update.' };
@@ -577,6 +914,7 @@ async function handleHireAgent(
   });
 
   await logAudit('CEO', 'AGENT_HIRED', `Hired ${name} (${agentId}) as ${role}`, 'info');
+  await emitWebhookEvent('agent.hired', { agent: { id: agentId, name, role, model, skills: skills ?? [] }, hired_by: 'CEO' });
 
   return {
     success: true,
@@ -613,12 +951,12 @@ async function handleFireAgent(
     }
   }
 
-  // Fail pending/running task_executions
+  // Fail queued/pending/running task_executions
   await getSupabase()
     .from('task_executions')
     .update({ status: 'failed', result: { error: 'Agent fired' } })
     .eq('agent_id', agent.id)
-    .in('status', ['pending', 'running']);
+    .in('status', ['queued', 'pending', 'running']);
 
   // Delete the agent
   await deleteAgent(agent.id);
@@ -632,6 +970,7 @@ async function handleFireAgent(
   });
 
   await logAudit('CEO', 'AGENT_FIRED', `Fired ${agent.name} (${agent.id})`, 'warning');
+  await emitWebhookEvent('agent.fired', { agent: { id: agent.id, name: agent.name, role: agent.role }, fired_by: 'CEO' });
 
   return {
     success: true,
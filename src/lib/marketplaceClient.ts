@@ -197,7 +197,7 @@ export function getSigningExpiry(): { unlocked: boolean; label: string } {
  * Must be called once at sidecar boot, after Supabase is connected.
  */
 export async function initSidecarSigning(): Promise<boolean> {
-  const entry = await getVaultEntryByService('marketplace-signing');
+  const entry = await getVaultEntryByService('marketplace-signing', { context: 'marketplace' });
   if (!entry) { console.warn('[Sidecar] No signing key in vault'); return false; }
   try {
     const data = JSON.parse(entry.key_value);
@@ -544,7 +544,7 @@ export async function sendHeartbeat(): Promise<void> {
   if (!publicKey) {
     try {
       const { getVaultEntryByService } = await import('./database');
-      const entry = await getVaultEntryByService('marketplace_identity');
+      const entry = await getVaultEntryByService('marketplace_identity', { context: 'marketplace' });
       if (entry?.key_value) {
         const parsed = typeof entry.key_value === 'string' ? JSON.parse(entry.key_value) : entry.key_value;
         publicKey = parsed.publicKey ?? null;
@@ -2,18 +2,18 @@
  * Jarvis Inc -- Memory Service
  * ============================
  * CRUD operations for org_memory + conversation_summaries tables.
- * Provides memory extraction from conversations via LLM and
- * keyword-based memory querying (pgvector cosine distance planned later).
+ * Provides memory extraction from conversations via LLM and hybrid
+ * memory querying: pgvector cosine similarity + keyword hits + importance.
+ * Embeddings come from the pluggable backends in ./embeddings.
  */
 
 import { getSupabase } from './supabase';
 import type { ChatMessageRow } from './database';
 import { loadCEO, getVaultEntryByService, saveArchivedMemory, logAudit, getPrompt, type ArchivedMemoryRow } from './database';
 import { MODEL_SERVICE_MAP, MODEL_API_IDS } from './models';
-import type { LLMMessage, LLMProvider } from './llm/types';
-import { anthropicProvider } from './llm/providers/anthropic';
-import { openaiProvider, deepseekProvider, xaiProvider } from './llm/providers/openai';
-import { googleProvider } from './llm/providers/google';
+import type { LLMMessage } from './llm/types';
+import { PROVIDERS } from './llm/registry';
+import { getEmbedder, type Embedder } from './embeddings';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,6 +27,7 @@ export interface MemoryRow {
   tags: string[];
   importance: number;
   embedding: unknown | null;
+  embedding_model: string | null;
   created_at: string;
   updated_at: string;
   expires_at: string | null;
@@ -49,18 +50,6 @@ export interface ConversationSummaryRow {
   created_at: string;
 }
 
-// ---------------------------------------------------------------------------
-// Provider registry (mirrors chatService.ts)
-// ---------------------------------------------------------------------------
-
-const PROVIDERS: Record<string, LLMProvider> = {
-  Anthropic: anthropicProvider,
-  OpenAI:    openaiProvider,
-  Google:    googleProvider,
-  DeepSeek:  deepseekProvider,
-  xAI:       xaiProvider,
-};
-
 // ---------------------------------------------------------------------------
 // Internal: call LLM non-streaming (collect full text via stream callbacks)
 // ---------------------------------------------------------------------------
@@ -72,7 +61,7 @@ async function callLLM(messages: LLMMessage[]): Promise<string | null> {
   const service = MODEL_SERVICE_MAP[ceo.model] ?? '';
   if (!service || !PROVIDERS[service]) return null;
 
-  const vaultEntry = await getVaultEntryByService(service);
+  const vaultEntry = await getVaultEntryByService(service, { context: 'memory' });
   if (!vaultEntry) return null;
 
   const apiModelId = MODEL_API_IDS[ceo.model] ?? ceo.model;
@@ -95,7 +84,12 @@ async function callLLM(messages: LLMMessage[]): Promise<string | null> {
 // Memory CRUD
 // ---------------------------------------------------------------------------
 
-export async function saveMemory(memory: MemoryInput): Promise<MemoryRow> {
+/**
+ * Upsert a memory. Its embedding is computed inline unless `embed` is false
+ * (batch callers embed afterwards via embedMemories). Embedding failures never
+ * block the save — the backfill job picks those rows up later.
+ */
+export async function saveMemory(memory: MemoryInput, options: { embed?: boolean } = {}): Promise<MemoryRow> {
   const id = memory.id ?? `mem-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   const now = new Date().toISOString();
 
@@ -113,10 +107,12 @@ export async function saveMemory(memory: MemoryInput): Promise<MemoryRow> {
     .from('org_memory')
     .upsert(row, { onConflict: 'id' });
 
+  if (options.embed !== false) await embedMemories([row]);
+
   // Re-read to get full row with server defaults
   const { data } = await getSupabase()
     .from('org_memory')
-    .select('id, category, content, source, tags, importance, embedding, created_at, updated_at, expires_at')
+    .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
     .eq('id', id)
     .single();
 
@@ -131,6 +127,7 @@ export async function saveMemory(memory: MemoryInput): Promise<MemoryRow> {
     tags: row.tags,
     importance: row.importance,
     embedding: null,
+    embedding_model: null,
     created_at: now,
     updated_at: now,
     expires_at: null,
@@ -140,7 +137,7 @@ export async function saveMemory(memory: MemoryInput): Promise<MemoryRow> {
 export async function getMemories(limit = 50): Promise<MemoryRow[]> {
   const { data } = await getSupabase()
     .from('org_memory')
-    .select('id, category, content, source, tags, importance, embedding, created_at, updated_at, expires_at')
+    .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
     .order('updated_at', { ascending: false })
     .limit(limit);
   return (data ?? []) as MemoryRow[];
@@ -149,7 +146,7 @@ export async function getMemories(limit = 50): Promise<MemoryRow[]> {
 export async function getMemoriesByCategory(category: string, limit = 50): Promise<MemoryRow[]> {
   const { data } = await getSupabase()
     .from('org_memory')
-    .select('id, category, content, source, tags, importance, embedding, created_at, updated_at, expires_at')
+    .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
     .eq('category', category)
     .order('updated_at', { ascending: false })
     .limit(limit);
@@ -159,24 +156,22 @@ export async function getMemoriesByCategory(category: string, limit = 50): Promi
 export async function getMemoriesByTags(tags: string[], limit = 50): Promise<MemoryRow[]> {
   const { data } = await getSupabase()
     .from('org_memory')
-    .select('id, category, content, source, tags, importance, embedding, created_at, updated_at, expires_at')
+    .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
     .overlaps('tags', tags)
     .order('updated_at', { ascending: false })
     .limit(limit);
   return (data ?? []) as MemoryRow[];
 }
 
-export async function queryMemories(text: string, limit = 20): Promise<MemoryRow[]> {
-  // MVP: keyword search via ilike on content.
-  // Future: pgvector cosine distance on embedding column.
-  const keywords = text.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-  if (keywords.length === 0) return getMemories(limit);
+function extractKeywords(text: string): string[] {
+  return [...new Set(text.toLowerCase().split(/\s+/).map(w => w.replace(/[^\p{L}\p{N}-]/gu, '')).filter(w => w.length > 2))];
+}
 
-  // Search content for any keyword match
-  // Use OR filter: content ilike any of the keywords
+async function keywordCandidates(keywords: string[], limit: number): Promise<MemoryRow[]> {
+  if (keywords.length === 0) return [];
   const { data } = await getSupabase()
     .from('org_memory')
-    .select('id, category, content, source, tags, importance, embedding, created_at, updated_at, expires_at')
+    .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
     .or(keywords.map(k => `content.ilike.%${k}%`).join(','))
     .order('importance', { ascending: false })
     .order('updated_at', { ascending: false })
@@ -184,20 +179,181 @@ export async function queryMemories(text: string, limit = 20): Promise<MemoryRow
   return (data ?? []) as MemoryRow[];
 }
 
+/** Nearest neighbours by cosine similarity (match_org_memory RPC). Null = vector search unavailable. */
+async function vectorCandidates(text: string, limit: number): Promise<Map<string, number> | null> {
+  try {
+    const embedder = await getEmbedder();
+    if (!embedder) return null;
+    const [queryEmbedding] = await embedder.embed([text]);
+    const { data, error } = await getSupabase().rpc('match_org_memory', {
+      query_embedding: queryEmbedding,
+      match_model: embedder.model,
+      match_count: limit,
+    });
+    if (error) throw new Error(error.message);
+    return new Map(((data ?? []) as { id: string; similarity: number }[]).map(r => [r.id, r.similarity]));
+  } catch (err) {
+    console.warn('[Memory] Vector search unavailable, using keyword ranking:', err);
+    return null;
+  }
+}
+
+/** Hybrid ranking weights — vector similarity, keyword coverage, importance (all 0..1) */
+const HYBRID_WEIGHTS = { vector: 0.6, keyword: 0.25, importance: 0.15 };
+
+export interface RankedMemory {
+  memory: MemoryRow;
+  /** Weighted hybrid score, 0..1 */
+  score: number;
+}
+
+/**
+ * Hybrid memory search: pgvector similarity + keyword coverage + importance.
+ * Falls back to keyword + importance when no embedder is configured or the
+ * embedding call fails.
+ */
+export async function searchMemories(text: string, limit = 20): Promise<RankedMemory[]> {
+  const keywords = extractKeywords(text);
+  if (!text.trim()) return [];
+
+  const poolSize = Math.max(limit * 3, 30);
+  const [similarities, keywordRows] = await Promise.all([
+    vectorCandidates(text, poolSize),
+    keywordCandidates(keywords, poolSize),
+  ]);
+
+  // Hydrate vector hits that the keyword query didn't return
+  const rows = new Map(keywordRows.map(m => [m.id, m]));
+  const missing = [...(similarities?.keys() ?? [])].filter(id => !rows.has(id));
+  if (missing.length > 0) {
+    const { data } = await getSupabase()
+      .from('org_memory')
+      .select('id, category, content, source, tags, importance, embedding, embedding_model, created_at, updated_at, expires_at')
+      .in('id', missing);
+    for (const m of (data ?? []) as MemoryRow[]) rows.set(m.id, m);
+  }
+  if (rows.size === 0) return [];
+
+  const w = similarities
+    ? HYBRID_WEIGHTS
+    : { vector: 0, keyword: HYBRID_WEIGHTS.keyword, importance: HYBRID_WEIGHTS.importance };
+  const total = w.vector + w.keyword + w.importance;
+
+  const scored = [...rows.values()].map(m => {
+    const haystack = `${m.content} ${m.tags?.join(' ') ?? ''}`.toLowerCase();
+    const keywordScore = keywords.length > 0 ? keywords.filter(k => haystack.includes(k)).length / keywords.length : 0;
+    const vectorScore = Math.max(0, similarities?.get(m.id) ?? 0);
+    const importanceScore = (m.importance ?? 5) / 10;
+    return { memory: m, score: (w.vector * vectorScore + w.keyword * keywordScore + w.importance * importanceScore) / total };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.memory.updated_at.localeCompare(a.memory.updated_at))
+    .slice(0, limit);
+}
+
+/** Hybrid-ranked memories for a query; most recent memories when the query is empty */
+export async function queryMemories(text: string, limit = 20): Promise<MemoryRow[]> {
+  if (!text.trim()) return getMemories(limit);
+  return (await searchMemories(text, limit)).map(r => r.memory);
+}
+
 export async function deleteMemory(id: string): Promise<void> {
   await getSupabase().from('org_memory').delete().eq('id', id);
 }
 
+// ---------------------------------------------------------------------------
+// Embeddings
+// ---------------------------------------------------------------------------
+
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Compute and store embeddings for the given memories with the active backend.
+ * Best-effort: failures are logged and leave the rows for the backfill job.
+ * Returns the number of rows embedded.
+ */
+export async function embedMemories(
+  memories: { id: string; content: string }[],
+  embedder?: Embedder | null,
+): Promise<number> {
+  if (memories.length === 0) return 0;
+  const active = embedder === undefined ? await getEmbedder().catch(() => null) : embedder;
+  if (!active) return 0;
+
+  let count = 0;
+  for (let i = 0; i < memories.length; i += EMBED_BATCH_SIZE) {
+    const batch = memories.slice(i, i + EMBED_BATCH_SIZE);
+    try {
+      const vectors = await active.embed(batch.map(m => m.content));
+      for (let j = 0; j < batch.length; j++) {
+        if (!vectors[j]) continue;
+        const { error } = await getSupabase()
+          .from('org_memory')
+          .update({ embedding: vectors[j], embedding_model: active.model })
+          .eq('id', batch[j].id);
+        if (!error) count++;
+      }
+    } catch (err) {
+      console.warn(`[Memory] Embedding failed (${active.model}):`, err);
+      break;
+    }
+  }
+  return count;
+}
+
+/** How many memories carry an embedding from the active backend */
+export async function getEmbeddingCoverage(): Promise<{ model: string | null; embedded: number; total: number }> {
+  const embedder = await getEmbedder().catch(() => null);
+  const sb = getSupabase();
+  const { count: total } = await sb.from('org_memory').select('id', { count: 'exact', head: true });
+  if (!embedder) return { model: null, embedded: 0, total: total ?? 0 };
+  const { count: embedded } = await sb
+    .from('org_memory')
+    .select('id', { count: 'exact', head: true })
+    .eq('embedding_model', embedder.model)
+    .not('embedding', 'is', null);
+  return { model: embedder.model, embedded: embedded ?? 0, total: total ?? 0 };
+}
+
+/**
+ * Backfill job — embeds rows that have no embedding yet or were embedded by a
+ * different backend than the active one. Processes at most `limit` rows per
+ * call so the scheduler tick stays short.
+ */
+export async function backfillMemoryEmbeddings(limit = 100): Promise<{ embedded: number; remaining: number }> {
+  const embedder = await getEmbedder().catch(() => null);
+  if (!embedder) return { embedded: 0, remaining: 0 };
+
+  const stale = `embedding.is.null,embedding_model.is.null,embedding_model.neq."${embedder.model}"`;
+  const { data, count } = await getSupabase()
+    .from('org_memory')
+    .select('id, content', { count: 'exact' })
+    .or(stale)
+    .order('importance', { ascending: false })
+    .limit(limit);
+
+  const rows = (data ?? []) as { id: string; content: string }[];
+  const embedded = await embedMemories(rows, embedder);
+  if (embedded > 0) {
+    logAudit(null, 'MEMORY_EMBEDDED', `Embedded ${embedded} memories with ${embedder.model}`, 'info');
+  }
+  return { embedded, remaining: Math.max(0, (count ?? rows.length) - embedded) };
+}
+
 // ---------------------------------------------------------------------------
 // LLM-Powered Memory Chat
 // ---------------------------------------------------------------------------
 
 export async function chatWithMemories(query: string): Promise<{ answer: string; relevantMemories: MemoryRow[] }> {
-  // 1. Load top memories by importance
-  const allMemories = await getMemories(100);
-
-  // 2. Build memory context
-  const memoryContext = allMemories.map(m =>
+  // 1. Hybrid-ranked memories for the question, topped up with recent ones for general context
+  const relevantMemories = await queryMemories(query, 30);
+  const relevantIds = new Set(relevantMemories.map(m => m.id));
+  const recent = (await getMemories(100)).filter(m => !relevantIds.has(m.id)).slice(0, 70);
+  const contextMemories = [...relevantMemories, ...recent];
+
+  // 2. Build memory context (most relevant first)
+  const memoryContext = contextMemories.map(m =>
     `[${m.category}] (importance: ${m.importance}) ${m.content} [tags: ${m.tags?.join(', ') ?? ''}]`
   ).join('\n');
 
@@ -215,15 +371,8 @@ ${memoryContext}`;
 
   const answer = await callLLM(messages) ?? 'Unable to process your question — no LLM key configured.';
 
-  // 4. Return which memories are likely relevant (keyword match for highlighting)
-  const keywords = query.toLowerCase().split(/\s+/).filter(w => w.length > 2);
-  const relevantMemories = keywords.length > 0
-    ? allMemories.filter(m =>
-        keywords.some(k => m.content.toLowerCase().includes(k) || m.tags?.some(t => t.toLowerCase().includes(k)))
-      )
-    : allMemories.slice(0, 10);
-
-  return { answer, relevantMemories };
+  // 4. Return the top-ranked memories for highlighting
+  return { answer, relevantMemories: relevantMemories.slice(0, 10) };
 }
 
 // ---------------------------------------------------------------------------
@@ -349,7 +498,7 @@ export async function extractMemories(
             source: existingMatch.source,
             tags: existingMatch.tags,
             importance: newImportance,
-          });
+          }, { embed: false }); // content unchanged — keep the existing embedding
         }
       }
       continue;
@@ -367,13 +516,16 @@ export async function extractMemories(
       source: conversationId,
       tags,
       importance,
-    });
+    }, { embed: false });
     saved.push(row);
 
     // Add to dedup list for this batch
     existingContentLower.push(contentLower);
   }
 
+  // Embed the new memories in one batch
+  await embedMemories(saved);
+
   if (saved.length > 0) {
     logAudit('CEO', 'MEMORY_EXTRACTED', `Extracted ${saved.length} memories from conversation`, 'info');
   }
@@ -688,17 +840,19 @@ export async function consolidateDailyMemories(): Promise<{
   }
 
   // Insert deduplicated entries back into org_memory (one row per distinct fact)
+  const consolidatedRows: MemoryRow[] = [];
   for (const cr of categoryResults) {
     for (const entry of cr.entries) {
-      await saveMemory({
+      consolidatedRows.push(await saveMemory({
         category: cr.category,
         content: entry,
         source: 'consolidation',
         tags: ['consolidated', ...cr.tags.filter(t => t !== 'consolidated')],
         importance: cr.importance,
-      });
+      }, { embed: false }));
     }
   }
+  await embedMemories(consolidatedRows);
 
   // Generate daily digest
   const dailyDigestPrompt = (await getPrompt('memory-daily-digest')) ?? DAILY_DIGEST_PROMPT;
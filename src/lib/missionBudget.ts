@@ -0,0 +1,298 @@
+/**
+ * Mission Budgets — per-mission spend caps and pre-flight cost estimates
+ * ======================================================================
+ * The monthly budget (checkBudget in ceoDecisionEngine) guards the whole
+ * organization; this module guards single missions.
+ *
+ * Before the CEO dispatches a planned mission it gets a cost estimate: the
+ * planned command's expected token counts (the average of its recent runs,
+ * or a default when it has none) priced with MODEL_COSTS. An estimate above
+ * the approval threshold — or above what is left of the mission's cap —
+ * puts the mission on hold behind a 'mission_budget' approval instead of
+ * queueing its tasks.
+ *
+ * A mission may carry a spend cap (missions.budget_cap, USD). A cap covers
+ * the mission's own tasks and those of its sub-missions. Once the summed
+ * task_executions.cost_usd reaches it, the tasks still waiting (queued or
+ * blocked) are failed, and the mission goes to review. Tasks already running
+ * finish — a call in flight can't be taken back.
+ *
+ * The threshold lives in settings under `mission_budget_policy` (JSON).
+ */
+
+import { getSupabase } from './supabase';
+import { getSetting, setSetting, logAudit, saveApproval } from './database';
+import { estimateCost } from './models';
+import { resolveSkill } from './skillResolver';
+import { descendantIds } from './missionHierarchy';
+import { notifyMissionStatus } from './webhooks';
+import type { MissionPlan } from './taskDispatcher';
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+export interface MissionBudgetPolicy {
+  /** Estimates above this (USD) wait for Founder approval; 0 = never ask */
+  approvalThreshold: number;
+}
+
+const SETTING_KEY = 'mission_budget_policy';
+
+export const DEFAULT_MISSION_BUDGET_POLICY: MissionBudgetPolicy = {
+  approvalThreshold: 1,
+};
+
+export async function loadMissionBudgetPolicy(): Promise<MissionBudgetPolicy> {
+  try {
+    const raw = await getSetting(SETTING_KEY);
+    return raw ? { ...DEFAULT_MISSION_BUDGET_POLICY, ...JSON.parse(raw) } : DEFAULT_MISSION_BUDGET_POLICY;
+  } catch {
+    return DEFAULT_MISSION_BUDGET_POLICY;
+  }
+}
+
+export async function saveMissionBudgetPolicy(policy: MissionBudgetPolicy): Promise<void> {
+  await setSetting(SETTING_KEY, JSON.stringify(policy));
+}
+
+// ---------------------------------------------------------------------------
+// Estimates
+// ---------------------------------------------------------------------------
+
+/** A command with no history: a full prompt in, a full response out (providers cap at 2048) */
+const DEFAULT_INPUT_TOKENS = 2_000;
+const DEFAULT_OUTPUT_TOKENS = 2_048;
+const OUTPUT_SHARE = DEFAULT_OUTPUT_TOKENS / (DEFAULT_INPUT_TOKENS + DEFAULT_OUTPUT_TOKENS);
+const HISTORY_SAMPLE = 20;
+
+export interface TaskEstimate {
+  skillId: string;
+  commandName: string;
+  model: string;
+  tokens: number;
+  cost: number;
+  /** Where the token count came from */
+  basis: 'history' | 'default' | 'no-llm';
+}
+
+export interface PlanEstimate {
+  total: number;
+  tasks: TaskEstimate[];
+}
+
+/** Expected tokens and cost of one planned command on `model` */
+export async function estimateTaskCost(skillId: string, commandName: string, model: string): Promise<TaskEstimate> {
+  const { data } = await getSupabase()
+    .from('task_executions')
+    .select('tokens_used')
+    .eq('skill_id', skillId)
+    .eq('command_name', commandName)
+    .eq('status', 'completed')
+    .order('completed_at', { ascending: false })
+    .limit(HISTORY_SAMPLE);
+  const samples = ((data ?? []) as { tokens_used: number | null }[]).map(r => r.tokens_used ?? 0);
+
+  if (samples.length > 0) {
+    const tokens = Math.round(samples.reduce((sum, t) => sum + t, 0) / samples.length);
+    const output = Math.round(tokens * OUTPUT_SHARE);
+    return { skillId, commandName, model, tokens, cost: estimateCost(model, tokens - output, output), basis: 'history' };
+  }
+
+  // Fixed-service skills (APIs, CLI handlers) make no LLM calls; ceo-direct has no definition and does
+  const skill = await resolveSkill(skillId);
+  if (skill && skill.serviceType !== 'llm') {
+    return { skillId, commandName, model, tokens: 0, cost: 0, basis: 'no-llm' };
+  }
+  return {
+    skillId,
+    commandName,
+    model,
+    tokens: DEFAULT_INPUT_TOKENS + DEFAULT_OUTPUT_TOKENS,
+    cost: estimateCost(model, DEFAULT_INPUT_TOKENS, DEFAULT_OUTPUT_TOKENS),
+    basis: 'default',
+  };
+}
+
+export async function estimatePlanCost(tasks: { skillId: string; commandName: string; model: string }[]): Promise<PlanEstimate> {
+  const estimates = await Promise.all(tasks.map(t => estimateTaskCost(t.skillId, t.commandName, t.model)));
+  return { total: estimates.reduce((sum, e) => sum + e.cost, 0), tasks: estimates };
+}
+
+// ---------------------------------------------------------------------------
+// Spend
+// ---------------------------------------------------------------------------
+
+interface BudgetMissionRow {
+  id: string;
+  title: string;
+  status: string;
+  parent_id: string | null;
+  budget_cap: number | null;
+}
+
+async function loadBudgetMissions(): Promise<BudgetMissionRow[]> {
+  const { data } = await getSupabase().from('missions').select('id, title, status, parent_id, budget_cap');
+  return (data ?? []) as BudgetMissionRow[];
+}
+
+/** The mission and everything below it */
+function subtree(missions: BudgetMissionRow[], id: string): string[] {
+  return [id, ...descendantIds(missions, id)];
+}
+
+async function spendOf(missionIds: string[]): Promise<number> {
+  const { data } = await getSupabase()
+    .from('task_executions')
+    .select('cost_usd')
+    .in('mission_id', missionIds);
+  return ((data ?? []) as { cost_usd: number | null }[]).reduce((sum, t) => sum + (t.cost_usd ?? 0), 0);
+}
+
+/** Task spend of a mission, its sub-missions included */
+export async function missionSpend(missionId: string): Promise<number> {
+  return spendOf(subtree(await loadBudgetMissions(), missionId));
+}
+
+// ---------------------------------------------------------------------------
+// Pre-flight
+// ---------------------------------------------------------------------------
+
+/**
+ * Why a planned mission should wait for the Founder before dispatch — its
+ * estimate is over the approval threshold, or over what remains of a cap
+ * on it or on an epic above it. Null when it can go.
+ */
+export async function preflightHoldReason(missionId: string, estimate: number): Promise<string | null> {
+  const [policy, missions] = await Promise.all([loadMissionBudgetPolicy(), loadBudgetMissions()]);
+  const byId = new Map(missions.map(m => [m.id, m]));
+
+  const seen = new Set<string>();
+  for (let m = byId.get(missionId); m && !seen.has(m.id); m = m.parent_id ? byId.get(m.parent_id) : undefined) {
+    seen.add(m.id);
+    if (!m.budget_cap || m.budget_cap <= 0) continue;
+    const remaining = m.budget_cap - await spendOf(subtree(missions, m.id));
+    if (estimate > remaining) {
+      const where = m.id === missionId ? 'its' : `"${m.title}"'s`;
+      return `Estimated $${estimate.toFixed(2)} is more than the $${Math.max(0, remaining).toFixed(2)} left of ${where} $${m.budget_cap.toFixed(2)} cap`;
+    }
+  }
+
+  if (policy.approvalThreshold > 0 && estimate > policy.approvalThreshold) {
+    return `Estimated $${estimate.toFixed(2)} is above the $${policy.approvalThreshold.toFixed(2)} approval threshold`;
+  }
+  return null;
+}
+
+/**
+ * Put a planned mission on hold behind a 'mission_budget' approval. The plan
+ * rides along in the approval; releaseBudgetHold() (taskDispatcher) queues
+ * it once the Founder approves.
+ */
+export async function requestBudgetApproval(
+  mission: { id: string; title: string; budget_cap: number | null },
+  plan: MissionPlan,
+  reason: string,
+): Promise<string> {
+  const sb = getSupabase();
+  const approvalId = `approval-mission-budget-${mission.id}`;
+  await sb.from('missions').update({ status: 'on_hold' }).eq('id', mission.id);
+
+  // One approval per mission — a re-plan replaces the previous request
+  await sb.from('approvals').delete().eq('id', approvalId);
+  await saveApproval({
+    id: approvalId,
+    type: 'mission_budget',
+    title: `Mission budget: ${mission.title}`,
+    description: `${reason}. Approve to dispatch, or keep the mission on hold.`,
+    status: 'pending',
+    metadata: {
+      mission_id: mission.id,
+      estimate: plan.costEstimate,
+      cap: mission.budget_cap,
+      reason,
+      plan,
+    },
+  });
+
+  await logAudit(null, 'MISSION_BUDGET_HOLD', `Mission "${mission.title}" held before dispatch: ${reason}`, 'warning');
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('approvals-changed'));
+    window.dispatchEvent(new Event('missions-changed'));
+  }
+  return approvalId;
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+/**
+ * Halt what is left of every capped mission over its cap on the way up from
+ * `missionId` (the mission, then the epics above it). Called after each
+ * finished task and swept by the CEO tick. Returns true when `missionId`'s
+ * remaining work was halted.
+ */
+export async function enforceMissionBudget(missionId: string): Promise<boolean> {
+  const missions = await loadBudgetMissions();
+  const byId = new Map(missions.map(m => [m.id, m]));
+  let halted = false;
+
+  const seen = new Set<string>();
+  for (let m = byId.get(missionId); m && !seen.has(m.id); m = m.parent_id ? byId.get(m.parent_id) : undefined) {
+    seen.add(m.id);
+    if (!m.budget_cap || m.budget_cap <= 0) continue;
+    const ids = subtree(missions, m.id);
+    const spend = await spendOf(ids);
+    if (spend < m.budget_cap) continue;
+    if (await haltMission(m, ids, spend)) halted = true;
+  }
+  return halted;
+}
+
+async function haltMission(mission: BudgetMissionRow, missionIds: string[], spend: number): Promise<boolean> {
+  const sb = getSupabase();
+  const error = `Mission budget cap reached ($${spend.toFixed(2)} of $${mission.budget_cap!.toFixed(2)}) — not run`;
+  const { data: stopped } = await sb.from('task_executions').update({
+    status: 'failed',
+    result: { output: '', error },
+    completed_at: new Date().toISOString(),
+  }).in('mission_id', missionIds).in('status', ['queued', 'blocked']).select('id');
+
+  // Missions still being worked go to the Founder; backlog ones stay put — dispatching them hits the cap pre-flight
+  const { data: moved } = await sb.from('missions')
+    .update({ status: 'review' })
+    .in('id', missionIds)
+    .eq('status', 'in_progress')
+    .select('id');
+
+  const stoppedCount = stopped?.length ?? 0;
+  if (stoppedCount === 0 && (moved?.length ?? 0) === 0) return false;
+
+  for (const { id } of (moved ?? []) as { id: string }[]) notifyMissionStatus(id, 'review').catch(() => {});
+  await logAudit(
+    null,
+    'MISSION_BUDGET_CAP_REACHED',
+    `Mission "${mission.title}" spent $${spend.toFixed(2)} of its $${mission.budget_cap!.toFixed(2)} cap — ${stoppedCount} remaining task${stoppedCount === 1 ? '' : 's'} halted`,
+    'warning',
+  );
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('task-executions-changed'));
+    window.dispatchEvent(new Event('missions-changed'));
+  }
+  return true;
+}
+
+/** Tick sweep — for spend recorded where no finish hook ran (edge function, a crashed executor) */
+export async function enforceMissionBudgets(): Promise<number> {
+  const { data } = await getSupabase()
+    .from('missions')
+    .select('id')
+    .gt('budget_cap', 0)
+    .eq('status', 'in_progress');
+  let halted = 0;
+  for (const { id } of (data ?? []) as { id: string }[]) {
+    if (await enforceMissionBudget(id)) halted++;
+  }
+  return halted;
+}
@@ -0,0 +1,343 @@
+/**
+ * Mission Deadlines — parsed due dates, SLA escalation and hit rates
+ * ==================================================================
+ * missions.due_date keeps what was typed ("2026-03-01", "2026-03-01T17:00",
+ * "tomorrow", "in 3 days"); missions.deadline is the instant it names, read
+ * in missions.due_timezone — the zone of whoever set it — so a date-only due
+ * date ends at midnight there, not wherever the sidecar happens to run.
+ *
+ * The CEO tick walks open missions that are slipping up an escalation
+ * ladder, one rung per tick, recording the rung in missions.sla_stage:
+ *   1. at risk (less than a quarter of the mission's window left) — priority
+ *      goes up a level, which moves its tasks up the work queue;
+ *   2. half of that at-risk window gone — the mission moves to the least-busy
+ *      agent, when its assignee has more missions in progress than they do;
+ *   3. overdue — a 'mission_deadline' approval asks the Founder to extend it.
+ * Moving the deadline restarts the ladder.
+ *
+ * A mission meets its SLA when it reaches review (or done) by its deadline;
+ * missions.delivered_at is stamped by the database on the way in.
+ */
+
+import { getSupabase } from './supabase';
+import { loadAgents, logAudit, saveApproval, type MissionRow } from './database';
+import { resolveTimezone, wallTime, zonedInstant, type WallTime } from './cronParser';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const RELATIVE_RE = /^(?:in\s+|\+)(\d+)\s*(h|hours?|d|days?|w|weeks?)$/;
+const OFFSET_RE = /T.*(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+function isCalendarDay(year: number, month: number, day: number): boolean {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.getUTCFullYear() === year && d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+}
+
+function endOfDay(w: Pick<WallTime, 'year' | 'month' | 'day'>, timezone: string): Date {
+  return zonedInstant({ year: w.year, month: w.month, day: w.day, hour: 23, minute: 59, second: 59 }, timezone);
+}
+
+/**
+ * The instant a due date names, or null when it can't be read. Date-only
+ * values mean the end of that day in `timezone`; a timestamp with an offset
+ * (or Z) is taken as is.
+ */
+export function parseDeadline(input: string, timezone?: string | null, now: Date = new Date()): Date | null {
+  const text = input.trim();
+  if (!text) return null;
+  const tz = resolveTimezone(timezone);
+
+  if (OFFSET_RE.test(text)) {
+    const d = new Date(text);
+    return isNaN(d.getTime()) ? null : d;
+  }
+
+  const iso = DATE_RE.exec(text);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    if (!isCalendarDay(year, month, day)) return null;
+    if (iso[4] === undefined) return endOfDay({ year, month, day }, tz);
+    const hour = Number(iso[4]);
+    const minute = Number(iso[5]);
+    if (hour > 23 || minute > 59) return null;
+    return zonedInstant({ year, month, day, hour, minute, second: iso[6] ? Number(iso[6]) : 0 }, tz);
+  }
+
+  const lower = text.toLowerCase();
+  if (lower === 'today' || lower === 'eod') return endOfDay(wallTime(now.getTime(), tz), tz);
+  if (lower === 'tomorrow') return endOfDay(wallTime(now.getTime() + DAY_MS, tz), tz);
+
+  const relative = RELATIVE_RE.exec(lower);
+  if (relative) {
+    const unit = relative[2][0] === 'h' ? HOUR_MS : relative[2][0] === 'd' ? DAY_MS : 7 * DAY_MS;
+    return new Date(now.getTime() + Number(relative[1]) * unit);
+  }
+
+  // Written-out dates ("March 3, 2026") — keep the calendar day, end it in the zone
+  if (!/\d:\d/.test(text)) {
+    const loose = new Date(text);
+    if (!isNaN(loose.getTime())) {
+      return endOfDay({ year: loose.getFullYear(), month: loose.getMonth() + 1, day: loose.getDate() }, tz);
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+export type DeadlineState = 'on_track' | 'at_risk' | 'overdue' | 'met' | 'missed';
+
+type DeadlineFields = Pick<MissionRow, 'status' | 'deadline' | 'created_at' | 'delivered_at'>;
+
+const DELIVERED_STATUSES = new Set(['review', 'done', 'archived']);
+
+/** Supabase timestamps sometimes arrive without a zone — they are UTC */
+function toTime(iso: string): number {
+  return new Date(/(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : iso + 'Z').getTime();
+}
+
+/** How long before the deadline a mission counts as at risk: a quarter of its window, 1 hour to 3 days */
+function atRiskWindow(m: DeadlineFields): number {
+  const span = m.deadline && m.created_at ? toTime(m.deadline) - toTime(m.created_at) : 0;
+  return Math.min(3 * DAY_MS, Math.max(HOUR_MS, span / 4));
+}
+
+/** Where a mission stands against its deadline; null without one (or without a delivery time once delivered) */
+export function deadlineState(m: DeadlineFields, now: Date = new Date()): DeadlineState | null {
+  if (!m.deadline || m.status === 'cancelled') return null;
+  const deadline = toTime(m.deadline);
+  if (DELIVERED_STATUSES.has(m.status)) {
+    if (!m.delivered_at) return null;
+    return toTime(m.delivered_at) <= deadline ? 'met' : 'missed';
+  }
+  const left = deadline - now.getTime();
+  if (left < 0) return 'overdue';
+  return left < atRiskWindow(m) ? 'at_risk' : 'on_track';
+}
+
+/** The escalation rung a mission's timing calls for (0 = none) */
+function dueStage(m: DeadlineFields, now: Date): number {
+  const state = deadlineState(m, now);
+  if (state === 'overdue') return 3;
+  if (state !== 'at_risk') return 0;
+  return toTime(m.deadline!) - now.getTime() < atRiskWindow(m) / 2 ? 2 : 1;
+}
+
+/** "in 5h", "2d overdue" */
+export function formatTimeLeft(deadline: string, now: Date = new Date()): string {
+  const ms = toTime(deadline) - now.getTime();
+  const abs = Math.abs(ms);
+  const span = abs < HOUR_MS ? `${Math.max(1, Math.round(abs / 60_000))}m`
+    : abs < 2 * DAY_MS ? `${Math.round(abs / HOUR_MS)}h`
+      : `${Math.round(abs / DAY_MS)}d`;
+  return ms >= 0 ? `in ${span}` : `${span} overdue`;
+}
+
+// ---------------------------------------------------------------------------
+// Escalation — CEO tick
+// ---------------------------------------------------------------------------
+
+const PRIORITY_LADDER = ['low', 'medium', 'high', 'critical'];
+const OPEN_STATUSES = ['backlog', 'scheduled', 'in_progress', 'on_hold'];
+
+interface SlaMissionRow {
+  id: string;
+  title: string;
+  status: string;
+  assignee: string | null;
+  priority: string;
+  deadline: string | null;
+  created_at: string | null;
+  delivered_at: string | null;
+  sla_stage: number;
+}
+
+function deadlineApprovalId(missionId: string): string {
+  return `approval-mission-deadline-${missionId}`;
+}
+
+/**
+ * Move each slipping open mission one rung up the escalation ladder. The
+ * rung is claimed compare-and-set on sla_stage, so two ticks (browser and
+ * sidecar) never take the same step twice. Returns how many missions moved.
+ */
+export async function escalateDeadlines(now: Date = new Date()): Promise<number> {
+  const sb = getSupabase();
+  const { data } = await sb
+    .from('missions')
+    .select('id, title, status, assignee, priority, deadline, created_at, delivered_at, sla_stage')
+    .not('deadline', 'is', null)
+    .is('recurring', null)
+    .in('status', OPEN_STATUSES);
+  const missions = (data ?? []) as SlaMissionRow[];
+
+  let escalated = 0;
+  for (const m of missions) {
+    const stage = m.sla_stage ?? 0;
+    if (dueStage(m, now) <= stage) continue;
+    const next = stage + 1;
+
+    const fields: Record<string, unknown> = { sla_stage: next };
+    const rank = PRIORITY_LADDER.indexOf(m.priority);
+    if (next === 1 && rank >= 0 && rank < PRIORITY_LADDER.length - 1) fields.priority = PRIORITY_LADDER[rank + 1];
+    const { data: claimed } = await sb.from('missions').update(fields).eq('id', m.id).eq('sla_stage', stage).select('id');
+    if (!claimed?.length) continue;
+    escalated++;
+
+    const due = `${new Date(toTime(m.deadline!)).toISOString()} (${formatTimeLeft(m.deadline!, now)})`;
+    if (next === 1) {
+      await logAudit('CEO', 'MISSION_SLA_AT_RISK',
+        `Mission "${m.title}" is at risk of missing its deadline ${due}${fields.priority ? ` — priority raised to ${fields.priority}` : ''}`,
+        'warning');
+    } else if (next === 2) {
+      await reassignSlipping(m, due);
+    } else {
+      await requestDeadlineDecision(m, now);
+    }
+  }
+
+  if (escalated > 0 && typeof window !== 'undefined') window.dispatchEvent(new Event('missions-changed'));
+  return escalated;
+}
+
+/** Hand a slipping mission to the agent with the fewest missions in progress, if that's fewer than its assignee has */
+async function reassignSlipping(m: SlaMissionRow, due: string): Promise<void> {
+  const sb = getSupabase();
+  const [agents, { data: active }] = await Promise.all([
+    loadAgents(),
+    sb.from('missions').select('assignee').eq('status', 'in_progress'),
+  ]);
+  const assignees = ((active ?? []) as { assignee: string | null }[]).map(a => a.assignee);
+  const load = (name: string) => assignees.filter(a => a === name).length;
+  const candidate = agents
+    .filter(a => a.name !== m.assignee)
+    .sort((a, b) => load(a.name) - load(b.name))[0];
+
+  if (!candidate || (m.assignee && load(candidate.name) >= load(m.assignee))) {
+    await logAudit('CEO', 'MISSION_SLA_AT_RISK',
+      `Mission "${m.title}" is still slipping (due ${due}) — no less-loaded agent to hand it to`,
+      'warning');
+    return;
+  }
+
+  await sb.from('missions').update({ assignee: candidate.name }).eq('id', m.id);
+  // Work not started yet follows the mission; running tasks finish where they are
+  if (m.assignee) {
+    await sb.from('task_executions')
+      .update({ agent_id: candidate.name })
+      .eq('mission_id', m.id)
+      .eq('agent_id', m.assignee)
+      .in('status', ['queued', 'blocked']);
+  }
+  await logAudit('CEO', 'MISSION_SLA_REASSIGNED',
+    `Mission "${m.title}" (due ${due}) reassigned from ${m.assignee ?? 'nobody'} to ${candidate.name}`,
+    'warning');
+}
+
+/** Overdue: ask the Founder whether to extend. The proposal is a quarter of the original window (at least a day) from now. */
+async function requestDeadlineDecision(m: SlaMissionRow, now: Date): Promise<void> {
+  const deadline = toTime(m.deadline!);
+  const span = m.created_at ? deadline - toTime(m.created_at) : 0;
+  const proposed = new Date(now.getTime() + Math.max(DAY_MS, span / 4));
+  const approvalId = deadlineApprovalId(m.id);
+
+  const sb = getSupabase();
+  await sb.from('approvals').delete().eq('id', approvalId);
+  await saveApproval({
+    id: approvalId,
+    type: 'mission_deadline',
+    title: `Deadline missed: ${m.title}`,
+    description: `The mission was due ${new Date(deadline).toLocaleString()} and is ${formatTimeLeft(m.deadline!, now)}${m.assignee ? ` (${m.assignee})` : ''}. Approve to extend it to ${proposed.toLocaleString()}, or leave it overdue.`,
+    status: 'pending',
+    metadata: {
+      mission_id: m.id,
+      deadline: new Date(deadline).toISOString(),
+      proposed_deadline: proposed.toISOString(),
+      assignee: m.assignee,
+    },
+  });
+  await logAudit('CEO', 'MISSION_SLA_BREACHED', `Mission "${m.title}" missed its deadline — asked the Founder to extend it`, 'warning');
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('approvals-changed'));
+}
+
+/**
+ * Apply an approved 'mission_deadline' extension: the proposed deadline
+ * becomes the due date and the ladder restarts. Idempotent — marks the
+ * approval applied.
+ */
+export async function extendDeadline(approvalId: string): Promise<boolean> {
+  const sb = getSupabase();
+  const { data: approval } = await sb.from('approvals').select('status, metadata').eq('id', approvalId).maybeSingle();
+  const meta = (approval?.metadata ?? {}) as { mission_id?: string; proposed_deadline?: string; extended_at?: string };
+  if (approval?.status !== 'approved' || !meta.mission_id || !meta.proposed_deadline || meta.extended_at) return false;
+
+  await sb.from('approvals').update({ metadata: { ...meta, extended_at: new Date().toISOString() } }).eq('id', approvalId);
+  const { data: moved } = await sb.from('missions')
+    .update({ due_date: meta.proposed_deadline, deadline: meta.proposed_deadline, sla_stage: 0 })
+    .eq('id', meta.mission_id)
+    .in('status', OPEN_STATUSES)
+    .select('title');
+  const title = (moved as { title: string }[] | null)?.[0]?.title;
+  if (!title) return false; // delivered or cancelled meanwhile
+
+  await logAudit(null, 'MISSION_DEADLINE_EXTENDED', `Mission "${title}" deadline extended to ${meta.proposed_deadline}`, 'info');
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('missions-changed'));
+  return true;
+}
+
+/** Tick sweep — extensions approved outside the dashboard */
+export async function applyDeadlineExtensions(): Promise<number> {
+  const { data } = await getSupabase()
+    .from('approvals')
+    .select('id, metadata')
+    .eq('type', 'mission_deadline')
+    .eq('status', 'approved');
+  let extended = 0;
+  for (const row of (data ?? []) as { id: string; metadata: Record<string, unknown> | null }[]) {
+    if (row.metadata?.extended_at) continue;
+    if (await extendDeadline(row.id)) extended++;
+  }
+  return extended;
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+export interface SlaStats {
+  assignee: string;
+  met: number;
+  missed: number;
+  /** Open missions past / close to their deadline */
+  overdue: number;
+  atRisk: number;
+  /** met / (met + missed); null before any deadline mission is delivered */
+  hitRate: number | null;
+}
+
+/** SLA record per assignee, best hit rate first */
+export function slaStatsByAssignee(missions: MissionRow[], now: Date = new Date()): SlaStats[] {
+  const byAssignee = new Map<string, SlaStats>();
+  for (const m of missions) {
+    const state = deadlineState(m, now);
+    if (!state || state === 'on_track') continue;
+    const name = m.assignee ?? 'Unassigned';
+    const stats = byAssignee.get(name) ?? { assignee: name, met: 0, missed: 0, overdue: 0, atRisk: 0, hitRate: null };
+    if (state === 'met') stats.met++;
+    else if (state === 'missed') stats.missed++;
+    else if (state === 'overdue') stats.overdue++;
+    else stats.atRisk++;
+    byAssignee.set(name, stats);
+  }
+  return [...byAssignee.values()]
+    .map(s => ({ ...s, hitRate: s.met + s.missed > 0 ? s.met / (s.met + s.missed) : null }))
+    .sort((a, b) => (b.hitRate ?? -1) - (a.hitRate ?? -1) || a.assignee.localeCompare(b.assignee));
+}
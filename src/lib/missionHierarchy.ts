@@ -0,0 +1,315 @@
+/**
+ * Mission Hierarchy — epics and sub-missions
+ * ===========================================
+ * `missions.parent_id` links a sub-mission to its epic. Nothing is stored on
+ * the epic itself: progress, cost and grade are rolled up from the subtree
+ * when a view asks (computeRollups), and the CEO tick keeps the epic's status
+ * in step with its children (syncEpicStatuses) — in_progress once work starts
+ * below it, review once every child is finished.
+ *
+ * Starting an epic starts its backlog children instead of planning the epic's
+ * own title (see autoDispatchMission).
+ */
+
+import { getSupabase } from './supabase';
+import { saveMission, logAudit, type MissionRow } from './database';
+import { gradeFromScore } from './ceoEvaluator';
+import { notifyMissionStatus } from './webhooks';
+
+/** Children in these states count as finished when rolling an epic up */
+const FINISHED_STATUSES = new Set(['done', 'archived', 'cancelled']);
+/** Deepest tree and largest tree the CEO may create in one create_mission call */
+const MAX_TREE_DEPTH = 4;
+const MAX_TREE_NODES = 40;
+
+export interface MissionTreeNode {
+  mission: MissionRow;
+  children: MissionTreeNode[];
+  depth: number;
+}
+
+export interface MissionRollup {
+  /** 0..1 — own task completion for a leaf, mean of (non-cancelled) children for an epic */
+  progress: number;
+  /** USD of own tasks plus every descendant's */
+  cost: number;
+  /** Mean overall score of graded missions in the subtree, null when nothing is graded */
+  score: number | null;
+  grade: string | null;
+  /** Direct children (cancelled excluded) and how many of them are finished */
+  childCount: number;
+  doneChildren: number;
+}
+
+/** Nested mission spec accepted by create_mission's `sub_missions` */
+export interface MissionTreeSpec {
+  title: string;
+  priority?: string;
+  assignee?: string | null;
+  sub_missions?: MissionTreeSpec[];
+}
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Tree shape
+// ---------------------------------------------------------------------------
+
+/** Roots are missions without a parent (or whose parent isn't in `missions`); children keep input order */
+export function buildMissionTree(missions: MissionRow[]): MissionTreeNode[] {
+  const ids = new Set(missions.map(m => m.id));
+  const byParent = new Map<string, MissionRow[]>();
+  for (const m of missions) {
+    if (m.parent_id && ids.has(m.parent_id)) {
+      const list = byParent.get(m.parent_id) ?? [];
+      list.push(m);
+      byParent.set(m.parent_id, list);
+    }
+  }
+  const visited = new Set<string>();
+  const build = (mission: MissionRow, depth: number): MissionTreeNode => {
+    visited.add(mission.id);
+    const children = (byParent.get(mission.id) ?? [])
+      .filter(c => !visited.has(c.id)) // defensive — parent_id cycles are rejected on write
+      .map(c => build(c, depth + 1));
+    return { mission, children, depth };
+  };
+  return missions
+    .filter(m => !m.parent_id || !ids.has(m.parent_id))
+    .map(m => build(m, 0));
+}
+
+/** Every mission below `id` */
+export function descendantIds(missions: Pick<MissionRow, 'id' | 'parent_id'>[], id: string): Set<string> {
+  const out = new Set<string>();
+  const stack = [id];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const m of missions) {
+      if (m.parent_id === current && !out.has(m.id)) {
+        out.add(m.id);
+        stack.push(m.id);
+      }
+    }
+  }
+  return out;
+}
+
+/** True when making `parentId` the parent of `id` would put `id` above itself */
+export function wouldCreateCycle(missions: Pick<MissionRow, 'id' | 'parent_id'>[], id: string, parentId: string): boolean {
+  return parentId === id || descendantIds(missions, id).has(parentId);
+}
+
+/** Root-first chain of ancestors, e.g. for a breadcrumb */
+export function missionAncestors(missions: MissionRow[], id: string): MissionRow[] {
+  const byId = new Map(missions.map(m => [m.id, m]));
+  const chain: MissionRow[] = [];
+  const seen = new Set<string>([id]);
+  let parentId = byId.get(id)?.parent_id ?? null;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    chain.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.parent_id;
+  }
+  return chain;
+}
+
+// ---------------------------------------------------------------------------
+// Roll-ups
+// ---------------------------------------------------------------------------
+
+interface RollupTaskRow {
+  mission_id: string;
+  skill_id: string;
+  status: string;
+  cost_usd: number | null;
+}
+
+interface RollupRoundRow {
+  mission_id: string;
+  round_number: number;
+  overall_score: number | null;
+  grade: string | null;
+}
+
+/** Pure roll-up over already-loaded rows (tasks and graded rounds of the same missions) */
+export function computeRollups(
+  missions: MissionRow[],
+  tasks: RollupTaskRow[],
+  rounds: RollupRoundRow[],
+): Map<string, MissionRollup> {
+  const tasksByMission = new Map<string, RollupTaskRow[]>();
+  for (const t of tasks) {
+    const list = tasksByMission.get(t.mission_id) ?? [];
+    list.push(t);
+    tasksByMission.set(t.mission_id, list);
+  }
+  // Latest graded round per mission
+  const latestRound = new Map<string, RollupRoundRow>();
+  for (const r of rounds) {
+    const prev = latestRound.get(r.mission_id);
+    if (r.overall_score != null && (!prev || r.round_number > prev.round_number)) latestRound.set(r.mission_id, r);
+  }
+
+  const rollups = new Map<string, MissionRollup>();
+  const visit = (node: MissionTreeNode): MissionRollup => {
+    const m = node.mission;
+    const own = (tasksByMission.get(m.id) ?? []).filter(t => t.skill_id !== 'mission-summary');
+    const ownCost = (tasksByMission.get(m.id) ?? []).reduce((sum, t) => sum + (t.cost_usd ?? 0), 0);
+    const ownProgress = m.status === 'done' || m.status === 'archived' || m.status === 'review'
+      ? 1
+      : own.length > 0 ? own.filter(t => t.status === 'completed').length / own.length : 0;
+    const ownRound = latestRound.get(m.id);
+
+    const childRollups = node.children.map(c => ({ status: c.mission.status, rollup: visit(c) }));
+    const active = childRollups.filter(c => c.status !== 'cancelled');
+
+    let progress = ownProgress;
+    if (active.length > 0) {
+      // The epic's own tasks (if any) weigh like one more child
+      const units = active.map(c => c.rollup.progress);
+      if (own.length > 0) units.push(ownProgress);
+      progress = units.reduce((a, b) => a + b, 0) / units.length;
+    }
+
+    const scores = childRollups.map(c => c.rollup.score).filter((s): s is number => s != null);
+    if (ownRound?.overall_score != null) scores.push(ownRound.overall_score);
+    const score = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+    const grade = node.children.length === 0
+      ? ownRound?.grade ?? (score != null ? gradeFromScore(score) : null)
+      : score != null ? gradeFromScore(score) : null;
+
+    const rollup: MissionRollup = {
+      progress,
+      cost: ownCost + childRollups.reduce((sum, c) => sum + c.rollup.cost, 0),
+      score,
+      grade,
+      childCount: active.length,
+      doneChildren: active.filter(c => FINISHED_STATUSES.has(c.status)).length,
+    };
+    rollups.set(m.id, rollup);
+    return rollup;
+  };
+  buildMissionTree(missions).forEach(visit);
+  return rollups;
+}
+
+/** Load task costs and grades for `missions` and roll them up */
+export async function loadMissionRollups(missions: MissionRow[]): Promise<Map<string, MissionRollup>> {
+  if (missions.length === 0) return new Map();
+  const sb = getSupabase();
+  const ids = missions.map(m => m.id);
+  const [{ data: tasks }, { data: rounds }] = await Promise.all([
+    sb.from('task_executions').select('mission_id, skill_id, status, cost_usd').in('mission_id', ids),
+    sb.from('mission_rounds').select('mission_id, round_number, overall_score, grade').in('mission_id', ids).not('overall_score', 'is', null).is('replay_of', null),
+  ]);
+  return computeRollups(missions, (tasks ?? []) as RollupTaskRow[], (rounds ?? []) as RollupRoundRow[]);
+}
+
+// ---------------------------------------------------------------------------
+// Creation — CEO decomposition
+// ---------------------------------------------------------------------------
+
+function countSpec(spec: MissionTreeSpec, depth: number): { nodes: number; depth: number } {
+  let nodes = 1;
+  let deepest = depth;
+  for (const child of spec.sub_missions ?? []) {
+    const c = countSpec(child, depth + 1);
+    nodes += c.nodes;
+    deepest = Math.max(deepest, c.depth);
+  }
+  return { nodes, depth: deepest };
+}
+
+/**
+ * Create a mission and, recursively, its sub-missions (all in backlog).
+ * Returns the created IDs root-first. Throws when the tree is too big or a
+ * title is missing — before anything is written.
+ */
+export async function createMissionTree(
+  spec: MissionTreeSpec,
+  opts: { parentId?: string | null; createdBy?: string; status?: string } = {},
+): Promise<{ id: string; title: string; depth: number }[]> {
+  const { nodes, depth } = countSpec(spec, 1);
+  if (depth > MAX_TREE_DEPTH) throw new Error(`Mission tree is ${depth} levels deep — at most ${MAX_TREE_DEPTH} allowed`);
+  if (nodes > MAX_TREE_NODES) throw new Error(`Mission tree has ${nodes} missions — at most ${MAX_TREE_NODES} allowed`);
+  const missingTitle = (s: MissionTreeSpec): boolean => !s.title?.trim() || (s.sub_missions ?? []).some(missingTitle);
+  if (missingTitle(spec)) throw new Error('Every sub-mission needs a title');
+
+  const created: { id: string; title: string; depth: number }[] = [];
+  const create = async (s: MissionTreeSpec, parentId: string | null, level: number, inherited: { priority: string; assignee: string | null }) => {
+    const id = makeId('mission');
+    const priority = s.priority ?? inherited.priority;
+    const assignee = s.assignee !== undefined ? s.assignee : inherited.assignee;
+    await saveMission({
+      id,
+      title: s.title.trim(),
+      status: level === 0 ? (opts.status ?? 'backlog') : 'backlog',
+      priority,
+      assignee,
+      parent_id: parentId,
+      created_by: opts.createdBy ?? 'ceo',
+    });
+    created.push({ id, title: s.title.trim(), depth: level });
+    for (const child of s.sub_missions ?? []) {
+      await create(child, id, level + 1, { priority, assignee: null });
+    }
+  };
+  await create(spec, opts.parentId ?? null, 0, { priority: spec.priority ?? 'medium', assignee: spec.assignee ?? null });
+  return created;
+}
+
+// ---------------------------------------------------------------------------
+// Status sync — CEO tick
+// ---------------------------------------------------------------------------
+
+/**
+ * Move epics along with their children: in_progress once any child is being
+ * worked on, review once every (non-cancelled) child is finished. Returns how
+ * many epics changed status.
+ */
+export async function syncEpicStatuses(): Promise<number> {
+  const sb = getSupabase();
+  const { data: childRows } = await sb
+    .from('missions')
+    .select('id, parent_id, status')
+    .not('parent_id', 'is', null);
+  const children = (childRows ?? []) as { id: string; parent_id: string; status: string }[];
+  if (children.length === 0) return 0;
+
+  const parentIds = [...new Set(children.map(c => c.parent_id))];
+  const { data: parentRows } = await sb.from('missions').select('id, title, status').in('id', parentIds);
+  let changed = 0;
+
+  for (const parent of (parentRows ?? []) as { id: string; title: string; status: string }[]) {
+    const kids = children.filter(c => c.parent_id === parent.id && c.status !== 'cancelled');
+    if (kids.length === 0) continue;
+
+    let next: string | null = null;
+    if (kids.every(c => FINISHED_STATUSES.has(c.status))) {
+      if (['backlog', 'scheduled', 'in_progress', 'on_hold'].includes(parent.status)) next = 'review';
+    } else if (kids.some(c => c.status === 'in_progress' || c.status === 'review' || FINISHED_STATUSES.has(c.status))) {
+      if (parent.status === 'backlog' || parent.status === 'scheduled') next = 'in_progress';
+    }
+    if (!next) continue;
+
+    const { data: moved } = await sb.from('missions')
+      .update({ status: next })
+      .eq('id', parent.id)
+      .eq('status', parent.status)
+      .select('id');
+    if (!moved || moved.length === 0) continue;
+    changed++;
+    if (next === 'review') {
+      notifyMissionStatus(parent.id, 'review').catch(() => {});
+      logAudit(null, 'EPIC_READY', `All ${kids.length} sub-missions of "${parent.title}" are finished — moved to review`, 'info');
+    }
+  }
+
+  if (changed > 0 && typeof window !== 'undefined') window.dispatchEvent(new Event('missions-changed'));
+  return changed;
+}
@@ -0,0 +1,339 @@
+/**
+ * Mission Replay — round snapshots, replays and round-to-round diffs
+ * ==================================================================
+ * Every LLM task run stores the exact messages it sent and the raw reply in
+ * task_executions.conversation, and the model that answered, the prompt
+ * version and the executed parameters in task_executions.trace. When a round
+ * finishes (or is rejected for a redo, which resets its tasks in place) the
+ * round keeps a snapshot of its tasks in mission_rounds.tasks.
+ *
+ * A replay re-sends a snapshot's prompts — as recorded, or rebuilt from the
+ * skill's current prompt — to the same or another model, and records the
+ * result as a new round (status 'replay', replay_of → the source round) that
+ * the CEO scores like any other. Each task is replayed against the inputs it
+ * had, so upstream outputs are not regenerated; tasks with nothing to re-send
+ * (handler and API skills) are carried over unchanged.
+ *
+ * compareRounds() lines two rounds up task by task for the diff view: output
+ * line diffs, score deltas and cost deltas.
+ */
+
+import { getSupabase } from './supabase';
+import { getVaultEntryByService, logAudit, saveMissionRound, updateMissionRound, type MissionRoundRow, type RoundReplayConfig, type RoundTaskSnapshot } from './database';
+import type { VaultAccess } from './vaultScopes';
+import { resolveSkill } from './skillResolver';
+import { buildSkillMessages } from './skillExecutor';
+import { MODEL_SERVICE_MAP, MODEL_API_IDS, estimateCost } from './models';
+import { PROVIDERS } from './llm/registry';
+import { logUsage } from './llmUsage';
+import type { LLMMessage } from './llm/types';
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+interface SnapshotTaskRow {
+  id: string;
+  task_key: string | null;
+  skill_id: string;
+  command_name: string;
+  status: string;
+  model: string | null;
+  params: Record<string, unknown> | null;
+  conversation: LLMMessage[] | null;
+  trace: Record<string, unknown> | null;
+  result: { output?: string; error?: string } | null;
+  tokens_used: number | null;
+  cost_usd: number | null;
+}
+
+/** The mission's task executions as they stand, for mission_rounds.tasks (the mission summary is left out) */
+export async function snapshotRoundTasks(missionId: string): Promise<RoundTaskSnapshot[]> {
+  const { data } = await getSupabase()
+    .from('task_executions')
+    .select('id, task_key, skill_id, command_name, status, model, params, conversation, trace, result, tokens_used, cost_usd')
+    .eq('mission_id', missionId)
+    .neq('skill_id', 'mission-summary')
+    .order('created_at', { ascending: true });
+  return ((data ?? []) as SnapshotTaskRow[]).map(t => ({
+    task_id: t.id,
+    task_key: t.task_key,
+    skill_id: t.skill_id,
+    command_name: t.command_name,
+    status: t.status,
+    model: (t.trace?.model as string | undefined) ?? t.model,
+    params: t.params ?? {},
+    conversation: Array.isArray(t.conversation) ? t.conversation : [],
+    trace: t.trace,
+    output: t.result?.output ?? '',
+    error: t.result?.error ?? null,
+    tokens_used: t.tokens_used ?? 0,
+    cost_usd: t.cost_usd ?? 0,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/** Re-send messages to a model, the way executeSkill calls it */
+async function callModel(modelName: string, messages: LLMMessage[], access: VaultAccess): Promise<{ output: string; model: string; service: string }> {
+  const service = MODEL_SERVICE_MAP[modelName];
+  if (!service) throw new Error(`Unknown service for model "${modelName}"`);
+  const provider = PROVIDERS[service];
+  if (!provider) throw new Error(`No provider available for service "${service}"`);
+  const vaultEntry = await getVaultEntryByService(service, access);
+  if (!vaultEntry) throw new Error(`No API key found for ${service}. Add one in the Vault.`);
+
+  let served = { service, model: modelName };
+  const output = await new Promise<string>((resolve, reject) => {
+    provider.stream(messages, vaultEntry.key_value, MODEL_API_IDS[modelName] ?? modelName, {
+      onToken: () => {},
+      onFailover: (e) => { served = { service: e.toService, model: e.toModel }; },
+      onDone: (fullText: string) => resolve(fullText),
+      onError: (err: Error) => reject(err),
+    });
+  });
+  return { output, ...served };
+}
+
+async function replayTask(
+  task: RoundTaskSnapshot, config: RoundReplayConfig, missionId: string,
+): Promise<RoundTaskSnapshot> {
+  const recorded = task.conversation.filter(m => m.role !== 'assistant');
+  if (recorded.length === 0) return { ...task, replayed: false };
+
+  let messages: LLMMessage[] = recorded;
+  let promptVersion = (task.trace?.prompt_version as string | undefined) ?? null;
+  if (config.prompt === 'current') {
+    const skill = await resolveSkill(task.skill_id);
+    if (skill) {
+      messages = (await buildSkillMessages(skill, task.command_name, task.params)).messages;
+      promptVersion = `${skill.id}@${skill.version ?? 'unversioned'}`;
+    }
+  }
+
+  const modelName = config.model ?? task.model;
+  if (!modelName) return { ...task, replayed: false, status: 'failed', error: 'No model recorded for this task — pick one to replay it' };
+  const inputTokens = Math.ceil(messages.reduce((n, m) => n + m.content.length, 0) / 4);
+  try {
+    const { output, model, service } = await callModel(modelName, messages, { context: 'skill_execution', skill: { id: task.skill_id } });
+    const outputTokens = Math.ceil(output.length / 4);
+    logUsage({
+      provider: service, model, inputTokens, outputTokens,
+      context: 'skill_execution', skillId: task.skill_id, missionId,
+    }).catch(() => {});
+    return {
+      ...task,
+      status: 'completed',
+      model,
+      conversation: [...messages, { role: 'assistant', content: output }],
+      trace: { ...(task.trace ?? {}), model, service, prompt_version: promptVersion, replayed_at: new Date().toISOString() },
+      output,
+      error: null,
+      tokens_used: inputTokens + outputTokens,
+      cost_usd: estimateCost(modelName, inputTokens, outputTokens),
+      replayed: true,
+    };
+  } catch (err) {
+    return {
+      ...task,
+      status: 'failed',
+      model: modelName,
+      output: '',
+      error: err instanceof Error ? err.message : String(err),
+      tokens_used: 0,
+      cost_usd: 0,
+      replayed: true,
+    };
+  }
+}
+
+/**
+ * Replay a recorded round against another model and/or the skills' current
+ * prompts. The result is saved (and scored) as a new 'replay' round; the
+ * mission's own tasks and current round are untouched. Returns the new round.
+ */
+export async function replayMissionRound(roundId: string, config: RoundReplayConfig): Promise<MissionRoundRow> {
+  const sb = getSupabase();
+  const { data: source } = await sb.from('mission_rounds').select('*').eq('id', roundId).maybeSingle();
+  const round = source as MissionRoundRow | null;
+  if (!round) throw new Error('Round not found');
+  if (!round.tasks?.length) throw new Error('This round has no recorded tasks to replay');
+
+  const started = Date.now();
+  const tasks: RoundTaskSnapshot[] = [];
+  for (const task of round.tasks) tasks.push(await replayTask(task, config, round.mission_id));
+  const durationMs = Date.now() - started;
+
+  const replay: MissionRoundRow = {
+    ...round,
+    id: `round-${round.mission_id}-replay-${Date.now()}`,
+    status: 'replay',
+    quality_score: null,
+    completeness_score: null,
+    efficiency_score: null,
+    overall_score: null,
+    grade: null,
+    ceo_review: null,
+    ceo_recommendation: null,
+    rejection_feedback: null,
+    redo_strategy: null,
+    tokens_used: tasks.reduce((n, t) => n + t.tokens_used, 0),
+    cost_usd: tasks.reduce((n, t) => n + t.cost_usd, 0),
+    duration_ms: durationMs,
+    task_count: tasks.length,
+    tasks,
+    replay_of: round.id,
+    replay_config: config,
+    started_at: new Date(started).toISOString(),
+    completed_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+  };
+  await saveMissionRound(replay);
+
+  // Scored by the same evaluator as real rounds so the deltas mean something
+  const { data: mission } = await sb.from('missions').select('title').eq('id', round.mission_id).maybeSingle();
+  const { evaluateMission } = await import('./ceoEvaluator');
+  const score = await evaluateMission(
+    (mission as { title: string } | null)?.title ?? 'Untitled',
+    tasks.filter(t => t.status === 'completed').map(t => ({ skill_id: t.skill_id, output: t.output, tokens: t.tokens_used, cost: t.cost_usd })),
+    durationMs,
+  ).catch(() => null);
+  if (score) {
+    const scores = {
+      quality_score: score.quality,
+      completeness_score: score.completeness,
+      efficiency_score: score.efficiency,
+      overall_score: score.overall,
+      grade: score.grade,
+      ceo_review: score.review,
+      ceo_recommendation: score.recommendation,
+    };
+    Object.assign(replay, scores);
+    await updateMissionRound(replay.id, scores);
+  }
+
+  const replayed = tasks.filter(t => t.replayed).length;
+  await logAudit(
+    null,
+    'MISSION_REPLAYED',
+    `Replayed round ${round.round_number} of mission ${round.mission_id} (${replayed}/${tasks.length} tasks) with ${config.model ?? 'the recorded models'}, ${config.prompt} prompts — $${replay.cost_usd.toFixed(4)}`,
+    'info',
+  );
+  return replay;
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Above this many line pairs the LCS table gets too big — fall back to a plain before/after */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Line diff (longest common subsequence) from `before` to `after` */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map(text => ({ kind: 'removed' as const, text })), ...b.map(text => ({ kind: 'added' as const, text }))];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ kind: 'removed', text: a[i++] });
+    } else {
+      out.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) out.push({ kind: 'added', text: b[j++] });
+  return out;
+}
+
+export interface TaskComparison {
+  /** task_key, or skill:command (numbered when repeated) */
+  key: string;
+  before: RoundTaskSnapshot | null;
+  after: RoundTaskSnapshot | null;
+  diff: DiffLine[];
+  changed: boolean;
+  costDelta: number;
+}
+
+export interface RoundComparison {
+  tasks: TaskComparison[];
+  /** after − before; null when either round is unscored */
+  scoreDeltas: Record<'quality' | 'completeness' | 'efficiency' | 'overall', number | null>;
+  costDelta: number;
+  tokensDelta: number;
+  durationDelta: number | null;
+}
+
+function taskKeys(tasks: RoundTaskSnapshot[]): Map<string, RoundTaskSnapshot> {
+  const keyed = new Map<string, RoundTaskSnapshot>();
+  const seen = new Map<string, number>();
+  for (const t of tasks) {
+    const base = t.task_key ?? `${t.skill_id}:${t.command_name}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keyed.set(n === 1 ? base : `${base}#${n}`, t);
+  }
+  return keyed;
+}
+
+function delta(after: number | null, before: number | null): number | null {
+  return after === null || before === null ? null : after - before;
+}
+
+/** Line two rounds up task by task (matched by task key), with output diffs and score / cost deltas */
+export function compareRounds(before: MissionRoundRow, after: MissionRoundRow): RoundComparison {
+  const left = taskKeys(before.tasks ?? []);
+  const right = taskKeys(after.tasks ?? []);
+  const keys = [...left.keys(), ...[...right.keys()].filter(k => !left.has(k))];
+
+  return {
+    tasks: keys.map(key => {
+      const b = left.get(key) ?? null;
+      const a = right.get(key) ?? null;
+      const diff = diffLines(b?.output ?? '', a?.output ?? '');
+      return {
+        key,
+        before: b,
+        after: a,
+        diff,
+        changed: diff.some(d => d.kind !== 'same'),
+        costDelta: (a?.cost_usd ?? 0) - (b?.cost_usd ?? 0),
+      };
+    }),
+    scoreDeltas: {
+      quality: delta(after.quality_score, before.quality_score),
+      completeness: delta(after.completeness_score, before.completeness_score),
+      efficiency: delta(after.efficiency_score, before.efficiency_score),
+      overall: delta(after.overall_score, before.overall_score),
+    },
+    costDelta: after.cost_usd - before.cost_usd,
+    tokensDelta: after.tokens_used - before.tokens_used,
+    durationDelta: delta(after.duration_ms, before.duration_ms),
+  };
+}
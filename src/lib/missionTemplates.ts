@@ -0,0 +1,464 @@
+/**
+ * Mission Templates — named, versioned, parameterized mission playbooks
+ * ======================================================================
+ * A template version is a mission title plus a task plan (the same tool calls
+ * a <task_plan> carries, task-graph ids and depends_on included) whose strings
+ * may contain typed placeholders:
+ *
+ *   title: "Competitor scan: {{params.company}}"
+ *   plan:  [{"id":"research","name":"research-web","command":"search",
+ *            "arguments":{"query":"{{params.company}} pricing {{params.since}}"}}]
+ *
+ * Saving a template again writes a new immutable version; instantiating renders
+ * one version (latest unless pinned) with validated values and hands the plan
+ * to dispatchTaskPlan. Missions record template_id / template_version /
+ * template_params, and a recurring mission with template_id set spawns each
+ * child from its template (see spawnRecurringChild).
+ *
+ * {{params.x}} never collides with the task graph's {{key.output}} references —
+ * those are left untouched for the dispatcher to resolve at release time.
+ */
+
+import { getSupabase } from './supabase';
+import { loadCEO, loadTaskExecutions, logAudit } from './database';
+import type { PlanToolCall } from './llm/tools';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PlaceholderType = 'string' | 'number' | 'boolean' | 'date' | 'enum';
+
+export const PLACEHOLDER_TYPES: PlaceholderType[] = ['string', 'number', 'boolean', 'date', 'enum'];
+
+export interface TemplatePlaceholder {
+  /** Referenced as {{params.<name>}} — letters, digits and underscores */
+  name: string;
+  type: PlaceholderType;
+  label?: string;
+  description?: string;
+  required: boolean;
+  default?: string | number | boolean;
+  /** Allowed values for type 'enum' */
+  options?: string[];
+}
+
+export type TemplateValue = string | number | boolean;
+
+export interface MissionTemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateVersionRow {
+  id: string;
+  template_id: string;
+  version: number;
+  title: string;
+  placeholders: TemplatePlaceholder[];
+  plan: PlanToolCall[];
+  source_mission_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** Template with its latest version's placeholders — what pickers and the CEO prompt list */
+export interface TemplateCatalogEntry extends MissionTemplateRow {
+  title: string;
+  placeholders: TemplatePlaceholder[];
+}
+
+export interface TemplateDraft {
+  title: string;
+  plan: PlanToolCall[];
+}
+
+const PLACEHOLDER_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PARAM_RE = /\{\{\s*params\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const SINGLE_PARAM_RE = /^\{\{\s*params\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function emitEvent(name: string): void {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(name));
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export async function loadMissionTemplates(): Promise<MissionTemplateRow[]> {
+  const { data } = await getSupabase()
+    .from('mission_templates')
+    .select('*')
+    .order('name');
+  return (data ?? []) as MissionTemplateRow[];
+}
+
+/** Every template with the title and placeholders of its current version */
+export async function loadTemplateCatalog(): Promise<TemplateCatalogEntry[]> {
+  const templates = await loadMissionTemplates();
+  if (templates.length === 0) return [];
+  const { data } = await getSupabase()
+    .from('mission_template_versions')
+    .select('template_id, version, title, placeholders')
+    .in('template_id', templates.map(t => t.id));
+  const versions = (data ?? []) as Pick<TemplateVersionRow, 'template_id' | 'version' | 'title' | 'placeholders'>[];
+  return templates.map(t => {
+    const current = versions.find(v => v.template_id === t.id && v.version === t.current_version);
+    return { ...t, title: current?.title ?? t.name, placeholders: current?.placeholders ?? [] };
+  });
+}
+
+/** Newest first */
+export async function loadTemplateVersions(templateId: string): Promise<TemplateVersionRow[]> {
+  const { data } = await getSupabase()
+    .from('mission_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+  return (data ?? []) as TemplateVersionRow[];
+}
+
+/** Look a template up by ID, then by case-insensitive name */
+export async function findMissionTemplate(idOrName: string): Promise<MissionTemplateRow | null> {
+  const sb = getSupabase();
+  const key = idOrName.trim();
+  if (!key) return null;
+  const { data: byId } = await sb.from('mission_templates').select('*').eq('id', key).maybeSingle();
+  if (byId) return byId as MissionTemplateRow;
+  const { data: byName } = await sb.from('mission_templates').select('*').ilike('name', key).limit(1).maybeSingle();
+  return (byName as MissionTemplateRow | null) ?? null;
+}
+
+/** A specific revision, or the template's current one when `version` is null/undefined */
+export async function getTemplateVersion(templateId: string, version?: number | null): Promise<TemplateVersionRow | null> {
+  const sb = getSupabase();
+  let wanted = version ?? null;
+  if (wanted == null) {
+    const { data: tmpl } = await sb.from('mission_templates').select('current_version').eq('id', templateId).maybeSingle();
+    if (!tmpl) return null;
+    wanted = (tmpl as { current_version: number }).current_version;
+  }
+  const { data } = await sb
+    .from('mission_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('version', wanted)
+    .maybeSingle();
+  return (data as TemplateVersionRow | null) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Placeholders — detection, validation, rendering
+// ---------------------------------------------------------------------------
+
+function collectParams(value: unknown, into: Set<string>): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PARAM_RE)) into.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectParams(v, into));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(v => collectParams(v, into));
+  }
+}
+
+/** Placeholder names used in a title + plan, in first-seen order */
+export function detectPlaceholders(title: string, plan: PlanToolCall[]): string[] {
+  const names = new Set<string>();
+  collectParams(title, names);
+  plan.forEach(call => collectParams(call.arguments, names));
+  return [...names];
+}
+
+function coerceValue(p: TemplatePlaceholder, raw: unknown): { value?: TemplateValue; error?: string } {
+  const label = p.label || p.name;
+  switch (p.type) {
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      return Number.isFinite(n) ? { value: n } : { error: `${label} must be a number` };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      const s = String(raw).trim().toLowerCase();
+      if (['true', 'yes', '1', 'on'].includes(s)) return { value: true };
+      if (['false', 'no', '0', 'off'].includes(s)) return { value: false };
+      return { error: `${label} must be true or false` };
+    }
+    case 'date': {
+      const s = String(raw).trim();
+      const d = /^\d{4}-\d{2}-\d{2}$/.test(s) ? new Date(`${s}T00:00:00Z`) : new Date(s);
+      return Number.isNaN(d.getTime()) ? { error: `${label} must be a date (YYYY-MM-DD)` } : { value: d.toISOString().slice(0, 10) };
+    }
+    case 'enum': {
+      const s = String(raw).trim();
+      const options = p.options ?? [];
+      return options.includes(s) ? { value: s } : { error: `${label} must be one of: ${options.join(', ')}` };
+    }
+    default:
+      return { value: String(raw) };
+  }
+}
+
+/**
+ * Coerce raw values (form strings or LLM JSON) to each placeholder's type,
+ * filling defaults. Unknown keys are dropped; every problem is reported.
+ */
+export function validateTemplateParams(
+  placeholders: TemplatePlaceholder[],
+  raw: Record<string, unknown>,
+): { values: Record<string, TemplateValue>; errors: string[] } {
+  const values: Record<string, TemplateValue> = {};
+  const errors: string[] = [];
+  for (const p of placeholders) {
+    const given = raw[p.name];
+    const missing = given === undefined || given === null || (typeof given === 'string' && given.trim() === '');
+    if (missing) {
+      if (p.default !== undefined && p.default !== '') values[p.name] = p.default;
+      else if (p.required) errors.push(`${p.label || p.name} is required`);
+      continue;
+    }
+    const { value, error } = coerceValue(p, given);
+    if (error) errors.push(error);
+    else values[p.name] = value!;
+  }
+  return { values, errors };
+}
+
+function renderValue(value: unknown, values: Record<string, TemplateValue>): unknown {
+  if (typeof value === 'string') {
+    // An argument that is exactly one placeholder keeps the value's type (number, boolean)
+    const single = value.match(SINGLE_PARAM_RE);
+    if (single) return values[single[1]] ?? '';
+    return value.replace(PARAM_RE, (_whole, name: string) => String(values[name] ?? ''));
+  }
+  if (Array.isArray(value)) return value.map(v => renderValue(v, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderValue(v, values)]));
+  }
+  return value;
+}
+
+/** Fill {{params.x}} in the title and every call's arguments */
+export function renderTemplate(
+  version: Pick<TemplateVersionRow, 'title' | 'plan'>,
+  values: Record<string, TemplateValue>,
+): TemplateDraft {
+  return {
+    title: String(renderValue(version.title, values)).trim(),
+    plan: version.plan.map(call => ({ ...call, arguments: renderValue(call.arguments, values) as Record<string, unknown> })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+interface DraftTaskRow {
+  id: string;
+  skill_id: string;
+  command_name: string;
+  params: Record<string, unknown> | null;
+  task_key: string | null;
+  depends_on: string[] | null;
+  checkpoint?: boolean | null;
+  context: Record<string, unknown> | null;
+}
+
+/**
+ * Rebuild a mission's plan from its task executions (summaries excluded) so it
+ * can be saved as a template. Dependencies are re-expressed as task keys, and
+ * released dependents use their params as planned — before upstream output
+ * was pasted in.
+ */
+export async function draftTemplateFromMission(missionId: string): Promise<TemplateDraft> {
+  const { data: mission } = await getSupabase().from('missions').select('title').eq('id', missionId).maybeSingle();
+  const tasks = ((await loadTaskExecutions(missionId)) as DraftTaskRow[])
+    .filter(t => t.skill_id !== 'mission-summary');
+
+  const keyById = new Map<string, string>();
+  const used = new Set<string>();
+  tasks.forEach((t, i) => {
+    let key = t.task_key || `t${i + 1}`;
+    if (used.has(key)) key = `${key}-${i + 1}`; // re-runs keep the original key
+    used.add(key);
+    keyById.set(t.id, key);
+  });
+
+  const plan: PlanToolCall[] = tasks.map(t => {
+    const dependsOn = (t.depends_on ?? []).map(id => keyById.get(id)).filter((k): k is string => !!k);
+    const planned = t.context?.planned_params as Record<string, unknown> | undefined;
+    return {
+      id: keyById.get(t.id)!,
+      name: t.skill_id,
+      command: t.command_name,
+      ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+      ...(t.checkpoint ? { checkpoint: true } : {}),
+      arguments: { ...(planned ?? t.params ?? {}) },
+    };
+  });
+
+  return { title: (mission as { title: string } | null)?.title ?? 'Untitled mission', plan };
+}
+
+export interface SaveTemplateInput {
+  /** Existing template to add a version to; omitted = match by name or create */
+  templateId?: string;
+  name: string;
+  description?: string;
+  title: string;
+  placeholders: TemplatePlaceholder[];
+  plan: PlanToolCall[];
+  sourceMissionId?: string;
+  createdBy?: string;
+}
+
+/**
+ * Save a template revision. A new name creates the template at version 1; an
+ * existing template (by ID or name) gets the next version and points at it.
+ * Throws when the plan is empty or uses a placeholder that isn't declared.
+ */
+export async function saveMissionTemplate(input: SaveTemplateInput): Promise<{ template: MissionTemplateRow; version: TemplateVersionRow }> {
+  const sb = getSupabase();
+  const name = input.name.trim();
+  const title = input.title.trim();
+  if (!name) throw new Error('Template name is required');
+  if (!title) throw new Error('Mission title is required');
+  if (input.plan.length === 0) throw new Error('Template has no tasks');
+
+  const declared = new Set<string>();
+  for (const p of input.placeholders) {
+    if (!PLACEHOLDER_NAME_RE.test(p.name)) throw new Error(`Invalid placeholder name "${p.name}" — use letters, digits and underscores`);
+    if (declared.has(p.name)) throw new Error(`Placeholder "${p.name}" is declared twice`);
+    if (p.type === 'enum' && !(p.options?.length)) throw new Error(`Placeholder "${p.name}" needs at least one option`);
+    declared.add(p.name);
+  }
+  const undeclared = detectPlaceholders(title, input.plan).filter(n => !declared.has(n));
+  if (undeclared.length > 0) throw new Error(`Undeclared placeholder${undeclared.length > 1 ? 's' : ''}: ${undeclared.join(', ')}`);
+
+  const existing = input.templateId
+    ? await findMissionTemplate(input.templateId)
+    : await findMissionTemplate(name);
+  const now = new Date().toISOString();
+  let template: MissionTemplateRow;
+
+  if (existing) {
+    template = {
+      ...existing,
+      name,
+      description: input.description?.trim() || existing.description,
+      current_version: existing.current_version + 1,
+      updated_at: now,
+    };
+    // Compare-and-set on current_version so two concurrent saves can't claim the same number
+    const { data: claimed, error } = await sb.from('mission_templates')
+      .update({ name, description: template.description, current_version: template.current_version, updated_at: now })
+      .eq('id', existing.id)
+      .eq('current_version', existing.current_version)
+      .select('id');
+    if (error) throw new Error(`saveMissionTemplate failed: ${error.message}`);
+    if (!claimed || claimed.length === 0) throw new Error(`Template "${existing.name}" was changed by someone else — reload and try again`);
+  } else {
+    template = {
+      id: makeId('template'),
+      name,
+      description: input.description?.trim() || null,
+      current_version: 1,
+      created_by: input.createdBy ?? null,
+      created_at: now,
+      updated_at: now,
+    };
+    const { error } = await sb.from('mission_templates').insert(template);
+    if (error) throw new Error(`saveMissionTemplate failed: ${error.message}`);
+  }
+
+  const version: TemplateVersionRow = {
+    id: makeId('tmplv'),
+    template_id: template.id,
+    version: template.current_version,
+    title,
+    placeholders: input.placeholders,
+    plan: input.plan,
+    source_mission_id: input.sourceMissionId ?? null,
+    created_by: input.createdBy ?? null,
+    created_at: now,
+  };
+  const { error: versionErr } = await sb.from('mission_template_versions').insert(version);
+  if (versionErr) throw new Error(`saveMissionTemplate failed: ${versionErr.message}`);
+
+  await logAudit(input.createdBy ?? null, 'TEMPLATE_SAVED', `Saved template "${name}" v${version.version} (${input.plan.length} task${input.plan.length !== 1 ? 's' : ''}, ${input.placeholders.length} placeholder${input.placeholders.length !== 1 ? 's' : ''})`, 'info');
+  emitEvent('mission-templates-changed');
+  return { template, version };
+}
+
+export async function deleteMissionTemplate(id: string): Promise<void> {
+  await getSupabase().from('mission_templates').delete().eq('id', id);
+  emitEvent('mission-templates-changed');
+}
+
+// ---------------------------------------------------------------------------
+// Instantiation
+// ---------------------------------------------------------------------------
+
+export interface InstantiateOptions {
+  /** Pinned revision; omitted/null = the template's current version */
+  version?: number | null;
+  /** Existing mission to run the plan in (recurring child, backlog item) instead of creating one */
+  missionId?: string;
+  conversationId?: string;
+  founderPresent?: boolean;
+}
+
+export interface InstantiateResult {
+  missionId: string;
+  template: MissionTemplateRow;
+  version: number;
+  title: string;
+  values: Record<string, TemplateValue>;
+}
+
+/**
+ * Render a template with `rawValues` and dispatch it as a mission. Throws when
+ * the template/version doesn't exist or the values don't validate.
+ */
+export async function instantiateTemplate(
+  idOrName: string,
+  rawValues: Record<string, unknown>,
+  opts: InstantiateOptions = {},
+): Promise<InstantiateResult> {
+  const template = await findMissionTemplate(idOrName);
+  if (!template) throw new Error(`Unknown mission template "${idOrName}"`);
+  const version = await getTemplateVersion(template.id, opts.version);
+  if (!version) throw new Error(`Template "${template.name}" has no version ${opts.version}`);
+
+  const { values, errors } = validateTemplateParams(version.placeholders, rawValues);
+  if (errors.length > 0) throw new Error(`Template "${template.name}": ${errors.join('; ')}`);
+  const rendered = renderTemplate(version, values);
+
+  const ceo = await loadCEO();
+  // Dynamic import to avoid circular dependency
+  const { dispatchTaskPlan } = await import('./taskDispatcher');
+  const [missionId] = await dispatchTaskPlan(
+    [{ title: rendered.title, missionId: opts.missionId, toolCalls: rendered.plan }],
+    ceo?.model ?? 'Claude Sonnet 4.5',
+    { conversationId: opts.conversationId, founderPresent: opts.founderPresent },
+  );
+  if (!missionId) throw new Error(`Failed to create a mission from template "${template.name}"`);
+
+  await getSupabase().from('missions').update({
+    template_id: template.id,
+    template_version: version.version,
+    template_params: values,
+  }).eq('id', missionId);
+
+  await logAudit(ceo?.name ?? null, 'TEMPLATE_INSTANTIATED', `Ran template "${template.name}" v${version.version} as "${rendered.title}" (${missionId})`, 'info');
+  emitEvent('missions-changed');
+  return { missionId, template, version: version.version, title: rendered.title, values };
+}
@@ -48,6 +48,10 @@ export const SERVICE_KEY_HINTS: Record<string, { url: string; steps: string[] }>
     url: 'console.x.ai',
     steps: ['Go to console.x.ai', 'API Keys', 'Generate new key'],
   },
+  'Local': {
+    url: 'http://localhost:11434',
+    steps: ['Start Ollama, llama.cpp server or LM Studio', 'Enable CORS / allow this origin if prompted', 'Paste the base URL (optionally followed by a space and an API key)'],
+  },
 };
 
 export const MODEL_API_IDS: Record<string, string> = {
@@ -93,6 +97,68 @@ export function getServiceForModel(model: string): string {
   return MODEL_SERVICE_MAP[model] ?? 'Unknown';
 }
 
+// ---------------------------------------------------------------------------
+// Registry hydration — the tables above are built-in defaults; the
+// model_registry table is the source of truth once loaded (see llm/registry.ts)
+// ---------------------------------------------------------------------------
+
+export interface ModelDefinition {
+  /** Display name stored on CEO/agent rows, e.g. "Claude Opus 4.6" */
+  name: string;
+  service: string;
+  apiId: string;
+  /** USD per 1M tokens */
+  inputCost: number;
+  outputCost: number;
+  /** Offered in model pickers (unselectable models still resolve for legacy rows) */
+  selectable: boolean;
+}
+
+/** Built-in defaults, used to seed the registry and when the DB has no rows */
+export function builtinModels(): ModelDefinition[] {
+  const names = [
+    ...MODEL_OPTIONS,
+    ...Object.keys(MODEL_SERVICE_MAP).filter(name => !MODEL_OPTIONS.includes(name)),
+  ];
+  return names.map(name => ({
+    name,
+    service: MODEL_SERVICE_MAP[name],
+    apiId: MODEL_API_IDS[name] ?? name,
+    inputCost: MODEL_COSTS[name]?.[0] ?? 0,
+    outputCost: MODEL_COSTS[name]?.[1] ?? 0,
+    selectable: MODEL_OPTIONS.includes(name),
+  }));
+}
+
+/**
+ * Replace the model tables in place so every existing importer sees the
+ * registry without re-importing. An empty list is ignored (keeps defaults).
+ */
+export function applyModelRegistry(models: ModelDefinition[]): void {
+  if (models.length === 0) return;
+  for (const table of [MODEL_SERVICE_MAP, MODEL_API_IDS, MODEL_COSTS]) {
+    for (const key of Object.keys(table)) delete table[key];
+  }
+  MODEL_OPTIONS.splice(0, MODEL_OPTIONS.length);
+  for (const m of models) {
+    MODEL_SERVICE_MAP[m.name] = m.service;
+    MODEL_API_IDS[m.name] = m.apiId;
+    MODEL_COSTS[m.name] = [m.inputCost, m.outputCost];
+    if (m.selectable) MODEL_OPTIONS.push(m.name);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Local (OpenAI-compatible) models — discovered at runtime, not hardcoded
+// ---------------------------------------------------------------------------
+
+export const LOCAL_SERVICE = 'Local';
+
+/** Display name for a model discovered on the local server, e.g. "llama3.1:8b (Local)" */
+export function localModelName(apiId: string): string {
+  return `${apiId} (Local)`;
+}
+
 export const SERVICE_KEY_VALIDATORS: Record<string, { prefixes: string[]; minLength: number }> = {
   'Anthropic': { prefixes: ['sk-ant-'], minLength: 40 },
   'OpenAI': { prefixes: ['sk-'], minLength: 30 },
@@ -105,6 +171,11 @@ export const SERVICE_KEY_VALIDATORS: Record<string, { prefixes: string[]; minLen
 export function validateApiKeyFormat(service: string, key: string): { valid: boolean; message: string } {
   const trimmed = key.trim();
   if (trimmed.length === 0) return { valid: false, message: '' };
+  if (service === LOCAL_SERVICE) {
+    return /^https?:\/\/\S+/.test(trimmed)
+      ? { valid: true, message: 'Format OK' }
+      : { valid: false, message: 'Expected a base URL, e.g. http://localhost:11434' };
+  }
   const spec = SERVICE_KEY_VALIDATORS[service];
   if (!spec) return { valid: trimmed.length >= 10, message: trimmed.length >= 10 ? 'Format OK' : 'Key too short' };
   if (trimmed.length < spec.minLength) {
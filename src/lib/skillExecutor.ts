@@ -10,10 +10,8 @@ import { getVaultEntryByService, logAudit, getPrompt, loadCEO, getSetting, getSk
 import { getSupabase } from './supabase';
 import { MODEL_SERVICE_MAP, MODEL_API_IDS, estimateCost } from './models';
 import { logUsage } from './llmUsage';
-import type { LLMMessage, LLMProvider } from './llm/types';
-import { anthropicProvider } from './llm/providers/anthropic';
-import { openaiProvider, deepseekProvider, xaiProvider } from './llm/providers/openai';
-import { googleProvider } from './llm/providers/google';
+import type { LLMMessage } from './llm/types';
+import { PROVIDERS } from './llm/registry';
 import { executeCLISkill } from './cliSkillHandlers';
 import { uploadGeneratedImage, uploadBinaryDocument, base64ToBlob } from './storageUpload';
 import { loadKeyFromLocalStorage, decryptPrivateKey } from './jarvisKey';
@@ -26,18 +24,6 @@ import {
   MARKETPLACE_URL,
 } from './marketplaceClient';
 
-// ---------------------------------------------------------------------------
-// Provider registry (same as chatService — but skill executor owns its own)
-// ---------------------------------------------------------------------------
-
-const PROVIDERS: Record<string, LLMProvider> = {
-  Anthropic: anthropicProvider,
-  OpenAI:    openaiProvider,
-  Google:    googleProvider,
-  DeepSeek:  deepseekProvider,
-  xAI:       xaiProvider,
-};
-
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -51,6 +37,56 @@ export interface SkillExecutionResult {
   error?: string;
   imageUrl?: string;
   documentUrl?: string;
+  /** LLM runs: the exact messages sent plus the raw reply (stored as task_executions.conversation) */
+  conversation?: LLMMessage[];
+  /** LLM runs: what produced the reply (stored as task_executions.trace, see missionReplay) */
+  trace?: ExecutionTrace;
+  /** Gateway handler runs: what the sandboxed process used (stored as task_executions.resource_usage) */
+  resource_usage?: HandlerResourceUsage;
+}
+
+export interface ExecutionTrace {
+  /** Model that answered — differs from the requested one after a provider failover */
+  model: string;
+  service: string;
+  /** Skill id and version the prompt was built from, e.g. "research-web@1.2.0" */
+  prompt_version: string;
+  /** Where the system prompt came from */
+  prompt_source: 'command' | 'fallback' | 'builtin';
+  /** Parameters as executed (task graph references already filled in) */
+  params: Record<string, unknown>;
+  captured_at: string;
+}
+
+/** Usage report the gateway sandbox returns for one handler run (docker/gateway/sandbox.ts) */
+export interface HandlerResourceUsage {
+  runtime: 'node' | 'python' | 'bash';
+  wall_ms: number;
+  cpu_user_ms: number;
+  cpu_system_ms: number;
+  max_rss_kb: number;
+  exit_code: number | null;
+  signal: string | null;
+  /** Which limit stopped the handler, if any */
+  limit_hit: 'timeout' | 'cpu' | 'memory' | 'file_size' | 'output' | null;
+  limits: { timeout_ms: number; memory_mb: number; cpu_seconds: number };
+  /** Hosts the skill may reach, the ones it tried to reach anyway, and whether the egress firewall backed that up */
+  network: { allowed: string[]; blocked: string[]; enforced: boolean };
+  /** Ran under a dropped, per-skill uid */
+  isolated_user: boolean;
+  uid: number | null;
+}
+
+/** One-line summary of a handler run for audit details */
+function describeUsage(usage: HandlerResourceUsage): string {
+  const parts = [
+    `${usage.wall_ms}ms`,
+    `${usage.cpu_user_ms + usage.cpu_system_ms}ms CPU`,
+    `${Math.round(usage.max_rss_kb / 1024)}MB peak`,
+  ];
+  if (usage.limit_hit) parts.push(`${usage.limit_hit} limit hit`);
+  if (usage.network.blocked.length > 0) parts.push(`blocked ${usage.network.blocked.join(', ')}`);
+  return parts.join(', ');
 }
 
 // ---------------------------------------------------------------------------
@@ -118,8 +154,8 @@ ${postBlock}
 Respond with ONLY valid JSON: {"risk_level":"safe"|"moderate"|"risky","reason":"brief explanation"}`;
 
     // Call LLM for risk assessment — try Anthropic, fall back to OpenAI
-    const anthropicEntry = await getVaultEntryByService('Anthropic');
-    const openaiEntry = !anthropicEntry ? await getVaultEntryByService('OpenAI') : null;
+    const anthropicEntry = await getVaultEntryByService('Anthropic', { context: 'forum' });
+    const openaiEntry = !anthropicEntry ? await getVaultEntryByService('OpenAI', { context: 'forum' }) : null;
     const vaultEntry = anthropicEntry || openaiEntry;
     if (!vaultEntry) {
       console.warn('[assessForumPostRisk] No Anthropic or OpenAI key — defaulting to safe');
@@ -219,6 +255,40 @@ export function buildSkillPrompt(
 Execute this task and return the result. Be thorough and provide actionable output.`;
 }
 
+/**
+ * System + user messages for an LLM skill run: the command's own system_prompt
+ * when it has one, else the 'skill-execution-fallback' prompt, else a built-in
+ * line. Shared by executeSkill and mission replays against the current prompt.
+ */
+export async function buildSkillMessages(
+  skill: FullSkillDefinition,
+  commandName: string,
+  params: Record<string, unknown>,
+): Promise<{ messages: LLMMessage[]; promptSource: ExecutionTrace['prompt_source'] }> {
+  const command = skill.commands?.find(c => c.name === commandName);
+  const dbFallbackPrompt = await getPrompt('skill-execution-fallback');
+  let promptSource: ExecutionTrace['prompt_source'] = dbFallbackPrompt ? 'fallback' : 'builtin';
+  let systemPrompt = dbFallbackPrompt
+    ? dbFallbackPrompt.replace(/\{\{SKILL_NAME\}\}/g, skill.name)
+    : `You are an AI agent executing the "${skill.name}" skill. Be precise, thorough, and return structured output when possible.`;
+  if (command?.system_prompt) {
+    promptSource = 'command';
+    systemPrompt = command.system_prompt;
+    // Interpolate {param} placeholders in system prompt
+    for (const [key, value] of Object.entries(params)) {
+      systemPrompt = systemPrompt.split(`{${key}}`).join(String(value ?? ''));
+    }
+  }
+
+  return {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: buildSkillPrompt(skill, commandName, params) },
+    ],
+    promptSource,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Executor
 // ---------------------------------------------------------------------------
@@ -330,20 +400,31 @@ export async function executeSkill(
         // Pass vault key if skill needs auth
         let apiKey: string | undefined;
         if (skill.apiConfig?.vault_service && skill.apiConfig.vault_service !== 'none') {
-          const entry = await getVaultEntryByService(skill.apiConfig.vault_service);
+          const entry = await getVaultEntryByService(skill.apiConfig.vault_service, { context: 'skill_credential', skill, agentId: options.agentId });
           if (entry) apiKey = entry.key_value;
         }
-        const resp = await fetch(`${gwUrl}/exec-skill/${skillId}/${commandName}`, {
+        const { gatewayFetch } = await import('./gatewayAuth');
+        const resp = await gatewayFetch(`${gwUrl}/exec-skill/${skillId}/${commandName}`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ params, apiKey }),
         });
         const data = await resp.json();
+        const usage = data.usage as HandlerResourceUsage | undefined;
         if (!resp.ok) {
+          if (usage?.limit_hit || usage?.network.blocked.length) {
+            await logAudit(
+              options.agentId ?? null,
+              'SKILL_SANDBOX_VIOLATION',
+              `Skill "${skill.name}" command "${commandName}" gateway handler: ${describeUsage(usage)}`,
+              'warning',
+            );
+          }
           return {
             success: false, output: '', tokens_used: 0, cost_usd: 0,
             duration_ms: Date.now() - startTime,
             error: data.error || 'Gateway handler execution failed',
+            ...(usage && { resource_usage: usage }),
           };
         }
         let output = typeof data.result === 'string'
@@ -354,7 +435,7 @@ export async function executeSkill(
         await logAudit(
           options.agentId ?? null,
           'SKILL_EXECUTED',
-          `Skill "${skill.name}" command "${commandName}" via gateway handler (${skill.handlerRuntime})`,
+          `Skill "${skill.name}" command "${commandName}" via gateway handler (${skill.handlerRuntime})${usage ? ` — ${describeUsage(usage)}` : ''}`,
           skill.riskLevel === 'dangerous' ? 'warning' : 'info',
         );
 
@@ -406,6 +487,7 @@ export async function executeSkill(
           duration_ms: Date.now() - startTime,
           ...(imageUrl && { imageUrl }),
           ...(documentUrl && { documentUrl }),
+          ...(usage && { resource_usage: usage }),
         };
       } catch (err) {
         return {
@@ -504,7 +586,7 @@ export async function executeSkill(
     };
   }
 
-  const vaultEntry = await getVaultEntryByService(service);
+  const vaultEntry = await getVaultEntryByService(service, { context: 'skill_execution', skill, agentId: options.agentId });
   if (!vaultEntry) {
     return {
       success: false,
@@ -517,34 +599,18 @@ export async function executeSkill(
   }
 
   // 4. Build prompt and call LLM
-  const prompt = buildSkillPrompt(skill, commandName, params);
+  const { messages, promptSource } = await buildSkillMessages(skill, commandName, params);
+  const prompt = messages[1].content;
   const apiModelId = MODEL_API_IDS[modelName] ?? modelName;
 
-  // Use command-level system_prompt if defined, otherwise generic fallback
-  const command = skill.commands?.find(c => c.name === commandName);
-  const dbFallbackPrompt = await getPrompt('skill-execution-fallback');
-  let systemPrompt = dbFallbackPrompt
-    ? dbFallbackPrompt.replace(/\{\{SKILL_NAME\}\}/g, skill.name)
-    : `You are an AI agent executing the "${skill.name}" skill. Be precise, thorough, and return structured output when possible.`;
-  if (command?.system_prompt) {
-    systemPrompt = command.system_prompt;
-    // Interpolate {param} placeholders in system prompt
-    for (const [key, value] of Object.entries(params)) {
-      systemPrompt = systemPrompt.split(`{${key}}`).join(String(value ?? ''));
-    }
-  }
-
-  const messages: LLMMessage[] = [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: prompt },
-  ];
-
   try {
+    let served = { service, model: modelName };
     const output = await new Promise<string>((resolve, reject) => {
       provider.stream(messages, vaultEntry.key_value, apiModelId, {
         onToken: () => {
           // Tokens collected in onDone
         },
+        onFailover: (e) => { served = { service: e.toService, model: e.toModel }; },
         onDone: (fullText: string) => resolve(fullText),
         onError: (err: Error) => reject(err),
       });
@@ -558,19 +624,20 @@ export async function executeSkill(
 
     // Log to llm_usage table for cost tracking (fire-and-forget)
     logUsage({
-      provider: service,
-      model: modelName,
+      provider: served.service,
+      model: served.model,
       inputTokens,
       outputTokens,
       context: 'skill_execution',
       agentId: agentId ?? undefined,
+      skillId: skill.id,
       missionId: missionId ?? undefined,
     }).catch(() => {});
 
     await logAudit(
       agentId ?? null,
       'SKILL_EXECUTED',
-      `Skill "${skill.name}" command "${commandName}" completed in ${durationMs}ms using ${modelName} (${estimatedTokens} tokens)`,
+      `Skill "${skill.name}" command "${commandName}" completed in ${durationMs}ms using ${served.model} (${estimatedTokens} tokens)`,
       skill.riskLevel === 'dangerous' ? 'warning' : 'info',
     );
 
@@ -582,6 +649,15 @@ export async function executeSkill(
       tokens_used: estimatedTokens,
       cost_usd: estimatedCost,
       duration_ms: durationMs,
+      conversation: [...messages, { role: 'assistant', content: output }],
+      trace: {
+        model: served.model,
+        service: served.service,
+        prompt_version: `${skill.id}@${skill.version ?? 'unversioned'}`,
+        prompt_source: promptSource,
+        params,
+        captured_at: new Date().toISOString(),
+      },
     };
   } catch (err) {
     const durationMs = Date.now() - startTime;
@@ -792,7 +868,7 @@ const BROWSER_HANDLERS: Record<
         const modelName = ceo?.model || 'Claude Haiku 4.5';
         const service = MODEL_SERVICE_MAP[modelName];
         const provider = service ? PROVIDERS[service] : null;
-        const vaultEntry = service ? await getVaultEntryByService(service) : null;
+        const vaultEntry = service ? await getVaultEntryByService(service, { context: 'skill_execution', skill: { id: 'marketplace' }, agentId: options.agentId }) : null;
 
         if (provider && vaultEntry) {
           const apiModelId = MODEL_API_IDS[modelName] ?? modelName;
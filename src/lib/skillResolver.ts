@@ -663,7 +663,8 @@ export async function installSkillToGateway(
   const gw = getGatewayUrl();
   if (!gw || !files.length) return false;
   try {
-    const resp = await fetch(`${gw}/install-skill`, {
+    const { gatewayFetch } = await import('./gatewayAuth');
+    const resp = await gatewayFetch(`${gw}/install-skill`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ skillId, files }),
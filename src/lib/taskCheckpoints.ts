@@ -0,0 +1,215 @@
+/**
+ * Task Checkpoints — Founder review between steps of a task graph
+ * ================================================================
+ * A <task_plan> call marked `"checkpoint": true` runs like any other, but its
+ * dependents stay blocked until the Founder has seen the output. When the
+ * task completes, advanceTaskGraph opens a 'task_checkpoint' approval holding
+ * the output; the Founder then
+ *   - approves it — dependents are released with the output as it was;
+ *   - edits it and approves — the edit replaces the task's output (the
+ *     original is kept as result.original_output), so {{key.output}}
+ *     references downstream receive the Founder's version;
+ *   - rejects (denies / dismisses) it — dependents fail like they would
+ *     after an upstream failure, and the mission goes to review.
+ * A checkpoint on a leaf task has no dependents to hold: its mission stays in
+ * review (never auto-completes) until the Founder has decided.
+ *
+ * task_executions.checkpoint_status tracks pending → approved | rejected.
+ * Decisions made in a chat channel only flip the approval status; the CEO
+ * tick applies them with applyCheckpointDecisions(). Telegram can edit too:
+ * the sidecar bot treats a reply to a checkpoint request as the edited output.
+ */
+
+import { getSupabase } from './supabase';
+import { logAudit, saveApproval, updateApprovalStatus } from './database';
+
+/** What the approval carries for review and editing — longer outputs are shown cut, and can't be edited */
+const MAX_REVIEW_CHARS = 20_000;
+
+/** Length of the excerpt chat channels show under the request */
+const EXCERPT_CHARS = 1200;
+
+export interface CheckpointTask {
+  id: string;
+  mission_id: string | null;
+  task_key: string | null;
+  skill_id: string;
+  command_name: string;
+  result: { output?: string; summary?: string } | null;
+}
+
+interface CheckpointMeta {
+  task_id?: string;
+  mission_id?: string | null;
+  output?: string;
+  truncated?: boolean;
+  edited_output?: string;
+  applied_at?: string;
+}
+
+function emitEvent(name: string): void {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(name));
+}
+
+export function checkpointApprovalId(taskId: string): string {
+  return `approval-checkpoint-${taskId}`;
+}
+
+/** Pull a checkpoint approval id out of the text of a chat message that announced it */
+export function checkpointApprovalIdIn(text: string): string | null {
+  return text.match(/ID: (approval-checkpoint-\S+)/)?.[1] ?? null;
+}
+
+function label(task: Pick<CheckpointTask, 'task_key' | 'skill_id' | 'command_name'>): string {
+  return task.task_key ?? `${task.skill_id}:${task.command_name}`;
+}
+
+/**
+ * A checkpoint task whose output the Founder hasn't approved yet — finished
+ * but not yet under review counts too. Keeps its mission from closing as done.
+ */
+export function awaitingCheckpoint(task: { checkpoint?: boolean | null; checkpoint_status?: string | null }): boolean {
+  return !!task.checkpoint && (task.checkpoint_status ?? 'pending') === 'pending';
+}
+
+// ---------------------------------------------------------------------------
+// Opening
+// ---------------------------------------------------------------------------
+
+/**
+ * Pause the graph on a completed checkpoint task: claim it (checkpoint_status
+ * null → pending) and ask the Founder to review its output. Safe to call on
+ * every advance — only the first claim creates the approval.
+ */
+export async function openCheckpoint(task: CheckpointTask, dependents: string[]): Promise<boolean> {
+  const sb = getSupabase();
+  const { data: claimed } = await sb.from('task_executions')
+    .update({ checkpoint_status: 'pending' })
+    .eq('id', task.id).eq('checkpoint', true).is('checkpoint_status', null)
+    .select('id');
+  if (!claimed || claimed.length === 0) return false;
+
+  const output = task.result?.output ?? task.result?.summary ?? '';
+  const truncated = output.length > MAX_REVIEW_CHARS;
+  const approvalId = checkpointApprovalId(task.id);
+  await sb.from('approvals').delete().eq('id', approvalId); // a re-run reviews again
+  await saveApproval({
+    id: approvalId,
+    type: 'task_checkpoint',
+    title: `Review before continuing: ${label(task)}`,
+    description: dependents.length > 0
+      ? `"${label(task)}" finished. ${dependents.length} dependent task${dependents.length === 1 ? '' : 's'} (${dependents.join(', ')}) will receive its output once you approve it — edit it first to change what they get, or reject it to stop them.`
+      : `"${label(task)}" finished. The mission waits in review until you approve its output — edit it first to change what is kept, or reject it.`,
+    status: 'pending',
+    metadata: {
+      task_id: task.id,
+      mission_id: task.mission_id,
+      task_key: task.task_key,
+      skill_id: task.skill_id,
+      command_name: task.command_name,
+      dependents,
+      output: truncated ? output.slice(0, MAX_REVIEW_CHARS) : output,
+      truncated,
+      excerpt: output.slice(0, EXCERPT_CHARS),
+    },
+  });
+  await logAudit('CEO', 'TASK_CHECKPOINT', `Paused at checkpoint "${label(task)}" — waiting for the Founder to review its output`, 'info');
+  emitEvent('approvals-changed');
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Decisions
+// ---------------------------------------------------------------------------
+
+/**
+ * Approve a pending checkpoint, optionally with an edited output, and resume
+ * the graph. Refuses approvals that are no longer pending. Returns true if
+ * the decision was applied.
+ */
+export async function approveCheckpoint(
+  approvalId: string, editedOutput?: string, source?: { via: string; channelId?: string },
+): Promise<boolean> {
+  const sb = getSupabase();
+  const { data: approval } = await sb.from('approvals').select('status, metadata').eq('id', approvalId).maybeSingle();
+  if (approval?.status !== 'pending') return false;
+  const meta = (approval.metadata ?? {}) as CheckpointMeta;
+
+  if (editedOutput !== undefined) {
+    await sb.from('approvals').update({ metadata: { ...meta, edited_output: editedOutput } }).eq('id', approvalId).eq('status', 'pending');
+  }
+  await updateApprovalStatus(approvalId, 'approved', source);
+  return applyCheckpointDecision(approvalId);
+}
+
+/**
+ * Carry a decided 'task_checkpoint' approval over to its task and advance the
+ * mission's graph. Approved: an edit (edited_output differing from what was
+ * shown) replaces the output. Denied or dismissed: the checkpoint is rejected
+ * and its dependents fail. Idempotent — marks the approval applied.
+ */
+export async function applyCheckpointDecision(approvalId: string): Promise<boolean> {
+  const sb = getSupabase();
+  const { data: approval } = await sb.from('approvals').select('status, metadata').eq('id', approvalId).maybeSingle();
+  const meta = (approval?.metadata ?? {}) as CheckpointMeta;
+  if (!approval || approval.status === 'pending' || !meta.task_id || meta.applied_at) return false;
+  await sb.from('approvals').update({ metadata: { ...meta, applied_at: new Date().toISOString() } }).eq('id', approvalId);
+
+  const { data: task } = await sb.from('task_executions')
+    .select('id, mission_id, task_key, skill_id, command_name, result, checkpoint_status')
+    .eq('id', meta.task_id)
+    .maybeSingle();
+  if (!task || task.checkpoint_status !== 'pending') return false; // re-run or deleted meanwhile
+  const name = label(task as CheckpointTask);
+  const approved = approval.status === 'approved';
+
+  const update: Record<string, unknown> = { checkpoint_status: approved ? 'approved' : 'rejected' };
+  const edited = approved && typeof meta.edited_output === 'string' && meta.edited_output.trim() !== (meta.output ?? '').trim();
+  if (edited) {
+    const result = (task.result ?? {}) as Record<string, unknown>;
+    const text = meta.edited_output!;
+    update.result = {
+      ...result,
+      output: text,
+      summary: text.slice(0, 200),
+      original_output: result.original_output ?? result.output ?? '',
+      edited_at: new Date().toISOString(),
+    };
+  }
+  const { data: claimed } = await sb.from('task_executions')
+    .update(update)
+    .eq('id', task.id).eq('checkpoint_status', 'pending')
+    .select('id');
+  if (!claimed || claimed.length === 0) return false;
+
+  await logAudit(
+    null,
+    approved ? 'TASK_CHECKPOINT_APPROVED' : 'TASK_CHECKPOINT_REJECTED',
+    approved
+      ? `Checkpoint "${name}" approved${edited ? ' with edits' : ''} — dependents resume`
+      : `Checkpoint "${name}" rejected — dependents will not run`,
+    'info',
+  );
+  emitEvent('task-executions-changed');
+
+  if (task.mission_id) {
+    const { advanceTaskGraph } = await import('./taskDispatcher');
+    await advanceTaskGraph(task.mission_id);
+  }
+  return true;
+}
+
+/** Tick sweep — checkpoints decided outside the dashboard */
+export async function applyCheckpointDecisions(): Promise<number> {
+  const { data } = await getSupabase()
+    .from('approvals')
+    .select('id, metadata')
+    .eq('type', 'task_checkpoint')
+    .neq('status', 'pending');
+  let applied = 0;
+  for (const row of (data ?? []) as { id: string; metadata: Record<string, unknown> | null }[]) {
+    if (row.metadata?.applied_at) continue;
+    if (await applyCheckpointDecision(row.id)) applied++;
+  }
+  return applied;
+}
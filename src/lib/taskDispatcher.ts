@@ -1,11 +1,22 @@
 import { getSupabase } from './supabase';
 import { loadCEO, getVaultEntryByService, getSetting, logAudit, saveMissionRound, updateMissionRound, getPrompt, type ChatMessageRow } from './database';
 import { getMemories, queryMemories, extractCollateralMemories } from './memory';
-import { executeSkill } from './skillExecutor';
+import { executeSkill, type SkillExecutionResult } from './skillExecutor';
 import { resolveSkill, resolveSkills } from './skillResolver';
 import { executeCLISkill, hasCLIHandler } from './cliSkillHandlers';
 import { MODEL_SERVICE_MAP, MODEL_API_IDS } from './models';
 import { recommendSkills } from './skillRecommender';
+import { emitWebhookEvent, notifyMissionStatus } from './webhooks';
+import { announceMissionSummary } from './channels/registry';
+import { planTaskGraph, resolveTaskReferences, type UpstreamResult } from './taskGraph';
+import { loadQueueSnapshot, planAdmissions, isQueueHeld } from './taskQueue';
+import { isVaultLocked } from './vaultCrypto';
+import { acquireTaskLease, runOnce } from './taskLeases';
+import { estimatePlanCost, preflightHoldReason, requestBudgetApproval, enforceMissionBudget } from './missionBudget';
+import { openCheckpoint, awaitingCheckpoint } from './taskCheckpoints';
+import { snapshotRoundTasks } from './missionReplay';
+import { toPlanToolCall, type PlanToolCall } from './llm/tools';
+import type { LLMToolCall } from './llm/types';
 
 /** Safe window event dispatch — no-op in Node.js (sidecar) */
 function emitEvent(name: string): void {
@@ -15,7 +26,8 @@ function emitEvent(name: string): void {
 export interface ParsedMission {
   title: string;
   missionId?: string; // existing mission ID — activates instead of creating new
-  toolCalls: { name: string; arguments: Record<string, unknown> }[];
+  /** May form a dependency graph via id / depends_on (see taskGraph) */
+  toolCalls: PlanToolCall[];
 }
 
 export interface DispatchContext {
@@ -29,7 +41,7 @@ export interface DispatchContext {
   agentId?: string;
 }
 
-/** Parse <task_plan> or individual <tool_call> blocks from CEO response */
+/** Parse <task_plan> or individual <tool_call> blocks from CEO response (fallback when no native tool calls) */
 export function parseTaskPlan(text: string): ParsedMission[] {
   // Try <task_plan> first
   const planMatch = text.match(/<task_plan>\s*([\s\S]*?)\s*<\/task_plan>/);
@@ -39,22 +51,34 @@ export function parseTaskPlan(text: string): ParsedMission[] {
       return (plan.missions ?? []).map((m: Record<string, unknown>) => ({
         title: (m.title as string) ?? 'Untitled mission',
         missionId: (m.mission_id as string) ?? undefined,
-        toolCalls: (m.tool_calls as { name: string; arguments: Record<string, unknown> }[]) ?? [],
+        toolCalls: (m.tool_calls as PlanToolCall[]) ?? [],
       }));
-    } catch { /* fall through */ }
+    } catch {
+      console.warn('[parseTaskPlan] Malformed <task_plan> JSON — trying <tool_call> blocks:', planMatch[1].slice(0, 200));
+    }
   }
 
   // Fallback: individual <tool_call> blocks
-  // Multiple tool_calls in one response = one mission (they came from the same request)
   const toolCallRegex = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
-  const calls: { name: string; command?: string; mission_id?: string; arguments: Record<string, unknown> }[] = [];
+  const calls: PlanToolCall[] = [];
   let match: RegExpExecArray | null;
   while ((match = toolCallRegex.exec(text)) !== null) {
     try {
       calls.push(JSON.parse(match[1]));
-    } catch { /* skip unparseable */ }
+    } catch {
+      console.warn('[parseTaskPlan] Skipped malformed <tool_call> JSON:', match[1].slice(0, 200));
+    }
   }
 
+  return missionsFromToolCalls(calls);
+}
+
+/**
+ * Group tool calls from one response into a mission.
+ * Multiple tool_calls in one response = one mission (they came from the same request).
+ * Used for native provider tool calls and the <tool_call> fallback alike.
+ */
+export function missionsFromToolCalls(calls: PlanToolCall[]): ParsedMission[] {
   if (calls.length === 0) return [];
 
   // Extract mission_id if the CEO attached one (for executing existing backlog items)
@@ -87,6 +111,16 @@ export function stripTaskBlocks(text: string): string {
     .trim();
 }
 
+/**
+ * Tool calls behind a reply — the native ones, else any parsed from XML blocks —
+ * as saved in chat_messages.metadata.tool_calls. Native calls never show up in
+ * the text, so this is the only record of what a reply dispatched.
+ */
+export function replyToolCalls(fullText: string, toolCalls?: LLMToolCall[]): PlanToolCall[] {
+  if (toolCalls && toolCalls.length > 0) return toolCalls.map(toPlanToolCall);
+  return parseTaskPlan(fullText).flatMap(m => m.toolCalls);
+}
+
 // ---------------------------------------------------------------------------
 // Agent work requests — agents request skill execution through the CEO
 // ---------------------------------------------------------------------------
@@ -106,7 +140,9 @@ export function parseWorkRequests(text: string): WorkRequest[] {
   while ((match = regex.exec(text)) !== null) {
     try {
       requests.push(JSON.parse(match[1]) as WorkRequest);
-    } catch { /* skip unparseable */ }
+    } catch {
+      console.warn('[parseWorkRequests] Skipped malformed <work_request> JSON:', match[1].slice(0, 200));
+    }
   }
   return requests;
 }
@@ -256,11 +292,12 @@ export async function synthesizeMissionSummary(
         completed_at: new Date().toISOString(),
       });
       emitEvent('task-executions-changed');
+      await announceMissionSummary(missionId, missionTitle, taskOutputs);
       return;
     }
 
     const service = MODEL_SERVICE_MAP[ceo.model] ?? '';
-    const vaultEntry = service ? await getVaultEntryByService(service) : null;
+    const vaultEntry = service ? await getVaultEntryByService(service, { context: 'mission_review' }) : null;
 
     if (!service || !vaultEntry) {
       // No API key — fall back to concatenation
@@ -282,18 +319,13 @@ export async function synthesizeMissionSummary(
         completed_at: new Date().toISOString(),
       });
       emitEvent('task-executions-changed');
+      await announceMissionSummary(missionId, missionTitle, taskOutputs);
       return;
     }
 
     // Use LLM to synthesize
-    const { anthropicProvider } = await import('./llm/providers/anthropic');
-    const { openaiProvider, deepseekProvider, xaiProvider } = await import('./llm/providers/openai');
-    const { googleProvider } = await import('./llm/providers/google');
-    const providers: Record<string, typeof anthropicProvider> = {
-      Anthropic: anthropicProvider, OpenAI: openaiProvider, Google: googleProvider,
-      DeepSeek: deepseekProvider, xAI: xaiProvider,
-    };
-    const provider = providers[service];
+    const { getProvider } = await import('./llm/registry');
+    const provider = getProvider(service);
     if (!provider) return;
 
     const apiModelId = MODEL_API_IDS[ceo.model] ?? ceo.model;
@@ -362,6 +394,7 @@ ${taskOutputs}`;
     });
 
     emitEvent('task-executions-changed');
+    await announceMissionSummary(missionId, missionTitle, synthesized);
   } catch (err) {
     console.warn('[TaskDispatcher] Mission summary synthesis failed:', err);
   }
@@ -383,11 +416,15 @@ async function executeBrowserSide(
 ): Promise<void> {
   const sb = getSupabase();
 
-  // Mark as running
-  await sb.from('task_executions').update({
-    status: 'running',
-    started_at: new Date().toISOString(),
-  }).eq('id', taskId);
+  // Mark as running under our lease — the heartbeat keeps it ours while the skill runs
+  const lease = await acquireTaskLease(taskId);
+  if (!lease) {
+    console.warn(`[TaskDispatcher] Task ${taskId} is already being executed elsewhere — skipping`);
+    return;
+  }
+
+  // Gateway handler runs: sandbox usage, kept on failure too (timeouts, memory, blocked hosts)
+  let resourceUsage: SkillExecutionResult['resource_usage'];
 
   try {
     let resultText: string;
@@ -395,27 +432,34 @@ async function executeBrowserSide(
     let tokensUsed = 0;
     let imageUrl: string | undefined;
     let documentUrl: string | undefined;
+    // LLM runs: exact prompt + raw reply, kept for round replays and diffs
+    let conversation: SkillExecutionResult['conversation'];
+    let trace: SkillExecutionResult['trace'];
 
     // Check for CLI handler first
     if (hasCLIHandler(skillId)) {
       const skill = await resolveSkill(skillId);
-      const result = await executeCLISkill(skillId, commandName, params, skill?.apiConfig);
-      if (!result) throw new Error(`CLI skill "${skillId}" handler returned null`);
+      const result = await runOnce(lease, skillId, commandName, async () =>
+        (await executeCLISkill(skillId, commandName, params, skill?.apiConfig))
+          ?? { success: false, text: `CLI skill "${skillId}" handler returned null` });
       if (!result.success) throw new Error(result.text);
       resultText = result.text;
     } else {
       // LLM skill — use browser-side executor (handles CLI fallback too)
-      const result = await executeSkill(skillId, commandName, params, {
+      const result = await runOnce(lease, skillId, commandName, () => executeSkill(skillId, commandName, params, {
         modelOverride: model,
         missionId,
-      });
+      }));
 
+      resourceUsage = result.resource_usage;
       if (!result.success) throw new Error(result.error ?? 'Skill execution failed');
       resultText = result.output;
       cost = result.cost_usd;
       tokensUsed = result.tokens_used;
       imageUrl = result.imageUrl;
       documentUrl = result.documentUrl;
+      conversation = result.conversation;
+      trace = result.trace;
     }
 
     // Extract and save agent questions from task output
@@ -561,8 +605,13 @@ async function executeBrowserSide(
       tokens_used: existingTokens + tokensUsed,
       cost_usd: cost,
       completed_at: new Date().toISOString(),
+      ...(conversation ? { conversation, trace } : {}),
+      ...(resourceUsage ? { resource_usage: resourceUsage } : {}),
     }).eq('id', taskId);
 
+    // Start dependents that were waiting on this output (before the all-done check below)
+    await advanceTaskGraph(missionId).catch(err => console.warn('[TaskDispatcher] Task graph advance failed:', err));
+
     // If this child was spawned from a recurring template, save task_template for future replay
     try {
       const { data: missionData } = await sb.from('missions').select('created_by').eq('id', missionId).single();
@@ -583,7 +632,7 @@ async function executeBrowserSide(
     // Check if all tasks for this mission are complete
     const { data: siblings } = await sb
       .from('task_executions')
-      .select('status, tokens_used, cost_usd, started_at, completed_at, result, skill_id')
+      .select('status, tokens_used, cost_usd, started_at, completed_at, result, skill_id, checkpoint, checkpoint_status')
       .eq('mission_id', missionId);
 
     const allComplete = siblings?.every(t => t.status === 'completed' || t.status === 'failed');
@@ -604,10 +653,12 @@ async function executeBrowserSide(
       const ceoRow = await loadCEO();
       const wasScheduled = createdBy === 'ceo' || createdBy === 'scheduler' || createdBy === (ceoRow?.name ?? '').toLowerCase();
       const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
-      const autoComplete = wasScheduled || (founderPresent && isTabVisible && isSingle);
+      // A checkpoint still awaiting review (on a leaf task) holds the mission in review
+      const autoComplete = !siblings?.some(awaitingCheckpoint) && (wasScheduled || (founderPresent && isTabVisible && isSingle));
       const missionStatus = autoComplete ? 'done' : 'review';
 
       await sb.from('missions').update({ status: missionStatus }).eq('id', missionId);
+      notifyMissionStatus(missionId, missionStatus).catch(() => {});
 
       // --- Scoring: Create/update mission round and evaluate ---
       try {
@@ -642,6 +693,7 @@ async function executeBrowserSide(
           cost_usd: roundCost,
           duration_ms: roundDurationMs,
           task_count: siblings?.length ?? 0,
+          tasks: await snapshotRoundTasks(missionId),
           started_at: taskStarts.length > 0 ? new Date(Math.min(...taskStarts)).toISOString() : null,
           completed_at: new Date().toISOString(),
         });
@@ -725,15 +777,15 @@ async function executeBrowserSide(
             // LLM auto-summary: have the CEO summarize the raw data naturally
             try {
               const { getVaultEntryByService } = await import('./database');
-              const vaultEntry = await getVaultEntryByService('Anthropic');
+              const vaultEntry = await getVaultEntryByService('Anthropic', { context: 'ceo_chat' });
               if (vaultEntry) {
-                const { anthropicProvider } = await import('./llm/providers/anthropic');
+                const { PROVIDERS } = await import('./llm/registry');
                 const { MODEL_API_IDS } = await import('./models');
                 const ceoName = ceoRow?.name ?? 'CEO';
 
                 const summaryResult = await new Promise<string | null>((resolve) => {
                   let fullText = '';
-                  anthropicProvider.stream(
+                  PROVIDERS.Anthropic.stream(
                     [{
                       role: 'user',
                       content: `You are ${ceoName}, an AI CEO reporting results to the founder.
@@ -875,7 +927,10 @@ ${resultText.slice(0, 12000)}`,
       status: 'failed',
       result: { error: errorMsg },
       completed_at: new Date().toISOString(),
+      ...(resourceUsage ? { resource_usage: resourceUsage } : {}),
     }).eq('id', taskId);
+    emitWebhookEvent('skill.failed', { task_id: taskId, mission_id: missionId, skill_id: skillId, command: commandName, error: errorMsg });
+    await advanceTaskGraph(missionId).catch(e => console.warn('[TaskDispatcher] Task graph advance failed:', e));
 
     // Post error to chat — prefer conversationId from dispatch context
     let convoId = conversationId;
@@ -909,12 +964,240 @@ ${resultText.slice(0, 12000)}`,
     }
 
     await sb.from('missions').update({ status: 'review' }).eq('id', missionId);
+    notifyMissionStatus(missionId, 'review').catch(() => {});
     emitEvent('missions-changed');
     emitEvent('task-executions-changed');
+  } finally {
+    lease.release();
   }
 }
 
-/** Create missions + task_executions and dispatch to edge function (with browser fallback) */
+interface TaskLaunch {
+  taskId: string;
+  missionId: string;
+  skillId: string;
+  commandName: string;
+  params: Record<string, unknown>;
+  model: string;
+  founderPresent: boolean;
+  conversationId?: string;
+}
+
+/** Start a pending task: edge function first, then the sidecar or browser-side fallback */
+function launchTask({ taskId, missionId, skillId, commandName, params, model, founderPresent, conversationId }: TaskLaunch): void {
+  const sb = getSupabase();
+
+  // Try edge function first, fall back to browser-side execution
+  const supabaseUrl = (typeof import.meta !== 'undefined' ? import.meta.env?.VITE_SUPABASE_URL : undefined)
+    || (typeof process !== 'undefined' ? process.env?.VITE_SUPABASE_URL ?? process.env?.SUPABASE_URL : undefined)
+    || (typeof localStorage !== 'undefined' ? localStorage.getItem('jarvis_supabase_url') : '')
+    || '';
+  const anonKey = (typeof import.meta !== 'undefined' ? import.meta.env?.VITE_SUPABASE_ANON_KEY : undefined)
+    || (typeof process !== 'undefined' ? process.env?.VITE_SUPABASE_ANON_KEY ?? process.env?.SUPABASE_ANON_KEY : undefined)
+    || (typeof localStorage !== 'undefined' ? localStorage.getItem('jarvis_supabase_anon_key') : '')
+    || '';
+
+  // CEO-direct tasks skip edge function entirely
+  if (skillId === 'ceo-direct') {
+    executeCEODirect(taskId, missionId, params, model, founderPresent, conversationId)
+      .catch(err => console.error('[dispatchTaskPlan] CEO-direct execution failed:', err));
+    return;
+  }
+
+  const runBrowserFallback = () =>
+    executeBrowserSide(taskId, missionId, skillId, commandName, params, model, founderPresent, conversationId);
+
+  // Skills that require marketplace signing keys — delegate to sidecar, not browser
+  const SIDECAR_ONLY_SKILLS = new Set(['forum', 'marketplace']);
+  const isSidecarSkill = SIDECAR_ONLY_SKILLS.has(skillId);
+
+  const waitForSidecarCompletion = async () => {
+    // Poll for sidecar to pick up and complete the pending task
+    const maxWaitMs = 45_000;
+    const pollInterval = 2_000;
+    let waited = 0;
+    while (waited < maxWaitMs) {
+      await new Promise(r => setTimeout(r, pollInterval));
+      waited += pollInterval;
+      const { data: check } = await sb
+        .from('task_executions')
+        .select('status, result')
+        .eq('id', taskId)
+        .single();
+      if (check?.status === 'completed' || check?.status === 'failed') {
+        console.log(`[dispatchTaskPlan] Sidecar completed task ${taskId} (${check.status})`);
+        if (founderPresent) {
+          const { data: siblings } = await sb
+            .from('task_executions')
+            .select('status, checkpoint, checkpoint_status')
+            .eq('mission_id', missionId);
+          const allDone = siblings?.every(t => t.status === 'completed' || t.status === 'failed')
+            && !siblings.some(awaitingCheckpoint);
+          const isSingle = (siblings?.length ?? 0) === 1;
+          const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
+          if (allDone && isSingle && isTabVisible) {
+            await sb.from('missions').update({ status: 'done' }).eq('id', missionId);
+            notifyMissionStatus(missionId, 'done').catch(() => {});
+            emitEvent('missions-changed');
+          }
+        }
+        // Post result to chat if founder present
+        if (founderPresent && check.status === 'completed') {
+          const resultOutput = (check.result as Record<string, string>)?.output || (check.result as Record<string, string>)?.summary || '';
+          if (resultOutput) {
+            const { data: convos } = await sb.from('conversations')
+              .select('id').eq('status', 'active')
+              .order('created_at', { ascending: false }).limit(1);
+            if (convos?.[0]) {
+              await sb.from('chat_messages').insert({
+                id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+                conversation_id: convos[0].id,
+                sender: 'ceo',
+                text: `**Skill Result** (${skillId}:${commandName}):\n${resultOutput.slice(0, 500)}`,
+                metadata: { type: 'skill_result', skill_id: skillId, mission_id: missionId },
+              });
+              emitEvent('chat-messages-changed');
+            }
+          }
+        }
+        emitEvent('task-executions-changed');
+        return;
+      }
+    }
+    console.warn(`[dispatchTaskPlan] Sidecar did not complete task ${taskId} within ${maxWaitMs}ms`);
+    // Mark as failed so UI shows feedback
+    await sb.from('task_executions').update({
+      status: 'failed',
+      result: { output: '', error: 'Sidecar did not pick up task in time. Is the sidecar running?' },
+      completed_at: new Date().toISOString(),
+    }).eq('id', taskId);
+    emitEvent('task-executions-changed');
+  };
+
+  // Sidecar skills skip edge function entirely — edge function races with sidecar
+  // by marking tasks 'running' before failing, preventing sidecar pickup
+  if (isSidecarSkill) {
+    console.log(`[dispatchTaskPlan] Sidecar skill "${skillId}:${commandName}" — waiting for sidecar pickup`);
+    waitForSidecarCompletion()
+      .catch(err => console.error('[dispatchTaskPlan] Sidecar wait failed:', err));
+    return;
+  }
+
+  // Fast timeout: abort the edge function fetch after 3s to avoid 10-15s delays
+  // when no edge function is deployed (common in self-hosted Supabase)
+  const edgeAbort = new AbortController();
+  const edgeTimeout = setTimeout(() => edgeAbort.abort(), 3_000);
+
+  fetch(`${supabaseUrl}/functions/v1/execute-skill`, {
+    method: 'POST',
+    signal: edgeAbort.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': anonKey,
+      'Authorization': `Bearer ${anonKey}`,
+    },
+    body: JSON.stringify({ task_execution_id: taskId }),
+  }).then(async (resp) => {
+    clearTimeout(edgeTimeout);
+    if (!resp.ok) {
+      const errText = await resp.text().catch(() => 'Unknown error');
+      console.warn(`Edge function returned ${resp.status}: ${errText}. ${isSidecarSkill ? 'Waiting for sidecar.' : 'Falling back to browser execution.'}`);
+      if (isSidecarSkill) { await waitForSidecarCompletion(); }
+      else { await runBrowserFallback(); }
+      return;
+    }
+    // Edge function returned 200 — check after 5s if it actually processed.
+    setTimeout(async () => {
+      try {
+        const { data: check } = await sb
+          .from('task_executions')
+          .select('status')
+          .eq('id', taskId)
+          .single();
+        if (check?.status === 'pending') {
+          console.warn(`Edge function returned 200 but task still pending after 5s. ${isSidecarSkill ? 'Waiting for sidecar.' : 'Running browser fallback.'}`);
+          if (isSidecarSkill) { await waitForSidecarCompletion(); }
+          else { await runBrowserFallback(); }
+        } else if (founderPresent) {
+          // Edge function completed it — check for founder-present auto-done
+          const { data: siblings } = await sb
+            .from('task_executions')
+            .select('status, checkpoint, checkpoint_status')
+            .eq('mission_id', missionId);
+          const allDone = siblings?.every(t => t.status === 'completed' || t.status === 'failed')
+            && !siblings.some(awaitingCheckpoint);
+          const isSingle = (siblings?.length ?? 0) === 1;
+          const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
+          if (allDone && isSingle && isTabVisible) {
+            await sb.from('missions').update({ status: 'done' }).eq('id', missionId);
+            notifyMissionStatus(missionId, 'done').catch(() => {});
+            emitEvent('missions-changed');
+          }
+        }
+      } catch { /* ignore timeout check errors */ }
+    }, 5_000);
+  }).catch(async (err) => {
+    clearTimeout(edgeTimeout);
+    console.warn('Edge function unreachable:', err.message ?? err, `— ${isSidecarSkill ? 'waiting for sidecar.' : 'falling back to browser execution.'}`);
+    if (isSidecarSkill) { await waitForSidecarCompletion(); }
+    else { await runBrowserFallback(); }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Work queue — queued tasks start here, highest priority first, within the caps
+// ---------------------------------------------------------------------------
+
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Admit queued tasks while the concurrency caps allow (see taskQueue) and
+ * launch them. Called after every dispatch and every finished task, and swept
+ * by the CEO tick. Two processes draining at once can't start a task twice
+ * (queued → pending is a compare-and-set), though each counts the other's
+ * admissions only from the next drain. Returns how many tasks were started.
+ */
+export async function drainTaskQueue(): Promise<number> {
+  if (draining) {
+    drainRequested = true; // a slot freed mid-drain — go round again when done
+    return 0;
+  }
+  draining = true;
+  let started = 0;
+  try {
+    do {
+      drainRequested = false;
+      // Tasks need the Vault's keys — a locked Vault holds them queued until it is unlocked
+      if (await isQueueHeld() || await isVaultLocked()) break;
+      const decisions = planAdmissions(await loadQueueSnapshot());
+      for (const { task, admit } of decisions) {
+        if (!admit) continue;
+        const { data: claimed } = await getSupabase().from('task_executions')
+          .update({ status: 'pending', admitted_at: new Date().toISOString() })
+          .eq('id', task.id).eq('status', 'queued').select('id');
+        if (!claimed || claimed.length === 0) continue; // another process admitted it
+        launchTask({
+          taskId: task.id,
+          missionId: task.mission_id ?? '',
+          skillId: task.skill_id,
+          commandName: task.command_name,
+          params: task.params,
+          model: task.model,
+          founderPresent: !!task.context.founder_present,
+          conversationId: (task.context.conversation_id as string) ?? undefined,
+        });
+        started++;
+      }
+    } while (drainRequested);
+  } finally {
+    draining = false;
+  }
+  if (started > 0) emitEvent('task-executions-changed');
+  return started;
+}
+
+/** Create missions + task_executions and queue them for the edge function (with browser fallback) */
 export async function dispatchTaskPlan(
   missions: ParsedMission[],
   model: string,
@@ -974,11 +1257,23 @@ export async function dispatchTaskPlan(
     }
     missionIds.push(missionId);
 
-    // Create task_executions and dispatch
-    for (const call of mission.toolCalls) {
+    // Create task_executions (upstream first) and dispatch the ones with no dependencies
+    const graph = planTaskGraph(mission.toolCalls);
+    if (graph.warnings.length > 0) {
+      console.warn(`[dispatchTaskPlan] Task graph for "${mission.title}":`, graph.warnings.join('; '));
+      logAudit(null, 'TASK_GRAPH_ADJUSTED', `Mission ${missionId}: ${graph.warnings.join('; ')}`, 'warning');
+    }
+    const taskIdByKey = new Map<string, string>();
+
+    for (const { key, call, dependsOn } of graph.nodes) {
+      const upstreamIds = dependsOn.map(k => taskIdByKey.get(k));
+      if (upstreamIds.some(id => !id)) {
+        console.warn(`[dispatchTaskPlan] Skipped "${key}" — an upstream task was not created`);
+        continue;
+      }
       const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
       // CEO format: { name, command, arguments } — command may be top-level or inside arguments
-      let commandName = (call as Record<string, unknown>).command as string
+      let commandName = call.command
         ?? call.arguments.command as string
         ?? call.name;
 
@@ -1024,186 +1319,191 @@ export async function dispatchTaskPlan(
         command_name: commandName,
         params: call.arguments,
         model,
-        status: 'pending',
-        context: taskContext,
+        status: upstreamIds.length > 0 ? 'blocked' : 'queued',
+        context: {
+          ...taskContext,
+          founder_present: !!(context?.founderPresent),
+          conversation_id: context?.conversationId ?? taskContext.conversation_id,
+        },
+        task_key: key,
+        depends_on: upstreamIds,
+        checkpoint: call.checkpoint === true,
       });
       if (taskInsertErr) {
         console.error('Failed to insert task_execution:', taskInsertErr.message, taskInsertErr.details);
         continue; // skip this task
       }
+      // Dependents wait for their upstream tasks — advanceTaskGraph() queues them
+      taskIdByKey.set(key, taskId);
+    }
+  }
 
-      // Try edge function first, fall back to browser-side execution
-      const supabaseUrl = (typeof import.meta !== 'undefined' ? import.meta.env?.VITE_SUPABASE_URL : undefined)
-        || (typeof process !== 'undefined' ? process.env?.VITE_SUPABASE_URL ?? process.env?.SUPABASE_URL : undefined)
-        || (typeof localStorage !== 'undefined' ? localStorage.getItem('jarvis_supabase_url') : '')
-        || '';
-      const anonKey = (typeof import.meta !== 'undefined' ? import.meta.env?.VITE_SUPABASE_ANON_KEY : undefined)
-        || (typeof process !== 'undefined' ? process.env?.VITE_SUPABASE_ANON_KEY ?? process.env?.SUPABASE_ANON_KEY : undefined)
-        || (typeof localStorage !== 'undefined' ? localStorage.getItem('jarvis_supabase_anon_key') : '')
-        || '';
-
-      const founderPresent = !!(context?.founderPresent);
-
-      // CEO-direct tasks skip edge function entirely
-      if (skillId === 'ceo-direct') {
-        executeCEODirect(taskId, missionId, call.arguments, model, founderPresent, context?.conversationId)
-          .catch(err => console.error('[dispatchTaskPlan] CEO-direct execution failed:', err));
-        continue;
-      }
+  // A mission that already spent its cap doesn't get to start more work
+  for (const missionId of missionIds) await enforceMissionBudget(missionId);
 
-      const runBrowserFallback = () =>
-        executeBrowserSide(taskId, missionId, skillId, commandName, call.arguments, model, founderPresent, context?.conversationId);
-
-      // Skills that require marketplace signing keys — delegate to sidecar, not browser
-      const SIDECAR_ONLY_SKILLS = new Set(['forum', 'marketplace']);
-      const isSidecarSkill = SIDECAR_ONLY_SKILLS.has(skillId);
-
-      const waitForSidecarCompletion = async () => {
-        // Poll for sidecar to pick up and complete the pending task
-        const maxWaitMs = 45_000;
-        const pollInterval = 2_000;
-        let waited = 0;
-        while (waited < maxWaitMs) {
-          await new Promise(r => setTimeout(r, pollInterval));
-          waited += pollInterval;
-          const { data: check } = await sb
-            .from('task_executions')
-            .select('status, result')
-            .eq('id', taskId)
-            .single();
-          if (check?.status === 'completed' || check?.status === 'failed') {
-            console.log(`[dispatchTaskPlan] Sidecar completed task ${taskId} (${check.status})`);
-            if (founderPresent) {
-              const { data: siblings } = await sb
-                .from('task_executions')
-                .select('status')
-                .eq('mission_id', missionId);
-              const allDone = siblings?.every(t => t.status === 'completed' || t.status === 'failed');
-              const isSingle = (siblings?.length ?? 0) === 1;
-              const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
-              if (allDone && isSingle && isTabVisible) {
-                await sb.from('missions').update({ status: 'done' }).eq('id', missionId);
-                emitEvent('missions-changed');
-              }
-            }
-            // Post result to chat if founder present
-            if (founderPresent && check.status === 'completed') {
-              const resultOutput = (check.result as Record<string, string>)?.output || (check.result as Record<string, string>)?.summary || '';
-              if (resultOutput) {
-                const { data: convos } = await sb.from('conversations')
-                  .select('id').eq('status', 'active')
-                  .order('created_at', { ascending: false }).limit(1);
-                if (convos?.[0]) {
-                  await sb.from('chat_messages').insert({
-                    id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
-                    conversation_id: convos[0].id,
-                    sender: 'ceo',
-                    text: `**Skill Result** (${skillId}:${commandName}):\n${resultOutput.slice(0, 500)}`,
-                    metadata: { type: 'skill_result', skill_id: skillId, mission_id: missionId },
-                  });
-                  emitEvent('chat-messages-changed');
-                }
-              }
-            }
-            emitEvent('task-executions-changed');
-            return;
-          }
-        }
-        console.warn(`[dispatchTaskPlan] Sidecar did not complete task ${taskId} within ${maxWaitMs}ms`);
-        // Mark as failed so UI shows feedback
-        await sb.from('task_executions').update({
-          status: 'failed',
-          result: { output: '', error: 'Sidecar did not pick up task in time. Is the sidecar running?' },
-          completed_at: new Date().toISOString(),
-        }).eq('id', taskId);
-        emitEvent('task-executions-changed');
-      };
+  emitEvent('missions-changed');
+  emitEvent('task-executions-changed');
+  await drainTaskQueue();
+  return missionIds;
+}
 
-      // Sidecar skills skip edge function entirely — edge function races with sidecar
-      // by marking tasks 'running' before failing, preventing sidecar pickup
-      if (isSidecarSkill) {
-        console.log(`[dispatchTaskPlan] Sidecar skill "${skillId}:${commandName}" — waiting for sidecar pickup`);
-        waitForSidecarCompletion()
-          .catch(err => console.error('[dispatchTaskPlan] Sidecar wait failed:', err));
-        continue;
-      }
+// ---------------------------------------------------------------------------
+// Task graph — release blocked dependents as their upstream tasks finish
+// ---------------------------------------------------------------------------
 
-      // Fast timeout: abort the edge function fetch after 3s to avoid 10-15s delays
-      // when no edge function is deployed (common in self-hosted Supabase)
-      const edgeAbort = new AbortController();
-      const edgeTimeout = setTimeout(() => edgeAbort.abort(), 3_000);
-
-      fetch(`${supabaseUrl}/functions/v1/execute-skill`, {
-        method: 'POST',
-        signal: edgeAbort.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': anonKey,
-          'Authorization': `Bearer ${anonKey}`,
-        },
-        body: JSON.stringify({ task_execution_id: taskId }),
-      }).then(async (resp) => {
-        clearTimeout(edgeTimeout);
-        if (!resp.ok) {
-          const errText = await resp.text().catch(() => 'Unknown error');
-          console.warn(`Edge function returned ${resp.status}: ${errText}. ${isSidecarSkill ? 'Waiting for sidecar.' : 'Falling back to browser execution.'}`);
-          if (isSidecarSkill) { await waitForSidecarCompletion(); }
-          else { await runBrowserFallback(); }
-          return;
-        }
-        // Edge function returned 200 — check after 5s if it actually processed.
-        setTimeout(async () => {
-          try {
-            const { data: check } = await sb
-              .from('task_executions')
-              .select('status')
-              .eq('id', taskId)
-              .single();
-            if (check?.status === 'pending') {
-              console.warn(`Edge function returned 200 but task still pending after 5s. ${isSidecarSkill ? 'Waiting for sidecar.' : 'Running browser fallback.'}`);
-              if (isSidecarSkill) { await waitForSidecarCompletion(); }
-              else { await runBrowserFallback(); }
-            } else if (founderPresent) {
-              // Edge function completed it — check for founder-present auto-done
-              const { data: siblings } = await sb
-                .from('task_executions')
-                .select('status')
-                .eq('mission_id', missionId);
-              const allDone = siblings?.every(t => t.status === 'completed' || t.status === 'failed');
-              const isSingle = (siblings?.length ?? 0) === 1;
-              const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
-              if (allDone && isSingle && isTabVisible) {
-                await sb.from('missions').update({ status: 'done' }).eq('id', missionId);
-                emitEvent('missions-changed');
-              }
-            }
-          } catch { /* ignore timeout check errors */ }
-        }, 5_000);
-      }).catch(async (err) => {
-        clearTimeout(edgeTimeout);
-        console.warn('Edge function unreachable:', err.message ?? err, `— ${isSidecarSkill ? 'waiting for sidecar.' : 'falling back to browser execution.'}`);
-        if (isSidecarSkill) { await waitForSidecarCompletion(); }
-        else { await runBrowserFallback(); }
-      });
+interface GraphTaskRow {
+  id: string;
+  task_key: string | null;
+  status: string;
+  depends_on: string[] | null;
+  skill_id: string;
+  command_name: string;
+  params: Record<string, unknown> | null;
+  model: string | null;
+  context: Record<string, unknown> | null;
+  result: { output?: string; summary?: string; error?: string } | null;
+  checkpoint: boolean | null;
+  checkpoint_status: string | null;
+}
+
+/**
+ * Halt the mission if it is over its budget cap (see missionBudget). Otherwise
+ * fail blocked tasks whose upstream failed or was rejected at a checkpoint
+ * (transitively), open a review for checkpoint tasks that just completed (see
+ * taskCheckpoints), then queue every blocked task whose upstreams all completed
+ * and passed review — with {{key.output}} references filled in — and drain the
+ * queue, since the finished task freed a slot.
+ * Called right after a task finishes and swept by the CEO tick.
+ * Returns how many tasks were released to the queue.
+ */
+export async function advanceTaskGraph(missionId: string): Promise<number> {
+  const sb = getSupabase();
+  // Over its budget cap: the rest of the mission was just halted — nothing to release
+  if (await enforceMissionBudget(missionId)) {
+    await drainTaskQueue();
+    return 0;
+  }
+  const { data } = await sb
+    .from('task_executions')
+    .select('id, task_key, status, depends_on, skill_id, command_name, params, model, context, result, checkpoint, checkpoint_status')
+    .eq('mission_id', missionId);
+  const rows = (data ?? []) as GraphTaskRow[];
+  const unreviewed = (t: GraphTaskRow) => t.checkpoint && !t.checkpoint_status && t.status === 'completed';
+  if (!rows.some(t => t.status === 'blocked' || unreviewed(t))) {
+    await drainTaskQueue();
+    return 0;
+  }
+  const byId = new Map(rows.map(t => [t.id, t]));
+  const label = (t: GraphTaskRow | undefined) => t ? (t.task_key ?? `${t.skill_id}:${t.command_name}`) : 'deleted task';
+  // Upstream that will never complete: failed, cancelled, deleted or rejected at its checkpoint
+  const deadEnd = (id: string) => {
+    const up = byId.get(id);
+    return !up || !['completed', 'blocked', 'queued', 'pending', 'running'].includes(up.status) || up.checkpoint_status === 'rejected';
+  };
+
+  // Failures cascade down the graph
+  let cascaded = false;
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const task of rows) {
+      if (task.status !== 'blocked') continue;
+      const failed = (task.depends_on ?? []).find(deadEnd);
+      if (failed === undefined) continue;
+      const up = byId.get(failed);
+      const error = up?.checkpoint_status === 'rejected'
+        ? `Upstream task "${label(up)}" was rejected at its checkpoint — not run`
+        : `Upstream task "${label(up)}" failed — not run`;
+      const { data: claimed } = await sb.from('task_executions').update({
+        status: 'failed',
+        result: { output: '', error },
+        completed_at: new Date().toISOString(),
+      }).eq('id', task.id).eq('status', 'blocked').select('id');
+      task.status = 'failed';
+      task.result = { error };
+      if (claimed && claimed.length > 0) cascaded = true;
+      changed = true;
     }
   }
 
-  emitEvent('missions-changed');
-  emitEvent('task-executions-changed');
-  return missionIds;
+  // A cascade can leave nothing to run — hand the mission to the Founder like any other failure
+  if (cascaded && rows.every(t => t.status === 'completed' || t.status === 'failed')) {
+    const { data: moved } = await sb.from('missions')
+      .update({ status: 'review' }).eq('id', missionId).eq('status', 'in_progress').select('id');
+    if (moved && moved.length > 0) notifyMissionStatus(missionId, 'review').catch(() => {});
+    emitEvent('missions-changed');
+  }
+
+  // Checkpoints that just completed hold their dependents — or, on a leaf, the mission — for the Founder's review
+  for (const task of rows) {
+    if (!unreviewed(task)) continue;
+    const dependents = rows.filter(t => t.status === 'blocked' && (t.depends_on ?? []).includes(task.id));
+    if (await openCheckpoint({ ...task, mission_id: missionId }, dependents.map(label))) task.checkpoint_status = 'pending';
+  }
+
+  let released = 0;
+  for (const task of rows) {
+    if (task.status !== 'blocked') continue;
+    const upstream = (task.depends_on ?? []).map(id => byId.get(id)!);
+    if (!upstream.every(u => u.status === 'completed' && (!u.checkpoint || u.checkpoint_status === 'approved'))) continue;
+
+    const refs: UpstreamResult[] = upstream.map(u => ({ key: u.task_key, result: u.result }));
+    const params = resolveTaskReferences(task.params ?? {}, refs);
+    const context = {
+      ...(task.context ?? {}),
+      upstream_results: upstream.map(u => ({ task: label(u), summary: u.result?.summary ?? '' })),
+      // Unresolved params — what "save as template" and re-runs should start from
+      planned_params: task.context?.planned_params ?? task.params ?? {},
+    };
+    const { data: claimed } = await sb.from('task_executions').update({
+      status: 'queued',
+      params,
+      context: { ...context, founder_present: false },
+      released_at: new Date().toISOString(),
+    }).eq('id', task.id).eq('status', 'blocked').select('id');
+    if (!claimed || claimed.length === 0) continue; // another tick got there first
+    task.status = 'queued';
+    released++;
+  }
+
+  if (released > 0 || cascaded) emitEvent('task-executions-changed');
+  await drainTaskQueue();
+  return released;
+}
+
+/** Tick sweep — catches tasks finished by the edge function or a process that exited mid-flight */
+export async function advanceTaskGraphs(): Promise<number> {
+  // Missions with tasks still blocked, or with a finished checkpoint (possibly a leaf) not yet under review
+  const { data } = await getSupabase()
+    .from('task_executions')
+    .select('mission_id')
+    .or('status.eq.blocked,and(checkpoint.eq.true,status.eq.completed,checkpoint_status.is.null)');
+  const missionIds = [...new Set(((data ?? []) as { mission_id: string | null }[]).map(t => t.mission_id).filter((id): id is string => !!id))];
+  let released = 0;
+  for (const missionId of missionIds) released += await advanceTaskGraph(missionId);
+  return released;
 }
 
 // ---------------------------------------------------------------------------
 // LLM-powered mission planning — CEO picks skill + params intelligently
 // ---------------------------------------------------------------------------
 
+/** A planned mission task, with its pre-flight cost estimate (USD, see missionBudget) */
+export interface MissionPlan {
+  skillId: string;
+  commandName: string;
+  params: Record<string, unknown>;
+  model: string;
+  planningTokens: number;
+  costEstimate: number;
+}
+
 /**
  * Ask the CEO's LLM to plan how to execute a mission.
- * Returns the chosen skill, command, params, and model — or null if LLM unavailable.
+ * Returns the chosen skill, command, params, model and estimated cost — or null if LLM unavailable.
  */
 async function planMissionWithLLM(
   missionTitle: string,
-): Promise<{ skillId: string; commandName: string; params: Record<string, unknown>; model: string; planningTokens: number } | null> {
+): Promise<MissionPlan | null> {
   // Check LLM availability inline (avoid circular import with chatService)
   const ceo = await loadCEO();
   if (!ceo?.model) return null;
@@ -1211,7 +1511,7 @@ async function planMissionWithLLM(
   const service = MODEL_SERVICE_MAP[ceo.model] ?? '';
   if (!service) return null;
 
-  const vaultEntry = await getVaultEntryByService(service);
+  const vaultEntry = await getVaultEntryByService(service, { context: 'ceo_decision' });
   if (!vaultEntry) return null;
 
   const apiModelId = MODEL_API_IDS[ceo.model] ?? ceo.model;
@@ -1285,14 +1585,8 @@ ${memoryLines || 'No memories yet.'}
 <tool_call>{"name":"skill-id","command":"command_name","arguments":{"param":"value"}}</tool_call>`;
 
   // Get provider
-  const { anthropicProvider } = await import('./llm/providers/anthropic');
-  const { openaiProvider, deepseekProvider, xaiProvider } = await import('./llm/providers/openai');
-  const { googleProvider } = await import('./llm/providers/google');
-  const providers: Record<string, typeof anthropicProvider> = {
-    Anthropic: anthropicProvider, OpenAI: openaiProvider, Google: googleProvider,
-    DeepSeek: deepseekProvider, xAI: xaiProvider,
-  };
-  const provider = providers[service];
+  const { getProvider } = await import('./llm/registry');
+  const provider = getProvider(service);
   if (!provider) return null;
 
   const messages = [
@@ -1300,23 +1594,30 @@ ${memoryLines || 'No memories yet.'}
     { role: 'user' as const, content: `Execute this mission now: "${missionTitle}"` },
   ];
 
-  const responseText = await new Promise<string>((resolve, reject) => {
+  const { buildSkillTools, toPlanToolCall, CEO_DIRECT_TOOL } = await import('./llm/tools');
+  const tools = [...buildSkillTools(enabled), CEO_DIRECT_TOOL];
+
+  let served = { service, model: ceo.model };
+  const { text: responseText, toolCalls } = await new Promise<{ text: string; toolCalls?: LLMToolCall[] }>((resolve, reject) => {
     provider.stream(messages, vaultEntry.key_value, apiModelId, {
       onToken: () => {},
-      onDone: (fullText: string) => resolve(fullText),
+      onFailover: (e) => { served = { service: e.toService, model: e.toModel }; },
+      onDone: (fullText: string, _usage, calls) => resolve({ text: fullText, toolCalls: calls }),
       onError: (err: Error) => reject(err),
-    });
+    }, { tools });
   });
 
-  // Parse tool_call from response
-  const parsed = parseTaskPlan(responseText);
+  // Prefer the structured tool call; fall back to a <tool_call> block in the text
+  const parsed = toolCalls && toolCalls.length > 0
+    ? missionsFromToolCalls([toPlanToolCall(toolCalls[0])])
+    : parseTaskPlan(responseText);
   if (parsed.length === 0 || parsed[0].toolCalls.length === 0) {
     console.warn('[planMissionWithLLM] LLM did not produce a tool_call:', responseText.slice(0, 200));
     return null;
   }
 
   const call = parsed[0].toolCalls[0];
-  const commandName = (call as Record<string, unknown>).command as string
+  const commandName = call.command
     ?? call.arguments.command as string
     ?? call.name;
 
@@ -1325,8 +1626,8 @@ ${memoryLines || 'No memories yet.'}
   const outputTokens = Math.ceil(responseText.length / 4);
   import('./llmUsage').then(({ logUsage }) =>
     logUsage({
-      provider: service,
-      model: ceo.model,
+      provider: served.service,
+      model: served.model,
       inputTokens,
       outputTokens,
       context: 'mission_planning',
@@ -1334,7 +1635,8 @@ ${memoryLines || 'No memories yet.'}
     }).catch(err => console.warn('[planMissionWithLLM] Usage log failed:', err)),
   );
 
-  console.log(`[planMissionWithLLM] CEO planned: ${call.name}/${commandName}`, call.arguments);
+  const estimate = await estimatePlanCost([{ skillId: call.name, commandName, model: ceo.model }]);
+  console.log(`[planMissionWithLLM] CEO planned: ${call.name}/${commandName} (est. $${estimate.total.toFixed(4)})`, call.arguments);
 
   return {
     skillId: call.name,
@@ -1342,6 +1644,7 @@ ${memoryLines || 'No memories yet.'}
     params: call.arguments,
     model: ceo.model,
     planningTokens: inputTokens + outputTokens,
+    costEstimate: estimate.total,
   };
 }
 
@@ -1359,15 +1662,16 @@ async function executeCEODirect(
 ): Promise<void> {
   const sb = getSupabase();
 
-  await sb.from('task_executions').update({
-    status: 'running',
-    started_at: new Date().toISOString(),
-  }).eq('id', taskId);
+  const lease = await acquireTaskLease(taskId);
+  if (!lease) {
+    console.warn(`[executeCEODirect] Task ${taskId} is already being executed elsewhere — skipping`);
+    return;
+  }
 
   try {
     const ceo = await loadCEO();
     const service = MODEL_SERVICE_MAP[model] ?? MODEL_SERVICE_MAP[ceo?.model ?? ''] ?? '';
-    const vaultEntry = service ? await getVaultEntryByService(service) : null;
+    const vaultEntry = service ? await getVaultEntryByService(service, { context: 'ceo_direct' }) : null;
 
     if (!service || !vaultEntry) {
       throw new Error('No LLM API key available for CEO-direct execution');
@@ -1417,14 +1721,8 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
 - Use markdown formatting (headers, bullets, bold)
 - Be thorough but avoid repetition`;
 
-    const { anthropicProvider } = await import('./llm/providers/anthropic');
-    const { openaiProvider, deepseekProvider, xaiProvider } = await import('./llm/providers/openai');
-    const { googleProvider } = await import('./llm/providers/google');
-    const providers: Record<string, typeof anthropicProvider> = {
-      Anthropic: anthropicProvider, OpenAI: openaiProvider, Google: googleProvider,
-      DeepSeek: deepseekProvider, xAI: xaiProvider,
-    };
-    const provider = providers[service];
+    const { getProvider } = await import('./llm/registry');
+    const provider = getProvider(service);
     if (!provider) throw new Error(`No provider for service: ${service}`);
 
     const apiModelId = MODEL_API_IDS[model] ?? model;
@@ -1433,9 +1731,11 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
       { role: 'user' as const, content: synthesisPrompt },
     ];
 
+    let served = { service, model };
     const resultText = await new Promise<string>((resolve, reject) => {
       provider.stream(messages, vaultEntry.key_value, apiModelId, {
         onToken: () => {},
+        onFailover: (e) => { served = { service: e.toService, model: e.toModel }; },
         onDone: (fullText: string) => resolve(fullText),
         onError: (err: Error) => reject(err),
       });
@@ -1447,12 +1747,13 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
     // Log usage
     import('./llmUsage').then(({ logUsage }) =>
       logUsage({
-        provider: service,
-        model,
+        provider: served.service,
+        model: served.model,
         inputTokens,
         outputTokens,
         context: 'ceo_direct',
         agentId: 'ceo',
+        skillId: 'ceo-direct',
       }).catch(err => console.warn('[executeCEODirect] Usage log failed:', err)),
     );
 
@@ -1468,13 +1769,23 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
       tokens_used: inputTokens + outputTokens,
       cost_usd: 0,
       completed_at: new Date().toISOString(),
+      conversation: [...messages, { role: 'assistant', content: resultText }],
+      trace: {
+        model: served.model,
+        service: served.service,
+        prompt_version: 'ceo-direct',
+        prompt_source: 'builtin',
+        params,
+        captured_at: new Date().toISOString(),
+      },
     }).eq('id', taskId);
+    await advanceTaskGraph(missionId).catch(err => console.warn('[executeCEODirect] Task graph advance failed:', err));
 
     // Reuse the completion flow from executeBrowserSide for scoring, chat, etc.
     // We'll trigger the same post-completion checks
     const { data: siblings } = await sb
       .from('task_executions')
-      .select('status, tokens_used, cost_usd, started_at, completed_at, result, skill_id')
+      .select('status, tokens_used, cost_usd, started_at, completed_at, result, skill_id, checkpoint, checkpoint_status')
       .eq('mission_id', missionId);
 
     const allComplete = siblings?.every(t => t.status === 'completed' || t.status === 'failed');
@@ -1485,9 +1796,10 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
       const createdBy2 = missionMeta?.created_by?.toLowerCase() ?? '';
       const wasScheduled = createdBy2 === 'ceo' || createdBy2 === 'scheduler' || createdBy2 === (ceoRow2?.name ?? '').toLowerCase();
       const isTabVisible = typeof document !== 'undefined' && document.visibilityState === 'visible';
-      const autoComplete = wasScheduled || (founderPresent && isTabVisible);
+      const autoComplete = !siblings?.some(awaitingCheckpoint) && (wasScheduled || (founderPresent && isTabVisible));
 
       await sb.from('missions').update({ status: autoComplete ? 'done' : 'review' }).eq('id', missionId);
+      notifyMissionStatus(missionId, autoComplete ? 'done' : 'review').catch(() => {});
 
       // Post to chat
       let convoId = conversationId;
@@ -1551,6 +1863,7 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
           cost_usd: 0,
           duration_ms: null,
           task_count: siblings?.length ?? 0,
+          tasks: await snapshotRoundTasks(missionId),
           started_at: new Date().toISOString(),
           completed_at: new Date().toISOString(),
         });
@@ -1600,10 +1913,15 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
       result: { error: errorMsg },
       completed_at: new Date().toISOString(),
     }).eq('id', taskId);
+    emitWebhookEvent('skill.failed', { task_id: taskId, mission_id: missionId, skill_id: 'ceo-direct', error: errorMsg });
+    await advanceTaskGraph(missionId).catch(e => console.warn('[executeCEODirect] Task graph advance failed:', e));
 
     await sb.from('missions').update({ status: 'review' }).eq('id', missionId);
+    notifyMissionStatus(missionId, 'review').catch(() => {});
     emitEvent('missions-changed');
     emitEvent('task-executions-changed');
+  } finally {
+    lease.release();
   }
 }
 
@@ -1616,6 +1934,21 @@ Create a comprehensive, well-structured response about "${topic}" using ONLY the
 export async function autoDispatchMission(missionId: string): Promise<boolean> {
   const sb = getSupabase();
 
+  // Epics run through their sub-missions — start the ones still in the backlog
+  const { data: children } = await sb
+    .from('missions')
+    .select('id, status')
+    .eq('parent_id', missionId);
+  if (children && children.length > 0) {
+    let started = false;
+    for (const child of (children as { id: string; status: string }[]).filter(c => c.status === 'backlog')) {
+      await sb.from('missions').update({ status: 'in_progress' }).eq('id', child.id).eq('status', 'backlog');
+      if (await autoDispatchMission(child.id)) started = true;
+    }
+    emitEvent('missions-changed');
+    return started;
+  }
+
   // Skip if mission already has tasks
   const { data: existingTasks } = await sb
     .from('task_executions')
@@ -1635,12 +1968,13 @@ export async function autoDispatchMission(missionId: string): Promise<boolean> {
   if (!mission) return false;
 
   // Try LLM-powered planning first (CEO intelligence)
-  let plan: { skillId: string; commandName: string; params: Record<string, unknown>; model: string; planningTokens: number } | null = null;
+  let plan: MissionPlan | null = null;
   try {
     plan = await planMissionWithLLM(mission.title);
   } catch (err) {
     console.warn('[autoDispatchMission] LLM planning failed, falling back to keyword matching:', err);
   }
+  const planner = plan ? 'LLM-planned' : 'keyword';
 
   // Fallback: keyword matching if LLM unavailable or failed
   if (!plan) {
@@ -1658,9 +1992,36 @@ export async function autoDispatchMission(missionId: string): Promise<boolean> {
     for (const p of command.parameters ?? []) {
       if (p.required) params[p.name] = mission.title;
     }
-    plan = { skillId, commandName: command.name, params, model, planningTokens: 0 };
+    const estimate = await estimatePlanCost([{ skillId, commandName: command.name, model }]);
+    plan = { skillId, commandName: command.name, params, model, planningTokens: 0, costEstimate: estimate.total };
+  }
+
+  // Pre-flight: an expensive plan (or one that would overrun a cap) waits for the Founder
+  await sb.from('missions').update({ cost_estimate: plan.costEstimate }).eq('id', missionId);
+  const holdReason = await preflightHoldReason(missionId, plan.costEstimate);
+  if (holdReason) {
+    await requestBudgetApproval(mission, plan, holdReason);
+    return false;
   }
 
+  if (!await queueMissionPlan(mission, plan)) return false;
+
+  logAudit(
+    mission.assignee ?? 'CEO',
+    'TASK_AUTO_DISPATCHED',
+    `Auto-dispatched "${plan.skillId}/${plan.commandName}" for mission "${mission.title}" (${planner}, est. $${plan.costEstimate.toFixed(4)})`,
+    'info',
+  );
+
+  await drainTaskQueue();
+  return true;
+}
+
+/** Write a planned mission's task to the work queue (the caller drains) */
+async function queueMissionPlan(
+  mission: { id: string; title: string; assignee: string | null },
+  plan: MissionPlan,
+): Promise<boolean> {
   // Build task context with memories (same context the task executor receives)
   const taskContext = await buildTaskContext(
     { title: mission.title, toolCalls: [{ name: plan.skillId, arguments: plan.params }] },
@@ -1668,16 +2029,16 @@ export async function autoDispatchMission(missionId: string): Promise<boolean> {
 
   // Create task_execution
   const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
-  const { error: insertErr } = await sb.from('task_executions').insert({
+  const { error: insertErr } = await getSupabase().from('task_executions').insert({
     id: taskId,
-    mission_id: missionId,
+    mission_id: mission.id,
     agent_id: mission.assignee ?? 'ceo',
     skill_id: plan.skillId,
     command_name: plan.commandName,
     params: plan.params,
     model: plan.model,
-    status: 'pending',
-    context: taskContext,
+    status: 'queued',
+    context: { ...taskContext, founder_present: false },
     tokens_used: plan.planningTokens ?? 0,
   });
 
@@ -1689,24 +2050,58 @@ export async function autoDispatchMission(missionId: string): Promise<boolean> {
   if (typeof window !== 'undefined') {
     emitEvent('task-executions-changed');
   }
+  return true;
+}
 
+/**
+ * Dispatch a mission held by a pre-flight budget check once its
+ * 'mission_budget' approval is approved — from the Approvals page, or the CEO
+ * tick for approvals given in a chat channel. The on_hold → in_progress
+ * compare-and-set makes it safe to call twice. Returns true if dispatched.
+ */
+export async function releaseBudgetHold(approvalId: string): Promise<boolean> {
+  const sb = getSupabase();
+  const { data: approval } = await sb
+    .from('approvals')
+    .select('status, metadata')
+    .eq('id', approvalId)
+    .maybeSingle();
+  const meta = (approval?.metadata ?? {}) as { mission_id?: string; plan?: MissionPlan; released_at?: string };
+  if (approval?.status !== 'approved' || !meta.mission_id || !meta.plan || meta.released_at) return false;
+
+  const { data: claimed } = await sb.from('missions')
+    .update({ status: 'in_progress' })
+    .eq('id', meta.mission_id).eq('status', 'on_hold')
+    .select('id, title, assignee');
+  await sb.from('approvals').update({ metadata: { ...meta, released_at: new Date().toISOString() } }).eq('id', approvalId);
+  const mission = (claimed as { id: string; title: string; assignee: string | null }[] | null)?.[0];
+  if (!mission) return false; // moved off hold by hand — the plan is stale
+
+  if (!await queueMissionPlan(mission, meta.plan)) return false;
   logAudit(
     mission.assignee ?? 'CEO',
     'TASK_AUTO_DISPATCHED',
-    `Auto-dispatched "${plan.skillId}/${plan.commandName}" for mission "${mission.title}" (${plan === null ? 'keyword' : 'LLM-planned'})`,
+    `Dispatched "${meta.plan.skillId}/${meta.plan.commandName}" for mission "${mission.title}" after budget approval (est. $${meta.plan.costEstimate.toFixed(4)})`,
     'info',
   );
+  emitEvent('missions-changed');
+  await drainTaskQueue();
+  return true;
+}
 
-  // Fire off execution — route ceo-direct to its own handler
-  if (plan.skillId === 'ceo-direct') {
-    executeCEODirect(taskId, missionId, plan.params, plan.model, false)
-      .catch(err => console.error('[autoDispatchMission] CEO-direct execution failed:', err));
-  } else {
-    executeBrowserSide(taskId, missionId, plan.skillId, plan.commandName, plan.params, plan.model, false)
-      .catch(err => console.error('[autoDispatchMission] Execution failed:', err));
+/** Tick sweep — budget holds approved outside the dashboard */
+export async function releaseBudgetHolds(): Promise<number> {
+  const { data } = await getSupabase()
+    .from('approvals')
+    .select('id, metadata')
+    .eq('type', 'mission_budget')
+    .eq('status', 'approved');
+  let released = 0;
+  for (const row of (data ?? []) as { id: string; metadata: Record<string, unknown> | null }[]) {
+    if (row.metadata?.released_at) continue;
+    if (await releaseBudgetHold(row.id)) released++;
   }
-
-  return true;
+  return released;
 }
 
 /** Execute a single pre-created task execution (for recurring replays) */
@@ -1722,8 +2117,9 @@ export async function executeTask(
 }
 
 /**
- * Re-run a failed/review mission: resets its failed task_executions to pending
- * and immediately re-dispatches them browser-side.
+ * Re-run a failed/review mission: puts its failed task_executions back in the
+ * work queue. Tasks downstream of a re-run task go back to blocked and start
+ * when it completes.
  */
 export async function rerunMission(missionId: string): Promise<void> {
   const sb = getSupabase();
@@ -1732,38 +2128,56 @@ export async function rerunMission(missionId: string): Promise<void> {
   await sb.from('missions').update({ status: 'in_progress' }).eq('id', missionId);
 
   // Get all task_executions for this mission (only failed ones need re-running)
+  // Checkpoints the Founder rejected run again too — their output goes back for review
   const { data: tasks } = await sb
     .from('task_executions')
     .select('*')
     .eq('mission_id', missionId)
-    .in('status', ['failed', 'pending']);
+    .or('status.in.(failed,pending,queued),checkpoint_status.eq.rejected');
 
   if (!tasks || tasks.length === 0) {
     emitEvent('missions-changed');
     return;
   }
 
+  // Dependents whose inputs are being re-run wait for them again
+  const rerunIds = new Set(tasks.map(t => t.id as string));
+  const waitsOnRerun = (t: Record<string, unknown>) =>
+    ((t.depends_on as string[] | null) ?? []).some(id => rerunIds.has(id));
+
   for (const task of tasks) {
-    // Reset task to pending
+    if (waitsOnRerun(task)) {
+      await sb.from('task_executions').update({
+        status: 'blocked',
+        started_at: null,
+        completed_at: null,
+        result: null,
+        // Put the {{key.output}} references back so the fresh upstream output is used
+        params: (task.context as Record<string, unknown> | null)?.planned_params ?? task.params,
+        attempts: 0,
+        idempotency_key: null,
+      }).eq('id', task.id);
+      continue;
+    }
+
+    // Back into the queue — the Founder asked for it, so results come back to chat
     await sb.from('task_executions').update({
-      status: 'pending',
+      status: 'queued',
       started_at: null,
       completed_at: null,
+      admitted_at: null,
       result: null,
+      checkpoint_status: null,
+      context: { ...((task.context as Record<string, unknown> | null) ?? {}), founder_present: true },
+      // A deliberate re-run: fresh attempt count and idempotency key
+      attempts: 0,
+      idempotency_key: null,
     }).eq('id', task.id);
-
-    // Fire off execution immediately
-    const skillId = task.skill_id as string;
-    const commandName = task.command_name as string;
-    const params = (task.params as Record<string, unknown>) ?? {};
-    const model = (task.model as string) ?? 'Claude Sonnet 4.5';
-
-    executeBrowserSide(task.id, missionId, skillId, commandName, params, model, true)
-      .catch(err => console.error(`Rerun failed for task ${task.id}:`, err));
   }
 
   emitEvent('missions-changed');
   emitEvent('task-executions-changed');
+  await drainTaskQueue();
 }
 
 /**
@@ -1790,13 +2204,16 @@ export async function rejectAndRedoMission(
   const { data: existingRounds } = await sb.from('mission_rounds')
     .select('id')
     .eq('mission_id', missionId)
-    .eq('round_number', currentRound);
+    .eq('round_number', currentRound)
+    .is('replay_of', null);
 
   if (existingRounds && existingRounds.length > 0) {
     await sb.from('mission_rounds').update({
       status: 'rejected',
       rejection_feedback: options.feedback,
       redo_strategy: options.strategy,
+      // The redo resets these tasks in place — keep what this round produced for replays and diffs
+      tasks: await snapshotRoundTasks(missionId),
       completed_at: new Date().toISOString(),
     }).eq('id', existingRounds[0].id);
   }
@@ -1828,34 +2245,23 @@ export async function rejectAndRedoMission(
     return;
   }
 
-  // Re-dispatch: reset failed tasks and re-run them
-  for (const task of previousTasks.filter(t => t.status === 'failed')) {
+  // Re-dispatch: put failed tasks back in the queue
+  // For completed tasks in include_collateral mode — they stay as-is (agent can reference)
+  // For start_fresh — reset completed tasks too
+  const redo = previousTasks.filter(t => t.status === 'failed' || (options.strategy === 'start_fresh' && t.status === 'completed'));
+  for (const task of redo) {
     await sb.from('task_executions').update({
-      status: 'pending',
+      status: 'queued',
       started_at: null,
       completed_at: null,
+      admitted_at: null,
       result: null,
+      context: { ...(task.context ?? {}), founder_present: false },
+      attempts: 0,
+      idempotency_key: null,
     }).eq('id', task.id);
-
-    executeBrowserSide(task.id, missionId, task.skill_id, task.command_name, task.params ?? {}, task.model ?? 'Claude Sonnet 4.5', false)
-      .catch(err => console.error(`Redo failed for task ${task.id}:`, err));
-  }
-
-  // For completed tasks in include_collateral mode — they stay as-is (agent can reference)
-  // For start_fresh — reset completed tasks too
-  if (options.strategy === 'start_fresh') {
-    for (const task of previousTasks.filter(t => t.status === 'completed')) {
-      await sb.from('task_executions').update({
-        status: 'pending',
-        started_at: null,
-        completed_at: null,
-        result: null,
-      }).eq('id', task.id);
-
-      executeBrowserSide(task.id, missionId, task.skill_id, task.command_name, task.params ?? {}, task.model ?? 'Claude Sonnet 4.5', false)
-        .catch(err => console.error(`Redo failed for task ${task.id}:`, err));
-    }
   }
+  await drainTaskQueue();
 
   await logAudit('Founder', 'MISSION_REJECTED', `Rejected round ${currentRound} of "${missionData.title}": ${options.feedback}`, 'warning');
 
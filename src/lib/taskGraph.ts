@@ -0,0 +1,187 @@
+/**
+ * Task Graph — dependencies between the tool calls of one mission plan
+ * =====================================================================
+ * A <task_plan> tool call may carry an `id` and `depends_on: [ids]`, and
+ * reference an upstream task's result anywhere in its arguments:
+ *
+ *   {"id":"research","name":"research","command":"web_search","arguments":{"query":"..."}}
+ *   {"id":"report","depends_on":["research"],"name":"docx","command":"write",
+ *    "arguments":{"content":"Write a report from: {{research.output}}"}}
+ *
+ * References imply a dependency even when `depends_on` omits it. Tasks with
+ * unfinished upstreams are stored as `blocked`; the dispatcher releases them
+ * (references filled in) once every upstream completed, or fails them when
+ * one failed. Everything here is pure — DB work lives in taskDispatcher.
+ */
+
+import type { PlanToolCall } from './llm/tools';
+
+/** Cap on how much of an upstream output is pasted into a downstream argument */
+const MAX_REFERENCE_CHARS = 20_000;
+
+/** {{key}}, {{key.output}}, {{key.summary}} */
+const REFERENCE_RE = /\{\{\s*([A-Za-z0-9_-]+)(?:\.(output|summary))?\s*\}\}/g;
+
+export interface TaskGraphNode {
+  key: string;
+  call: PlanToolCall;
+  /** Keys of upstream nodes (declared + referenced), all present in the graph */
+  dependsOn: string[];
+}
+
+export interface TaskGraph {
+  /** Topological order — upstream nodes always come before their dependents */
+  nodes: TaskGraphNode[];
+  /** Problems that were corrected: unknown ids, duplicates, dependency cycles */
+  warnings: string[];
+}
+
+/** Upstream task as the dispatcher sees it when releasing a dependent */
+export interface UpstreamResult {
+  key: string | null;
+  result: { output?: string; summary?: string } | null;
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+function collectReferences(value: unknown, into: Set<string>): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(REFERENCE_RE)) into.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectReferences(v, into));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(v => collectReferences(v, into));
+  }
+}
+
+/**
+ * Assign keys, resolve dependencies and order the calls. A plan without any
+ * dependencies comes back in its original order. Each dependency cycle loses
+ * the edges that form it — the rest of the graph stands — and is reported in
+ * `warnings`.
+ */
+export function planTaskGraph(calls: PlanToolCall[]): TaskGraph {
+  const warnings: string[] = [];
+  const keyed: { key: string; call: PlanToolCall; declared: string[] }[] = [];
+  const seen = new Set<string>();
+  // A renamed duplicate must not take an id that a later call declares
+  const declaredIds = new Set(calls.map(c => typeof c.id === 'string' ? c.id.trim() : '').filter(Boolean));
+
+  calls.forEach((call, i) => {
+    let key = typeof call.id === 'string' && call.id.trim() ? call.id.trim() : `t${i + 1}`;
+    if (seen.has(key)) {
+      let n = i + 1;
+      while (seen.has(`${key}-${n}`) || declaredIds.has(`${key}-${n}`)) n++;
+      warnings.push(`Duplicate task id "${key}" renamed to "${key}-${n}"`);
+      key = `${key}-${n}`;
+    }
+    seen.add(key);
+    const declared = Array.isArray(call.depends_on) ? call.depends_on.map(String) : [];
+    keyed.push({ key, call, declared });
+  });
+
+  const nodes: TaskGraphNode[] = keyed.map(({ key, call, declared }) => {
+    const refs = new Set<string>();
+    collectReferences(call.arguments, refs);
+    const deps = new Set<string>();
+    for (const dep of [...declared, ...refs]) {
+      if (dep === key) warnings.push(`Task "${key}" cannot depend on itself`);
+      else if (!seen.has(dep)) warnings.push(`Task "${key}" depends on unknown task "${dep}"`);
+      else deps.add(dep);
+    }
+    return { key, call, dependsOn: [...deps] };
+  });
+
+  // Kahn's algorithm, keeping the plan's own order among ready nodes
+  const remaining = new Map(nodes.map(n => [n.key, n]));
+  const ordered: TaskGraphNode[] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining.values()].filter(n => n.dependsOn.every(d => !remaining.has(d)));
+    if (ready.length === 0) {
+      breakCycle(remaining, warnings);
+      continue;
+    }
+    for (const n of ready) {
+      ordered.push(n);
+      remaining.delete(n.key);
+    }
+  }
+  return { nodes: ordered, warnings };
+}
+
+/**
+ * Every remaining node still waits on another remaining one, so following
+ * those dependencies must loop. Find the first such loop (in plan order) and
+ * drop the dependencies that form it.
+ */
+function breakCycle(remaining: Map<string, TaskGraphNode>, warnings: string[]): void {
+  const path: TaskGraphNode[] = [];
+  const at = new Map<string, number>();
+  let node = remaining.values().next().value!;
+  while (!at.has(node.key)) {
+    at.set(node.key, path.length);
+    path.push(node);
+    node = remaining.get(node.dependsOn.find(d => remaining.has(d))!)!;
+  }
+  const cycle = path.slice(at.get(node.key));
+  // cycle[j] depends on cycle[j + 1], and the last one on cycle[0]
+  cycle.forEach((n, j) => {
+    const upstream = cycle[(j + 1) % cycle.length].key;
+    n.dependsOn = n.dependsOn.filter(d => d !== upstream);
+  });
+  const loop = [...cycle, cycle[0]].map(n => `"${n.key}"`).join(' → ');
+  warnings.push(`Dependency cycle ${loop} — dropped the dependencies that form it`);
+}
+
+// ---------------------------------------------------------------------------
+// Reference resolution
+// ---------------------------------------------------------------------------
+
+function referenceText(upstream: UpstreamResult, field: string | undefined): string {
+  const result = upstream.result ?? {};
+  const text = field === 'summary' ? (result.summary ?? result.output ?? '') : (result.output ?? result.summary ?? '');
+  return text.length > MAX_REFERENCE_CHARS ? `${text.slice(0, MAX_REFERENCE_CHARS)}\n…[truncated]` : text;
+}
+
+/** Replace {{key.output}} / {{key.summary}} in params with the upstream results. Unknown keys are left as written. */
+export function resolveTaskReferences<T>(value: T, upstream: UpstreamResult[]): T {
+  const byKey = new Map(upstream.filter(u => u.key).map(u => [u.key!, u]));
+  const resolve = (v: unknown): unknown => {
+    if (typeof v === 'string') {
+      return v.replace(REFERENCE_RE, (whole, key: string, field?: string) => {
+        const up = byKey.get(key);
+        return up ? referenceText(up, field) : whole;
+      });
+    }
+    if (Array.isArray(v)) return v.map(resolve);
+    if (v && typeof v === 'object') return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, resolve(x)]));
+    return v;
+  };
+  return resolve(value) as T;
+}
+
+// ---------------------------------------------------------------------------
+// Layout (MissionDetailPage graph)
+// ---------------------------------------------------------------------------
+
+/** Column index per task id: roots are 0, every other task sits one right of its deepest upstream */
+export function taskGraphDepths(tasks: { id: string; depends_on?: string[] | null }[]): Map<string, number> {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const depth = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0; // defensive — stored graphs are acyclic
+    visiting.add(id);
+    const deps = (byId.get(id)?.depends_on ?? []).filter(d => byId.has(d));
+    const d = deps.length === 0 ? 0 : 1 + Math.max(...deps.map(depth));
+    visiting.delete(id);
+    depths.set(id, d);
+    return d;
+  };
+  tasks.forEach(t => depth(t.id));
+  return depths;
+}
@@ -0,0 +1,247 @@
+/**
+ * Task Leases — crash-safe task execution
+ * ========================================
+ * An executor takes a lease on a task_executions row before it runs it
+ * (lease_owner + lease_expires_at) and keeps extending it from a heartbeat
+ * while the skill runs. If the process dies — sidecar restart, closed tab —
+ * the heartbeat stops, the lease runs out and recoverTaskLeases() (CEO tick,
+ * sidecar boot) puts the task back in the work queue, counting attempts.
+ * After MAX_TASK_ATTEMPTS the task fails instead. Every recovery is audited.
+ *
+ * Re-running a task is only safe when it has no side effects. Commands that
+ * act on the outside world (forum posts, emails, Slack messages...) run
+ * through runOnce(): the first attempt records an idempotency key in
+ * task_side_effects, a retry that finds it succeeded reuses the recorded
+ * result, and one that finds it unfinished fails for the Founder to check
+ * rather than posting twice. Founder re-runs start a fresh key.
+ */
+
+import { getSupabase } from './supabase';
+import { logAudit } from './database';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const LEASE_MS = 90_000;
+const HEARTBEAT_MS = 30_000;
+export const MAX_TASK_ATTEMPTS = 3;
+
+/** Commands with side effects outside Jarvis — keyed skill or skill:command */
+const SIDE_EFFECT_SKILLS = new Set(['write-email', 'send-slack', 'schedule-meeting']);
+const SIDE_EFFECT_COMMANDS = new Set([
+  'forum:create_post', 'forum:reply', 'forum:vote', 'forum:poll_vote', 'forum:introduce',
+  'marketplace:register', 'marketplace:submit_feature', 'marketplace:update_profile',
+]);
+
+export function hasSideEffects(skillId: string, commandName: string): boolean {
+  return SIDE_EFFECT_SKILLS.has(skillId) || SIDE_EFFECT_COMMANDS.has(`${skillId}:${commandName}`);
+}
+
+let leaseOwner = `${typeof window !== 'undefined' ? 'browser' : 'node'}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Name this process in lease_owner. The sidecar uses a stable name so that,
+ * after a crash, its next boot can reclaim its own leases without waiting
+ * for them to expire.
+ */
+export function setLeaseOwner(owner: string): void {
+  leaseOwner = owner;
+}
+
+export function getLeaseOwner(): string {
+  return leaseOwner;
+}
+
+// ---------------------------------------------------------------------------
+// Leases
+// ---------------------------------------------------------------------------
+
+export interface TaskLease {
+  taskId: string;
+  attempt: number;
+  idempotencyKey: string;
+  /** Stop the heartbeat — call once the task row is finished */
+  release: () => void;
+}
+
+/**
+ * Mark a task running under this process's lease and start its heartbeat.
+ * Succeeds on a pending task, or a running one nobody holds a live lease on
+ * (edge-function hand-offs). Returns null while any live lease is held — this
+ * process's own included, since a second run of it would double the task;
+ * a restarted process reclaims its leases with recoverTaskLeases({ heldBy }).
+ */
+export async function acquireTaskLease(taskId: string): Promise<TaskLease | null> {
+  const sb = getSupabase();
+  const { data: row } = await sb
+    .from('task_executions')
+    .select('status, attempts, idempotency_key, lease_owner, lease_expires_at')
+    .eq('id', taskId)
+    .maybeSingle();
+  if (!row || !['pending', 'running'].includes(row.status)) return null;
+  const now = new Date();
+  if (row.lease_owner && row.lease_expires_at && new Date(row.lease_expires_at) > now) {
+    return null;
+  }
+
+  const attempt = (row.attempts ?? 0) + 1;
+  const idempotencyKey = (row.idempotency_key as string | null) ?? `${taskId}:${Date.now().toString(36)}`;
+  const { data: claimed } = await sb.from('task_executions').update({
+    status: 'running',
+    started_at: now.toISOString(),
+    lease_owner: leaseOwner,
+    lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString(),
+    attempts: attempt,
+    idempotency_key: idempotencyKey,
+  }).eq('id', taskId).eq('status', row.status).eq('attempts', row.attempts ?? 0).select('id');
+  if (!claimed || claimed.length === 0) return null;
+
+  const owner = leaseOwner;
+  const timer = setInterval(() => {
+    sb.from('task_executions')
+      .update({ lease_expires_at: new Date(Date.now() + LEASE_MS).toISOString() })
+      .eq('id', taskId).eq('status', 'running').eq('lease_owner', owner)
+      .then(({ error }) => { if (error) console.warn(`[TaskLeases] Heartbeat for ${taskId} failed:`, error.message); });
+  }, HEARTBEAT_MS);
+
+  return { taskId, attempt, idempotencyKey, release: () => clearInterval(timer) };
+}
+
+interface ExpiredLeaseRow {
+  id: string;
+  mission_id: string | null;
+  skill_id: string;
+  command_name: string;
+  attempts: number;
+  lease_owner: string;
+  lease_expires_at: string;
+}
+
+/**
+ * Re-queue running tasks whose lease ran out (or, with `heldBy`, every lease
+ * that owner holds — for a process reclaiming its own after a restart). Tasks
+ * out of attempts fail instead. Returns how many tasks were recovered.
+ */
+export async function recoverTaskLeases(options: { heldBy?: string } = {}): Promise<number> {
+  const sb = getSupabase();
+  let query = sb
+    .from('task_executions')
+    .select('id, mission_id, skill_id, command_name, attempts, lease_owner, lease_expires_at')
+    .eq('status', 'running')
+    .not('lease_owner', 'is', null);
+  query = options.heldBy
+    ? query.eq('lease_owner', options.heldBy)
+    : query.lt('lease_expires_at', new Date().toISOString());
+  const { data } = await query;
+
+  let recovered = 0;
+  for (const task of (data ?? []) as ExpiredLeaseRow[]) {
+    const label = `${task.skill_id}:${task.command_name}`;
+    const exhausted = task.attempts >= MAX_TASK_ATTEMPTS;
+    const update = exhausted
+      ? {
+        status: 'failed',
+        result: { output: '', error: `Executor stopped responding on ${task.attempts} attempts — giving up` },
+        completed_at: new Date().toISOString(),
+        lease_owner: null,
+        lease_expires_at: null,
+      }
+      : {
+        status: 'queued',
+        started_at: null,
+        admitted_at: null,
+        lease_owner: null,
+        lease_expires_at: null,
+      };
+    const { data: claimed } = await sb.from('task_executions').update(update)
+      .eq('id', task.id).eq('status', 'running').eq('lease_owner', task.lease_owner).select('id');
+    if (!claimed || claimed.length === 0) continue; // heartbeat came back, or another tick recovered it
+
+    recovered++;
+    await logAudit(
+      null,
+      exhausted ? 'TASK_LEASE_EXHAUSTED' : 'TASK_LEASE_RECOVERED',
+      exhausted
+        ? `Task ${task.id} (${label}) lost its executor (${task.lease_owner}) ${task.attempts} times — failed`
+        : `Task ${task.id} (${label}) lease held by ${task.lease_owner} expired — re-queued (attempt ${task.attempts + 1}/${MAX_TASK_ATTEMPTS})`,
+      exhausted ? 'error' : 'warning',
+    );
+  }
+
+  if (recovered > 0 && typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('task-executions-changed'));
+  }
+  return recovered;
+}
+
+// ---------------------------------------------------------------------------
+// Idempotency
+// ---------------------------------------------------------------------------
+
+interface SideEffectRow {
+  status: 'started' | 'succeeded' | 'failed';
+  result: unknown;
+}
+
+/**
+ * Run a side-effecting command at most once per idempotency key. A retry of
+ * a command that succeeded returns the recorded result; a retry of one that
+ * never reported back throws — it may already have gone out.
+ */
+export async function runOnce<T extends { success: boolean }>(
+  lease: TaskLease,
+  skillId: string,
+  commandName: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  if (!hasSideEffects(skillId, commandName)) return run();
+
+  const sb = getSupabase();
+  const key = lease.idempotencyKey;
+  const { error: insertErr } = await sb.from('task_side_effects').insert({
+    idempotency_key: key,
+    task_id: lease.taskId,
+    skill_id: skillId,
+    command_name: commandName,
+    status: 'started',
+  });
+
+  if (insertErr) {
+    const { data: existing } = await sb
+      .from('task_side_effects')
+      .select('status, result')
+      .eq('idempotency_key', key)
+      .maybeSingle();
+    const prior = existing as SideEffectRow | null;
+    if (prior?.status === 'succeeded') {
+      await logAudit(null, 'TASK_SIDE_EFFECT_DEDUPED', `Task ${lease.taskId} (${skillId}:${commandName}) already ran — reused the recorded result instead of repeating it`, 'info');
+      return prior.result as T;
+    }
+    if (prior?.status === 'started') {
+      await logAudit(null, 'TASK_SIDE_EFFECT_UNCERTAIN', `Task ${lease.taskId} (${skillId}:${commandName}) was interrupted mid-call — not repeated automatically`, 'warning');
+      throw new Error(`${skillId}:${commandName} was interrupted mid-call and may already have gone out — check, then re-run the mission to try again`);
+    }
+    // A failed earlier attempt (or no row after all) — safe to try again
+    await sb.from('task_side_effects')
+      .update({ status: 'started', task_id: lease.taskId, completed_at: null })
+      .eq('idempotency_key', key);
+  }
+
+  try {
+    const result = await run();
+    await sb.from('task_side_effects').update({
+      status: result.success ? 'succeeded' : 'failed',
+      result,
+      completed_at: new Date().toISOString(),
+    }).eq('idempotency_key', key);
+    return result;
+  } catch (err) {
+    await sb.from('task_side_effects').update({
+      status: 'failed',
+      result: { success: false, error: err instanceof Error ? err.message : String(err) },
+      completed_at: new Date().toISOString(),
+    }).eq('idempotency_key', key);
+    throw err;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Task Queue — priority work queue with concurrency caps
+ * =======================================================
+ * Dispatch no longer starts tasks directly: it writes them to task_executions
+ * as 'queued', and drainTaskQueue() (taskDispatcher) moves them to 'pending'
+ * and launches them while there is room. The queue is the table itself, so it
+ * survives sidecar restarts and browser reloads — the next drain picks up
+ * where the last one stopped.
+ *
+ * Waiting tasks are ordered by mission priority, then mission deadline, then
+ * age. A task is admitted only while it fits under all three caps: the global
+ * one, its agent's and its LLM provider's ('pending' and 'running' tasks count
+ * as in flight). A task that does not fit stays queued but does not hold up
+ * later tasks that do — a saturated provider never stalls the others.
+ *
+ * Caps live in settings under `task_queue_limits` (JSON); 0 means unlimited.
+ * A task whose agent, skill or context has spent its monthly allocation (see
+ * budgetAllocations) waits too, without taking a slot.
+ */
+
+import { getSupabase } from './supabase';
+import { getSetting, setSetting } from './database';
+import { getServiceForModel } from './models';
+import { spendAllocationGuard } from './budgetAllocations';
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+export interface QueueLimits {
+  /** Tasks in flight across the whole organization */
+  maxConcurrent: number;
+  /** Tasks in flight per agent */
+  perAgent: number;
+  /** Tasks in flight per LLM provider, unless overridden below */
+  perProvider: number;
+  /** Per-provider caps keyed by service name (e.g. "Anthropic") */
+  providerOverrides: Record<string, number>;
+}
+
+const SETTING_KEY = 'task_queue_limits';
+
+export const DEFAULT_QUEUE_LIMITS: QueueLimits = {
+  maxConcurrent: 6,
+  perAgent: 2,
+  perProvider: 4,
+  providerOverrides: {},
+};
+
+export async function loadQueueLimits(): Promise<QueueLimits> {
+  try {
+    const raw = await getSetting(SETTING_KEY);
+    return raw ? { ...DEFAULT_QUEUE_LIMITS, ...JSON.parse(raw) } : DEFAULT_QUEUE_LIMITS;
+  } catch {
+    return DEFAULT_QUEUE_LIMITS;
+  }
+}
+
+export async function saveQueueLimits(limits: QueueLimits): Promise<void> {
+  await setSetting(SETTING_KEY, JSON.stringify(limits));
+}
+
+export function providerLimit(limits: QueueLimits, provider: string): number {
+  return limits.providerOverrides[provider] ?? limits.perProvider;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot
+// ---------------------------------------------------------------------------
+
+const PRIORITY_RANK: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export interface QueueTask {
+  id: string;
+  mission_id: string | null;
+  agent_id: string;
+  skill_id: string;
+  command_name: string;
+  params: Record<string, unknown>;
+  model: string;
+  context: Record<string, unknown>;
+  status: string;
+  depends_on: string[];
+  task_key: string | null;
+  created_at: string;
+  admitted_at: string | null;
+  started_at: string | null;
+  /** Executions started so far, and who holds the current one (see taskLeases) */
+  attempts: number;
+  lease_owner: string | null;
+  /** Derived */
+  provider: string;
+  mission_title: string | null;
+  priority: string;
+  /** Mission deadline (see missionDeadlines) */
+  deadline: string | null;
+  /** Spent budget allocation holding the task back (queued tasks only) */
+  spend_hold: string | null;
+}
+
+export interface QueueSnapshot {
+  limits: QueueLimits;
+  /** Ordered: the head of the queue first */
+  queued: QueueTask[];
+  /** 'pending' + 'running' */
+  inFlight: QueueTask[];
+  /** Waiting on upstream tasks of their mission (task graphs) — not in the queue yet */
+  blocked: QueueTask[];
+}
+
+/** Priority, then deadline (none last), then oldest first */
+function compareQueued(a: QueueTask, b: QueueTask): number {
+  const byPriority = (PRIORITY_RANK[a.priority] ?? 9) - (PRIORITY_RANK[b.priority] ?? 9);
+  if (byPriority !== 0) return byPriority;
+  const aDue = a.deadline ? new Date(a.deadline).getTime() : Infinity;
+  const bDue = b.deadline ? new Date(b.deadline).getTime() : Infinity;
+  if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+}
+
+/** Read the queue, everything in flight and the task-graph waiters in one pass */
+export async function loadQueueSnapshot(options: { includeBlocked?: boolean } = {}): Promise<QueueSnapshot> {
+  const sb = getSupabase();
+  const statuses = ['queued', 'pending', 'running', ...(options.includeBlocked ? ['blocked'] : [])];
+  const [limits, { data }] = await Promise.all([
+    loadQueueLimits(),
+    sb.from('task_executions')
+      .select('id, mission_id, agent_id, skill_id, command_name, params, model, context, status, depends_on, task_key, created_at, admitted_at, started_at, attempts, lease_owner')
+      .in('status', statuses),
+  ]);
+  const rows = (data ?? []) as Omit<QueueTask, 'provider' | 'mission_title' | 'priority' | 'deadline' | 'spend_hold'>[];
+
+  const missionIds = [...new Set(rows.map(r => r.mission_id).filter((id): id is string => !!id))];
+  const missions = new Map<string, { title: string; priority: string; deadline: string | null }>();
+  if (missionIds.length > 0) {
+    const { data: missionRows } = await sb.from('missions').select('id, title, priority, deadline').in('id', missionIds);
+    for (const m of (missionRows ?? []) as { id: string; title: string; priority: string; deadline: string | null }[]) {
+      missions.set(m.id, m);
+    }
+  }
+
+  const spendHold = await spendAllocationGuard();
+  const tasks: QueueTask[] = rows.map(r => {
+    const mission = r.mission_id ? missions.get(r.mission_id) : undefined;
+    const held = r.status === 'queued'
+      ? spendHold({
+        agentId: r.agent_id ?? 'ceo',
+        skillId: r.skill_id,
+        context: r.skill_id === 'ceo-direct' ? 'ceo_direct' : 'skill_execution',
+      })
+      : null;
+    return {
+      ...r,
+      agent_id: r.agent_id ?? 'ceo',
+      params: r.params ?? {},
+      context: r.context ?? {},
+      depends_on: r.depends_on ?? [],
+      model: r.model ?? 'Claude Sonnet 4.5',
+      provider: getServiceForModel(r.model ?? 'Claude Sonnet 4.5'),
+      mission_title: mission?.title ?? null,
+      priority: mission?.priority ?? 'medium',
+      deadline: mission?.deadline ?? null,
+      spend_hold: held,
+    };
+  });
+
+  return {
+    limits,
+    queued: tasks.filter(t => t.status === 'queued').sort(compareQueued),
+    inFlight: tasks.filter(t => t.status === 'pending' || t.status === 'running'),
+    blocked: tasks.filter(t => t.status === 'blocked'),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Admission
+// ---------------------------------------------------------------------------
+
+export interface QueueDecision {
+  task: QueueTask;
+  admit: boolean;
+  /** Why the task has to keep waiting (null when admitted) */
+  reason: string | null;
+}
+
+function capped(limit: number, used: number): boolean {
+  return limit > 0 && used >= limit;
+}
+
+/**
+ * Walk the queue head-first and decide which tasks start now. Admitting a task
+ * uses up its slots before the next one is considered, so the result never
+ * overshoots a cap within one drain.
+ */
+export function planAdmissions(snapshot: QueueSnapshot): QueueDecision[] {
+  const { limits } = snapshot;
+  let total = snapshot.inFlight.length;
+  const byAgent = new Map<string, number>();
+  const byProvider = new Map<string, number>();
+  for (const t of snapshot.inFlight) {
+    byAgent.set(t.agent_id, (byAgent.get(t.agent_id) ?? 0) + 1);
+    byProvider.set(t.provider, (byProvider.get(t.provider) ?? 0) + 1);
+  }
+
+  return snapshot.queued.map(task => {
+    const agentUsed = byAgent.get(task.agent_id) ?? 0;
+    const providerUsed = byProvider.get(task.provider) ?? 0;
+    const providerCap = providerLimit(limits, task.provider);
+
+    let reason: string | null = null;
+    if (task.spend_hold) {
+      reason = task.spend_hold;
+    } else if (capped(limits.maxConcurrent, total)) {
+      reason = `All ${limits.maxConcurrent} slots busy`;
+    } else if (capped(limits.perAgent, agentUsed)) {
+      reason = `Agent ${task.agent_id} at its limit (${agentUsed}/${limits.perAgent})`;
+    } else if (capped(providerCap, providerUsed)) {
+      reason = `${task.provider} at its limit (${providerUsed}/${providerCap})`;
+    }
+    if (reason) return { task, admit: false, reason };
+
+    total++;
+    byAgent.set(task.agent_id, agentUsed + 1);
+    byProvider.set(task.provider, providerUsed + 1);
+    return { task, admit: true, reason: null };
+  });
+}
+
+/** True while the budget hard stop is on — queued tasks stay put until it clears */
+export async function isQueueHeld(): Promise<boolean> {
+  const { data } = await getSupabase()
+    .from('scheduler_state')
+    .select('config')
+    .eq('id', 'main')
+    .maybeSingle();
+  return !!(data?.config as Record<string, unknown> | null)?.budget_hard_stop;
+}
+
+// ---------------------------------------------------------------------------
+// Inspector
+// ---------------------------------------------------------------------------
+
+export interface QueueInspection {
+  limits: QueueLimits;
+  held: boolean;
+  running: QueueTask[];
+  /** Queue order; `reason` says what the task is waiting for */
+  waiting: { task: QueueTask; position: number; reason: string }[];
+  blocked: { task: QueueTask; reason: string }[];
+}
+
+/** What the queue inspector shows: in-flight tasks, the queue in order, and why each entry waits */
+export async function inspectTaskQueue(): Promise<QueueInspection> {
+  const [snapshot, held] = await Promise.all([loadQueueSnapshot({ includeBlocked: true }), isQueueHeld()]);
+  const decisions = planAdmissions(snapshot);
+
+  // Upstream labels for graph waiters — the upstream may already be finished and out of the snapshot
+  const upstreamIds = [...new Set(snapshot.blocked.flatMap(t => t.depends_on))];
+  const upstream = new Map<string, { task_key: string | null; skill_id: string; command_name: string; status: string }>();
+  if (upstreamIds.length > 0) {
+    const { data } = await getSupabase()
+      .from('task_executions')
+      .select('id, task_key, skill_id, command_name, status')
+      .in('id', upstreamIds);
+    for (const u of (data ?? []) as { id: string; task_key: string | null; skill_id: string; command_name: string; status: string }[]) {
+      upstream.set(u.id, u);
+    }
+  }
+
+  return {
+    limits: snapshot.limits,
+    held,
+    running: snapshot.inFlight.sort((a, b) => (a.admitted_at ?? a.created_at) < (b.admitted_at ?? b.created_at) ? -1 : 1),
+    waiting: decisions.map((d, i) => ({
+      task: d.task,
+      position: i + 1,
+      reason: held ? 'Budget hard stop — queue on hold' : d.reason ?? 'Starting on the next drain',
+    })),
+    blocked: snapshot.blocked.map(task => {
+      const open = task.depends_on
+        .map(id => upstream.get(id))
+        .filter(u => !u || u.status !== 'completed')
+        .map(u => (u ? u.task_key ?? `${u.skill_id}:${u.command_name}` : 'deleted task'));
+      return { task, reason: open.length > 0 ? `Waiting on ${open.join(', ')}` : 'Inputs ready — releasing' };
+    }),
+  };
+}
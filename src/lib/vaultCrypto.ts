@@ -0,0 +1,386 @@
+/**
+ * Vault Crypto — envelope encryption for Vault secrets
+ * =====================================================
+ * Every vault.key_value is sealed with AES-256-GCM under one random 256-bit
+ * data key. The data key itself is stored only wrapped: encrypted with a key
+ * derived (PBKDF2, see jarvisKey.ts) from the Founder's master password, in
+ * settings.vault_key. Changing what unlocks the Vault never touches the rows.
+ *
+ * Unlocking:
+ *   - Browser — the master password unwraps the data key, which is then held
+ *     for the chosen UnlockDuration, exactly like the marketplace signing key
+ *     ('session' in memory only; day / week / month / forever in localStorage).
+ *   - Sidecar — JARVIS_VAULT_KEY_FILE points at a `.jarvis-vault-key` file
+ *     (exported from the Vault page) holding the data key.
+ *
+ * Each sealed value is bound to its row: the row id and service are the
+ * AES-GCM additional data, so a ciphertext copied into another row (or a row
+ * whose service was changed) fails to open instead of handing its secret to
+ * whoever reads that row. Values sealed before binding (`v1`) are re-sealed on
+ * the first unlock, after which they are refused.
+ *
+ * While the Vault is locked, encrypted rows read back with an empty key_value
+ * and `locked: true`, and writes refuse with VaultLockedError. Rows in
+ * plaintext are sealed once, when encryption is set up. The `encrypted` flag
+ * is only a column anyone with the anon key can write, so after that a
+ * plaintext row is refused like a damaged one — never used, never sealed.
+ */
+
+import { getSupabase } from './supabase';
+import { encryptPrivateKey, decryptPrivateKey, bufferToBase64, base64ToBuffer, type EncryptedBundle } from './jarvisKey';
+import type { UnlockDuration } from './marketplaceClient';
+
+// ---------------------------------------------------------------------------
+// Constants & types
+// ---------------------------------------------------------------------------
+
+/** settings key holding the wrapped data key */
+export const VAULT_KEY_SETTING = 'vault_key';
+
+/** Default filename for the sidecar's key file */
+export const VAULT_KEY_FILE_NAME = '.jarvis-vault-key';
+
+const VAULT_CACHE_KEY = 'jarvis-vault-cache';
+
+/** Sealed values are `v2:<iv>:<ciphertext>` (base64), bound to their row */
+const SEAL_VERSION = 'v2';
+/** Unbound values from before row binding — only the key check still uses it */
+const UNBOUND_VERSION = 'v1';
+
+/** Known plaintext sealed with the data key — verifies a key file before it is trusted */
+const KEY_CHECK = 'jarvis-vault';
+
+/** Re-read a missing key record after this long (another browser may set it up) */
+const KEY_RECORD_RECHECK_MS = 30_000;
+
+interface VaultKeyRecord {
+  wrappedKey: EncryptedBundle;
+  check: string;
+  createdAt: string;
+  /** Every row has been re-sealed bound to its id and service — `v1` values are refused */
+  bound?: boolean;
+}
+
+/** The row a secret belongs to — sealed into it as additional data */
+export interface VaultBinding {
+  id: string;
+  service: string;
+}
+
+export interface VaultKeyFileData {
+  /** Raw 256-bit data key, base64 */
+  vaultKey: string;
+  createdAt: string;
+}
+
+export class VaultLockedError extends Error {
+  constructor(message = 'The Vault is locked — unlock it with the master password first') {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Data key — memory plus optional persistence
+// ---------------------------------------------------------------------------
+
+let dataKey: CryptoKey | null = null;
+let rawDataKey: string | null = null;
+
+async function importDataKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBuffer(raw), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function holdDataKey(raw: string, duration: UnlockDuration): Promise<void> {
+  dataKey = await importDataKey(raw);
+  rawDataKey = raw;
+  if (typeof window === 'undefined') return;
+  if (duration === 'session') {
+    localStorage.removeItem(VAULT_CACHE_KEY);
+    return;
+  }
+  const ttlMs: Record<string, number> = {
+    day:   24 * 60 * 60 * 1000,
+    week:  7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000,
+  };
+  const expiresAt = duration === 'forever' ? null : Date.now() + (ttlMs[duration] ?? ttlMs.day);
+  localStorage.setItem(VAULT_CACHE_KEY, JSON.stringify({ key: raw, expiresAt }));
+}
+
+/** The data key, restoring it from localStorage if an unexpired unlock was persisted */
+async function getDataKey(): Promise<CryptoKey | null> {
+  if (dataKey) return dataKey;
+  if (typeof window === 'undefined') return null;
+  const cached = localStorage.getItem(VAULT_CACHE_KEY);
+  if (!cached) return null;
+  try {
+    const { key, expiresAt } = JSON.parse(cached) as { key: string; expiresAt: number | null };
+    if (expiresAt !== null && Date.now() > expiresAt) {
+      localStorage.removeItem(VAULT_CACHE_KEY);
+      return null;
+    }
+    dataKey = await importDataKey(key);
+    rawDataKey = key;
+    return dataKey;
+  } catch {
+    localStorage.removeItem(VAULT_CACHE_KEY);
+    return null;
+  }
+}
+
+// Once seen, the record is kept for the process: deleting or rewriting the
+// settings row must not make this client take plaintext or unbound rows again
+let keyRecord: { record: VaultKeyRecord | null; at: number } | null = null;
+
+async function loadKeyRecord(): Promise<VaultKeyRecord | null> {
+  if (keyRecord?.record?.bound) return keyRecord.record;
+  if (keyRecord && !keyRecord.record && Date.now() - keyRecord.at < KEY_RECORD_RECHECK_MS) return null;
+  const { data } = await getSupabase().from('settings').select('value').eq('key', VAULT_KEY_SETTING).maybeSingle();
+  let record: VaultKeyRecord | null = null;
+  try {
+    record = data?.value ? JSON.parse(data.value) as VaultKeyRecord : null;
+  } catch {
+    record = null;
+  }
+  if (!record && keyRecord?.record) return keyRecord.record;
+  keyRecord = { record, at: Date.now() };
+  return record;
+}
+
+async function saveKeyRecord(record: VaultKeyRecord): Promise<void> {
+  await getSupabase().from('settings').upsert({ key: VAULT_KEY_SETTING, value: JSON.stringify(record) }, { onConflict: 'key' });
+  keyRecord = { record, at: Date.now() };
+}
+
+// ---------------------------------------------------------------------------
+// Sealing
+// ---------------------------------------------------------------------------
+
+/** Additional data binding a secret to its row — service lower-cased, as lookups ignore case */
+function bindingData(row: VaultBinding): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`vault:${row.id}:${row.service.trim().toLowerCase()}`);
+}
+
+/** Seal bound to `row`; with null, unbound (`v1`) — only the key check is sealed that way */
+async function seal(key: CryptoKey, plaintext: string, row: VaultBinding | null): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const params: AesGcmParams = row ? { name: 'AES-GCM', iv, additionalData: bindingData(row) } : { name: 'AES-GCM', iv };
+  const ciphertext = await crypto.subtle.encrypt(params, key, new TextEncoder().encode(plaintext));
+  return `${row ? SEAL_VERSION : UNBOUND_VERSION}:${bufferToBase64(iv.buffer)}:${bufferToBase64(ciphertext)}`;
+}
+
+async function unseal(key: CryptoKey, sealed: string, row: VaultBinding | null): Promise<string> {
+  const [version, iv, ciphertext] = sealed.split(':');
+  const bound = version === SEAL_VERSION;
+  if ((!bound && version !== UNBOUND_VERSION) || !iv || !ciphertext) throw new Error('Unrecognized vault ciphertext');
+  if (bound && !row) throw new Error('Bound vault ciphertext opened without its row');
+  const params: AesGcmParams = { name: 'AES-GCM', iv: new Uint8Array(base64ToBuffer(iv)) };
+  if (bound) params.additionalData = bindingData(row!);
+  const plaintext = await crypto.subtle.decrypt(params, key, base64ToBuffer(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Prepare a secret for storage in `row`: sealed once Vault encryption is set
+ * up, as-is before that. Throws VaultLockedError if encryption is on but locked.
+ */
+export async function sealSecret(plaintext: string, row: VaultBinding): Promise<{ key_value: string; encrypted: boolean }> {
+  const key = await getDataKey();
+  if (key) return { key_value: await seal(key, plaintext, row), encrypted: true };
+  if (await isVaultEncrypted()) throw new VaultLockedError();
+  return { key_value: plaintext, encrypted: false };
+}
+
+/**
+ * The stored value of `row` in the clear, or null if it is sealed and the
+ * Vault is locked. Throws for a value that can't be trusted: one that won't
+ * open under the data key and row binding, an unbound one once every row has
+ * been bound, or a plaintext one in an encrypted Vault.
+ */
+export async function openSecret(value: string, encrypted: boolean, row: VaultBinding): Promise<string | null> {
+  const key = await getDataKey();
+  if (!encrypted) {
+    if (key || await isVaultEncrypted()) throw new Error('Stored in plaintext in an encrypted Vault — not trusted; save the secret again');
+    return value;
+  }
+  if (!key) return null;
+  if (value.startsWith(`${UNBOUND_VERSION}:`)) {
+    if ((await loadKeyRecord())?.bound) throw new Error('Sealed without its row binding — not trusted; save the secret again');
+    return unseal(key, value, null);
+  }
+  return unseal(key, value, row);
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+/** Whether a master password has been set (secrets are sealed) */
+export async function isVaultEncrypted(): Promise<boolean> {
+  return (await loadKeyRecord()) !== null;
+}
+
+/** Encrypted and not unlocked in this browser / process */
+export async function isVaultLocked(): Promise<boolean> {
+  if (await getDataKey()) return false;
+  return isVaultEncrypted();
+}
+
+/** Human-readable unlock state, mirroring getSigningExpiry() */
+export async function getVaultExpiry(): Promise<{ unlocked: boolean; label: string }> {
+  if (!(await getDataKey())) return { unlocked: false, label: 'LOCKED' };
+  if (typeof window === 'undefined') return { unlocked: true, label: 'KEY FILE' };
+  const cached = localStorage.getItem(VAULT_CACHE_KEY);
+  if (!cached) return { unlocked: true, label: 'THIS SESSION' };
+  try {
+    const { expiresAt } = JSON.parse(cached) as { expiresAt: number | null };
+    if (!expiresAt) return { unlocked: true, label: 'ALWAYS' };
+    const hours = Math.ceil((expiresAt - Date.now()) / (60 * 60 * 1000));
+    if (hours < 24) return { unlocked: true, label: `${hours}h LEFT` };
+    return { unlocked: true, label: `${Math.ceil(hours / 24)}d LEFT` };
+  } catch {
+    return { unlocked: true, label: 'UNLOCKED' };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Setup, unlock, lock
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn encryption on: generate the data key, wrap it with the master
+ * password, and re-encrypt every existing row. Returns the number of rows
+ * encrypted.
+ */
+export async function setupVaultEncryption(masterPassword: string, duration: UnlockDuration): Promise<number> {
+  if (await isVaultEncrypted()) throw new Error('Vault encryption is already set up');
+  const raw = bufferToBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+  const key = await importDataKey(raw);
+  const record: VaultKeyRecord = {
+    wrappedKey: await encryptPrivateKey(raw, masterPassword),
+    check: await seal(key, KEY_CHECK, null),
+    createdAt: new Date().toISOString(),
+    bound: true,
+  };
+  await saveKeyRecord(record);
+  await holdDataKey(raw, duration);
+
+  const count = await encryptPlaintextVaultRows();
+  const { logAudit } = await import('./database');
+  await logAudit('Founder', 'VAULT_ENCRYPTED', `Vault encryption enabled — ${count} secret${count === 1 ? '' : 's'} encrypted`, 'info');
+  return count;
+}
+
+/** Unwrap the data key with the master password. Throws on a wrong password. */
+export async function unlockVault(masterPassword: string, duration: UnlockDuration): Promise<void> {
+  const record = await loadKeyRecord();
+  if (!record) throw new Error('Vault encryption is not set up');
+  let raw: string;
+  try {
+    raw = await decryptPrivateKey(record.wrappedKey, masterPassword);
+  } catch {
+    throw new Error('Wrong master password');
+  }
+  await holdDataKey(raw, duration);
+  await bindVaultRows();
+}
+
+/** Unlock with a key file's data key (sidecar). Returns false if it doesn't match this Vault. */
+export async function unlockVaultWithKeyFile(file: VaultKeyFileData): Promise<boolean> {
+  const record = await loadKeyRecord();
+  if (!record) return false;
+  try {
+    if (await unseal(await importDataKey(file.vaultKey), record.check, null) !== KEY_CHECK) return false;
+  } catch {
+    return false;
+  }
+  await holdDataKey(file.vaultKey, 'forever');
+  await bindVaultRows();
+  return true;
+}
+
+/** Forget the data key (memory and localStorage) */
+export function lockVault(): void {
+  dataKey = null;
+  rawDataKey = null;
+  if (typeof window !== 'undefined') localStorage.removeItem(VAULT_CACHE_KEY);
+}
+
+// ---------------------------------------------------------------------------
+// Sealing existing rows
+// ---------------------------------------------------------------------------
+
+/**
+ * Seal every row still stored in plaintext, at setup only. The data half of
+ * migration 027_vault_encryption: the database never sees the key, so rows
+ * can only be encrypted from an unlocked client. Returns the number sealed.
+ */
+async function encryptPlaintextVaultRows(): Promise<number> {
+  const key = await getDataKey();
+  if (!key) return 0;
+  const sb = getSupabase();
+  const { data } = await sb.from('vault').select('id, service, key_value').eq('encrypted', false);
+  let count = 0;
+  for (const row of (data ?? []) as (VaultBinding & { key_value: string })[]) {
+    const { data: sealed } = await sb.from('vault')
+      .update({ key_value: await seal(key, row.key_value, row), encrypted: true })
+      .eq('id', row.id).eq('encrypted', false)
+      .select('id');
+    if (sealed && sealed.length > 0) count++;
+  }
+  return count;
+}
+
+/**
+ * Re-seal values from before row binding (`v1`) bound to their row, then mark
+ * the key record bound so unbound values are refused from then on. Runs on
+ * unlock until it has once. Returns the number of rows re-sealed.
+ */
+async function bindVaultRows(): Promise<number> {
+  const key = await getDataKey();
+  const record = await loadKeyRecord();
+  if (!key || !record || record.bound) return 0;
+  const sb = getSupabase();
+  const { data } = await sb.from('vault').select('id, service, key_value').eq('encrypted', true).like('key_value', `${UNBOUND_VERSION}:%`);
+  let count = 0;
+  for (const row of (data ?? []) as (VaultBinding & { key_value: string })[]) {
+    let plaintext: string;
+    try {
+      plaintext = await unseal(key, row.key_value, null);
+    } catch {
+      continue; // damaged — reads report it as corrupt
+    }
+    const { data: bound } = await sb.from('vault')
+      .update({ key_value: await seal(key, plaintext, row) })
+      .eq('id', row.id).eq('key_value', row.key_value)
+      .select('id');
+    if (bound && bound.length > 0) count++;
+  }
+  await saveKeyRecord({ ...record, bound: true });
+  const { logAudit } = await import('./database');
+  await logAudit(null, 'VAULT_BOUND', `Vault secrets bound to their entries — ${count} re-sealed`, 'info');
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Key file
+// ---------------------------------------------------------------------------
+
+/** Trigger a browser download of the sidecar key file (the Vault must be unlocked) */
+export async function downloadVaultKeyFile(): Promise<void> {
+  if (!(await getDataKey()) || !rawDataKey) throw new VaultLockedError();
+  const data: VaultKeyFileData = { vaultKey: rawDataKey, createdAt: new Date().toISOString() };
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = VAULT_KEY_FILE_NAME;
+  document.body.appendChild(a);
+  a.click();
+
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
@@ -0,0 +1,365 @@
+/**
+ * Vault Rotation — expiry dates, rotation policies and OAuth refresh
+ * ==================================================================
+ * Each Vault entry may carry:
+ *   - expires_at    — the date the provider stops accepting the key;
+ *   - rotation_days — the Founder's policy: rotate every N days, counted
+ *                     from rotated_at (created_at before the first rotation).
+ * A key is due at whichever comes first.
+ *
+ * OAuth token entries (the service a skill's api_config.vault_service names
+ * when the skill has an oauth_config) are different: their expires_at is the
+ * access token's, and the CEO tick refreshes them with the refresh token
+ * shortly before it passes. A failed refresh is audited and raised as a
+ * 'key_rotation' approval so the Founder can reconnect.
+ *
+ * For every other key the tick raises a 'key_rotation' approval when it is
+ * within ROTATION_WARNING_DAYS of being due, and again once it is past due.
+ *
+ * rotateSecret() is the one way to swap a key: the new value must pass
+ * validateApiKeyFormat and a live call made straight to the provider — not
+ * through the failover policy, which could answer on another service's key —
+ * before it is written.
+ */
+
+import { getSupabase } from './supabase';
+import {
+  loadVaultMetadata, loadSkills, getVaultEntryByService, updateVaultEntry, getEntitiesUsingService,
+  updateApprovalStatus, saveApproval, logAudit, type VaultRow,
+} from './database';
+import { validateApiKeyFormat, MODEL_SERVICE_MAP, MODEL_API_IDS, MODEL_COSTS, LOCAL_SERVICE } from './models';
+import { getDirectProvider } from './llm/registry';
+import { discoverLocalModels } from './llm/providers/openai';
+import { gatewayFetch, GATEWAY_TOKEN_SERVICE } from './gatewayAuth';
+import { isVaultLocked } from './vaultCrypto';
+import type { FullSkillDefinition } from './skillResolver';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rotation policies offered in the Vault (days; 0 = none) */
+export const ROTATION_POLICIES = [0, 30, 60, 90, 180, 365] as const;
+
+/** How far ahead of a due date the Founder is asked to rotate */
+export const ROTATION_WARNING_DAYS = 7;
+
+/** OAuth access tokens are refreshed this long before they expire */
+const OAUTH_REFRESH_WINDOW_MS = 10 * 60 * 1000;
+
+const LIVE_TEST_TIMEOUT_MS = 20_000;
+
+type VaultMeta = Omit<VaultRow, 'key_value'>;
+
+export type SecretHealth = 'ok' | 'due_soon' | 'overdue' | 'expired';
+
+export interface SecretDue {
+  at: Date;
+  reason: 'expiry' | 'rotation';
+}
+
+/** A skill that signs in with OAuth and keeps its tokens under a Vault service */
+export type OAuthSkill = Pick<FullSkillDefinition, 'id' | 'apiConfig' | 'permissions'> & {
+  oauthConfig: Pick<NonNullable<FullSkillDefinition['oauthConfig']>, 'provider' | 'token_url'>;
+};
+
+interface OAuthTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_at?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Due dates
+// ---------------------------------------------------------------------------
+
+/** When the key next needs replacing, and why — null when it has neither an expiry nor a policy */
+export function secretDue(row: Pick<VaultMeta, 'expires_at' | 'rotation_days' | 'rotated_at' | 'created_at'>): SecretDue | null {
+  const candidates: SecretDue[] = [];
+  if (row.expires_at) candidates.push({ at: new Date(row.expires_at), reason: 'expiry' });
+  if (row.rotation_days && row.rotation_days > 0) {
+    const from = new Date(row.rotated_at ?? row.created_at).getTime();
+    candidates.push({ at: new Date(from + row.rotation_days * DAY_MS), reason: 'rotation' });
+  }
+  return candidates.sort((a, b) => a.at.getTime() - b.at.getTime())[0] ?? null;
+}
+
+export function secretHealth(row: Pick<VaultMeta, 'expires_at' | 'rotation_days' | 'rotated_at' | 'created_at'>, now: Date = new Date()): SecretHealth {
+  const due = secretDue(row);
+  if (!due) return 'ok';
+  const left = due.at.getTime() - now.getTime();
+  if (left <= 0) return due.reason === 'expiry' ? 'expired' : 'overdue';
+  return left <= ROTATION_WARNING_DAYS * DAY_MS ? 'due_soon' : 'ok';
+}
+
+// ---------------------------------------------------------------------------
+// Live key test + rotation
+// ---------------------------------------------------------------------------
+
+export interface KeyTestResult {
+  ok: boolean;
+  /** False when only the format could be checked */
+  live: boolean;
+  message: string;
+}
+
+/** The cheapest model served by a service — what a key test runs on */
+function cheapestModel(service: string): string | null {
+  const models = Object.entries(MODEL_SERVICE_MAP)
+    .filter(([, svc]) => svc === service)
+    .map(([model]) => model)
+    .sort((a, b) => (MODEL_COSTS[a]?.[0] ?? 0) + (MODEL_COSTS[a]?.[1] ?? 0) - (MODEL_COSTS[b]?.[0] ?? 0) - (MODEL_COSTS[b]?.[1] ?? 0));
+  return models[0] ?? null;
+}
+
+/**
+ * Check a key before it is stored: its format, then a one-line call to the
+ * provider (aborted at the first token). Services without a provider can
+ * only be format-checked — `live` says which happened.
+ */
+export async function testSecret(service: string, key: string): Promise<KeyTestResult> {
+  const format = validateApiKeyFormat(service, key);
+  if (!format.valid) return { ok: false, live: false, message: format.message || 'Empty key' };
+
+  if (service === LOCAL_SERVICE) {
+    try {
+      const ids = await discoverLocalModels(key);
+      return { ok: true, live: true, message: `Local server answered with ${ids.length} model${ids.length === 1 ? '' : 's'}` };
+    } catch (err) {
+      return { ok: false, live: true, message: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  const provider = getDirectProvider(service);
+  const model = cheapestModel(service);
+  if (!provider || !model) return { ok: true, live: false, message: 'Format OK — no live test for this service' };
+
+  return new Promise<KeyTestResult>(resolve => {
+    let settled = false;
+    let controller: AbortController | null = null;
+    const timer = setTimeout(() => finish({ ok: false, live: true, message: `${service} did not answer within ${LIVE_TEST_TIMEOUT_MS / 1000}s` }), LIVE_TEST_TIMEOUT_MS);
+    const finish = (result: KeyTestResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      controller?.abort();
+      resolve(result);
+    };
+    const passed = { ok: true, live: true, message: `${model} answered` };
+    controller = provider.stream([{ role: 'user', content: 'Reply with OK.' }], key.trim(), MODEL_API_IDS[model] ?? model, {
+      onToken: () => finish(passed),
+      onDone: () => finish(passed),
+      onError: (err) => finish({ ok: false, live: true, message: err.message }),
+    });
+    if (settled) controller.abort();
+  });
+}
+
+/**
+ * Swap in a new key after testSecret passes. The rotation clock restarts,
+ * `expiresAt` (when given) replaces the old expiry, and any pending
+ * 'key_rotation' approvals for the entry are closed.
+ */
+export async function rotateSecret(entryId: string, newKey: string, expiresAt?: string | null): Promise<KeyTestResult> {
+  const { data } = await getSupabase().from('vault').select('id, name, service').eq('id', entryId).maybeSingle();
+  const entry = data as Pick<VaultRow, 'id' | 'name' | 'service'> | null;
+  if (!entry) return { ok: false, live: false, message: 'Vault entry not found' };
+  // A gateway token's entry id is derived from the token, so a new token needs a new entry
+  if (entry.service === GATEWAY_TOKEN_SERVICE) {
+    return { ok: false, live: false, message: 'Gateway tokens are not rotated in place — mint a new token, then delete this entry' };
+  }
+
+  const result = await testSecret(entry.service, newKey);
+  if (!result.ok) {
+    await logAudit(null, 'KEY_ROTATION_FAILED', `New key for "${entry.name}" rejected — ${result.message}`, 'warning');
+    return result;
+  }
+
+  await updateVaultEntry(entry.id, {
+    key_value: newKey.trim(),
+    rotated_at: new Date().toISOString(),
+    ...(expiresAt !== undefined ? { expires_at: expiresAt } : {}),
+  });
+  await logAudit(null, 'KEY_ROTATED', `Rotated "${entry.name}" (${entry.service}) — ${result.message}`, 'info');
+  await closeRotationApprovals(entry.id);
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('vault-changed'));
+  return result;
+}
+
+async function closeRotationApprovals(entryId: string): Promise<void> {
+  const { data } = await getSupabase()
+    .from('approvals')
+    .select('id, metadata')
+    .eq('type', 'key_rotation')
+    .eq('status', 'pending');
+  for (const row of (data ?? []) as { id: string; metadata: Record<string, unknown> | null }[]) {
+    if (row.metadata?.vault_id === entryId) await updateApprovalStatus(row.id, 'approved', { via: 'Vault' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OAuth refresh
+// ---------------------------------------------------------------------------
+
+/** Enabled skills that keep OAuth tokens in the Vault, keyed by lower-cased service */
+async function oauthSkillsByService(): Promise<Map<string, OAuthSkill>> {
+  const skills = new Map<string, OAuthSkill>();
+  for (const row of await loadSkills()) {
+    const def = row.definition ?? {};
+    const oauthConfig = def.oauth_config as OAuthSkill['oauthConfig'] | undefined;
+    const apiConfig = def.api_config as OAuthSkill['apiConfig'];
+    if (!row.enabled || !oauthConfig || !apiConfig?.vault_service) continue;
+    skills.set(apiConfig.vault_service.toLowerCase(), {
+      id: row.id,
+      apiConfig,
+      oauthConfig,
+      permissions: Array.isArray(def.permissions) ? def.permissions as string[] : undefined,
+    });
+  }
+  return skills;
+}
+
+/** POST a refresh grant — through the app's token proxy in the browser, straight to the provider elsewhere */
+async function exchangeRefreshToken(body: Record<string, string>, tokenUrl: string): Promise<Response> {
+  if (typeof window !== 'undefined') {
+    return gatewayFetch('/api/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, token_url: tokenUrl }),
+    });
+  }
+  return fetch(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(body).toString(),
+  });
+}
+
+/**
+ * Refresh a skill's OAuth access token and store the new pair (providers
+ * that rotate refresh tokens return a new one, which replaces the old).
+ * Pass `tokens` when the caller has already read them. Failures alert the
+ * Founder; the error is returned for the caller to surface.
+ */
+export async function refreshOAuthSecret(skill: OAuthSkill, tokens?: OAuthTokens): Promise<{ accessToken: string; error?: string }> {
+  const service = skill.apiConfig?.vault_service;
+  if (!service) return { accessToken: '', error: 'Skill has no OAuth token service' };
+
+  const entry = await getVaultEntryByService(service, { context: 'skill_credential', skill });
+  if (!tokens && entry) {
+    try { tokens = JSON.parse(entry.key_value) as OAuthTokens; } catch { /* not a token pair */ }
+  }
+  if (!entry || !tokens?.refresh_token) {
+    const error = entry ? 'No refresh token stored — reconnect the account' : `No ${service} token in the vault`;
+    if (entry) await alertOAuthFailure(entry, skill, error);
+    return { accessToken: '', error };
+  }
+
+  const clientEntry = await getVaultEntryByService(`${skill.oauthConfig.provider} OAuth Client`, { context: 'skill_credential', skill });
+  if (!clientEntry) return { accessToken: '', error: 'No OAuth client credentials found in vault' };
+
+  let error: string;
+  try {
+    const client = JSON.parse(clientEntry.key_value) as { client_id: string; client_secret: string };
+    const resp = await exchangeRefreshToken({
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refresh_token,
+      client_id: client.client_id,
+      client_secret: client.client_secret,
+    }, skill.oauthConfig.token_url || 'https://oauth2.googleapis.com/token');
+    if (resp.ok) {
+      const refreshed = await resp.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+      const expiresAt = Date.now() + (refreshed.expires_in ?? 3600) * 1000;
+      await updateVaultEntry(entry.id, {
+        key_value: JSON.stringify({
+          access_token: refreshed.access_token,
+          refresh_token: refreshed.refresh_token ?? tokens.refresh_token,
+          expires_at: expiresAt,
+        }),
+        expires_at: new Date(expiresAt).toISOString(),
+        ...(refreshed.refresh_token && refreshed.refresh_token !== tokens.refresh_token ? { rotated_at: new Date().toISOString() } : {}),
+      });
+      return { accessToken: refreshed.access_token };
+    }
+    error = `Token refresh failed: ${resp.status}`;
+  } catch (err) {
+    error = `Token refresh failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  await alertOAuthFailure(entry, skill, error);
+  return { accessToken: '', error };
+}
+
+/** Audit the failure and ask the Founder to reconnect — at most one approval per entry per day */
+async function alertOAuthFailure(entry: Pick<VaultRow, 'id' | 'name' | 'service'>, skill: OAuthSkill, error: string): Promise<void> {
+  await logAudit(null, 'OAUTH_REFRESH_FAILED', `"${entry.name}" for skill ${skill.id} — ${error}`, 'error');
+  const approvalId = `approval-oauth-${entry.id}-${new Date().toISOString().slice(0, 10)}`;
+  const { data: existing } = await getSupabase().from('approvals').select('id').eq('id', approvalId).maybeSingle();
+  if (existing) return;
+  await saveApproval({
+    id: approvalId,
+    type: 'key_rotation',
+    title: `OAuth sign-in failing: ${entry.name}`,
+    description: `The ${skill.oauthConfig.provider} token for ${skill.id} could not be refreshed (${error}). Reconnect the account from Skills to keep the skill working.`,
+    status: 'pending',
+    metadata: { vault_id: entry.id, service: entry.service, name: entry.name, reason: 'oauth_refresh_failed', skill_id: skill.id, error },
+  });
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event('approvals-changed'));
+}
+
+// ---------------------------------------------------------------------------
+// CEO tick
+// ---------------------------------------------------------------------------
+
+/**
+ * Refresh OAuth tokens about to expire (once the Vault is unlocked), and ask
+ * the Founder to rotate keys that are due soon or past due. Approvals are keyed by entry, stage and due
+ * date, so each is raised once — a rotation moves the date and re-arms it.
+ * Returns the number of approvals raised.
+ */
+export async function checkSecretRotation(now: Date = new Date()): Promise<number> {
+  const [entries, oauthSkills, locked] = await Promise.all([loadVaultMetadata(), oauthSkillsByService(), isVaultLocked()]);
+  const sb = getSupabase();
+  let raised = 0;
+
+  for (const entry of entries) {
+    const oauthSkill = oauthSkills.get(entry.service.toLowerCase());
+    if (oauthSkill) {
+      // Refreshing reads the tokens — it waits for the Vault to be unlocked
+      if (!locked && entry.expires_at && new Date(entry.expires_at).getTime() - now.getTime() <= OAUTH_REFRESH_WINDOW_MS) {
+        await refreshOAuthSecret(oauthSkill);
+      }
+      continue;
+    }
+
+    const due = secretDue(entry);
+    if (!due) continue;
+    const left = due.at.getTime() - now.getTime();
+    if (left > ROTATION_WARNING_DAYS * DAY_MS) continue;
+
+    const past = left <= 0;
+    const approvalId = `approval-key-${entry.id}-${past ? 'past' : 'soon'}-${due.at.toISOString().slice(0, 10)}`;
+    const { data: existing } = await sb.from('approvals').select('id').eq('id', approvalId).maybeSingle();
+    if (existing) continue;
+
+    const dependents = await getEntitiesUsingService(entry.service, entry.scope);
+    const when = due.at.toLocaleDateString();
+    const title = due.reason === 'expiry'
+      ? `${past ? 'Key expired' : 'Key expiring'}: ${entry.name}`
+      : `${past ? 'Rotation overdue' : 'Rotation due'}: ${entry.name}`;
+    const impact = dependents.length > 0
+      ? ` ${dependents.length} ${dependents.length === 1 ? 'thing depends' : 'things depend'} on it: ${dependents.map(d => d.name).join(', ')}.`
+      : '';
+    await saveApproval({
+      id: approvalId,
+      type: 'key_rotation',
+      title,
+      description: `${entry.service} key ${due.reason === 'expiry' ? (past ? 'expired' : 'expires') : (past ? 'was due for rotation' : 'is due for rotation')} ${when}.${impact} Paste a replacement to test and rotate it.`,
+      status: 'pending',
+      metadata: { vault_id: entry.id, service: entry.service, name: entry.name, reason: due.reason, due_at: due.at.toISOString() },
+    });
+    await logAudit('CEO', 'KEY_EXPIRING', `${title} (${entry.service}, due ${due.at.toISOString()})`, 'warning');
+    raised++;
+  }
+
+  if (raised > 0 && typeof window !== 'undefined') window.dispatchEvent(new Event('approvals-changed'));
+  return raised;
+}
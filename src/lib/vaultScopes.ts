@@ -0,0 +1,112 @@
+/**
+ * Vault Scopes — which skills, agents and contexts may use a secret
+ * ==================================================================
+ * Every runtime read of a secret goes through getVaultEntryByService(service,
+ * access), naming the context it is read for (and the skill / agent it is
+ * read on behalf of). The entry's scope decides:
+ *   - contexts — if listed, the read's context must be one of them;
+ *   - skills   — if listed, reads made for a skill must be for one of them;
+ *   - agents   — if listed, reads made for an agent must be for one of them.
+ * An empty list (or no scope at all) leaves that dimension open. Reads that
+ * carry no skill or agent are governed by the contexts list alone.
+ *
+ * A skill's own credential (context 'skill_credential') must also be declared
+ * by the skill: its api_config.vault_service, its OAuth client, or a
+ * `vault:<service>` entry in its permissions.
+ *
+ * Granted reads are logged to audit_log as SECRET_READ, refused ones as
+ * SECRET_DENIED, and reads that find the Vault locked as SECRET_LOCKED; all
+ * carry the entry id in brackets so the Vault can show a per-secret history.
+ * loadVaultEntriesByService applies the same checks to every entry it returns.
+ */
+
+import type { FullSkillDefinition } from './skillResolver';
+
+export const VAULT_CONTEXTS = [
+  'ceo_chat', 'agent_chat', 'skill_execution', 'skill_credential', 'ceo_direct', 'ceo_decision',
+  'mission_review', 'memory', 'embeddings', 'image_generation', 'llm_failover', 'forum',
+  'marketplace', 'local_models', 'api_auth', 'oauth_setup', 'webhook_signing',
+] as const;
+
+export type VaultContext = typeof VAULT_CONTEXTS[number];
+
+export const VAULT_CONTEXT_LABELS: Record<VaultContext, string> = {
+  ceo_chat: 'CEO chat',
+  agent_chat: 'Agent chat',
+  skill_execution: 'Skill LLM calls',
+  skill_credential: 'Skill credentials',
+  ceo_direct: 'CEO-direct tasks',
+  ceo_decision: 'CEO decisions',
+  mission_review: 'Mission summaries & scoring',
+  memory: 'Memory',
+  embeddings: 'Embeddings',
+  image_generation: 'Image generation',
+  llm_failover: 'LLM failover',
+  forum: 'Forum',
+  marketplace: 'Marketplace',
+  local_models: 'Local model discovery',
+  api_auth: 'Sidecar API sign-in',
+  oauth_setup: 'OAuth setup',
+  webhook_signing: 'Webhook signing',
+};
+
+export interface VaultScope {
+  skills: string[];
+  agents: string[];
+  contexts: VaultContext[];
+}
+
+/** The parts of a skill definition that declare which Vault services it needs */
+export type VaultSkillDeclaration = Partial<Pick<FullSkillDefinition, 'permissions' | 'apiConfig'>> & {
+  oauthConfig?: Pick<NonNullable<FullSkillDefinition['oauthConfig']>, 'provider'>;
+};
+
+export type VaultSkillRef = Pick<FullSkillDefinition, 'id'> & VaultSkillDeclaration;
+
+export interface VaultAccess {
+  context: VaultContext;
+  /** Skill the secret is read for */
+  skill?: VaultSkillRef;
+  /** Agent the secret is read for */
+  agentId?: string | null;
+}
+
+/** Whether a scope restricts anything */
+export function isScoped(scope: VaultScope | null | undefined): scope is VaultScope {
+  return !!scope && (scope.skills.length > 0 || scope.agents.length > 0 || scope.contexts.length > 0);
+}
+
+/** Does the skill declare this Vault service as one of its credentials? */
+export function skillDeclaresService(skill: VaultSkillDeclaration, service: string): boolean {
+  const want = service.toLowerCase();
+  if (skill.apiConfig?.vault_service?.toLowerCase() === want) return true;
+  if (skill.oauthConfig?.provider && `${skill.oauthConfig.provider} OAuth Client`.toLowerCase() === want) return true;
+  return (skill.permissions ?? []).some(p => p.toLowerCase() === `vault:${want}`);
+}
+
+/** Why this read is refused, or null if the scope allows it */
+export function scopeDenial(scope: VaultScope | null | undefined, service: string, access: VaultAccess): string | null {
+  if (access.context === 'skill_credential' && access.skill && !skillDeclaresService(access.skill, service)) {
+    return `skill ${access.skill.id} does not declare ${service}`;
+  }
+  if (!isScoped(scope)) return null;
+  if (scope.contexts.length > 0 && !scope.contexts.includes(access.context)) {
+    return `context ${access.context} is not allowed`;
+  }
+  if (access.skill && scope.skills.length > 0 && !scope.skills.includes(access.skill.id)) {
+    return `skill ${access.skill.id} is not allowed`;
+  }
+  if (access.agentId && scope.agents.length > 0 && !scope.agents.includes(access.agentId)) {
+    return `agent ${access.agentId} is not allowed`;
+  }
+  return null;
+}
+
+/** One line for the audit log: context, then who it was read for */
+export function describeAccess(access: VaultAccess): string {
+  return [
+    access.context,
+    access.skill ? `skill ${access.skill.id}` : null,
+    access.agentId ? `agent ${access.agentId}` : null,
+  ].filter(Boolean).join(' · ');
+}
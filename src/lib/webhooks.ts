@@ -0,0 +1,379 @@
+/**
+ * Webhooks — signed outbound events for external systems
+ * =======================================================
+ * A `webhook` row in notification_channels holds { url, secret_id, events[] }.
+ * The signing secret itself is a Vault entry (service `Jarvis Webhooks`, id
+ * `vault-webhook-<channel id>`) that secret_id points at, read by the sidecar
+ * under the 'webhook_signing' context when it sends — one SECRET_READ per
+ * channel per delivery batch.
+ * emitWebhookEvent() fans an event out to every enabled channel subscribed to
+ * it by inserting webhook_deliveries rows; processWebhookDeliveries() (run by
+ * the sidecar — browsers can't POST cross-origin with custom headers) sends
+ * them and retries failures with exponential backoff.
+ *
+ * The same queue carries Slack / Discord / Telegram messages: rows for those
+ * channel types are handed to their adapter (see ./channels) instead of being
+ * signed and POSTed here, so every outbound channel shares the retry policy
+ * and the Audit view's delivery history.
+ *
+ * Each request carries:
+ *   X-Jarvis-Event      event name, e.g. "mission.completed"
+ *   X-Jarvis-Delivery   delivery ID (stable across retries — dedupe on it)
+ *   X-Jarvis-Timestamp  unix seconds at send time
+ *   X-Jarvis-Signature  "sha256=" + hex HMAC-SHA256(secret, `${timestamp}.${body}`)
+ */
+
+import { getSupabase } from './supabase';
+import { logAudit, saveVaultEntry, getVaultEntryById, type ChannelRow } from './database';
+import { isVaultLocked } from './vaultCrypto';
+import type { VaultAccess } from './vaultScopes';
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+export type WebhookEvent =
+  | 'mission.completed'
+  | 'mission.review'
+  | 'approval.created'
+  | 'budget.threshold'
+  | 'agent.hired'
+  | 'agent.fired'
+  | 'skill.failed'
+  | 'webhook.test';
+
+export const WEBHOOK_EVENTS: { id: Exclude<WebhookEvent, 'webhook.test'>; label: string }[] = [
+  { id: 'mission.completed', label: 'Mission completed' },
+  { id: 'mission.review',    label: 'Mission needs review' },
+  { id: 'approval.created',  label: 'Approval created' },
+  { id: 'budget.threshold',  label: 'Budget threshold reached' },
+  { id: 'agent.hired',       label: 'Agent hired' },
+  { id: 'agent.fired',       label: 'Agent fired' },
+  { id: 'skill.failed',      label: 'Skill failure' },
+];
+
+export interface WebhookConfig {
+  url: string;
+  /** Vault entry holding the signing secret; null until one is saved */
+  secret_id: string | null;
+  /** Subscribed events; empty = all */
+  events: WebhookEvent[];
+}
+
+export const WEBHOOK_SECRET_SERVICE = 'Jarvis Webhooks';
+
+const SECRET_ACCESS: VaultAccess = { context: 'webhook_signing' };
+
+export function webhookConfig(channel: ChannelRow): WebhookConfig {
+  const cfg = (channel.config ?? {}) as Partial<WebhookConfig>;
+  return { url: cfg.url ?? '', secret_id: cfg.secret_id ?? null, events: cfg.events ?? [] };
+}
+
+export function webhookSecretEntryId(channelId: string): string {
+  return `vault-webhook-${channelId}`;
+}
+
+/**
+ * Store a channel's signing secret in the Vault and return the entry id for
+ * its config. Throws VaultLockedError while the Vault is locked.
+ */
+export async function saveWebhookSecret(channelId: string, url: string, secret: string): Promise<string> {
+  const id = webhookSecretEntryId(channelId);
+  let host = url;
+  try { host = new URL(url).host; } catch { /* keep as typed */ }
+  await saveVaultEntry({ id, name: `Webhook ${host}`, type: 'secret', service: WEBHOOK_SECRET_SERVICE, key_value: secret });
+  return id;
+}
+
+/**
+ * Move signing secrets that channels still carry in plaintext config (saved
+ * before they went to the Vault) into Vault entries. Skipped while the Vault
+ * is locked. Returns how many were moved.
+ */
+export async function moveWebhookSecretsToVault(): Promise<number> {
+  if (await isVaultLocked()) return 0;
+  const sb = getSupabase();
+  const { data } = await sb.from('notification_channels').select('*').eq('type', 'webhook');
+  let moved = 0;
+  for (const channel of (data ?? []) as ChannelRow[]) {
+    const { secret, ...config } = (channel.config ?? {}) as Record<string, unknown>;
+    if (typeof secret !== 'string') continue;
+    const secretId = secret ? await saveWebhookSecret(channel.id, String(config.url ?? ''), secret) : config.secret_id ?? null;
+    await sb.from('notification_channels').update({ config: { ...config, secret_id: secretId } }).eq('id', channel.id);
+    moved++;
+  }
+  if (moved > 0) {
+    await logAudit(null, 'WEBHOOK_SECRETS_MOVED', `Moved ${moved} webhook signing secret(s) from channel config into the Vault`, 'info');
+  }
+  return moved;
+}
+
+/** 256-bit signing secret, hex-encoded */
+export function generateWebhookSecret(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return 'whsec_' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Enqueue
+// ---------------------------------------------------------------------------
+
+export interface WebhookDeliveryRow {
+  id: string;
+  channel_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivering' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+async function loadWebhookChannels(): Promise<ChannelRow[]> {
+  const { data } = await getSupabase()
+    .from('notification_channels')
+    .select('*')
+    .eq('type', 'webhook')
+    .eq('enabled', true);
+  return (data ?? []) as ChannelRow[];
+}
+
+/** Insert one pending delivery per channel. Event names are free-form for non-webhook channels. */
+export async function enqueueDeliveries(channels: ChannelRow[], event: string, data: Record<string, unknown>): Promise<number> {
+  if (channels.length === 0) return 0;
+  const now = new Date().toISOString();
+  const rows = channels.map(ch => {
+    const id = `whd-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    return {
+      id,
+      channel_id: ch.id,
+      event,
+      payload: { id, event, created_at: now, data },
+      status: 'pending',
+      next_attempt_at: now,
+    };
+  });
+  const { error } = await getSupabase().from('webhook_deliveries').insert(rows);
+  if (error) throw new Error(error.message);
+  return rows.length;
+}
+
+/**
+ * Queue an event for every enabled webhook channel subscribed to it.
+ * Never throws — notification failures must not break the caller's flow.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  try {
+    const channels = (await loadWebhookChannels()).filter(ch => {
+      const { url, events } = webhookConfig(ch);
+      return !!url && (events.length === 0 || events.includes(event));
+    });
+    await enqueueDeliveries(channels, event, data);
+  } catch (err) {
+    console.warn(`[Webhooks] Failed to queue ${event}:`, err);
+  }
+}
+
+/** Emit mission.completed / mission.review for a status transition */
+export async function notifyMissionStatus(missionId: string, status: string): Promise<void> {
+  const event: WebhookEvent | null = status === 'done' ? 'mission.completed' : status === 'review' ? 'mission.review' : null;
+  if (!event) return;
+  const { data: mission } = await getSupabase()
+    .from('missions')
+    .select('id, title, status, assignee, priority, recurring')
+    .eq('id', missionId)
+    .maybeSingle();
+  await emitWebhookEvent(event, { mission: mission ?? { id: missionId, status } });
+}
+
+/** Queue a test ping for one channel, regardless of its event filter */
+export async function sendTestWebhook(channel: ChannelRow): Promise<void> {
+  await enqueueDeliveries([channel], 'webhook.test', { message: 'Test delivery from Jarvis Inc' });
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 30_000;
+const MAX_DELAY_MS = 60 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** A claimed delivery not finished by then (crashed sidecar) becomes due again */
+const CLAIM_TIMEOUT_MS = 2 * 60_000;
+const RETRYABLE_STATUS = new Set([408, 425, 429]);
+
+/** 30s, 2m, 8m, 32m, then hourly */
+function retryDelayMs(attempt: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 4 ** (attempt - 1));
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, enc.encode(`${timestamp}.${body}`));
+  return 'sha256=' + Array.from(new Uint8Array(sig), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Outcome of one send attempt — shared with the channel adapters */
+export interface DeliveryResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  retryable: boolean;
+}
+
+/** Classify an HTTP response the way the retry policy expects */
+export async function httpDeliveryResult(res: Response): Promise<DeliveryResult> {
+  if (res.ok) return { ok: true, status: res.status, error: null, retryable: false };
+  const text = await res.text().catch(() => '');
+  return {
+    ok: false,
+    status: res.status,
+    error: `HTTP ${res.status}: ${text.slice(0, 200) || res.statusText}`,
+    retryable: res.status >= 500 || RETRYABLE_STATUS.has(res.status),
+  };
+}
+
+async function send(delivery: WebhookDeliveryRow, config: WebhookConfig, secret: string): Promise<DeliveryResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'JarvisInc-Webhooks/1.0',
+        'X-Jarvis-Event': delivery.event,
+        'X-Jarvis-Delivery': delivery.id,
+        'X-Jarvis-Timestamp': String(timestamp),
+        'X-Jarvis-Signature': await signWebhookPayload(secret, timestamp, body),
+      },
+      body,
+      signal: controller.signal,
+    });
+    return await httpDeliveryResult(res);
+  } catch (err) {
+    const message = controller.signal.aborted ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : (err instanceof Error ? err.message : String(err));
+    return { ok: false, status: null, error: message, retryable: true };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The channel's signing secret — null if it has none, or the Vault won't give it */
+async function signingSecret(config: WebhookConfig): Promise<string | null> {
+  if (!config.secret_id) return null;
+  const entry = await getVaultEntryById(config.secret_id, WEBHOOK_SECRET_SERVICE, SECRET_ACCESS);
+  return entry?.key_value || null;
+}
+
+async function deliver(
+  delivery: WebhookDeliveryRow,
+  channel: ChannelRow | undefined,
+  secrets: Map<string, Promise<string | null>>,
+): Promise<void> {
+  const sb = getSupabase();
+  const attempt = delivery.attempts + 1;
+
+  // Claim: bump attempts under an optimistic lock so two sidecars never double-send
+  const { data: claimed } = await sb
+    .from('webhook_deliveries')
+    .update({ status: 'delivering', attempts: attempt, next_attempt_at: new Date(Date.now() + CLAIM_TIMEOUT_MS).toISOString() })
+    .eq('id', delivery.id)
+    .eq('attempts', delivery.attempts)
+    .select('id');
+  if (!claimed || claimed.length === 0) return;
+
+  const config = channel?.type === 'webhook' ? webhookConfig(channel) : null;
+  let result: DeliveryResult;
+  if (channel && channel.type !== 'webhook') {
+    // Slack / Discord / Telegram — dynamic import avoids a channels ↔ webhooks cycle
+    const { deliverChannelMessage } = await import('./channels/registry');
+    result = await deliverChannelMessage(channel, delivery);
+  } else if (!config?.url) {
+    result = { ok: false, status: null, error: 'Channel disabled or missing a URL', retryable: false };
+  } else {
+    if (!secrets.has(delivery.channel_id)) secrets.set(delivery.channel_id, signingSecret(config));
+    const secret = await secrets.get(delivery.channel_id);
+    // A locked Vault opens again; a missing or refused secret needs the Founder
+    result = secret
+      ? await send(delivery, config, secret)
+      : { ok: false, status: null, error: 'Signing secret unavailable — unlock the Vault or re-save the webhook', retryable: await isVaultLocked() };
+  }
+
+  if (result.ok) {
+    await sb.from('webhook_deliveries').update({
+      status: 'delivered',
+      response_status: result.status,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+    }).eq('id', delivery.id);
+    return;
+  }
+
+  const giveUp = !result.retryable || attempt >= MAX_ATTEMPTS;
+  await sb.from('webhook_deliveries').update({
+    status: giveUp ? 'failed' : 'pending',
+    response_status: result.status,
+    last_error: result.error,
+    next_attempt_at: new Date(Date.now() + (giveUp ? 0 : retryDelayMs(attempt))).toISOString(),
+  }).eq('id', delivery.id);
+
+  if (giveUp) {
+    await logAudit(null, 'WEBHOOK_FAILED',
+      `${delivery.event} → ${config?.url || channel?.type || delivery.channel_id} failed after ${attempt} attempt(s): ${result.error}`,
+      'error');
+  }
+}
+
+/** Send every due delivery (new or awaiting retry). Returns the number attempted. */
+export async function processWebhookDeliveries(limit = 20): Promise<number> {
+  const { data, error } = await getSupabase()
+    .from('webhook_deliveries')
+    .select('*')
+    .in('status', ['pending', 'delivering'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(limit);
+  if (error || !data || data.length === 0) return 0;
+
+  const { data: channels } = await getSupabase()
+    .from('notification_channels')
+    .select('*')
+    .in('id', [...new Set(data.map(d => d.channel_id as string))])
+    .eq('enabled', true);
+  const byId = new Map(((channels ?? []) as ChannelRow[]).map(ch => [ch.id, ch]));
+
+  const secrets = new Map<string, Promise<string | null>>();
+  for (const delivery of data as WebhookDeliveryRow[]) {
+    await deliver(delivery, byId.get(delivery.channel_id), secrets);
+  }
+  return data.length;
+}
+
+/** Put a failed delivery back in the queue with a fresh attempt budget */
+export async function retryWebhookDelivery(id: string): Promise<void> {
+  await getSupabase().from('webhook_deliveries').update({
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+  }).eq('id', id);
+}
+
+export async function loadWebhookDeliveries(limit = 100, since?: string | null): Promise<WebhookDeliveryRow[]> {
+  let query = getSupabase()
+    .from('webhook_deliveries')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (since) query = query.gte('created_at', since);
+  const { data } = await query;
+  return (data ?? []) as WebhookDeliveryRow[];
+}
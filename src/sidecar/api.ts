@@ -0,0 +1,410 @@
+/**
+ * Headless REST API — Sidecar
+ * ============================
+ * Lets CI pipelines and other external systems drive Jarvis without a
+ * browser: file missions, resolve approvals, chat with the CEO (streamed as
+ * Server-Sent Events) and poll missions / audit log for results.
+ *
+ * Auth: `Authorization: Bearer <token>` where the token is a Vault entry under
+ * the "Jarvis API" service (see lib/apiTokens). The entries are re-read on every
+ * request, so revoking one in the Vault takes effect immediately; a token is
+ * checked against its cached hash, so checks don't fill the audit log. Like the
+ * gateway, an address is locked out for a minute after 10 failed
+ * authentications, and each token gets a per-minute request budget.
+ *
+ * Routes (all JSON unless noted):
+ *   GET  /api/health                 — liveness, no auth
+ *   GET  /api/missions[?status=]     — loadMissions
+ *   GET  /api/missions/:id           — one mission + its task executions
+ *   GET  /api/approvals              — pending approvals
+ *   POST /api/approvals/:id          — { status: approved | denied | dismissed }
+ *   GET  /api/audit[?limit=]         — loadAuditLog
+ *   POST /api/actions/:name          — { args?, conversation_id? } → handleManagementAction
+ *   POST /api/chat                   — { message, conversation_id? } → text/event-stream
+ *   POST /api/channels/:id/interactions — Slack / Discord button clicks. No bearer
+ *                                      token: each platform signs its requests and the
+ *                                      channel adapter verifies the signature.
+ *
+ * Config: SIDECAR_API_PORT (default 3100, 0 disables), SIDECAR_API_HOST (default 0.0.0.0),
+ * SIDECAR_API_RATE_LIMIT (requests per minute per token, default 120).
+ */
+
+import http from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { getSupabase } from '../lib/supabase';
+import { streamCEOResponse } from '../lib/llm/chatService';
+import { replyToolCalls } from '../lib/taskDispatcher';
+import { describeToolCalls } from '../lib/llm/tools';
+import { handleManagementAction, MANAGEMENT_ACTIONS } from '../lib/managementActions';
+import { hashApiToken, loadApiTokenHashes, type ApiToken } from '../lib/apiTokens';
+import { getChannelAdapter } from '../lib/channels/registry';
+import {
+  loadMissions,
+  loadTaskExecutions,
+  loadApprovals,
+  updateApprovalStatus,
+  loadAuditLog,
+  saveChatMessage,
+  saveConversation,
+  getConversation,
+  loadChatMessages,
+  logAudit,
+} from '../lib/database';
+import type { ChannelRow, ChatMessageRow } from '../lib/database';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const API_PORT = parseInt(process.env.SIDECAR_API_PORT ?? '3100', 10);
+const API_HOST = process.env.SIDECAR_API_HOST ?? '0.0.0.0';
+const MAX_BODY_BYTES = 1_000_000;
+const APPROVAL_STATUSES = new Set(['approved', 'denied', 'dismissed']);
+/** Requests per minute, per token */
+const RATE_LIMIT = Math.max(1, parseInt(process.env.SIDECAR_API_RATE_LIMIT ?? '120', 10) || 120);
+/** Failed authentications per minute, per client address */
+const AUTH_FAILURE_LIMIT = 10;
+
+// ---------------------------------------------------------------------------
+// HTTP helpers
+// ---------------------------------------------------------------------------
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const raw = await readBody(req);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, 'Body must be a JSON object');
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+// Fixed one-minute windows, in memory — a restart starts every window afresh
+
+const windows = new Map<string, { start: number; count: number }>();
+
+/** Count one call against `key`'s current window and return the count so far */
+function bump(key: string): number {
+  const now = Date.now();
+  const w = windows.get(key);
+  if (!w || now - w.start >= 60_000) {
+    windows.set(key, { start: now, count: 1 });
+    return 1;
+  }
+  return ++w.count;
+}
+
+function countIn(key: string): number {
+  const w = windows.get(key);
+  return w && Date.now() - w.start < 60_000 ? w.count : 0;
+}
+
+function sweepWindows(): void {
+  const cutoff = Date.now() - 60_000;
+  for (const [key, w] of windows) if (w.start < cutoff) windows.delete(key);
+}
+
+const RETRY_AFTER = { 'Retry-After': '60' };
+
+/**
+ * Resolve the bearer token to its Vault entry, or throw 401. Throws 429 while
+ * the caller's address is locked out, or once the token has used up its
+ * requests for the minute.
+ */
+async function authenticate(req: http.IncomingMessage): Promise<ApiToken> {
+  const from = req.socket.remoteAddress ?? 'unknown';
+  if (countIn(`fail:${from}`) >= AUTH_FAILURE_LIMIT) {
+    throw new HttpError(429, 'Too many failed authentications — try again in a minute', RETRY_AFTER);
+  }
+
+  const match = (req.headers.authorization ?? '').match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    bump(`fail:${from}`);
+    throw new HttpError(401, 'Missing bearer token');
+  }
+
+  const { tokens, locked } = await loadApiTokenHashes();
+  const presented = await hashApiToken(match[1]);
+  // Compare against every entry so timing doesn't reveal which one matched
+  let found: ApiToken | null = null;
+  for (const { token, hash } of tokens) {
+    if (safeEqual(presented, hash)) found = token;
+  }
+  if (!found) {
+    if (locked) throw new HttpError(503, 'The Vault is locked — start the sidecar with JARVIS_VAULT_KEY_FILE');
+    bump(`fail:${from}`);
+    await logAudit(null, 'API_AUTH_FAILED', `Rejected API token from ${from}`, 'warning');
+    throw new HttpError(401, tokens.length === 0 ? 'No API tokens configured in the Vault' : 'Invalid API token');
+  }
+  if (bump(`token:${found.id}`) > RATE_LIMIT) {
+    throw new HttpError(429, `Rate limit reached: ${RATE_LIMIT} requests per minute for "${found.name}"`, RETRY_AFTER);
+  }
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Chat (SSE)
+// ---------------------------------------------------------------------------
+
+/** Reuse the given conversation or create a dedicated API one */
+async function resolveConversation(conversationId: unknown, tokenName: string): Promise<string> {
+  if (typeof conversationId === 'string' && conversationId) {
+    if (!(await getConversation(conversationId))) throw new HttpError(404, `Conversation not found: ${conversationId}`);
+    return conversationId;
+  }
+  const id = `api-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  await saveConversation({ id, title: `API: ${tokenName}`, type: 'api', status: 'active' });
+  return id;
+}
+
+async function handleChat(
+  req: http.IncomingMessage, res: http.ServerResponse, token: ApiToken,
+): Promise<void> {
+  const body = await readJson(req);
+  const text = typeof body.message === 'string' ? body.message.trim() : '';
+  if (!text) throw new HttpError(400, '"message" is required');
+
+  const conversationId = await resolveConversation(body.conversation_id, token.name);
+  const history: ChatMessageRow[] = (await loadChatMessages(conversationId)).slice(-20);
+
+  await saveChatMessage({
+    id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    conversation_id: conversationId,
+    sender: 'user',
+    text,
+    metadata: { source: 'api', token: token.name },
+  });
+  await logAudit(null, 'API_CHAT', `"${token.name}" messaged the CEO [conv:${conversationId}]`, 'info');
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  send('conversation', { conversation_id: conversationId });
+
+  const controller = await streamCEOResponse(text, history, {
+    onToken: (token) => send('token', { text: token }),
+    onFailover: (event) => send('failover', event),
+    onDone: async (fullText, _usage, toolCalls) => {
+      // Native tool calls never appear in the text — keep them with the message
+      const calls = replyToolCalls(fullText, toolCalls);
+      if (fullText.trim() || calls.length > 0) {
+        await saveChatMessage({
+          id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+          conversation_id: conversationId,
+          sender: 'ceo',
+          text: fullText.trim() || describeToolCalls(calls),
+          metadata: calls.length > 0 ? { llm: true, source: 'api', tool_calls: calls } : { llm: true, source: 'api' },
+        });
+      }
+      send('done', { conversation_id: conversationId, text: fullText, tool_calls: calls });
+      res.end();
+    },
+    onError: (err) => {
+      send('error', { message: err.message });
+      res.end();
+    },
+  }, { source: 'api' });
+
+  if (!controller) {
+    send('error', { message: 'CEO is offline — no LLM service configured. Set up an API key in the Vault.' });
+    res.end();
+    return;
+  }
+  // Client hung up mid-stream — stop paying for tokens nobody will read
+  res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+}
+
+// ---------------------------------------------------------------------------
+// Chat channel interactions (Slack / Discord buttons)
+// ---------------------------------------------------------------------------
+
+async function handleChannelInteraction(
+  req: http.IncomingMessage, res: http.ServerResponse, channelId: string,
+): Promise<void> {
+  // Read the raw body first — signatures are computed over the exact bytes
+  const body = await readBody(req);
+  const { data } = await getSupabase().from('notification_channels').select('*').eq('id', channelId).maybeSingle();
+  const channel = data as ChannelRow | null;
+  const adapter = channel ? getChannelAdapter(channel.type) : null;
+  if (!channel || !channel.enabled || !adapter?.handleInteraction) {
+    throw new HttpError(404, `No interactive channel: ${channelId}`);
+  }
+
+  const headers: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(req.headers)) {
+    headers[key] = Array.isArray(value) ? value[0] : value;
+  }
+  const result = await adapter.handleInteraction(channel, { headers, body });
+  if (result.status === 401) {
+    await logAudit(null, 'CHANNEL_AUTH_FAILED', `Rejected unsigned ${channel.type} interaction from ${req.socket.remoteAddress ?? 'unknown'}`, 'warning');
+  }
+  if (result.body === undefined) {
+    res.writeHead(result.status);
+    res.end();
+  } else {
+    sendJson(res, result.status, result.body);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://sidecar');
+  const path = url.pathname.replace(/\/+$/, '');
+  const method = req.method ?? 'GET';
+
+  if (method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  let m: RegExpMatchArray | null;
+
+  if (method === 'POST' && (m = path.match(/^\/api\/channels\/([^/]+)\/interactions$/))) {
+    await handleChannelInteraction(req, res, decodeURIComponent(m[1]));
+    return;
+  }
+
+  const token = await authenticate(req);
+
+  if (method === 'GET' && path === '/api/missions') {
+    const status = url.searchParams.get('status');
+    const missions = await loadMissions();
+    sendJson(res, 200, { missions: status ? missions.filter(mi => mi.status === status) : missions });
+    return;
+  }
+
+  if (method === 'GET' && (m = path.match(/^\/api\/missions\/([^/]+)$/))) {
+    const id = decodeURIComponent(m[1]);
+    const mission = (await loadMissions()).find(mi => mi.id === id);
+    if (!mission) throw new HttpError(404, `Mission not found: ${id}`);
+    sendJson(res, 200, { mission, tasks: await loadTaskExecutions(id) });
+    return;
+  }
+
+  if (method === 'GET' && path === '/api/approvals') {
+    sendJson(res, 200, { approvals: await loadApprovals() });
+    return;
+  }
+
+  if (method === 'POST' && (m = path.match(/^\/api\/approvals\/([^/]+)$/))) {
+    const id = decodeURIComponent(m[1]);
+    const { status } = await readJson(req);
+    if (typeof status !== 'string' || !APPROVAL_STATUSES.has(status)) {
+      throw new HttpError(400, `"status" must be one of: ${[...APPROVAL_STATUSES].join(', ')}`);
+    }
+    const { data: existing } = await getSupabase().from('approvals').select('status').eq('id', id).maybeSingle();
+    if (!existing) throw new HttpError(404, `Approval not found: ${id}`);
+    if (existing.status !== 'pending') throw new HttpError(409, `Approval already ${existing.status}`);
+
+    await updateApprovalStatus(id, status, { via: `API (${token.name})` });
+    await logAudit('Founder', 'API_APPROVAL', `${status} via API ("${token.name}"): ${id}`, 'info');
+    sendJson(res, 200, { id, status });
+    return;
+  }
+
+  if (method === 'GET' && path === '/api/audit') {
+    const limit = Math.min(1000, Math.max(1, parseInt(url.searchParams.get('limit') ?? '200', 10) || 200));
+    sendJson(res, 200, { entries: await loadAuditLog(limit) });
+    return;
+  }
+
+  if (method === 'POST' && (m = path.match(/^\/api\/actions\/([^/]+)$/))) {
+    const name = decodeURIComponent(m[1]);
+    if (!MANAGEMENT_ACTIONS.has(name)) throw new HttpError(404, `Unknown action: ${name}`);
+    const body = await readJson(req);
+    const args = (body.args && typeof body.args === 'object' ? body.args : {}) as Record<string, unknown>;
+    const conversationId = typeof body.conversation_id === 'string' ? body.conversation_id : undefined;
+
+    const result = await handleManagementAction(name, args, conversationId);
+    await logAudit(null, 'API_ACTION', `"${token.name}" ran ${name}: ${result.success ? 'ok' : 'failed'} — ${result.message.slice(0, 200)}`, result.success ? 'info' : 'warning');
+    sendJson(res, result.success ? 200 : 422, result);
+    return;
+  }
+
+  if (method === 'POST' && path === '/api/chat') {
+    await handleChat(req, res, token);
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${method} ${path || '/'}`);
+}
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+let server: http.Server | null = null;
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+export function startApiServer(): void {
+  if (!API_PORT) {
+    console.log('[API] Disabled (SIDECAR_API_PORT=0)');
+    return;
+  }
+
+  server = http.createServer((req, res) => {
+    route(req, res).catch((err) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status === 500) console.error('[API] Request error:', err);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJson(res, status, { error: err instanceof Error ? err.message : String(err) }, err instanceof HttpError ? err.headers : {});
+      }
+    });
+  });
+  server.on('error', (err) => console.error('[API] Server error:', err));
+  sweepTimer = setInterval(sweepWindows, 60_000);
+  sweepTimer.unref();
+  server.listen(API_PORT, API_HOST, () => {
+    console.log(`[API] Listening on http://${API_HOST}:${API_PORT}`);
+  });
+}
+
+export function stopApiServer(): void {
+  server?.close();
+  server = null;
+  if (sweepTimer) clearInterval(sweepTimer);
+  sweepTimer = null;
+}
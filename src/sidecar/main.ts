@@ -2,13 +2,24 @@
  * Jarvis CEO Sidecar — Headless Node.js scheduler
  * =================================================
  * Runs the CEO decision engine on a loop, independent of any browser.
- * Connects to Supabase via REST API using environment variables.
+ * Connects to Supabase via REST API using environment variables, and serves
+ * an authenticated HTTP API (./api) for CI pipelines and other headless clients.
  */
 
+import { hostname } from 'node:os';
+import { readFile } from 'node:fs/promises';
 import { initSupabase, getSupabase } from '../lib/supabase';
 import { evaluateCycle } from '../lib/ceoDecisionEngine';
 import { startTelegramPolling, stopTelegramPolling } from './telegram';
+import { startApiServer, stopApiServer } from './api';
 import { executeSkill } from '../lib/skillExecutor';
+import { advanceTaskGraph } from '../lib/taskDispatcher';
+import { loadModelRegistry } from '../lib/llm/registry';
+import { emitWebhookEvent, processWebhookDeliveries, moveWebhookSecretsToVault } from '../lib/webhooks';
+import { setEmailTransport } from '../lib/channels/email';
+import { sendSmtpMail } from './smtp';
+import { setLeaseOwner, getLeaseOwner, acquireTaskLease, recoverTaskLeases, runOnce } from '../lib/taskLeases';
+import { isVaultEncrypted, unlockVaultWithKeyFile, type VaultKeyFileData } from '../lib/vaultCrypto';
 
 // ---------------------------------------------------------------------------
 // Config
@@ -16,6 +27,8 @@ import { executeSkill } from '../lib/skillExecutor';
 
 const INTERVAL_MS = parseInt(process.env.CEO_INTERVAL_MS ?? '30000', 10);
 const HEARTBEAT_KEY = 'main';
+/** `.jarvis-vault-key` exported from the Vault page — unlocks an encrypted Vault without a browser */
+const VAULT_KEY_FILE = process.env.JARVIS_VAULT_KEY_FILE ?? '';
 
 // ---------------------------------------------------------------------------
 // Bootstrap
@@ -33,6 +46,12 @@ async function boot(): Promise<void> {
   initSupabase(url, key);
   console.log('[CEO Sidecar] Supabase connected');
 
+  // Email channels send through this process's SMTP client
+  setEmailTransport(sendSmtpMail);
+
+  // Stable lease owner: whatever this host held before a crash or restart is ours to reclaim
+  setLeaseOwner(process.env.SIDECAR_ID ?? `sidecar:${hostname()}`);
+
   // Verify DB connectivity
   const { error } = await getSupabase().from('settings').select('key').limit(1);
   if (error) {
@@ -41,6 +60,22 @@ async function boot(): Promise<void> {
   }
   console.log('[CEO Sidecar] DB verified');
 
+  // Every secret below (model keys, signing key, API tokens) comes out of the Vault
+  await unlockVaultFromKeyFile();
+  const movedSecrets = await moveWebhookSecretsToVault();
+  if (movedSecrets > 0) console.log(`[CEO Sidecar] Moved ${movedSecrets} webhook signing secret(s) into the Vault`);
+
+  // Tasks this sidecar was running when it went down go back to the work queue
+  const reclaimed = await recoverTaskLeases({ heldBy: getLeaseOwner() });
+  if (reclaimed > 0) console.log(`[CEO Sidecar] Re-queued ${reclaimed} task(s) interrupted by the last shutdown`);
+
+  // Load the shared model registry, then discover local (OpenAI-compatible) models
+  const modelCount = await loadModelRegistry();
+  console.log(`[CEO Sidecar] Model registry: ${modelCount} models`);
+  const { refreshLocalModels } = await import('../lib/localModels');
+  const localModels = await refreshLocalModels();
+  if (localModels.length > 0) console.log(`[CEO Sidecar] Local models: ${localModels.join(', ')}`);
+
   // Initialize marketplace signing (loads key from vault)
   const { initSidecarSigning } = await import('../lib/marketplaceClient');
   const signingReady = await initSidecarSigning();
@@ -50,6 +85,21 @@ async function boot(): Promise<void> {
   console.log(`[CEO Sidecar] Marketplace signing: ${signingReady ? 'READY' : 'NOT AVAILABLE (no key in vault)'}, registered: ${marketplaceReady ? mktStatus.instanceId : 'NO (will retry)'}`);
 }
 
+async function unlockVaultFromKeyFile(): Promise<void> {
+  if (!(await isVaultEncrypted())) return;
+  if (!VAULT_KEY_FILE) {
+    console.warn('[CEO Sidecar] Vault is encrypted and JARVIS_VAULT_KEY_FILE is not set — secrets are unavailable');
+    return;
+  }
+  try {
+    const file = JSON.parse(await readFile(VAULT_KEY_FILE, 'utf8')) as VaultKeyFileData;
+    const unlocked = await unlockVaultWithKeyFile(file);
+    console.log(unlocked ? '[CEO Sidecar] Vault unlocked from key file' : `[CEO Sidecar] ${VAULT_KEY_FILE} does not match this Vault — secrets are unavailable`);
+  } catch (err) {
+    console.error(`[CEO Sidecar] Could not read vault key file ${VAULT_KEY_FILE}:`, err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Scheduler loop
 // ---------------------------------------------------------------------------
@@ -69,7 +119,18 @@ async function tick(): Promise<void> {
       }
     }
 
+    // Pick up model/price edits made in Settings since the last tick
+    await loadModelRegistry();
+
     const result = await evaluateCycle();
+
+    // Embed memories saved without a vector (new rows, backend switched, provider outage)
+    const { backfillMemoryEmbeddings } = await import('../lib/memory');
+    const backfill = await backfillMemoryEmbeddings(25);
+    if (backfill.embedded > 0) {
+      console.log(`[CEO Sidecar] Embedded ${backfill.embedded} memories (${backfill.remaining} remaining)`);
+    }
+
     const now = new Date().toISOString();
 
     await getSupabase()
@@ -139,24 +200,19 @@ async function processPendingTasks(): Promise<void> {
       }
       if (!SIDECAR_SKILLS.has(skillId)) continue;
 
-      // Claim the task
-      const { error: claimErr } = await sb
-        .from('task_executions')
-        .update({ status: 'running', started_at: new Date().toISOString() })
-        .eq('id', task.id)
-        .eq('status', 'pending'); // optimistic lock
-
-      if (claimErr) continue;
+      // Claim the task — the lease heartbeat keeps it ours while the skill runs
+      const lease = await acquireTaskLease(task.id);
+      if (!lease) continue;
 
-      console.log(`[TaskWatcher] Executing ${skillId}:${commandName} (${task.id})`);
+      console.log(`[TaskWatcher] Executing ${skillId}:${commandName} (${task.id}, attempt ${lease.attempt})`);
 
       try {
-        const result = await executeSkill(
+        const result = await runOnce(lease, skillId, commandName, () => executeSkill(
           skillId,
           commandName,
           task.params as Record<string, unknown> ?? {},
           { missionId: task.mission_id },
-        );
+        ));
 
         await sb.from('task_executions').update({
           status: result.success ? 'completed' : 'failed',
@@ -168,6 +224,10 @@ async function processPendingTasks(): Promise<void> {
         }).eq('id', task.id);
 
         console.log(`[TaskWatcher] ${result.success ? 'OK' : 'FAIL'}: ${skillId}:${commandName} — ${(result.output || result.error || '').slice(0, 80)}`);
+        if (task.mission_id) await advanceTaskGraph(task.mission_id);
+        if (!result.success) {
+          await emitWebhookEvent('skill.failed', { task_id: task.id, mission_id: task.mission_id, skill_id: skillId, command: commandName, error: result.error ?? '' });
+        }
       } catch (err) {
         await sb.from('task_executions').update({
           status: 'failed',
@@ -175,6 +235,10 @@ async function processPendingTasks(): Promise<void> {
           completed_at: new Date().toISOString(),
         }).eq('id', task.id);
         console.error(`[TaskWatcher] Error executing ${task.id}:`, err);
+        if (task.mission_id) await advanceTaskGraph(task.mission_id).catch(() => {});
+        await emitWebhookEvent('skill.failed', { task_id: task.id, mission_id: task.mission_id, skill_id: skillId, command: commandName, error: String(err) });
+      } finally {
+        lease.release();
       }
     }
   } catch (err) {
@@ -183,6 +247,27 @@ async function processPendingTasks(): Promise<void> {
   taskWatcherRunning = false;
 }
 
+// ---------------------------------------------------------------------------
+// Webhook sender — delivers queued webhook events and Slack / Discord /
+// Telegram / email channel messages (browsers can't sign, POST cross-origin
+// to those APIs or speak SMTP, so every delivery goes out from here)
+// ---------------------------------------------------------------------------
+
+const WEBHOOK_POLL_MS = 5_000;
+let webhookSenderRunning = false;
+
+async function sendWebhooks(): Promise<void> {
+  if (webhookSenderRunning) return;
+  webhookSenderRunning = true;
+  try {
+    const attempted = await processWebhookDeliveries();
+    if (attempted > 0) console.log(`[Webhooks] Attempted ${attempted} deliver${attempted === 1 ? 'y' : 'ies'}`);
+  } catch (err) {
+    console.error('[Webhooks] Delivery error:', err);
+  }
+  webhookSenderRunning = false;
+}
+
 // ---------------------------------------------------------------------------
 
 async function main(): Promise<void> {
@@ -196,12 +281,18 @@ async function main(): Promise<void> {
     console.error('[CEO Sidecar] Telegram polling failed:', err);
   });
 
+  // Start the headless REST API (bearer tokens from the Vault)
+  startApiServer();
+
   // Start pending task watcher (picks up browser-dispatched forum/marketplace tasks)
   setInterval(() => {
     processPendingTasks().catch((err) => console.error('[TaskWatcher] Unhandled error:', err));
   }, TASK_POLL_MS);
   console.log(`[CEO Sidecar] Task watcher started (poll every ${TASK_POLL_MS}ms)`);
 
+  setInterval(() => { sendWebhooks(); }, WEBHOOK_POLL_MS);
+  console.log(`[CEO Sidecar] Webhook sender started (poll every ${WEBHOOK_POLL_MS}ms)`);
+
   // Run first tick immediately
   await tick();
 
@@ -217,11 +308,13 @@ async function main(): Promise<void> {
 process.on('SIGTERM', () => {
   console.log('[CEO Sidecar] SIGTERM received, shutting down');
   stopTelegramPolling();
+  stopApiServer();
   process.exit(0);
 });
 process.on('SIGINT', () => {
   console.log('[CEO Sidecar] SIGINT received, shutting down');
   stopTelegramPolling();
+  stopApiServer();
   process.exit(0);
 });
 
@@ -0,0 +1,199 @@
+/**
+ * Minimal SMTP client — Sidecar
+ * ==============================
+ * Just enough SMTP to send the email digest: implicit TLS (465), STARTTLS
+ * (587) or plaintext (local catchers like Mailpit on 1025), AUTH PLAIN, and
+ * a multipart/alternative HTML + text body. Registered as the email channel's
+ * transport at sidecar startup (see lib/channels/email).
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { EmailMessage, SmtpSettings } from '../lib/channels/email';
+
+const SOCKET_TIMEOUT_MS = 30_000;
+
+export class SmtpError extends Error {
+  /** SMTP reply code, or null for connection-level failures */
+  constructor(public code: number | null, message: string) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: { code: number; text: string }[] = [];
+  private waiter: { resolve: (reply: { code: number; text: string }) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new SmtpError(null, `SMTP server timed out after ${SOCKET_TIMEOUT_MS / 1000}s`)));
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (err) => this.fail(err));
+    socket.on('close', () => this.fail(new SmtpError(null, 'SMTP connection closed')));
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    this.waiter?.reject(this.failure);
+    this.waiter = null;
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let idx: number;
+    while ((idx = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), text: this.lines.join('\n') });
+        this.lines = [];
+      }
+    }
+    if (this.waiter && this.replies.length > 0) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  read(): Promise<{ code: number; text: string }> {
+    if (this.replies.length > 0) return Promise.resolve(this.replies.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiter = { resolve, reject }; });
+  }
+
+  /** Send a command (or raw data) and require one of the expected reply codes */
+  async send(line: string | null, expect: number[], redacted?: string): Promise<string> {
+    const reply = this.read();
+    if (line !== null) this.socket.write(line + '\r\n');
+    const { code, text } = await reply;
+    if (!expect.includes(code)) {
+      throw new SmtpError(code, `${redacted ?? line?.split(' ')[0] ?? 'greeting'} → ${text.replace(/\n/g, ' ')}`);
+    }
+    return text;
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: plain, servername: host }, () => resolve(s));
+      s.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+function connect(settings: SmtpSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => reject(new SmtpError(null, `Cannot reach ${settings.host}:${settings.port} — ${err.message}`));
+    const socket = settings.security === 'tls'
+      ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host }, () => resolve(socket))
+      : net.connect({ host: settings.host, port: settings.port }, () => resolve(socket));
+    socket.once('error', onError);
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error('connect timeout')));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Message
+// ---------------------------------------------------------------------------
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(text: string): string {
+  return (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+function buildMime(message: EmailMessage, from: string): string {
+  const boundary = `jarvis-${randomUUID()}`;
+  const domain = from.split('@')[1]?.replace(/>$/, '') || 'jarvis.local';
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/** Bare address for the envelope ("Jarvis <ceo@x.io>" → "ceo@x.io") */
+function envelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export async function sendSmtpMail(settings: SmtpSettings, message: EmailMessage): Promise<void> {
+  const conn = new SmtpConnection(await connect(settings));
+  try {
+    await conn.send(null, [220]);
+    const ehlo = `EHLO ${os.hostname() || 'jarvis'}`;
+    const capabilities = await conn.send(ehlo, [250]);
+
+    if (settings.security === 'starttls') {
+      if (!/STARTTLS/i.test(capabilities)) throw new SmtpError(null, `${settings.host} does not offer STARTTLS`);
+      await conn.send('STARTTLS', [220]);
+      await conn.startTls(settings.host);
+      await conn.send(ehlo, [250]);
+    }
+
+    if (settings.user) {
+      const token = Buffer.from(`\0${settings.user}\0${settings.pass}`, 'utf8').toString('base64');
+      await conn.send(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+    }
+
+    await conn.send(`MAIL FROM:<${envelopeAddress(settings.from)}>`, [250]);
+    for (const rcpt of message.to) {
+      await conn.send(`RCPT TO:<${envelopeAddress(rcpt)}>`, [250, 251]);
+    }
+    await conn.send('DATA', [354]);
+    // Dot-stuff lines that start with "." so they aren't read as end-of-data
+    const body = buildMime(message, settings.from).replace(/\r\n\./g, '\r\n..');
+    await conn.send(`${body}\r\n.`, [250], 'DATA body');
+    await conn.send('QUIT', [221]).catch(() => {});
+  } finally {
+    conn.close();
+  }
+}
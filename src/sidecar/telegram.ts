@@ -7,6 +7,9 @@
  *
  * Chat ID whitelisting: the first message auto-authorizes that chat_id;
  * subsequent messages from different chat_ids are ignored.
+ *
+ * A reply to a task checkpoint request is taken as the Founder's edited
+ * output for that checkpoint rather than a message to the CEO.
  */
 
 import { getSupabase } from '../lib/supabase';
@@ -18,6 +21,7 @@ import {
   logAudit,
 } from '../lib/database';
 import type { ChatMessageRow } from '../lib/database';
+import { approveCheckpoint, checkpointApprovalIdIn } from '../lib/taskCheckpoints';
 
 // ---------------------------------------------------------------------------
 // State
@@ -239,6 +243,18 @@ async function pollLoop(botToken: string, channelId: string): Promise<void> {
           continue;
         }
 
+        // A reply to a checkpoint request is the Founder's edited output, not a chat message
+        const checkpointId = checkpointApprovalIdIn(message.reply_to_message?.text ?? '');
+        if (checkpointId) {
+          const applied = await approveCheckpoint(checkpointId, message.text, { via: 'Telegram', channelId });
+          await telegramAPI(botToken, 'sendMessage', {
+            chat_id: chatId,
+            reply_to_message_id: message.message_id,
+            text: applied ? 'Edit saved — the plan continues with your version.' : 'That checkpoint was already decided — nothing changed.',
+          });
+          continue;
+        }
+
         // Handle the message
         const fromName = message.from?.first_name ?? 'User';
         console.log(`[Telegram] Message from ${fromName}: ${message.text.slice(0, 80)}`);
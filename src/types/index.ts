@@ -66,6 +66,9 @@ export interface VaultEntry {
   keyValue: string;
   createdAt: string;
   updatedAt: string;
+  expiresAt?: string | null;
+  rotationDays?: number | null;
+  rotatedAt?: string | null;
 }
 
 export interface ApprovalEntry {
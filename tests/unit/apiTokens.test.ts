@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { createFakeSupabase, type FakeSupabase } from './fakeSupabase';
+
+const state = vi.hoisted(() => ({ sb: null as unknown }));
+vi.mock('../../src/lib/supabase', () => ({ getSupabase: () => state.sb }));
+
+let sb: FakeSupabase;
+// The hash cache lives in the module — load it fresh per test
+const load = () => import('../../src/lib/apiTokens');
+
+const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
+
+const tokenRow = (id: string, token: string, overrides: Record<string, unknown> = {}) => ({
+  id, name: id, type: 'token', service: 'Jarvis API', key_value: token, encrypted: false, scope: null,
+  created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z', ...overrides,
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  sb = createFakeSupabase({ settings: [], vault: [], audit_log: [] });
+  state.sb = sb;
+});
+
+describe('generateApiToken / hashApiToken', () => {
+  it('mints prefixed 256-bit tokens and compares them by hex SHA-256', async () => {
+    const { generateApiToken, hashApiToken } = await load();
+    const token = generateApiToken();
+    expect(token).toMatch(/^jrv_[0-9a-f]{64}$/);
+    expect(await hashApiToken(token)).toBe(sha256(token));
+  });
+});
+
+describe('loadApiTokenHashes', () => {
+  it('returns the hash of every API token entry, and none of other services', async () => {
+    sb.tables.vault.push(tokenRow('vault-api-a', 'jrv_a'), tokenRow('vault-api-b', 'jrv_b'), tokenRow('vault-openai', 'sk-x', { service: 'OpenAI' }));
+    const { loadApiTokenHashes } = await load();
+    const { tokens, locked } = await loadApiTokenHashes();
+    expect(locked).toBe(false);
+    expect(tokens.map(t => [t.token.id, t.hash])).toEqual([['vault-api-a', sha256('jrv_a')], ['vault-api-b', sha256('jrv_b')]]);
+    expect(tokens[0].token).not.toHaveProperty('key_value');
+  });
+
+  it('checks tokens without writing to the audit log', async () => {
+    sb.tables.vault.push(tokenRow('vault-api-a', 'jrv_a'));
+    const { loadApiTokenHashes } = await load();
+    for (let i = 0; i < 5; i++) await loadApiTokenHashes();
+    expect(sb.tables.audit_log).toEqual([]);
+  });
+
+  it('opens a token again only when its entry changed, and drops deleted entries', async () => {
+    sb.tables.vault.push(tokenRow('vault-api-a', 'jrv_a'));
+    const { loadApiTokenHashes } = await load();
+    await loadApiTokenHashes();
+
+    // Same updated_at — the cached hash is kept, the value is not re-read
+    sb.tables.vault[0].key_value = 'jrv_swapped';
+    expect((await loadApiTokenHashes()).tokens[0].hash).toBe(sha256('jrv_a'));
+
+    sb.tables.vault[0].updated_at = '2025-02-01T00:00:00Z';
+    expect((await loadApiTokenHashes()).tokens[0].hash).toBe(sha256('jrv_swapped'));
+
+    sb.tables.vault.length = 0;
+    expect((await loadApiTokenHashes()).tokens).toEqual([]);
+  });
+
+  it('leaves out tokens whose scope refuses the api_auth context', async () => {
+    sb.tables.vault.push(
+      tokenRow('vault-api-a', 'jrv_a', { scope: { skills: [], agents: [], contexts: ['ceo_chat'] } }),
+      tokenRow('vault-api-b', 'jrv_b', { scope: { skills: [], agents: [], contexts: ['api_auth'] } }),
+    );
+    const { loadApiTokenHashes } = await load();
+    expect((await loadApiTokenHashes()).tokens.map(t => t.token.id)).toEqual(['vault-api-b']);
+  });
+
+  it('reports locked when a sealed token cannot be opened, and never accepts a plaintext one then', async () => {
+    sb.tables.settings.push({ key: 'vault_key', value: JSON.stringify({ bound: true }) });
+    sb.tables.vault.push(tokenRow('vault-api-a', 'v2:aaaa:bbbb', { encrypted: true }), tokenRow('vault-api-b', 'jrv_forged'));
+    const { loadApiTokenHashes } = await load();
+    const { tokens, locked } = await loadApiTokenHashes();
+    expect(locked).toBe(true);
+    expect(tokens).toEqual([]);
+    // The plaintext row is reported as corrupt — once, not on every check
+    expect(sb.tables.audit_log.map(a => a.action)).toEqual(['SECRET_CORRUPT']);
+    await loadApiTokenHashes();
+    expect(sb.tables.audit_log).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextRun, dueRuns, validateCron, MAX_CATCH_UP_RUNS } from '../../src/lib/cronParser';
+
+const at = (iso: string) => new Date(iso);
+const next = (cron: string, after: string, tz = 'UTC') => nextRun(cron, at(after), tz)?.toISOString();
+
+describe('day-of-month specials', () => {
+  it('L fires on the last day, leap years included', () => {
+    expect(next('0 9 L * *', '2024-02-10T00:00:00Z')).toBe('2024-02-29T09:00:00.000Z');
+    expect(next('0 9 L * *', '2023-02-10T00:00:00Z')).toBe('2023-02-28T09:00:00.000Z');
+  });
+
+  it('L-n counts back from the last day', () => {
+    expect(next('0 0 L-3 * *', '2024-04-01T00:00:00Z')).toBe('2024-04-27T00:00:00.000Z');
+  });
+
+  it('nW moves to the nearest weekday', () => {
+    // 2024-06-15 is a Saturday
+    expect(next('0 0 15W * *', '2024-06-01T00:00:00Z')).toBe('2024-06-14T00:00:00.000Z');
+    // 2024-09-15 is a Sunday
+    expect(next('0 0 15W * *', '2024-09-01T00:00:00Z')).toBe('2024-09-16T00:00:00.000Z');
+  });
+
+  it('nW never crosses into another month', () => {
+    // 2024-06-01 is a Saturday — the Friday before is in May, so Monday the 3rd
+    expect(next('0 0 1W * *', '2024-05-31T12:00:00Z')).toBe('2024-06-03T00:00:00.000Z');
+  });
+
+  it('LW is the last weekday of the month', () => {
+    // 2024-08-31 is a Saturday
+    expect(next('0 0 LW * *', '2024-08-01T00:00:00Z')).toBe('2024-08-30T00:00:00.000Z');
+  });
+});
+
+describe('day-of-week specials', () => {
+  it('dL is the last such weekday of the month', () => {
+    expect(next('0 0 * * 5L', '2024-05-01T00:00:00Z')).toBe('2024-05-31T00:00:00.000Z');
+    expect(next('0 0 * * FRIL', '2024-06-01T00:00:00Z')).toBe('2024-06-28T00:00:00.000Z');
+  });
+
+  it('d#n is the nth such weekday of the month', () => {
+    expect(next('0 0 * * 1#2', '2024-01-01T12:00:00Z')).toBe('2024-01-08T00:00:00.000Z');
+    // No fifth Monday in February 2024 — the next one is in April
+    expect(next('0 0 * * MON#5', '2024-02-01T00:00:00Z')).toBe('2024-04-29T00:00:00.000Z');
+  });
+
+  it('rejects occurrences outside 1-5', () => {
+    expect(validateCron('0 0 * * 1#6')).toMatch(/occurrence/);
+    expect(validateCron('0 0 * * 1#2')).toBeNull();
+  });
+});
+
+describe('parseCron cache', () => {
+  it('reuses parsed schedules but keeps only the most recent ones', () => {
+    const first = parseCron('7 7 7 7 *');
+    expect(parseCron('7 7 7 7 *')).toBe(first);
+    for (let i = 0; i < 1000; i++) parseCron(`${i % 60} ${Math.floor(i / 60)} * * *`);
+    const again = parseCron('7 7 7 7 *');
+    expect(again).not.toBe(first);
+    expect(again).toEqual(first);
+  });
+});
+
+describe('DST', () => {
+  const tz = 'America/New_York';
+
+  it('a time skipped by spring-forward fires shifted by the jump', () => {
+    // 2024-03-10 02:00 EST jumps to 03:00 EDT — 02:30 does not exist, so it fires at 03:30 EDT
+    expect(next('30 2 * * *', '2024-03-09T12:00:00Z', tz)).toBe('2024-03-10T07:30:00.000Z');
+    // 2026-03-08, same jump
+    expect(next('30 2 * * *', '2026-03-07T12:00:00Z', tz)).toBe('2026-03-08T07:30:00.000Z');
+    expect(next('30 2 * * *', '2026-03-08T07:30:00Z', tz)).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('a time repeated by fall-back fires once, on its first occurrence', () => {
+    // 2024-11-03 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+    const first = next('30 1 * * *', '2024-11-03T00:00:00Z', tz);
+    expect(first).toBe('2024-11-03T05:30:00.000Z');
+    expect(next('30 1 * * *', first!, tz)).toBe('2024-11-04T06:30:00.000Z');
+  });
+
+  it('keeps the wall-clock time across the change', () => {
+    expect(next('0 9 * * *', '2024-03-09T15:00:00Z', tz)).toBe('2024-03-10T13:00:00.000Z');
+    expect(next('0 9 * * *', '2024-03-08T15:00:00Z', tz)).toBe('2024-03-09T14:00:00.000Z');
+  });
+});
+
+describe('dueRuns catch-up modes', () => {
+  const hourly = '0 * * * *';
+  const lastRun = at('2024-01-01T00:00:00Z');
+  const iso = (runs: Date[]) => runs.map(r => r.toISOString());
+
+  it('skip runs the latest occurrence only within the grace window', () => {
+    expect(iso(dueRuns(hourly, lastRun, at('2024-01-01T05:02:00Z'), { timezone: 'UTC', catchUp: 'skip' })))
+      .toEqual(['2024-01-01T05:00:00.000Z']);
+    expect(dueRuns(hourly, lastRun, at('2024-01-01T05:10:00Z'), { timezone: 'UTC', catchUp: 'skip' })).toEqual([]);
+    expect(dueRuns(hourly, lastRun, at('2024-01-01T05:10:00Z'), { timezone: 'UTC', catchUp: 'skip', graceMs: 15 * 60_000 }))
+      .toHaveLength(1);
+  });
+
+  it('once collapses missed runs into the latest', () => {
+    expect(iso(dueRuns(hourly, lastRun, at('2024-01-01T05:40:00Z'), { timezone: 'UTC', catchUp: 'once' })))
+      .toEqual(['2024-01-01T05:00:00.000Z']);
+  });
+
+  it('all returns every missed run, oldest first', () => {
+    expect(iso(dueRuns(hourly, lastRun, at('2024-01-01T03:30:00Z'), { timezone: 'UTC', catchUp: 'all' })))
+      .toEqual(['2024-01-01T01:00:00.000Z', '2024-01-01T02:00:00.000Z', '2024-01-01T03:00:00.000Z']);
+  });
+
+  it('all is capped at MAX_CATCH_UP_RUNS', () => {
+    const runs = dueRuns(hourly, lastRun, at('2024-01-03T00:30:00Z'), { timezone: 'UTC', catchUp: 'all' });
+    expect(runs).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(runs[0].toISOString()).toBe('2024-01-01T01:00:00.000Z');
+  });
+
+  it('a schedule that never ran only considers its latest occurrence', () => {
+    expect(iso(dueRuns(hourly, null, at('2024-01-01T05:40:00Z'), { timezone: 'UTC', catchUp: 'all' })))
+      .toEqual(['2024-01-01T05:00:00.000Z']);
+  });
+
+  it('nothing is due once the latest occurrence has run', () => {
+    for (const catchUp of ['skip', 'once', 'all'] as const) {
+      expect(dueRuns(hourly, at('2024-01-01T05:00:00Z'), at('2024-01-01T05:02:00Z'), { timezone: 'UTC', catchUp })).toEqual([]);
+    }
+  });
+});
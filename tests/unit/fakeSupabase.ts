@@ -0,0 +1,143 @@
+/**
+ * In-memory stand-in for the Supabase client — just the query builder calls
+ * src/lib uses (filters, order, limit, maybeSingle, insert / upsert / update /
+ * delete with an optional .select()). Tables are plain arrays of rows, so a
+ * test seeds them directly and inspects them afterwards.
+ *
+ *   const state = vi.hoisted(() => ({ sb: null as unknown }));
+ *   vi.mock('../../src/lib/supabase', () => ({ getSupabase: () => state.sb }));
+ *   beforeEach(() => { state.sb = createFakeSupabase({ vault: [...] }); });
+ */
+
+type Row = Record<string, any>;
+type Result = { data: any; error: { message: string } | null };
+
+/** SQL LIKE / ILIKE: % is any run, _ any one character */
+function likeMatcher(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private op: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] = {};
+  private conflict = 'id';
+  private columns: string | null = null;
+  private returning = false;
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private max: number | null = null;
+  private singleMode: 'maybe' | 'one' | null = null;
+
+  constructor(private readonly rows: Row[]) {}
+
+  select(columns = '*'): this {
+    if (this.op === 'select') this.columns = columns;
+    else this.returning = true;
+    return this;
+  }
+  insert(values: Row | Row[]): this { this.op = 'insert'; this.values = values; return this; }
+  upsert(values: Row | Row[], options?: { onConflict?: string }): this {
+    this.op = 'upsert';
+    this.values = values;
+    this.conflict = options?.onConflict ?? 'id';
+    return this;
+  }
+  update(values: Row): this { this.op = 'update'; this.values = values; return this; }
+  delete(): this { this.op = 'delete'; return this; }
+
+  private where(test: (row: Row) => boolean): this { this.filters.push(test); return this; }
+  eq(column: string, value: unknown): this { return this.where(r => r[column] === value); }
+  neq(column: string, value: unknown): this { return this.where(r => r[column] !== value); }
+  in(column: string, values: unknown[]): this { return this.where(r => values.includes(r[column])); }
+  is(column: string, value: null | boolean): this { return this.where(r => (r[column] ?? null) === value); }
+  not(column: string, operator: string, value: unknown): this {
+    if (operator !== 'is') throw new Error(`fakeSupabase: not(${operator}) is not supported`);
+    return this.where(r => (r[column] ?? null) !== value);
+  }
+  lt(column: string, value: any): this { return this.where(r => r[column] != null && r[column] < value); }
+  lte(column: string, value: any): this { return this.where(r => r[column] != null && r[column] <= value); }
+  gt(column: string, value: any): this { return this.where(r => r[column] != null && r[column] > value); }
+  gte(column: string, value: any): this { return this.where(r => r[column] != null && r[column] >= value); }
+  like(column: string, pattern: string): this { const re = likeMatcher(pattern, false); return this.where(r => re.test(String(r[column] ?? ''))); }
+  ilike(column: string, pattern: string): this { const re = likeMatcher(pattern, true); return this.where(r => re.test(String(r[column] ?? ''))); }
+  order(column: string, options?: { ascending?: boolean }): this {
+    this.ordering = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+  limit(count: number): this { this.max = count; return this; }
+  maybeSingle(): this { this.singleMode = 'maybe'; return this; }
+  single(): this { this.singleMode = 'one'; return this; }
+
+  then<A = Result, B = never>(onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null, onRejected?: ((reason: any) => B | PromiseLike<B>) | null): PromiseLike<A | B> {
+    return Promise.resolve().then(() => this.run()).then(onFulfilled, onRejected);
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(r => this.filters.every(f => f(r)));
+  }
+
+  private project(rows: Row[]): Row[] {
+    if (!this.columns || this.columns.trim() === '*') return rows.map(r => ({ ...r }));
+    const names = this.columns.split(',').map(c => c.trim());
+    return rows.map(r => Object.fromEntries(names.map(n => [n, r[n] ?? null])));
+  }
+
+  private run(): Result {
+    let affected: Row[];
+    switch (this.op) {
+      case 'select': {
+        affected = this.matching();
+        if (this.ordering) {
+          const { column, ascending } = this.ordering;
+          affected = [...affected].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+        }
+        if (this.max !== null) affected = affected.slice(0, this.max);
+        break;
+      }
+      case 'insert':
+        affected = ([] as Row[]).concat(this.values).map(v => ({ ...v }));
+        this.rows.push(...affected);
+        break;
+      case 'upsert':
+        affected = ([] as Row[]).concat(this.values).map(v => {
+          const existing = this.rows.find(r => r[this.conflict] === v[this.conflict]);
+          if (existing) return Object.assign(existing, v);
+          this.rows.push({ ...v });
+          return this.rows[this.rows.length - 1];
+        });
+        break;
+      case 'update':
+        affected = this.matching();
+        for (const row of affected) Object.assign(row, this.values);
+        break;
+      case 'delete':
+        affected = this.matching();
+        for (const row of affected) this.rows.splice(this.rows.indexOf(row), 1);
+        break;
+    }
+    if (this.op !== 'select' && !this.returning) return { data: null, error: null };
+    const data = this.project(affected);
+    if (this.singleMode) {
+      if (data.length > 1) return { data: null, error: { message: 'multiple rows returned' } };
+      if (data.length === 0 && this.singleMode === 'one') return { data: null, error: { message: 'no rows returned' } };
+      return { data: data[0] ?? null, error: null };
+    }
+    return { data, error: null };
+  }
+}
+
+export interface FakeSupabase {
+  tables: Record<string, Row[]>;
+  from(table: string): FakeQuery;
+}
+
+export function createFakeSupabase(tables: Record<string, Row[]> = {}): FakeSupabase {
+  return {
+    tables,
+    from(table: string) {
+      tables[table] ??= [];
+      return new FakeQuery(tables[table]);
+    },
+  };
+}
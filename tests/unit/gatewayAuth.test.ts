@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { gatewayTokenScopes, gatewayTokenEntryId } from '../../src/lib/gatewayAuth';
+
+type GatewayAuth = typeof import('../../docker/gateway/auth');
+
+let auth: GatewayAuth;
+let vaultRows: { id: string; name: string; expires_at: string | null }[] = [];
+const fetchMock = vi.fn(async (url: string) => (
+  String(url).includes('/rest/v1/vault') ? new Response(JSON.stringify(vaultRows), { status: 200 }) : new Response(null, { status: 201 })
+));
+
+beforeAll(async () => {
+  // The gateway reads its config from the environment when it loads
+  vi.stubEnv('GATEWAY_TOKEN_SECRET', 'test-signing-secret');
+  vi.stubEnv('SUPABASE_URL', 'http://supabase.test');
+  vi.stubEnv('SUPABASE_ANON_KEY', 'anon');
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+  auth = await import('../../docker/gateway/auth');
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('mintToken / verifyToken', () => {
+  it('round-trips the scopes and names the Vault entry by the token id', () => {
+    const { token, entryId } = auth.mintToken(['read', 'exec']);
+    expect(token).toMatch(/^jgw_exec\.read_[0-9a-f]{32}_[0-9a-f]{64}$/);
+    expect(entryId).toBe(`vault-gateway-${token.split('_')[2]}`);
+    expect(auth.verifyToken(token)).toEqual({ scopes: ['exec', 'read'], entryId });
+  });
+
+  it('refuses tokens without a scope', () => {
+    expect(() => auth.mintToken([])).toThrow(/at least one scope/);
+  });
+
+  it('rejects a token whose scopes, id or signature were changed', () => {
+    const { token } = auth.mintToken(['read']);
+    const [, , id, sig] = token.split('_');
+    expect(auth.verifyToken(`jgw_exec.install.read_${id}_${sig}`)).toBeNull();
+    expect(auth.verifyToken(`jgw_read_${'0'.repeat(32)}_${sig}`)).toBeNull();
+    expect(auth.verifyToken(`jgw_read_${id}_${sig.replace(/.$/, c => (c === '0' ? '1' : '0'))}`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret, or not signed at all', () => {
+    const body = `jgw_exec.install.read_${'a'.repeat(32)}`;
+    expect(auth.verifyToken(`${body}_${createHmac('sha256', 'guessed').update(body).digest('hex')}`)).toBeNull();
+    expect(auth.verifyToken(`jgw_exec_${'a'.repeat(64)}`)).toBeNull();
+    expect(auth.verifyToken('')).toBeNull();
+  });
+
+  it('matches what the dashboard reads out of a token', () => {
+    const { token, entryId } = auth.mintToken(['install', 'exec']);
+    expect(gatewayTokenScopes(token)).toEqual(['exec', 'install']);
+    expect(gatewayTokenEntryId(token)).toBe(entryId);
+  });
+});
+
+describe('requireScope', () => {
+  let seq = 0;
+
+  function call(scope: 'exec' | 'install' | 'read', authorization?: string) {
+    const req = {
+      headers: authorization ? { authorization } : {},
+      method: 'POST',
+      path: '/exec',
+      // A fresh address per call keeps the failed-auth lockout out of the way
+      socket: { remoteAddress: `10.0.0.${++seq}` },
+    };
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      locals: {},
+      status(code: number) { this.statusCode = code; return this; },
+      json(body: unknown) { this.body = body; return this; },
+      header() { return this; },
+      on() { return this; },
+    };
+    const next = vi.fn();
+    return auth.requireScope(scope)(req as never, res as never, next).then(() => ({ req, res, next }));
+  }
+
+  /** Past the gateway's 30-second entry cache, so the next call reads vaultRows */
+  const reloadEntries = () => vi.setSystemTime(Date.now() + 60_000);
+
+  beforeEach(() => {
+    vaultRows = [];
+    reloadEntries();
+  });
+
+  it('lets through a signed token whose Vault entry exists and carries the scope', async () => {
+    const { token, entryId } = auth.mintToken(['exec']);
+    vaultRows = [{ id: entryId, name: 'CI', expires_at: null }];
+    const { req, next } = await call('exec', `Bearer ${token}`);
+    expect(next).toHaveBeenCalledOnce();
+    expect((req as { gatewayToken?: unknown }).gatewayToken).toMatchObject({ id: entryId, name: 'CI', scopes: ['exec'] });
+  });
+
+  it('answers 401 without a token, for a forged one, and once the entry is deleted or expired', async () => {
+    expect((await call('read')).res.statusCode).toBe(401);
+    expect((await call('read', `Bearer jgw_read_${'a'.repeat(32)}_${'b'.repeat(64)}`)).res.statusCode).toBe(401);
+
+    const { token } = auth.mintToken(['read']);
+    const revoked = await call('read', `Bearer ${token}`);
+    expect(revoked.res.statusCode).toBe(401);
+    expect(revoked.res.body).toEqual({ error: expect.stringMatching(/no Vault entry/) });
+    expect(revoked.next).not.toHaveBeenCalled();
+
+    const expired = auth.mintToken(['read']);
+    vaultRows = [{ id: expired.entryId, name: 'Old', expires_at: '2020-01-01T00:00:00Z' }];
+    reloadEntries();
+    const late = await call('read', `Bearer ${expired.token}`);
+    expect(late.res.statusCode).toBe(401);
+    expect(late.res.body).toEqual({ error: 'Gateway token "Old" has expired' });
+  });
+
+  it('answers 403 for a token without the scope', async () => {
+    const { token, entryId } = auth.mintToken(['read']);
+    vaultRows = [{ id: entryId, name: 'Reader', expires_at: null }];
+    const { res, next } = await call('install', `Bearer ${token}`);
+    expect(res.statusCode).toBe(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { googleProvider, toGeminiSchema, fromGeminiArgs } from '../../src/lib/llm/providers/google';
+import { WORK_REQUEST_TOOL } from '../../src/lib/llm/tools';
+import type { LLMToolCall } from '../../src/lib/llm/types';
+
+describe('toGeminiSchema', () => {
+  it('upper-cases types and sends free-form objects as JSON-encoded strings', () => {
+    const schema = toGeminiSchema(WORK_REQUEST_TOOL.parameters) as { type: string; properties: Record<string, { type: string; description?: string }> };
+    expect(schema.type).toBe('OBJECT');
+    expect(schema.properties.skill_id.type).toBe('STRING');
+    expect(schema.properties.arguments).toEqual({ type: 'STRING', description: 'Command arguments (JSON-encoded object)' });
+  });
+});
+
+describe('fromGeminiArgs', () => {
+  it('decodes the fields toGeminiSchema turned into strings', () => {
+    const args = { skill_id: 'web-search', command: 'search', arguments: '{"query":"cats","limit":3}', reason: 'research' };
+    expect(fromGeminiArgs(args, WORK_REQUEST_TOOL.parameters)).toEqual({
+      skill_id: 'web-search', command: 'search', arguments: { query: 'cats', limit: 3 }, reason: 'research',
+    });
+  });
+
+  it('decodes inside arrays and nested objects', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        steps: { type: 'array' as const, items: { type: 'object' as const, properties: { params: { type: 'object' as const } } } },
+      },
+    };
+    expect(fromGeminiArgs({ steps: [{ params: '{"a":1}' }, { params: '{}' }] }, schema))
+      .toEqual({ steps: [{ params: { a: 1 } }, { params: {} }] });
+  });
+
+  it('leaves already-decoded objects, non-JSON strings and plain strings alone', () => {
+    const p = WORK_REQUEST_TOOL.parameters;
+    expect(fromGeminiArgs({ arguments: { query: 'x' } }, p)).toEqual({ arguments: { query: 'x' } });
+    expect(fromGeminiArgs({ arguments: 'not json' }, p)).toEqual({ arguments: 'not json' });
+    expect(fromGeminiArgs({ arguments: '[1,2]' }, p)).toEqual({ arguments: '[1,2]' });
+    expect(fromGeminiArgs({ skill_id: '{"x":1}' }, p)).toEqual({ skill_id: '{"x":1}' });
+  });
+});
+
+describe('googleProvider tool calls', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('hands back decoded arguments for a streamed function call', async () => {
+    const event = {
+      candidates: [{ content: { parts: [{ functionCall: { name: 'request_work', args: { skill_id: 's', command: 'c', reason: 'r', arguments: '{"n":2}' } } }] } }],
+    };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(`data: ${JSON.stringify(event)}\n\n`, { status: 200 })));
+
+    const calls = await new Promise<LLMToolCall[] | undefined>((resolve, reject) => {
+      googleProvider.stream([{ role: 'user', content: 'go' }], 'key', 'gemini-test', {
+        onToken: () => {},
+        onDone: (_text, _usage, toolCalls) => resolve(toolCalls),
+        onError: reject,
+      }, { tools: [WORK_REQUEST_TOOL] });
+    });
+    expect(calls).toEqual([{ name: 'request_work', arguments: { skill_id: 's', command: 'c', reason: 'r', arguments: { n: 2 } } }]);
+  });
+});
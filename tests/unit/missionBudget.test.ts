@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeSupabase, type FakeSupabase } from './fakeSupabase';
+import { preflightHoldReason, missionSpend } from '../../src/lib/missionBudget';
+
+const state = vi.hoisted(() => ({ sb: null as unknown }));
+vi.mock('../../src/lib/supabase', () => ({ getSupabase: () => state.sb }));
+
+let sb: FakeSupabase;
+
+const mission = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id, title: id, status: 'in_progress', parent_id: null, budget_cap: null, ...overrides,
+});
+const spent = (missionId: string, cost: number | null) => ({ id: `task-${Math.random()}`, mission_id: missionId, cost_usd: cost });
+const threshold = (usd: number) => ({ key: 'mission_budget_policy', value: JSON.stringify({ approvalThreshold: usd }) });
+
+beforeEach(() => {
+  sb = createFakeSupabase({ settings: [], missions: [], task_executions: [] });
+  state.sb = sb;
+});
+
+describe('missionSpend', () => {
+  it('sums task cost across the mission and every sub-mission below it', async () => {
+    sb.tables.missions.push(mission('epic'), mission('child', { parent_id: 'epic' }), mission('grandchild', { parent_id: 'child' }), mission('other'));
+    sb.tables.task_executions.push(spent('epic', 1), spent('child', 0.5), spent('grandchild', 0.25), spent('grandchild', null), spent('other', 9));
+    expect(await missionSpend('epic')).toBeCloseTo(1.75);
+    expect(await missionSpend('child')).toBeCloseTo(0.75);
+  });
+});
+
+describe('preflightHoldReason', () => {
+  it('holds estimates above the approval threshold — $1 by default, never with 0', async () => {
+    sb.tables.missions.push(mission('m'));
+    expect(await preflightHoldReason('m', 0.99)).toBeNull();
+    expect(await preflightHoldReason('m', 1.5)).toBe('Estimated $1.50 is above the $1.00 approval threshold');
+
+    sb.tables.settings.push(threshold(0));
+    expect(await preflightHoldReason('m', 500)).toBeNull();
+  });
+
+  it('holds estimates above what is left of the mission\'s cap, sub-mission spend included', async () => {
+    sb.tables.settings.push(threshold(0));
+    sb.tables.missions.push(mission('m', { budget_cap: 5 }), mission('sub', { parent_id: 'm' }));
+    sb.tables.task_executions.push(spent('m', 2), spent('sub', 1));
+    expect(await preflightHoldReason('m', 2)).toBeNull();
+    expect(await preflightHoldReason('m', 2.01)).toBe('Estimated $2.01 is more than the $2.00 left of its $5.00 cap');
+  });
+
+  it('holds against a cap on an epic above, naming it', async () => {
+    sb.tables.settings.push(threshold(0));
+    sb.tables.missions.push(
+      mission('epic', { title: 'Launch', budget_cap: 10 }),
+      mission('m', { parent_id: 'epic', budget_cap: 8 }),
+      mission('sibling', { parent_id: 'epic' }),
+    );
+    sb.tables.task_executions.push(spent('sibling', 9.5));
+    expect(await preflightHoldReason('m', 0.75)).toBe('Estimated $0.75 is more than the $0.50 left of "Launch"\'s $10.00 cap');
+  });
+
+  it('reports nothing left, not a negative amount, once a cap is overspent', async () => {
+    sb.tables.settings.push(threshold(0));
+    sb.tables.missions.push(mission('m', { budget_cap: 1 }));
+    sb.tables.task_executions.push(spent('m', 1.4));
+    expect(await preflightHoldReason('m', 0.01)).toBe('Estimated $0.01 is more than the $0.00 left of its $1.00 cap');
+  });
+
+  it('checks caps before the threshold', async () => {
+    sb.tables.missions.push(mission('m', { budget_cap: 3 }));
+    sb.tables.task_executions.push(spent('m', 2));
+    expect(await preflightHoldReason('m', 1.5)).toMatch(/left of its \$3\.00 cap/);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { planTaskGraph, resolveTaskReferences } from '../../src/lib/taskGraph';
+import type { PlanToolCall } from '../../src/lib/llm/tools';
+
+const call = (id: string | undefined, dependsOn: string[] = [], args: Record<string, unknown> = {}): PlanToolCall => ({
+  ...(id !== undefined ? { id } : {}),
+  ...(dependsOn.length > 0 ? { depends_on: dependsOn } : {}),
+  name: 'research',
+  command: 'web_search',
+  arguments: args,
+});
+
+const shape = (calls: PlanToolCall[]) => planTaskGraph(calls).nodes.map(n => [n.key, n.dependsOn]);
+
+describe('planTaskGraph', () => {
+  it('keeps a plan without dependencies in order, with generated keys', () => {
+    expect(shape([call(undefined), call(undefined), call('c')])).toEqual([['t1', []], ['t2', []], ['c', []]]);
+  });
+
+  it('orders upstream tasks before their dependents', () => {
+    expect(shape([call('report', ['research']), call('research')])).toEqual([['research', []], ['report', ['research']]]);
+  });
+
+  it('treats {{key.output}} references as dependencies', () => {
+    const graph = planTaskGraph([call('a'), call('b', [], { content: 'Summarise {{a.output}} and {{ a.summary }}' })]);
+    expect(graph.nodes[1].dependsOn).toEqual(['a']);
+  });
+
+  it('drops unknown and self dependencies with a warning', () => {
+    const graph = planTaskGraph([call('a', ['a', 'ghost'])]);
+    expect(graph.nodes[0].dependsOn).toEqual([]);
+    expect(graph.warnings).toEqual([
+      'Task "a" cannot depend on itself',
+      'Task "a" depends on unknown task "ghost"',
+    ]);
+  });
+
+  it('renames duplicate ids to keys no other call uses', () => {
+    const graph = planTaskGraph([call('a'), call('a-2'), call('a'), call('a')]);
+    const keys = graph.nodes.map(n => n.key);
+    expect(new Set(keys).size).toBe(4);
+    expect(keys).toEqual(['a', 'a-2', 'a-3', 'a-4']);
+    expect(graph.warnings).toHaveLength(2);
+  });
+
+  it('does not hand a renamed duplicate an id declared later in the plan', () => {
+    const graph = planTaskGraph([call('a'), call('a'), call('a-2'), call('b', ['a-2'])]);
+    expect(graph.nodes.map(n => n.key)).toEqual(['a', 'a-3', 'a-2', 'b']);
+    expect(graph.nodes.find(n => n.key === 'b')!.dependsOn).toEqual(['a-2']);
+  });
+
+  it('breaks a cycle by dropping only its edges', () => {
+    const graph = planTaskGraph([
+      call('root'),
+      call('a', ['root', 'b']),
+      call('b', ['a']),
+      call('leaf', ['a']),
+    ]);
+    const deps = Object.fromEntries(graph.nodes.map(n => [n.key, n.dependsOn]));
+    expect(deps).toEqual({ root: [], a: ['root'], b: [], leaf: ['a'] });
+    expect(graph.warnings).toHaveLength(1);
+    expect(graph.warnings[0]).toMatch(/cycle "a" → "b" → "a"/);
+  });
+
+  it('returns a topological order after breaking cycles', () => {
+    const graph = planTaskGraph([call('x', ['z']), call('y', ['x']), call('z', ['y']), call('w', ['z'])]);
+    const position = new Map(graph.nodes.map((n, i) => [n.key, i]));
+    for (const n of graph.nodes) {
+      for (const dep of n.dependsOn) expect(position.get(dep)!).toBeLessThan(position.get(n.key)!);
+    }
+    expect(graph.nodes.find(n => n.key === 'w')!.dependsOn).toEqual(['z']);
+  });
+});
+
+describe('resolveTaskReferences', () => {
+  const upstream = [
+    { key: 'research', result: { output: 'full findings', summary: 'short' } },
+    { key: 'draft', result: { summary: 'only a summary' } },
+  ];
+
+  it('fills in output and summary references, deep in the params', () => {
+    const params = {
+      content: 'Report: {{research.output}}',
+      meta: { note: '{{research.summary}} / {{research}}' },
+      list: ['{{draft.output}}'],
+      count: 3,
+    };
+    expect(resolveTaskReferences(params, upstream)).toEqual({
+      content: 'Report: full findings',
+      meta: { note: 'short / full findings' },
+      list: ['only a summary'],
+      count: 3,
+    });
+  });
+
+  it('leaves references to unknown keys as written', () => {
+    expect(resolveTaskReferences('{{missing.output}}', upstream)).toBe('{{missing.output}}');
+  });
+
+  it('truncates very long outputs', () => {
+    const long = [{ key: 'big', result: { output: 'x'.repeat(30_000) } }];
+    const resolved = resolveTaskReferences('{{big.output}}', long);
+    expect(resolved.length).toBeLessThan(30_000);
+    expect(resolved.endsWith('…[truncated]')).toBe(true);
+  });
+});
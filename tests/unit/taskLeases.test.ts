@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeSupabase, type FakeSupabase } from './fakeSupabase';
+import { acquireTaskLease, recoverTaskLeases, setLeaseOwner, MAX_TASK_ATTEMPTS } from '../../src/lib/taskLeases';
+
+const state = vi.hoisted(() => ({ sb: null as unknown }));
+vi.mock('../../src/lib/supabase', () => ({ getSupabase: () => state.sb }));
+
+let sb: FakeSupabase;
+
+const inMs = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+const task = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id, mission_id: null, skill_id: 'research', command_name: 'web_search', status: 'pending', attempts: 0,
+  idempotency_key: null, lease_owner: null, lease_expires_at: null, started_at: null, admitted_at: null, ...overrides,
+});
+
+const row = (id: string) => sb.tables.task_executions.find(t => t.id === id)!;
+const actions = () => sb.tables.audit_log.map(a => a.action);
+
+beforeEach(() => {
+  sb = createFakeSupabase({ task_executions: [], audit_log: [] });
+  state.sb = sb;
+  setLeaseOwner('sidecar-test');
+});
+
+describe('acquireTaskLease', () => {
+  it('claims a pending task: running, leased to this process, first attempt', async () => {
+    sb.tables.task_executions.push(task('t1'));
+    const lease = await acquireTaskLease('t1');
+    lease!.release();
+    expect(lease).toMatchObject({ taskId: 't1', attempt: 1 });
+    expect(row('t1')).toMatchObject({ status: 'running', attempts: 1, lease_owner: 'sidecar-test', idempotency_key: lease!.idempotencyKey });
+  });
+
+  it('never takes a live lease — another executor\'s or this process\'s own', async () => {
+    sb.tables.task_executions.push(
+      task('theirs', { status: 'running', attempts: 1, lease_owner: 'browser-abc', lease_expires_at: inMs(60_000) }),
+      task('ours', { status: 'running', attempts: 1, lease_owner: 'sidecar-test', lease_expires_at: inMs(60_000) }),
+    );
+    expect(await acquireTaskLease('theirs')).toBeNull();
+    expect(await acquireTaskLease('ours')).toBeNull();
+    expect(row('ours').attempts).toBe(1);
+  });
+
+  it('takes over a running task whose lease ran out, keeping its idempotency key', async () => {
+    sb.tables.task_executions.push(task('t1', { status: 'running', attempts: 1, idempotency_key: 't1:key', lease_owner: 'browser-abc', lease_expires_at: inMs(-1_000) }));
+    const lease = await acquireTaskLease('t1');
+    lease!.release();
+    expect(lease).toMatchObject({ attempt: 2, idempotencyKey: 't1:key' });
+    expect(row('t1').lease_owner).toBe('sidecar-test');
+  });
+
+  it('leaves finished tasks alone', async () => {
+    sb.tables.task_executions.push(task('t1', { status: 'completed' }));
+    expect(await acquireTaskLease('t1')).toBeNull();
+  });
+});
+
+describe('recoverTaskLeases', () => {
+  it('re-queues running tasks whose lease expired and leaves live ones running', async () => {
+    sb.tables.task_executions.push(
+      task('lost', { status: 'running', attempts: 1, lease_owner: 'browser-abc', lease_expires_at: inMs(-1_000), started_at: inMs(-60_000) }),
+      task('live', { status: 'running', attempts: 1, lease_owner: 'browser-def', lease_expires_at: inMs(60_000) }),
+    );
+    expect(await recoverTaskLeases()).toBe(1);
+    expect(row('lost')).toMatchObject({ status: 'queued', attempts: 1, lease_owner: null, lease_expires_at: null, started_at: null });
+    expect(row('live').status).toBe('running');
+    expect(actions()).toEqual(['TASK_LEASE_RECOVERED']);
+    expect(sb.tables.audit_log[0].details).toContain(`attempt 2/${MAX_TASK_ATTEMPTS}`);
+  });
+
+  it('fails a task that has used up its attempts instead of re-queueing it', async () => {
+    sb.tables.task_executions.push(task('t1', { status: 'running', attempts: MAX_TASK_ATTEMPTS, lease_owner: 'browser-abc', lease_expires_at: inMs(-1_000) }));
+    expect(await recoverTaskLeases()).toBe(1);
+    expect(row('t1')).toMatchObject({ status: 'failed', lease_owner: null });
+    expect(row('t1').result.error).toMatch(/giving up/);
+    expect(actions()).toEqual(['TASK_LEASE_EXHAUSTED']);
+  });
+
+  it('with heldBy, reclaims that owner\'s live leases only', async () => {
+    sb.tables.task_executions.push(
+      task('ours', { status: 'running', attempts: 1, lease_owner: 'sidecar-test', lease_expires_at: inMs(60_000) }),
+      task('theirs', { status: 'running', attempts: 1, lease_owner: 'browser-abc', lease_expires_at: inMs(60_000) }),
+    );
+    expect(await recoverTaskLeases({ heldBy: 'sidecar-test' })).toBe(1);
+    expect(row('ours').status).toBe('queued');
+    expect(row('theirs').status).toBe('running');
+  });
+
+  it('recovers a task once, however many ticks race for it', async () => {
+    sb.tables.task_executions.push(task('t1', { status: 'running', attempts: 1, lease_owner: 'browser-abc', lease_expires_at: inMs(-1_000) }));
+    const counts = await Promise.all([recoverTaskLeases(), recoverTaskLeases()]);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(1);
+    expect(actions()).toEqual(['TASK_LEASE_RECOVERED']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { planAdmissions, DEFAULT_QUEUE_LIMITS, type QueueLimits, type QueueTask } from '../../src/lib/taskQueue';
+
+let seq = 0;
+const task = (overrides: Partial<QueueTask> = {}): QueueTask => ({
+  id: `task-${++seq}`,
+  mission_id: 'mission-1',
+  agent_id: 'agent-a',
+  skill_id: 'research',
+  command_name: 'web_search',
+  params: {},
+  model: 'claude',
+  context: {},
+  status: 'queued',
+  depends_on: [],
+  task_key: null,
+  created_at: new Date(Date.UTC(2024, 0, 1, 0, seq)).toISOString(),
+  admitted_at: null,
+  started_at: null,
+  attempts: 0,
+  lease_owner: null,
+  provider: 'Anthropic',
+  mission_title: null,
+  priority: 'medium',
+  deadline: null,
+  spend_hold: null,
+  ...overrides,
+});
+
+const limits = (overrides: Partial<QueueLimits> = {}): QueueLimits => ({ ...DEFAULT_QUEUE_LIMITS, ...overrides });
+
+const admitted = (queued: QueueTask[], inFlight: QueueTask[], l: QueueLimits) =>
+  planAdmissions({ limits: l, queued, inFlight, blocked: [] }).filter(d => d.admit).map(d => d.task.id);
+
+describe('planAdmissions', () => {
+  it('admits head-first up to the global cap', () => {
+    const queued = [task(), task({ agent_id: 'b' }), task({ agent_id: 'c' })];
+    const decisions = planAdmissions({ limits: limits({ maxConcurrent: 3 }), queued, inFlight: [task({ status: 'running', agent_id: 'd' })], blocked: [] });
+    expect(decisions.map(d => d.admit)).toEqual([true, true, false]);
+    expect(decisions[2].reason).toBe('All 3 slots busy');
+  });
+
+  it('counts tasks admitted earlier in the same drain against the caps', () => {
+    const queued = [task(), task(), task()];
+    const decisions = planAdmissions({ limits: limits({ perAgent: 2 }), queued, inFlight: [], blocked: [] });
+    expect(decisions.map(d => d.admit)).toEqual([true, true, false]);
+    expect(decisions[2].reason).toBe('Agent agent-a at its limit (2/2)');
+  });
+
+  it('does not let a saturated provider hold up tasks behind it', () => {
+    const busy = [task({ status: 'running', agent_id: 'x' }), task({ status: 'running', agent_id: 'y' })];
+    const blockedHead = task({ agent_id: 'b' });
+    const other = task({ agent_id: 'c', provider: 'OpenAI' });
+    const decisions = planAdmissions({ limits: limits({ perProvider: 2 }), queued: [blockedHead, other], inFlight: busy, blocked: [] });
+    expect(decisions[0]).toMatchObject({ admit: false, reason: 'Anthropic at its limit (2/2)' });
+    expect(decisions[1].admit).toBe(true);
+  });
+
+  it('applies per-provider overrides', () => {
+    const queued = [task({ agent_id: 'a' }), task({ agent_id: 'b' }), task({ agent_id: 'c', provider: 'OpenAI' })];
+    expect(admitted(queued, [], limits({ perProvider: 4, providerOverrides: { Anthropic: 1 } })))
+      .toEqual([queued[0].id, queued[2].id]);
+  });
+
+  it('treats 0 as unlimited', () => {
+    const queued = Array.from({ length: 10 }, () => task());
+    expect(admitted(queued, [], { maxConcurrent: 0, perAgent: 0, perProvider: 0, providerOverrides: {} })).toHaveLength(10);
+  });
+
+  it('holds tasks whose budget allocation is spent without taking a slot', () => {
+    const held = task({ spend_hold: 'Agent agent-a spent its monthly allocation' });
+    const next = task({ agent_id: 'b' });
+    const decisions = planAdmissions({ limits: limits({ maxConcurrent: 1 }), queued: [held, next], inFlight: [], blocked: [] });
+    expect(decisions[0]).toMatchObject({ admit: false, reason: 'Agent agent-a spent its monthly allocation' });
+    expect(decisions[1].admit).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFakeSupabase, type FakeSupabase } from './fakeSupabase';
+import { encryptPrivateKey, bufferToBase64, base64ToBuffer } from '../../src/lib/jarvisKey';
+
+const state = vi.hoisted(() => ({ sb: null as unknown }));
+vi.mock('../../src/lib/supabase', () => ({ getSupabase: () => state.sb }));
+
+// PBKDF2 at 600k iterations — a few derivations per test
+vi.setConfig({ testTimeout: 30_000 });
+
+let sb: FakeSupabase;
+// vaultCrypto keeps the data key and key record for the process — load it fresh per test
+const load = () => import('../../src/lib/vaultCrypto');
+
+beforeEach(() => {
+  vi.resetModules();
+  sb = createFakeSupabase({ settings: [], vault: [], audit_log: [] });
+  state.sb = sb;
+});
+
+const row = { id: 'vault-openai', service: 'OpenAI' };
+
+/** A v1 value the way it was sealed before row binding */
+async function sealUnbound(raw: string, plaintext: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base64ToBuffer(raw), { name: 'AES-GCM' }, false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `v1:${bufferToBase64(iv.buffer)}:${bufferToBase64(ciphertext)}`;
+}
+
+describe('sealing', () => {
+  it('stores plaintext until encryption is set up, then seals bound to the row', async () => {
+    const vault = await load();
+    expect(await vault.sealSecret('sk-live', row)).toEqual({ key_value: 'sk-live', encrypted: false });
+
+    await vault.setupVaultEncryption('correct horse', 'session');
+    const sealed = await vault.sealSecret('sk-live', row);
+    expect(sealed.encrypted).toBe(true);
+    expect(sealed.key_value).toMatch(/^v2:/);
+    expect(await vault.openSecret(sealed.key_value, true, row)).toBe('sk-live');
+    // Lookups ignore the service's case and padding, so the binding does too
+    expect(await vault.openSecret(sealed.key_value, true, { id: row.id, service: ' openai ' })).toBe('sk-live');
+  });
+
+  it('refuses a sealed value copied to another row or service', async () => {
+    const vault = await load();
+    await vault.setupVaultEncryption('correct horse', 'session');
+    const { key_value } = await vault.sealSecret('sk-live', row);
+    await expect(vault.openSecret(key_value, true, { id: 'vault-other', service: 'OpenAI' })).rejects.toThrow();
+    await expect(vault.openSecret(key_value, true, { id: row.id, service: 'Anthropic' })).rejects.toThrow();
+  });
+
+  it('seals existing plaintext rows at setup, and refuses plaintext rows from then on', async () => {
+    sb.tables.vault.push({ id: row.id, service: row.service, key_value: 'sk-old', encrypted: false });
+    const vault = await load();
+    expect(await vault.setupVaultEncryption('correct horse', 'session')).toBe(1);
+
+    const stored = sb.tables.vault[0];
+    expect(stored.encrypted).toBe(true);
+    expect(await vault.openSecret(stored.key_value, true, row)).toBe('sk-old');
+    await expect(vault.openSecret('sk-forged', false, row)).rejects.toThrow(/plaintext in an encrypted Vault/);
+  });
+});
+
+describe('locking', () => {
+  it('reads sealed values as null and refuses writes while locked; unlocks with the master password only', async () => {
+    const vault = await load();
+    await vault.setupVaultEncryption('correct horse', 'session');
+    const { key_value } = await vault.sealSecret('sk-live', row);
+
+    vault.lockVault();
+    expect(await vault.isVaultLocked()).toBe(true);
+    expect(await vault.openSecret(key_value, true, row)).toBeNull();
+    await expect(vault.sealSecret('sk-new', row)).rejects.toBeInstanceOf(vault.VaultLockedError);
+    // Still encrypted while locked: a plaintext row is not trusted either
+    await expect(vault.openSecret('sk-forged', false, row)).rejects.toThrow();
+
+    await expect(vault.unlockVault('wrong', 'session')).rejects.toThrow('Wrong master password');
+    await vault.unlockVault('correct horse', 'session');
+    expect(await vault.openSecret(key_value, true, row)).toBe('sk-live');
+  });
+});
+
+describe('binding values sealed before row binding', () => {
+  it('re-seals v1 values bound to their row on the first unlock, then refuses v1', async () => {
+    const raw = bufferToBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+    const record = {
+      wrappedKey: await encryptPrivateKey(raw, 'correct horse'),
+      check: await sealUnbound(raw, 'jarvis-vault'),
+      createdAt: '2025-01-01T00:00:00.000Z',
+    };
+    sb.tables.settings.push({ key: 'vault_key', value: JSON.stringify(record) });
+    const legacy = await sealUnbound(raw, 'sk-legacy');
+    sb.tables.vault.push({ id: row.id, service: row.service, key_value: legacy, encrypted: true });
+
+    const vault = await load();
+    await vault.unlockVault('correct horse', 'session');
+
+    const rebound = sb.tables.vault[0].key_value as string;
+    expect(rebound).toMatch(/^v2:/);
+    expect(await vault.openSecret(rebound, true, row)).toBe('sk-legacy');
+    expect(JSON.parse(sb.tables.settings[0].value).bound).toBe(true);
+    await expect(vault.openSecret(legacy, true, row)).rejects.toThrow(/without its row binding/);
+    expect(sb.tables.audit_log.map(a => a.action)).toContain('VAULT_BOUND');
+  });
+
+  it('unlocks the sidecar with a key file only if it holds this Vault\'s data key', async () => {
+    const raw = bufferToBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+    const record = {
+      wrappedKey: await encryptPrivateKey(raw, 'correct horse'),
+      check: await sealUnbound(raw, 'jarvis-vault'),
+      createdAt: '2025-01-01T00:00:00.000Z',
+      bound: true,
+    };
+    sb.tables.settings.push({ key: 'vault_key', value: JSON.stringify(record) });
+
+    const vault = await load();
+    const other = bufferToBase64(crypto.getRandomValues(new Uint8Array(32)).buffer);
+    expect(await vault.unlockVaultWithKeyFile({ vaultKey: other, createdAt: record.createdAt })).toBe(false);
+    expect(await vault.isVaultLocked()).toBe(true);
+
+    expect(await vault.unlockVaultWithKeyFile({ vaultKey: raw, createdAt: record.createdAt })).toBe(true);
+    const { key_value } = await vault.sealSecret('sk-live', row);
+    expect(await vault.openSecret(key_value, true, row)).toBe('sk-live');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { scopeDenial, skillDeclaresService, isScoped, type VaultScope, type VaultSkillRef } from '../../src/lib/vaultScopes';
+
+const scope = (overrides: Partial<VaultScope> = {}): VaultScope => ({ skills: [], agents: [], contexts: [], ...overrides });
+
+const skill = (id: string, declaration: Omit<VaultSkillRef, 'id'> = {}): VaultSkillRef => ({ id, ...declaration });
+
+describe('scopeDenial', () => {
+  it('allows anything without a scope, or with every list empty', () => {
+    expect(isScoped(scope())).toBe(false);
+    expect(scopeDenial(null, 'OpenAI', { context: 'ceo_chat' })).toBeNull();
+    expect(scopeDenial(scope(), 'OpenAI', { context: 'forum', agentId: 'agent-1' })).toBeNull();
+  });
+
+  it('refuses contexts outside the list', () => {
+    const s = scope({ contexts: ['ceo_chat', 'agent_chat'] });
+    expect(scopeDenial(s, 'OpenAI', { context: 'agent_chat' })).toBeNull();
+    expect(scopeDenial(s, 'OpenAI', { context: 'forum' })).toBe('context forum is not allowed');
+  });
+
+  it('refuses skills and agents outside their lists, but only reads made for one', () => {
+    const s = scope({ skills: ['web-search'], agents: ['agent-1'] });
+    expect(scopeDenial(s, 'OpenAI', { context: 'skill_execution', skill: skill('web-search'), agentId: 'agent-1' })).toBeNull();
+    expect(scopeDenial(s, 'OpenAI', { context: 'skill_execution', skill: skill('write-email') })).toBe('skill write-email is not allowed');
+    expect(scopeDenial(s, 'OpenAI', { context: 'agent_chat', agentId: 'agent-2' })).toBe('agent agent-2 is not allowed');
+    // Neither a skill nor an agent — only the contexts list applies
+    expect(scopeDenial(s, 'OpenAI', { context: 'ceo_decision' })).toBeNull();
+  });
+
+  it('checks the context before the skill and the agent', () => {
+    const s = scope({ contexts: ['ceo_chat'], skills: ['web-search'] });
+    expect(scopeDenial(s, 'OpenAI', { context: 'forum', skill: skill('other') })).toBe('context forum is not allowed');
+  });
+
+  it('refuses a skill credential the skill does not declare, even without a scope', () => {
+    const access = { context: 'skill_credential' as const, skill: skill('weather') };
+    expect(scopeDenial(null, 'OpenWeather', access)).toBe('skill weather does not declare OpenWeather');
+    expect(scopeDenial(null, 'OpenWeather', { ...access, skill: skill('weather', { permissions: ['vault:openweather'] }) })).toBeNull();
+  });
+});
+
+describe('skillDeclaresService', () => {
+  it('accepts the api_config service, the OAuth client and vault: permissions, ignoring case', () => {
+    expect(skillDeclaresService({ apiConfig: { vault_service: 'OpenWeather' } as VaultSkillRef['apiConfig'] }, 'openweather')).toBe(true);
+    expect(skillDeclaresService({ oauthConfig: { provider: 'Google' } }, 'Google OAuth Client')).toBe(true);
+    expect(skillDeclaresService({ permissions: ['network', 'vault:GitHub'] }, 'github')).toBe(true);
+    expect(skillDeclaresService({ permissions: ['vault:github'] }, 'GitLab')).toBe(false);
+    expect(skillDeclaresService({}, 'GitHub')).toBe(false);
+  });
+});
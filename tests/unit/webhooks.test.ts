@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { signWebhookPayload, generateWebhookSecret, httpDeliveryResult } from '../../src/lib/webhooks';
+
+describe('signWebhookPayload', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ event: 'mission.completed', data: { mission_id: 'm-1' } });
+
+  it('is sha256= + hex HMAC-SHA256 of "<timestamp>.<body>", as receivers verify it', async () => {
+    const expected = 'sha256=' + createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+    expect(await signWebhookPayload(secret, 1700000000, body)).toBe(expected);
+  });
+
+  it('changes with the timestamp, the body and the secret', async () => {
+    const base = await signWebhookPayload(secret, 1700000000, body);
+    expect(await signWebhookPayload(secret, 1700000001, body)).not.toBe(base);
+    expect(await signWebhookPayload(secret, 1700000000, body + ' ')).not.toBe(base);
+    expect(await signWebhookPayload('whsec_other', 1700000000, body)).not.toBe(base);
+  });
+});
+
+describe('generateWebhookSecret', () => {
+  it('is a prefixed 256-bit hex secret, fresh each time', () => {
+    const a = generateWebhookSecret();
+    expect(a).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateWebhookSecret()).not.toBe(a);
+  });
+});
+
+describe('httpDeliveryResult', () => {
+  it('treats 2xx as delivered', async () => {
+    expect(await httpDeliveryResult(new Response('ok', { status: 200 })))
+      .toEqual({ ok: true, status: 200, error: null, retryable: false });
+  });
+
+  it('retries server errors, timeouts and rate limits', async () => {
+    for (const status of [500, 503, 408, 425, 429]) {
+      expect((await httpDeliveryResult(new Response('busy', { status }))).retryable).toBe(true);
+    }
+  });
+
+  it('gives up on other client errors, keeping the response text', async () => {
+    const result = await httpDeliveryResult(new Response('bad signature', { status: 401 }));
+    expect(result).toEqual({ ok: false, status: 401, error: 'HTTP 401: bad signature', retryable: false });
+  });
+});